@@ -5,6 +5,20 @@
  * Analyze errors.jsonl from failed imports, group by pattern, classify retryability,
  * generate retry CSVs, and suggest fixes.
  *
+ * Errors raised after the user was created (membership or role step) are
+ * written to a separate membership retry CSV with a user_id column; importing
+ * it skips user creation and re-attempts only the membership or roles.
+ *
+ * With --remediated-csv, rule-based fixes (metadata, email, password hash) are
+ * applied to the rows of non-retryable errors and written to a corrected retry
+ * CSV with a JSON log of every change.
+ *
+ * Given several errors files (or a directory of them), the rounds are also
+ * joined per user to report persistent vs. resolved failures, pattern trends
+ * and a give-up list; the standard analysis runs on the latest round. Pass
+ * --inputs (the file imported in each round) so users who were retried and
+ * succeeded count as resolved rather than not retried.
+ *
  * Exit codes:
  * - 0: Success (has retryable errors)
  * - 1: No retryable errors (all errors are non-retryable)
@@ -13,11 +27,13 @@
 
 import 'dotenv/config';
 import { Command } from 'commander';
-import fs from 'node:fs';
 import chalk from 'chalk';
 import { ErrorAnalyzer } from '../src/analyzer/errorAnalyzer.js';
-import { generateRetryCsv } from '../src/analyzer/retryCsvGenerator.js';
+import { remediateErrors, writeRemediationLog } from '../src/analyzer/errorRemediator.js';
+import { ErrorHistoryAnalyzer, resolveErrorFiles, writeGiveUpList } from '../src/analyzer/errorHistory.js';
+import { generateMembershipRetryCsv, generateRetryCsv } from '../src/analyzer/retryCsvGenerator.js';
 import type { AnalyzerOptions } from '../src/analyzer/types.js';
+import { DEFAULT_REDACTION_POLICY, parseRedactionRules, type RedactionPolicy } from '../src/redaction.js';
 
 const program = new Command();
 
@@ -25,10 +41,17 @@ program
   .name('analyze-errors')
   .description('Analyze errors.jsonl from failed imports and generate retry CSVs')
   .version('1.0.0')
-  .requiredOption('--errors <path>', 'Path to errors.jsonl file')
+  .requiredOption('--errors <paths...>', 'errors.jsonl file(s) or directories, oldest round first')
   .option('--retry-csv <path>', 'Output path for retry CSV')
+  .option('--membership-retry-csv <path>', 'Output path for membership/role-only retry CSV (default: <retry-csv>-membership.csv)')
+  .option('--remediated-csv <path>', 'Apply automatic fixes to non-retryable errors and write the corrected rows as a retry CSV')
   .option('--report <path>', 'JSON report path (default: error-analysis-report.json)', 'error-analysis-report.json')
+  .option('--inputs <paths...>', 'CSV/JSONL file imported in each round, in the same order as the errors files')
+  .option('--history-report <path>', 'Cross-run history report path when several rounds are given', 'error-history-report.json')
+  .option('--give-up-after <n>', 'Rounds failing with the same non-retryable pattern before a user is given up on', '3')
+  .option('--give-up-list <path>', 'Write the give-up list as CSV (email, external_id, attempts, pattern)')
   .option('--include-duplicates', 'Include duplicate emails in retry CSV (default: false)', false)
+  .option('--redact <rules>', 'PII redaction for the reports, e.g. email=mask,metadata=drop (actions: keep, drop, hash, mask)')
   .option('--quiet', 'Suppress progress output')
   .parse(process.argv);
 
@@ -39,32 +62,100 @@ const opts = program.opts();
  */
 async function main() {
   // Validate options
-  if (!fs.existsSync(opts.errors)) {
-    console.error(chalk.red(`Error: Errors file not found: ${opts.errors}`));
+  let errorFiles: string[];
+  try {
+    errorFiles = resolveErrorFiles(opts.errors);
+  } catch (err) {
+    console.error(chalk.red(`Error: ${err instanceof Error ? err.message : String(err)}`));
+    process.exit(2);
+  }
+  const latestErrors = errorFiles[errorFiles.length - 1]!;
+
+  const giveUpAfter = parseInt(opts.giveUpAfter, 10);
+  if (isNaN(giveUpAfter) || giveUpAfter < 1) {
+    console.error(chalk.red('Error: --give-up-after must be a positive integer'));
     process.exit(2);
   }
 
+  let redaction: RedactionPolicy = DEFAULT_REDACTION_POLICY;
+  if (opts.redact) {
+    try {
+      redaction = parseRedactionRules(opts.redact);
+    } catch (err) {
+      console.error(chalk.red(`Error: ${err instanceof Error ? err.message : String(err)}`));
+      process.exit(2);
+    }
+  }
+
+  // Membership/role-only retries go next to the retry CSV unless a path is given
+  const membershipRetryCsv: string | undefined = opts.membershipRetryCsv
+    ?? (opts.retryCsv ? opts.retryCsv.replace(/\.csv$/i, '') + '-membership.csv' : undefined);
+
   // Build analyzer options
   const options: AnalyzerOptions = {
-    errorsPath: opts.errors,
+    errorsPath: latestErrors,
     retryCsvPath: opts.retryCsv,
+    membershipRetryCsvPath: membershipRetryCsv,
     reportPath: opts.report,
     includeDuplicates: opts.includeDuplicates,
+    redaction,
     quiet: opts.quiet
   };
 
   try {
+    // Cross-run history when more than one round is given
+    if (errorFiles.length > 1) {
+      const history = await new ErrorHistoryAnalyzer({
+        errorsPaths: errorFiles,
+        inputPaths: opts.inputs,
+        reportPath: opts.historyReport,
+        giveUpAfter,
+        redaction,
+        quiet: opts.quiet
+      }).analyze();
+
+      if (opts.giveUpList) {
+        await writeGiveUpList(history.giveUp, opts.giveUpList);
+      }
+
+      console.log('');
+      console.log(chalk.cyan('============================================================'));
+      console.log(chalk.cyan(`ERROR HISTORY (${history.rounds.length} ROUNDS)`));
+      console.log(chalk.cyan('============================================================'));
+      console.log(`Users with failures:   ${history.summary.totalUsers}`);
+      console.log(`Persistent:            ${chalk.red(String(history.summary.persistent))}`);
+      console.log(`New in last round:     ${chalk.yellow(String(history.summary.new))}`);
+      console.log(`Resolved:              ${chalk.green(String(history.summary.resolved))}`);
+      console.log(`Not retried:           ${chalk.yellow(String(history.summary.notRetried))}`);
+      console.log(`Give up (${giveUpAfter}+ rounds):   ${history.summary.giveUp}`);
+      const changed = history.patterns.filter(p => p.trend !== 'steady').slice(0, 5);
+      if (changed.length > 0) {
+        console.log(chalk.bold('\nPattern trends:'));
+        for (const p of changed) {
+          console.log(`  [${p.trend.toUpperCase()}] ${p.pattern} (${p.countsByRound.join(' → ')})`);
+        }
+      }
+      console.log(chalk.cyan('============================================================'));
+      console.log(`History report:        ${chalk.cyan(opts.historyReport)}`);
+      if (opts.giveUpList) {
+        console.log(`Give-up list:          ${chalk.cyan(opts.giveUpList)}`);
+      }
+      console.log(chalk.gray(`\nAnalyzing latest round: ${latestErrors}`));
+    }
+
     // Run analysis
     const analyzer = new ErrorAnalyzer(options);
     const report = await analyzer.analyze();
 
     // Generate retry CSV if requested
+    let retryCsvWritten = false;
     if (opts.retryCsv) {
-      const retryableErrors = analyzer.getRetryableErrors();
+      const retryableErrors = analyzer.getRetryableErrors(['full']);
 
       if (retryableErrors.length === 0) {
-        console.log(chalk.yellow('\n⚠️  No retryable errors found - retry CSV not generated'));
+        console.log(chalk.yellow('\n⚠️  No retryable errors need a full re-import - retry CSV not generated'));
       } else {
+        retryCsvWritten = true;
         await generateRetryCsv(retryableErrors, opts.retryCsv, opts.includeDuplicates);
 
         if (!opts.quiet) {
@@ -77,6 +168,46 @@ async function main() {
       }
     }
 
+    // Generate membership/role-only retry CSV
+    let membershipRetryCsvWritten = false;
+    if (membershipRetryCsv) {
+      const membershipErrors = analyzer.getRetryableErrors(['membership', 'role']);
+
+      if (membershipErrors.length > 0) {
+        const rowCount = await generateMembershipRetryCsv(membershipErrors, membershipRetryCsv);
+        membershipRetryCsvWritten = true;
+
+        if (!opts.quiet) {
+          console.log(chalk.green(`\n✓ Membership retry CSV generated: ${membershipRetryCsv}`));
+          console.log(chalk.gray(`  Contains ${rowCount} row(s) for existing users (user creation is skipped)`));
+        }
+      }
+    }
+
+    // Auto-remediate non-retryable errors
+    let remediatedCsvWritten = false;
+    let remediationLog: string | undefined;
+    if (opts.remediatedCsv) {
+      const remediation = remediateErrors(analyzer.getErrors(), report.groups);
+      remediationLog = opts.remediatedCsv.replace(/\.csv$/i, '') + '-changes.json';
+      writeRemediationLog(remediation, remediationLog, redaction);
+
+      if (remediation.rows.length === 0) {
+        console.log(chalk.yellow('\n⚠️  No non-retryable errors could be fixed automatically - remediated CSV not generated'));
+      } else {
+        remediatedCsvWritten = true;
+        await generateRetryCsv(remediation.rows, opts.remediatedCsv, opts.includeDuplicates);
+
+        if (!opts.quiet) {
+          console.log(chalk.green(`\n✓ Remediated retry CSV generated: ${opts.remediatedCsv}`));
+          console.log(chalk.gray(`  Fixed ${remediation.rows.length} row(s) with ${remediation.changes.length} change(s); ${remediation.unremediated} error(s) still need manual fixes`));
+          for (const [ruleId, count] of Object.entries(remediation.byRule)) {
+            console.log(chalk.gray(`  • ${ruleId}: ${count}`));
+          }
+        }
+      }
+    }
+
     // Display summary
     console.log('');
     console.log(chalk.cyan('============================================================'));
@@ -84,6 +215,10 @@ async function main() {
     console.log(chalk.cyan('============================================================'));
     console.log(`Total errors:          ${report.summary.totalErrors}`);
     console.log(`Retryable errors:      ${chalk.green(String(report.summary.retryableErrors))} (${report.retryability.retryable.percentage.toFixed(1)}%)`);
+    const { membership: membershipPhase, role: rolePhase } = report.retryability.retryable.byPhase;
+    if (membershipPhase + rolePhase > 0) {
+      console.log(`  Membership/role only: ${membershipPhase + rolePhase} (user already exists)`);
+    }
     console.log(`Non-retryable errors:  ${chalk.red(String(report.summary.nonRetryableErrors))} (${report.retryability.nonRetryable.percentage.toFixed(1)}%)`);
     console.log(`Unique emails:         ${report.summary.uniqueEmails}`);
     console.log(`Error patterns:        ${report.summary.uniqueErrorPatterns}`);
@@ -154,12 +289,27 @@ async function main() {
     // Display file paths
     console.log(chalk.cyan('============================================================'));
     console.log(`Full report:           ${chalk.cyan(opts.report)}`);
-    if (opts.retryCsv && report.summary.retryableErrors > 0) {
+    if (retryCsvWritten) {
       console.log(`Retry CSV:             ${chalk.green(opts.retryCsv)}`);
     }
+    if (membershipRetryCsvWritten) {
+      console.log(`Membership retry CSV:  ${chalk.green(membershipRetryCsv!)}`);
+    }
+    if (remediatedCsvWritten) {
+      console.log(`Remediated CSV:        ${chalk.green(opts.remediatedCsv)}`);
+    }
+    if (remediationLog) {
+      console.log(`Remediation log:       ${chalk.cyan(remediationLog)}`);
+    }
     console.log(chalk.cyan('============================================================'));
     console.log('');
 
+    if (remediatedCsvWritten) {
+      console.log(chalk.gray(`Review ${remediationLog}, then retry the fixed rows with:`));
+      console.log(chalk.cyan(`  npx tsx bin/import-users.ts --csv ${opts.remediatedCsv}`));
+      console.log('');
+    }
+
     // Exit with appropriate code
     if (report.summary.retryableErrors === 0) {
       console.log(chalk.yellow('⚠️  No retryable errors found'));
@@ -170,7 +320,7 @@ async function main() {
       console.log(chalk.green(`✓ Analysis complete: ${report.summary.retryableErrors} error(s) can be retried`));
 
       // Detect checkpoint mode by parsing errors path
-      const checkpointMatch = opts.errors.match(/\.workos-checkpoints[\/\\]([^\/\\]+)[\/\\]errors\.jsonl/);
+      const checkpointMatch = latestErrors.match(/\.workos-checkpoints[\/\\]([^\/\\]+)[\/\\]errors\.jsonl/);
 
       if (checkpointMatch) {
         // Checkpoint mode detected
@@ -179,10 +329,16 @@ async function main() {
         console.log(chalk.cyan(`  npx tsx bin/orchestrate-migration.ts --csv <your-csv> --resume ${jobId}`));
         console.log(chalk.gray('\nNote: Replace <your-csv> with your original CSV path.'));
         console.log(chalk.gray('      Fix any data validation issues in your CSV before retrying.'));
-      } else if (opts.retryCsv) {
+      } else if (retryCsvWritten || membershipRetryCsvWritten) {
         // Non-checkpoint mode with retry CSV
         console.log(chalk.gray(`\nTo retry failed imports, run:`));
-        console.log(chalk.cyan(`  npx tsx bin/import-users.ts --csv ${opts.retryCsv}`));
+        if (retryCsvWritten) {
+          console.log(chalk.cyan(`  npx tsx bin/import-users.ts --csv ${opts.retryCsv}`));
+        }
+        if (membershipRetryCsvWritten) {
+          console.log(chalk.cyan(`  npx tsx bin/import-users.ts --csv ${membershipRetryCsv}`));
+          console.log(chalk.gray('\nNote: Pass the same --org-id or --role-mapping as the original import.'));
+        }
       }
 
       process.exit(0);
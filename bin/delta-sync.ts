@@ -0,0 +1,140 @@
+#!/usr/bin/env node
+/**
+ * Delta Sync - CLI Entry Point
+ *
+ * Compares a fresh export against the snapshot taken at the previous export and
+ * writes only new, changed and deleted users to a delta CSV (action column).
+ * Import the delta with workos-import-users for the final cut-over sync.
+ *
+ *   npx tsx bin/delta-sync.ts --csv export.csv --snapshot export.snapshot.json --output delta.csv
+ *
+ * The first run (no snapshot yet) saves a baseline and writes no delta.
+ * Users missing from the export are only deleted with --allow-deletes; the
+ * snapshot then waits in <snapshot>.pending until the delta is imported:
+ *
+ *   npx tsx bin/delta-sync.ts --snapshot export.snapshot.json --accept-pending
+ *
+ * Exit codes:
+ * - 0: Success (delta written, or baseline saved)
+ * - 2: Fatal error (bad options, file not found)
+ */
+
+import { Command } from 'commander';
+import fs from 'node:fs';
+import path from 'node:path';
+import chalk from 'chalk';
+import { generateDelta } from '../src/delta/deltaGenerator.js';
+import { acceptPendingSnapshot } from '../src/delta/snapshot.js';
+
+const program = new Command();
+
+program
+  .name('workos-delta')
+  .description('Generate a delta CSV (create/update/delete) from a fresh export and the previous snapshot')
+  .option('--csv <path>', 'Fresh export CSV')
+  .requiredOption('--snapshot <path>', 'Snapshot of the previous export (created on first run)')
+  .option('--output <path>', 'Delta CSV path (default: <csv>-delta.csv)')
+  .option('--no-update-snapshot', 'Keep the existing snapshot instead of replacing it with this export')
+  .option('--allow-deletes', 'Write delete rows for users missing from the export (default: only report them)', false)
+  .option('--max-deletes <n>', 'Withhold delete rows when more users than this would be deleted', (v) => parseInt(v, 10))
+  .option('--max-delete-percent <n>', 'Withhold delete rows when more than this percentage of snapshot users would be deleted (default: 10)', (v) => parseFloat(v))
+  .option('--scope <label>', 'Export scope (e.g. the filter used); deletes are withheld when it differs from the snapshot\'s')
+  .option('--accept-pending', 'Replace the snapshot with the pending one after the delta was imported, then exit')
+  .option('--quiet', 'Suppress warnings')
+  .parse(process.argv);
+
+const opts = program.opts<{
+  csv?: string;
+  snapshot: string;
+  output?: string;
+  updateSnapshot: boolean;
+  allowDeletes: boolean;
+  maxDeletes?: number;
+  maxDeletePercent?: number;
+  scope?: string;
+  acceptPending?: boolean;
+  quiet?: boolean;
+}>();
+
+async function main() {
+  if (opts.acceptPending) {
+    try {
+      acceptPendingSnapshot(path.resolve(opts.snapshot));
+      console.log(chalk.green(`✓ Snapshot updated: ${path.resolve(opts.snapshot)}`));
+      process.exit(0);
+    } catch (err) {
+      console.error(chalk.red(`Error: ${err instanceof Error ? err.message : String(err)}`));
+      process.exit(2);
+    }
+  }
+
+  if (!opts.csv) {
+    console.error(chalk.red('Error: --csv is required'));
+    process.exit(2);
+  }
+  if (!fs.existsSync(opts.csv)) {
+    console.error(chalk.red(`Error: CSV file not found: ${opts.csv}`));
+    process.exit(2);
+  }
+
+  const outputPath = path.resolve(opts.output ?? opts.csv.replace(/\.csv$/i, '') + '-delta.csv');
+
+  try {
+    const summary = await generateDelta({
+      csvPath: path.resolve(opts.csv),
+      snapshotPath: path.resolve(opts.snapshot),
+      outputPath,
+      updateSnapshot: opts.updateSnapshot,
+      allowDeletes: opts.allowDeletes,
+      maxDeletes: opts.maxDeletes,
+      maxDeletePercent: opts.maxDeletePercent,
+      scope: opts.scope
+    });
+
+    if (summary.baseline) {
+      console.log(chalk.green(`✓ No snapshot found: saved baseline of ${summary.totalUsers} users to ${summary.snapshotPath}`));
+      console.log('  Re-run after the next export to produce a delta CSV.');
+      process.exit(0);
+    }
+
+    console.log('');
+    console.log(chalk.cyan('============================================================'));
+    console.log(chalk.cyan('DELTA SUMMARY'));
+    console.log(chalk.cyan('============================================================'));
+    console.log(`Users in export:    ${summary.totalUsers}`);
+    console.log(`New (create):       ${chalk.green(String(summary.created))}`);
+    console.log(`Changed (update):   ${chalk.cyan(String(summary.updated))}`);
+    console.log(`Removed (delete):   ${summary.deleted > 0 ? chalk.yellow(String(summary.deleted)) : '0'}${summary.deletesWithheld ? ' (withheld)' : ''}`);
+    console.log(`Unchanged:          ${summary.unchanged}`);
+    console.log(`Delta rows:         ${summary.deltaRows}`);
+    console.log(chalk.cyan('============================================================'));
+    console.log('');
+
+    if (!opts.quiet) {
+      for (const warning of summary.warnings) {
+        console.log(chalk.yellow(`⚠ ${warning}`));
+      }
+    }
+
+    console.log(`Delta CSV: ${chalk.green(outputPath)}`);
+    if (summary.pendingSnapshotPath) {
+      console.log(`Snapshot:  unchanged until the delta is imported (next snapshot: ${summary.pendingSnapshotPath})`);
+    } else {
+      console.log(`Snapshot:  ${opts.updateSnapshot ? 'updated' : 'unchanged'} (${summary.snapshotPath})`);
+    }
+    if (summary.deltaRows > 0) {
+      console.log(`Next: workos-import-users --csv ${outputPath}`);
+      if (summary.pendingSnapshotPath) {
+        console.log(`Then: workos-delta --snapshot ${summary.snapshotPath} --accept-pending`);
+      }
+    }
+    console.log('');
+    process.exit(0);
+  } catch (err) {
+    console.error(chalk.red('Fatal error during delta generation:'));
+    console.error(err instanceof Error ? err.message : String(err));
+    process.exit(2);
+  }
+}
+
+main();
@@ -4,6 +4,7 @@ import { Command } from "commander";
 import path from "node:path";
 import { Auth0Exporter } from "../src/exporters/auth0/auth0Exporter.js";
 import { createLogger } from "../src/logger.js";
+import { describeExportScope, generateDelta } from "../src/delta/deltaGenerator.js";
 import type { Auth0Credentials } from "../src/exporters/types.js";
 
 /**
@@ -42,9 +43,15 @@ program
   .option("--use-metadata", "Use user_metadata instead of Organizations API (for non-Enterprise plans)", false)
   .option("--metadata-org-id-field <field>", "Custom metadata field for org ID (e.g., company_id, tenant_id)")
   .option("--metadata-org-name-field <field>", "Custom metadata field for org name (e.g., company_name, tenant_name)")
+  .option("--export-roles", "Also export role definitions and a user-role mapping CSV (requires read:roles, read:organization_member_roles)", false)
   .option("--job-id <id>", "Job ID for checkpointing (enables resumability)")
   .option("--resume [jobId]", "Resume from an existing checkpoint (uses --job-id if no value provided)")
   .option("--checkpoint-dir <path>", "Directory for checkpoint files (default: .workos-checkpoints)")
+  .option("--delta-snapshot <path>", "Write a delta CSV of changes since the export recorded in this snapshot (saved as a baseline on first run)")
+  .option("--delta-output <path>", "Delta CSV path (default: <output>-delta.csv)")
+  .option("--allow-deletes", "Write delete rows for users missing from the export (default: only report them)", false)
+  .option("--max-deletes <n>", "Withhold delete rows when more users than this would be deleted", (v) => parseInt(v, 10))
+  .option("--max-delete-percent <n>", "Withhold delete rows when more than this percentage of snapshot users would be deleted (default: 10)", (v) => parseFloat(v))
   .option("--quiet", "Suppress progress output", false)
   .parse(process.argv);
 
@@ -62,9 +69,15 @@ async function main() {
     useMetadata?: boolean;
     metadataOrgIdField?: string;
     metadataOrgNameField?: string;
+    exportRoles?: boolean;
     jobId?: string;
     resume?: boolean | string;
     checkpointDir?: string;
+    deltaSnapshot?: string;
+    deltaOutput?: string;
+    allowDeletes?: boolean;
+    maxDeletes?: number;
+    maxDeletePercent?: number;
     quiet?: boolean;
   }>();
 
@@ -90,6 +103,7 @@ async function main() {
     useMetadata: opts.useMetadata,
     metadataOrgIdField: opts.metadataOrgIdField,
     metadataOrgNameField: opts.metadataOrgNameField,
+    exportRoles: opts.exportRoles,
     jobId: opts.jobId,
     resume: opts.resume,
     checkpointDir: opts.checkpointDir,
@@ -136,11 +150,46 @@ async function main() {
     // Execute export (summary is displayed by exporter)
     const result = await exporter.export();
 
+    // Delta mode: keep only users created, changed or removed since the snapshot
+    let importCsv = path.resolve(opts.output);
+    if (opts.deltaSnapshot) {
+      const delta = await generateDelta({
+        csvPath: importCsv,
+        snapshotPath: path.resolve(opts.deltaSnapshot),
+        outputPath: path.resolve(opts.deltaOutput ?? opts.output.replace(/\.csv$/i, "") + "-delta.csv"),
+        allowDeletes: opts.allowDeletes,
+        maxDeletes: opts.maxDeletes,
+        maxDeletePercent: opts.maxDeletePercent,
+        scope: describeExportScope({ orgs: opts.orgs, "use-metadata": opts.useMetadata }),
+        failedSources: result.summary.failedOrganizations
+      });
+      if (delta.baseline) {
+        logger.log(`Delta: no snapshot found, saved baseline to ${delta.snapshotPath}`);
+      } else {
+        logger.log(`Delta: ${delta.created} new, ${delta.updated} changed, ${delta.deleted} removed (${delta.deltaRows} rows) → ${delta.outputPath}`);
+        delta.warnings.forEach(w => logger.warn(`  ⚠ ${w}`));
+        importCsv = delta.outputPath!;
+        if (delta.pendingSnapshotPath) {
+          logger.log(`Delta: snapshot kept until the delta is imported; then run workos-delta --snapshot ${delta.snapshotPath} --accept-pending`);
+        }
+      }
+      logger.log("");
+    }
+
     // Print next steps
     if (!opts.quiet) {
+      const { orgDefinitionsPath, roleDefinitionsPath, userRoleMappingPath } = result.additionalOutputs ?? {};
+      let step = 1;
       logger.log("Next steps:");
-      logger.log(`  1. Validate: workos-validate-csv --csv ${path.resolve(opts.output)}`);
-      logger.log(`  2. Import: workos-import-users --csv ${path.resolve(opts.output)}`);
+      logger.log(`  ${step++}. Validate: workos-validate-csv --csv ${importCsv}`);
+      if (orgDefinitionsPath) {
+        logger.log(`  ${step++}. Organizations: workos-import-orgs --definitions ${orgDefinitionsPath}`);
+      }
+      if (roleDefinitionsPath) {
+        logger.log(`  ${step++}. Roles: npx tsx bin/process-role-definitions.ts --definitions ${roleDefinitionsPath}`);
+      }
+      const roleMappingFlag = userRoleMappingPath ? ` --role-mapping ${userRoleMappingPath}` : "";
+      logger.log(`  ${step++}. Import: workos-import-users --csv ${importCsv}${roleMappingFlag}`);
       logger.log("");
     }
 
@@ -0,0 +1,173 @@
+#!/usr/bin/env node
+import "dotenv/config";
+import { Command } from "commander";
+import path from "node:path";
+import { CognitoExporter } from "../src/exporters/cognito/cognitoExporter.js";
+import { createLogger } from "../src/logger.js";
+import { describeExportScope, generateDelta } from "../src/delta/deltaGenerator.js";
+import type { CognitoCredentials } from "../src/exporters/types.js";
+
+const program = new Command();
+
+program
+  .name("workos-export-cognito")
+  .description("Export users from an AWS Cognito user pool to WorkOS CSV format (groups become role slugs)")
+  .requiredOption("--region <region>", "AWS region of the user pool (e.g., us-east-1)")
+  .requiredOption("--user-pool-id <id>", "Cognito user pool ID (e.g., us-east-1_AbCdEfGhI)")
+  .requiredOption("--output <path>", "Output CSV file path")
+  .option("--access-key-id <id>", "AWS access key ID (default: AWS_ACCESS_KEY_ID env var)")
+  .option("--secret-access-key <key>", "AWS secret access key (default: AWS_SECRET_ACCESS_KEY env var)")
+  .option("--session-token <token>", "AWS session token for temporary credentials (default: AWS_SESSION_TOKEN env var)")
+  .option("--org-id-attribute <name>", "Custom attribute holding the organization ID (e.g., custom:tenant_id)")
+  .option("--org-name-attribute <name>", "Custom attribute holding the organization name (e.g., custom:tenant_name)")
+  .option("--page-size <n>", "ListUsers page size (default: 60, max: 60)", (v) => parseInt(v, 10))
+  .option("--rate-limit <n>", "API rate limit in requests/second (default: 5)", (v) => parseInt(v, 10))
+  .option("--include-disabled", "Include disabled users", false)
+  .option("--job-id <id>", "Job ID for checkpointing (enables resumability)")
+  .option("--resume [jobId]", "Resume from an existing checkpoint (uses --job-id if no value provided)")
+  .option("--checkpoint-dir <path>", "Directory for checkpoint files (default: .workos-checkpoints)")
+  .option("--delta-snapshot <path>", "Write a delta CSV of changes since the export recorded in this snapshot (saved as a baseline on first run)")
+  .option("--delta-output <path>", "Delta CSV path (default: <output>-delta.csv)")
+  .option("--allow-deletes", "Write delete rows for users missing from the export (default: only report them)", false)
+  .option("--max-deletes <n>", "Withhold delete rows when more users than this would be deleted", (v) => parseInt(v, 10))
+  .option("--max-delete-percent <n>", "Withhold delete rows when more than this percentage of snapshot users would be deleted (default: 10)", (v) => parseFloat(v))
+  .option("--quiet", "Suppress progress output", false)
+  .parse(process.argv);
+
+async function main() {
+  const opts = program.opts<{
+    region: string;
+    userPoolId: string;
+    output: string;
+    accessKeyId?: string;
+    secretAccessKey?: string;
+    sessionToken?: string;
+    orgIdAttribute?: string;
+    orgNameAttribute?: string;
+    pageSize?: number;
+    rateLimit?: number;
+    includeDisabled?: boolean;
+    jobId?: string;
+    resume?: boolean | string;
+    checkpointDir?: string;
+    deltaSnapshot?: string;
+    deltaOutput?: string;
+    allowDeletes?: boolean;
+    maxDeletes?: number;
+    maxDeletePercent?: number;
+    quiet?: boolean;
+  }>();
+
+  const logger = createLogger({ quiet: opts.quiet });
+
+  const accessKeyId = opts.accessKeyId || process.env.AWS_ACCESS_KEY_ID;
+  const secretAccessKey = opts.secretAccessKey || process.env.AWS_SECRET_ACCESS_KEY;
+
+  if (!accessKeyId || !secretAccessKey) {
+    logger.error("AWS credentials required: pass --access-key-id/--secret-access-key or set AWS_ACCESS_KEY_ID/AWS_SECRET_ACCESS_KEY");
+    process.exit(1);
+  }
+
+  const credentials: CognitoCredentials = {
+    type: 'cognito',
+    region: opts.region,
+    userPoolId: opts.userPoolId,
+    accessKeyId,
+    secretAccessKey,
+    sessionToken: opts.sessionToken || process.env.AWS_SESSION_TOKEN,
+    endpoint: process.env.COGNITO_ENDPOINT
+  };
+
+  const exporter = new CognitoExporter({
+    credentials,
+    outputPath: path.resolve(opts.output),
+    pageSize: opts.pageSize,
+    rateLimit: opts.rateLimit,
+    orgIdAttribute: opts.orgIdAttribute,
+    orgNameAttribute: opts.orgNameAttribute,
+    includeDeleted: opts.includeDisabled,
+    jobId: opts.jobId,
+    resume: opts.resume,
+    checkpointDir: opts.checkpointDir,
+    quiet: opts.quiet,
+    onProgress: (stats) => {
+      logger.log(`Progress: ${stats.usersProcessed} users (${stats.orgsProcessed} organizations seen)`);
+    }
+  });
+
+  try {
+    logger.log("Starting Cognito export...");
+    logger.log(`User pool: ${opts.userPoolId} (${opts.region})`);
+    logger.log(`Output: ${path.resolve(opts.output)}`);
+
+    if (opts.orgIdAttribute) {
+      logger.log(`Organization attribute: ${opts.orgIdAttribute}`);
+    } else {
+      logger.warn("No --org-id-attribute given; users will be exported without organizations");
+    }
+
+    logger.log("");
+
+    // Test connection first
+    logger.log("Testing Cognito connection...");
+    const validation = await exporter.validate();
+
+    if (!validation.valid) {
+      logger.error("Cognito connection failed:");
+      validation.errors.forEach(err => logger.error(`  - ${err}`));
+      process.exit(1);
+    }
+
+    logger.log("✓ Cognito connection successful");
+    logger.log("");
+
+    // Execute export (summary is displayed by exporter)
+    const result = await exporter.export();
+
+    // Delta mode: keep only users created, changed or removed since the snapshot
+    let importCsv = path.resolve(opts.output);
+    if (opts.deltaSnapshot) {
+      const delta = await generateDelta({
+        csvPath: importCsv,
+        snapshotPath: path.resolve(opts.deltaSnapshot),
+        outputPath: path.resolve(opts.deltaOutput ?? opts.output.replace(/\.csv$/i, "") + "-delta.csv"),
+        allowDeletes: opts.allowDeletes,
+        maxDeletes: opts.maxDeletes,
+        maxDeletePercent: opts.maxDeletePercent,
+        scope: describeExportScope({ "user-pool": opts.userPoolId, "include-disabled": opts.includeDisabled }),
+        failedSources: result.summary.failedOrganizations
+      });
+      if (delta.baseline) {
+        logger.log(`Delta: no snapshot found, saved baseline to ${delta.snapshotPath}`);
+      } else {
+        logger.log(`Delta: ${delta.created} new, ${delta.updated} changed, ${delta.deleted} removed (${delta.deltaRows} rows) → ${delta.outputPath}`);
+        delta.warnings.forEach(w => logger.warn(`  ⚠ ${w}`));
+        importCsv = delta.outputPath!;
+        if (delta.pendingSnapshotPath) {
+          logger.log(`Delta: snapshot kept until the delta is imported; then run workos-delta --snapshot ${delta.snapshotPath} --accept-pending`);
+        }
+      }
+      logger.log("");
+    }
+
+    if (!opts.quiet) {
+      logger.log("Next steps:");
+      logger.log(`  1. Validate: workos-validate-csv --csv ${importCsv}`);
+      logger.log(`  2. Import: workos-import-users --csv ${importCsv}`);
+      logger.log("");
+    }
+
+    process.exit(0);
+  } catch (err: any) {
+    logger.error(`\nFatal error: ${err?.message || String(err)}`);
+
+    if (err.stack && !opts.quiet) {
+      logger.error("\nStack trace:");
+      logger.error(err.stack);
+    }
+
+    process.exit(1);
+  }
+}
+
+main();
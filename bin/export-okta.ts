@@ -0,0 +1,153 @@
+#!/usr/bin/env node
+import "dotenv/config";
+import { Command } from "commander";
+import path from "node:path";
+import { OktaExporter } from "../src/exporters/okta/oktaExporter.js";
+import { createLogger } from "../src/logger.js";
+import { describeExportScope, generateDelta } from "../src/delta/deltaGenerator.js";
+import type { OktaCredentials } from "../src/exporters/types.js";
+
+const program = new Command();
+
+program
+  .name("workos-export-okta")
+  .description("Export users and groups from Okta to WorkOS CSV format (groups become organizations)")
+  .requiredOption("--domain <domain>", "Okta org domain (e.g., company.okta.com)")
+  .requiredOption("--api-token <token>", "Okta API token (SSWS)")
+  .requiredOption("--output <path>", "Output CSV file path")
+  .option("--groups <ids...>", "Filter to specific Okta group IDs (space-separated)")
+  .option("--page-size <n>", "API page size (default: 200)", (v) => parseInt(v, 10))
+  .option("--rate-limit <n>", "API rate limit in requests/second (default: 50)", (v) => parseInt(v, 10))
+  .option("--include-deactivated", "Include SUSPENDED and DEPROVISIONED users", false)
+  .option("--job-id <id>", "Job ID for checkpointing (enables resumability)")
+  .option("--resume [jobId]", "Resume from an existing checkpoint (uses --job-id if no value provided)")
+  .option("--checkpoint-dir <path>", "Directory for checkpoint files (default: .workos-checkpoints)")
+  .option("--delta-snapshot <path>", "Write a delta CSV of changes since the export recorded in this snapshot (saved as a baseline on first run)")
+  .option("--delta-output <path>", "Delta CSV path (default: <output>-delta.csv)")
+  .option("--allow-deletes", "Write delete rows for users missing from the export (default: only report them)", false)
+  .option("--max-deletes <n>", "Withhold delete rows when more users than this would be deleted", (v) => parseInt(v, 10))
+  .option("--max-delete-percent <n>", "Withhold delete rows when more than this percentage of snapshot users would be deleted (default: 10)", (v) => parseFloat(v))
+  .option("--quiet", "Suppress progress output", false)
+  .parse(process.argv);
+
+async function main() {
+  const opts = program.opts<{
+    domain: string;
+    apiToken: string;
+    output: string;
+    groups?: string[];
+    pageSize?: number;
+    rateLimit?: number;
+    includeDeactivated?: boolean;
+    jobId?: string;
+    resume?: boolean | string;
+    checkpointDir?: string;
+    deltaSnapshot?: string;
+    deltaOutput?: string;
+    allowDeletes?: boolean;
+    maxDeletes?: number;
+    maxDeletePercent?: number;
+    quiet?: boolean;
+  }>();
+
+  const logger = createLogger({ quiet: opts.quiet });
+
+  const credentials: OktaCredentials = {
+    type: 'okta',
+    domain: opts.domain,
+    apiToken: opts.apiToken
+  };
+
+  const exporter = new OktaExporter({
+    credentials,
+    outputPath: path.resolve(opts.output),
+    pageSize: opts.pageSize,
+    rateLimit: opts.rateLimit,
+    organizationFilter: opts.groups,
+    includeDeleted: opts.includeDeactivated,
+    jobId: opts.jobId,
+    resume: opts.resume,
+    checkpointDir: opts.checkpointDir,
+    quiet: opts.quiet,
+    onProgress: (stats) => {
+      logger.log(
+        `Progress: ${stats.usersProcessed} users` +
+        (stats.currentOrg ? ` (current group: ${stats.currentOrg})` : '')
+      );
+    }
+  });
+
+  try {
+    logger.log("Starting Okta export...");
+    logger.log(`Domain: ${opts.domain}`);
+    logger.log(`Output: ${path.resolve(opts.output)}`);
+
+    if (opts.groups && opts.groups.length > 0) {
+      logger.log(`Filtering to ${opts.groups.length} group(s)`);
+    }
+
+    logger.log("");
+
+    // Test connection first
+    logger.log("Testing Okta connection...");
+    const validation = await exporter.validate();
+
+    if (!validation.valid) {
+      logger.error("Okta connection failed:");
+      validation.errors.forEach(err => logger.error(`  - ${err}`));
+      process.exit(1);
+    }
+
+    logger.log("✓ Okta connection successful");
+    logger.log("");
+
+    // Execute export (summary is displayed by exporter)
+    const result = await exporter.export();
+
+    // Delta mode: keep only users created, changed or removed since the snapshot
+    let importCsv = path.resolve(opts.output);
+    if (opts.deltaSnapshot) {
+      const delta = await generateDelta({
+        csvPath: importCsv,
+        snapshotPath: path.resolve(opts.deltaSnapshot),
+        outputPath: path.resolve(opts.deltaOutput ?? opts.output.replace(/\.csv$/i, "") + "-delta.csv"),
+        allowDeletes: opts.allowDeletes,
+        maxDeletes: opts.maxDeletes,
+        maxDeletePercent: opts.maxDeletePercent,
+        scope: describeExportScope({ groups: opts.groups, "include-deactivated": opts.includeDeactivated }),
+        failedSources: result.summary.failedOrganizations
+      });
+      if (delta.baseline) {
+        logger.log(`Delta: no snapshot found, saved baseline to ${delta.snapshotPath}`);
+      } else {
+        logger.log(`Delta: ${delta.created} new, ${delta.updated} changed, ${delta.deleted} removed (${delta.deltaRows} rows) → ${delta.outputPath}`);
+        delta.warnings.forEach(w => logger.warn(`  ⚠ ${w}`));
+        importCsv = delta.outputPath!;
+        if (delta.pendingSnapshotPath) {
+          logger.log(`Delta: snapshot kept until the delta is imported; then run workos-delta --snapshot ${delta.snapshotPath} --accept-pending`);
+        }
+      }
+      logger.log("");
+    }
+
+    if (!opts.quiet) {
+      logger.log("Next steps:");
+      logger.log(`  1. Validate: workos-validate-csv --csv ${importCsv}`);
+      logger.log(`  2. Import: workos-import-users --csv ${importCsv}`);
+      logger.log("");
+    }
+
+    process.exit(0);
+  } catch (err: any) {
+    logger.error(`\nFatal error: ${err?.message || String(err)}`);
+
+    if (err.stack && !opts.quiet) {
+      logger.error("\nStack trace:");
+      logger.error(err.stack);
+    }
+
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,52 @@
+#!/usr/bin/env node
+/**
+ * Migration Report - CLI Entry Point
+ *
+ * Merges the validation, import (checkpoint), error analysis, role definitions
+ * and migration summary reports into one self-contained HTML file. Report
+ * files that do not exist are left out. The migration wizard writes this
+ * report automatically (migration-report.html).
+ *
+ * Exit codes:
+ * - 0: Report written
+ * - 2: Fatal error (no report files found)
+ */
+
+import 'dotenv/config';
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { generateHtmlReport } from '../src/wizard/htmlReport.js';
+
+const program = new Command();
+
+program
+  .name('generate-report')
+  .description('Generate a self-contained HTML migration report from the JSON reports')
+  .version('1.0.0')
+  .option('--validation-report <path>', 'Validation report', 'validation-report.json')
+  .option('--error-analysis <path>', 'Error analysis report', 'error-analysis-report.json')
+  .option('--role-report <path>', 'Role definitions report', 'role-definitions-report.json')
+  .option('--migration-summary <path>', 'Migration wizard summary', 'migration-summary.json')
+  .option('--job-id <id>', 'Import job ID, for per-chunk timing from its checkpoint')
+  .option('--checkpoint-dir <path>', 'Checkpoint directory (default: .workos-checkpoints)')
+  .option('--output <path>', 'HTML output path', 'migration-report.html')
+  .parse(process.argv);
+
+const opts = program.opts();
+
+const reportPath = generateHtmlReport({
+  validationReportPath: opts.validationReport,
+  errorAnalysisPath: opts.errorAnalysis,
+  roleDefinitionsReportPath: opts.roleReport,
+  migrationSummaryPath: opts.migrationSummary,
+  jobId: opts.jobId,
+  checkpointDir: opts.checkpointDir,
+  outputPath: opts.output
+});
+
+if (!reportPath) {
+  console.error(chalk.red('Error: No report files found. Pass the report paths or run from the migration directory.'));
+  process.exit(2);
+}
+
+console.log(chalk.green(`✓ Migration report written: ${reportPath}`));
@@ -0,0 +1,134 @@
+#!/usr/bin/env node
+/**
+ * Import Organizations
+ *
+ * Creates and updates organizations in WorkOS from an org definitions CSV.
+ * Existing organizations (matched by org_external_id) get missing domains,
+ * metadata keys, name and allow_profiles_outside_organization changes;
+ * domains and metadata keys are never removed.
+ *
+ * The JSON report can pre-warm the organization cache of the user import
+ * that follows (import-users --orgs-report), so it makes no org lookups.
+ *
+ * Usage:
+ *   npx tsx bin/import-orgs.ts \
+ *     --definitions org-definitions.csv
+ *
+ *   npx tsx bin/import-orgs.ts \
+ *     --definitions org-definitions.csv \
+ *     --dry-run
+ */
+
+import 'dotenv/config';
+import { Command } from 'commander';
+import { existsSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { processOrgDefinitions } from '../src/organizations/orgDefinitionsProcessor.js';
+
+const program = new Command();
+
+program
+  .name('import-orgs')
+  .description('Create and update organizations in WorkOS from an org definitions CSV')
+  .requiredOption('--definitions <path>', 'Path to org definitions CSV')
+  .option('--dry-run', 'Look up organizations and show what would change without creating or updating them')
+  .option('--quiet', 'Suppress output messages')
+  .option('--report <path>', 'Path for processing report JSON', 'org-definitions-report.json')
+  .parse(process.argv);
+
+const opts = program.opts<{
+  definitions: string;
+  dryRun?: boolean;
+  quiet?: boolean;
+  report: string;
+}>();
+
+async function main() {
+  const startTime = Date.now();
+
+  if (!opts.quiet) {
+    console.log('WorkOS Organization Importer');
+    console.log('============================\n');
+  }
+
+  // Validate input file exists
+  const definitionsPath = path.resolve(opts.definitions);
+  if (!existsSync(definitionsPath)) {
+    console.error(`Error: Org definitions CSV not found: ${definitionsPath}`);
+    process.exit(1);
+  }
+
+  if (!opts.quiet) {
+    console.log(`Definitions: ${definitionsPath}`);
+    console.log(`Report:      ${path.resolve(opts.report)}`);
+    if (opts.dryRun) {
+      console.log(`Mode:        DRY RUN`);
+    }
+    console.log('');
+  }
+
+  const dryRun = opts.dryRun ?? false;
+
+  try {
+    const summary = await processOrgDefinitions({
+      csvPath: definitionsPath,
+      dryRun,
+      quiet: opts.quiet,
+    });
+
+    // Display summary
+    if (!opts.quiet) {
+      const duration = Date.now() - startTime;
+
+      console.log('\nProcessing Summary');
+      console.log('──────────────────');
+      console.log(`Total definitions:      ${summary.total}`);
+      console.log(`Created:                ${summary.created}`);
+      console.log(`Updated:                ${summary.updated}`);
+      console.log(`Already up to date:     ${summary.alreadyExist}`);
+      console.log(`Errors:                 ${summary.errors}`);
+
+      if (summary.warnings.length > 0) {
+        console.log(`\nWarnings (${summary.warnings.length}):`);
+        for (const warning of summary.warnings) {
+          console.log(`  ⚠ ${warning}`);
+        }
+      }
+
+      console.log(`\nCompleted in ${duration}ms`);
+    }
+
+    // Write report
+    const reportPath = path.resolve(opts.report);
+    const report = {
+      ...summary,
+      processedAt: new Date().toISOString(),
+      durationMs: Date.now() - startTime,
+      dryRun,
+      inputFile: definitionsPath,
+    };
+    writeFileSync(reportPath, JSON.stringify(report, null, 2));
+
+    if (!opts.quiet) {
+      console.log(`Report written to: ${reportPath}`);
+
+      // Next steps
+      console.log('\nNext steps:');
+      if (dryRun) {
+        console.log('  1. Review the report and adjust your CSV if needed');
+        console.log('  2. Run again without --dry-run to create and update organizations');
+      } else {
+        console.log('  1. Verify organizations in the WorkOS dashboard');
+        console.log(`  2. Import users with --orgs-report ${opts.report} to skip organization lookups`);
+      }
+      console.log('');
+    }
+
+    process.exit(summary.errors > 0 ? 1 : 0);
+  } catch (err: any) {
+    console.error(`\nError: ${err?.message || String(err)}`);
+    process.exit(1);
+  }
+}
+
+main();
@@ -6,18 +6,25 @@ import { importUsersFromCsv } from "../src/importer.js";
 import { renderSummaryBox } from "../src/summary.js";
 import { writeErrorsOut } from "../src/errorsOut.js";
 import { createLogger } from "../src/logger.js";
+import { parseRedactionRules, DEFAULT_REDACTION_POLICY, type RedactionPolicy } from "../src/redaction.js";
 import { resolveOrganization } from "../src/orgs.js";
 import { CheckpointManager, findLastJob } from "../src/checkpoint/manager.js";
-import { calculateCsvHash, countCsvRows } from "../src/checkpoint/csvUtils.js";
+import { calculateCsvHash, scanChunkOffsets } from "../src/checkpoint/csvUtils.js";
 import { parseUserRoleMapping } from "../src/roles/userRoleMappingParser.js";
+import { loadOrgCacheEntriesFromReport, processOrgDefinitions } from "../src/organizations/orgDefinitionsProcessor.js";
+import { OrganizationCache } from "../src/cache/organizationCache.js";
+import { parseOnConflictMode } from "../src/userUpsert.js";
+import type { OnConflictMode } from "../src/types.js";
+import type { SerializedCacheEntry } from "../src/checkpoint/types.js";
 
 const program = new Command();
 
 program
   .name("workos-import-users")
   .description("Generic CSV-based WorkOS user importer")
-  .requiredOption("--csv <path>", "Path to CSV file containing users")
+  .requiredOption("--csv <path>", "Path to CSV or JSONL (.jsonl/.ndjson) file containing users")
   .option("--errors-out <path>", "Write errors to CSV or JSON file")
+  .option("--redact <rules>", "PII redaction for error files and logs, e.g. email=hash,metadata=drop (actions: keep, drop, hash, mask; password and totp_secret are always dropped unless overridden)")
   .option("--quiet", "Suppress per-record output", false)
   .option("--concurrency <n>", "Max number of parallel requests (default: 10)", (v) => parseInt(v, 10))
   .option("--org-id <id>", "Target organization ID for single-org mode")
@@ -26,15 +33,21 @@ program
   .option("--org-name <name>", "Organization name when creating via --create-org-if-missing")
   .option("--require-membership", "If membership creation fails, delete newly created user and mark failure", false)
   .option("--dry-run", "Parse and validate only; do not call WorkOS APIs", false)
+  .option("--on-conflict <mode>", "When a user's email already exists: fail, skip (reuse existing user) or update (patch existing user) (default: fail)", "fail")
   // Phase 3: Chunking and resumability
   .option("--job-id <id>", "Job identifier for checkpoint/resume (enables chunked mode)")
   .option("--resume [job-id]", "Resume from checkpoint (auto-detects last job if no ID provided)")
+  .option("--retry-failed-chunks", "With --resume: retry chunks marked as failed by an earlier run", false)
   .option("--chunk-size <n>", "Rows per chunk for checkpointing (default: 1000)", (v) => parseInt(v, 10))
   .option("--checkpoint-dir <path>", "Checkpoint storage directory (default: .workos-checkpoints)")
   // Phase 4: Parallel processing
   .option("--workers <n>", "Number of worker threads for parallel processing (default: 1, requires --job-id)", (v) => parseInt(v, 10))
+  .option("--chunk-retries <n>", "Retries per failed chunk in worker mode before marking it failed (default: 2)", (v) => parseInt(v, 10))
   // Role assignment
   .option("--role-mapping <path>", "Path to user-role mapping CSV (external_id → role_slug)")
+  // Organization definitions
+  .option("--org-definitions <path>", "Path to org definitions CSV (org_external_id, org_name, org_domains, metadata, allow_profiles_outside_organization) applied before users")
+  .option("--orgs-report <path>", "Pre-warm the organization cache from a workos-import-orgs report")
   // Back-compat: accept --user-export as alias to --csv
   .option("--user-export <path>", "(deprecated) Use --csv instead", undefined)
   .parse(process.argv);
@@ -44,6 +57,7 @@ async function main() {
     csv?: string;
     userExport?: string;
     errorsOut?: string;
+    redact?: string;
     quiet?: boolean;
     concurrency?: number;
     orgId?: string;
@@ -52,15 +66,21 @@ async function main() {
     orgName?: string;
     requireMembership?: boolean;
     dryRun?: boolean;
+    onConflict?: string;
     // Phase 3: Checkpoint/resume flags
     jobId?: string;
     resume?: string | boolean;
+    retryFailedChunks?: boolean;
     chunkSize?: number;
     checkpointDir?: string;
     // Phase 4: Parallel processing
     workers?: number;
+    chunkRetries?: number;
     // Role assignment
     roleMapping?: string;
+    // Organization definitions
+    orgDefinitions?: string;
+    orgsReport?: string;
   }>();
 
   const csvPath = opts.csv ?? opts.userExport;
@@ -70,7 +90,27 @@ async function main() {
     process.exit(2);
   }
   const absCsv = path.resolve(csvPath);
-  const logger = createLogger({ quiet: opts.quiet });
+
+  let redaction: RedactionPolicy = DEFAULT_REDACTION_POLICY;
+  if (opts.redact) {
+    try {
+      redaction = parseRedactionRules(opts.redact);
+    } catch (err: unknown) {
+      // eslint-disable-next-line no-console
+      console.error(`Error: ${(err as Error).message}`);
+      process.exit(2);
+    }
+  }
+  const logger = createLogger({ quiet: opts.quiet, redaction });
+
+  let onConflict: OnConflictMode;
+  try {
+    onConflict = parseOnConflictMode(opts.onConflict);
+  } catch (err) {
+    // eslint-disable-next-line no-console
+    console.error(`Error: ${(err as Error).message}`);
+    process.exit(2);
+  }
 
   // Phase 4: Validate worker count
   let numWorkers = opts.workers ?? 1;
@@ -84,6 +124,16 @@ async function main() {
     console.error("Error: --workers requires --job-id or --resume (checkpoint mode)");
     process.exit(2);
   }
+  if (opts.chunkRetries !== undefined && (!Number.isInteger(opts.chunkRetries) || opts.chunkRetries < 0)) {
+    // eslint-disable-next-line no-console
+    console.error("Error: --chunk-retries must be >= 0");
+    process.exit(2);
+  }
+  if (opts.retryFailedChunks && !opts.resume) {
+    // eslint-disable-next-line no-console
+    console.error("Error: --retry-failed-chunks requires --resume");
+    process.exit(2);
+  }
   // Note: We use dynamic import of 'os' module to avoid loading it when not needed
   if (numWorkers > 1) {
     const os = await import('node:os');
@@ -121,11 +171,24 @@ async function main() {
 
     const progress = checkpointManager.getProgress();
     logger.log(`Checkpoint loaded: ${progress.completedChunks}/${progress.totalChunks} chunks completed (${progress.percentComplete}%)`);
+
+    // Failed chunks stay failed on resume unless explicitly retried
+    if (opts.retryFailedChunks) {
+      const requeued = checkpointManager.requeueFailedChunks();
+      await checkpointManager.saveCheckpoint();
+      logger.log(`Retrying ${requeued} failed chunk(s)`);
+    } else {
+      const failedChunks = checkpointManager.getFailedChunks();
+      if (failedChunks.length > 0) {
+        logger.warn(`${failedChunks.length} chunk(s) failed in an earlier run and will be skipped; add --retry-failed-chunks to retry them`);
+      }
+    }
   }
   // Handle new job with checkpointing
   else if (opts.jobId) {
     logger.log("Analyzing CSV file...");
-    const totalRows = await countCsvRows(absCsv);
+    const chunkSize = opts.chunkSize ?? 1000;
+    const { totalRows, chunkOffsets } = await scanChunkOffsets(absCsv, chunkSize);
     const csvHash = await calculateCsvHash(absCsv);
 
     logger.log(`CSV analysis complete: ${totalRows} rows, hash: ${csvHash.substring(0, 16)}...`);
@@ -141,7 +204,8 @@ async function main() {
       csvPath: absCsv,
       csvHash,
       totalRows,
-      chunkSize: opts.chunkSize ?? 1000,
+      chunkSize,
+      chunkOffsets,
       concurrency: opts.concurrency ?? 10,
       mode,
       orgId: null, // Will be set after org resolution
@@ -239,6 +303,32 @@ async function main() {
       }
     }
 
+    // Organizations resolved before the import (pre-warms the org cache)
+    let orgCacheEntries: SerializedCacheEntry[] | undefined;
+    if (opts.orgsReport) {
+      orgCacheEntries = loadOrgCacheEntriesFromReport(path.resolve(opts.orgsReport));
+      logger.log(`Loaded ${orgCacheEntries.length} organization cache entries from ${opts.orgsReport}`);
+    }
+
+    // Create or update organizations from the org definitions CSV
+    if (opts.orgDefinitions) {
+      const orgCache = new OrganizationCache({ maxSize: 10000, dryRun: Boolean(opts.dryRun) });
+      const orgSummary = await processOrgDefinitions({
+        csvPath: path.resolve(opts.orgDefinitions),
+        orgCache,
+        dryRun: Boolean(opts.dryRun),
+        quiet: opts.quiet
+      });
+      if (orgSummary.errors > 0) {
+        throw new Error(`Org definitions have ${orgSummary.errors} error(s); fix them or run workos-import-orgs for a report`);
+      }
+      logger.log(
+        `Organization definitions: ${orgSummary.created} created, ${orgSummary.updated} updated, ` +
+        `${orgSummary.alreadyExist} unchanged`
+      );
+      orgCacheEntries = [...(orgCacheEntries ?? []), ...orgCache.serialize()];
+    }
+
     const { summary, errors } = await importUsersFromCsv({
       csvPath: absCsv,
       quiet: opts.quiet,
@@ -246,16 +336,20 @@ async function main() {
       orgId: resolvedOrgId,
       requireMembership: Boolean(opts.requireMembership),
       dryRun: Boolean(opts.dryRun),
+      onConflict,
       errorsOutPath: useJsonlStreaming ? errorsOutPath : undefined,
+      redaction,
       multiOrgMode,
       checkpointManager, // Phase 3: Enable chunked mode if checkpoint provided
       numWorkers, // Phase 4: Enable worker pool if multiple workers specified
-      userRoleMapping // Role assignment mapping
+      chunkRetries: opts.chunkRetries,
+      userRoleMapping, // Role assignment mapping
+      orgCacheEntries
     });
 
     // Handle CSV error output (legacy, memory-limited)
     if (opts.errorsOut && !useJsonlStreaming && errors.length > 0) {
-      await writeErrorsOut(errorsOutPath!, errors);
+      await writeErrorsOut(errorsOutPath!, errors, redaction);
       logger.warn(`Wrote ${errors.length} error record(s) to: ${errorsOutPath}`);
     } else if (opts.errorsOut && useJsonlStreaming) {
       logger.warn(`Errors streamed to: ${errorsOutPath}`);
@@ -269,7 +363,7 @@ async function main() {
       console.error(summaryBox);
     }
 
-    if (errors.length > 0) {
+    if (errors.length > 0 || summary.failedChunks?.length) {
       exitCode = 1;
     }
   } catch (err: any) {
@@ -20,6 +20,7 @@ import { createReadStream, createWriteStream, readFileSync } from 'node:fs';
 import { createInterface } from 'node:readline';
 import { parse } from 'csv-parse';
 import { stringify } from 'csv-stringify';
+import { convertPasswordHash } from '../src/passwords/registry.js';
 
 interface Auth0PasswordRecord {
   _id?: { $oid: string };
@@ -39,6 +40,12 @@ interface PasswordLookup {
   };
 }
 
+interface PasswordLoadResult {
+  lookup: PasswordLookup;
+  /** Hashes that are malformed or cannot be imported into WorkOS, with the reason */
+  rejected: { email: string; reason: string }[];
+}
+
 const program = new Command();
 
 program
@@ -65,11 +72,21 @@ async function main() {
     console.log('Step 1: Loading password hashes from NDJSON...');
   }
 
-  const passwordLookup = await loadPasswordHashes(opts.passwords);
+  const { lookup: passwordLookup, rejected } = await loadPasswordHashes(opts.passwords);
   const passwordCount = Object.keys(passwordLookup).length;
 
   if (!opts.quiet) {
-    console.log(`✓ Loaded ${passwordCount} password hashes\n`);
+    console.log(`✓ Loaded ${passwordCount} password hashes`);
+    if (rejected.length > 0) {
+      console.log(`⚠ Skipped ${rejected.length} hashes that cannot be imported (these users will need a password reset):`);
+      for (const { email, reason } of rejected.slice(0, 10)) {
+        console.log(`  - ${email}: ${reason}`);
+      }
+      if (rejected.length > 10) {
+        console.log(`  ... and ${rejected.length - 10} more`);
+      }
+    }
+    console.log('');
   }
 
   // Step 2: Merge passwords into CSV
@@ -100,8 +117,9 @@ async function main() {
 /**
  * Load password hashes from Auth0 NDJSON export
  */
-async function loadPasswordHashes(filePath: string): Promise<PasswordLookup> {
+async function loadPasswordHashes(filePath: string): Promise<PasswordLoadResult> {
   const lookup: PasswordLookup = {};
+  const rejected: PasswordLoadResult['rejected'] = [];
 
   const fileStream = createReadStream(filePath, { encoding: 'utf-8' });
   const rl = createInterface({
@@ -122,12 +140,18 @@ async function loadPasswordHashes(filePath: string): Promise<PasswordLookup> {
       // Normalize email to lowercase for matching
       const email = record.email.toLowerCase();
 
-      // Detect hash algorithm from hash format
-      const algorithm = detectHashAlgorithm(record.passwordHash);
+      // Detect, validate and convert the hash to WorkOS format
+      let converted;
+      try {
+        converted = convertPasswordHash(record.passwordHash);
+      } catch (error: any) {
+        rejected.push({ email, reason: error.message });
+        continue;
+      }
 
       lookup[email] = {
-        hash: record.passwordHash,
-        algorithm,
+        hash: converted.passwordHash,
+        algorithm: converted.passwordHashType,
         setDate: record.password_set_date?.$date
       };
     } catch (error) {
@@ -136,40 +160,7 @@ async function loadPasswordHashes(filePath: string): Promise<PasswordLookup> {
     }
   }
 
-  return lookup;
-}
-
-/**
- * Detect password hash algorithm from hash format
- */
-function detectHashAlgorithm(hash: string): string {
-  // Bcrypt: $2a$, $2b$, $2x$, $2y$
-  if (/^\$2[abxy]\$/.test(hash)) {
-    return 'bcrypt';
-  }
-
-  // MD5: 32 hex characters
-  if (/^[a-f0-9]{32}$/i.test(hash)) {
-    return 'md5';
-  }
-
-  // SHA256: 64 hex characters
-  if (/^[a-f0-9]{64}$/i.test(hash)) {
-    return 'sha256';
-  }
-
-  // SHA512: 128 hex characters
-  if (/^[a-f0-9]{128}$/i.test(hash)) {
-    return 'sha512';
-  }
-
-  // PBKDF2: Often has format like sha1:iterations:salt:hash
-  if (hash.includes(':')) {
-    return 'pbkdf2';
-  }
-
-  // Default to bcrypt if unknown (Auth0 primarily uses bcrypt)
-  return 'bcrypt';
+  return { lookup, rejected };
 }
 
 /**
@@ -211,6 +202,7 @@ async function mergeCsvWithPasswords(
         'external_id',
         'org_external_id',
         'org_name',
+        'org_domains',
         'metadata'
       ]
     });
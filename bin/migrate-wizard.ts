@@ -154,7 +154,10 @@ async function main() {
 
         // Build CSV path for retry
         const csvPath = answers.customCsvPath ||
-                        (answers.source === 'auth0' ? 'auth0-export.csv' : 'users.csv');
+                        (answers.source === 'auth0' ? 'auth0-export.csv'
+                          : answers.source === 'okta' ? 'okta-export.csv'
+                          : answers.source === 'cognito' ? 'cognito-export.csv'
+                          : 'users.csv');
 
         if (jobId) {
           // Checkpoint mode - resume from checkpoint
@@ -21,6 +21,8 @@ import { parseUserRoleMapping } from '../src/roles/userRoleMappingParser.js';
 import { processRoleDefinitions } from '../src/roles/roleDefinitionsProcessor.js';
 import { RoleCache } from '../src/roles/roleCache.js';
 import { OrganizationCache } from '../src/cache/organizationCache.js';
+import { parseOnConflictMode } from '../src/userUpsert.js';
+import { parseRedactionRules } from '../src/redaction.js';
 
 const program = new Command();
 
@@ -29,7 +31,7 @@ program
   .description('Plan and execute WorkOS user migrations with interactive guidance')
   .version('1.0.0')
   // Required options
-  .requiredOption('--csv <path>', 'Path to CSV file')
+  .requiredOption('--csv <path>', 'Path to CSV or JSONL (.jsonl/.ndjson) file')
   // Planning and execution options
   .option('--plan', 'Generate migration plan only (dry-run analysis)')
   .option('-y, --yes', 'Skip all interactive prompts (for scripting/MCP)')
@@ -42,8 +44,10 @@ program
   .option('--concurrency <number>', 'Concurrent API requests', parseInt)
   .option('--require-membership', 'Require organization membership for all users')
   .option('--dry-run', 'Validate CSV without making API calls')
+  .option('--on-conflict <mode>', 'When a user already exists: fail, skip or update (default: fail)')
   .option('--quiet', 'Suppress progress output')
   .option('--errors-out <path>', 'Output path for errors.jsonl')
+  .option('--redact <rules>', 'PII redaction for error files and logs, e.g. email=hash,metadata=drop')
   // Checkpoint options
   .option('--job-id <id>', 'Job ID for checkpoint mode')
   .option('--resume [id]', 'Resume from checkpoint (optionally specify job ID)')
@@ -119,7 +123,9 @@ async function main() {
       createOrgIfMissing: opts.createOrgIfMissing,
       requireMembership: opts.requireMembership,
       dryRun: opts.dryRun,
+      onConflict: parseOnConflictMode(opts.onConflict),
       errorsOutPath: opts.errorsOut,
+      redaction: opts.redact ? parseRedactionRules(opts.redact) : undefined,
       jobId: opts.jobId,
       resume: opts.resume,
       chunkSize: opts.chunkSize,
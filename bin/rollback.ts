@@ -0,0 +1,144 @@
+#!/usr/bin/env node
+/**
+ * Roll Back a Checkpointed Import Job
+ *
+ * Deletes the organizations, users and memberships an import job created,
+ * using the creation ledger (created.jsonl) in the job's checkpoint directory.
+ * Only jobs run with --job-id (checkpoint mode) have a ledger.
+ *
+ *   npx tsx bin/rollback.ts --job-id my-migration --dry-run
+ *   npx tsx bin/rollback.ts --job-id my-migration --yes
+ *
+ * An interrupted rollback resumes from rollback.json on the next run.
+ *
+ * Exit codes:
+ * - 0: Rollback completed (or dry run / cancelled)
+ * - 1: Some deletions failed
+ * - 2: Fatal error (bad options, job not found)
+ *
+ * Requires WORKOS_SECRET_KEY environment variable.
+ */
+import 'dotenv/config';
+import { Command } from 'commander';
+import chalk from 'chalk';
+import prompts from 'prompts';
+import { rollbackJob, getJobDir, loadRollbackProgress } from '../src/rollback/rollbackRunner.js';
+import { readLedger } from '../src/rollback/ledger.js';
+import type { RollbackSummary } from '../src/rollback/types.js';
+
+const program = new Command();
+
+program
+  .name('workos-rollback')
+  .description('Delete the users, memberships and organizations created by an import job')
+  .requiredOption('--job-id <id>', 'Job ID of the import to roll back')
+  .option('--checkpoint-dir <path>', 'Checkpoint storage directory (default: .workos-checkpoints)')
+  .option('--dry-run', 'List what would be deleted without calling WorkOS')
+  .option('--rate-limit <n>', 'Delete requests per second (default: 50)', (v) => parseInt(v, 10))
+  .option('-y, --yes', 'Skip the confirmation prompt')
+  .option('--quiet', 'Suppress progress output')
+  .parse(process.argv);
+
+const opts = program.opts<{
+  jobId: string;
+  checkpointDir?: string;
+  dryRun?: boolean;
+  rateLimit?: number;
+  yes?: boolean;
+  quiet?: boolean;
+}>();
+
+function printSummary(summary: RollbackSummary): void {
+  const title = summary.dryRun ? 'ROLLBACK DRY RUN' : 'ROLLBACK SUMMARY';
+  const verb = summary.dryRun ? 'Would delete' : 'Deleted';
+  console.log('');
+  console.log(chalk.cyan('============================================================'));
+  console.log(chalk.cyan(title));
+  console.log(chalk.cyan('============================================================'));
+  console.log(`Job:                  ${summary.jobId}`);
+  console.log(`Ledger entries:       ${summary.total}`);
+  if (summary.resumedFrom > 0) {
+    console.log(`Resumed from entry:   ${summary.resumedFrom}`);
+  }
+  console.log(`${verb} memberships: ${summary.deleted.memberships}`);
+  console.log(`${verb} users:       ${summary.deleted.users}`);
+  console.log(`${verb} orgs:        ${summary.deleted.organizations}`);
+  console.log(`Removed with user:    ${summary.coveredByUserDelete}`);
+  if (!summary.dryRun) {
+    console.log(`Already deleted:      ${summary.alreadyDeleted}`);
+    console.log(`Failures:             ${summary.failures.length > 0 ? chalk.red(String(summary.failures.length)) : '0'}`);
+  }
+  console.log(chalk.cyan('============================================================'));
+
+  for (const failure of summary.failures.slice(0, 10)) {
+    console.log(chalk.red(`  ✗ ${failure.type} ${failure.id}: ${failure.errorMessage}`));
+  }
+  if (summary.failures.length > 10) {
+    console.log(chalk.red(`  ... and ${summary.failures.length - 10} more (see rollback.json)`));
+  }
+}
+
+async function main() {
+  if (!opts.dryRun && !process.env.WORKOS_SECRET_KEY) {
+    console.error(chalk.red('Error: WORKOS_SECRET_KEY environment variable is required'));
+    process.exit(2);
+  }
+
+  if (opts.rateLimit !== undefined && (isNaN(opts.rateLimit) || opts.rateLimit < 1)) {
+    console.error(chalk.red('Error: --rate-limit must be >= 1'));
+    process.exit(2);
+  }
+
+  const jobDir = getJobDir(opts.jobId, opts.checkpointDir);
+  const entries = readLedger(jobDir);
+  if (entries.length === 0) {
+    console.error(chalk.red(`Error: No creation ledger found for job ${opts.jobId} in ${jobDir}`));
+    console.error('Only imports run in checkpoint mode (--job-id) can be rolled back.');
+    process.exit(2);
+  }
+
+  const previous = loadRollbackProgress(jobDir);
+  if (!opts.dryRun && previous?.completedAt) {
+    console.log(chalk.yellow(`Job ${opts.jobId} was already rolled back on ${new Date(previous.completedAt).toISOString()}`));
+    process.exit(previous.failures.length > 0 ? 1 : 0);
+  }
+
+  if (!opts.dryRun && !opts.yes) {
+    const remaining = entries.length - (previous?.processed ?? 0);
+    const response = await prompts({
+      type: 'confirm',
+      name: 'proceed',
+      message: `Delete up to ${remaining} resource(s) created by job ${opts.jobId}? This cannot be undone.`,
+      initial: false
+    });
+
+    if (!response.proceed) {
+      console.log(chalk.yellow('Rollback cancelled'));
+      process.exit(0);
+    }
+  }
+
+  let lastReported = 0;
+  const summary = await rollbackJob({
+    jobId: opts.jobId,
+    checkpointDir: opts.checkpointDir,
+    dryRun: opts.dryRun,
+    rateLimit: opts.rateLimit,
+    onProgress: (processed, total) => {
+      if (opts.quiet) return;
+      if (processed - lastReported >= 100 || processed === total) {
+        lastReported = processed;
+        console.log(`Processed ${processed}/${total} ledger entries`);
+      }
+    }
+  });
+
+  printSummary(summary);
+  process.exit(summary.failures.length > 0 ? 1 : 0);
+}
+
+main().catch((err) => {
+  console.error(chalk.red('Fatal error during rollback:'));
+  console.error(err instanceof Error ? err.message : String(err));
+  process.exit(2);
+});
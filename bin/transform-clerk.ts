@@ -27,15 +27,26 @@
  *   clerk_user_id,org_name
  *     → Use when orgs should be looked up or created by name
  *
+ *   Any of these may add an org_domains column (e.g. "acme.com:verified,acme.io")
+ *     → Passed through so the importer creates orgs with their domains or adds
+ *       missing domains to existing orgs (pending unless marked :verified)
+ *
  * NOTE: Organization creation happens during the *import* step, not this
  * transform step. This tool maps org columns into the output CSV. The existing
  * import pipeline (import-users / orchestrate-migration) handles org lookups,
  * caching, pre-warming, and auto-creation.
  *
  * PASSWORD HANDLING:
- *   Only bcrypt password hashes are supported. Users with other hash types
- *   (argon2, scrypt, pbkdf2) will have their password fields omitted and
- *   will need to reset their password on first login.
+ *   Clerk's password_hasher names the algorithm; digests are converted with the
+ *   shared password hash subsystem (bcrypt, argon2, scrypt_firebase, pbkdf2, ...).
+ *   Users whose hashes cannot be imported will have their password fields
+ *   omitted and will need to reset their password on first login.
+ *
+ * TOTP HANDLING:
+ *   totp_secret values are written to a separate enrollment CSV
+ *   (--totp-output, default clerk-totp-secrets.csv) for bin/enroll-totp.ts.
+ *   They are never stored in user metadata. Treat this file as a secret and
+ *   delete it after enrollment.
  *
  * Usage:
  *   npx tsx bin/transform-clerk.ts \
@@ -63,6 +74,7 @@ program
   .option('--org-mapping <path>', 'Path to organization mapping CSV (clerk_user_id → org)')
   .option('--role-mapping <path>', 'Path to user-role mapping CSV (clerk_user_id → role_slug)')
   .option('--skipped-users <path>', 'Path for skipped user records (JSONL)', 'clerk-skipped-users.jsonl')
+  .option('--totp-output <path>', 'Path for TOTP enrollment CSV (email,totp_secret)', 'clerk-totp-secrets.csv')
   .option('--quiet', 'Suppress output messages')
   .parse(process.argv);
 
@@ -72,6 +84,7 @@ const opts = program.opts<{
   orgMapping?: string;
   roleMapping?: string;
   skippedUsers: string;
+  totpOutput: string;
   quiet?: boolean;
 }>();
 
@@ -126,6 +139,7 @@ async function main() {
       orgMappingPath: opts.orgMapping ? path.resolve(opts.orgMapping) : undefined,
       roleMappingPath: opts.roleMapping ? path.resolve(opts.roleMapping) : undefined,
       skippedUsersPath: path.resolve(opts.skippedUsers),
+      totpOutputPath: path.resolve(opts.totpOutput),
       quiet: opts.quiet,
     });
 
@@ -145,6 +159,7 @@ async function main() {
       if (opts.roleMapping) {
         console.log(`With role mapping:      ${summary.usersWithRoleMapping}`);
       }
+      console.log(`With TOTP secrets:      ${summary.usersWithTotp}`);
 
       if (Object.keys(summary.skippedReasons).length > 0) {
         console.log('\nSkip/Warning Reasons:');
@@ -159,11 +174,17 @@ async function main() {
       if (summary.skippedUsers > 0) {
         console.log(`Skipped users: ${path.resolve(opts.skippedUsers)}`);
       }
+      if (summary.usersWithTotp > 0) {
+        console.log(`TOTP secrets:  ${path.resolve(opts.totpOutput)} (contains MFA secrets — delete after enrollment)`);
+      }
 
       // Next steps
       console.log('\nNext steps:');
       console.log(`  1. Validate: npx tsx bin/validate-csv.ts --csv ${path.resolve(opts.output)} --auto-fix --fixed-csv users-validated.csv`);
       console.log(`  2. Import:   npx tsx bin/import-users.ts --csv users-validated.csv`);
+      if (summary.usersWithTotp > 0) {
+        console.log(`  3. MFA:      npx tsx bin/enroll-totp.ts --input ${path.resolve(opts.totpOutput)}`);
+      }
       console.log('');
     }
 
@@ -29,6 +29,11 @@
  *     last-space:      "Mary Jane Watson" → first: "Mary Jane", last: "Watson"
  *     first-name-only: "John Doe" → first: "John Doe", last: ""
  *
+ * AUTH REPORT:
+ *   Users with SMS/TOTP second factors, social-only accounts and passwordless
+ *   phone accounts are written to a JSON report (--auth-report) grouped by
+ *   category, each with a recommended remediation.
+ *
  * ORG MAPPING CSV FORMAT:
  *   Must have a 'firebase_uid' column plus one or more org columns:
  *     firebase_uid,org_id
@@ -56,7 +61,7 @@ import { Command } from 'commander';
 import { existsSync } from 'node:fs';
 import path from 'node:path';
 import { transformFirebaseExport } from '../src/transformers/firebase/firebaseTransformer.js';
-import type { FirebaseScryptParams } from '../src/transformers/firebase/phcEncoder.js';
+import type { FirebaseScryptParams } from '../src/passwords/algorithms/firebaseScrypt.js';
 
 const program = new Command();
 
@@ -74,6 +79,7 @@ program
   .option('--org-mapping <path>', 'Path to organization mapping CSV (firebase_uid → org)')
   .option('--role-mapping <path>', 'Path to user-role mapping CSV (firebase_uid → role_slug)')
   .option('--skipped-users <path>', 'Path for skipped user records (JSONL)', 'firebase-skipped-users.jsonl')
+  .option('--auth-report <path>', 'Path for the MFA / sign-in method report (JSON)', 'firebase-auth-report.json')
   .option('--quiet', 'Suppress output messages')
   .parse(process.argv);
 
@@ -89,6 +95,7 @@ const opts = program.opts<{
   orgMapping?: string;
   roleMapping?: string;
   skippedUsers: string;
+  authReport: string;
   quiet?: boolean;
 }>();
 
@@ -169,6 +176,7 @@ async function main() {
       orgMappingPath: opts.orgMapping ? path.resolve(opts.orgMapping) : undefined,
       roleMappingPath: opts.roleMapping ? path.resolve(opts.roleMapping) : undefined,
       skippedUsersPath: path.resolve(opts.skippedUsers),
+      authReportPath: path.resolve(opts.authReport),
       quiet: opts.quiet,
     });
 
@@ -192,6 +200,19 @@ async function main() {
         console.log(`Disabled (skipped):     ${summary.disabledUsersSkipped}`);
       }
 
+      if (summary.usersWithPhoneMfa > 0) {
+        console.log(`SMS MFA enrolled:       ${summary.usersWithPhoneMfa}`);
+      }
+      if (summary.usersWithTotpMfa > 0) {
+        console.log(`TOTP MFA enrolled:      ${summary.usersWithTotpMfa}`);
+      }
+      if (summary.socialOnlyUsers > 0) {
+        console.log(`Social sign-in only:    ${summary.socialOnlyUsers}`);
+      }
+      if (summary.passwordlessUsersSkipped > 0) {
+        console.log(`Passwordless (skipped): ${summary.passwordlessUsersSkipped}`);
+      }
+
       if (Object.keys(summary.skippedReasons).length > 0) {
         console.log('\nSkip/Warning Reasons:');
         for (const [reason, count] of Object.entries(summary.skippedReasons)) {
@@ -205,6 +226,7 @@ async function main() {
       if (summary.skippedUsers > 0) {
         console.log(`Skipped users: ${path.resolve(opts.skippedUsers)}`);
       }
+      console.log(`Auth report:   ${path.resolve(opts.authReport)}`);
 
       // Next steps
       console.log('\nNext steps:');
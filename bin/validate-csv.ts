@@ -24,7 +24,7 @@ program
   .name('validate-csv')
   .description('Validate CSV files before importing to WorkOS')
   .version('2.0.0')
-  .requiredOption('--csv <path>', 'CSV file to validate')
+  .requiredOption('--csv <path>', 'CSV or JSONL (.jsonl/.ndjson) file to validate')
   .option('--auto-fix', 'Auto-fix common issues (whitespace, booleans)')
   .option('--fixed-csv <path>', 'Output path for fixed CSV (requires --auto-fix)')
   .option('--dedupe', 'Deduplicate rows with same email address')
@@ -105,6 +105,9 @@ async function main() {
     if (report.summary.autoFixApplied) {
       console.log(`Auto-fixed issues:   ${chalk.cyan(String(report.summary.fixedIssues))}`);
     }
+    if (report.summary.apiConflicts !== undefined) {
+      console.log(`API conflicts:       ${report.summary.apiConflicts > 0 ? chalk.red(String(report.summary.apiConflicts)) : '0'}`);
+    }
     console.log(chalk.cyan('============================================================'));
     console.log('');
 
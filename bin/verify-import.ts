@@ -0,0 +1,138 @@
+#!/usr/bin/env node
+/**
+ * Post-Import Verification - CLI Entry Point
+ *
+ * Re-reads the source CSV after an import and checks WorkOS for missing users,
+ * missing memberships and field drift. Writes a JSON report (sign-off artifact)
+ * and optionally a retry CSV for the rows that need re-importing.
+ *
+ *   npx tsx bin/verify-import.ts --csv users.csv --report verification-report.json
+ *   npx tsx bin/verify-import.ts --csv users.csv --org-id org_123 --retry-csv retry.csv
+ *
+ * Exit codes:
+ * - 0: WorkOS matches the CSV
+ * - 1: Discrepancies found
+ * - 2: Fatal error (bad options, file not found)
+ *
+ * Requires WORKOS_SECRET_KEY environment variable.
+ */
+
+import 'dotenv/config';
+import { Command } from 'commander';
+import fs from 'node:fs';
+import path from 'node:path';
+import chalk from 'chalk';
+import { ImportVerifier } from '../src/verifier/importVerifier.js';
+import { getOrganizationByExternalId } from '../src/orgs.js';
+import { parseUserRoleMapping } from '../src/roles/userRoleMappingParser.js';
+
+const program = new Command();
+
+program
+  .name('workos-verify')
+  .description('Verify that WorkOS matches the source CSV after an import')
+  .requiredOption('--csv <path>', 'Source CSV that was imported')
+  .option('--report <path>', 'JSON report path (default: verification-report.json)', 'verification-report.json')
+  .option('--retry-csv <path>', 'Write rows with discrepancies to a retry CSV')
+  .option('--org-id <id>', 'Organization ID used for a single-org import')
+  .option('--org-external-id <id>', 'Organization external ID used for a single-org import')
+  .option('--role-mapping <path>', 'User-role mapping CSV used for the import (external_id → role_slug)')
+  .option('--concurrency <n>', 'Rows verified in parallel (default: 10)', (v) => parseInt(v, 10))
+  .option('--rate-limit <n>', 'API requests per second (default: 50)', (v) => parseInt(v, 10))
+  .option('--quiet', 'Suppress progress output')
+  .parse(process.argv);
+
+const opts = program.opts<{
+  csv: string;
+  report: string;
+  retryCsv?: string;
+  orgId?: string;
+  orgExternalId?: string;
+  roleMapping?: string;
+  concurrency?: number;
+  rateLimit?: number;
+  quiet?: boolean;
+}>();
+
+async function main() {
+  if (!fs.existsSync(opts.csv)) {
+    console.error(chalk.red(`Error: CSV file not found: ${opts.csv}`));
+    process.exit(2);
+  }
+
+  if (!process.env.WORKOS_SECRET_KEY) {
+    console.error(chalk.red('Error: WORKOS_SECRET_KEY environment variable is required'));
+    process.exit(2);
+  }
+
+  if (opts.orgId && opts.orgExternalId) {
+    console.error(chalk.red('Error: Specify only one of --org-id or --org-external-id'));
+    process.exit(2);
+  }
+
+  try {
+    let orgId = opts.orgId ?? null;
+    if (opts.orgExternalId) {
+      orgId = await getOrganizationByExternalId(opts.orgExternalId);
+      if (!orgId) {
+        console.error(chalk.red(`Error: Organization not found for external_id: ${opts.orgExternalId}`));
+        process.exit(1);
+      }
+    }
+
+    let userRoleMapping: Map<string, string[]> | undefined;
+    if (opts.roleMapping) {
+      const result = await parseUserRoleMapping({ csvPath: path.resolve(opts.roleMapping), quiet: opts.quiet });
+      userRoleMapping = result.mapping;
+    }
+
+    const verifier = new ImportVerifier({
+      csvPath: opts.csv,
+      orgId,
+      userRoleMapping,
+      reportPath: opts.report,
+      retryCsvPath: opts.retryCsv,
+      concurrency: opts.concurrency,
+      rateLimit: opts.rateLimit,
+      quiet: opts.quiet
+    });
+    const report = await verifier.verify();
+    const { summary } = report;
+
+    const count = (n: number) => (n > 0 ? chalk.red(String(n)) : '0');
+    console.log('');
+    console.log(chalk.cyan('============================================================'));
+    console.log(chalk.cyan('IMPORT VERIFICATION SUMMARY'));
+    console.log(chalk.cyan('============================================================'));
+    console.log(`Total rows:            ${summary.totalRows}`);
+    console.log(`Verified rows:         ${chalk.green(String(summary.verifiedRows))}`);
+    console.log(`Rows with issues:      ${count(summary.discrepancyRows)}`);
+    console.log(`Missing users:         ${count(summary.missingUsers)}`);
+    console.log(`Missing orgs:          ${count(summary.missingOrganizations)}`);
+    console.log(`Missing memberships:   ${count(summary.missingMemberships)}`);
+    console.log(`Field drift:           ${count(summary.fieldDrift)}`);
+    console.log(`Role drift:            ${count(summary.roleDrift)}`);
+    console.log(`Invalid rows:          ${count(summary.invalidRows)}`);
+    console.log(`Lookup failures:       ${summary.lookupFailures > 0 ? chalk.yellow(String(summary.lookupFailures)) : '0'}`);
+    console.log(chalk.cyan('============================================================'));
+    console.log('');
+    console.log(`Full report: ${opts.report}`);
+    if (opts.retryCsv && summary.retryRows > 0) {
+      console.log(`Retry CSV:   ${chalk.green(opts.retryCsv)} (${summary.retryRows} rows; import with --on-conflict update)`);
+    }
+    console.log('');
+
+    if (report.status === 'verified') {
+      console.log(chalk.green('✓ Verification passed: WorkOS matches the CSV'));
+      process.exit(0);
+    }
+    console.log(chalk.red('Verification failed: discrepancies found'));
+    process.exit(1);
+  } catch (err) {
+    console.error(chalk.red('Fatal error during verification:'));
+    console.error(err instanceof Error ? err.message : String(err));
+    process.exit(2);
+  }
+}
+
+main();
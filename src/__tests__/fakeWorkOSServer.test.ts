@@ -0,0 +1,349 @@
+/**
+ * Fake WorkOS Server Tests
+ *
+ * End-to-end imports (streaming, chunked, worker threads, resume), TOTP enrollment and role
+ * calls against the in-process fake API, including injected faults.
+ *
+ * Run with: npx tsx src/__tests__/fakeWorkOSServer.test.ts
+ */
+
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { startFakeWorkOSServer } from "../testing/fakeWorkOSServer.js";
+import { writeTsxWorkerEntry } from "../testing/tsxWorker.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const TEMP_DIR = path.join(__dirname, "../../.temp-fake-workos-tests");
+const CHECKPOINT_DIR = path.join(TEMP_DIR, "checkpoints");
+
+// Start the fake and point the client at it before anything creates a client
+const server = await startFakeWorkOSServer({ apiKey: "sk_test_fake_server" });
+process.env.WORKOS_BASE_URL = server.baseUrl;
+process.env.WORKOS_SECRET_KEY = "sk_test_fake_server";
+
+const { importUsersFromCsv } = await import("../importer.js");
+const { enrollTotpFactors } = await import("../totpEnroller.js");
+const { CheckpointManager } = await import("../checkpoint/manager.js");
+const { WorkerCoordinator } = await import("../workers/coordinator.js");
+const { createLogger } = await import("../logger.js");
+const { calculateCsvHash, countCsvRows } = await import("../checkpoint/csvUtils.js");
+const { createEnvironmentRole, createPermission, assignPermissionsToEnvironmentRole, listRolesForOrganization } =
+  await import("../roles/roleApiClient.js");
+
+// --- Helpers ---
+
+function writeFile(filename: string, lines: string[]): string {
+  const filePath = path.join(TEMP_DIR, filename);
+  fs.writeFileSync(filePath, lines.join("\n") + "\n", "utf8");
+  return filePath;
+}
+
+function userEmails(): string[] {
+  return [...server.state.users.values()].map(u => u.email).sort();
+}
+
+function membershipRoles(userId: string, orgId: string): string[] | undefined {
+  const membership = [...server.state.memberships.values()].find(m => m.user_id === userId && m.organization_id === orgId);
+  return membership?.roles.map(r => r.slug);
+}
+
+async function createCheckpoint(jobId: string, csvPath: string, chunkSize: number) {
+  return CheckpointManager.create({
+    jobId,
+    csvPath,
+    csvHash: await calculateCsvHash(csvPath),
+    totalRows: await countCsvRows(csvPath),
+    chunkSize,
+    concurrency: 2,
+    mode: "single-org",
+    checkpointDir: CHECKPOINT_DIR
+  });
+}
+
+// --- Test Runner ---
+
+let passed = 0;
+let failed = 0;
+
+async function test(name: string, fn: () => Promise<void> | void) {
+  server.reset();
+  try {
+    await fn();
+    passed++;
+    console.log(`  ✓ ${name}`);
+  } catch (err: unknown) {
+    failed++;
+    console.log(`  ✗ ${name}`);
+    console.log(`    ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+// --- Test Suite ---
+
+async function main() {
+  fs.mkdirSync(TEMP_DIR, { recursive: true });
+
+  console.log("\nFake WorkOS Server Tests");
+  console.log("========================\n");
+
+  const usersCsv = writeFile("users.csv", [
+    "email,first_name,last_name,external_id",
+    "ann@acme.com,Ann,Lee,ext-1",
+    "bob@acme.com,Bob,Ray,ext-2",
+    "cid@acme.com,Cid,Moe,ext-3",
+    "dee@acme.com,Dee,Ash,ext-4",
+    "eve@acme.com,Eve,Fox,ext-5"
+  ]);
+
+  await test("streaming import creates users and memberships", async () => {
+    const org = server.seedOrganization({ name: "Acme" });
+    const { summary, errors } = await importUsersFromCsv({ csvPath: usersCsv, quiet: true, orgId: org.id });
+    assert.deepEqual(errors, []);
+    assert.equal(summary.usersCreated, 5);
+    assert.equal(summary.membershipsCreated, 5);
+    assert.deepEqual(userEmails(), ["ann@acme.com", "bob@acme.com", "cid@acme.com", "dee@acme.com", "eve@acme.com"]);
+    assert.equal(server.state.memberships.size, 5);
+    const ann = [...server.state.users.values()].find(u => u.email === "ann@acme.com")!;
+    assert.equal(ann.first_name, "Ann");
+    assert.equal(ann.external_id, "ext-1");
+  });
+
+  await test("multi-org import creates missing organizations by external_id", async () => {
+    const csvPath = writeFile("multi-org.csv", [
+      "email,org_external_id,org_name",
+      "ann@acme.com,acme,Acme",
+      "bob@globex.com,globex,Globex",
+      "cid@globex.com,globex,Globex"
+    ]);
+    const { summary } = await importUsersFromCsv({ csvPath, quiet: true, multiOrgMode: true, concurrency: 1 });
+    assert.equal(summary.failures, 0);
+    assert.equal(summary.usersCreated, 3);
+    assert.equal(summary.membershipsCreated, 3);
+    assert.deepEqual([...server.state.organizations.values()].map(o => o.external_id).sort(), ["acme", "globex"]);
+  });
+
+  await test("existing users are skipped or updated with --on-conflict", async () => {
+    server.seedUser({ email: "ann@acme.com", first_name: "Old" });
+    const skip = await importUsersFromCsv({ csvPath: usersCsv, quiet: true, onConflict: "skip" });
+    assert.equal(skip.summary.usersSkipped, 1);
+    assert.equal(skip.summary.usersCreated, 4);
+
+    const update = await importUsersFromCsv({ csvPath: usersCsv, quiet: true, onConflict: "update" });
+    assert.equal(update.summary.usersUpdated, 5);
+    const ann = [...server.state.users.values()].find(u => u.email === "ann@acme.com")!;
+    assert.equal(ann.first_name, "Ann");
+  });
+
+  await test("--on-conflict update applies roles to existing memberships", async () => {
+    const org = server.seedOrganization({ name: "Acme" });
+    const user = server.seedUser({ email: "ann@acme.com" });
+    await importUsersFromCsv({ csvPath: writeFile("seed-member.csv", ["email", "ann@acme.com"]), quiet: true, orgId: org.id, onConflict: "skip" });
+    assert.deepEqual(membershipRoles(user.id, org.id), ["member"]);
+
+    const csvPath = writeFile("upsert-roles.csv", ["email,role_slugs", "ann@acme.com,admin"]);
+    const skip = await importUsersFromCsv({ csvPath, quiet: true, orgId: org.id, onConflict: "skip" });
+    assert.equal(skip.summary.failures, 0);
+    assert.deepEqual(membershipRoles(user.id, org.id), ["member"], "skip leaves the existing membership alone");
+
+    const update = await importUsersFromCsv({ csvPath, quiet: true, orgId: org.id, onConflict: "update" });
+    assert.equal(update.summary.failures, 0);
+    assert.deepEqual(membershipRoles(user.id, org.id), ["admin"]);
+  });
+
+  await test("delta update rows re-apply changed role_slugs to existing memberships", async () => {
+    const org = server.seedOrganization({ name: "Acme" });
+    const initial = writeFile("roles-initial.csv", [
+      "email,external_id,role_slugs",
+      "ann@acme.com,ext-1,member",
+      "bob@acme.com,ext-2,member"
+    ]);
+    await importUsersFromCsv({ csvPath: initial, quiet: true, orgId: org.id });
+    const ann = [...server.state.users.values()].find(u => u.email === "ann@acme.com")!;
+    const bob = [...server.state.users.values()].find(u => u.email === "bob@acme.com")!;
+
+    const delta = writeFile("roles-delta.csv", [
+      "email,external_id,role_slugs,action",
+      "ann@acme.com,ext-1,admin,update",
+      "bob@acme.com,ext-2,\"admin,editor\",update"
+    ]);
+    const { summary } = await importUsersFromCsv({ csvPath: delta, quiet: true, orgId: org.id });
+    assert.equal(summary.failures, 0);
+    assert.deepEqual(membershipRoles(ann.id, org.id), ["admin"]);
+    assert.deepEqual(membershipRoles(bob.id, org.id), ["admin", "editor"]);
+
+    const chunkedDelta = writeFile("roles-delta-2.csv", [
+      "email,external_id,role_slugs,action",
+      "ann@acme.com,ext-1,editor,update"
+    ]);
+    const manager = await createCheckpoint("delta-roles-job", chunkedDelta, 1);
+    await importUsersFromCsv({ csvPath: chunkedDelta, quiet: true, orgId: org.id, checkpointManager: manager });
+    assert.deepEqual(membershipRoles(ann.id, org.id), ["editor"], "Chunked mode re-applies roles too");
+  });
+
+  await test("429s with Retry-After are retried and slow the rate limiter", async () => {
+    server.addFault({ method: "POST", path: "/user_management/users", status: 429, retryAfter: 0, times: 2 });
+    const { summary } = await importUsersFromCsv({ csvPath: usersCsv, quiet: true, concurrency: 1 });
+    assert.equal(summary.usersCreated, 5);
+    assert.equal(summary.failures, 0);
+    assert.equal(summary.rateLimit?.throttles, 2);
+    assert.equal(server.countRequests("POST", "/user_management/users"), 7);
+  });
+
+  await test("5xx and dropped connections are retried", async () => {
+    const org = server.seedOrganization({ name: "Acme" });
+    server.addFault({ method: "POST", path: "/user_management/organization_memberships", status: 503, times: 1 });
+    server.addFault({ method: "POST", path: "/user_management/organization_memberships", reset: true, after: 2, times: 1 });
+    const { summary, errors } = await importUsersFromCsv({ csvPath: usersCsv, quiet: true, orgId: org.id, concurrency: 1 });
+    assert.deepEqual(errors, []);
+    assert.equal(summary.usersCreated, 5);
+    assert.equal(server.state.memberships.size, 5);
+  });
+
+  await test("user creation is not retried after a 5xx or dropped connection", async () => {
+    server.addFault({ method: "POST", path: "/user_management/users", status: 503, times: 1 });
+    server.addFault({ method: "POST", path: "/user_management/users", reset: true, after: 1, times: 1 });
+    const { summary, errors } = await importUsersFromCsv({ csvPath: usersCsv, quiet: true, concurrency: 1 });
+    assert.equal(summary.usersCreated, 3);
+    assert.equal(summary.failures, 2);
+    assert.deepEqual(errors.map(e => e.errorType), ["user_create", "user_create"]);
+    assert.equal(server.countRequests("POST", "/user_management/users"), 5);
+  });
+
+  await test("non-retryable errors are recorded with status and code", async () => {
+    const org = server.seedOrganization({ name: "Acme" });
+    server.addFault({
+      method: "POST",
+      path: "/user_management/organization_memberships",
+      status: 422,
+      body: { code: "invalid_role", message: "Role not found." },
+      times: 1
+    });
+    const { summary, errors } = await importUsersFromCsv({ csvPath: usersCsv, quiet: true, orgId: org.id, concurrency: 1 });
+    assert.equal(summary.failures, 1);
+    assert.equal(errors[0]?.errorType, "membership_create");
+    assert.equal(errors[0]?.httpStatus, 422);
+    assert.equal(errors[0]?.workosCode, "invalid_role");
+  });
+
+  await test("latency faults slow responses without failing them", async () => {
+    server.addFault({ method: "GET", path: "/user_management/users", latencyMs: 100, times: 1 });
+    server.seedUser({ email: "ann@acme.com" });
+    const start = Date.now();
+    const { summary } = await importUsersFromCsv({ csvPath: usersCsv, quiet: true, onConflict: "skip", concurrency: 1 });
+    assert.ok(Date.now() - start >= 100);
+    assert.equal(summary.usersSkipped, 1);
+  });
+
+  await test("chunked mode imports every chunk and records progress", async () => {
+    const org = server.seedOrganization({ name: "Acme" });
+    const manager = await createCheckpoint("chunked-job", usersCsv, 2);
+    const { summary } = await importUsersFromCsv({ csvPath: usersCsv, quiet: true, orgId: org.id, checkpointManager: manager });
+    assert.equal(summary.usersCreated, 5);
+    assert.equal(server.state.memberships.size, 5);
+    assert.equal(manager.getProgress().completedChunks, 3);
+  });
+
+  await test("worker mode imports every chunk across worker threads", async () => {
+    const org = server.seedOrganization({ name: "Acme" });
+    const manager = await createCheckpoint("worker-job", usersCsv, 2);
+    server.addFault({ method: "POST", path: "/user_management/users", status: 429, retryAfter: 0, times: 1 });
+    const coordinator = new WorkerCoordinator(
+      {
+        checkpointManager: manager,
+        numWorkers: 2,
+        orgCache: null,
+        importOptions: { csvPath: usersCsv, concurrency: 2, orgId: org.id, requireMembership: false, dryRun: false, onConflict: "fail", quiet: true }
+      },
+      createLogger({ quiet: true })
+    );
+    // Run the TypeScript worker through tsx instead of the compiled one in dist/
+    (coordinator as any).workerPath = writeTsxWorkerEntry(TEMP_DIR);
+
+    const summary = await coordinator.start();
+    assert.equal(summary.usersCreated, 5);
+    assert.equal(summary.failures, 0);
+    assert.equal(summary.membershipsCreated, 5);
+    assert.deepEqual(userEmails(), ["ann@acme.com", "bob@acme.com", "cid@acme.com", "dee@acme.com", "eve@acme.com"]);
+    assert.equal(server.state.memberships.size, 5);
+    assert.equal(manager.getProgress().completedChunks, 3);
+    assert.equal(server.countRequests("POST", "/user_management/users"), 6, "The throttled create is retried once");
+  });
+
+  await test("resume skips chunks completed by an earlier run", async () => {
+    const first = await createCheckpoint("resume-job", usersCsv, 2);
+    // Simulate an interrupted run that finished the first chunk
+    await importUsersFromCsv({
+      csvPath: writeFile("first-chunk.csv", [
+        "email,first_name,last_name,external_id",
+        "ann@acme.com,Ann,Lee,ext-1",
+        "bob@acme.com,Bob,Ray,ext-2"
+      ]),
+      quiet: true
+    });
+    first.markChunkStarted(0);
+    first.markChunkCompleted(0, {
+      successes: 2, failures: 0, membershipsCreated: 0, usersCreated: 2, usersUpdated: 0, usersSkipped: 0,
+      usersDeleted: 0, duplicateUsers: 0, duplicateMemberships: 0, rolesAssigned: 0, durationMs: 1
+    });
+    await first.saveCheckpoint();
+
+    const resumed = await CheckpointManager.resume("resume-job", CHECKPOINT_DIR);
+    const postsBefore = server.countRequests("POST", "/user_management/users");
+    const { summary } = await importUsersFromCsv({ csvPath: usersCsv, quiet: true, checkpointManager: resumed });
+    assert.equal(server.countRequests("POST", "/user_management/users") - postsBefore, 3, "Only rows 3-5 are sent");
+    assert.equal(summary.failures, 0);
+    assert.equal(server.state.users.size, 5);
+  });
+
+  await test("TOTP enrollment enrolls factors and skips existing ones", async () => {
+    server.seedUser({ email: "ann@acme.com" });
+    server.seedUser({ email: "bob@acme.com" });
+    const totpCsv = writeFile("totp.csv", [
+      "email,totp_secret",
+      "ann@acme.com,JBSWY3DPEHPK3PXP",
+      "bob@acme.com,KRSXG5CTMVRXEZLU",
+      "ann@acme.com,JBSWY3DPEHPK3PXP",
+      "nobody@acme.com,JBSWY3DPEHPK3PXP"
+    ]);
+    const { summary } = await enrollTotpFactors({ inputPath: totpCsv, format: "csv", quiet: true, concurrency: 1 });
+    assert.equal(summary.enrolled, 2);
+    assert.equal(summary.skipped, 1);
+    assert.equal(summary.userNotFound, 1);
+    assert.equal(server.state.authFactors.size, 2);
+  });
+
+  await test("role client creates roles, permissions and lists them", async () => {
+    const org = server.seedOrganization({ name: "Acme" });
+    assert.equal(await createPermission({ slug: "users:read", name: "Read users" }), true);
+    assert.equal(await createPermission({ slug: "users:read", name: "Read users" }), false);
+    const role = await createEnvironmentRole({ slug: "viewer", name: "Viewer" });
+    assert.equal(role.type, "EnvironmentRole");
+    await assignPermissionsToEnvironmentRole({ roleSlug: "viewer", permissions: ["users:read"] });
+    const roles = await listRolesForOrganization(org.id);
+    assert.deepEqual(roles.map(r => `${r.slug}:${r.permissions.join(",")}`), ["viewer:users:read"]);
+  });
+
+  await test("rejects requests with the wrong API key", async () => {
+    const response = await fetch(`${server.baseUrl}/organizations`, { headers: { Authorization: "Bearer sk_wrong" } });
+    assert.equal(response.status, 401);
+  });
+
+  await server.stop();
+  fs.rmSync(TEMP_DIR, { recursive: true, force: true });
+
+  console.log(`\nTests: ${passed} passed, ${failed} failed`);
+  if (failed > 0) {
+    process.exit(1);
+  }
+  process.exit(0);
+}
+
+main().catch(async (err) => {
+  console.error("Test runner error:", err);
+  await server.stop();
+  process.exit(1);
+});
@@ -0,0 +1,246 @@
+/**
+ * JSONL Input Tests
+ *
+ * Row parsing, checkpoint row counts, validation and imports (streaming,
+ * chunked and worker threads) for .jsonl/.ndjson user files.
+ *
+ * Run with: npx tsx src/__tests__/inputFormat.test.ts
+ */
+
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { startFakeWorkOSServer } from "../testing/fakeWorkOSServer.js";
+import { writeTsxWorkerEntry } from "../testing/tsxWorker.js";
+import type { CSVRow } from "../types.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const TEMP_DIR = path.join(__dirname, "../../.temp-input-format-tests");
+const CHECKPOINT_DIR = path.join(TEMP_DIR, "checkpoints");
+
+const server = await startFakeWorkOSServer({ apiKey: "sk_test_input_format" });
+process.env.WORKOS_BASE_URL = server.baseUrl;
+process.env.WORKOS_SECRET_KEY = "sk_test_input_format";
+
+const { createRowParser, detectInputFormat } = await import("../inputFormat.js");
+const { buildUserAndOrgFromRow, importUsersFromCsv } = await import("../importer.js");
+const { calculateCsvHash, countCsvRows, validateCsvHeaders } = await import("../checkpoint/csvUtils.js");
+const { CheckpointManager } = await import("../checkpoint/manager.js");
+const { CSVValidator } = await import("../validator/csvValidator.js");
+const { WorkerCoordinator } = await import("../workers/coordinator.js");
+const { OrganizationCache } = await import("../cache/organizationCache.js");
+const { createLogger } = await import("../logger.js");
+
+// --- Helpers ---
+
+function writeFile(filename: string, content: string): string {
+  const filePath = path.join(TEMP_DIR, filename);
+  fs.writeFileSync(filePath, content, "utf8");
+  return filePath;
+}
+
+function jsonl(records: unknown[]): string {
+  return records.map(r => JSON.stringify(r)).join("\n") + "\n";
+}
+
+async function readRows(filePath: string): Promise<CSVRow[]> {
+  const rows: CSVRow[] = [];
+  const parser = createRowParser(filePath);
+  await new Promise<void>((resolve, reject) => {
+    parser.on("readable", () => {
+      let row: CSVRow | null;
+      while ((row = parser.read()) !== null) {
+        rows.push(row);
+      }
+    });
+    parser.on("end", () => resolve());
+    parser.on("error", reject);
+    fs.createReadStream(filePath).pipe(parser);
+  });
+  return rows;
+}
+
+// --- Test Runner ---
+
+let passed = 0;
+let failed = 0;
+
+async function test(name: string, fn: () => Promise<void> | void) {
+  server.reset();
+  try {
+    await fn();
+    passed++;
+    console.log(`  ✓ ${name}`);
+  } catch (err: unknown) {
+    failed++;
+    console.log(`  ✗ ${name}`);
+    console.log(`    ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+// --- Test Suite ---
+
+async function main() {
+  fs.mkdirSync(TEMP_DIR, { recursive: true });
+
+  console.log("\nJSONL Input Tests");
+  console.log("=================\n");
+
+  const usersJsonl = writeFile("users.jsonl", jsonl([
+    { email: "ann@acme.com", first_name: "Ann", metadata: { plan: "pro", tags: ["a", "b"] }, role_slugs: ["admin", "editor"] },
+    { email: "bob@acme.com", first_name: "Bob", email_verified: true },
+    { email: "cid@acme.com", metadata: { seats: 3 } },
+    { email: "dee@acme.com", role_slugs: ["viewer"] },
+    { email: "eve@acme.com", nickname: "E" }
+  ]));
+
+  await test("detects JSONL by extension", () => {
+    assert.equal(detectInputFormat("users.jsonl"), "jsonl");
+    assert.equal(detectInputFormat("/tmp/USERS.NDJSON"), "jsonl");
+    assert.equal(detectInputFormat("users.csv"), "csv");
+    assert.equal(detectInputFormat("users.txt"), "csv");
+  });
+
+  await test("parses one record per line, skipping blank lines, BOM and CRLF", async () => {
+    const filePath = writeFile("crlf.ndjson", '\uFEFF{"email":"a@x.com"}\r\n\r\n{"email":"b@x.com","role_slugs":["r"]}');
+    const rows = await readRows(filePath);
+    assert.deepEqual(rows, [{ email: "a@x.com" }, { email: "b@x.com", role_slugs: ["r"] }]);
+  });
+
+  await test("rejects malformed lines with their line number", async () => {
+    const badJson = writeFile("bad.jsonl", '{"email":"a@x.com"}\n\n{"email":\n');
+    await assert.rejects(readRows(badJson), /Invalid JSON on line 3/);
+    const notObject = writeFile("array.jsonl", '["a@x.com"]\n');
+    await assert.rejects(readRows(notObject), /Line 1 must be a JSON object/);
+  });
+
+  await test("builds payloads from nested metadata and role arrays", () => {
+    const built = buildUserAndOrgFromRow({
+      email: "ann@acme.com",
+      metadata: { plan: "pro", tags: ["a", "b"] },
+      role_slugs: ["admin", " editor "]
+    });
+    assert.deepEqual(built.userPayload?.metadata, { plan: "pro", tags: '["a","b"]' });
+    assert.deepEqual(built.roleSlugs, ["admin", "editor"]);
+
+    const invalid = buildUserAndOrgFromRow({ email: "ann@acme.com", metadata: ["x"] as never });
+    assert.equal(invalid.error, "Metadata must be a JSON object");
+  });
+
+  await test("counts records and reads fields for checkpoint planning", async () => {
+    const withBlanks = writeFile("blanks.jsonl", '{"email":"a@x.com","org_id":"org_1"}\n\n{"email":"b@x.com"}\n\n');
+    assert.equal(await countCsvRows(withBlanks), 2);
+    assert.equal(await countCsvRows(usersJsonl), 5);
+    assert.deepEqual(await validateCsvHeaders(withBlanks), { valid: true, hasOrgColumns: true });
+  });
+
+  await test("streaming import sends metadata and roles without a CSV round-trip", async () => {
+    const org = server.seedOrganization({ name: "Acme" });
+    const { summary, errors } = await importUsersFromCsv({ csvPath: usersJsonl, quiet: true, orgId: org.id, concurrency: 1 });
+    assert.deepEqual(errors, []);
+    assert.equal(summary.usersCreated, 5);
+    assert.equal(summary.membershipsCreated, 5);
+    assert.ok(summary.warnings.includes("Ignoring unknown fields: nickname"));
+
+    const users = [...server.state.users.values()];
+    const ann = users.find(u => u.email === "ann@acme.com")!;
+    assert.deepEqual(ann.metadata, { plan: "pro", tags: '["a","b"]' });
+    assert.equal(users.find(u => u.email === "bob@acme.com")!.email_verified, true);
+
+    const annMembership = [...server.state.memberships.values()].find(m => m.user_id === ann.id)!;
+    assert.deepEqual(annMembership.roles.map(r => r.slug), ["admin", "editor"]);
+  });
+
+  await test("chunked mode splits JSONL records into checkpoint chunks", async () => {
+    const org = server.seedOrganization({ name: "Acme" });
+    const manager = await CheckpointManager.create({
+      jobId: "jsonl-job",
+      csvPath: usersJsonl,
+      csvHash: await calculateCsvHash(usersJsonl),
+      totalRows: await countCsvRows(usersJsonl),
+      chunkSize: 2,
+      concurrency: 2,
+      mode: "single-org",
+      checkpointDir: CHECKPOINT_DIR
+    });
+    const { summary } = await importUsersFromCsv({ csvPath: usersJsonl, quiet: true, orgId: org.id, checkpointManager: manager });
+    assert.equal(summary.usersCreated, 5);
+    assert.equal(manager.getProgress().completedChunks, 3);
+    const cid = [...server.state.users.values()].find(u => u.email === "cid@acme.com")!;
+    assert.deepEqual(cid.metadata, { seats: 3 });
+  });
+
+  await test("worker mode pre-warms organizations from JSONL records", async () => {
+    const multiOrgJsonl = writeFile("multi-org.jsonl", jsonl([
+      { email: "ann@acme.com", org_external_id: "acme", org_name: "Acme", org_domains: ["acme.com:verified"], role_slugs: ["admin"] },
+      { email: "bob@beta.com", org_external_id: "beta", org_name: "Beta" },
+      { email: "cid@acme.com", org_external_id: "acme", org_name: "Acme" }
+    ]));
+    const manager = await CheckpointManager.create({
+      jobId: "jsonl-worker-job",
+      csvPath: multiOrgJsonl,
+      csvHash: await calculateCsvHash(multiOrgJsonl),
+      totalRows: await countCsvRows(multiOrgJsonl),
+      chunkSize: 2,
+      concurrency: 2,
+      mode: "multi-org",
+      checkpointDir: CHECKPOINT_DIR
+    });
+    const coordinator = new WorkerCoordinator(
+      {
+        checkpointManager: manager,
+        numWorkers: 2,
+        orgCache: new OrganizationCache(),
+        importOptions: { csvPath: multiOrgJsonl, concurrency: 2, orgId: null, requireMembership: false, dryRun: false, quiet: true }
+      },
+      createLogger({ quiet: true })
+    );
+    (coordinator as any).workerPath = writeTsxWorkerEntry(TEMP_DIR);
+
+    const summary = await coordinator.start();
+    assert.equal(summary.usersCreated, 3);
+    assert.equal(summary.membershipsCreated, 3);
+    assert.equal(manager.getProgress().completedChunks, 2);
+    const orgs = [...server.state.organizations.values()];
+    assert.deepEqual(orgs.map(o => o.external_id).sort(), ["acme", "beta"]);
+    assert.deepEqual(orgs.find(o => o.external_id === "acme")!.domains.map(d => d.domain), ["acme.com"]);
+  });
+
+  await test("validator checks JSONL fields and writes fixed JSONL", async () => {
+    const input = writeFile("validate.jsonl", jsonl([
+      { email: "ann@acme.com", metadata: { prefs: { theme: "dark" } }, role_slugs: ["Admin"] },
+      { email: "bob@acme.com", org_external_id: "acme", metadata: "oops" }
+    ]));
+    const fixedPath = path.join(TEMP_DIR, "validate-fixed.jsonl");
+    const report = await new CSVValidator({ csvPath: input, autoFix: true, fixedCsvPath: fixedPath, quiet: true }).validate();
+
+    assert.equal(report.summary.totalRows, 2);
+    assert.equal(report.summary.mode, "multi-org");
+    const ruleIds = report.issues.map(i => `${i.recordNumber}:${i.ruleId}`);
+    assert.ok(ruleIds.includes("1:role-slugs-format"));
+    assert.ok(ruleIds.includes("1:metadata-arrays-objects"));
+    assert.ok(ruleIds.includes("2:metadata-json"));
+
+    const fixed = await readRows(fixedPath);
+    assert.deepEqual(fixed[0]?.metadata, { prefs: '{"theme":"dark"}' });
+    assert.deepEqual(fixed[0]?.role_slugs, ["Admin"]);
+  });
+
+  await server.stop();
+  fs.rmSync(TEMP_DIR, { recursive: true, force: true });
+
+  console.log(`\nTests: ${passed} passed, ${failed} failed`);
+  if (failed > 0) {
+    process.exit(1);
+  }
+  process.exit(0);
+}
+
+main().catch(async (err) => {
+  console.error("Test runner error:", err);
+  await server.stop();
+  process.exit(1);
+});
@@ -0,0 +1,192 @@
+/**
+ * Membership Retry Tests
+ *
+ * Rows with a user_id skip user creation and only re-attempt the membership
+ * (or re-apply roles to an existing membership), and membership failures from
+ * errors.jsonl round-trip through the analyzer's membership retry CSV.
+ *
+ * Run with: npx tsx src/__tests__/membershipRetry.test.ts
+ */
+
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { startFakeWorkOSServer } from "../testing/fakeWorkOSServer.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const TEMP_DIR = path.join(__dirname, "../../.temp-membership-retry-tests");
+const CHECKPOINT_DIR = path.join(TEMP_DIR, "checkpoints");
+
+const server = await startFakeWorkOSServer({ apiKey: "sk_test_membership_retry" });
+process.env.WORKOS_BASE_URL = server.baseUrl;
+process.env.WORKOS_SECRET_KEY = "sk_test_membership_retry";
+
+const { importUsersFromCsv, buildUserAndOrgFromRow } = await import("../importer.js");
+const { ErrorAnalyzer } = await import("../analyzer/errorAnalyzer.js");
+const { generateMembershipRetryCsv } = await import("../analyzer/retryCsvGenerator.js");
+const { CheckpointManager } = await import("../checkpoint/manager.js");
+const { calculateCsvHash, countCsvRows } = await import("../checkpoint/csvUtils.js");
+
+// --- Helpers ---
+
+function writeFile(filename: string, lines: string[]): string {
+  const filePath = path.join(TEMP_DIR, filename);
+  fs.writeFileSync(filePath, lines.join("\n") + "\n", "utf8");
+  return filePath;
+}
+
+function membershipRoles(userId: string, orgId: string): string[] | undefined {
+  const membership = [...server.state.memberships.values()].find(m => m.user_id === userId && m.organization_id === orgId);
+  return membership?.roles.map(r => r.slug);
+}
+
+// --- Test Runner ---
+
+let passed = 0;
+let failed = 0;
+
+async function test(name: string, fn: () => Promise<void> | void) {
+  server.reset();
+  try {
+    await fn();
+    passed++;
+    console.log(`  ✓ ${name}`);
+  } catch (err: unknown) {
+    failed++;
+    console.log(`  ✗ ${name}`);
+    console.log(`    ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+// --- Test Suite ---
+
+async function main() {
+  fs.mkdirSync(TEMP_DIR, { recursive: true });
+
+  console.log("\nMembership Retry Tests");
+  console.log("======================\n");
+
+  await test("user_id rows cannot carry a delta action", () => {
+    assert.equal(buildUserAndOrgFromRow({ email: "ann@acme.com", user_id: " user_1 " }).userId, "user_1");
+    assert.equal(
+      buildUserAndOrgFromRow({ email: "ann@acme.com", user_id: "user_1", action: "delete" }).error,
+      'user_id rows cannot use action "delete"'
+    );
+  });
+
+  await test("user_id rows create the membership without creating the user", async () => {
+    const user = server.seedUser({ email: "ann@acme.com" });
+    const org = server.seedOrganization({ name: "Acme", external_id: "acme" });
+    const csvPath = writeFile("membership-only.csv", [
+      "user_id,email,org_external_id,role_slugs",
+      `${user.id},ann@acme.com,acme,admin`
+    ]);
+
+    const { summary } = await importUsersFromCsv({ csvPath, quiet: true, multiOrgMode: true });
+
+    assert.equal(summary.failures, 0);
+    assert.equal(summary.usersCreated, 0);
+    assert.equal(summary.membershipsCreated, 1);
+    assert.equal(server.countRequests("POST", "/user_management/users"), 0);
+    assert.deepEqual(membershipRoles(user.id, org.id), ["admin"]);
+  });
+
+  await test("membership failures round-trip through the membership retry CSV", async () => {
+    server.seedOrganization({ name: "Acme", external_id: "acme" });
+    const csvPath = writeFile("users.csv", [
+      "email,external_id,org_external_id,role_slugs",
+      "bob@acme.com,ext_bob,acme,editor"
+    ]);
+    const errorsPath = path.join(TEMP_DIR, "errors.jsonl");
+
+    server.addFault({ method: "POST", path: "/user_management/organization_memberships", status: 500 });
+    const first = await importUsersFromCsv({ csvPath, quiet: true, multiOrgMode: true, errorsOutPath: errorsPath });
+    server.clearFaults();
+    assert.equal(first.summary.usersCreated, 1);
+    assert.equal(first.summary.failures, 1);
+
+    const analyzer = new ErrorAnalyzer({ errorsPath, reportPath: path.join(TEMP_DIR, "report.json"), quiet: true });
+    const report = await analyzer.analyze();
+    assert.deepEqual(report.retryability.retryable.byPhase, { full: 0, membership: 1, role: 0 });
+    assert.equal(analyzer.getRetryableErrors(["full"]).length, 0);
+
+    const retryCsv = path.join(TEMP_DIR, "retry-membership.csv");
+    assert.equal(await generateMembershipRetryCsv(analyzer.getRetryableErrors(["membership", "role"]), retryCsv), 1);
+
+    const retry = await importUsersFromCsv({ csvPath: retryCsv, quiet: true, multiOrgMode: true });
+    assert.equal(retry.summary.failures, 0);
+    assert.equal(retry.summary.usersCreated, 0);
+    assert.equal(server.countRequests("POST", "/user_management/users"), 1, "The retry does not create the user again");
+
+    const user = [...server.state.users.values()].find(u => u.email === "bob@acme.com")!;
+    const org = [...server.state.organizations.values()][0]!;
+    assert.deepEqual(membershipRoles(user.id, org.id), ["editor"]);
+  });
+
+  await test("chunked mode re-applies roles to an existing membership", async () => {
+    const org = server.seedOrganization({ name: "Acme" });
+    const user = server.seedUser({ email: "cid@acme.com" });
+    await importUsersFromCsv({ csvPath: writeFile("seed.csv", ["email,org_id", `cid@acme.com,${org.id}`]), quiet: true, multiOrgMode: true, onConflict: "skip" });
+    assert.deepEqual(membershipRoles(user.id, org.id), ["member"]);
+
+    const csvPath = writeFile("roles.csv", [
+      "user_id,email,org_id,role_slugs",
+      `${user.id},cid@acme.com,${org.id},"admin,editor"`
+    ]);
+    const manager = await CheckpointManager.create({
+      jobId: "role-retry",
+      csvPath,
+      csvHash: await calculateCsvHash(csvPath),
+      totalRows: await countCsvRows(csvPath),
+      chunkSize: 10,
+      concurrency: 1,
+      mode: "multi-org",
+      checkpointDir: CHECKPOINT_DIR
+    });
+
+    const { summary } = await importUsersFromCsv({ csvPath, quiet: true, multiOrgMode: true, checkpointManager: manager });
+
+    assert.equal(summary.failures, 0);
+    assert.equal(summary.rolesAssigned, 2);
+    assert.deepEqual(membershipRoles(user.id, org.id), ["admin", "editor"]);
+  });
+
+  await test("role update failures are recorded as role_assignment errors", async () => {
+    const org = server.seedOrganization({ name: "Acme" });
+    const user = server.seedUser({ email: "dee@acme.com" });
+    await importUsersFromCsv({ csvPath: writeFile("seed-dee.csv", ["email,org_id", `dee@acme.com,${org.id}`]), quiet: true, multiOrgMode: true, onConflict: "skip" });
+
+    server.addFault({ method: "PUT", path: "/user_management/organization_memberships", status: 422, body: { message: "Role not found" } });
+    const csvPath = writeFile("bad-role.csv", [
+      "user_id,email,org_id,role_slugs",
+      `${user.id},dee@acme.com,${org.id},ghost`
+    ]);
+    const { summary, errors } = await importUsersFromCsv({ csvPath, quiet: true, multiOrgMode: true });
+
+    assert.equal(summary.failures, 1);
+    assert.equal(errors.length, 1);
+    assert.equal(errors[0]!.errorType, "role_assignment");
+    assert.equal(errors[0]!.userId, user.id);
+    assert.equal(errors[0]!.orgId, org.id);
+    assert.deepEqual(errors[0]!.roleSlugs, ["ghost"]);
+    assert.equal(errors[0]!.httpStatus, 422);
+  });
+
+  await server.stop();
+  fs.rmSync(TEMP_DIR, { recursive: true, force: true });
+
+  console.log(`\nTests: ${passed} passed, ${failed} failed`);
+  if (failed > 0) {
+    process.exit(1);
+  }
+  process.exit(0);
+}
+
+main().catch(async (err) => {
+  console.error("Test runner error:", err);
+  await server.stop();
+  process.exit(1);
+});
@@ -0,0 +1,102 @@
+/**
+ * Adaptive Rate Limiter Tests
+ *
+ * AIMD rate changes and Retry-After pauses.
+ *
+ * Run with: npx tsx src/__tests__/rateLimiter.test.ts
+ */
+
+import assert from "node:assert/strict";
+import { AdaptiveRateLimiter } from "../rateLimiter.js";
+
+// --- Test Runner ---
+
+let passed = 0;
+let failed = 0;
+
+async function test(name: string, fn: () => Promise<void> | void) {
+  try {
+    await fn();
+    passed++;
+    console.log(`  ✓ ${name}`);
+  } catch (err: unknown) {
+    failed++;
+    console.log(`  ✗ ${name}`);
+    console.log(`    ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+// --- Test Suite ---
+
+async function main() {
+  console.log("\nAdaptive Rate Limiter Tests");
+  console.log("===========================\n");
+
+  await test("halves the rate on throttle, once per cooldown window", () => {
+    const limiter = new AdaptiveRateLimiter({ initialRate: 40, minRate: 5 });
+    limiter.recordThrottle();
+    limiter.recordThrottle();
+    limiter.recordThrottle();
+    const metrics = limiter.getMetrics();
+    assert.equal(metrics.currentRate, 20, "A burst of 429s counts as one decrease");
+    assert.equal(metrics.throttles, 3);
+    assert.equal(metrics.decreases, 1);
+  });
+
+  await test("never drops below minRate", () => {
+    const limiter = new AdaptiveRateLimiter({ initialRate: 8, minRate: 3, decreaseCooldownMs: 0 });
+    for (let i = 0; i < 5; i++) limiter.recordThrottle();
+    assert.equal(limiter.getCurrentRate(), 3);
+    assert.equal(limiter.getMetrics().lowestRate, 3);
+  });
+
+  await test("recovers additively after sustained success, capped at maxRate", () => {
+    const limiter = new AdaptiveRateLimiter({ initialRate: 10, maxRate: 12, successesPerIncrease: 5, increaseStep: 1 });
+    limiter.recordSuccess(4);
+    assert.equal(limiter.getCurrentRate(), 10, "No increase before a full window");
+    limiter.recordSuccess();
+    assert.equal(limiter.getCurrentRate(), 11);
+    limiter.recordSuccess(5);
+    limiter.recordSuccess(5);
+    assert.equal(limiter.getCurrentRate(), 12);
+    assert.equal(limiter.getMetrics().increases, 2);
+  });
+
+  await test("throttling resets the success streak", () => {
+    const limiter = new AdaptiveRateLimiter({ initialRate: 10, successesPerIncrease: 5 });
+    limiter.recordSuccess(4);
+    limiter.recordThrottle();
+    limiter.recordSuccess(4);
+    assert.equal(limiter.getCurrentRate(), 5);
+  });
+
+  await test("pauses grants for Retry-After", async () => {
+    const limiter = new AdaptiveRateLimiter({ initialRate: 100 });
+    await limiter.acquire();
+    limiter.recordThrottle(150);
+    const start = Date.now();
+    await limiter.acquire();
+    assert.ok(Date.now() - start >= 140, `Waited ${Date.now() - start}ms`);
+    limiter.stop();
+  });
+
+  await test("paces grants at the current rate", async () => {
+    const limiter = new AdaptiveRateLimiter({ initialRate: 20 });
+    limiter.recordThrottle(); // 10 rps, burst dropped
+    const start = Date.now();
+    for (let i = 0; i < 3; i++) await limiter.acquire();
+    assert.ok(Date.now() - start >= 250, `3 tokens at 10 rps took ${Date.now() - start}ms`);
+    assert.equal(limiter.getMetrics().requests, 3);
+  });
+
+  console.log(`\nTests: ${passed} passed, ${failed} failed`);
+  if (failed > 0) {
+    process.exit(1);
+  }
+  process.exit(0);
+}
+
+main().catch((err) => {
+  console.error("Test runner error:", err);
+  process.exit(1);
+});
@@ -0,0 +1,178 @@
+/**
+ * Redaction Tests
+ *
+ * Redaction policies (keep, drop, hash, mask per field) applied to error
+ * records, errors files, analyzer reports and log output. Plaintext passwords
+ * and TOTP secrets are never persisted by default.
+ *
+ * Run with: npx tsx src/__tests__/redaction.test.ts
+ */
+
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { startFakeWorkOSServer } from "../testing/fakeWorkOSServer.js";
+import type { ErrorRecord } from "../types.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const TEMP_DIR = path.join(__dirname, "../../.temp-redaction-tests");
+
+const server = await startFakeWorkOSServer({ apiKey: "sk_test_redaction" });
+process.env.WORKOS_BASE_URL = server.baseUrl;
+process.env.WORKOS_SECRET_KEY = "sk_test_redaction";
+
+const { importUsersFromCsv } = await import("../importer.js");
+const { writeErrorsOut } = await import("../errorsOut.js");
+const { ErrorAnalyzer } = await import("../analyzer/errorAnalyzer.js");
+const { createLogger } = await import("../logger.js");
+const { parseRedactionRules, redactErrorRecord, redactText } = await import("../redaction.js");
+
+// --- Helpers ---
+
+function errorRecord(overrides: Partial<ErrorRecord> = {}): ErrorRecord {
+  return {
+    recordNumber: 1,
+    email: "John.Doe@example.com",
+    errorType: "user_create",
+    httpStatus: 422,
+    errorMessage: "User John.Doe@example.com is invalid",
+    timestamp: "2026-01-01T00:00:00.000Z",
+    rawRow: { email: "John.Doe@example.com", password: "hunter2", totp_secret: "JBSWY3DPEHPK3PXP", first_name: "John" },
+    ...overrides
+  };
+}
+
+// --- Test Runner ---
+
+let passed = 0;
+let failed = 0;
+
+async function test(name: string, fn: () => Promise<void> | void) {
+  server.reset();
+  try {
+    await fn();
+    passed++;
+    console.log(`  ✓ ${name}`);
+  } catch (err: unknown) {
+    failed++;
+    console.log(`  ✗ ${name}`);
+    console.log(`    ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+// --- Test Suite ---
+
+async function main() {
+  fs.mkdirSync(TEMP_DIR, { recursive: true });
+
+  console.log("\nRedaction Tests");
+  console.log("===============\n");
+
+  await test("default policy drops passwords and secrets only", () => {
+    const redacted = redactErrorRecord(errorRecord({ rawRow: { email: "a@acme.com", password: "x", totp_secret: "y", client_secret: "z", password_hash: "$2a$10$abc" } }));
+    assert.deepEqual(redacted.rawRow, { email: "a@acme.com", password_hash: "$2a$10$abc" });
+    assert.equal(redacted.email, "John.Doe@example.com");
+  });
+
+  await test("mask and hash apply to the email, message and row", () => {
+    const masked = redactErrorRecord(errorRecord(), parseRedactionRules("email=mask"));
+    assert.equal(masked.email, "J***@example.com");
+    assert.equal(masked.errorMessage, "User J***@example.com is invalid");
+    assert.equal(masked.rawRow?.email, "J***@example.com");
+
+    const policy = parseRedactionRules("email=hash,first_name=drop");
+    const hashed = redactErrorRecord(errorRecord(), policy);
+    assert.match(hashed.email!, /^sha256:[0-9a-f]{16}$/);
+    assert.equal(hashed.email, redactErrorRecord(errorRecord({ email: " john.doe@EXAMPLE.com" }), policy).email, "Hashes are case-insensitive");
+    assert.equal(hashed.rawRow?.first_name, undefined);
+    assert.ok(!hashed.errorMessage.includes("example.com"));
+  });
+
+  await test("rules can override the default and reject unknown actions", () => {
+    assert.equal(redactErrorRecord(errorRecord(), parseRedactionRules("password=keep")).rawRow?.password, "hunter2");
+    assert.throws(() => parseRedactionRules("email=encrypt"), /Invalid redaction rule "email=encrypt"/);
+    assert.throws(() => parseRedactionRules("email"), /Invalid redaction rule/);
+    assert.equal(redactText("Contact a@acme.com", parseRedactionRules("email=drop")), "Contact [redacted]");
+  });
+
+  await test("writeErrorsOut applies the policy to CSV and JSON", async () => {
+    const csvPath = path.join(TEMP_DIR, "errors.csv");
+    const jsonPath = path.join(TEMP_DIR, "errors.json");
+    await writeErrorsOut(csvPath, [errorRecord()]);
+    await writeErrorsOut(jsonPath, [errorRecord()], parseRedactionRules("email=mask"));
+
+    assert.ok(!fs.readFileSync(csvPath, "utf8").includes("hunter2"));
+    const json = fs.readFileSync(jsonPath, "utf8");
+    assert.ok(!json.includes("hunter2") && !json.includes("JBSWY3DPEHPK3PXP"));
+    assert.ok(!json.includes("John.Doe@example.com"));
+  });
+
+  await test("streamed errors.jsonl and the analyzer report never contain plaintext passwords", async () => {
+    const csvPath = path.join(TEMP_DIR, "users.csv");
+    fs.writeFileSync(csvPath, "email,password,first_name\nann@acme.com,S3cret!pass,Ann\n", "utf8");
+    const errorsPath = path.join(TEMP_DIR, "errors.jsonl");
+    const reportPath = path.join(TEMP_DIR, "report.json");
+
+    server.addFault({ method: "POST", path: "/user_management/users", status: 422 });
+    const { summary } = await importUsersFromCsv({
+      csvPath, quiet: true, errorsOutPath: errorsPath, redaction: parseRedactionRules("email=hash")
+    });
+    server.clearFaults();
+    assert.equal(summary.failures, 1);
+
+    const streamed = fs.readFileSync(errorsPath, "utf8");
+    assert.ok(!streamed.includes("S3cret!pass"));
+    assert.ok(!streamed.includes("ann@acme.com"));
+
+    const analyzer = new ErrorAnalyzer({ errorsPath, reportPath, quiet: true });
+    await analyzer.analyze();
+    const report = fs.readFileSync(reportPath, "utf8");
+    assert.ok(!report.includes("S3cret!pass"));
+    assert.ok(report.includes("sha256:"), "Hashed emails are carried into the report");
+  });
+
+  await test("analyzer report applies its own policy to examples and affected emails", async () => {
+    const errorsPath = path.join(TEMP_DIR, "plain-errors.jsonl");
+    const reportPath = path.join(TEMP_DIR, "plain-report.json");
+    fs.writeFileSync(errorsPath, JSON.stringify(errorRecord()) + "\n", "utf8");
+
+    const analyzer = new ErrorAnalyzer({ errorsPath, reportPath, redaction: parseRedactionRules("email=mask"), quiet: true });
+    const returned = await analyzer.analyze();
+    const written = JSON.parse(fs.readFileSync(reportPath, "utf8"));
+
+    assert.deepEqual(written.groups[0].affectedEmails, ["J***@example.com"]);
+    assert.equal(written.groups[0].examples[0].rawRow.password, undefined);
+    assert.equal(returned.groups[0]?.examples[0]?.email, "John.Doe@example.com", "The returned report is not redacted");
+  });
+
+  await test("logger redacts emails when given a policy", () => {
+    const lines: string[] = [];
+    const log = console.log;
+    console.log = (...args: unknown[]) => { lines.push(args.join(" ")); };
+    try {
+      createLogger({ redaction: parseRedactionRules("email=mask") }).log("Created ann@acme.com");
+      createLogger({}).log("Created bob@acme.com");
+    } finally {
+      console.log = log;
+    }
+    assert.deepEqual(lines, ["Created a***@acme.com", "Created bob@acme.com"]);
+  });
+
+  await server.stop();
+  fs.rmSync(TEMP_DIR, { recursive: true, force: true });
+
+  console.log(`\nTests: ${passed} passed, ${failed} failed`);
+  if (failed > 0) {
+    process.exit(1);
+  }
+  process.exit(0);
+}
+
+main().catch(async (err) => {
+  console.error("Test runner error:", err);
+  await server.stop();
+  process.exit(1);
+});
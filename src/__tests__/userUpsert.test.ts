@@ -0,0 +1,253 @@
+/**
+ * User Upsert Tests
+ *
+ * Tests for --on-conflict (fail | skip | update) with a mocked WorkOS SDK.
+ *
+ * Run with: npx tsx src/__tests__/userUpsert.test.ts
+ */
+
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Set env before any imports that use getWorkOSClient
+process.env.WORKOS_SECRET_KEY = "sk_test_fake_key_for_tests";
+
+const TEMP_DIR = path.join(__dirname, "../../.temp-upsert-tests");
+
+// --- Helpers ---
+
+interface MockUser {
+  id: string;
+  email: string;
+}
+
+/**
+ * Fake userManagement: emails in `existing` conflict on createUser with a 422
+ * email_not_available error (the shape the WorkOS SDK throws); "userId:orgId"
+ * pairs in `memberships` conflict on createOrganizationMembership with a 409
+ */
+function createMockWorkOS(existing: MockUser[], opts?: { updateError?: Error; memberships?: string[] }) {
+  const calls = {
+    created: [] as string[],
+    updated: [] as Array<Record<string, unknown>>,
+    memberships: [] as string[],
+    membershipUpdates: [] as Array<{ id: string; roles: Record<string, unknown> }>,
+    deleted: [] as string[]
+  };
+
+  const userManagement = {
+    createUser: async (payload: { email: string }) => {
+      if (existing.some(u => u.email === payload.email)) {
+        const err: any = new Error("Email not available.");
+        err.status = 422;
+        err.errors = [{ code: "email_not_available", message: "Email not available." }];
+        throw err;
+      }
+      calls.created.push(payload.email);
+      return { id: `user_new_${calls.created.length}` };
+    },
+    listUsers: async ({ email }: { email: string }) => ({
+      data: existing.filter(u => u.email === email)
+    }),
+    updateUser: async (params: Record<string, unknown>) => {
+      if (opts?.updateError) throw opts.updateError;
+      calls.updated.push(params);
+      return {};
+    },
+    createOrganizationMembership: async ({ userId, organizationId }: { userId: string; organizationId: string }) => {
+      calls.memberships.push(`${userId}:${organizationId}`);
+      if (organizationId === "org_broken") {
+        const err: any = new Error("Internal error");
+        err.status = 500;
+        throw err;
+      }
+      if (opts?.memberships?.includes(`${userId}:${organizationId}`)) {
+        const err: any = new Error("Membership already exists");
+        err.status = 409;
+        throw err;
+      }
+      return {};
+    },
+    listOrganizationMemberships: async ({ userId, organizationId }: { userId: string; organizationId: string }) => ({
+      data: opts?.memberships?.includes(`${userId}:${organizationId}`) ? [{ id: `om_${userId}` }] : []
+    }),
+    updateOrganizationMembership: async (id: string, roles: Record<string, unknown>) => {
+      calls.membershipUpdates.push({ id, roles });
+      return {};
+    },
+    deleteUser: async (userId: string) => {
+      calls.deleted.push(userId);
+    }
+  };
+
+  return { userManagement, calls };
+}
+
+function writeCsv(filename: string, rows: string[]): string {
+  const filePath = path.join(TEMP_DIR, filename);
+  fs.writeFileSync(filePath, rows.join("\n"), "utf8");
+  return filePath;
+}
+
+// --- Test Runner ---
+
+let passed = 0;
+let failed = 0;
+
+async function test(name: string, fn: () => Promise<void> | void) {
+  try {
+    await fn();
+    passed++;
+    console.log(`  ✓ ${name}`);
+  } catch (err: unknown) {
+    failed++;
+    console.log(`  ✗ ${name}`);
+    console.log(`    ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+// --- Install mock into the cached WorkOS client ---
+
+import * as workosModule from "../workos.js";
+
+const realClient = workosModule.getWorkOSClient();
+const originalUserManagement = realClient.userManagement;
+
+function installMock(mock: ReturnType<typeof createMockWorkOS>) {
+  (realClient as never as Record<string, unknown>).userManagement = mock.userManagement;
+}
+
+function restoreMock() {
+  (realClient as never as Record<string, unknown>).userManagement = originalUserManagement;
+}
+
+const { parseOnConflictMode, isUserConflictError } = await import("../userUpsert.js");
+const { importUsersFromCsv } = await import("../importer.js");
+
+// --- Test Suite ---
+
+async function main() {
+  fs.mkdirSync(TEMP_DIR, { recursive: true });
+
+  console.log("\nUser Upsert Tests");
+  console.log("=================\n");
+
+  const existing: MockUser[] = [{ id: "user_existing", email: "old@acme.com" }];
+  const csvPath = writeCsv("users.csv", [
+    "email,first_name,last_name,external_id,metadata",
+    'old@acme.com,Olga,Updated,ext-old,"{""plan"":""pro""}"',
+    "new@acme.com,Nina,New,ext-new,"
+  ]);
+
+  await test("parseOnConflictMode defaults to fail and rejects unknown values", () => {
+    assert.equal(parseOnConflictMode(undefined), "fail");
+    assert.equal(parseOnConflictMode("Update"), "update");
+    assert.throws(() => parseOnConflictMode("merge"), /Invalid --on-conflict value/);
+  });
+
+  await test("isUserConflictError recognises 409 and email_not_available", () => {
+    assert.equal(isUserConflictError({ status: 409 }), true);
+    assert.equal(isUserConflictError({ status: 422, errors: [{ code: "email_not_available" }] }), true);
+    assert.equal(isUserConflictError({ status: 422, message: "Invalid email" }), false);
+    assert.equal(isUserConflictError({ status: 500 }), false);
+  });
+
+  await test("fail mode records existing users as user_create errors", async () => {
+    const mock = createMockWorkOS(existing);
+    installMock(mock);
+    const { summary, errors } = await importUsersFromCsv({ csvPath, quiet: true, orgId: "org_1" });
+    assert.equal(summary.usersCreated, 1);
+    assert.equal(summary.failures, 1);
+    assert.equal(errors[0]?.errorType, "user_create");
+    assert.deepEqual(mock.calls.memberships, ["user_new_1:org_1"]);
+    restoreMock();
+  });
+
+  await test("skip mode reuses the existing user and still creates the membership", async () => {
+    const mock = createMockWorkOS(existing);
+    installMock(mock);
+    const { summary, errors } = await importUsersFromCsv({ csvPath, quiet: true, orgId: "org_1", onConflict: "skip" });
+    assert.equal(errors.length, 0);
+    assert.equal(summary.usersCreated, 1);
+    assert.equal(summary.usersSkipped, 1);
+    assert.equal(summary.usersUpdated, 0);
+    assert.equal(mock.calls.updated.length, 0);
+    assert.ok(mock.calls.memberships.includes("user_existing:org_1"));
+    restoreMock();
+  });
+
+  await test("update mode patches name, external_id and metadata", async () => {
+    const mock = createMockWorkOS(existing);
+    installMock(mock);
+    const { summary } = await importUsersFromCsv({ csvPath, quiet: true, orgId: "org_1", onConflict: "update" });
+    assert.equal(summary.usersUpdated, 1);
+    assert.equal(summary.successes, 2);
+    const update = mock.calls.updated[0]!;
+    assert.equal(update.userId, "user_existing");
+    assert.equal(update.firstName, "Olga");
+    assert.equal(update.externalId, "ext-old");
+    assert.deepEqual(update.metadata, { plan: "pro" });
+    assert.ok(mock.calls.memberships.includes("user_existing:org_1"));
+    restoreMock();
+  });
+
+  await test("update mode re-applies the row's roles to an existing membership", async () => {
+    const mock = createMockWorkOS(existing, { memberships: ["user_existing:org_1"] });
+    installMock(mock);
+    const rolesCsv = writeCsv("roles.csv", [
+      "email,first_name,role_slugs",
+      "old@acme.com,Olga,admin",
+      "new@acme.com,Nina,member"
+    ]);
+    const { summary, errors } = await importUsersFromCsv({ csvPath: rolesCsv, quiet: true, orgId: "org_1", onConflict: "update" });
+    assert.equal(errors.length, 0);
+    assert.equal(summary.rolesAssigned, 2);
+    assert.deepEqual(mock.calls.membershipUpdates, [{ id: "om_user_existing", roles: { roleSlug: "admin" } }]);
+
+    // skip mode leaves existing memberships alone
+    const skipMock = createMockWorkOS(existing, { memberships: ["user_existing:org_1"] });
+    installMock(skipMock);
+    await importUsersFromCsv({ csvPath: rolesCsv, quiet: true, orgId: "org_1", onConflict: "skip" });
+    assert.equal(skipMock.calls.membershipUpdates.length, 0);
+    restoreMock();
+  });
+
+  await test("failed updates are recorded as user_update errors", async () => {
+    const mock = createMockWorkOS(existing, { updateError: new Error("Bad metadata") });
+    installMock(mock);
+    const { summary, errors } = await importUsersFromCsv({ csvPath, quiet: true, onConflict: "update" });
+    assert.equal(summary.failures, 1);
+    assert.equal(errors[0]?.errorType, "user_update");
+    assert.equal(errors[0]?.userId, "user_existing");
+    restoreMock();
+  });
+
+  await test("require-membership never deletes pre-existing users", async () => {
+    const mock = createMockWorkOS(existing);
+    installMock(mock);
+    const { summary } = await importUsersFromCsv({
+      csvPath, quiet: true, orgId: "org_broken", requireMembership: true, onConflict: "skip"
+    });
+    assert.equal(summary.failures, 2);
+    assert.deepEqual(mock.calls.deleted, ["user_new_1"]);
+    restoreMock();
+  });
+
+  fs.rmSync(TEMP_DIR, { recursive: true, force: true });
+
+  console.log(`\nTests: ${passed} passed, ${failed} failed`);
+  if (failed > 0) {
+    process.exit(1);
+  }
+  process.exit(0);
+}
+
+main().catch((err) => {
+  console.error("Test runner error:", err);
+  process.exit(1);
+});
@@ -0,0 +1,232 @@
+/**
+ * WorkOS Gateway Tests
+ *
+ * Error normalization, the shared retry policy, and gateway injection.
+ *
+ * Run with: npx tsx src/__tests__/workosGateway.test.ts
+ */
+
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Set env before any imports that use getWorkOSClient
+process.env.WORKOS_SECRET_KEY = "sk_test_fake_key_for_tests";
+
+const TEMP_DIR = path.join(__dirname, "../../.temp-gateway-tests");
+
+const { AdaptiveRateLimiter } = await import("../rateLimiter.js");
+const {
+  callWithRetry,
+  createWorkOSGateway,
+  getRetryAfterMs,
+  normalizeWorkOSError,
+  setWorkOSGatewayFactory,
+  WorkOSApiError
+} = await import("../workosGateway.js");
+const workosModule = await import("../workos.js");
+const { importUsersFromCsv } = await import("../importer.js");
+
+// --- Helpers ---
+
+function httpError(status: number, message = `HTTP ${status}`, extra: Record<string, unknown> = {}): Error {
+  return Object.assign(new Error(message), { status }, extra);
+}
+
+const FAST = { maxRetries: 3, baseDelayMs: 1, maxDelayMs: 5 };
+
+// --- Test Runner ---
+
+let passed = 0;
+let failed = 0;
+
+async function test(name: string, fn: () => Promise<void> | void) {
+  try {
+    await fn();
+    passed++;
+    console.log(`  ✓ ${name}`);
+  } catch (err: unknown) {
+    failed++;
+    console.log(`  ✗ ${name}`);
+    console.log(`    ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+// --- Test Suite ---
+
+async function main() {
+  fs.mkdirSync(TEMP_DIR, { recursive: true });
+
+  console.log("\nWorkOS Gateway Tests");
+  console.log("====================\n");
+
+  await test("normalizes SDK, fetch and network errors", () => {
+    const sdk = normalizeWorkOSError(httpError(422, "Email not available.", {
+      requestID: "req_123",
+      code: "email_not_available",
+      errors: [{ code: "email_not_available" }]
+    }));
+    assert.equal(sdk.kind, "validation");
+    assert.equal(sdk.status, 422);
+    assert.equal(sdk.code, "email_not_available");
+    assert.equal(sdk.requestId, "req_123");
+    assert.equal(sdk.message, "Email not available.");
+    assert.equal(sdk.retryable, false);
+
+    const rest = normalizeWorkOSError({
+      message: "Failed",
+      response: { status: 503, headers: new Headers({ "x-request-id": "req_456" }) }
+    });
+    assert.equal(rest.kind, "server");
+    assert.equal(rest.requestId, "req_456");
+    assert.equal(rest.retryable, true);
+
+    const reset = normalizeWorkOSError(Object.assign(new TypeError("fetch failed"), { cause: { code: "ECONNRESET" } }));
+    assert.equal(reset.kind, "network");
+    assert.equal(reset.code, "ECONNRESET");
+
+    assert.equal(normalizeWorkOSError(httpError(409)).kind, "conflict");
+    assert.equal(normalizeWorkOSError(httpError(404)).kind, "not_found");
+    assert.equal(normalizeWorkOSError(httpError(401)).kind, "auth");
+    assert.equal(normalizeWorkOSError(new Error("WORKOS_SECRET_KEY environment variable is required.")).kind, "unknown");
+  });
+
+  await test("reads Retry-After from SDK errors and response headers", () => {
+    assert.equal(getRetryAfterMs({ retryAfter: 2 }), 2000);
+    assert.equal(getRetryAfterMs({ response: { headers: { "retry-after": "3" } } }), 3000);
+    assert.equal(getRetryAfterMs({ response: { headers: new Headers({ "Retry-After": "1" }) } }), 1000);
+    const date = new Date(Date.now() + 5000).toUTCString();
+    const fromDate = getRetryAfterMs({ response: { headers: { "retry-after": date } } })!;
+    assert.ok(fromDate > 3000 && fromDate <= 5000);
+    assert.equal(getRetryAfterMs({ retryAfter: null }), undefined);
+  });
+
+  await test("retries 429s and reports them to the limiter", async () => {
+    const limiter = new AdaptiveRateLimiter({ initialRate: 50 });
+    let calls = 0;
+    const result = await callWithRetry(async () => {
+      calls++;
+      if (calls < 3) throw httpError(429, "Rate limit exceeded", { retryAfter: 0 });
+      return "ok";
+    }, limiter, FAST);
+    assert.equal(result, "ok");
+    assert.equal(calls, 3);
+    const metrics = limiter.getMetrics();
+    assert.equal(metrics.throttles, 2);
+    assert.equal(metrics.successes, 1);
+    assert.equal(metrics.currentRate, 25);
+    limiter.stop();
+  });
+
+  await test("retries 5xx and network resets", async () => {
+    let calls = 0;
+    const result = await callWithRetry(async () => {
+      calls++;
+      if (calls === 1) throw httpError(502);
+      if (calls === 2) throw Object.assign(new Error("socket hang up"), { code: "ECONNRESET" });
+      return "ok";
+    }, undefined, FAST);
+    assert.equal(result, "ok");
+    assert.equal(calls, 3);
+  });
+
+  await test("fails fast on other errors and gives up after maxRetries", async () => {
+    let calls = 0;
+    await assert.rejects(callWithRetry(async () => {
+      calls++;
+      throw httpError(409, "Conflict");
+    }, undefined, FAST), (err: unknown) => err instanceof WorkOSApiError && err.kind === "conflict");
+    assert.equal(calls, 1, "Non-retryable errors are not retried");
+
+    calls = 0;
+    await assert.rejects(callWithRetry(async () => {
+      calls++;
+      throw httpError(500, "Internal error");
+    }, undefined, { ...FAST, maxRetries: 2 }), /Internal error/);
+    assert.equal(calls, 3);
+  });
+
+  await test("SDK gateway retries membership creation on 5xx", async () => {
+    const client = workosModule.getWorkOSClient();
+    const original = client.userManagement;
+    let membershipCalls = 0;
+    (client as never as Record<string, unknown>).userManagement = {
+      createOrganizationMembership: async () => {
+        membershipCalls++;
+        if (membershipCalls === 1) throw httpError(500, "Internal error");
+        return { id: "om_1" };
+      }
+    };
+    try {
+      const gateway = createWorkOSGateway({ retryPolicy: FAST });
+      const membership = await gateway.createOrganizationMembership({ userId: "user_1", organizationId: "org_1" });
+      assert.equal(membership.id, "om_1");
+      assert.equal(membershipCalls, 2);
+    } finally {
+      (client as never as Record<string, unknown>).userManagement = original;
+    }
+  });
+
+  await test("SDK gateway retries user creation on 429 only", async () => {
+    const client = workosModule.getWorkOSClient();
+    const original = client.userManagement;
+    let createCalls = 0;
+    (client as never as Record<string, unknown>).userManagement = {
+      createUser: async () => {
+        createCalls++;
+        if (createCalls === 1) throw httpError(429, "Rate limit exceeded", { retryAfter: 0 });
+        throw httpError(502, "Bad gateway");
+      }
+    };
+    try {
+      const gateway = createWorkOSGateway({ retryPolicy: FAST });
+      await assert.rejects(gateway.createUser({ email: "ann@acme.com" }), /Bad gateway/);
+      assert.equal(createCalls, 2, "A 5xx after a create is not retried");
+    } finally {
+      (client as never as Record<string, unknown>).userManagement = original;
+    }
+  });
+
+  await test("importer uses an injected gateway", async () => {
+    const created: string[] = [];
+    const memberships: string[] = [];
+    const fake = {
+      createUser: async (payload: { email: string }) => {
+        created.push(payload.email);
+        return { id: `user_${created.length}` };
+      },
+      createOrganizationMembership: async ({ userId, organizationId }: { userId: string; organizationId: string }) => {
+        memberships.push(`${userId}:${organizationId}`);
+        return { id: `om_${memberships.length}` };
+      }
+    };
+    setWorkOSGatewayFactory(() => fake as never);
+    try {
+      const csvPath = path.join(TEMP_DIR, "users.csv");
+      fs.writeFileSync(csvPath, "email,first_name\nann@acme.com,Ann\nbob@acme.com,Bob\n", "utf8");
+      const { summary } = await importUsersFromCsv({ csvPath, quiet: true, orgId: "org_1" });
+      assert.equal(summary.usersCreated, 2);
+      assert.deepEqual(created.sort(), ["ann@acme.com", "bob@acme.com"]);
+      assert.equal(memberships.length, 2);
+    } finally {
+      setWorkOSGatewayFactory(null);
+    }
+  });
+
+  fs.rmSync(TEMP_DIR, { recursive: true, force: true });
+
+  console.log(`\nTests: ${passed} passed, ${failed} failed`);
+  if (failed > 0) {
+    process.exit(1);
+  }
+  process.exit(0);
+}
+
+main().catch((err) => {
+  console.error("Test runner error:", err);
+  process.exit(1);
+});
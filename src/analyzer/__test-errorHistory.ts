@@ -0,0 +1,303 @@
+#!/usr/bin/env node
+/**
+ * Phase 4: Error History Analyzer Tests
+ *
+ * Tests joining rounds per user, status and pattern trends, the give-up list,
+ * resolved vs. not retried users, and resolving job directories into rounds.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import { parse } from 'csv-parse/sync';
+import { ErrorHistoryAnalyzer, resolveErrorFiles, writeGiveUpList } from './errorHistory.js';
+import type { ErrorRecord } from '../types.js';
+
+let testsRun = 0;
+let testsPassed = 0;
+let testsFailed = 0;
+
+function assert(condition: boolean, message: string): void {
+  testsRun++;
+  if (condition) {
+    testsPassed++;
+    console.log(`  ✓ ${message}`);
+  } else {
+    testsFailed++;
+    console.error(`  ✗ ${message}`);
+  }
+}
+
+function testSection(name: string): void {
+  console.log(`\n${name}`);
+  console.log('='.repeat(name.length));
+}
+
+const TEMP_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'test-error-history-'));
+
+function writeRound(filePath: string, errors: Partial<ErrorRecord>[]): string {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const lines = errors.map((e, i) => JSON.stringify({
+    recordNumber: i + 1,
+    errorMessage: 'Unknown error',
+    timestamp: new Date().toISOString(),
+    ...e
+  }));
+  fs.writeFileSync(filePath, lines.join('\n') + '\n');
+  return filePath;
+}
+
+const invalidEmail: Partial<ErrorRecord> = { errorType: 'user_create', httpStatus: 422, errorMessage: 'Invalid email format' };
+const serverError: Partial<ErrorRecord> = { errorType: 'user_create', httpStatus: 500, errorMessage: 'Internal server error' };
+const rateLimited: Partial<ErrorRecord> = { errorType: 'user_create', httpStatus: 429, errorMessage: 'Rate limit exceeded' };
+
+/**
+ * Three rounds:
+ * - ann fails every round with the same validation error (joined on external_id
+ *   although her email casing changes)
+ * - bob fails round 1 with a 500 and is not in later rounds
+ * - cy fails round 2 and 3 with a 500
+ * - dee fails only in round 3 with a 429
+ */
+function writeThreeRounds(dir: string): string[] {
+  return [
+    writeRound(path.join(dir, 'round1.jsonl'), [
+      { ...invalidEmail, email: 'ann@acme.com', rawRow: { email: 'ann@acme.com', external_id: 'ext_ann' } },
+      { ...serverError, email: 'bob@acme.com', rawRow: { email: 'bob@acme.com' } }
+    ]),
+    writeRound(path.join(dir, 'round2.jsonl'), [
+      { ...invalidEmail, email: 'Ann@Acme.com', rawRow: { email: 'Ann@Acme.com', external_id: 'ext_ann' } },
+      { ...serverError, email: 'cy@acme.com', rawRow: { email: 'cy@acme.com' } }
+    ]),
+    writeRound(path.join(dir, 'round3.jsonl'), [
+      { ...invalidEmail, email: 'ann@acme.com', rawRow: { email: 'ann@acme.com', external_id: 'ext_ann' } },
+      { ...serverError, email: 'cy@acme.com', rawRow: { email: 'cy@acme.com' } },
+      { ...rateLimited, email: 'dee@acme.com', rawRow: { email: 'dee@acme.com' } }
+    ])
+  ];
+}
+
+// Test 1: Per-user status and attempts
+async function testUserHistory(): Promise<void> {
+  testSection('Test 1: Per-user Status and Attempts');
+
+  const files = writeThreeRounds(path.join(TEMP_DIR, 'status'));
+  const reportPath = path.join(TEMP_DIR, 'status-report.json');
+  const report = await new ErrorHistoryAnalyzer({ errorsPaths: files, reportPath, quiet: true }).analyze();
+
+  assert(report.rounds.length === 3, 'Should have 3 rounds');
+  assert(report.rounds[2]!.errors === 3 && report.rounds[2]!.users === 3, 'Round 3 should have 3 errors for 3 users');
+  assert(report.summary.totalUsers === 4, 'Should track 4 users');
+
+  const ann = report.users.find(u => u.externalId === 'ext_ann');
+  assert(ann?.attempts === 3, 'ann should be joined on external_id across all 3 rounds');
+  assert(ann?.status === 'persistent', 'ann should be persistent');
+  assert(report.users.find(u => u.email === 'bob@acme.com')?.status === 'not_retried',
+    'bob should be not retried without evidence of a later attempt');
+  assert(report.users.find(u => u.email === 'cy@acme.com')?.status === 'persistent', 'cy should be persistent');
+  assert(report.users.find(u => u.email === 'dee@acme.com')?.status === 'new', 'dee should be new');
+  assert(report.users[0]?.externalId === 'ext_ann', 'Users should be sorted by attempts');
+
+  assert(report.summary.persistent === 2 && report.summary.new === 1 && report.summary.notRetried === 1 &&
+    report.summary.resolved === 0, 'Summary should count 2 persistent, 1 new, 1 not retried');
+  assert(report.summary.attemptsHistogram['1'] === 2 && report.summary.attemptsHistogram['2'] === 1 &&
+    report.summary.attemptsHistogram['3'] === 1, 'Attempts histogram should be {1: 2, 2: 1, 3: 1}');
+
+  assert(fs.existsSync(reportPath), 'Should write the history report');
+}
+
+// Test 2: Pattern trends across rounds
+async function testPatternTrends(): Promise<void> {
+  testSection('Test 2: Pattern Trends');
+
+  const files = writeThreeRounds(path.join(TEMP_DIR, 'trends'));
+  const report = await new ErrorHistoryAnalyzer({
+    errorsPaths: files,
+    reportPath: path.join(TEMP_DIR, 'trends-report.json'),
+    quiet: true
+  }).analyze();
+
+  const byPattern = (pattern: string) => report.patterns.find(p => p.pattern.includes(pattern));
+  assert(byPattern('Invalid email')?.trend === 'steady', 'Validation error should be steady');
+  assert(byPattern('Invalid email')?.countsByRound.join(',') === '1,1,1', 'Validation error counts should be 1,1,1');
+  assert(byPattern('Internal server')?.trend === 'steady', 'Server error should be steady (1 → 1)');
+  assert(byPattern('Rate limit')?.trend === 'new', 'Rate limit error should be new');
+  assert(byPattern('Invalid email')?.retryable === false, 'Validation error should be non-retryable');
+
+  const twoRounds = await new ErrorHistoryAnalyzer({
+    errorsPaths: files.slice(0, 2),
+    reportPath: path.join(TEMP_DIR, 'trends-report-2.json'),
+    quiet: true
+  }).analyze();
+  assert(twoRounds.patterns.find(p => p.pattern.includes('Internal server'))?.trend === 'steady',
+    'Server error should be steady across rounds 1 and 2');
+  assert(twoRounds.summary.notRetried === 1, 'bob should be not retried after round 2');
+}
+
+// Test 3: Give-up list
+async function testGiveUpList(): Promise<void> {
+  testSection('Test 3: Give-up List');
+
+  const files = writeThreeRounds(path.join(TEMP_DIR, 'give-up'));
+
+  const report = await new ErrorHistoryAnalyzer({
+    errorsPaths: files,
+    reportPath: path.join(TEMP_DIR, 'give-up-report.json'),
+    quiet: true
+  }).analyze();
+  assert(report.giveUpAfter === 3, 'Should default to giving up after 3 rounds');
+  assert(report.giveUp.length === 1, 'Only ann should be given up on');
+  assert(report.giveUp[0]?.externalId === 'ext_ann' && report.giveUp[0]?.attempts === 3,
+    'Give-up entry should be ann with 3 attempts');
+
+  const lenient = await new ErrorHistoryAnalyzer({
+    errorsPaths: files,
+    reportPath: path.join(TEMP_DIR, 'give-up-report-2.json'),
+    giveUpAfter: 2,
+    quiet: true
+  }).analyze();
+  assert(lenient.giveUp.length === 1, 'Retryable failures (cy) should never be given up on');
+
+  const csvPath = path.join(TEMP_DIR, 'give-up.csv');
+  await writeGiveUpList(report.giveUp, csvPath);
+  const rows = parse(fs.readFileSync(csvPath, 'utf-8'), { columns: true }) as Record<string, string>[];
+  assert(rows.length === 1, 'Give-up CSV should have 1 row');
+  assert(rows[0]?.external_id === 'ext_ann' && rows[0]?.attempts === '3', 'Give-up CSV row should be ann');
+  assert(Object.keys(rows[0] ?? {}).join(',') === 'email,external_id,attempts,pattern', 'Give-up CSV columns');
+}
+
+// Test 4: Resolved vs. not retried
+async function testResolution(): Promise<void> {
+  testSection('Test 4: Resolved vs. Not Retried');
+
+  const dir = path.join(TEMP_DIR, 'resolution');
+  const files = writeThreeRounds(dir);
+  const inputs = [
+    path.join(dir, 'users.csv'),
+    path.join(dir, 'retry1.csv'),
+    path.join(dir, 'retry2.jsonl')
+  ];
+  fs.writeFileSync(inputs[0]!, 'email,external_id\nann@acme.com,ext_ann\nbob@acme.com,\n');
+  fs.writeFileSync(inputs[1]!, 'email,external_id\nann@acme.com,ext_ann\nBob@Acme.com,\n');
+  fs.writeFileSync(inputs[2]!, JSON.stringify({ email: 'ann@acme.com', external_id: 'ext_ann' }) + '\n');
+
+  const report = await new ErrorHistoryAnalyzer({
+    errorsPaths: files,
+    inputPaths: inputs,
+    reportPath: path.join(TEMP_DIR, 'resolution-report.json'),
+    quiet: true
+  }).analyze();
+  const bob = report.users.find(u => u.email === 'bob@acme.com');
+  assert(bob?.status === 'resolved' && bob.lastAttemptRound === 2, 'bob should be resolved by his row in round 2\'s input');
+
+  let threw = false;
+  try {
+    await new ErrorHistoryAnalyzer({ errorsPaths: files, inputPaths: inputs.slice(0, 2), quiet: true }).analyze();
+  } catch {
+    threw = true;
+  }
+  assert(threw, 'Should require one input file per round');
+
+  // Round 2 ran as a checkpointed job whose creation ledger has bob
+  const jobDir = path.join(dir, 'job');
+  const rounds = [
+    files[0]!,
+    writeRound(path.join(jobDir, 'errors.jsonl'), [{ ...serverError, email: 'cy@acme.com' }])
+  ];
+  fs.writeFileSync(path.join(jobDir, 'created.jsonl'),
+    JSON.stringify({ type: 'user', id: 'user_bob', email: 'bob@acme.com', createdAt: new Date().toISOString() }) + '\n');
+  const fromLedger = await new ErrorHistoryAnalyzer({
+    errorsPaths: rounds,
+    reportPath: path.join(TEMP_DIR, 'ledger-report.json'),
+    quiet: true
+  }).analyze();
+  assert(fromLedger.users.find(u => u.email === 'bob@acme.com')?.status === 'resolved',
+    'bob should be resolved by the creation ledger next to round 2\'s errors');
+  assert(fromLedger.users.find(u => u.externalId === 'ext_ann')?.status === 'not_retried',
+    'ann should be not retried (non-retryable, left out of round 2)');
+
+  // A non-retryable failure left out of later retry CSVs still reaches the give-up list
+  const notRetried = [
+    writeRound(path.join(dir, 'nr-round1.jsonl'), [
+      { ...invalidEmail, email: 'eve@acme.com', rawRow: { email: 'eve@acme.com' } },
+      { ...serverError, email: 'fay@acme.com', rawRow: { email: 'fay@acme.com' } }
+    ]),
+    writeRound(path.join(dir, 'nr-round2.jsonl'), [{ ...serverError, email: 'fay@acme.com', rawRow: { email: 'fay@acme.com' } }]),
+    writeRound(path.join(dir, 'nr-round3.jsonl'), [{ ...serverError, email: 'fay@acme.com', rawRow: { email: 'fay@acme.com' } }])
+  ];
+  const giveUp = await new ErrorHistoryAnalyzer({
+    errorsPaths: notRetried,
+    reportPath: path.join(TEMP_DIR, 'not-retried-report.json'),
+    quiet: true
+  }).analyze();
+  assert(giveUp.users.find(u => u.email === 'eve@acme.com')?.status === 'not_retried', 'eve should be not retried');
+  assert(giveUp.giveUp.length === 1 && giveUp.giveUp[0]?.email === 'eve@acme.com' && giveUp.giveUp[0]?.attempts === 3,
+    'eve should be given up on after 3 rounds, counting the rounds she was not retried');
+}
+
+// Test 5: Resolving directories into rounds
+async function testResolveErrorFiles(): Promise<void> {
+  testSection('Test 5: Resolve Error Files');
+
+  const dir = path.join(TEMP_DIR, 'checkpoints');
+  const first = writeRound(path.join(dir, 'job-a', 'errors.jsonl'), [serverError]);
+  const second = writeRound(path.join(dir, 'job-b', 'errors.jsonl'), [serverError]);
+  fs.writeFileSync(path.join(dir, 'job-b', 'checkpoint.json'), '{}');
+  fs.utimesSync(first, new Date(1000), new Date(1000));
+  fs.utimesSync(second, new Date(2000), new Date(2000));
+
+  const resolved = resolveErrorFiles([dir]);
+  assert(resolved.length === 2, 'Should find errors.jsonl in job subdirectories');
+  assert(resolved[0] === first && resolved[1] === second, 'Should order rounds oldest first');
+
+  const explicit = resolveErrorFiles([second, first]);
+  assert(explicit[0] === second && explicit[1] === first, 'Explicit files should keep the given order');
+
+  let threw = false;
+  try {
+    resolveErrorFiles([path.join(TEMP_DIR, 'missing.jsonl')]);
+  } catch {
+    threw = true;
+  }
+  assert(threw, 'Should throw for a missing path');
+}
+
+// Run all tests
+async function runTests(): Promise<void> {
+  console.log('\n╔═══════════════════════════════════════════════════╗');
+  console.log('║   Error History Analyzer Test Suite              ║');
+  console.log('╚═══════════════════════════════════════════════════╝');
+
+  try {
+    await testUserHistory();
+    await testPatternTrends();
+    await testGiveUpList();
+    await testResolution();
+    await testResolveErrorFiles();
+  } finally {
+    fs.rmSync(TEMP_DIR, { recursive: true, force: true });
+  }
+
+  // Summary
+  console.log('\n' + '='.repeat(50));
+  console.log('Test Summary');
+  console.log('='.repeat(50));
+  console.log(`Total tests:  ${testsRun}`);
+  console.log(`Passed:       ${testsPassed} ✓`);
+  console.log(`Failed:       ${testsFailed} ${testsFailed > 0 ? '✗' : ''}`);
+  console.log('='.repeat(50));
+
+  if (testsFailed > 0) {
+    console.error('\n❌ Some tests failed');
+    process.exit(1);
+  } else {
+    console.log('\n✅ All tests passed!');
+    process.exit(0);
+  }
+}
+
+// Run tests
+runTests().catch((err) => {
+  console.error('Unhandled error in test suite:', err);
+  process.exit(1);
+});
@@ -0,0 +1,189 @@
+#!/usr/bin/env node
+/**
+ * Phase 4: Error Remediator Tests
+ *
+ * Tests the built-in remediation rules, rule registration, and which errors
+ * are remediated.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import { getRemediationRules, registerRemediationRule, remediateErrors, writeRemediationLog } from './errorRemediator.js';
+import { groupErrors } from './errorGrouper.js';
+import type { ErrorRecord } from '../types.js';
+
+let testsRun = 0;
+let testsPassed = 0;
+let testsFailed = 0;
+
+function assert(condition: boolean, message: string): void {
+  testsRun++;
+  if (condition) {
+    testsPassed++;
+    console.log(`  ✓ ${message}`);
+  } else {
+    testsFailed++;
+    console.error(`  ✗ ${message}`);
+  }
+}
+
+function testSection(name: string): void {
+  console.log(`\n${name}`);
+  console.log('='.repeat(name.length));
+}
+
+const BCRYPT_HASH = '$2a$10$N9qo8uLOickgx2ZMRZoMyeIjZAgcfl7p92ldGxad68LJZdL17lhWy';
+
+function error(overrides: Partial<ErrorRecord>): ErrorRecord {
+  return {
+    recordNumber: 1,
+    errorType: 'user_create',
+    httpStatus: 400,
+    errorMessage: 'Unknown error',
+    timestamp: new Date().toISOString(),
+    ...overrides
+  };
+}
+
+function remediate(errors: ErrorRecord[]) {
+  return remediateErrors(errors, groupErrors(errors));
+}
+
+// Test 1: Metadata re-serialization
+function testMetadataRule(): void {
+  testSection('Test 1: Metadata Re-serialization');
+
+  const result = remediate([
+    error({ recordNumber: 1, email: 'a@acme.com', errorMessage: 'Invalid metadata JSON', rawRow: { email: 'a@acme.com', metadata: "{'plan': 'pro', 'seats': 5,}" } }),
+    error({ recordNumber: 2, email: 'b@acme.com', errorMessage: 'Invalid metadata JSON', rawRow: { email: 'b@acme.com', metadata: '{"tags": ["x", "y"]}' } }),
+    error({ recordNumber: 3, email: 'c@acme.com', errorMessage: 'Invalid metadata JSON', rawRow: { email: 'c@acme.com', metadata: '{not json' } })
+  ]);
+
+  assert(result.rows.length === 2, 'Should fix 2 of 3 rows');
+  assert(result.rows[0]?.rawRow.metadata === '{"plan":"pro","seats":5}', 'Should repair single quotes and trailing commas');
+  assert(result.rows[1]?.rawRow.metadata === '{"tags":"[\\"x\\",\\"y\\"]"}', 'Should convert nested values to JSON strings');
+  assert(result.unremediated === 1, 'Unrepairable metadata should be counted as unremediated');
+  assert(result.byRule['metadata-reserialize'] === 2, 'byRule should count metadata fixes');
+}
+
+// Test 2: Email normalization
+function testEmailRule(): void {
+  testSection('Test 2: Email Normalization');
+
+  const result = remediate([
+    error({ recordNumber: 1, email: ' Ann@Acme.COM ', errorMessage: 'Invalid email format', rawRow: { email: ' Ann@Acme.COM ', first_name: 'Ann' } }),
+    error({ recordNumber: 2, email: 'mailto:<bob@acme.com>', errorMessage: 'Invalid email format', rawRow: { email: 'mailto:<bob@acme.com>' } }),
+    error({ recordNumber: 3, email: 'john.doe', errorMessage: 'Invalid email format', rawRow: { email: 'john.doe' } })
+  ]);
+
+  assert(result.rows.length === 2, 'Should fix 2 of 3 rows');
+  assert(result.rows[0]?.email === 'ann@acme.com', 'Should trim and lowercase the email');
+  assert(result.rows[0]?.rawRow.first_name === 'Ann', 'Should keep the other columns');
+  assert(result.rows[1]?.email === 'bob@acme.com', 'Should unwrap mailto: and angle brackets');
+  assert(result.unremediated === 1, 'An email without a domain cannot be fixed');
+
+  const change = result.changes[0];
+  assert(change?.field === 'email' && change.originalValue === ' Ann@Acme.COM ' && change.fixedValue === 'ann@acme.com',
+    'Should log the original and fixed email');
+  assert(change?.ruleId === 'email-normalize' && change.recordNumber === 1, 'Log entry should name the rule and record');
+}
+
+// Test 3: Password hash repair
+function testPasswordRule(): void {
+  testSection('Test 3: Password Hash Repair');
+
+  const result = remediate([
+    error({ recordNumber: 1, email: 'a@acme.com', errorMessage: 'password_hash requires password_hash_type', rawRow: { email: 'a@acme.com', password_hash: BCRYPT_HASH } }),
+    error({ recordNumber: 2, email: 'b@acme.com', errorMessage: 'password_hash requires password_hash_type', rawRow: { email: 'b@acme.com', password_hash: 'garbage', password_hash_type: 'md5' } })
+  ]);
+
+  assert(result.rows.length === 2, 'Should fix both rows');
+  assert(result.rows[0]?.rawRow.password_hash_type === 'bcrypt', 'Should detect and set the bcrypt hash type');
+  assert(result.rows[0]?.rawRow.password_hash === BCRYPT_HASH, 'Should keep a valid bcrypt hash');
+  assert(result.rows[1]?.rawRow.password_hash === '' && result.rows[1]?.rawRow.password_hash_type === '',
+    'Should drop an unrecognized hash');
+  assert(result.changes.some(c => c.recordNumber === 2 && c.reason.includes('reset')), 'Dropping a hash should mention the reset flow');
+}
+
+// Test 4: Which errors are remediated
+function testScope(): void {
+  testSection('Test 4: Remediation Scope');
+
+  const result = remediate([
+    error({ email: 'a@acme.com', httpStatus: 500, errorMessage: 'Invalid email format', rawRow: { email: ' A@acme.com' } }),
+    error({ email: 'b@acme.com', userId: 'user_1', errorType: 'role_assignment', httpStatus: 422, errorMessage: 'Invalid email format', rawRow: { email: ' B@acme.com' } }),
+    error({ email: 'c@acme.com', httpStatus: 409, errorMessage: 'User already exists', rawRow: { email: 'c@acme.com' } })
+  ]);
+
+  assert(result.rows.length === 0, 'Should not remediate retryable errors or errors for existing users');
+  assert(result.unremediated === 2, 'Non-retryable errors without a fix should be counted');
+}
+
+// Test 5: Pluggable rules and change log
+function testRegistration(): void {
+  testSection('Test 5: Rule Registration and Log');
+
+  registerRemediationRule({
+    id: 'default-last-name',
+    description: 'Fill a missing last name',
+    appliesTo: (group) => group.pattern.includes('last_name'),
+    remediate: (row) => {
+      if (row.last_name) return [];
+      row.last_name = 'Unknown';
+      return [{ field: 'last_name', originalValue: '', fixedValue: 'Unknown', reason: 'Filled missing last name' }];
+    }
+  });
+  assert(getRemediationRules().some(r => r.id === 'default-last-name'), 'Registered rule should be listed');
+
+  const result = remediate([
+    error({ email: 'a@acme.com', errorMessage: 'Missing required field: last_name', rawRow: { email: 'a@acme.com' } })
+  ]);
+  assert(result.rows[0]?.rawRow.last_name === 'Unknown', 'Registered rule should be applied');
+
+  const logPath = path.join(os.tmpdir(), `test-remediation-${Date.now()}.json`);
+  try {
+    writeRemediationLog(result, logPath);
+    const log = JSON.parse(fs.readFileSync(logPath, 'utf-8'));
+    assert(log.rowsRemediated === 1 && log.changes.length === 1, 'Log should record the fixed row and change');
+    assert(log.rows === undefined, 'Log should not include the corrected rows');
+  } finally {
+    fs.rmSync(logPath, { force: true });
+  }
+}
+
+// Run all tests
+async function runTests(): Promise<void> {
+  console.log('\n╔═══════════════════════════════════════════════════╗');
+  console.log('║   Error Remediator Test Suite                    ║');
+  console.log('╚═══════════════════════════════════════════════════╝');
+
+  testMetadataRule();
+  testEmailRule();
+  testPasswordRule();
+  testScope();
+  testRegistration();
+
+  // Summary
+  console.log('\n' + '='.repeat(50));
+  console.log('Test Summary');
+  console.log('='.repeat(50));
+  console.log(`Total tests:  ${testsRun}`);
+  console.log(`Passed:       ${testsPassed} ✓`);
+  console.log(`Failed:       ${testsFailed} ${testsFailed > 0 ? '✗' : ''}`);
+  console.log('='.repeat(50));
+
+  if (testsFailed > 0) {
+    console.error('\n❌ Some tests failed');
+    process.exit(1);
+  } else {
+    console.log('\n✅ All tests passed!');
+    process.exit(0);
+  }
+}
+
+// Run tests
+runTests().catch((err) => {
+  console.error('Unhandled error in test suite:', err);
+  process.exit(1);
+});
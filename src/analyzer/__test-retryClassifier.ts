@@ -5,7 +5,7 @@
  * Tests all 8 classification cases from the decision tree.
  */
 
-import { classifyRetryability, getRetryStrategyDescription } from './retryClassifier.js';
+import { classifyRetryability, getRetryPhase, getRetryStrategyDescription } from './retryClassifier.js';
 import type { ErrorRecord } from '../types.js';
 
 let testsRun = 0;
@@ -279,6 +279,35 @@ function testMembershipWithUser(): void {
   assert(validationResult.reason === 'membership_validation_error', 'Reason should be membership_validation_error');
 }
 
+// Test 6b: Role Assignment and Retry Phases
+function testRoleAssignmentAndPhases(): void {
+  testSection('Test 6b: Role Assignment and Retry Phases');
+
+  const roleError: ErrorRecord = {
+    recordNumber: 1,
+    email: 'test@example.com',
+    userId: 'user_123',
+    errorType: 'role_assignment',
+    errorMessage: 'Internal server error',
+    timestamp: new Date().toISOString(),
+    httpStatus: 500
+  };
+
+  const roleResult = classifyRetryability(roleError);
+  assert(roleResult.retryable === true, 'Role assignment server error should be retryable');
+  assert(roleResult.reason === 'role_assignment_error_user_exists', 'Reason should be role_assignment_error_user_exists');
+
+  const unknownRole = classifyRetryability({ ...roleError, httpStatus: 422, errorMessage: 'Role not found' });
+  assert(unknownRole.retryable === false, 'Unknown role slug should NOT be retryable');
+  assert(unknownRole.reason === 'role_validation_error', 'Reason should be role_validation_error');
+
+  const membershipError: ErrorRecord = { ...roleError, errorType: 'membership_create' };
+  assert(getRetryPhase(roleError) === 'role', 'Role assignment with userId retries the role step');
+  assert(getRetryPhase(membershipError) === 'membership', 'Membership error with userId retries the membership step');
+  assert(getRetryPhase({ ...membershipError, userId: undefined }) === 'full', 'Membership error without userId retries the full row');
+  assert(getRetryPhase({ ...roleError, errorType: 'user_create' }) === 'full', 'User creation errors retry the full row');
+}
+
 // Test 7: User Creation by Status Code
 function testUserCreationByStatus(): void {
   testSection('Test 7: User Creation by Status Code');
@@ -367,6 +396,7 @@ async function runTests(): Promise<void> {
   testValidationErrors();
   testOrgResolutionErrors();
   testMembershipWithUser();
+  testRoleAssignmentAndPhases();
   testUserCreationByStatus();
   testUnknownErrors();
   testRetryStrategyDescriptions();
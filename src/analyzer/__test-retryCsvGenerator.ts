@@ -9,7 +9,7 @@ import fs from 'node:fs';
 import path from 'node:path';
 import os from 'node:os';
 import { parse } from 'csv-parse/sync';
-import { generateRetryCsv } from './retryCsvGenerator.js';
+import { generateMembershipRetryCsv, generateRetryCsv, MEMBERSHIP_RETRY_COLUMNS } from './retryCsvGenerator.js';
 import type { RetryableError } from './types.js';
 import type { ErrorRecord } from '../types.js';
 
@@ -283,6 +283,108 @@ async function testAllStandardColumns(): Promise<void> {
   }
 }
 
+// Test 7: Membership Retry CSV
+async function testMembershipRetryCsv(): Promise<void> {
+  testSection('Test 7: Membership Retry CSV');
+
+  const rawRow = {
+    email: 'user@example.com',
+    password: 'secret',
+    first_name: 'User',
+    external_id: 'ext_1',
+    org_external_id: 'acme',
+    org_name: 'Acme',
+    role_slugs: 'admin'
+  };
+  const errorRecord = (fields: Partial<ErrorRecord>): ErrorRecord => ({
+    recordNumber: 1,
+    email: 'user@example.com',
+    errorMessage: 'Internal error',
+    timestamp: new Date().toISOString(),
+    ...fields
+  });
+
+  const retryableErrors: RetryableError[] = [
+    { email: 'user@example.com', rawRow, errorRecord: errorRecord({ userId: 'user_1', errorType: 'membership_create' }), phase: 'membership' },
+    { email: 'user@example.com', rawRow, errorRecord: errorRecord({ userId: 'user_1', errorType: 'membership_create' }), phase: 'membership' },
+    {
+      email: 'user@example.com',
+      rawRow,
+      errorRecord: errorRecord({ userId: 'user_1', errorType: 'role_assignment', orgId: 'org_beta', roleSlugs: ['viewer', 'editor'] }),
+      phase: 'role'
+    },
+    { email: 'other@example.com', rawRow, errorRecord: errorRecord({ errorType: 'membership_create' }), phase: 'membership' }
+  ];
+
+  const outputPath = path.join(os.tmpdir(), `test-membership-retry-${Date.now()}.csv`);
+
+  try {
+    const count = await generateMembershipRetryCsv(retryableErrors, outputPath);
+    const rows = readCsv(outputPath);
+    const header = fs.readFileSync(outputPath, 'utf-8').split('\n')[0];
+
+    assert(count === 2 && rows.length === 2, 'Should write one row per user and organization');
+    assert(header === MEMBERSHIP_RETRY_COLUMNS.join(','), 'Should only have membership retry columns');
+    assert(rows[0]!.user_id === 'user_1' && rows[0]!.org_external_id === 'acme', 'Should keep user_id and the row org');
+    assert(rows[0]!.role_slugs === 'admin' && rows[0]!.external_id === 'ext_1', 'Should keep role_slugs and external_id');
+    assert(rows[1]!.org_id === 'org_beta' && rows[1]!.org_external_id === '', 'Should prefer the resolved org_id');
+    assert(rows[1]!.role_slugs === 'viewer,editor', 'Should use the role slugs from the error');
+  } finally {
+    cleanupFile(outputPath);
+  }
+
+  let threw = false;
+  try {
+    await generateMembershipRetryCsv([retryableErrors[3]!], outputPath);
+  } catch {
+    threw = true;
+  }
+  assert(threw, 'Should throw when no error has a userId');
+}
+
+// Test 8: JSONL Rows
+async function testJsonlRows(): Promise<void> {
+  testSection('Test 8: JSONL Rows');
+
+  const retryableErrors: RetryableError[] = [
+    {
+      email: 'user1@example.com',
+      rawRow: { email: 'user1@example.com', email_verified: false },
+      errorRecord: {} as ErrorRecord
+    },
+    {
+      email: 'user2@example.com',
+      rawRow: {
+        email: 'user2@example.com',
+        metadata: { plan: 'pro', seats: 5 },
+        org_external_id: 'acme',
+        org_domains: [{ domain: 'acme.com', state: 'verified' }],
+        role_slugs: ['admin', 'editor']
+      },
+      errorRecord: {} as ErrorRecord
+    }
+  ];
+
+  const outputPath = path.join(os.tmpdir(), `test-retry-jsonl-${Date.now()}.csv`);
+
+  try {
+    await generateRetryCsv(retryableErrors, outputPath, false);
+
+    const rows = readCsv(outputPath);
+    const header = fs.readFileSync(outputPath, 'utf-8').split('\n')[0];
+    assert(
+      header === 'email,email_verified,metadata,org_external_id,org_domains,role_slugs',
+      'Should include columns missing from the first row'
+    );
+    assert(rows[0]!.email_verified === 'false' && rows[0]!.org_external_id === '', 'Should leave missing fields empty');
+    assert(rows[1]!.metadata === '{"plan":"pro","seats":5}', 'Should write objects as JSON');
+    assert(rows[1]!.org_domains === '[{"domain":"acme.com","state":"verified"}]', 'Should write arrays of objects as JSON');
+    assert(rows[1]!.role_slugs === 'admin,editor', 'Should comma-separate string arrays');
+  } finally {
+    cleanupFile(outputPath);
+  }
+}
+
 // Run all tests
 async function runTests(): Promise<void> {
   console.log('\n╔═══════════════════════════════════════════════════╗');
@@ -295,6 +397,8 @@ async function runTests(): Promise<void> {
   await testColumnOrdering();
   await testEmptyErrors();
   await testAllStandardColumns();
+  await testMembershipRetryCsv();
+  await testJsonlRows();
 
   // Summary
   console.log('\n' + '='.repeat(50));
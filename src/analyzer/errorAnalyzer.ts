@@ -9,15 +9,18 @@ import fs from 'node:fs';
 import readline from 'node:readline';
 import { createLogger } from '../logger.js';
 import { calculateCsvHash } from '../checkpoint/csvUtils.js';
+import { redactEmail, redactErrorRecord } from '../redaction.js';
 import type { ErrorRecord } from '../types.js';
 import type {
   AnalyzerOptions,
   AnalysisReport,
   AnalysisSummary,
+  ErrorGroup,
   RetryabilitySummary,
-  RetryableError
+  RetryableError,
+  RetryPhase
 } from './types.js';
-import { classifyRetryability } from './retryClassifier.js';
+import { classifyRetryability, getRetryPhase } from './retryClassifier.js';
 import { groupErrors } from './errorGrouper.js';
 import { generateSuggestions } from './errorSuggester.js';
 
@@ -32,11 +35,12 @@ export class ErrorAnalyzer {
   private errorsByType = new Map<string, number>();
   private errorsByStatus = new Map<string, number>();
   private retryReasons = new Map<string, number>();
+  private retryPhases: Record<RetryPhase, number> = { full: 0, membership: 0, role: 0 };
   private nonRetryReasons = new Map<string, number>();
 
   constructor(options: AnalyzerOptions) {
     this.options = options;
-    this.logger = createLogger({ quiet: options.quiet });
+    this.logger = createLogger({ quiet: options.quiet, redaction: options.redaction });
   }
 
   /**
@@ -79,14 +83,29 @@ export class ErrorAnalyzer {
       errorsFileHash
     };
 
-    // Write report to file
+    // Write report to file (example rows and emails redacted)
     const reportPath = this.options.reportPath || 'error-analysis-report.json';
-    fs.writeFileSync(reportPath, JSON.stringify(report, null, 2));
+    const redactedReport: AnalysisReport = { ...report, groups: groups.map(group => this.redactGroup(group)) };
+    fs.writeFileSync(reportPath, JSON.stringify(redactedReport, null, 2));
     this.logger.log(`Report written: ${reportPath}`);
 
     return report;
   }
 
+  /**
+   * Copy of a group with the redaction policy applied to its examples and emails
+   */
+  private redactGroup(group: ErrorGroup): ErrorGroup {
+    const policy = this.options.redaction;
+    return {
+      ...group,
+      examples: group.examples.map(example => redactErrorRecord(example, policy)),
+      affectedEmails: group.affectedEmails
+        .map(email => redactEmail(email, policy))
+        .filter((email): email is string => email !== undefined)
+    };
+  }
+
   /**
    * Stream JSONL file line-by-line
    * Memory: O(1) for streaming, O(n) for group tracking
@@ -140,10 +159,13 @@ export class ErrorAnalyzer {
 
             // Extract for retry CSV (if rawRow exists)
             if (error.rawRow && error.email) {
+              const phase = getRetryPhase(error);
+              this.retryPhases[phase]++;
               this.retryableErrors.push({
                 email: error.email,
                 rawRow: error.rawRow,
-                errorRecord: error
+                errorRecord: error,
+                phase
               });
             }
           } else {
@@ -204,7 +226,8 @@ export class ErrorAnalyzer {
       retryable: {
         count: retryableCount,
         percentage: totalCount > 0 ? (retryableCount / totalCount) * 100 : 0,
-        byReason: Object.fromEntries(this.retryReasons)
+        byReason: Object.fromEntries(this.retryReasons),
+        byPhase: { ...this.retryPhases }
       },
       nonRetryable: {
         count: nonRetryableCount,
@@ -215,9 +238,20 @@ export class ErrorAnalyzer {
   }
 
   /**
-   * Get retryable errors for CSV generation
+   * Get all errors read from the errors file
    */
-  getRetryableErrors(): RetryableError[] {
-    return this.retryableErrors;
+  getErrors(): ErrorRecord[] {
+    return this.allErrors;
+  }
+
+  /**
+   * Get retryable errors for CSV generation, optionally only those retried
+   * from the given phases
+   */
+  getRetryableErrors(phases?: RetryPhase[]): RetryableError[] {
+    if (!phases) {
+      return this.retryableErrors;
+    }
+    return this.retryableErrors.filter(error => phases.includes(error.phase ?? 'full'));
   }
 }
@@ -0,0 +1,457 @@
+/**
+ * Phase 4: Error History Analyzer
+ *
+ * Joins errors.jsonl files from several import/retry rounds on external_id
+ * (falling back to email) and reports which users keep failing and which were
+ * resolved, attempts per user, error-pattern trends across rounds, and a
+ * "give up" list of users failing repeatedly with the same non-retryable error.
+ *
+ * A user missing from a later round's errors only counts as resolved when
+ * that round attempted them: their row is in the round's input file, or the
+ * job's creation ledger (created.jsonl next to the errors file) has them.
+ * Retry CSVs leave out non-retryable errors, so those users are otherwise
+ * reported as not retried.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import readline from 'node:readline';
+import { stringify } from 'csv-stringify';
+import { createLogger } from '../logger.js';
+import { createRowParser } from '../inputFormat.js';
+import { readLedger } from '../rollback/ledger.js';
+import { redactEmail } from '../redaction.js';
+import type { ErrorRecord } from '../types.js';
+import type {
+  ErrorHistoryOptions,
+  ErrorHistoryReport,
+  GiveUpEntry,
+  PatternTrend,
+  UserErrorHistory
+} from './types.js';
+import { classifyRetryability } from './retryClassifier.js';
+import { generateGroupId, normalizeErrorMessage } from './errorGrouper.js';
+
+const ERRORS_FILE_PATTERN = /^errors.*\.jsonl$/;
+
+/**
+ * Expand error file and directory paths into rounds, oldest first.
+ *
+ * Files keep the order given. A directory contributes its errors*.jsonl files,
+ * including those one level down (e.g. .workos-checkpoints/<job>/errors.jsonl),
+ * ordered by modification time.
+ */
+export function resolveErrorFiles(paths: string[]): string[] {
+  const files: string[] = [];
+
+  for (const entry of paths) {
+    if (!fs.existsSync(entry)) {
+      throw new Error(`Errors file not found: ${entry}`);
+    }
+
+    if (!fs.statSync(entry).isDirectory()) {
+      files.push(entry);
+      continue;
+    }
+
+    const found: string[] = [];
+    for (const child of fs.readdirSync(entry, { withFileTypes: true })) {
+      const childPath = path.join(entry, child.name);
+      if (child.isFile() && ERRORS_FILE_PATTERN.test(child.name)) {
+        found.push(childPath);
+      } else if (child.isDirectory()) {
+        for (const nested of fs.readdirSync(childPath, { withFileTypes: true })) {
+          if (nested.isFile() && ERRORS_FILE_PATTERN.test(nested.name)) {
+            found.push(path.join(childPath, nested.name));
+          }
+        }
+      }
+    }
+
+    if (found.length === 0) {
+      throw new Error(`No errors*.jsonl files found in ${entry}`);
+    }
+
+    found.sort((a, b) => fs.statSync(a).mtimeMs - fs.statSync(b).mtimeMs || a.localeCompare(b));
+    files.push(...found);
+  }
+
+  return files;
+}
+
+/**
+ * Write the give-up list as CSV (email, external_id, attempts, pattern)
+ */
+export async function writeGiveUpList(entries: GiveUpEntry[], outputPath: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const output = fs.createWriteStream(outputPath);
+    const stringifier = stringify({
+      header: true,
+      columns: ['email', 'external_id', 'attempts', 'pattern']
+    });
+
+    stringifier.pipe(output);
+
+    for (const entry of entries) {
+      stringifier.write({
+        email: entry.email ?? '',
+        external_id: entry.externalId ?? '',
+        attempts: entry.attempts,
+        pattern: entry.pattern
+      });
+    }
+
+    stringifier.end();
+
+    output.on('finish', () => resolve());
+    output.on('error', (err) => reject(err));
+  });
+}
+
+interface UserState {
+  email?: string;
+  externalId?: string;
+  rounds: Set<number>;
+  patternRounds: Map<string, Set<number>>;  // groupId -> rounds failed with it
+  lastRound: number;
+  lastAttemptRound: number;                 // Latest round with a failure, input row or ledger entry
+  lastGroupId: string;
+  lastRetryable: boolean;
+}
+
+/**
+ * Join key for a user: external_id, else the lowercased email
+ */
+function userKey(externalId: unknown, email: unknown): string | undefined {
+  if (typeof externalId === 'string' && externalId.trim()) {
+    return `external_id:${externalId.trim()}`;
+  }
+  if (typeof email === 'string' && email.trim()) {
+    return `email:${email.trim().toLowerCase()}`;
+  }
+  return undefined;
+}
+
+interface PatternState {
+  pattern: string;
+  errorType?: string;
+  httpStatus?: number;
+  retryable: boolean;
+  counts: number[];
+}
+
+export class ErrorHistoryAnalyzer {
+  private options: ErrorHistoryOptions;
+  private logger: ReturnType<typeof createLogger>;
+
+  private users = new Map<string, UserState>();
+  private patterns = new Map<string, PatternState>();
+
+  constructor(options: ErrorHistoryOptions) {
+    this.options = options;
+    this.logger = createLogger({ quiet: options.quiet, redaction: options.redaction });
+  }
+
+  /**
+   * Main analysis entry point
+   */
+  async analyze(): Promise<ErrorHistoryReport> {
+    const files = resolveErrorFiles(this.options.errorsPaths);
+    const inputs = this.options.inputPaths;
+    if (inputs && inputs.length !== files.length) {
+      throw new Error(`Expected one input file per round (${files.length} rounds, ${inputs.length} input files)`);
+    }
+    for (const input of inputs ?? []) {
+      if (!fs.existsSync(input)) {
+        throw new Error(`Input file not found: ${input}`);
+      }
+    }
+    const giveUpAfter = this.options.giveUpAfter ?? 3;
+    this.logger.log(`Analyzing error history across ${files.length} round(s)...`);
+
+    const rounds: ErrorHistoryReport['rounds'] = [];
+    for (const [index, file] of files.entries()) {
+      const { errors, users } = await this.readRound(file, index + 1, files.length);
+      rounds.push({ round: index + 1, errorsFile: file, errors, users });
+      this.logger.log(`Round ${index + 1}: ${errors} errors for ${users} users (${file})`);
+    }
+
+    // Later attempts: input rows and creation ledger entries per round
+    for (const [index, file] of files.entries()) {
+      if (inputs?.[index]) {
+        await this.readRoundInput(inputs[index], index + 1);
+      }
+      this.readRoundLedger(file, index + 1);
+    }
+
+    const users = this.buildUserHistories(files.length);
+    const giveUp = this.buildGiveUpList(users, giveUpAfter, files.length);
+
+    const attemptsHistogram: Record<string, number> = {};
+    for (const user of users) {
+      attemptsHistogram[user.attempts] = (attemptsHistogram[user.attempts] || 0) + 1;
+    }
+
+    const report: ErrorHistoryReport = {
+      rounds,
+      summary: {
+        totalUsers: users.length,
+        persistent: users.filter(u => u.status === 'persistent').length,
+        new: users.filter(u => u.status === 'new').length,
+        resolved: users.filter(u => u.status === 'resolved').length,
+        notRetried: users.filter(u => u.status === 'not_retried').length,
+        attemptsHistogram,
+        giveUp: giveUp.length
+      },
+      users,
+      patterns: this.buildPatternTrends(files.length),
+      giveUp,
+      giveUpAfter,
+      timestamp: new Date().toISOString()
+    };
+
+    const reportPath = this.options.reportPath || 'error-history-report.json';
+    fs.writeFileSync(reportPath, JSON.stringify(this.redactReport(report), null, 2));
+    this.logger.log(`History report written: ${reportPath}`);
+
+    return report;
+  }
+
+  /**
+   * Stream one round's errors.jsonl into the per-user and per-pattern state
+   */
+  private async readRound(file: string, round: number, totalRounds: number): Promise<{ errors: number; users: number }> {
+    const rl = readline.createInterface({
+      input: fs.createReadStream(file),
+      crlfDelay: Infinity
+    });
+
+    let errors = 0;
+    let lineNumber = 0;
+    const roundUsers = new Set<string>();
+
+    for await (const line of rl) {
+      lineNumber++;
+      if (!line.trim()) {
+        continue;
+      }
+
+      let error: ErrorRecord;
+      try {
+        error = JSON.parse(line);
+      } catch (err) {
+        this.logger.warn(`${file} line ${lineNumber}: Invalid JSON, skipping: ${err}`);
+        continue;
+      }
+      errors++;
+
+      const pattern = normalizeErrorMessage(error.errorMessage || '');
+      const groupId = generateGroupId(pattern, error.errorType, error.httpStatus);
+      const retryable = classifyRetryability(error).retryable;
+
+      let patternState = this.patterns.get(groupId);
+      if (!patternState) {
+        patternState = {
+          pattern,
+          errorType: error.errorType,
+          httpStatus: error.httpStatus,
+          retryable,
+          counts: new Array(totalRounds).fill(0)
+        };
+        this.patterns.set(groupId, patternState);
+      }
+      patternState.counts[round - 1]!++;
+
+      const externalId = typeof error.rawRow?.external_id === 'string' && error.rawRow.external_id.trim()
+        ? error.rawRow.external_id.trim()
+        : undefined;
+      const email = error.email?.trim().toLowerCase() || undefined;
+      const key = userKey(externalId, email);
+      if (!key) {
+        continue;
+      }
+      roundUsers.add(key);
+
+      let user = this.users.get(key);
+      if (!user) {
+        user = {
+          rounds: new Set(), patternRounds: new Map(), lastRound: 0, lastAttemptRound: 0,
+          lastGroupId: groupId, lastRetryable: retryable
+        };
+        this.users.set(key, user);
+      }
+      user.email = email ?? user.email;
+      user.externalId = externalId ?? user.externalId;
+      user.rounds.add(round);
+      if (!user.patternRounds.has(groupId)) {
+        user.patternRounds.set(groupId, new Set());
+      }
+      user.patternRounds.get(groupId)!.add(round);
+      if (round >= user.lastRound) {
+        user.lastRound = round;
+        user.lastGroupId = groupId;
+        user.lastRetryable = retryable;
+      }
+      user.lastAttemptRound = Math.max(user.lastAttemptRound, round);
+    }
+
+    return { errors, users: roundUsers.size };
+  }
+
+  /**
+   * Mark failed users whose row is in this round's input file as attempted
+   */
+  private async readRoundInput(file: string, round: number): Promise<void> {
+    const parser = fs.createReadStream(file).pipe(createRowParser(file));
+
+    for await (const row of parser as AsyncIterable<Record<string, unknown>>) {
+      const key = userKey(row.external_id, row.email);
+      const user = key ? this.users.get(key) : undefined;
+      if (user) {
+        user.lastAttemptRound = Math.max(user.lastAttemptRound, round);
+      }
+    }
+  }
+
+  /**
+   * Mark failed users that the round's job created (created.jsonl next to a
+   * checkpoint errors.jsonl) as attempted
+   */
+  private readRoundLedger(errorsFile: string, round: number): void {
+    const created = new Set(
+      readLedger(path.dirname(errorsFile))
+        .filter(entry => entry.type === 'user' && entry.email)
+        .map(entry => entry.email!.trim().toLowerCase())
+    );
+    if (created.size === 0) {
+      return;
+    }
+
+    for (const user of this.users.values()) {
+      if (user.email && created.has(user.email)) {
+        user.lastAttemptRound = Math.max(user.lastAttemptRound, round);
+      }
+    }
+  }
+
+  private buildUserHistories(totalRounds: number): UserErrorHistory[] {
+    const histories: UserErrorHistory[] = [];
+
+    for (const [key, user] of this.users) {
+      const rounds = [...user.rounds].sort((a, b) => a - b);
+      const status: UserErrorHistory['status'] =
+        user.lastRound === totalRounds ? (rounds.length > 1 ? 'persistent' : 'new') :
+        user.lastAttemptRound > user.lastRound ? 'resolved' :
+        'not_retried';
+      histories.push({
+        key,
+        email: user.email,
+        externalId: user.externalId,
+        attempts: rounds.length,
+        rounds,
+        status,
+        lastAttemptRound: user.lastAttemptRound,
+        lastPattern: this.patterns.get(user.lastGroupId)!.pattern,
+        lastGroupId: user.lastGroupId,
+        lastRetryable: user.lastRetryable
+      });
+    }
+
+    return histories.sort((a, b) => b.attempts - a.attempts || a.key.localeCompare(b.key));
+  }
+
+  /**
+   * Copy of the report with the redaction policy applied to user emails
+   * (including email-based join keys)
+   */
+  private redactReport(report: ErrorHistoryReport): ErrorHistoryReport {
+    const policy = this.options.redaction;
+    const redact = (email: string | undefined) => email === undefined ? undefined : redactEmail(email, policy);
+
+    return {
+      ...report,
+      users: report.users.map(user => ({
+        ...user,
+        key: user.key.startsWith('email:') ? `email:${redact(user.key.slice('email:'.length)) ?? '[redacted]'}` : user.key,
+        email: redact(user.email)
+      })),
+      giveUp: report.giveUp.map(entry => ({ ...entry, email: redact(entry.email) }))
+    };
+  }
+
+  /**
+   * Users still failing that hit the same non-retryable pattern in at least
+   * giveUpAfter rounds. A user that was not retried is still failing with
+   * their last pattern, so the rounds since count towards it.
+   */
+  private buildGiveUpList(histories: UserErrorHistory[], giveUpAfter: number, totalRounds: number): GiveUpEntry[] {
+    const giveUp: GiveUpEntry[] = [];
+
+    for (const history of histories) {
+      if (history.status === 'resolved') {
+        continue;
+      }
+
+      const user = this.users.get(history.key)!;
+      const roundsNotRetried = history.status === 'not_retried' ? totalRounds - user.lastRound : 0;
+
+      let worst: { groupId: string; rounds: number } | undefined;
+      for (const [groupId, rounds] of user.patternRounds) {
+        const count = rounds.size + (groupId === user.lastGroupId ? roundsNotRetried : 0);
+        if (this.patterns.get(groupId)!.retryable || count < giveUpAfter) {
+          continue;
+        }
+        if (!worst || count > worst.rounds) {
+          worst = { groupId, rounds: count };
+        }
+      }
+
+      if (worst) {
+        giveUp.push({
+          email: history.email,
+          externalId: history.externalId,
+          attempts: worst.rounds,
+          pattern: this.patterns.get(worst.groupId)!.pattern,
+          groupId: worst.groupId
+        });
+      }
+    }
+
+    return giveUp;
+  }
+
+  private buildPatternTrends(totalRounds: number): PatternTrend[] {
+    const trends: PatternTrend[] = [];
+
+    for (const [groupId, state] of this.patterns) {
+      const last = state.counts[totalRounds - 1] ?? 0;
+      const previous = totalRounds > 1 ? state.counts[totalRounds - 2] ?? 0 : last;
+
+      let trend: PatternTrend['trend'];
+      if (last === 0) {
+        trend = 'gone';
+      } else if (previous === 0) {
+        trend = 'new';
+      } else if (last > previous) {
+        trend = 'rising';
+      } else if (last < previous) {
+        trend = 'falling';
+      } else {
+        trend = 'steady';
+      }
+
+      trends.push({
+        groupId,
+        pattern: state.pattern,
+        errorType: state.errorType,
+        httpStatus: state.httpStatus,
+        retryable: state.retryable,
+        countsByRound: state.counts,
+        trend
+      });
+    }
+
+    const total = (t: PatternTrend) => t.countsByRound.reduce((sum, n) => sum + n, 0);
+    return trends.sort((a, b) => total(b) - total(a));
+  }
+}
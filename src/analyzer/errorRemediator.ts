@@ -0,0 +1,268 @@
+/**
+ * Phase 4: Error Remediator
+ *
+ * Applies rule-based fixes to the rawRows of non-retryable errors and collects
+ * the corrected rows for a remediated retry CSV. Every change is logged.
+ *
+ * To add a fix: implement RemediationRule and register it here
+ * (or call registerRemediationRule at runtime).
+ */
+
+import fs from 'node:fs';
+import type { ErrorRecord } from '../types.js';
+import { convertPasswordHash, validatePasswordHash } from '../passwords/registry.js';
+import { redactEmail, redactField, type RedactionPolicy } from '../redaction.js';
+import type {
+  ErrorGroup,
+  RemediationChange,
+  RemediationResult,
+  RemediationRule
+} from './types.js';
+import { generateGroupId, normalizeErrorMessage } from './errorGrouper.js';
+
+const EMAIL_PATTERN = /^[^@\s]+@[^@\s]+\.[^@\s]+$/;
+
+/**
+ * Rule: re-serialize metadata as a flat JSON object
+ *
+ * Repairs common hand-edit mistakes (smart quotes, single quotes, trailing
+ * commas) and converts nested values to JSON strings, as the importer does.
+ */
+const metadataReserialize: RemediationRule = {
+  id: 'metadata-reserialize',
+  description: 'Re-serialize metadata as a JSON object with primitive values',
+  appliesTo: (group) => /metadata|json/.test(group.pattern.toLowerCase()),
+  remediate: (row) => {
+    if (row.metadata === undefined || row.metadata === null || row.metadata === '') {
+      return [];
+    }
+
+    const original = typeof row.metadata === 'string' ? row.metadata : JSON.stringify(row.metadata);
+    const parsed = typeof row.metadata === 'string' ? parseLenientJson(row.metadata) : row.metadata;
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      return [];
+    }
+
+    let flattened = false;
+    const flat: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(parsed)) {
+      flattened ||= value !== null && typeof value === 'object';
+      flat[key] = value !== null && typeof value === 'object' ? JSON.stringify(value) : value;
+    }
+
+    // Valid, already-flat metadata is not what failed; reformatting it fixes nothing
+    if (!flattened && typeof row.metadata === 'string' && isValidJson(row.metadata)) {
+      return [];
+    }
+
+    const fixed = JSON.stringify(flat);
+    row.metadata = fixed;
+    return [{ field: 'metadata', originalValue: original, fixedValue: fixed, reason: 'Re-serialized metadata JSON' }];
+  }
+};
+
+/**
+ * Rule: trim and lowercase emails
+ */
+const emailNormalize: RemediationRule = {
+  id: 'email-normalize',
+  description: 'Trim, unwrap and lowercase email addresses',
+  appliesTo: (group) => /invalid email|email format|email address/.test(group.pattern.toLowerCase()),
+  remediate: (row) => {
+    if (typeof row.email !== 'string') {
+      return [];
+    }
+
+    const original = row.email;
+    const fixed = original
+      .trim()
+      .replace(/^mailto:/i, '')
+      .replace(/^<(.*)>$/, '$1')
+      .replace(/\s+/g, '')
+      .toLowerCase();
+    if (fixed === original || !EMAIL_PATTERN.test(fixed)) {
+      return [];
+    }
+    row.email = fixed;
+    return [{ field: 'email', originalValue: original, fixedValue: fixed, reason: 'Normalized email address' }];
+  }
+};
+
+/**
+ * Rule: convert or drop an unusable password hash
+ *
+ * A hash whose algorithm can be detected is converted to the WorkOS format;
+ * otherwise the hash is dropped so the user is imported and sets a password
+ * through the reset flow.
+ */
+const passwordHashRepair: RemediationRule = {
+  id: 'password-hash-repair',
+  description: 'Convert the password hash to a WorkOS type, or drop it so the user resets their password',
+  appliesTo: (group) => group.pattern.toLowerCase().includes('password'),
+  remediate: (row) => {
+    const hash = typeof row.password_hash === 'string' ? row.password_hash.trim() : '';
+    if (!hash) {
+      return [];
+    }
+    const hashType = typeof row.password_hash_type === 'string' ? row.password_hash_type.trim() : '';
+    if (hashType && validatePasswordHash(hash, hashType).length === 0) {
+      return [];
+    }
+
+    let fixedHash = '';
+    let fixedType = '';
+    let reason = 'Dropped invalid password hash; the user will set a password through the reset flow';
+    try {
+      const converted = convertPasswordHash(hash);
+      fixedHash = converted.passwordHash;
+      fixedType = converted.passwordHashType;
+      reason = `Converted ${converted.algorithm} password hash to WorkOS format`;
+    } catch {
+      // Unrecognized or non-importable hash: drop it
+    }
+
+    const changes: RemediationChange[] = [];
+    if (fixedHash !== row.password_hash) {
+      changes.push({ field: 'password_hash', originalValue: String(row.password_hash), fixedValue: fixedHash, reason });
+      row.password_hash = fixedHash;
+    }
+    if (fixedType !== (row.password_hash_type ?? '')) {
+      changes.push({ field: 'password_hash_type', originalValue: String(row.password_hash_type ?? ''), fixedValue: fixedType, reason });
+      row.password_hash_type = fixedType;
+    }
+    return changes;
+  }
+};
+
+/**
+ * Registered rules, applied in order
+ */
+const RULES: RemediationRule[] = [
+  metadataReserialize,
+  emailNormalize,
+  passwordHashRepair
+];
+
+/**
+ * Register an additional rule (replaces any rule with the same ID)
+ */
+export function registerRemediationRule(rule: RemediationRule): void {
+  const existing = RULES.findIndex(r => r.id === rule.id);
+  if (existing >= 0) {
+    RULES[existing] = rule;
+  } else {
+    RULES.push(rule);
+  }
+}
+
+/**
+ * Registered rules in application order
+ */
+export function getRemediationRules(): RemediationRule[] {
+  return [...RULES];
+}
+
+/**
+ * Apply remediation rules to the rows of non-retryable errors
+ *
+ * Errors for users that were already created (errors with a userId) are left
+ * alone; their row data is not what failed.
+ */
+export function remediateErrors(
+  errors: ErrorRecord[],
+  groups: ErrorGroup[],
+  rules: RemediationRule[] = getRemediationRules()
+): RemediationResult {
+  const groupsById = new Map(groups.map(group => [group.id, group]));
+  const result: RemediationResult = { rows: [], changes: [], byRule: {}, unremediated: 0 };
+
+  for (const error of errors) {
+    const groupId = generateGroupId(normalizeErrorMessage(error.errorMessage || ''), error.errorType, error.httpStatus);
+    const group = groupsById.get(groupId);
+    if (!group || group.retryable) {
+      continue;
+    }
+
+    const matching = rules.filter(rule => rule.appliesTo(group));
+    if (!error.rawRow || error.userId || matching.length === 0) {
+      result.unremediated++;
+      continue;
+    }
+
+    const row = { ...error.rawRow };
+    let fixed = false;
+    for (const rule of matching) {
+      const changes = rule.remediate(row);
+      if (changes.length === 0) {
+        continue;
+      }
+      fixed = true;
+      result.byRule[rule.id] = (result.byRule[rule.id] || 0) + 1;
+      for (const change of changes) {
+        result.changes.push({ ...change, ruleId: rule.id, groupId, recordNumber: error.recordNumber, email: error.email });
+      }
+    }
+
+    if (!fixed) {
+      result.unremediated++;
+      continue;
+    }
+    result.rows.push({ email: String(row.email ?? ''), rawRow: row, errorRecord: error, phase: 'full' });
+  }
+
+  return result;
+}
+
+/**
+ * Write the remediation change log as JSON, with the redaction policy applied
+ * to the logged emails and field values
+ */
+export function writeRemediationLog(result: RemediationResult, outputPath: string, redaction?: RedactionPolicy): void {
+  const { rows, ...log } = result;
+  const changes = log.changes.map(change => ({
+    ...change,
+    email: change.email === undefined ? undefined : redactEmail(change.email, redaction),
+    originalValue: String(redactField(change.field, change.originalValue, redaction) ?? '[redacted]'),
+    fixedValue: String(redactField(change.field, change.fixedValue, redaction) ?? '[redacted]')
+  }));
+  fs.writeFileSync(outputPath, JSON.stringify({
+    timestamp: new Date().toISOString(),
+    rowsRemediated: rows.length,
+    ...log,
+    changes
+  }, null, 2));
+}
+
+function isValidJson(text: string): boolean {
+  try {
+    JSON.parse(text);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parse JSON, repairing smart quotes, single quotes and trailing commas.
+ * Returns undefined if the text cannot be repaired.
+ */
+function parseLenientJson(text: string): unknown {
+  const attempts = [text.trim()];
+  let repaired = text.trim()
+    .replace(/[“”]/g, '"')
+    .replace(/[‘’]/g, '\'')
+    .replace(/,\s*([}\]])/g, '$1');
+  if (!repaired.includes('"')) {
+    repaired = repaired.replace(/'/g, '"');
+  }
+  attempts.push(repaired);
+
+  for (const attempt of attempts) {
+    try {
+      return JSON.parse(attempt);
+    } catch {
+      // Try the next repair
+    }
+  }
+  return undefined;
+}
@@ -62,7 +62,7 @@ function generateSuggestionForGroup(group: ErrorGroup): FixSuggestion | null {
       pattern: group.pattern,
       severity,
       affectedCount: count,
-      suggestion: 'Users already exist in WorkOS. Remove duplicates from CSV or skip these rows.',
+      suggestion: 'Users already exist in WorkOS. Re-run with --on-conflict skip (reuse existing users) or --on-conflict update (patch them), or remove these rows from the CSV.',
       actionable: true,
       exampleFix: 'Remove rows with emails that already exist in WorkOS'
     };
@@ -6,7 +6,7 @@
  */
 
 import type { ErrorRecord } from '../types.js';
-import type { RetryClassification, RetryStrategy } from './types.js';
+import type { RetryClassification, RetryPhase, RetryStrategy } from './types.js';
 
 /**
  * Classify if an error is retryable
@@ -87,6 +87,26 @@ export function classifyRetryability(error: ErrorRecord): RetryClassification {
     }
   }
 
+  // Case 3b: Role assignment on an existing membership (user and membership exist)
+  if (error.errorType === 'role_assignment' && error.userId) {
+    // 4xx (other than 429): unknown role slug or multiple roles not enabled - fix first
+    if (error.httpStatus && error.httpStatus >= 400 && error.httpStatus < 500) {
+      return {
+        retryable: false,
+        reason: 'role_validation_error'
+      };
+    }
+
+    return {
+      retryable: true,
+      strategy: {
+        type: 'immediate',
+        reason: 'Role assignment failed but membership exists - retry role assignment only'
+      },
+      reason: 'role_assignment_error_user_exists'
+    };
+  }
+
   // Case 4: User creation errors (check before generic 400/409/500)
   if (error.errorType === 'user_create') {
     if (error.httpStatus && error.httpStatus >= 500) {
@@ -156,6 +176,24 @@ export function classifyRetryability(error: ErrorRecord): RetryClassification {
   };
 }
 
+/**
+ * Import step a retry of this error should start from.
+ * Errors after user creation (known userId) skip straight to the membership
+ * or role step; everything else re-imports the full row.
+ */
+export function getRetryPhase(error: ErrorRecord): RetryPhase {
+  if (!error.userId) {
+    return 'full';
+  }
+  if (error.errorType === 'role_assignment') {
+    return 'role';
+  }
+  if (error.errorType === 'membership_create' || error.errorType === 'org_resolution') {
+    return 'membership';
+  }
+  return 'full';
+}
+
 /**
  * Get human-readable retry strategy description
  */
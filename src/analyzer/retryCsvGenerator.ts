@@ -3,12 +3,45 @@
  *
  * Extracts rawRow from retryable errors, deduplicates by email,
  * and writes to CSV in WorkOS format.
+ *
+ * Errors raised after the user was created (membership and role phases) go to
+ * a separate membership retry CSV keyed by user_id, so the retry does not
+ * call createUser again.
  */
 
 import fs from 'node:fs';
 import { stringify } from 'csv-stringify';
 import type { RetryableError } from './types.js';
 
+/** Columns of the membership retry CSV */
+export const MEMBERSHIP_RETRY_COLUMNS = [
+  'user_id',
+  'email',
+  'external_id',
+  'org_id',
+  'org_external_id',
+  'org_name',
+  'role_slugs'
+];
+
+/**
+ * CSV cell for a raw row value. JSONL rows carry arrays (role_slugs,
+ * org_domains) and objects (metadata): lists of strings are comma-separated,
+ * anything else nested is written as JSON, which the importer also accepts.
+ */
+function rowString(value: unknown): string {
+  if (Array.isArray(value)) {
+    if (value.every(v => typeof v !== 'object' || v === null)) {
+      return value.map(v => String(v ?? '').trim()).filter(Boolean).join(',');
+    }
+    return JSON.stringify(value);
+  }
+  if (typeof value === 'object' && value !== null) {
+    return JSON.stringify(value);
+  }
+  return value === undefined || value === null ? '' : String(value).trim();
+}
+
 /**
  * Generate retry CSV from retryable errors
  *
@@ -44,9 +77,8 @@ export async function generateRetryCsv(
     throw new Error('No retryable errors with rawRow data found');
   }
 
-  // Determine column order (preserve original order from first row)
-  const firstRow = rows[0]!;
-  const columns = Object.keys(firstRow);
+  // Union of keys in first-seen order: JSONL rows often leave fields out
+  const columns = [...new Set(rows.flatMap(row => Object.keys(row)))];
 
   // Ensure standard WorkOS columns come first
   const standardColumns = [
@@ -61,7 +93,8 @@ export async function generateRetryCsv(
     'metadata',
     'org_id',
     'org_external_id',
-    'org_name'
+    'org_name',
+    'org_domains'
   ];
 
   const orderedColumns = [
@@ -74,16 +107,13 @@ export async function generateRetryCsv(
     const output = fs.createWriteStream(outputPath);
     const stringifier = stringify({
       header: true,
-      columns: orderedColumns,
-      cast: {
-        boolean: (value) => (value ? 'true' : 'false')
-      }
+      columns: orderedColumns
     });
 
     stringifier.pipe(output);
 
     for (const row of rows) {
-      stringifier.write(row);
+      stringifier.write(Object.fromEntries(orderedColumns.map(col => [col, rowString(row[col])])));
     }
 
     stringifier.end();
@@ -92,3 +122,64 @@ export async function generateRetryCsv(
     output.on('error', (err) => reject(err));
   });
 }
+
+/**
+ * Generate a membership retry CSV from membership- and role-phase errors
+ *
+ * One row per user and organization. The resolved org_id from the error is
+ * preferred over the row's org columns; the importer skips user creation for
+ * rows with a user_id. Returns the number of rows written.
+ */
+export async function generateMembershipRetryCsv(
+  retryableErrors: RetryableError[],
+  outputPath: string
+): Promise<number> {
+  const rows = new Map<string, Record<string, string>>();
+
+  for (const error of retryableErrors) {
+    const userId = error.errorRecord.userId;
+    if (!userId) {
+      continue;
+    }
+
+    const raw = error.rawRow;
+    const orgId = error.errorRecord.orgId || rowString(raw.org_id);
+    const row: Record<string, string> = {
+      user_id: userId,
+      email: error.email,
+      external_id: rowString(raw.external_id),
+      org_id: orgId,
+      org_external_id: orgId ? '' : rowString(raw.org_external_id),
+      org_name: orgId ? '' : rowString(raw.org_name),
+      role_slugs: error.errorRecord.roleSlugs?.join(',') || rowString(raw.role_slugs)
+    };
+
+    const key = `${userId}:${row.org_id || row.org_external_id || row.org_name}`;
+    if (!rows.has(key)) {
+      rows.set(key, row);
+    }
+  }
+
+  if (rows.size === 0) {
+    throw new Error('No membership or role errors with a userId found');
+  }
+
+  return new Promise((resolve, reject) => {
+    const output = fs.createWriteStream(outputPath);
+    const stringifier = stringify({
+      header: true,
+      columns: MEMBERSHIP_RETRY_COLUMNS
+    });
+
+    stringifier.pipe(output);
+
+    for (const row of rows.values()) {
+      stringifier.write(row);
+    }
+
+    stringifier.end();
+
+    output.on('finish', () => resolve(rows.size));
+    output.on('error', (err) => reject(err));
+  });
+}
@@ -3,6 +3,7 @@
  */
 
 import type { ErrorRecord } from '../types.js';
+import type { RedactionPolicy } from '../redaction.js';
 
 /**
  * Options for error analysis
@@ -10,8 +11,10 @@ import type { ErrorRecord } from '../types.js';
 export interface AnalyzerOptions {
   errorsPath: string;          // errors.jsonl file path
   retryCsvPath?: string;        // Optional: output retry CSV path
+  membershipRetryCsvPath?: string; // Optional: output membership/role-only retry CSV path
   reportPath?: string;          // Optional: JSON report path (default: error-analysis-report.json)
   includeDuplicates?: boolean;  // Include duplicate emails in retry CSV (default: false)
+  redaction?: RedactionPolicy;  // PII redaction for the report and log output (default: drop passwords/secrets)
   quiet?: boolean;              // Suppress progress output
 }
 
@@ -49,6 +52,7 @@ export interface RetryabilitySummary {
     count: number;
     percentage: number;
     byReason: Record<string, number>;  // server_error: 10, rate_limit: 5, ...
+    byPhase: Record<RetryPhase, number>; // full: 10, membership: 3, role: 1
   };
   nonRetryable: {
     count: number;
@@ -96,6 +100,15 @@ export interface FixSuggestion {
   exampleFix?: string;           // Example of how to fix (for CSV issues)
 }
 
+/**
+ * Import step a retry starts from
+ *
+ * - full: re-import the original row (user creation included)
+ * - membership: the user exists; re-attempt the organization membership only
+ * - role: the membership exists; re-apply its roles only
+ */
+export type RetryPhase = 'full' | 'membership' | 'role';
+
 /**
  * Retryable error (extracted for CSV)
  */
@@ -103,6 +116,7 @@ export interface RetryableError {
   email: string;
   rawRow: Record<string, unknown>;
   errorRecord: ErrorRecord;
+  phase?: RetryPhase;            // Defaults to 'full'
 }
 
 /**
@@ -113,3 +127,131 @@ export interface RetryClassification {
   strategy?: RetryStrategy;
   reason: string;                // Why retryable/not retryable
 }
+
+/**
+ * Change applied to a row by a remediation rule
+ */
+export interface RemediationChange {
+  field: string;
+  originalValue: string;
+  fixedValue: string;
+  reason: string;
+}
+
+/**
+ * Rule that fixes rows of an actionable error group
+ *
+ * remediate() edits the row in place and returns the changes it made; an
+ * empty list means the rule could not fix the row.
+ */
+export interface RemediationRule {
+  id: string;
+  description: string;
+  appliesTo: (group: ErrorGroup) => boolean;
+  remediate: (row: Record<string, unknown>) => RemediationChange[];
+}
+
+/**
+ * Logged remediation change
+ */
+export interface RemediationLogEntry extends RemediationChange {
+  ruleId: string;
+  groupId: string;
+  recordNumber: number;
+  email?: string;                // Email before remediation
+}
+
+/**
+ * Result of auto-remediating non-retryable errors
+ */
+export interface RemediationResult {
+  rows: RetryableError[];        // Corrected rows for the remediated retry CSV
+  changes: RemediationLogEntry[];
+  byRule: Record<string, number>; // Rule ID -> rows fixed
+  unremediated: number;          // Non-retryable errors no rule could fix
+}
+
+/**
+ * Options for cross-run error history analysis
+ */
+export interface ErrorHistoryOptions {
+  errorsPaths: string[];        // errors.jsonl files and/or directories, oldest round first
+  inputPaths?: string[];        // Optional: CSV/JSONL file imported in each round, one per round in the same order
+  reportPath?: string;          // Optional: JSON report path (default: error-history-report.json)
+  giveUpAfter?: number;         // Rounds with the same non-retryable pattern before giving up (default: 3)
+  redaction?: RedactionPolicy;  // PII redaction for the report and log output
+  quiet?: boolean;              // Suppress progress output
+}
+
+/**
+ * Where a user stands after the last round
+ *
+ * - persistent: failed in the last round and in at least one earlier round
+ * - new: failed in the last round only
+ * - resolved: imported again after their last failure (found in a later
+ *   round's input file or creation ledger) without failing
+ * - not_retried: not in the last round, and nothing shows a later attempt
+ *   (e.g. non-retryable errors left out of the retry CSV)
+ */
+export type UserErrorStatus = 'persistent' | 'new' | 'resolved' | 'not_retried';
+
+/**
+ * Failure history of one user across rounds (joined on external_id, else email)
+ */
+export interface UserErrorHistory {
+  key: string;                   // "external_id:<id>" or "email:<email>"
+  email?: string;
+  externalId?: string;
+  attempts: number;              // Rounds in which the user failed
+  rounds: number[];              // 1-based round numbers with a failure
+  status: UserErrorStatus;
+  lastAttemptRound?: number;     // Latest round the user was imported in (failure, input row or ledger entry)
+  lastPattern: string;           // Normalized pattern of the latest failure
+  lastGroupId: string;
+  lastRetryable: boolean;
+}
+
+/**
+ * Per-round counts of one error pattern
+ */
+export interface PatternTrend {
+  groupId: string;               // Same ID as ErrorGroup.id
+  pattern: string;
+  errorType?: string;
+  httpStatus?: number;
+  retryable: boolean;
+  countsByRound: number[];       // Errors per round, oldest first
+  trend: 'new' | 'gone' | 'rising' | 'falling' | 'steady';
+}
+
+/**
+ * User that keeps failing with the same non-retryable pattern
+ */
+export interface GiveUpEntry {
+  email?: string;
+  externalId?: string;
+  attempts: number;              // Rounds failed with this pattern (including later rounds the user was not retried in)
+  pattern: string;
+  groupId: string;
+}
+
+/**
+ * Cross-run error history report
+ */
+export interface ErrorHistoryReport {
+  rounds: Array<{ round: number; errorsFile: string; errors: number; users: number }>;
+  summary: {
+    totalUsers: number;
+    persistent: number;
+    new: number;
+    resolved: number;
+    notRetried: number;
+    attemptsHistogram: Record<string, number>;  // attempts -> users ("1": 120, "2": 30, ...)
+    giveUp: number;
+  };
+  users: UserErrorHistory[];
+  patterns: PatternTrend[];
+  giveUp: GiveUpEntry[];
+  giveUpAfter: number;
+  timestamp: string;
+}
@@ -1,4 +1,5 @@
-import { getOrganizationById, getOrganizationByExternalId, createOrganization } from "../orgs.js";
+import { getOrganizationById, getOrganizationByExternalId, createOrganization, syncOrganizationDomains } from "../orgs.js";
+import type { OrgDomain } from "../organizations/types.js";
 
 /**
  * Organization Cache
@@ -11,6 +12,7 @@ import { getOrganizationById, getOrganizationByExternalId, createOrganization }
  * - Dual-key caching: by org_id and org_external_id
  * - Statistics tracking (hits, misses, evictions, hit rate)
  * - Optional TTL support (disabled by default for import use cases)
+ * - Organization domains applied on first resolution (create or sync)
  *
  * Performance:
  * - 99%+ hit rate for typical workloads (100-1,000 orgs, 10K+ users)
@@ -40,6 +42,8 @@ export interface OrganizationResolveOptions {
   orgExternalId?: string;
   createIfMissing?: boolean;
   orgName?: string;
+  /** Domains to create the organization with, or add if it already exists */
+  orgDomains?: OrgDomain[];
 }
 
 export interface OrganizationCacheOptions {
@@ -47,6 +51,7 @@ export interface OrganizationCacheOptions {
   enableTTL?: boolean; // default: false
   defaultTTLMs?: number; // default: 3600000 (1 hour)
   dryRun?: boolean; // default: false - skip API calls in dry-run mode
+  onCreate?: (org: { id: string; externalId?: string; name?: string }) => void; // called when an org is created (not found)
 }
 
 export class OrganizationCache {
@@ -61,6 +66,7 @@ export class OrganizationCache {
   private readonly enableTTL: boolean;
   private readonly defaultTTLMs: number;
   private readonly dryRun: boolean;
+  private readonly onCreate?: OrganizationCacheOptions['onCreate'];
 
   constructor(options?: OrganizationCacheOptions) {
     this.cache = new Map();
@@ -74,6 +80,7 @@ export class OrganizationCache {
     this.enableTTL = options?.enableTTL ?? false;
     this.defaultTTLMs = options?.defaultTTLMs ?? 3600000; // 1 hour default
     this.dryRun = options?.dryRun ?? false;
+    this.onCreate = options?.onCreate;
   }
 
   /**
@@ -85,13 +92,16 @@ export class OrganizationCache {
    * 3. If organization not found and createIfMissing + orgName → Create new org
    * 4. If organization not found and no creation → return null
    *
+   * Domains are applied only when the organization is fetched (a cache miss),
+   * so the first row resolving an organization decides its domains.
+   *
    * @param options Resolution options
    * @returns WorkOS organization ID or null if not found
    * @throws Error if both orgId and orgExternalId provided
    * @throws Error if API call fails (404s return null, not throw)
    */
   async resolve(options: OrganizationResolveOptions): Promise<string | null> {
-    const { orgId, orgExternalId, createIfMissing, orgName } = options;
+    const { orgId, orgExternalId, createIfMissing, orgName, orgDomains } = options;
 
     // Validation: cannot have both
     if (orgId && orgExternalId) {
@@ -126,7 +136,8 @@ export class OrganizationCache {
       orgId,
       orgExternalId,
       createIfMissing,
-      orgName
+      orgName,
+      orgDomains
     );
 
     // Track in-flight request
@@ -141,6 +152,24 @@ export class OrganizationCache {
     }
   }
 
+  /**
+   * Cache an organization resolved elsewhere (e.g. by the org definitions
+   * processor) under its ID and, if given, its external ID
+   */
+  prime(org: { id: string; externalId?: string; name?: string }): void {
+    const entry: OrganizationCacheEntry = {
+      id: org.id,
+      externalId: org.externalId,
+      name: org.name,
+      cachedAt: Date.now(),
+      ttl: this.enableTTL ? this.defaultTTLMs : undefined
+    };
+    this.set(this.generateCacheKey(org.id, undefined), entry);
+    if (org.externalId) {
+      this.set(this.generateCacheKey(undefined, org.externalId), entry);
+    }
+  }
+
   /**
    * Get entry from cache (checks TTL if enabled)
    */
@@ -195,7 +224,8 @@ export class OrganizationCache {
     orgId?: string,
     orgExternalId?: string,
     createIfMissing?: boolean,
-    orgName?: string
+    orgName?: string,
+    orgDomains?: OrgDomain[]
   ): Promise<string | null> {
     this.stats.misses += 1;
 
@@ -240,7 +270,10 @@ export class OrganizationCache {
         // Create if not found and requested
         if (!resolvedOrgId && createIfMissing && orgName) {
           try {
-            resolvedOrgId = await createOrganization(orgName, orgExternalId);
+            resolvedOrgId = await createOrganization(orgName, orgExternalId, { domains: orgDomains });
+            // Created with its domains; nothing left to sync
+            orgDomains = undefined;
+            this.onCreate?.({ id: resolvedOrgId, externalId: orgExternalId, name: orgName });
           } catch (err: any) {
             // Check if error is due to external_id conflict (race condition)
             // This happens when multiple workers try to create the same org simultaneously
@@ -287,6 +320,11 @@ export class OrganizationCache {
         }
       }
 
+      // Add domains to an organization that already existed
+      if (resolvedOrgId && orgDomains && orgDomains.length > 0) {
+        await syncOrganizationDomains(resolvedOrgId, orgDomains);
+      }
+
       // Cache the result if found
       if (resolvedOrgId) {
         const entry: OrganizationCacheEntry = {
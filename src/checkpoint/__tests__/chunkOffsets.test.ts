@@ -0,0 +1,227 @@
+/**
+ * Chunk Offset Tests
+ *
+ * Byte-offset pre-scan (scanChunkOffsets), seeking into chunks
+ * (openChunkRows) and chunked imports that read only their own slice.
+ *
+ * Run with: npx tsx src/checkpoint/__tests__/chunkOffsets.test.ts
+ */
+
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { startFakeWorkOSServer } from "../../testing/fakeWorkOSServer.js";
+import type { CSVRow } from "../../types.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const TEMP_DIR = path.join(__dirname, "../../../.temp-chunk-offset-tests");
+const CHECKPOINT_DIR = path.join(TEMP_DIR, "checkpoints");
+
+const server = await startFakeWorkOSServer({ apiKey: "sk_test_chunk_offsets" });
+process.env.WORKOS_BASE_URL = server.baseUrl;
+process.env.WORKOS_SECRET_KEY = "sk_test_chunk_offsets";
+
+const { scanChunkOffsets, calculateCsvHash } = await import("../csvUtils.js");
+const { CheckpointManager } = await import("../manager.js");
+const { openChunkRows } = await import("../../inputFormat.js");
+const { importUsersFromCsv } = await import("../../importer.js");
+
+// --- Helpers ---
+
+function writeFile(filename: string, content: string): string {
+  const filePath = path.join(TEMP_DIR, filename);
+  fs.writeFileSync(filePath, content, "utf8");
+  return filePath;
+}
+
+/** Rows of each chunk read through openChunkRows, as "recordNumber:email" */
+async function readChunks(filePath: string, chunks: Array<{ startRow: number; startByte?: number; endByte?: number }>) {
+  const result: string[][] = [];
+  for (const chunk of chunks) {
+    const { input, parser, recordsBefore } = await openChunkRows(filePath, chunk);
+    const rows: string[] = [];
+    let recordNumber = recordsBefore;
+    await new Promise<void>((resolve, reject) => {
+      parser.on("readable", () => {
+        let row: CSVRow | null;
+        while ((row = parser.read()) !== null) {
+          recordNumber++;
+          rows.push(`${recordNumber}:${row.email}`);
+        }
+      });
+      parser.on("end", () => resolve());
+      parser.on("error", reject);
+      input.pipe(parser);
+    });
+    result.push(rows);
+  }
+  return result;
+}
+
+// A quoted field spanning lines, escaped quotes, CRLF, blank lines and no trailing newline
+const TRICKY_CSV =
+  'email,first_name,last_name\r\n' +
+  'ann@acme.com,Ann,"Lee\r\nSmith"\r\n' +
+  '\r\n' +
+  'bob@acme.com,"Bob ""B"" Ray",\r\n' +
+  '   \r\n' +
+  'cid@acme.com,Cid,"Moe,\n\nJr"\r\n' +
+  'dee@acme.com,Dee,\r\n' +
+  'eve@acme.com,Eve,';
+
+// --- Test Runner ---
+
+let passed = 0;
+let failed = 0;
+
+async function test(name: string, fn: () => Promise<void> | void) {
+  server.reset();
+  try {
+    await fn();
+    passed++;
+    console.log(`  ✓ ${name}`);
+  } catch (err: unknown) {
+    failed++;
+    console.log(`  ✗ ${name}`);
+    console.log(`    ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+// --- Test Suite ---
+
+async function main() {
+  fs.mkdirSync(TEMP_DIR, { recursive: true });
+
+  console.log("\nChunk Offset Tests");
+  console.log("==================\n");
+
+  const trickyCsv = writeFile("tricky.csv", TRICKY_CSV);
+
+  await test("scan counts rows across quoted newlines and skips blank lines", async () => {
+    const scan = await scanChunkOffsets(trickyCsv, 2);
+    assert.equal(scan.totalRows, 5);
+    assert.equal(scan.chunkOffsets.length, 4);
+    assert.equal(scan.chunkOffsets[0], Buffer.byteLength("email,first_name,last_name\r\n"));
+    assert.equal(scan.chunkOffsets[3], fs.statSync(trickyCsv).size);
+    assert.equal(TRICKY_CSV.slice(scan.chunkOffsets[1]).startsWith("cid@acme.com"), true);
+    assert.equal(TRICKY_CSV.slice(scan.chunkOffsets[2]).startsWith("eve@acme.com"), true);
+  });
+
+  await test("chunks read through their offsets match a full parse", async () => {
+    const { chunkOffsets } = await scanChunkOffsets(trickyCsv, 2);
+    const chunks = [0, 1, 2].map(i => ({ startRow: i * 2 + 1, startByte: chunkOffsets[i], endByte: chunkOffsets[i + 1] }));
+    assert.deepEqual(await readChunks(trickyCsv, chunks), [
+      ["1:ann@acme.com", "2:bob@acme.com"],
+      ["3:cid@acme.com", "4:dee@acme.com"],
+      ["5:eve@acme.com"]
+    ]);
+    const [full] = await readChunks(trickyCsv, [{ startRow: 1 }]);
+    assert.deepEqual(full, ["1:ann@acme.com", "2:bob@acme.com", "3:cid@acme.com", "4:dee@acme.com", "5:eve@acme.com"]);
+  });
+
+  await test("scan handles multi-byte characters and JSONL", async () => {
+    const utf8Csv = writeFile("utf8.csv", "email,first_name\nzoë@acme.com,Zoë\nøyvind@acme.com,Øyvind\n");
+    const utf8Scan = await scanChunkOffsets(utf8Csv, 1);
+    assert.deepEqual(
+      await readChunks(utf8Csv, [0, 1].map(i => ({ startRow: i + 1, startByte: utf8Scan.chunkOffsets[i], endByte: utf8Scan.chunkOffsets[i + 1] }))),
+      [["1:zoë@acme.com"], ["2:øyvind@acme.com"]]
+    );
+
+    const jsonlPath = writeFile("users.jsonl", '{"email":"a@x.com","first_name":"\\"quoted\\""}\n\n{"email":"b@x.com"}\n{"email":"c@x.com"}\n');
+    const scan = await scanChunkOffsets(jsonlPath, 2);
+    assert.equal(scan.totalRows, 3);
+    assert.equal(scan.chunkOffsets[0], 0);
+    assert.deepEqual(
+      await readChunks(jsonlPath, [0, 1].map(i => ({ startRow: i * 2 + 1, startByte: scan.chunkOffsets[i], endByte: scan.chunkOffsets[i + 1] }))),
+      [["1:a@x.com", "2:b@x.com"], ["3:c@x.com"]]
+    );
+  });
+
+  await test("checkpoint chunks record byte ranges only when the scan matches", async () => {
+    const { totalRows, chunkOffsets } = await scanChunkOffsets(trickyCsv, 2);
+    const base = {
+      csvPath: trickyCsv,
+      csvHash: await calculateCsvHash(trickyCsv),
+      totalRows,
+      chunkSize: 2,
+      concurrency: 1,
+      mode: "user-only" as const,
+      checkpointDir: CHECKPOINT_DIR
+    };
+    const withOffsets = await CheckpointManager.create({ ...base, jobId: "offsets-job", chunkOffsets });
+    assert.deepEqual(
+      withOffsets.getState().chunks.map(c => [c.startByte, c.endByte]),
+      [[chunkOffsets[0], chunkOffsets[1]], [chunkOffsets[1], chunkOffsets[2]], [chunkOffsets[2], chunkOffsets[3]]]
+    );
+
+    const mismatched = await CheckpointManager.create({ ...base, jobId: "mismatch-job", chunkSize: 3, chunkOffsets });
+    assert.equal(mismatched.getState().chunks.every(c => c.startByte === undefined), true);
+  });
+
+  await test("chunked import seeks to each chunk and keeps record numbers", async () => {
+    const { totalRows, chunkOffsets } = await scanChunkOffsets(trickyCsv, 2);
+    const manager = await CheckpointManager.create({
+      jobId: "import-job",
+      csvPath: trickyCsv,
+      csvHash: await calculateCsvHash(trickyCsv),
+      totalRows,
+      chunkSize: 2,
+      chunkOffsets,
+      concurrency: 1,
+      mode: "user-only",
+      checkpointDir: CHECKPOINT_DIR
+    });
+    server.seedUser({ email: "dee@acme.com" });
+
+    const { summary } = await importUsersFromCsv({ csvPath: trickyCsv, quiet: true, checkpointManager: manager });
+    assert.equal(summary.usersCreated, 4);
+    assert.equal(summary.failures, 1);
+    assert.equal(manager.getProgress().completedChunks, 3);
+
+    // Chunked mode streams errors to the checkpoint directory
+    const errors = fs.readFileSync(path.join(manager.getCheckpointDir(), "errors.jsonl"), "utf8")
+      .trim().split("\n").map(line => JSON.parse(line));
+    assert.equal(errors.length, 1);
+    assert.equal(errors[0].recordNumber, 4);
+    assert.equal(errors[0].email, "dee@acme.com");
+
+    const ann = [...server.state.users.values()].find(u => u.email === "ann@acme.com")!;
+    assert.equal(ann.last_name, "Lee\r\nSmith");
+    const bob = [...server.state.users.values()].find(u => u.email === "bob@acme.com")!;
+    assert.equal(bob.first_name, 'Bob "B" Ray');
+  });
+
+  await test("checkpoints without offsets still re-parse from the top", async () => {
+    const manager = await CheckpointManager.create({
+      jobId: "legacy-job",
+      csvPath: trickyCsv,
+      csvHash: await calculateCsvHash(trickyCsv),
+      totalRows: 5,
+      chunkSize: 2,
+      concurrency: 1,
+      mode: "user-only",
+      checkpointDir: CHECKPOINT_DIR
+    });
+    const { summary } = await importUsersFromCsv({ csvPath: trickyCsv, quiet: true, checkpointManager: manager });
+    assert.equal(summary.usersCreated, 5);
+    assert.equal(server.state.users.size, 5);
+  });
+
+  await server.stop();
+  fs.rmSync(TEMP_DIR, { recursive: true, force: true });
+
+  console.log(`\nTests: ${passed} passed, ${failed} failed`);
+  if (failed > 0) {
+    process.exit(1);
+  }
+  process.exit(0);
+}
+
+main().catch(async (err) => {
+  console.error("Test runner error:", err);
+  await server.stop();
+  process.exit(1);
+});
@@ -0,0 +1,175 @@
+/**
+ * Row Ledger Tests
+ *
+ * Per-row completion ledger: reading entries back, and chunks replayed after
+ * an interruption skipping finished rows and reusing created users.
+ *
+ * Run with: npx tsx src/checkpoint/__tests__/rowLedger.test.ts
+ */
+
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { startFakeWorkOSServer } from "../../testing/fakeWorkOSServer.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const TEMP_DIR = path.join(__dirname, "../../../.temp-row-ledger-tests");
+const CHECKPOINT_DIR = path.join(TEMP_DIR, "checkpoints");
+
+const server = await startFakeWorkOSServer({ apiKey: "sk_test_row_ledger" });
+process.env.WORKOS_BASE_URL = server.baseUrl;
+process.env.WORKOS_SECRET_KEY = "sk_test_row_ledger";
+
+const { RowLedger, getRowLedgerPath } = await import("../rowLedger.js");
+const { CheckpointManager } = await import("../manager.js");
+const { calculateCsvHash, countCsvRows } = await import("../csvUtils.js");
+const { importUsersFromCsv } = await import("../../importer.js");
+
+// --- Helpers ---
+
+function writeFile(filename: string, lines: string[]): string {
+  const filePath = path.join(TEMP_DIR, filename);
+  fs.writeFileSync(filePath, lines.join("\n") + "\n", "utf8");
+  return filePath;
+}
+
+async function createCheckpoint(jobId: string, csvPath: string, chunkSize: number) {
+  return CheckpointManager.create({
+    jobId,
+    csvPath,
+    csvHash: await calculateCsvHash(csvPath),
+    totalRows: await countCsvRows(csvPath),
+    chunkSize,
+    concurrency: 1,
+    mode: "single-org",
+    checkpointDir: CHECKPOINT_DIR
+  });
+}
+
+// --- Test Runner ---
+
+let passed = 0;
+let failed = 0;
+
+async function test(name: string, fn: () => Promise<void> | void) {
+  server.reset();
+  try {
+    await fn();
+    passed++;
+    console.log(`  ✓ ${name}`);
+  } catch (err: unknown) {
+    failed++;
+    console.log(`  ✗ ${name}`);
+    console.log(`    ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+// --- Test Suite ---
+
+async function main() {
+  fs.mkdirSync(TEMP_DIR, { recursive: true });
+
+  console.log("\nRow Ledger Tests");
+  console.log("================\n");
+
+  const usersCsv = writeFile("users.csv", [
+    "email,first_name",
+    "ann@acme.com,Ann",
+    "bob@acme.com,Bob",
+    "cid@acme.com,Cid",
+    "dee@acme.com,Dee"
+  ]);
+
+  await test("latest entry per row wins and failed rows are dropped", () => {
+    const dir = path.join(TEMP_DIR, "load-job");
+    const ledger = new RowLedger(dir, 3);
+    ledger.record({ recordNumber: 1, status: "user_done", userId: "user_1" });
+    ledger.record({ recordNumber: 1, status: "completed", userId: "user_1", user: "created" });
+    ledger.record({ recordNumber: 2, status: "user_done", userId: "user_2" });
+    ledger.record({ recordNumber: 2, status: "failed" });
+    ledger.record({ recordNumber: 3, status: "user_done", userId: "user_3" });
+    ledger.close();
+    fs.appendFileSync(getRowLedgerPath(dir, 3), '{"recordNumber":4,"sta');
+
+    const rows = new RowLedger(dir, 3).load();
+    assert.deepEqual([...rows.keys()], [1, 3]);
+    assert.equal(rows.get(1)?.status, "completed");
+    assert.equal(rows.get(3)?.userId, "user_3");
+    assert.equal(new RowLedger(dir, 4).load().size, 0);
+  });
+
+  await test("chunked import records every row as completed", async () => {
+    const org = server.seedOrganization({ name: "Acme" });
+    const manager = await createCheckpoint("record-job", usersCsv, 2);
+    await importUsersFromCsv({ csvPath: usersCsv, quiet: true, orgId: org.id, checkpointManager: manager });
+
+    const rows = new RowLedger(manager.getCheckpointDir(), 1).load();
+    assert.deepEqual([...rows.keys()].sort(), [3, 4]);
+    const cid = rows.get(3)!;
+    assert.equal(cid.status, "completed");
+    assert.equal(cid.user, "created");
+    assert.equal(cid.membership, "created");
+    assert.equal(cid.userId, [...server.state.users.values()].find(u => u.email === "cid@acme.com")?.id);
+  });
+
+  await test("replayed chunk skips finished rows and reuses created users", async () => {
+    const org = server.seedOrganization({ name: "Acme" });
+    const manager = await createCheckpoint("replay-job", usersCsv, 4);
+
+    // An interrupted attempt: ann finished, bob's user was created but not his membership
+    const ann = server.seedUser({ email: "ann@acme.com" });
+    const bob = server.seedUser({ email: "bob@acme.com" });
+    const ledger = new RowLedger(manager.getCheckpointDir(), 0);
+    ledger.record({
+      recordNumber: 1, status: "completed", email: "ann@acme.com", userId: ann.id, user: "created",
+      orgId: org.id, membershipId: "om_earlier", membership: "created"
+    });
+    ledger.record({ recordNumber: 2, status: "user_done", email: "bob@acme.com", userId: bob.id, user: "created", orgId: org.id });
+    ledger.close();
+
+    const { summary } = await importUsersFromCsv({ csvPath: usersCsv, quiet: true, orgId: org.id, checkpointManager: manager });
+    assert.equal(summary.failures, 0, "No conflicts for rows created before the interruption");
+    assert.equal(summary.successes, 4);
+    assert.equal(summary.usersCreated, 4);
+    assert.equal(summary.membershipsCreated, 4);
+    assert.equal(server.countRequests("POST", "/user_management/users"), 2, "Only cid and dee are created");
+    const memberEmails = [...server.state.memberships.values()]
+      .map(m => server.state.users.get(m.user_id)?.email)
+      .sort();
+    assert.deepEqual(memberEmails, ["bob@acme.com", "cid@acme.com", "dee@acme.com"], "Bob's pending membership is created");
+  });
+
+  await test("a new job with the same ID starts without old row outcomes", async () => {
+    const first = await createCheckpoint("reused-job", usersCsv, 4);
+    const ledger = new RowLedger(first.getCheckpointDir(), 0);
+    ledger.record({ recordNumber: 1, status: "completed", user: "created" });
+    ledger.close();
+
+    const second = await createCheckpoint("reused-job", usersCsv, 4);
+    assert.equal(new RowLedger(second.getCheckpointDir(), 0).load().size, 0);
+  });
+
+  await test("dry runs write no row ledger", async () => {
+    const manager = await createCheckpoint("dry-job", usersCsv, 4);
+    await importUsersFromCsv({ csvPath: usersCsv, quiet: true, dryRun: true, checkpointManager: manager });
+    assert.equal(fs.existsSync(getRowLedgerPath(manager.getCheckpointDir(), 0)), false);
+  });
+
+  await server.stop();
+  fs.rmSync(TEMP_DIR, { recursive: true, force: true });
+
+  console.log(`\nTests: ${passed} passed, ${failed} failed`);
+  if (failed > 0) {
+    process.exit(1);
+  }
+  process.exit(0);
+}
+
+main().catch(async (err) => {
+  console.error("Test runner error:", err);
+  await server.stop();
+  process.exit(1);
+});
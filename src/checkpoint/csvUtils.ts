@@ -6,6 +6,7 @@ import fs from 'node:fs';
 import crypto from 'node:crypto';
 import { createReadStream } from 'node:fs';
 import readline from 'node:readline';
+import { detectInputFormat } from '../inputFormat.js';
 
 /**
  * Calculate SHA-256 hash of CSV file for change detection
@@ -30,12 +31,33 @@ export async function calculateCsvHash(csvPath: string): Promise<string> {
   });
 }
 
+/**
+ * Calculate SHA-256 hash of a single parsed CSV row for per-row change detection.
+ * Columns are sorted and values trimmed so column order and padding do not
+ * count as changes. Columns in `ignoreColumns` (e.g. a delta action) are skipped.
+ */
+export function calculateRowHash(
+  row: Record<string, unknown>,
+  ignoreColumns: readonly string[] = []
+): string {
+  const hash = crypto.createHash('sha256');
+  for (const key of Object.keys(row).sort()) {
+    if (ignoreColumns.includes(key)) continue;
+    const value = row[key];
+    const normalized = value === undefined || value === null ? '' : String(value).trim();
+    hash.update(`${key}\u0000${normalized}\u0000`);
+  }
+  return hash.digest('hex');
+}
+
 /**
  * Count rows in CSV file for progress tracking
  * Fast: ~1s for 1M rows (streaming, counts newlines)
- * Returns count of data rows (excludes header)
+ * Returns count of data rows (excludes header; for JSONL, non-blank lines)
  */
 export async function countCsvRows(csvPath: string): Promise<number> {
+  const jsonl = detectInputFormat(csvPath) === 'jsonl';
+
   return new Promise((resolve, reject) => {
     let lineCount = 0;
     const rl = readline.createInterface({
@@ -43,13 +65,15 @@ export async function countCsvRows(csvPath: string): Promise<number> {
       crlfDelay: Infinity
     });
 
-    rl.on('line', () => {
+    rl.on('line', (line) => {
+      // JSONL records are numbered without blank lines (see createRowParser)
+      if (jsonl && line.trim() === '') return;
       lineCount++;
     });
 
     rl.on('close', () => {
       // Subtract 1 for header row
-      resolve(Math.max(0, lineCount - 1));
+      resolve(jsonl ? lineCount : Math.max(0, lineCount - 1));
     });
 
     rl.on('error', (err) => {
@@ -58,15 +82,104 @@ export async function countCsvRows(csvPath: string): Promise<number> {
   });
 }
 
+/**
+ * Result of scanChunkOffsets()
+ */
+export interface ChunkOffsetScan {
+  /** Data rows (excludes the CSV header; blank lines skipped) */
+  totalRows: number;
+  /**
+   * Byte offset where each chunk's first row starts, followed by the file
+   * size, so chunk i spans [chunkOffsets[i], chunkOffsets[i + 1])
+   */
+  chunkOffsets: number[];
+}
+
+const QUOTE = 0x22;
+const LF = 0x0a;
+const CR = 0x0d;
+const SPACE = 0x20;
+const TAB = 0x09;
+
+/**
+ * Pre-scan for chunked imports: counts rows and records the byte offset of
+ * every chunk boundary so each chunk can be read by seeking straight to it.
+ *
+ * Rows are split on newlines outside double quotes, so quoted fields that
+ * span lines stay in one row. Whitespace-only lines are skipped, as csv-parse
+ * and the JSONL parser skip them, so row numbers match createRowParser().
+ */
+export async function scanChunkOffsets(csvPath: string, chunkSize: number): Promise<ChunkOffsetScan> {
+  const jsonl = detectInputFormat(csvPath) === 'jsonl';
+  // JSONL strings cannot contain raw newlines, so quotes never span lines there
+  const trackQuotes = !jsonl;
+
+  return new Promise((resolve, reject) => {
+    const chunkOffsets: number[] = [];
+    let totalRows = 0;
+    let headerSeen = jsonl; // JSONL has no header row
+    let inQuotes = false;
+    let lineHasContent = false;
+    let rowStart = 0;
+    let position = 0;
+
+    const endRow = (nextRowStart: number) => {
+      if (lineHasContent) {
+        if (!headerSeen) {
+          headerSeen = true;
+        } else {
+          if (totalRows % chunkSize === 0) {
+            chunkOffsets.push(rowStart);
+          }
+          totalRows++;
+        }
+      }
+      lineHasContent = false;
+      rowStart = nextRowStart;
+    };
+
+    const stream = createReadStream(csvPath);
+
+    stream.on('data', (data) => {
+      const bytes = data as Buffer;
+      for (let i = 0; i < bytes.length; i++) {
+        const byte = bytes[i]!;
+        if (byte === QUOTE && trackQuotes) {
+          // An escaped quote ("") toggles twice and leaves the state unchanged
+          inQuotes = !inQuotes;
+          lineHasContent = true;
+        } else if (byte === LF && !inQuotes) {
+          endRow(position + i + 1);
+        } else if (byte !== SPACE && byte !== TAB && byte !== CR) {
+          lineHasContent = true;
+        }
+      }
+      position += bytes.length;
+    });
+
+    stream.on('end', () => {
+      endRow(position);
+      chunkOffsets.push(position);
+      resolve({ totalRows, chunkOffsets });
+    });
+
+    stream.on('error', (err) => {
+      reject(new Error(`Failed to scan CSV rows: ${err.message}`));
+    });
+  });
+}
+
 /**
  * Validate CSV headers and detect multi-org mode
- * Fast: Only reads first line
+ * Fast: Only reads first line (for JSONL, the first record's fields)
  */
 export async function validateCsvHeaders(csvPath: string): Promise<{
   valid: boolean;
   error?: string;
   hasOrgColumns: boolean;
 }> {
+  const jsonl = detectInputFormat(csvPath) === 'jsonl';
+
   return new Promise((resolve, reject) => {
     const rl = readline.createInterface({
       input: createReadStream(csvPath),
@@ -76,6 +189,7 @@ export async function validateCsvHeaders(csvPath: string): Promise<{
     let headerLine: string | null = null;
 
     rl.on('line', (line) => {
+      if (jsonl && line.trim() === '') return;
       if (headerLine === null) {
         headerLine = line;
         rl.close(); // Only need first line
@@ -92,8 +206,27 @@ export async function validateCsvHeaders(csvPath: string): Promise<{
         return;
       }
 
-      // Parse headers (simple split, assumes no quoted commas in header)
-      const headers = headerLine.split(',').map(h => h.trim().toLowerCase());
+      let headers: string[];
+      if (jsonl) {
+        let record: unknown;
+        try {
+          record = JSON.parse(headerLine.trim());
+        } catch {
+          record = null;
+        }
+        if (typeof record !== 'object' || record === null || Array.isArray(record)) {
+          resolve({
+            valid: false,
+            error: 'First JSONL line is not a JSON object',
+            hasOrgColumns: false
+          });
+          return;
+        }
+        headers = Object.keys(record).map(h => h.toLowerCase());
+      } else {
+        // Parse headers (simple split, assumes no quoted commas in header)
+        headers = headerLine.split(',').map(h => h.trim().toLowerCase());
+      }
 
       // Check for required 'email' column
       if (!headers.includes('email')) {
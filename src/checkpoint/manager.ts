@@ -8,6 +8,8 @@
 import fs from 'node:fs';
 import path from 'node:path';
 import { OrganizationCache } from '../cache/organizationCache.js';
+import { ROW_LEDGER_DIRNAME } from './rowLedger.js';
+import type { OrganizationCacheOptions } from '../cache/organizationCache.js';
 import type { ImportSummary } from '../types.js';
 import type {
   CheckpointState,
@@ -18,7 +20,7 @@ import type {
   SerializedCacheEntry
 } from './types.js';
 
-const DEFAULT_CHECKPOINT_DIR = '.workos-checkpoints';
+export const DEFAULT_CHECKPOINT_DIR = '.workos-checkpoints';
 
 export class CheckpointManager {
   private readonly checkpointDir: string;
@@ -47,9 +49,15 @@ export class CheckpointManager {
     // Create checkpoint directory
     await fs.promises.mkdir(jobDir, { recursive: true });
 
+    // Row outcomes from an earlier job with the same ID must not be replayed
+    await fs.promises.rm(path.join(jobDir, ROW_LEDGER_DIRNAME), { recursive: true, force: true });
+
     // Calculate number of chunks
     const totalChunks = Math.ceil(options.totalRows / options.chunkSize);
 
+    // Byte offsets only apply if they were scanned with the same row count and chunk size
+    const offsets = options.chunkOffsets?.length === totalChunks + 1 ? options.chunkOffsets : undefined;
+
     // Initialize chunks
     const chunks: ChunkMetadata[] = [];
     for (let i = 0; i < totalChunks; i++) {
@@ -60,6 +68,7 @@ export class CheckpointManager {
         chunkId: i,
         startRow,
         endRow,
+        ...(offsets ? { startByte: offsets[i], endByte: offsets[i + 1] } : {}),
         status: 'pending',
         successes: 0,
         failures: 0,
@@ -222,24 +231,67 @@ export class CheckpointManager {
     chunk.failures = chunkSummary.failures;
     chunk.membershipsCreated = chunkSummary.membershipsCreated;
     chunk.usersCreated = chunkSummary.usersCreated;
+    chunk.usersUpdated = chunkSummary.usersUpdated;
+    chunk.usersSkipped = chunkSummary.usersSkipped;
+    chunk.usersDeleted = chunkSummary.usersDeleted;
     chunk.duplicateUsers = chunkSummary.duplicateUsers;
     chunk.duplicateMemberships = chunkSummary.duplicateMemberships;
     chunk.rolesAssigned = chunkSummary.rolesAssigned;
+    delete chunk.lastError;
 
     // Update cumulative summary
     this.updateSummary(chunkSummary);
   }
 
   /**
-   * Mark a chunk as failed (will be retried on resume)
+   * Record a failed attempt at a chunk without changing its status
+   * Returns the number of failed attempts so far
+   */
+  recordChunkAttempt(chunkId: number, error: string): number {
+    const chunk = this.state.chunks[chunkId];
+    if (!chunk) {
+      throw new Error(`Invalid chunk ID: ${chunkId}`);
+    }
+
+    chunk.attempts = (chunk.attempts ?? 0) + 1;
+    chunk.lastError = error;
+    return chunk.attempts;
+  }
+
+  /**
+   * Mark a chunk as permanently failed
+   * Failed chunks are skipped on resume until requeueFailedChunks() is called
    */
-  markChunkFailed(chunkId: number): void {
+  markChunkFailed(chunkId: number, error?: string): void {
     const chunk = this.state.chunks[chunkId];
     if (!chunk) {
       throw new Error(`Invalid chunk ID: ${chunkId}`);
     }
 
     chunk.status = 'failed';
+    if (error !== undefined) {
+      chunk.lastError = error;
+    }
+  }
+
+  /**
+   * Get chunks marked as permanently failed
+   */
+  getFailedChunks(): ChunkMetadata[] {
+    return this.state.chunks.filter(c => c.status === 'failed');
+  }
+
+  /**
+   * Reset failed chunks to pending so the next run retries them
+   * Returns the number of chunks requeued
+   */
+  requeueFailedChunks(): number {
+    const failed = this.getFailedChunks();
+    for (const chunk of failed) {
+      chunk.status = 'pending';
+      chunk.attempts = 0;
+    }
+    return failed.length;
   }
 
   // ============================================================================
@@ -255,6 +307,9 @@ export class CheckpointManager {
     this.state.summary.failures += chunkSummary.failures;
     this.state.summary.membershipsCreated += chunkSummary.membershipsCreated;
     this.state.summary.usersCreated += chunkSummary.usersCreated;
+    this.state.summary.usersUpdated = (this.state.summary.usersUpdated ?? 0) + (chunkSummary.usersUpdated ?? 0);
+    this.state.summary.usersSkipped = (this.state.summary.usersSkipped ?? 0) + (chunkSummary.usersSkipped ?? 0);
+    this.state.summary.usersDeleted = (this.state.summary.usersDeleted ?? 0) + (chunkSummary.usersDeleted ?? 0);
     this.state.summary.duplicateUsers += chunkSummary.duplicateUsers;
     this.state.summary.duplicateMemberships += chunkSummary.duplicateMemberships;
     this.state.summary.rolesAssigned = (this.state.summary.rolesAssigned ?? 0) + (chunkSummary.rolesAssigned ?? 0);
@@ -268,6 +323,13 @@ export class CheckpointManager {
    */
   getFinalSummary(): ImportSummary {
     const progress = this.getProgress();
+    const failedChunks = this.getFailedChunks().map(c => ({
+      chunkId: c.chunkId,
+      startRow: c.startRow,
+      endRow: c.endRow,
+      attempts: c.attempts ?? 1,
+      error: c.lastError
+    }));
 
     return {
       total: this.state.summary.total,
@@ -275,6 +337,9 @@ export class CheckpointManager {
       failures: this.state.summary.failures,
       membershipsCreated: this.state.summary.membershipsCreated,
       usersCreated: this.state.summary.usersCreated,
+      usersUpdated: this.state.summary.usersUpdated ?? 0,
+      usersSkipped: this.state.summary.usersSkipped ?? 0,
+      usersDeleted: this.state.summary.usersDeleted ?? 0,
       duplicateUsers: this.state.summary.duplicateUsers,
       duplicateMemberships: this.state.summary.duplicateMemberships,
       rolesAssigned: this.state.summary.rolesAssigned ?? 0,
@@ -287,6 +352,7 @@ export class CheckpointManager {
         totalChunks: progress.totalChunks,
         percentComplete: progress.percentComplete
       },
+      failedChunks: failedChunks.length > 0 ? failedChunks : undefined,
       cacheStats: this.state.orgCache ? {
         hits: this.state.orgCache.stats.hits,
         misses: this.state.orgCache.stats.misses,
@@ -359,14 +425,14 @@ export class CheckpointManager {
   /**
    * Restore organization cache from checkpoint
    */
-  restoreCache(dryRun?: boolean): OrganizationCache | null {
+  restoreCache(dryRun?: boolean, onCreate?: OrganizationCacheOptions['onCreate']): OrganizationCache | null {
     if (!this.state.orgCache) {
       return null;
     }
 
     const cache = OrganizationCache.deserialize(
       this.state.orgCache.entries,
-      { maxSize: 10000, dryRun }
+      { maxSize: 10000, dryRun, onCreate }
     );
 
     // Restore statistics
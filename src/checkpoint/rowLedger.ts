@@ -0,0 +1,82 @@
+/**
+ * Per-row completion ledger
+ *
+ * Append-only JSONL record of how far each row of a chunk got, one file per
+ * chunk under rows/ in the checkpoint directory. Resume works per chunk, so a
+ * crash mid-chunk replays the whole chunk; with the ledger, rows that already
+ * completed are counted without calling WorkOS again, and rows whose user was
+ * created reuse that user ID for the pending membership and role steps.
+ *
+ * Only one worker processes a chunk at a time, so each file has one writer.
+ * Writes are synchronous so an entry is on disk before the next step runs.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import type { RowLedgerEntry } from './types.js';
+
+export const ROW_LEDGER_DIRNAME = 'rows';
+
+export function getRowLedgerPath(checkpointDir: string, chunkId: number): string {
+  return path.join(checkpointDir, ROW_LEDGER_DIRNAME, `chunk-${chunkId}.jsonl`);
+}
+
+export class RowLedger {
+  private readonly ledgerPath: string;
+  private fd: number | null = null;
+
+  constructor(checkpointDir: string, chunkId: number) {
+    this.ledgerPath = getRowLedgerPath(checkpointDir, chunkId);
+  }
+
+  /**
+   * Latest entry per record number from earlier attempts at this chunk.
+   * Rows whose latest entry is 'failed' are left out (rerun from scratch).
+   * A truncated final line from a crash mid-write is ignored.
+   */
+  load(): Map<number, RowLedgerEntry> {
+    const rows = new Map<number, RowLedgerEntry>();
+    if (!fs.existsSync(this.ledgerPath)) {
+      return rows;
+    }
+
+    const lines = fs.readFileSync(this.ledgerPath, 'utf8').split('\n');
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      try {
+        const entry = JSON.parse(line) as RowLedgerEntry;
+        if (entry.status === 'failed') {
+          rows.delete(entry.recordNumber);
+        } else {
+          rows.set(entry.recordNumber, entry);
+        }
+      } catch {
+        // Partial line from an interrupted write
+      }
+    }
+    return rows;
+  }
+
+  /**
+   * Append one row outcome
+   */
+  record(entry: Omit<RowLedgerEntry, 'recordedAt'>): void {
+    if (this.fd === null) {
+      fs.mkdirSync(path.dirname(this.ledgerPath), { recursive: true });
+      this.fd = fs.openSync(this.ledgerPath, 'a');
+    }
+    const line: RowLedgerEntry = { ...entry, recordedAt: new Date().toISOString() };
+    fs.writeSync(this.fd, JSON.stringify(line) + '\n');
+  }
+
+  close(): void {
+    if (this.fd !== null) {
+      fs.closeSync(this.fd);
+      this.fd = null;
+    }
+  }
+
+  getPath(): string {
+    return this.ledgerPath;
+  }
+}
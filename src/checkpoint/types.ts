@@ -22,17 +22,50 @@ export interface ChunkMetadata {
   chunkId: number; // 0-indexed
   startRow: number; // 1-indexed (first data row = 1)
   endRow: number; // 1-indexed, inclusive
+  startByte?: number; // Byte offset of startRow (absent in checkpoints created without a pre-scan)
+  endByte?: number; // Byte offset just past endRow, exclusive
   status: 'pending' | 'completed' | 'failed';
   successes: number;
   failures: number;
   membershipsCreated: number;
   usersCreated: number;
+  usersUpdated?: number;
+  usersSkipped?: number;
+  usersDeleted?: number;
   duplicateUsers: number;
   duplicateMemberships: number;
   rolesAssigned?: number;
   startedAt?: number; // timestamp (ms)
   completedAt?: number; // timestamp (ms)
   durationMs?: number;
+  attempts?: number; // Failed attempts so far (worker mode retries)
+  lastError?: string; // Error from the most recent failed attempt
+}
+
+/**
+ * Where a row got to in a chunk attempt:
+ * - user_done: user created/resolved, membership and roles still pending
+ * - completed: row finished (counted as a success)
+ * - failed: row failed after user_done (user rolled back); rerun from scratch
+ */
+export type RowStatus = 'user_done' | 'completed' | 'failed';
+
+/**
+ * One line of a chunk's row ledger (rows/chunk-{id}.jsonl in the checkpoint
+ * directory). The latest entry for a record number wins.
+ */
+export interface RowLedgerEntry {
+  recordNumber: number;
+  status: RowStatus;
+  email?: string;
+  userId?: string;
+  /** What the user step did, replayed into the chunk summary on resume */
+  user?: 'created' | 'updated' | 'skipped' | 'duplicate' | 'deleted';
+  orgId?: string;
+  membershipId?: string;
+  membership?: 'created' | 'duplicate';
+  rolesAssigned?: number;
+  recordedAt: string; // ISO 8601
 }
 
 export interface CheckpointSummary {
@@ -41,6 +74,9 @@ export interface CheckpointSummary {
   failures: number;
   membershipsCreated: number;
   usersCreated: number;
+  usersUpdated?: number;
+  usersSkipped?: number;
+  usersDeleted?: number;
   duplicateUsers: number;
   duplicateMemberships: number;
   rolesAssigned?: number;
@@ -76,6 +112,7 @@ export interface CreateCheckpointOptions {
   mode: 'single-org' | 'multi-org' | 'user-only';
   orgId?: string | null;
   checkpointDir?: string;
+  chunkOffsets?: number[]; // From scanChunkOffsets(); lets chunks seek instead of re-parsing
 }
 
 export interface ChunkSummary {
@@ -83,6 +120,9 @@ export interface ChunkSummary {
   failures: number;
   membershipsCreated: number;
   usersCreated: number;
+  usersUpdated: number;
+  usersSkipped: number;
+  usersDeleted: number;
   duplicateUsers: number;
   duplicateMemberships: number;
   rolesAssigned: number;
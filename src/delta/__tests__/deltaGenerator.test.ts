@@ -0,0 +1,251 @@
+/**
+ * Delta Sync Tests
+ *
+ * Snapshot comparison, delta CSV output, and importer handling of the action column.
+ *
+ * Run with: npx tsx src/delta/__tests__/deltaGenerator.test.ts
+ */
+
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import path from "node:path";
+import { parse } from "csv-parse/sync";
+
+// Set env before any imports that use getWorkOSClient
+process.env.WORKOS_SECRET_KEY = "sk_test_fake_key_for_tests";
+
+const TEMP_DIR = path.join(process.cwd(), ".temp-delta-tests");
+
+/**
+ * Fake WorkOS: `existing` maps email → user ID for users that already exist
+ */
+function createMockWorkOS(existing: Record<string, string>) {
+  const calls: string[] = [];
+  return {
+    calls,
+    userManagement: {
+      createUser: async (payload: { email: string }) => {
+        if (existing[payload.email]) {
+          const err: any = new Error("Email already exists");
+          err.status = 409;
+          throw err;
+        }
+        calls.push(`create:${payload.email}`);
+        return { id: `user_${payload.email}` };
+      },
+      listUsers: async ({ email }: { email: string }) => ({
+        data: existing[email] ? [{ id: existing[email] }] : []
+      }),
+      updateUser: async ({ userId }: { userId: string }) => {
+        calls.push(`update:${userId}`);
+        return { id: userId };
+      },
+      deleteUser: async (userId: string) => {
+        calls.push(`delete:${userId}`);
+      }
+    }
+  };
+}
+
+// --- Test Runner ---
+
+let passed = 0;
+let failed = 0;
+
+async function test(name: string, fn: () => Promise<void> | void) {
+  try {
+    await fn();
+    passed++;
+    console.log(`  ✓ ${name}`);
+  } catch (err: unknown) {
+    failed++;
+    console.log(`  ✗ ${name}`);
+    console.log(`    ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+import * as workosModule from "../../workos.js";
+
+const realClient = workosModule.getWorkOSClient() as never as Record<string, unknown>;
+const originalUserManagement = realClient.userManagement;
+
+const { describeExportScope, generateDelta } = await import("../deltaGenerator.js");
+const { acceptPendingSnapshot, loadSnapshot } = await import("../snapshot.js");
+const { importUsersFromCsv } = await import("../../importer.js");
+
+function readCsv(csvPath: string): Record<string, string>[] {
+  return parse(fs.readFileSync(csvPath, "utf8"), { columns: true }) as Record<string, string>[];
+}
+
+// --- Test Suite ---
+
+async function main() {
+  fs.mkdirSync(TEMP_DIR, { recursive: true });
+  const snapshotPath = path.join(TEMP_DIR, "export.snapshot.json");
+  const outputPath = path.join(TEMP_DIR, "delta.csv");
+
+  console.log("\nDelta Sync Tests");
+  console.log("================\n");
+
+  const firstExport = path.join(TEMP_DIR, "export-1.csv");
+  fs.writeFileSync(firstExport, [
+    "email,first_name,external_id,org_external_id",
+    "alice@acme.com,Alice,ext-alice,acme",
+    "alice@acme.com,Alice,ext-alice,beta",
+    "bob@acme.com,Bob,ext-bob,acme",
+    "carol@acme.com,Carol,ext-carol,acme",
+    "dave@acme.com,Dave,,acme"
+  ].join("\n"));
+
+  const secondExport = path.join(TEMP_DIR, "export-2.csv");
+  fs.writeFileSync(secondExport, [
+    "email,first_name,external_id,org_external_id",
+    "dave@acme.com,Dave,,acme",
+    "alice@acme.com,Alice,ext-alice,beta",
+    "alice@acme.com,Alice,ext-alice,acme",
+    "bob@acme.com,Robert,ext-bob,acme",
+    "bob@acme.com,Robert,ext-bob,gamma",
+    "erin@acme.com,Erin,ext-erin,acme"
+  ].join("\n"));
+
+  await test("first run saves a baseline snapshot and writes no delta", async () => {
+    const summary = await generateDelta({ csvPath: firstExport, snapshotPath, outputPath });
+    assert.equal(summary.baseline, true);
+    assert.equal(summary.totalUsers, 4, "Alice's two rows are one user");
+    assert.equal(fs.existsSync(outputPath), false);
+    assert.equal(Object.keys(loadSnapshot(snapshotPath)!.users).length, 4);
+  });
+
+  await test("emits created, changed and deleted users with an action column", async () => {
+    const summary = await generateDelta({
+      csvPath: secondExport, snapshotPath, outputPath, updateSnapshot: false, allowDeletes: true, maxDeletePercent: 50
+    });
+    assert.equal(summary.baseline, false);
+    assert.equal(summary.deletesWithheld, undefined);
+    assert.deepEqual(
+      [summary.created, summary.updated, summary.deleted, summary.unchanged],
+      [1, 1, 1, 2],
+      "Reordered rows (alice) and email-keyed rows (dave) are unchanged"
+    );
+
+    const rows = readCsv(outputPath);
+    assert.equal(Object.keys(rows[0]!)[0], "action");
+    assert.deepEqual(rows.map(r => `${r.action}:${r.email}`), [
+      "update:bob@acme.com",
+      "update:bob@acme.com",
+      "create:erin@acme.com",
+      "delete:carol@acme.com"
+    ]);
+    assert.equal(rows[3]!.external_id, "ext-carol");
+    assert.equal(rows[3]!.first_name, "", "Delete rows carry only the user key");
+  });
+
+  await test("updates the snapshot so the same export produces an empty delta", async () => {
+    assert.equal(loadSnapshot(snapshotPath)!.totalRows, 5, "--no-update-snapshot kept the baseline");
+    await generateDelta({ csvPath: secondExport, snapshotPath, outputPath });
+    const summary = await generateDelta({ csvPath: secondExport, snapshotPath, outputPath });
+    assert.equal(summary.deltaRows, 0);
+    assert.equal(summary.unchanged, 4);
+  });
+
+  await test("warns when an external_id's email changes", async () => {
+    const renamed = path.join(TEMP_DIR, "export-3.csv");
+    fs.writeFileSync(renamed, fs.readFileSync(secondExport, "utf8").replace("erin@acme.com", "erin@newco.com"));
+    const summary = await generateDelta({ csvPath: renamed, snapshotPath, outputPath, updateSnapshot: false });
+    assert.equal(summary.updated, 1);
+    assert.equal(summary.emailChanges, 1);
+    assert.match(summary.warnings[0]!, /erin@acme\.com to erin@newco\.com/);
+  });
+
+  await test("withholds deletes without --allow-deletes and keeps those users in the snapshot", async () => {
+    const snapshot = path.join(TEMP_DIR, "withheld.snapshot.json");
+    await generateDelta({ csvPath: firstExport, snapshotPath: snapshot, outputPath });
+    const summary = await generateDelta({ csvPath: secondExport, snapshotPath: snapshot, outputPath });
+    assert.equal(summary.deleted, 1);
+    assert.match(summary.deletesWithheld!, /--allow-deletes/);
+    assert.ok(!readCsv(outputPath).some(r => r.action === "delete"));
+    assert.ok(loadSnapshot(snapshot)!.users["ext-carol"], "carol stays in the baseline");
+    assert.ok(loadSnapshot(snapshot)!.users["ext-erin"], "The snapshot still advances");
+  });
+
+  await test("withholds deletes for a partial export, a changed scope or above the threshold", async () => {
+    const snapshot = path.join(TEMP_DIR, "partial.snapshot.json");
+    await generateDelta({ csvPath: firstExport, snapshotPath: snapshot, outputPath, scope: "groups=g1" });
+    const options = { csvPath: secondExport, snapshotPath: snapshot, outputPath, updateSnapshot: false, allowDeletes: true, maxDeletePercent: 50 };
+
+    const partial = await generateDelta({ ...options, scope: "groups=g1", failedSources: ["Engineering"] });
+    assert.match(partial.deletesWithheld!, /export is partial \(1 failed: Engineering\)/);
+    assert.ok(!readCsv(outputPath).some(r => r.action === "delete"));
+
+    const rescoped = await generateDelta({ ...options, scope: "groups=g2" });
+    assert.match(rescoped.deletesWithheld!, /scope \(groups=g2\) differs from the snapshot's \(groups=g1\)/);
+
+    const overCount = await generateDelta({ ...options, scope: "groups=g1", maxDeletes: 0 });
+    assert.match(overCount.deletesWithheld!, /1 deletions exceed --max-deletes 0/);
+
+    const overPercent = await generateDelta({ ...options, scope: "groups=g1", maxDeletePercent: 10 });
+    assert.match(overPercent.deletesWithheld!, /25\.0% of snapshot users/);
+
+    const allowed = await generateDelta({ ...options, scope: "groups=g1" });
+    assert.equal(allowed.deletesWithheld, undefined);
+    assert.deepEqual(readCsv(outputPath).filter(r => r.action === "delete").map(r => r.email), ["carol@acme.com"]);
+  });
+
+  await test("keeps the snapshot until a delta with deletes is accepted", async () => {
+    const snapshot = path.join(TEMP_DIR, "pending.snapshot.json");
+    await generateDelta({ csvPath: firstExport, snapshotPath: snapshot, outputPath });
+    const summary = await generateDelta({ csvPath: secondExport, snapshotPath: snapshot, outputPath, allowDeletes: true, maxDeletePercent: 50 });
+    assert.equal(summary.pendingSnapshotPath, `${snapshot}.pending`);
+    assert.equal(loadSnapshot(snapshot)!.totalRows, 5, "The baseline is unchanged");
+
+    acceptPendingSnapshot(snapshot);
+    assert.equal(loadSnapshot(snapshot)!.users["ext-carol"], undefined);
+    assert.equal(fs.existsSync(`${snapshot}.pending`), false);
+    assert.throws(() => acceptPendingSnapshot(snapshot), /No pending snapshot found/);
+  });
+
+  await test("describes exporter scopes independently of option order", () => {
+    assert.equal(describeExportScope({ groups: undefined, "include-deactivated": false }), undefined);
+    assert.equal(describeExportScope({ orgs: ["b", "a"], "use-metadata": true }), "orgs=a,b; use-metadata");
+  });
+
+  await test("importer creates, updates and deletes according to the action column", async () => {
+    const deltaCsv = path.join(TEMP_DIR, "apply.csv");
+    fs.writeFileSync(deltaCsv, [
+      "action,email,first_name,external_id",
+      "create,new@acme.com,New,ext-new",
+      "update,bob@acme.com,Robert,ext-bob",
+      "delete,carol@acme.com,,ext-carol",
+      "delete,gone@acme.com,,ext-gone",
+      "rename,x@acme.com,,"
+    ].join("\n"));
+
+    const mock = createMockWorkOS({ "bob@acme.com": "user_bob", "carol@acme.com": "user_carol" });
+    realClient.userManagement = mock.userManagement;
+    try {
+      const { summary, errors } = await importUsersFromCsv({ csvPath: deltaCsv, quiet: true, concurrency: 1 });
+      assert.deepEqual(mock.calls.sort(), ["create:new@acme.com", "delete:user_carol", "update:user_bob"]);
+      assert.equal(summary.usersCreated, 1);
+      assert.equal(summary.usersUpdated, 1, "Update rows patch existing users even with --on-conflict fail");
+      assert.equal(summary.usersDeleted, 1, "Missing users count as success but not as deleted");
+      assert.equal(summary.successes, 4);
+      assert.equal(errors.length, 1);
+      assert.match(errors[0]!.errorMessage, /Invalid action "rename"/);
+    } finally {
+      realClient.userManagement = originalUserManagement;
+    }
+  });
+
+  fs.rmSync(TEMP_DIR, { recursive: true, force: true });
+
+  console.log(`\nTests: ${passed} passed, ${failed} failed`);
+  if (failed > 0) {
+    process.exit(1);
+  }
+  process.exit(0);
+}
+
+main().catch((err) => {
+  console.error("Test runner error:", err);
+  process.exit(1);
+});
@@ -0,0 +1,197 @@
+/**
+ * Delta sync: delta CSV generator
+ *
+ * Compares a fresh export against the previous snapshot and writes only the
+ * rows that changed, tagged with an action column the importer understands:
+ * - create: user not in the snapshot (all of their rows)
+ * - update: user whose rows changed (all of their current rows)
+ * - delete: user in the snapshot but missing from the export (email + external_id only)
+ *
+ * Delete rows are only written with allowDeletes, for a complete export in the
+ * snapshot's scope, and below the deletion threshold: a partial export would
+ * otherwise delete real users. Withheld users stay in the snapshot, and a
+ * snapshot that drops deleted users is saved aside until the delta is imported.
+ */
+
+import fs from 'node:fs';
+import { parse } from 'csv-parse';
+import { stringify } from 'csv-stringify';
+import { calculateCsvHash } from '../checkpoint/csvUtils.js';
+import type { RowAction } from '../types.js';
+import {
+  ACTION_COLUMN,
+  getPendingSnapshotPath,
+  getUserKey,
+  hashCsvUsers,
+  loadSnapshot,
+  saveSnapshot,
+  toSnapshot
+} from './snapshot.js';
+import type { DeltaOptions, DeltaSnapshot, DeltaSummary } from './types.js';
+
+/** Default deletion threshold, as a percentage of snapshot users */
+export const DEFAULT_MAX_DELETE_PERCENT = 10;
+
+/**
+ * Describe an exporter's scope options (filters, inclusion flags) as a stable
+ * string for the snapshot; undefined when the export is unfiltered
+ */
+export function describeExportScope(options: Record<string, string | string[] | boolean | undefined>): string | undefined {
+  const parts: string[] = [];
+  for (const [name, value] of Object.entries(options).sort(([a], [b]) => a.localeCompare(b))) {
+    if (value === undefined || value === false || (Array.isArray(value) && value.length === 0)) continue;
+    if (value === true) parts.push(name);
+    else parts.push(`${name}=${Array.isArray(value) ? [...value].sort().join(',') : value}`);
+  }
+  return parts.length > 0 ? parts.join('; ') : undefined;
+}
+
+/**
+ * Why delete rows must not be written for this delta, or undefined if they may
+ */
+function getDeleteBlockReason(deleteCount: number, previous: DeltaSnapshot, options: DeltaOptions): string | undefined {
+  const { allowDeletes = false, maxDeletes, maxDeletePercent = DEFAULT_MAX_DELETE_PERCENT, scope, failedSources = [] } = options;
+
+  if (failedSources.length > 0) {
+    return `the export is partial (${failedSources.length} failed: ${failedSources.join(', ')})`;
+  }
+  if ((previous.scope ?? '') !== (scope ?? '')) {
+    return `the export scope (${scope || 'all'}) differs from the snapshot's (${previous.scope || 'all'}); re-create the snapshot to change it`;
+  }
+  if (!allowDeletes) {
+    return 'deletes require --allow-deletes';
+  }
+  if (maxDeletes !== undefined && deleteCount > maxDeletes) {
+    return `${deleteCount} deletions exceed --max-deletes ${maxDeletes}`;
+  }
+  const snapshotUsers = Object.keys(previous.users).length;
+  const percent = (deleteCount / snapshotUsers) * 100;
+  if (percent > maxDeletePercent) {
+    return `${deleteCount} deletions (${percent.toFixed(1)}% of snapshot users) exceed --max-delete-percent ${maxDeletePercent}`;
+  }
+  return undefined;
+}
+
+/**
+ * Generate a delta CSV from a fresh export and the stored snapshot.
+ * Without a snapshot, saves the export as the baseline and writes no delta.
+ */
+export async function generateDelta(options: DeltaOptions): Promise<DeltaSummary> {
+  const { csvPath, snapshotPath, outputPath, updateSnapshot = true } = options;
+
+  if (!fs.existsSync(csvPath)) {
+    throw new Error(`CSV file not found: ${csvPath}`);
+  }
+
+  const previous = loadSnapshot(snapshotPath);
+  const current = await hashCsvUsers(csvPath);
+  const csvHash = await calculateCsvHash(csvPath);
+
+  const summary: DeltaSummary = {
+    baseline: previous === null,
+    totalRows: current.totalRows,
+    totalUsers: current.users.size,
+    created: 0,
+    updated: 0,
+    deleted: 0,
+    unchanged: 0,
+    deltaRows: 0,
+    skippedRows: current.skippedRows,
+    emailChanges: 0,
+    warnings: [],
+    snapshotPath
+  };
+
+  if (current.skippedRows > 0) {
+    summary.warnings.push(`${current.skippedRows} row(s) have neither email nor external_id and were ignored`);
+  }
+
+  if (previous) {
+    // Classify every current user against the snapshot
+    const actions = new Map<string, RowAction>();
+    for (const [key, entry] of current.users) {
+      const before = previous.users[key];
+      if (!before) {
+        actions.set(key, 'create');
+        summary.created += 1;
+      } else if (before.hash !== entry.hash) {
+        actions.set(key, 'update');
+        summary.updated += 1;
+        if (before.email.toLowerCase() !== entry.email.toLowerCase()) {
+          // The importer matches existing users by email, so this would create a second user
+          summary.emailChanges += 1;
+          summary.warnings.push(`external_id ${key}: email changed from ${before.email} to ${entry.email} (review manually)`);
+        }
+      } else {
+        summary.unchanged += 1;
+      }
+    }
+
+    const deletions = Object.entries(previous.users).filter(([key]) => !current.users.has(key));
+    summary.deleted = deletions.length;
+    if (deletions.length > 0) {
+      summary.deletesWithheld = getDeleteBlockReason(deletions.length, previous, options);
+      if (summary.deletesWithheld) {
+        summary.warnings.push(`${deletions.length} user(s) missing from the export were not deleted: ${summary.deletesWithheld}`);
+      }
+    }
+
+    const columns = [ACTION_COLUMN, ...current.headers.filter(h => h !== ACTION_COLUMN)];
+    if (!columns.includes('external_id')) columns.push('external_id');
+
+    const output = fs.createWriteStream(outputPath);
+    const stringifier = stringify({ header: true, columns });
+    stringifier.pipe(output);
+    const finished = new Promise<void>((resolve, reject) => {
+      output.on('finish', () => resolve());
+      output.on('error', reject);
+    });
+
+    // Second pass: copy changed rows in their original order
+    const parser = fs.createReadStream(csvPath).pipe(parse({
+      columns: true,
+      bom: true,
+      skip_empty_lines: true,
+      trim: true
+    }));
+    for await (const row of parser as AsyncIterable<Record<string, string>>) {
+      const key = getUserKey(row);
+      const action = key ? actions.get(key) : undefined;
+      if (action) {
+        stringifier.write({ ...row, [ACTION_COLUMN]: action });
+        summary.deltaRows += 1;
+      }
+    }
+
+    if (!summary.deletesWithheld) {
+      for (const [, entry] of deletions) {
+        stringifier.write({ [ACTION_COLUMN]: 'delete', email: entry.email, external_id: entry.externalId ?? '' });
+        summary.deltaRows += 1;
+      }
+    }
+
+    stringifier.end();
+    await finished;
+    summary.outputPath = outputPath;
+
+    if (updateSnapshot) {
+      const users = new Map(current.users);
+      if (summary.deletesWithheld) {
+        // Keep withheld users in the baseline so a later complete export still sees them as removed
+        for (const [key, entry] of deletions) users.set(key, entry);
+      }
+      const next = toSnapshot(csvPath, csvHash, current.totalRows, users, previous.scope);
+      if (deletions.length > 0 && !summary.deletesWithheld) {
+        // Deleted users leave the baseline only once the delta has been imported
+        summary.pendingSnapshotPath = getPendingSnapshotPath(snapshotPath);
+        saveSnapshot(summary.pendingSnapshotPath, next);
+      } else {
+        saveSnapshot(snapshotPath, next);
+      }
+    }
+  } else {
+    saveSnapshot(snapshotPath, toSnapshot(csvPath, csvHash, current.totalRows, current.users, options.scope));
+  }
+
+  return summary;
+}
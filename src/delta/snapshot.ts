@@ -0,0 +1,159 @@
+/**
+ * Delta sync: export snapshots
+ *
+ * A snapshot records one combined hash per user (all of their rows, so
+ * multi-org exports with several rows per user compare as a unit).
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import crypto from 'node:crypto';
+import { parse } from 'csv-parse';
+import { calculateCsvHash, calculateRowHash } from '../checkpoint/csvUtils.js';
+import { SNAPSHOT_VERSION, type DeltaSnapshot, type SnapshotEntry } from './types.js';
+
+/** Column excluded from row hashes so a delta CSV hashes like its source export */
+export const ACTION_COLUMN = 'action';
+
+/**
+ * Snapshot key for a row: external_id, falling back to the lowercased email.
+ * Returns null for rows with neither.
+ */
+export function getUserKey(row: Record<string, unknown>): string | null {
+  const externalId = typeof row.external_id === 'string' ? row.external_id.trim() : '';
+  if (externalId) return externalId;
+  const email = typeof row.email === 'string' ? row.email.trim().toLowerCase() : '';
+  return email ? `email:${email}` : null;
+}
+
+/**
+ * Stream a CSV and return one snapshot entry per user key, plus the header row.
+ * Row hashes are combined order-independently, so reordered exports do not show as changes.
+ */
+export async function hashCsvUsers(csvPath: string): Promise<{
+  users: Map<string, SnapshotEntry>;
+  headers: string[];
+  totalRows: number;
+  skippedRows: number;
+}> {
+  const rowHashes = new Map<string, { hashes: string[]; email: string; externalId?: string }>();
+  let headers: string[] = [];
+  let totalRows = 0;
+  let skippedRows = 0;
+
+  const parser = fs.createReadStream(csvPath).pipe(parse({
+    columns: (header: string[]) => {
+      headers = header;
+      return header;
+    },
+    bom: true,
+    skip_empty_lines: true,
+    trim: true
+  }));
+
+  for await (const row of parser as AsyncIterable<Record<string, string>>) {
+    totalRows += 1;
+    const key = getUserKey(row);
+    if (!key) {
+      skippedRows += 1;
+      continue;
+    }
+
+    let entry = rowHashes.get(key);
+    if (!entry) {
+      entry = { hashes: [], email: (row.email ?? '').trim(), externalId: row.external_id?.trim() || undefined };
+      rowHashes.set(key, entry);
+    }
+    entry.hashes.push(calculateRowHash(row, [ACTION_COLUMN]));
+  }
+
+  const users = new Map<string, SnapshotEntry>();
+  for (const [key, entry] of rowHashes) {
+    users.set(key, { hash: combineRowHashes(entry.hashes), email: entry.email, externalId: entry.externalId });
+  }
+
+  return { users, headers, totalRows, skippedRows };
+}
+
+/**
+ * Build a snapshot of a CSV export
+ */
+export async function createSnapshot(csvPath: string, scope?: string): Promise<DeltaSnapshot> {
+  const { users, totalRows } = await hashCsvUsers(csvPath);
+  return toSnapshot(csvPath, await calculateCsvHash(csvPath), totalRows, users, scope);
+}
+
+export function toSnapshot(
+  csvPath: string,
+  csvHash: string,
+  totalRows: number,
+  users: Map<string, SnapshotEntry>,
+  scope?: string
+): DeltaSnapshot {
+  return {
+    version: SNAPSHOT_VERSION,
+    createdAt: new Date().toISOString(),
+    csvPath: path.resolve(csvPath),
+    csvHash,
+    totalRows,
+    ...(scope ? { scope } : {}),
+    users: Object.fromEntries(users)
+  };
+}
+
+/**
+ * Where the next snapshot waits while a delta with delete rows is being imported
+ */
+export function getPendingSnapshotPath(snapshotPath: string): string {
+  return `${snapshotPath}.pending`;
+}
+
+/**
+ * Replace the snapshot with its pending successor
+ *
+ * @throws Error if there is no pending snapshot
+ */
+export function acceptPendingSnapshot(snapshotPath: string): void {
+  const pendingPath = getPendingSnapshotPath(snapshotPath);
+  if (!fs.existsSync(pendingPath)) {
+    throw new Error(`No pending snapshot found: ${pendingPath}`);
+  }
+  fs.renameSync(pendingPath, snapshotPath);
+}
+
+/**
+ * Load a snapshot, or null if the file does not exist
+ */
+export function loadSnapshot(snapshotPath: string): DeltaSnapshot | null {
+  if (!fs.existsSync(snapshotPath)) {
+    return null;
+  }
+
+  const snapshot = JSON.parse(fs.readFileSync(snapshotPath, 'utf-8')) as DeltaSnapshot;
+  if (snapshot.version !== SNAPSHOT_VERSION || typeof snapshot.users !== 'object') {
+    throw new Error(`Unsupported snapshot format in ${snapshotPath} (expected version ${SNAPSHOT_VERSION})`);
+  }
+  return snapshot;
+}
+
+/**
+ * Save a snapshot atomically (write temp file, then rename)
+ */
+export function saveSnapshot(snapshotPath: string, snapshot: DeltaSnapshot): void {
+  const dir = path.dirname(snapshotPath);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+  const tempPath = `${snapshotPath}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(snapshot), 'utf-8');
+  fs.renameSync(tempPath, snapshotPath);
+}
+
+function combineRowHashes(hashes: string[]): string {
+  if (hashes.length === 1) return hashes[0]!;
+  const hash = crypto.createHash('sha256');
+  for (const rowHash of [...hashes].sort()) {
+    hash.update(rowHash);
+  }
+  return hash.digest('hex');
+}
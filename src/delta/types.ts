@@ -0,0 +1,80 @@
+/**
+ * Delta sync: type definitions
+ *
+ * Compares a fresh export against a stored snapshot and emits only the rows
+ * that were created, changed or deleted since the snapshot was taken.
+ */
+
+export const SNAPSHOT_VERSION = 1;
+
+/**
+ * Stored state of one user (all of their CSV rows) at snapshot time
+ */
+export interface SnapshotEntry {
+  /** Combined hash of every row for this user */
+  hash: string;
+  email: string;
+  externalId?: string;
+}
+
+/**
+ * Snapshot of an export, keyed by external_id (email:<address> when blank)
+ */
+export interface DeltaSnapshot {
+  version: number;
+  createdAt: string;
+  csvPath: string;
+  csvHash: string;
+  totalRows: number;
+  /** Export scope at baseline time (e.g. the group/organization filter) */
+  scope?: string;
+  users: Record<string, SnapshotEntry>;
+}
+
+export interface DeltaOptions {
+  /** Fresh export to compare */
+  csvPath: string;
+  /** Snapshot from the previous export (created as a baseline when missing) */
+  snapshotPath: string;
+  /** Delta CSV path (rows tagged with an action column) */
+  outputPath: string;
+  /** Replace the snapshot with the fresh export afterwards (default: true) */
+  updateSnapshot?: boolean;
+  /** Write delete rows for users missing from the export (default: false, they are only reported) */
+  allowDeletes?: boolean;
+  /** Withhold all delete rows when more users than this would be deleted */
+  maxDeletes?: number;
+  /** Withhold all delete rows when more than this percentage of snapshot users would be deleted (default: 10) */
+  maxDeletePercent?: number;
+  /** Export scope (e.g. the group/organization filter); deletes are withheld when it differs from the snapshot's */
+  scope?: string;
+  /** Groups/organizations that failed to export; deletes are withheld for a partial export */
+  failedSources?: string[];
+}
+
+export interface DeltaSummary {
+  /** No snapshot existed: one was saved and no delta CSV was written */
+  baseline: boolean;
+  /** Data rows in the fresh export */
+  totalRows: number;
+  /** Distinct users in the fresh export */
+  totalUsers: number;
+  created: number;
+  updated: number;
+  /** Snapshot users missing from the export */
+  deleted: number;
+  unchanged: number;
+  /** Why delete rows were not written for the missing users (unset when they were written) */
+  deletesWithheld?: string;
+  /** Rows written to the delta CSV */
+  deltaRows: number;
+  /** Rows with neither email nor external_id (cannot be keyed) */
+  skippedRows: number;
+  /** Users whose email changed for the same external_id (need manual review) */
+  emailChanges: number;
+  warnings: string[];
+  outputPath?: string;
+  snapshotPath: string;
+  /** Next snapshot, saved aside because delete rows were written (accept it once the delta is imported) */
+  pendingSnapshotPath?: string;
+}
@@ -1,6 +1,7 @@
 import fs from "node:fs";
 import path from "node:path";
 import { ErrorRecord } from "./types.js";
+import { redactErrorRecord, type RedactionPolicy } from "./redaction.js";
 
 function escapeCsvValue(value: string): string {
   const needsQuotes = /[,"\n]/.test(value);
@@ -8,8 +9,9 @@ function escapeCsvValue(value: string): string {
   return needsQuotes ? `"${escaped}"` : escaped;
 }
 
-export async function writeErrorsOut(outPath: string, errors: ErrorRecord[]): Promise<void> {
+export async function writeErrorsOut(outPath: string, errors: ErrorRecord[], redaction?: RedactionPolicy): Promise<void> {
   if (errors.length === 0) return;
+  errors = errors.map(err => redactErrorRecord(err, redaction));
   const ext = path.extname(outPath).toLowerCase();
   if (ext === ".csv") {
     const header = ["recordNumber", "email", "userId", "errorType", "errorMessage", "httpStatus", "workosCode", "workosRequestId", "timestamp", "rawRow"];
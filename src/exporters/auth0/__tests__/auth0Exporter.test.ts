@@ -0,0 +1,184 @@
+/**
+ * Tests for Auth0 exporter org and role outputs
+ *
+ * The exporter's Auth0Client is replaced with an in-memory stand-in; the
+ * org definitions, role definitions and user-role mapping files it writes
+ * are read back with the importer's own parsers.
+ *
+ * Usage: npx tsx src/exporters/auth0/__tests__/auth0Exporter.test.ts
+ */
+
+import { strict as assert } from 'node:assert';
+import { mkdirSync, rmSync, readFileSync, existsSync } from 'node:fs';
+import path from 'node:path';
+import type { Auth0Organization, Auth0Role, Auth0User, Auth0Credentials } from '../../types.js';
+import { Auth0Exporter } from '../auth0Exporter.js';
+import { auth0RoleNameToSlug, mapAuth0OrgToDefinition } from '../auth0Mapper.js';
+import { parseOrgDefinitionsCsv } from '../../../organizations/orgDefinitionsCsvParser.js';
+import { parseRoleDefinitionsCsv } from '../../../roles/roleDefinitionsCsvParser.js';
+import { parseUserRoleMapping } from '../../../roles/userRoleMappingParser.js';
+
+const TEST_DIR = path.join(process.cwd(), '.temp-auth0-export-tests');
+
+const ORGS: Auth0Organization[] = [
+  { id: 'org_acme', name: 'acme', display_name: 'Acme Corp', metadata: { domains: 'acme.com:verified', tier: 'gold' } },
+  { id: 'org_beta', name: 'beta' }
+];
+
+const USERS: Record<string, Auth0User> = {
+  'auth0|alice': { user_id: 'auth0|alice', email: 'alice@acme.com', created_at: '', updated_at: '' },
+  'auth0|bob': { user_id: 'auth0|bob', email: 'bob@beta.com', created_at: '', updated_at: '' }
+};
+
+const MEMBERS: Record<string, string[]> = {
+  org_acme: ['auth0|alice'],
+  org_beta: ['auth0|alice', 'auth0|bob']
+};
+
+const ROLES: Auth0Role[] = [
+  { id: 'rol_admin', name: 'Billing Admin' },
+  { id: 'rol_admin_2', name: 'billing admin!' },
+  { id: 'rol_viewer', name: 'Viewer' }
+];
+
+const ROLE_PERMISSIONS: Record<string, string[]> = {
+  rol_admin: ['read:invoices', 'write:invoices', 'read:invoices'],
+  rol_viewer: ['read:reports']
+};
+
+const MEMBER_ROLES: Record<string, string[]> = {
+  'org_acme/auth0|alice': ['rol_admin'],
+  'org_beta/auth0|alice': ['rol_admin', 'rol_viewer'],
+  'org_beta/auth0|bob': ['rol_unknown']
+};
+
+/** In-memory stand-in for Auth0Client (single page of everything) */
+function createFakeClient(options: { failMemberRolesFor?: string } = {}) {
+  return {
+    async getOrganizations(page: number) {
+      return page === 0 ? ORGS : [];
+    },
+    async getOrganizationMembers(orgId: string, page: number) {
+      return page === 0 ? (MEMBERS[orgId] ?? []).map(id => ({ ...USERS[id]! })) : [];
+    },
+    async getUser(userId: string) {
+      return USERS[userId] ?? null;
+    },
+    async getOrganizationMemberRoles(orgId: string, userId: string) {
+      if (userId === options.failMemberRolesFor) {
+        throw new Error('Insufficient scope');
+      }
+      return (MEMBER_ROLES[`${orgId}/${userId}`] ?? []).map(id => ({ id, name: id }));
+    },
+    async getRoles(page: number) {
+      return page === 0 ? ROLES : [];
+    },
+    async getRolePermissions(roleId: string, page: number) {
+      return page === 0 ? (ROLE_PERMISSIONS[roleId] ?? []) : [];
+    },
+    stop() {}
+  };
+}
+
+function createExporter(outputPath: string, exportRoles: boolean, client = createFakeClient()) {
+  const credentials: Auth0Credentials = {
+    type: 'auth0',
+    domain: 'tenant.example.com',
+    clientId: 'client',
+    clientSecret: 'secret'
+  };
+  const exporter = new Auth0Exporter({ credentials, outputPath, quiet: true, exportRoles });
+  (exporter as any).client.stop();
+  (exporter as any).client = client;
+  return exporter;
+}
+
+async function runTests() {
+  mkdirSync(TEST_DIR, { recursive: true });
+  let passed = 0;
+  let failed = 0;
+
+  async function test(name: string, fn: () => Promise<void> | void) {
+    try {
+      await fn();
+      console.log(`  ✓ ${name}`);
+      passed++;
+    } catch (err: any) {
+      console.log(`  ✗ ${name}`);
+      console.log(`    ${err.message}`);
+      failed++;
+    }
+  }
+
+  console.log('Auth0 Exporter org and role output tests\n');
+
+  await test('maps orgs to definitions and role names to slugs', () => {
+    assert.deepStrictEqual(mapAuth0OrgToDefinition(ORGS[0]!), {
+      org_external_id: 'org_acme',
+      org_name: 'Acme Corp',
+      org_domains: 'acme.com:verified',
+      metadata: '{"tier":"gold"}'
+    });
+    assert.strictEqual(mapAuth0OrgToDefinition(ORGS[1]!).metadata, undefined);
+    assert.strictEqual(auth0RoleNameToSlug('  Billing Admin (EU) '), 'billing-admin-eu');
+  });
+
+  await test('writes org definitions without --export-roles', async () => {
+    const outputPath = path.join(TEST_DIR, 'no-roles.csv');
+    const result = await createExporter(outputPath, false).export();
+
+    assert.strictEqual(result.summary.totalUsers, 3);
+    assert.strictEqual(result.additionalOutputs?.orgDefinitionsPath, path.join(TEST_DIR, 'no-roles-org-definitions.csv'));
+    assert.strictEqual(result.additionalOutputs?.roleDefinitionsPath, undefined);
+    assert.ok(!existsSync(path.join(TEST_DIR, 'no-roles-user-role-mapping.csv')));
+
+    const { definitions, errors } = await parseOrgDefinitionsCsv(result.additionalOutputs!.orgDefinitionsPath!);
+    assert.deepStrictEqual(errors, []);
+    assert.deepStrictEqual(definitions.map(d => `${d.externalId}:${d.name}`), ['org_acme:Acme Corp', 'org_beta:beta']);
+    assert.deepStrictEqual(definitions[0]!.domains, [{ domain: 'acme.com', state: 'verified' }]);
+    assert.deepStrictEqual(definitions[0]!.metadata, { tier: 'gold' });
+  });
+
+  await test('exports role definitions and user-role mapping readable by the importer', async () => {
+    const outputPath = path.join(TEST_DIR, 'roles.csv');
+    const result = await createExporter(outputPath, true).export();
+
+    const roles = await parseRoleDefinitionsCsv(result.additionalOutputs!.roleDefinitionsPath!);
+    assert.deepStrictEqual(roles.errors, []);
+    assert.deepStrictEqual(roles.warnings, []);
+    assert.deepStrictEqual(
+      roles.definitions.map(d => `${d.slug}|${d.name}|${d.type}|${d.permissions.join(' ')}`),
+      [
+        'billing-admin|Billing Admin|environment|read:invoices write:invoices',
+        'billing-admin-2|billing admin!|environment|',
+        'viewer|Viewer|environment|read:reports'
+      ]
+    );
+    assert.ok(result.warnings.some(w => w.includes('exported as "billing-admin-2"')));
+
+    const mapping = await parseUserRoleMapping({ csvPath: result.additionalOutputs!.userRoleMappingPath!, quiet: true });
+    assert.deepStrictEqual(mapping.warnings, [], 'A role held in two orgs is written once');
+    assert.deepStrictEqual(mapping.mapping.get('auth0|alice'), ['billing-admin', 'viewer']);
+    assert.strictEqual(mapping.mapping.has('auth0|bob'), false, 'Roles missing from the definitions are skipped');
+  });
+
+  await test('exports the user when member roles cannot be fetched', async () => {
+    const outputPath = path.join(TEST_DIR, 'role-failure.csv');
+    const result = await createExporter(outputPath, true, createFakeClient({ failMemberRolesFor: 'auth0|alice' })).export();
+
+    assert.strictEqual(result.summary.totalUsers, 3);
+    assert.strictEqual(result.warnings.filter(w => w.startsWith('Could not export roles for user auth0|alice')).length, 2);
+    const lines = readFileSync(result.additionalOutputs!.userRoleMappingPath!, 'utf8').trim().split('\n');
+    assert.deepStrictEqual(lines, ['external_id,role_slug']);
+  });
+
+  rmSync(TEST_DIR, { recursive: true, force: true });
+
+  console.log(`\n${passed} passed, ${failed} failed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+runTests().catch(err => {
+  console.error('Test runner error:', err);
+  process.exit(1);
+});
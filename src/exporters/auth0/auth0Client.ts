@@ -4,7 +4,7 @@
  */
 
 import { ManagementClient } from 'auth0';
-import type { Auth0Credentials, Auth0User, Auth0Organization } from '../types.js';
+import type { Auth0Credentials, Auth0User, Auth0Organization, Auth0Role } from '../types.js';
 import { RateLimiter } from '../../rateLimiter.js';
 
 export class Auth0Client {
@@ -255,6 +255,103 @@ export class Auth0Client {
     }
   }
 
+  /**
+   * Get the roles a member has in an organization
+   * @param orgId Organization ID
+   * @param userId Member user ID
+   */
+  async getOrganizationMemberRoles(
+    orgId: string,
+    userId: string
+  ): Promise<Auth0Role[]> {
+    try {
+      const response = await this.retryWithRateLimit(async () => {
+        return await this.client.organizations.getMemberRoles({
+          id: orgId,
+          user_id: userId,
+          per_page: 100
+        });
+      });
+
+      const roles = Array.isArray(response) ? response : (response as any).data || [];
+
+      return roles.map((role: any) => ({
+        id: role.id,
+        name: role.name,
+        description: role.description
+      }));
+    } catch (error: any) {
+      if (error.statusCode === 404) {
+        return [];
+      }
+
+      throw new Error(
+        `Failed to fetch roles for member ${userId} of organization ${orgId}: ${error.message || String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Get roles with pagination
+   * @param page Page number (0-indexed)
+   * @param perPage Items per page (default: 100, max: 100)
+   */
+  async getRoles(
+    page: number = 0,
+    perPage: number = 100
+  ): Promise<Auth0Role[]> {
+    try {
+      const response = await this.retryWithRateLimit(async () => {
+        return await this.client.roles.getAll({
+          page,
+          per_page: perPage
+        });
+      });
+
+      const roles = Array.isArray(response) ? response : (response as any).data || [];
+
+      return roles.map((role: any) => ({
+        id: role.id,
+        name: role.name,
+        description: role.description
+      }));
+    } catch (error: any) {
+      throw new Error(
+        `Failed to fetch roles from Auth0: ${error.message || String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Get the permission names of a role with pagination
+   * @param roleId Role ID
+   * @param page Page number (0-indexed)
+   * @param perPage Items per page (default: 100, max: 100)
+   */
+  async getRolePermissions(
+    roleId: string,
+    page: number = 0,
+    perPage: number = 100
+  ): Promise<string[]> {
+    try {
+      const response = await this.retryWithRateLimit(async () => {
+        return await this.client.roles.getPermissions({
+          id: roleId,
+          page,
+          per_page: perPage
+        });
+      });
+
+      const permissions = Array.isArray(response) ? response : (response as any).data || [];
+
+      return permissions.map((permission: any) => permission.permission_name);
+    } catch (error: any) {
+      throw new Error(
+        `Failed to fetch permissions for role ${roleId}: ${error.message || String(error)}`
+      );
+    }
+  }
+
   /**
    * Get all users (not organization-specific)
    * Useful for exports without organization context
@@ -10,13 +10,42 @@ import fs from 'node:fs';
 import type {
   ExporterConfig,
   ExportResult,
+  ExportAdditionalOutputs,
   Auth0Credentials,
+  Auth0Organization,
   BaseExporter
 } from '../types.js';
 import { Auth0Client } from './auth0Client.js';
-import { mapAuth0UserToWorkOS, validateMappedRow } from './auth0Mapper.js';
+import {
+  auth0RoleNameToSlug,
+  mapAuth0OrgToDefinition,
+  mapAuth0RoleToDefinition,
+  mapAuth0UserToWorkOS,
+  validateMappedRow
+} from './auth0Mapper.js';
 import { ExportCheckpointManager } from '../checkpoint/exportCheckpointManager.js';
 import { ExportProgressUI } from '../../ui/exportProgressUI.js';
+import { EXPORT_CSV_COLUMNS, formatCsvHeader, formatCsvRow } from '../csvOutput.js';
+
+/**
+ * Auth0 CSV columns: standard export columns plus domains from org metadata
+ */
+export const AUTH0_CSV_COLUMNS = [...EXPORT_CSV_COLUMNS, 'org_domains'] as const;
+
+/**
+ * Org definitions CSV columns (input to workos-import-orgs / --org-definitions)
+ */
+export const ORG_DEFINITIONS_CSV_COLUMNS = ['org_external_id', 'org_name', 'org_domains', 'metadata'] as const;
+
+/**
+ * Role definitions CSV columns (input to process-role-definitions)
+ */
+export const ROLE_DEFINITIONS_CSV_COLUMNS = ['role_slug', 'role_name', 'role_type', 'permissions'] as const;
+
+/**
+ * User-role mapping CSV columns (input to import-users --role-mapping)
+ */
+export const USER_ROLE_MAPPING_CSV_COLUMNS = ['external_id', 'role_slug'] as const;
 
 export class Auth0Exporter implements BaseExporter {
   private client: Auth0Client;
@@ -24,7 +53,15 @@ export class Auth0Exporter implements BaseExporter {
   private checkpointManager?: ExportCheckpointManager;
   private progressUI: ExportProgressUI;
   private skippedUsersStream?: WriteStream;
+  private userRoleMappingStream?: WriteStream;
   private exportStartTime: number = 0;
+  private additionalOutputs: ExportAdditionalOutputs = {};
+  /** Auth0 role ID → WorkOS role slug (set when exporting roles) */
+  private roleSlugs?: Map<string, string>;
+  /** user_id + role slug pairs already written to the user-role mapping */
+  private exportedUserRoles = new Set<string>();
+  /** Organizations whose export failed in this run */
+  private failedOrganizations: string[] = [];
 
   constructor(config: ExporterConfig) {
     if (config.credentials.type !== 'auth0') {
@@ -95,6 +132,26 @@ export class Auth0Exporter implements BaseExporter {
         this.writeHeader(writeStream);
       }
 
+      // Roles are tenant-wide: export their definitions before any users
+      if (this.config.exportRoles) {
+        this.roleSlugs = await this.exportRoleDefinitions(warnings);
+
+        if (this.config.useMetadata) {
+          warnings.push('User-role mapping requires the Organizations API; only role definitions were exported');
+        } else {
+          const userRoleMappingPath = this.siblingPath('user-role-mapping.csv');
+          const appendMapping = writeMode && fs.existsSync(userRoleMappingPath);
+          this.userRoleMappingStream = createWriteStream(userRoleMappingPath, {
+            encoding: 'utf-8',
+            flags: appendMapping ? 'a' : 'w'
+          });
+          if (!appendMapping) {
+            this.userRoleMappingStream.write(formatCsvHeader(USER_ROLE_MAPPING_CSV_COLUMNS));
+          }
+          this.additionalOutputs.userRoleMappingPath = userRoleMappingPath;
+        }
+      }
+
       // Choose export mode: metadata-based or organization-based
       const exportStats = this.config.useMetadata
         ? await this.exportUsersWithMetadata(writeStream, warnings)
@@ -112,6 +169,10 @@ export class Auth0Exporter implements BaseExporter {
         await this.closeStream(this.skippedUsersStream);
       }
 
+      if (this.userRoleMappingStream) {
+        await this.closeStream(this.userRoleMappingStream);
+      }
+
       // Mark checkpoint as completed
       if (this.checkpointManager) {
         await this.checkpointManager.complete();
@@ -145,21 +206,31 @@ export class Auth0Exporter implements BaseExporter {
         console.log(`\nℹ Skipped users logged to: ${skippedUsersPath}`);
       }
 
+      if (!this.config.quiet) {
+        const { orgDefinitionsPath, roleDefinitionsPath, userRoleMappingPath } = this.additionalOutputs;
+        if (orgDefinitionsPath) console.log(`ℹ Org definitions written to: ${orgDefinitionsPath}`);
+        if (roleDefinitionsPath) console.log(`ℹ Role definitions written to: ${roleDefinitionsPath}`);
+        if (userRoleMappingPath) console.log(`ℹ User-role mapping written to: ${userRoleMappingPath}`);
+      }
+
       return {
         outputPath: this.config.outputPath,
         summary: {
           totalUsers,
           totalOrgs,
           skippedUsers,
+          failedOrganizations: this.failedOrganizations,
           startedAt: startTime,
           endedAt: endTime,
           durationMs: duration
         },
-        warnings
+        warnings,
+        additionalOutputs: this.additionalOutputs
       };
     } catch (error: any) {
       // Ensure stream is closed on error
       writeStream.end();
+      this.userRoleMappingStream?.end();
 
       // Mark checkpoint as failed
       if (this.checkpointManager) {
@@ -216,6 +287,12 @@ export class Auth0Exporter implements BaseExporter {
 
     this.progressUI.logInfo(`Found ${totalOrgs} organizations`);
 
+    this.writeOrgDefinitions(
+      this.config.organizationFilter
+        ? organizations.filter(org => this.config.organizationFilter!.includes(org.id))
+        : organizations
+    );
+
     // Step 1.5: Create checkpoint if jobId provided and not resuming
     if (this.config.jobId && !this.checkpointManager) {
       this.checkpointManager = await ExportCheckpointManager.create(
@@ -306,10 +383,25 @@ export class Auth0Exporter implements BaseExporter {
 
                 try {
                   const fullUser = await this.client.getUser(memberId);
+
+                  // Member roles are optional: a failure here still exports the user
+                  let roleIds: string[] = [];
+                  let roleError: string | undefined;
+                  if (this.roleSlugs && fullUser) {
+                    try {
+                      const roles = await this.client.getOrganizationMemberRoles(org.id, memberId);
+                      roleIds = roles.map(role => role.id);
+                    } catch (error: any) {
+                      roleError = error.message || String(error);
+                    }
+                  }
+
                   return {
                     success: true,
                     user: fullUser,
-                    memberId
+                    memberId,
+                    roleIds,
+                    roleError
                   };
                 } catch (error: any) {
                   return {
@@ -408,6 +500,14 @@ export class Auth0Exporter implements BaseExporter {
               totalUsers++;
               orgUserCount++;
 
+              if (fetchResult.roleError) {
+                warnings.push(
+                  `Could not export roles for user ${fullUser.user_id} in org ${org.name}: ${fetchResult.roleError}`
+                );
+              } else if (fetchResult.roleIds) {
+                this.writeUserRoles(fullUser.user_id, fetchResult.roleIds);
+              }
+
               // Progress callback every 100 users
               if (
                 this.config.onProgress &&
@@ -490,6 +590,7 @@ export class Auth0Exporter implements BaseExporter {
 
         const errorMsg = error.message || String(error);
         warnings.push(`Failed to export org ${org.name}: ${errorMsg}`);
+        this.failedOrganizations.push(org.name);
 
         // Log failure
         this.progressUI.logOrgFailed(org.name, errorMsg);
@@ -547,6 +648,7 @@ export class Auth0Exporter implements BaseExporter {
     let totalUsers = 0;
     let skippedUsers = 0;
     const orgSet = new Set<string>();
+    const orgNames = new Map<string, string>();
 
     this.progressUI.logInfo('Using metadata-based export (Organizations API not available)');
 
@@ -598,6 +700,9 @@ export class Auth0Exporter implements BaseExporter {
 
         // Track unique orgs
         orgSet.add(orgInfo.orgId);
+        if (!orgNames.has(orgInfo.orgId)) {
+          orgNames.set(orgInfo.orgId, orgInfo.orgName);
+        }
 
         // Map user to CSV row
         const { mapAuth0UserToWorkOS } = await import('./auth0Mapper.js');
@@ -655,80 +760,116 @@ export class Auth0Exporter implements BaseExporter {
       }
     }
 
+    this.writeOrgDefinitions(
+      [...orgNames].map(([id, name]) => ({ id, name }))
+    );
+
     return { totalUsers, totalOrgs: orgSet.size, skippedUsers };
   }
 
   /**
-   * Write CSV header
-   * Column order matches WorkOS import expectations
+   * Export Auth0 roles and their permissions as a role definitions CSV
+   * @returns Auth0 role ID → WorkOS role slug
    */
-  private writeHeader(writeStream: WriteStream): void {
-    const header = [
-      'email',
-      'first_name',
-      'last_name',
-      'email_verified',
-      'external_id',
-      'org_external_id',
-      'org_name',
-      'metadata'
-    ];
-
-    writeStream.write(header.join(',') + '\n');
-  }
+  private async exportRoleDefinitions(warnings: string[]): Promise<Map<string, string>> {
+    const pageSize = this.config.pageSize ?? 100;
+    const roles = [];
+    for (let page = 0; ; page++) {
+      const batch = await this.client.getRoles(page, pageSize);
+      roles.push(...batch);
+      if (batch.length < pageSize) break;
+    }
 
-  /**
-   * Write a CSV row
-   * Handles proper escaping of values
-   * Column order matches WorkOS import expectations
-   */
-  private writeRow(writeStream: WriteStream, row: any): void {
-    const columns = [
-      'email',
-      'first_name',
-      'last_name',
-      'email_verified',
-      'external_id',
-      'org_external_id',
-      'org_name',
-      'metadata'
-    ];
-
-    const values = columns.map(col => {
-      const value = row[col];
-
-      if (value === undefined || value === null) {
-        return '';
+    const roleSlugs = new Map<string, string>();
+    const usedSlugs = new Set<string>();
+    let csv = formatCsvHeader(ROLE_DEFINITIONS_CSV_COLUMNS);
+
+    for (const role of roles) {
+      const permissions: string[] = [];
+      for (let page = 0; ; page++) {
+        const batch = await this.client.getRolePermissions(role.id, page, pageSize);
+        permissions.push(...batch);
+        if (batch.length < pageSize) break;
       }
 
-      // Convert boolean to string
-      if (typeof value === 'boolean') {
-        return value ? 'true' : 'false';
+      // Role names are unique in Auth0, but their slugs may not be
+      const baseSlug = auth0RoleNameToSlug(role.name) || auth0RoleNameToSlug(role.id);
+      let slug = baseSlug;
+      for (let n = 2; usedSlugs.has(slug); n++) {
+        slug = `${baseSlug}-${n}`;
+      }
+      if (slug !== baseSlug) {
+        warnings.push(`Role "${role.name}" exported as "${slug}" (slug "${baseSlug}" is already used by another role)`);
       }
+      usedSlugs.add(slug);
+      roleSlugs.set(role.id, slug);
 
-      // Convert to string
-      const strValue = String(value);
+      csv += formatCsvRow({ ...mapAuth0RoleToDefinition(role, slug, permissions) }, ROLE_DEFINITIONS_CSV_COLUMNS);
+    }
 
-      // Escape CSV value if it contains special characters
-      return this.escapeCsvValue(strValue);
-    });
+    const roleDefinitionsPath = this.siblingPath('role-definitions.csv');
+    fs.writeFileSync(roleDefinitionsPath, csv, 'utf-8');
+    this.additionalOutputs.roleDefinitionsPath = roleDefinitionsPath;
+    this.progressUI.logInfo(`Exported ${roles.length} role definitions`);
 
-    writeStream.write(values.join(',') + '\n');
+    return roleSlugs;
   }
 
   /**
-   * Escape CSV value
-   * Wraps in quotes if contains comma, newline, or quote
+   * Write the org definitions CSV for the exported organizations
    */
-  private escapeCsvValue(value: string): string {
-    // If value contains comma, newline, carriage return, or quote
-    if (/[,"\n\r]/.test(value)) {
-      // Escape quotes by doubling them
-      const escaped = value.replace(/"/g, '""');
-      return `"${escaped}"`;
+  private writeOrgDefinitions(organizations: Auth0Organization[]): void {
+    let csv = formatCsvHeader(ORG_DEFINITIONS_CSV_COLUMNS);
+    for (const org of organizations) {
+      csv += formatCsvRow({ ...mapAuth0OrgToDefinition(org) }, ORG_DEFINITIONS_CSV_COLUMNS);
     }
 
-    return value;
+    const orgDefinitionsPath = this.siblingPath('org-definitions.csv');
+    fs.writeFileSync(orgDefinitionsPath, csv, 'utf-8');
+    this.additionalOutputs.orgDefinitionsPath = orgDefinitionsPath;
+  }
+
+  /**
+   * Append a user's roles to the user-role mapping CSV
+   * A user with the same role in several organizations is written once.
+   */
+  private writeUserRoles(userId: string, roleIds: string[]): void {
+    if (!this.userRoleMappingStream || !this.roleSlugs) {
+      return;
+    }
+
+    for (const roleId of roleIds) {
+      const slug = this.roleSlugs.get(roleId);
+      if (!slug) continue; // Role created after role definitions were exported
+      const key = `${userId}\u0000${slug}`;
+      if (this.exportedUserRoles.has(key)) continue;
+      this.exportedUserRoles.add(key);
+      this.userRoleMappingStream.write(
+        formatCsvRow({ external_id: userId, role_slug: slug }, USER_ROLE_MAPPING_CSV_COLUMNS)
+      );
+    }
+  }
+
+  /**
+   * Path of a file written next to the user CSV, e.g. users.csv → users-org-definitions.csv
+   */
+  private siblingPath(suffix: string): string {
+    return `${this.config.outputPath.replace(/\.csv$/i, '')}-${suffix}`;
+  }
+
+  /**
+   * Write CSV header
+   * Column order matches WorkOS import expectations
+   */
+  private writeHeader(writeStream: WriteStream): void {
+    writeStream.write(formatCsvHeader(AUTH0_CSV_COLUMNS));
+  }
+
+  /**
+   * Write a CSV row
+   */
+  private writeRow(writeStream: WriteStream, row: any): void {
+    writeStream.write(formatCsvRow(row, AUTH0_CSV_COLUMNS));
   }
 
   /**
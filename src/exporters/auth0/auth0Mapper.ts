@@ -3,8 +3,13 @@
  * Transforms Auth0 user objects to WorkOS CSV format
  */
 
-import type { Auth0User, Auth0Organization } from '../types.js';
+import type { Auth0User, Auth0Organization, Auth0Role } from '../types.js';
 import type { CSVRow } from '../../types.js';
+import type { RoleDefinitionRow } from '../../roles/types.js';
+import { convertPasswordHash, detectHashAlgorithm } from '../../passwords/registry.js';
+import type { ConvertedPasswordHash } from '../../passwords/types.js';
+import { formatOrgDomains, parseOrgDomainEntry } from '../../organizations/orgDomains.js';
+import type { OrgDefinitionRow, OrgDomain } from '../../organizations/types.js';
 
 /**
  * Sanitize metadata for WorkOS compatibility
@@ -126,37 +131,104 @@ export function mapAuth0UserToWorkOS(
     // Use Auth0 org ID as WorkOS external_id
     org_external_id: org.id,
     org_name: org.display_name || org.name,
-
-    // Password hash (optional - requires special Auth0 permission)
-    password_hash: passwordHash?.hash,
-    password_hash_type: passwordHash?.algorithm
-      ? mapAuth0PasswordAlgorithm(passwordHash.algorithm)
-      : undefined
+    org_domains: extractOrgDomainsFromMetadata(org.metadata),
   };
 
+  // Password hash (optional - requires special Auth0 permission)
+  const converted = passwordHash?.hash ? convertAuth0PasswordHash(passwordHash.hash, passwordHash.algorithm) : null;
+  if (converted) {
+    csvRow.password_hash = converted.passwordHash;
+    csvRow.password_hash_type = converted.passwordHashType;
+  }
+
   return csvRow;
 }
 
 /**
- * Map Auth0 password algorithm to WorkOS format
- * WorkOS supports: bcrypt, md5, auth0 (for Auth0 hashes)
+ * Read organization domains from Auth0 organization metadata
+ * Auth0 org metadata values are strings, so domains are stored as
+ * `domains` (or `domain`) in org_domains format: "acme.com:verified,acme.io".
+ * Entries that aren't valid domains are dropped.
+ * @returns org_domains cell value, or undefined when the org lists none
  */
-function mapAuth0PasswordAlgorithm(algorithm: string): string {
-  const lowerAlgorithm = algorithm.toLowerCase();
-
-  // Auth0 uses 'bcrypt' which maps directly
-  if (lowerAlgorithm.includes('bcrypt')) {
-    return 'bcrypt';
+export function extractOrgDomainsFromMetadata(metadata?: Record<string, unknown>): string | undefined {
+  const raw = metadata?.domains ?? metadata?.domain;
+  if (typeof raw !== 'string' || !raw.trim()) {
+    return undefined;
   }
 
-  // Auth0 uses 'md5' which maps directly
-  if (lowerAlgorithm.includes('md5')) {
-    return 'md5';
+  const domains: OrgDomain[] = [];
+  for (const entry of raw.split(/[,|]/)) {
+    try {
+      const domain = parseOrgDomainEntry(entry);
+      if (!domains.some(d => d.domain === domain.domain)) {
+        domains.push(domain);
+      }
+    } catch {
+      // Not a domain; skip it
+    }
   }
+  return domains.length > 0 ? formatOrgDomains(domains) : undefined;
+}
 
-  // For Auth0-specific hashing, use 'auth0' as type
-  // WorkOS may support importing Auth0 hashes directly
-  return 'auth0';
+/**
+ * Map an Auth0 organization to an org definitions CSV row
+ * Domains in metadata become org_domains; the rest of the metadata is kept.
+ */
+export function mapAuth0OrgToDefinition(org: Auth0Organization): OrgDefinitionRow {
+  const { domains: _domains, domain: _domain, ...rest } = org.metadata ?? {};
+  const metadata = sanitizeMetadataForWorkOS(rest);
+
+  return {
+    org_external_id: org.id,
+    org_name: org.display_name || org.name,
+    org_domains: extractOrgDomainsFromMetadata(org.metadata),
+    metadata: Object.keys(metadata).length > 0 ? JSON.stringify(metadata) : undefined
+  };
+}
+
+/**
+ * Convert an Auth0 role name to a WorkOS role slug
+ * e.g. "Billing Admin" → "billing-admin"
+ */
+export function auth0RoleNameToSlug(roleName: string): string {
+  return roleName
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Map an Auth0 role to a role definitions CSV row
+ * Auth0 roles are tenant-wide, so they become environment roles.
+ * @param slug WorkOS role slug (see auth0RoleNameToSlug)
+ * @param permissions Auth0 permission names, e.g. "read:reports"
+ */
+export function mapAuth0RoleToDefinition(
+  role: Auth0Role,
+  slug: string,
+  permissions: string[]
+): RoleDefinitionRow {
+  return {
+    role_slug: slug,
+    role_name: role.name,
+    role_type: 'environment',
+    permissions: [...new Set(permissions)].join(',')
+  };
+}
+
+/**
+ * Convert an Auth0 password hash to WorkOS format
+ * Returns null for hashes WorkOS cannot import (the user is exported without a password)
+ */
+function convertAuth0PasswordHash(hash: string, algorithm?: string): ConvertedPasswordHash | null {
+  try {
+    // Trust the hash format over Auth0's algorithm label
+    return convertPasswordHash(hash, detectHashAlgorithm(hash) ?? algorithm);
+  } catch {
+    return null;
+  }
 }
 
 /**
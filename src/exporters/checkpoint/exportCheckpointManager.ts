@@ -1,6 +1,6 @@
 /**
  * Export Checkpoint Manager
- * Manages checkpoint state for resumable Auth0 exports
+ * Manages checkpoint state for resumable provider exports (Auth0, Okta, Cognito)
  */
 
 import fs from 'node:fs';
@@ -10,9 +10,10 @@ import type {
   ExportCheckpointState,
   OrganizationProgress,
   ExportSummary,
+  ExportCursor,
   ResumeOptions
 } from './types.js';
-import type { Auth0Credentials } from '../types.js';
+import type { ProviderCredentials } from '../types.js';
 
 export class ExportCheckpointManager {
   private state: ExportCheckpointState;
@@ -35,7 +36,7 @@ export class ExportCheckpointManager {
   static async create(
     jobId: string,
     csvPath: string,
-    credentials: Auth0Credentials,
+    credentials: ProviderCredentials,
     organizations: Array<{ id: string; name: string }>,
     options: {
       useMetadata?: boolean;
@@ -68,7 +69,7 @@ export class ExportCheckpointManager {
       createdAt: Date.now(),
       updatedAt: Date.now(),
       config: {
-        domain: credentials.domain,
+        domain: ExportCheckpointManager.getCredentialsDomain(credentials),
         credentialsHash,
         useMetadata: options.useMetadata || false,
         organizationFilter: options.organizationFilter
@@ -96,7 +97,7 @@ export class ExportCheckpointManager {
    */
   static async resume(
     options: ResumeOptions,
-    credentials: Auth0Credentials
+    credentials: ProviderCredentials
   ): Promise<ExportCheckpointManager> {
     const checkpointDir = options.checkpointDir || '.workos-checkpoints';
     const checkpointPath = path.join(checkpointDir, options.jobId, 'export-checkpoint.json');
@@ -114,14 +115,15 @@ export class ExportCheckpointManager {
     const credentialsHash = ExportCheckpointManager.hashCredentials(credentials);
     if (state.config.credentialsHash !== credentialsHash) {
       throw new Error(
-        'Credentials do not match checkpoint. Cannot resume with different Auth0 credentials.'
+        'Credentials do not match checkpoint. Cannot resume with different provider credentials.'
       );
     }
 
     // Validate domain matches
-    if (state.config.domain !== credentials.domain) {
+    const domain = ExportCheckpointManager.getCredentialsDomain(credentials);
+    if (state.config.domain !== domain) {
       throw new Error(
-        `Domain mismatch: checkpoint is for ${state.config.domain}, but credentials are for ${credentials.domain}`
+        `Domain mismatch: checkpoint is for ${state.config.domain}, but credentials are for ${domain}`
       );
     }
 
@@ -140,11 +142,29 @@ export class ExportCheckpointManager {
   /**
    * Hash credentials for validation (don't store plaintext)
    */
-  private static hashCredentials(credentials: Auth0Credentials): string {
-    const data = `${credentials.domain}:${credentials.clientId}:${credentials.clientSecret}`;
+  private static hashCredentials(credentials: ProviderCredentials): string {
+    let data: string;
+    switch (credentials.type) {
+      case 'auth0':
+        data = `${credentials.domain}:${credentials.clientId}:${credentials.clientSecret}`;
+        break;
+      case 'okta':
+        data = `okta:${credentials.domain}:${credentials.apiToken}`;
+        break;
+      case 'cognito':
+        data = `cognito:${credentials.region}:${credentials.userPoolId}:${credentials.accessKeyId}:${credentials.secretAccessKey}`;
+        break;
+    }
     return crypto.createHash('sha256').update(data).digest('hex');
   }
 
+  /**
+   * Identify the tenant a checkpoint belongs to (domain, or user pool for Cognito)
+   */
+  private static getCredentialsDomain(credentials: ProviderCredentials): string {
+    return credentials.type === 'cognito' ? credentials.userPoolId : credentials.domain;
+  }
+
   /**
    * Get pending organizations (not yet completed)
    */
@@ -228,6 +248,21 @@ export class ExportCheckpointManager {
     await this.saveCheckpoint();
   }
 
+  /**
+   * Record the page cursor after a page has been written
+   */
+  async updateCursor(cursor: ExportCursor): Promise<void> {
+    this.state.cursor = { ...cursor };
+    await this.saveCheckpoint();
+  }
+
+  /**
+   * Get the saved page cursor (undefined if no page has been written yet)
+   */
+  getCursor(): ExportCursor | undefined {
+    return this.state.cursor ? { ...this.state.cursor } : undefined;
+  }
+
   /**
    * Add a warning to the summary
    */
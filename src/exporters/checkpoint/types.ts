@@ -21,6 +21,9 @@ export interface ExportCheckpointState {
   organizations: OrganizationProgress[];
   summary: ExportSummary;
 
+  // Page cursor for exporters that walk a flat user list (e.g., Okta users, Cognito ListUsers)
+  cursor?: ExportCursor;
+
   // State
   status: 'in_progress' | 'completed' | 'failed';
   error?: string;
@@ -37,6 +40,12 @@ export interface OrganizationProgress {
   error?: string;
 }
 
+export interface ExportCursor {
+  paginationToken?: string;  // Token for the next page (undefined once the list is exhausted)
+  usersExported: number;
+  usersSkipped: number;
+}
+
 export interface ExportSummary {
   totalOrgs: number;
   completedOrgs: number;
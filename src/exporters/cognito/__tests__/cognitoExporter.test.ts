@@ -0,0 +1,257 @@
+/**
+ * Tests for Cognito exporter (mapper, end-to-end and resume against a local stub)
+ *
+ * Usage: npx tsx src/exporters/cognito/__tests__/cognitoExporter.test.ts
+ */
+
+import { strict as assert } from 'node:assert';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { mkdirSync, rmSync, readFileSync } from 'node:fs';
+import path from 'node:path';
+import type { CognitoUser, CognitoCredentials } from '../../types.js';
+
+const TEST_DIR = path.join(process.cwd(), '.temp-cognito-export-tests');
+
+function makeUser(username: string, email: string, tenant: string, enabled: boolean = true): CognitoUser {
+  return {
+    Username: username,
+    Enabled: enabled,
+    UserStatus: 'CONFIRMED',
+    UserCreateDate: 1705314600,
+    Attributes: [
+      { Name: 'sub', Value: `sub-${username}` },
+      { Name: 'email', Value: email },
+      { Name: 'email_verified', Value: 'true' },
+      { Name: 'given_name', Value: 'Test' },
+      { Name: 'family_name', Value: username },
+      { Name: 'custom:tenant_id', Value: tenant },
+      { Name: 'custom:tenant_name', Value: `${tenant} Corp` },
+      { Name: 'custom:plan', Value: 'pro' }
+    ]
+  };
+}
+
+const USERS: CognitoUser[] = [
+  makeUser('alice', 'alice@acme.com', 'acme'),
+  makeUser('bob', 'bob@acme.com', 'acme'),
+  makeUser('carol', 'carol@beta.com', 'beta', false),
+  makeUser('dave', 'dave@beta.com', 'beta'),
+  makeUser('erin', 'erin@gamma.com', 'gamma')
+];
+
+const GROUP_MEMBERS: Record<string, string[]> = {
+  'Admins': ['alice'],
+  'Billing Team': ['alice', 'bob']
+};
+
+const PAGE_SIZE = 2;
+
+/**
+ * Minimal Cognito JSON API stub: dispatches on X-Amz-Target, pages ListUsers two at a time
+ * failPage makes ListUsers fail once for that page token (simulates an interrupted export)
+ */
+function startStub(): Promise<{ server: http.Server; endpoint: string; state: { failPage?: string } }> {
+  const state: { failPage?: string } = {};
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      const send = (status: number, payload: unknown) => {
+        res.writeHead(status, { 'Content-Type': 'application/x-amz-json-1.1' });
+        res.end(JSON.stringify(payload));
+      };
+
+      if (!String(req.headers.authorization).startsWith('AWS4-HMAC-SHA256 Credential=AKIATEST/')) {
+        send(400, { __type: 'UnrecognizedClientException', message: 'The security token included in the request is invalid.' });
+        return;
+      }
+
+      const action = String(req.headers['x-amz-target']).split('.').pop();
+      const input = JSON.parse(body || '{}');
+
+      if (action === 'ListGroups') {
+        send(200, { Groups: Object.keys(GROUP_MEMBERS).map(GroupName => ({ GroupName })) });
+        return;
+      }
+
+      if (action === 'ListUsersInGroup') {
+        const members = GROUP_MEMBERS[input.GroupName] ?? [];
+        send(200, { Users: USERS.filter(u => members.includes(u.Username)) });
+        return;
+      }
+
+      if (action === 'ListUsers') {
+        const token: string = input.PaginationToken ?? 'page-0';
+        if (state.failPage === token) {
+          state.failPage = undefined;
+          send(500, { __type: 'InternalErrorException', message: 'Simulated failure' });
+          return;
+        }
+        const offset = parseInt(token.replace('page-', ''), 10);
+        const limit = Math.min(input.Limit ?? PAGE_SIZE, PAGE_SIZE);
+        const next = offset + limit < USERS.length ? `page-${offset + limit}` : undefined;
+        send(200, { Users: USERS.slice(offset, offset + limit), PaginationToken: next });
+        return;
+      }
+
+      send(400, { __type: 'InvalidParameterException', message: `Unknown action ${action}` });
+    });
+  });
+
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, endpoint: `http://127.0.0.1:${port}/`, state });
+    });
+  });
+}
+
+async function runTests() {
+  mkdirSync(TEST_DIR, { recursive: true });
+  let passed = 0;
+  let failed = 0;
+
+  async function test(name: string, fn: () => Promise<void> | void) {
+    try {
+      await fn();
+      console.log(`  ✓ ${name}`);
+      passed++;
+    } catch (err: any) {
+      console.log(`  ✗ ${name}`);
+      console.log(`    ${err.message}`);
+      failed++;
+    }
+  }
+
+  const { mapCognitoUserToWorkOS, groupNameToRoleSlug } = await import('../cognitoMapper.js');
+  const { CognitoExporter } = await import('../cognitoExporter.js');
+
+  console.log('Cognito Exporter tests\n');
+
+  // --- Mapper ---
+  console.log('mapCognitoUserToWorkOS:');
+
+  await test('maps attributes, org attributes and groups to CSV row', () => {
+    const row = mapCognitoUserToWorkOS(USERS[0]!, {
+      orgIdAttribute: 'custom:tenant_id',
+      orgNameAttribute: 'custom:tenant_name',
+      groups: ['Admins', 'Billing Team']
+    });
+    assert.strictEqual(row.email, 'alice@acme.com');
+    assert.strictEqual(row.first_name, 'Test');
+    assert.strictEqual(row.last_name, 'alice');
+    assert.strictEqual(row.email_verified, true);
+    assert.strictEqual(row.external_id, 'sub-alice');
+    assert.strictEqual(row.org_external_id, 'acme');
+    assert.strictEqual(row.org_name, 'acme Corp');
+    assert.strictEqual(row.role_slugs, 'admins,billing-team');
+
+    const metadata = JSON.parse(row.metadata as string);
+    assert.strictEqual(metadata.plan, 'pro', 'custom: prefix should be stripped');
+    assert.strictEqual(metadata.tenant_id, undefined, 'org attributes should not be duplicated in metadata');
+    assert.strictEqual(metadata.cognito_username, 'alice');
+  });
+
+  await test('leaves org columns empty without configured attributes', () => {
+    const row = mapCognitoUserToWorkOS(USERS[1]!);
+    assert.strictEqual(row.org_external_id, undefined);
+    assert.strictEqual(row.role_slugs, undefined);
+    assert.strictEqual(JSON.parse(row.metadata as string).tenant_id, 'acme');
+  });
+
+  await test('slugifies group names', () => {
+    assert.strictEqual(groupNameToRoleSlug('  Billing Admins (EU) '), 'billing-admins-eu');
+  });
+
+  // --- End-to-end against stub ---
+  console.log('\nCognitoExporter (local stub):');
+
+  const { server, endpoint, state } = await startStub();
+  const credentials: CognitoCredentials = {
+    type: 'cognito',
+    region: 'us-east-1',
+    userPoolId: 'us-east-1_TEST',
+    accessKeyId: 'AKIATEST',
+    secretAccessKey: 'secret',
+    endpoint
+  };
+  const baseConfig = {
+    credentials,
+    rateLimit: 1000,
+    quiet: true,
+    orgIdAttribute: 'custom:tenant_id',
+    orgNameAttribute: 'custom:tenant_name'
+  };
+
+  await test('exports all pages, skipping disabled users', async () => {
+    const outputPath = path.join(TEST_DIR, 'cognito-export.csv');
+    const result = await new CognitoExporter({ ...baseConfig, outputPath }).export();
+
+    assert.strictEqual(result.summary.totalUsers, 4);
+    assert.strictEqual(result.summary.skippedUsers, 1);
+    assert.strictEqual(result.summary.totalOrgs, 3);
+
+    const lines = readFileSync(outputPath, 'utf8').trim().split('\n');
+    assert.strictEqual(lines[0], 'email,first_name,last_name,email_verified,external_id,org_external_id,org_name,metadata,role_slugs');
+    assert.strictEqual(lines.length, 5);
+    assert.ok(lines.some(l => l.startsWith('alice@acme.com') && l.endsWith('"admins,billing-team"')));
+    assert.ok(!lines.some(l => l.includes('carol@beta.com')));
+  });
+
+  await test('resumes from the saved pagination token after a failure', async () => {
+    const outputPath = path.join(TEST_DIR, 'cognito-resume.csv');
+    const checkpointDir = path.join(TEST_DIR, 'checkpoints');
+
+    state.failPage = 'page-2';
+    await assert.rejects(
+      new CognitoExporter({ ...baseConfig, outputPath, jobId: 'cognito-job', checkpointDir }).export(),
+      /Simulated failure/
+    );
+    assert.strictEqual(readFileSync(outputPath, 'utf8').trim().split('\n').length, 3, 'First page written before failure');
+
+    const resumed = await new CognitoExporter({
+      ...baseConfig, outputPath, resume: 'cognito-job', checkpointDir
+    }).export();
+
+    assert.strictEqual(resumed.summary.totalUsers, 2, 'Only remaining pages exported');
+    const lines = readFileSync(outputPath, 'utf8').trim().split('\n');
+    assert.strictEqual(lines.length, 5, 'Resume should not duplicate rows');
+    assert.strictEqual(new Set(lines).size, lines.length);
+  });
+
+  await test('validate() reports invalid credentials and non-custom org attributes', async () => {
+    const exporter = new CognitoExporter({
+      credentials: { ...credentials, accessKeyId: 'WRONG' },
+      outputPath: path.join(TEST_DIR, 'unused.csv'),
+      orgIdAttribute: 'tenant_id',
+      quiet: true
+    });
+    const validation = await exporter.validate();
+    assert.strictEqual(validation.valid, false);
+    assert.strictEqual(validation.errors.length, 2);
+    assert.ok(validation.errors[1]?.includes('UnrecognizedClientException'));
+  });
+
+  await test('rejects non-Cognito credentials', () => {
+    assert.throws(() => new CognitoExporter({
+      credentials: { type: 'okta', domain: 'x', apiToken: 'a' },
+      outputPath: 'x.csv'
+    }), /Cognito credentials/);
+  });
+
+  server.close();
+  rmSync(TEST_DIR, { recursive: true, force: true });
+
+  // Summary
+  console.log(`\n${passed} passed, ${failed} failed`);
+  if (failed > 0) {
+    process.exit(1);
+  }
+  process.exit(0);
+}
+
+runTests().catch((err) => {
+  console.error('Unhandled error:', err);
+  process.exit(1);
+});
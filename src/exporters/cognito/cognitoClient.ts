@@ -0,0 +1,269 @@
+/**
+ * AWS Cognito user pool client
+ * Calls the Cognito Identity Provider JSON API directly with SigV4 signing,
+ * with token pagination and rate limiting
+ */
+
+import crypto from 'node:crypto';
+import type { CognitoCredentials, CognitoUser, CognitoGroup } from '../types.js';
+import { RateLimiter } from '../../rateLimiter.js';
+
+const SERVICE = 'cognito-idp';
+const TARGET_PREFIX = 'AWSCognitoIdentityProviderService';
+
+/**
+ * Cognito error types that should be retried with backoff
+ */
+const THROTTLING_ERRORS = new Set([
+  'TooManyRequestsException',
+  'ThrottlingException',
+  'LimitExceededException'
+]);
+
+export class CognitoClient {
+  private credentials: CognitoCredentials;
+  private endpoint: URL;
+  private rateLimiter: RateLimiter;
+
+  constructor(credentials: CognitoCredentials, rateLimit: number = 5) {
+    this.credentials = credentials;
+    this.endpoint = new URL(
+      credentials.endpoint || `https://cognito-idp.${credentials.region}.amazonaws.com/`
+    );
+
+    // ListUsers has a low default quota (5 rps per account/region)
+    this.rateLimiter = new RateLimiter(rateLimit);
+  }
+
+  /**
+   * Make a signed, rate-limited call to a Cognito API action
+   * Automatically retries throttling errors with exponential backoff
+   */
+  async call<T>(action: string, payload: Record<string, unknown>): Promise<T> {
+    return this.retryWithRateLimit(
+      async () => {
+        const body = JSON.stringify(payload);
+        const headers = this.signRequest(action, body);
+
+        const response = await fetch(this.endpoint, {
+          method: 'POST',
+          headers,
+          body
+        });
+
+        const text = await response.text();
+        if (!response.ok) {
+          let errorType = `HTTP${response.status}`;
+          let message = text.slice(0, 200);
+          try {
+            const parsed = JSON.parse(text);
+            // __type may be namespaced: "com.amazonaws...#TooManyRequestsException"
+            errorType = String(parsed.__type ?? errorType).split('#').pop()!;
+            message = parsed.message ?? parsed.Message ?? message;
+          } catch {
+            // Not JSON - keep raw body
+          }
+          const error: any = new Error(`${errorType}: ${message}`);
+          error.statusCode = response.status;
+          error.errorType = errorType;
+          throw error;
+        }
+
+        return (text ? JSON.parse(text) : {}) as T;
+      },
+      5, // Max 5 retries for throttling errors
+      1000 // Start with 1 second delay
+    );
+  }
+
+  /**
+   * Retry wrapper with rate limiting and exponential backoff
+   */
+  private async retryWithRateLimit<T>(
+    apiCall: () => Promise<T>,
+    maxRetries: number = 3,
+    baseDelayMs: number = 1000
+  ): Promise<T> {
+    let attempt = 0;
+
+    while (true) {
+      try {
+        await this.rateLimiter.acquire();
+        return await apiCall();
+      } catch (error: any) {
+        const isThrottled = error?.statusCode === 429 || THROTTLING_ERRORS.has(error?.errorType);
+
+        attempt += 1;
+
+        if (isThrottled && attempt <= maxRetries) {
+          const delay = baseDelayMs * Math.pow(2, attempt - 1);
+          await new Promise(resolve => setTimeout(resolve, delay));
+          continue;
+        }
+
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Build SigV4-signed headers for a Cognito JSON API request
+   */
+  private signRequest(action: string, body: string): Record<string, string> {
+    const now = new Date();
+    const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, ''); // YYYYMMDDTHHMMSSZ
+    const dateStamp = amzDate.slice(0, 8);
+
+    const headers: Record<string, string> = {
+      'content-type': 'application/x-amz-json-1.1',
+      'host': this.endpoint.host,
+      'x-amz-date': amzDate,
+      'x-amz-target': `${TARGET_PREFIX}.${action}`
+    };
+    if (this.credentials.sessionToken) {
+      headers['x-amz-security-token'] = this.credentials.sessionToken;
+    }
+
+    const signedHeaderNames = Object.keys(headers).sort();
+    const canonicalHeaders = signedHeaderNames.map(name => `${name}:${headers[name]}\n`).join('');
+    const signedHeaders = signedHeaderNames.join(';');
+
+    const canonicalRequest = [
+      'POST',
+      this.endpoint.pathname || '/',
+      '',
+      canonicalHeaders,
+      signedHeaders,
+      sha256Hex(body)
+    ].join('\n');
+
+    const scope = `${dateStamp}/${this.credentials.region}/${SERVICE}/aws4_request`;
+    const stringToSign = [
+      'AWS4-HMAC-SHA256',
+      amzDate,
+      scope,
+      sha256Hex(canonicalRequest)
+    ].join('\n');
+
+    const kDate = hmac(`AWS4${this.credentials.secretAccessKey}`, dateStamp);
+    const kRegion = hmac(kDate, this.credentials.region);
+    const kService = hmac(kRegion, SERVICE);
+    const kSigning = hmac(kService, 'aws4_request');
+    const signature = crypto.createHmac('sha256', kSigning).update(stringToSign).digest('hex');
+
+    // fetch sets Host itself
+    const { host: _host, ...requestHeaders } = headers;
+    return {
+      ...requestHeaders,
+      'authorization': `AWS4-HMAC-SHA256 Credential=${this.credentials.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`
+    };
+  }
+
+  /**
+   * List users in the pool with token pagination
+   * @param paginationToken Token from a previous page (omit for the first page)
+   * @param limit Items per page (Cognito max: 60)
+   */
+  async listUsers(
+    paginationToken?: string,
+    limit: number = 60
+  ): Promise<{ users: CognitoUser[]; paginationToken?: string }> {
+    try {
+      const response = await this.call<{ Users?: CognitoUser[]; PaginationToken?: string }>('ListUsers', {
+        UserPoolId: this.credentials.userPoolId,
+        Limit: Math.min(limit, 60),
+        ...(paginationToken ? { PaginationToken: paginationToken } : {})
+      });
+      return { users: response.Users ?? [], paginationToken: response.PaginationToken };
+    } catch (error: any) {
+      throw new Error(
+        `Failed to list users from Cognito: ${error.message || String(error)}`
+      );
+    }
+  }
+
+  /**
+   * List all groups in the pool
+   */
+  async listAllGroups(): Promise<CognitoGroup[]> {
+    const groups: CognitoGroup[] = [];
+    let nextToken: string | undefined;
+
+    try {
+      do {
+        const response = await this.call<{ Groups?: CognitoGroup[]; NextToken?: string }>('ListGroups', {
+          UserPoolId: this.credentials.userPoolId,
+          Limit: 60,
+          ...(nextToken ? { NextToken: nextToken } : {})
+        });
+        groups.push(...(response.Groups ?? []));
+        nextToken = response.NextToken;
+      } while (nextToken);
+    } catch (error: any) {
+      throw new Error(
+        `Failed to list groups from Cognito: ${error.message || String(error)}`
+      );
+    }
+
+    return groups;
+  }
+
+  /**
+   * List usernames of all members of a group
+   */
+  async listAllUsernamesInGroup(groupName: string): Promise<string[]> {
+    const usernames: string[] = [];
+    let nextToken: string | undefined;
+
+    try {
+      do {
+        const response = await this.call<{ Users?: CognitoUser[]; NextToken?: string }>('ListUsersInGroup', {
+          UserPoolId: this.credentials.userPoolId,
+          GroupName: groupName,
+          Limit: 60,
+          ...(nextToken ? { NextToken: nextToken } : {})
+        });
+        usernames.push(...(response.Users ?? []).map(user => user.Username));
+        nextToken = response.NextToken;
+      } while (nextToken);
+    } catch (error: any) {
+      throw new Error(
+        `Failed to list members of group ${groupName}: ${error.message || String(error)}`
+      );
+    }
+
+    return usernames;
+  }
+
+  /**
+   * Test connection to Cognito
+   * Verifies credentials and user pool access
+   */
+  async testConnection(): Promise<{ success: boolean; error?: string }> {
+    try {
+      await this.listUsers(undefined, 1);
+      return { success: true };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || String(error)
+      };
+    }
+  }
+
+  /**
+   * Stop the rate limiter
+   * Call this when done with the client to clean up timers
+   */
+  stop(): void {
+    this.rateLimiter.stop();
+  }
+}
+
+function sha256Hex(data: string): string {
+  return crypto.createHash('sha256').update(data, 'utf8').digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return crypto.createHmac('sha256', key).update(data, 'utf8').digest();
+}
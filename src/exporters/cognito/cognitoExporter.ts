@@ -0,0 +1,377 @@
+/**
+ * Cognito Exporter
+ * Exports users from an AWS Cognito user pool to WorkOS-compatible CSV format
+ * Organizations come from configured custom attributes; groups become role_slugs
+ * Supports checkpointing for resumable exports (ListUsers pagination token cursor)
+ */
+
+import { createWriteStream, WriteStream } from 'node:fs';
+import fs from 'node:fs';
+import type {
+  ExporterConfig,
+  ExportResult,
+  CognitoCredentials,
+  CognitoUser,
+  BaseExporter
+} from '../types.js';
+import { CognitoClient } from './cognitoClient.js';
+import { mapCognitoUserToWorkOS, getCognitoAttributes } from './cognitoMapper.js';
+import { validateMappedRow } from '../auth0/auth0Mapper.js';
+import { ExportCheckpointManager } from '../checkpoint/exportCheckpointManager.js';
+import { ExportProgressUI } from '../../ui/exportProgressUI.js';
+import { EXPORT_CSV_COLUMNS, formatCsvHeader, formatCsvRow } from '../csvOutput.js';
+
+/**
+ * Cognito CSV columns: standard export columns plus group-derived role slugs
+ */
+export const COGNITO_CSV_COLUMNS = [...EXPORT_CSV_COLUMNS, 'role_slugs'] as const;
+
+export class CognitoExporter implements BaseExporter {
+  private client: CognitoClient;
+  private config: ExporterConfig;
+  private credentials: CognitoCredentials;
+  private checkpointManager?: ExportCheckpointManager;
+  private progressUI: ExportProgressUI;
+  private skippedUsersStream?: WriteStream;
+  private exportStartTime: number = 0;
+
+  constructor(config: ExporterConfig) {
+    if (config.credentials.type !== 'cognito') {
+      throw new Error('CognitoExporter requires Cognito credentials');
+    }
+
+    this.config = config;
+    this.credentials = config.credentials as CognitoCredentials;
+    const rateLimit = config.rateLimit ?? 5;
+    this.client = new CognitoClient(this.credentials, rateLimit);
+    this.progressUI = new ExportProgressUI(config.quiet);
+  }
+
+  /**
+   * Export users from the Cognito user pool to CSV
+   */
+  async export(): Promise<ExportResult> {
+    const startTime = Date.now();
+    this.exportStartTime = startTime;
+    const warnings: string[] = [];
+    let isResume = false;
+
+    // Handle checkpoint resume
+    if (this.config.resume) {
+      const resumeJobId = typeof this.config.resume === 'string'
+        ? this.config.resume
+        : this.config.jobId;
+
+      if (!resumeJobId) {
+        throw new Error('Resume requires a jobId (provide via --job-id or --resume <jobId>)');
+      }
+
+      if (!ExportCheckpointManager.exists(resumeJobId, this.config.checkpointDir)) {
+        throw new Error(`No checkpoint found for job ID: ${resumeJobId}`);
+      }
+
+      this.checkpointManager = await ExportCheckpointManager.resume(
+        { jobId: resumeJobId, checkpointDir: this.config.checkpointDir },
+        this.config.credentials
+      );
+
+      isResume = true;
+
+      const completed = this.checkpointManager.getCompletedOrganizations();
+      const pending = this.checkpointManager.getPendingOrganizations();
+      this.progressUI.logCheckpointResume(resumeJobId, completed.length, pending.length);
+    }
+
+    // Determine write stream mode (append for resume, write for new)
+    const writeMode = isResume && fs.existsSync(this.config.outputPath);
+    const writeStream = createWriteStream(this.config.outputPath, {
+      encoding: 'utf-8',
+      flags: writeMode ? 'a' : 'w'
+    });
+
+    // Create skipped users log file
+    const skippedUsersPath = this.config.outputPath.replace('.csv', '-skipped.jsonl');
+    this.skippedUsersStream = createWriteStream(skippedUsersPath, {
+      encoding: 'utf-8',
+      flags: writeMode ? 'a' : 'w'
+    });
+
+    try {
+      // Write CSV header only if not resuming
+      if (!writeMode) {
+        writeStream.write(formatCsvHeader(COGNITO_CSV_COLUMNS));
+      }
+
+      const { totalUsers, totalOrgs, skippedUsers } = await this.exportUsers(writeStream, warnings);
+
+      await this.closeStream(writeStream);
+      await this.closeStream(this.skippedUsersStream);
+
+      // Mark checkpoint as completed
+      if (this.checkpointManager) {
+        await this.checkpointManager.complete();
+      }
+
+      const endTime = Date.now();
+      const duration = endTime - startTime;
+
+      this.client.stop();
+
+      this.progressUI.displaySummary({
+        totalOrgs,
+        completedOrgs: totalOrgs,
+        failedOrgs: 0,
+        totalUsers,
+        skippedUsers,
+        duration,
+        throughput: totalUsers / (duration / 1000),
+        warnings: warnings.length
+      });
+
+      if (skippedUsers > 0 && !this.config.quiet) {
+        console.log(`\nℹ Skipped users logged to: ${skippedUsersPath}`);
+      }
+
+      return {
+        outputPath: this.config.outputPath,
+        summary: {
+          totalUsers,
+          totalOrgs,
+          skippedUsers,
+          startedAt: startTime,
+          endedAt: endTime,
+          durationMs: duration
+        },
+        warnings
+      };
+    } catch (error: any) {
+      writeStream.end();
+      this.skippedUsersStream?.end();
+
+      if (this.checkpointManager) {
+        await this.checkpointManager.fail(error.message || String(error));
+      }
+
+      this.client.stop();
+
+      throw new Error(
+        `Export failed: ${error.message || String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Validate connection to Cognito and the org attribute configuration
+   */
+  async validate(): Promise<{ valid: boolean; errors: string[] }> {
+    const errors: string[] = [];
+
+    for (const attribute of [this.config.orgIdAttribute, this.config.orgNameAttribute]) {
+      if (attribute && !attribute.startsWith('custom:')) {
+        errors.push(`Org attribute must be a custom attribute (custom:<name>): ${attribute}`);
+      }
+    }
+
+    const result = await this.client.testConnection();
+    if (!result.success) {
+      errors.push(result.error || 'Connection test failed');
+    }
+
+    return { valid: errors.length === 0, errors };
+  }
+
+  /**
+   * Walk the user pool page by page, writing one row per user
+   * The whole pool is tracked as a single checkpoint entry with a page cursor
+   */
+  private async exportUsers(
+    writeStream: WriteStream,
+    warnings: string[]
+  ): Promise<{
+    totalUsers: number;
+    totalOrgs: number;
+    skippedUsers: number;
+  }> {
+    const poolId = this.credentials.userPoolId;
+    const orgIds = new Set<string>();
+    let totalUsers = 0;
+    let skippedUsers = 0;
+
+    // Create checkpoint if jobId provided and not resuming
+    if (this.config.jobId && !this.checkpointManager) {
+      this.checkpointManager = await ExportCheckpointManager.create(
+        this.config.jobId,
+        this.config.outputPath,
+        this.config.credentials,
+        [{ id: poolId, name: poolId }],
+        { checkpointDir: this.config.checkpointDir }
+      );
+
+      this.progressUI.logCheckpointCreated(this.config.jobId);
+    }
+
+    if (this.checkpointManager?.getCompletedOrganizations().some(o => o.orgId === poolId)) {
+      this.progressUI.logOrgSkipped(poolId);
+      return { totalUsers, totalOrgs: 0, skippedUsers };
+    }
+
+    // Step 1: Build username → group names map (groups become role slugs)
+    const groupsByUsername = await this.fetchGroupMemberships();
+
+    // Step 2: Continue from the saved cursor when resuming
+    const cursor = this.checkpointManager?.getCursor();
+    let paginationToken = cursor?.paginationToken;
+    let poolUsersExported = cursor?.usersExported ?? 0;
+    let poolUsersSkipped = cursor?.usersSkipped ?? 0;
+
+    if (this.checkpointManager) {
+      await this.checkpointManager.startOrganization(poolId);
+    }
+
+    this.progressUI.startExport(1);
+
+    // Step 3: Page through ListUsers
+    do {
+      const page = await this.client.listUsers(paginationToken, this.config.pageSize ?? 60);
+      paginationToken = page.paginationToken;
+
+      for (const user of page.users) {
+        const attributes = getCognitoAttributes(user);
+
+        // Disabled users are excluded unless explicitly requested
+        if (user.Enabled === false && !this.config.includeDeleted) {
+          this.logSkippedUser(user, attributes.email, 'User is disabled');
+          skippedUsers++;
+          poolUsersSkipped++;
+          continue;
+        }
+
+        const csvRow = mapCognitoUserToWorkOS(user, {
+          orgIdAttribute: this.config.orgIdAttribute,
+          orgNameAttribute: this.config.orgNameAttribute,
+          groups: groupsByUsername.get(user.Username)
+        });
+
+        const validationError = validateMappedRow(csvRow);
+        if (validationError) {
+          this.logSkippedUser(user, attributes.email, 'Validation failed', validationError);
+          warnings.push(`Skipped user ${user.Username}: ${validationError}`);
+          skippedUsers++;
+          poolUsersSkipped++;
+          continue;
+        }
+
+        writeStream.write(formatCsvRow(csvRow, COGNITO_CSV_COLUMNS));
+        totalUsers++;
+        poolUsersExported++;
+
+        if (csvRow.org_external_id) {
+          orgIds.add(csvRow.org_external_id);
+        }
+
+        // Progress callback every 100 users
+        if (this.config.onProgress && totalUsers % 100 === 0) {
+          this.config.onProgress({
+            usersProcessed: totalUsers,
+            orgsProcessed: orgIds.size,
+            elapsedMs: Date.now() - this.exportStartTime
+          });
+        }
+      }
+
+      // Only advance the cursor once the page's rows are on disk
+      if (this.checkpointManager) {
+        await this.flushStream(writeStream);
+        await this.checkpointManager.updateCursor({
+          paginationToken,
+          usersExported: poolUsersExported,
+          usersSkipped: poolUsersSkipped
+        });
+      }
+
+      this.progressUI.updateUserProgress(poolUsersExported);
+    } while (paginationToken);
+
+    if (this.checkpointManager) {
+      await this.checkpointManager.completeOrganization(poolId, poolUsersExported, poolUsersSkipped);
+    }
+
+    this.progressUI.updateProgress(1, totalUsers);
+    this.progressUI.logOrgComplete(poolId, poolUsersExported, poolUsersSkipped);
+
+    return { totalUsers, totalOrgs: orgIds.size, skippedUsers };
+  }
+
+  /**
+   * Map each username to the names of the groups it belongs to
+   */
+  private async fetchGroupMemberships(): Promise<Map<string, string[]>> {
+    const groupsByUsername = new Map<string, string[]>();
+    const groups = await this.client.listAllGroups();
+
+    this.progressUI.logInfo(`Found ${groups.length} groups`);
+
+    for (const group of groups) {
+      const usernames = await this.client.listAllUsernamesInGroup(group.GroupName);
+      for (const username of usernames) {
+        const existing = groupsByUsername.get(username);
+        if (existing) {
+          existing.push(group.GroupName);
+        } else {
+          groupsByUsername.set(username, [group.GroupName]);
+        }
+      }
+    }
+
+    return groupsByUsername;
+  }
+
+  /**
+   * Log a skipped user to the skipped users file
+   */
+  private logSkippedUser(
+    user: CognitoUser,
+    email: string | undefined,
+    reason: string,
+    error?: string
+  ): void {
+    if (!this.skippedUsersStream) {
+      return;
+    }
+
+    const logEntry = {
+      timestamp: new Date().toISOString(),
+      user_id: user.Username,
+      email: email || 'unknown',
+      user_pool_id: this.credentials.userPoolId,
+      reason,
+      error
+    };
+
+    this.skippedUsersStream.write(JSON.stringify(logEntry) + '\n');
+  }
+
+  /**
+   * Wait until everything written so far has been flushed
+   */
+  private async flushStream(writeStream: WriteStream): Promise<void> {
+    return new Promise((resolve, reject) => {
+      writeStream.write('', (err: Error | null | undefined) => {
+        if (err) reject(err);
+        else resolve();
+      });
+    });
+  }
+
+  /**
+   * Close write stream
+   */
+  private async closeStream(writeStream: WriteStream): Promise<void> {
+    return new Promise((resolve, reject) => {
+      writeStream.end((err: Error | null | undefined) => {
+        if (err) reject(err);
+        else resolve();
+      });
+    });
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * Cognito to WorkOS field mapping
+ * Transforms Cognito user pool users to WorkOS CSV format
+ */
+
+import type { CognitoUser } from '../types.js';
+import type { CSVRow } from '../../types.js';
+import { parseBooleanLike } from '../../boolean.js';
+
+/**
+ * Standard attributes mapped to dedicated CSV columns
+ * Everything else is preserved in metadata
+ */
+const MAPPED_ATTRIBUTES = new Set(['sub', 'email', 'email_verified', 'given_name', 'family_name', 'name']);
+
+export interface CognitoMappingOptions {
+  /** Attribute holding the organization ID, e.g. "custom:tenant_id" */
+  orgIdAttribute?: string;
+  /** Attribute holding the organization name, e.g. "custom:tenant_name" */
+  orgNameAttribute?: string;
+  /** Cognito group names the user belongs to */
+  groups?: string[];
+}
+
+/**
+ * Flatten Cognito's [{ Name, Value }] attribute list into a map
+ */
+export function getCognitoAttributes(user: CognitoUser): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const attr of user.Attributes ?? []) {
+    if (attr.Value !== undefined) {
+      attributes[attr.Name] = attr.Value;
+    }
+  }
+  return attributes;
+}
+
+/**
+ * Convert a Cognito group name to a WorkOS role slug
+ * e.g. "Billing Admins" → "billing-admins"
+ */
+export function groupNameToRoleSlug(groupName: string): string {
+  return groupName
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Map Cognito user to WorkOS CSV row
+ * @param user Cognito user object
+ * @param options Org attribute names and group membership
+ */
+export function mapCognitoUserToWorkOS(
+  user: CognitoUser,
+  options: CognitoMappingOptions = {}
+): CSVRow {
+  const attributes = getCognitoAttributes(user);
+  const { orgIdAttribute, orgNameAttribute, groups = [] } = options;
+
+  // Extract first and last name
+  let firstName = attributes.given_name;
+  let lastName = attributes.family_name;
+
+  // Fallback: parse 'name' attribute if given_name/family_name not available
+  if (!firstName && !lastName && attributes.name) {
+    const nameParts = attributes.name.trim().split(/\s+/);
+    firstName = nameParts[0];
+    lastName = nameParts.slice(1).join(' ') || undefined;
+  }
+
+  // Preserve remaining attributes; custom:* attributes lose their prefix
+  const metadata: Record<string, string> = {};
+  for (const [name, value] of Object.entries(attributes)) {
+    if (MAPPED_ATTRIBUTES.has(name) || name === orgIdAttribute || name === orgNameAttribute) {
+      continue;
+    }
+    const key = name.startsWith('custom:') ? name.slice('custom:'.length) : name;
+    metadata[key] = value;
+  }
+
+  // Add Cognito-specific fields to metadata for reference
+  metadata.cognito_username = user.Username;
+  if (user.UserStatus) {
+    metadata.cognito_status = user.UserStatus;
+  }
+  if (user.UserCreateDate !== undefined) {
+    metadata.cognito_created_at = new Date(user.UserCreateDate * 1000).toISOString();
+  }
+  if (groups.length > 0) {
+    metadata.cognito_groups = JSON.stringify(groups);
+  }
+
+  const roleSlugs = [...new Set(groups.map(groupNameToRoleSlug).filter(Boolean))];
+
+  const csvRow: CSVRow = {
+    email: attributes.email,
+    first_name: firstName,
+    last_name: lastName,
+    email_verified: parseBooleanLike(attributes.email_verified) ?? false,
+    external_id: attributes.sub ?? user.Username,
+    metadata: JSON.stringify(metadata),
+
+    // Organization mapping (from configured attributes)
+    org_external_id: orgIdAttribute ? attributes[orgIdAttribute] : undefined,
+    org_name: orgNameAttribute ? attributes[orgNameAttribute] : undefined,
+
+    // Group membership → role slugs
+    role_slugs: roleSlugs.length > 0 ? roleSlugs.join(',') : undefined
+  };
+
+  return csvRow;
+}
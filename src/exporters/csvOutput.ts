@@ -0,0 +1,67 @@
+/**
+ * Shared CSV output helpers for provider exporters
+ * Keeps every exporter writing the same WorkOS-compatible column layout
+ */
+
+/**
+ * Column order matches WorkOS import expectations
+ */
+export const EXPORT_CSV_COLUMNS = [
+  'email',
+  'first_name',
+  'last_name',
+  'email_verified',
+  'external_id',
+  'org_external_id',
+  'org_name',
+  'metadata'
+] as const;
+
+/**
+ * Format the CSV header line (including trailing newline)
+ */
+export function formatCsvHeader(columns: readonly string[] = EXPORT_CSV_COLUMNS): string {
+  return columns.join(',') + '\n';
+}
+
+/**
+ * Format a CSV row (including trailing newline)
+ * Handles proper escaping of values
+ */
+export function formatCsvRow(
+  row: Record<string, unknown>,
+  columns: readonly string[] = EXPORT_CSV_COLUMNS
+): string {
+  const values = columns.map(col => {
+    const value = row[col];
+
+    if (value === undefined || value === null) {
+      return '';
+    }
+
+    // Convert boolean to string
+    if (typeof value === 'boolean') {
+      return value ? 'true' : 'false';
+    }
+
+    // Convert to string and escape if it contains special characters
+    return escapeCsvValue(String(value));
+  });
+
+  return values.join(',') + '\n';
+}
+
+/**
+ * Escape CSV value
+ * Wraps in quotes if contains comma, newline, or quote
+ */
+export function escapeCsvValue(value: string): string {
+  // If value contains comma, newline, carriage return, or quote
+  if (/[,"\n\r]/.test(value)) {
+    // Escape quotes by doubling them
+    const escaped = value.replace(/"/g, '""');
+    return `"${escaped}"`;
+  }
+
+  return value;
+}
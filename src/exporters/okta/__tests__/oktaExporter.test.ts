@@ -0,0 +1,327 @@
+/**
+ * Tests for Okta exporter (mapper, Link pagination, end-to-end against a local stub)
+ *
+ * Usage: npx tsx src/exporters/okta/__tests__/oktaExporter.test.ts
+ */
+
+import { strict as assert } from 'node:assert';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { mkdirSync, rmSync, readFileSync, writeFileSync, existsSync } from 'node:fs';
+import path from 'node:path';
+import type { OktaUser, OktaGroup } from '../../types.js';
+
+const TEST_DIR = path.join(process.cwd(), '.temp-okta-export-tests');
+
+function makeUser(id: string, email: string, status: string = 'ACTIVE'): OktaUser {
+  return {
+    id,
+    status,
+    created: '2024-01-15T10:30:00.000Z',
+    lastLogin: '2024-06-01T08:00:00.000Z',
+    profile: {
+      login: email,
+      email,
+      firstName: 'Test',
+      lastName: id,
+      department: 'Engineering'
+    }
+  };
+}
+
+const GROUPS: OktaGroup[] = [
+  { id: '00g_everyone', type: 'BUILT_IN', profile: { name: 'Everyone' } },
+  { id: '00g_acme', type: 'OKTA_GROUP', profile: { name: 'Acme Corp' } },
+  { id: '00g_beta', type: 'OKTA_GROUP', profile: { name: 'Beta, Inc' } }
+];
+
+const MEMBERS: Record<string, OktaUser[]> = {
+  '00g_acme': [
+    makeUser('00u1', 'alice@acme.com'),
+    makeUser('00u2', 'bob@acme.com'),
+    makeUser('00u3', 'carol@acme.com', 'DEPROVISIONED')
+  ],
+  '00g_beta': [makeUser('00u4', 'dave@beta.com')]
+};
+
+// GET /api/v1/users lists everyone but deprovisioned users, whatever their groups
+const USERS: OktaUser[] = [
+  MEMBERS['00g_acme']![0]!,
+  MEMBERS['00g_acme']![1]!,
+  MEMBERS['00g_beta']![0]!,
+  makeUser('00u5', 'erin@solo.com'),
+  makeUser('00u6', 'gus@solo.com', 'SUSPENDED')
+];
+
+/**
+ * Minimal Okta API stub: pages users and group members one user at a time via Link headers
+ */
+function startStub(): Promise<{ server: http.Server; baseUrl: string; requests: string[] }> {
+  const requests: string[] = [];
+  const server = http.createServer((req, res) => {
+    requests.push(req.url || '');
+    const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    if (req.headers.authorization !== 'SSWS test-token') {
+      res.writeHead(401, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ errorCode: 'E0000011', errorSummary: 'Invalid token provided' }));
+      return;
+    }
+
+    const url = new URL(req.url || '/', baseUrl);
+
+    if (url.pathname === '/api/v1/groups') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(GROUPS));
+      return;
+    }
+
+    const match = url.pathname.match(/^\/api\/v1\/groups\/([^/]+)\/users$/);
+    if (match?.[1] === '00g_broken') {
+      res.writeHead(403, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ errorCode: 'E0000006', errorSummary: 'You do not have permission' }));
+      return;
+    }
+    if (match || url.pathname === '/api/v1/users') {
+      const members = match ? MEMBERS[match[1]!] ?? [] : USERS;
+      const offset = parseInt(url.searchParams.get('after') ?? '0', 10);
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (offset + 1 < members.length) {
+        headers['Link'] = `<${baseUrl}${url.pathname}?limit=1>; rel="self", <${baseUrl}${url.pathname}?after=${offset + 1}&limit=1>; rel="next"`;
+      }
+      res.writeHead(200, headers);
+      res.end(JSON.stringify(members.slice(offset, offset + 1)));
+      return;
+    }
+
+    res.writeHead(404);
+    res.end('{}');
+  });
+
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, baseUrl: `http://127.0.0.1:${port}`, requests });
+    });
+  });
+}
+
+async function runTests() {
+  mkdirSync(TEST_DIR, { recursive: true });
+  let passed = 0;
+  let failed = 0;
+
+  async function test(name: string, fn: () => Promise<void> | void) {
+    try {
+      await fn();
+      console.log(`  ✓ ${name}`);
+      passed++;
+    } catch (err: any) {
+      console.log(`  ✗ ${name}`);
+      console.log(`    ${err.message}`);
+      failed++;
+    }
+  }
+
+  const { mapOktaUserToWorkOS } = await import('../oktaMapper.js');
+  const { parseNextLink } = await import('../oktaClient.js');
+  const { OktaExporter } = await import('../oktaExporter.js');
+
+  console.log('Okta Exporter tests\n');
+
+  // --- Mapper ---
+  console.log('mapOktaUserToWorkOS:');
+
+  await test('maps profile fields and group to CSV row', () => {
+    const row = mapOktaUserToWorkOS(makeUser('00u1', 'alice@acme.com'), GROUPS[1]);
+    assert.strictEqual(row.email, 'alice@acme.com');
+    assert.strictEqual(row.first_name, 'Test');
+    assert.strictEqual(row.last_name, '00u1');
+    assert.strictEqual(row.email_verified, true);
+    assert.strictEqual(row.external_id, '00u1');
+    assert.strictEqual(row.org_external_id, '00g_acme');
+    assert.strictEqual(row.org_name, 'Acme Corp');
+
+    const metadata = JSON.parse(row.metadata as string);
+    assert.strictEqual(metadata.department, 'Engineering');
+    assert.strictEqual(metadata.okta_user_id, '00u1');
+    assert.strictEqual(metadata.okta_status, 'ACTIVE');
+    assert.strictEqual(metadata.login, undefined, 'login equal to email should not be duplicated');
+  });
+
+  await test('falls back to login when email is missing', () => {
+    const user = makeUser('00u9', 'x@y.com');
+    user.profile.email = undefined;
+    const row = mapOktaUserToWorkOS(user);
+    assert.strictEqual(row.email, 'x@y.com');
+    assert.strictEqual(row.org_external_id, undefined);
+  });
+
+  await test('staged users are not email verified', () => {
+    const row = mapOktaUserToWorkOS(makeUser('00u8', 's@y.com', 'STAGED'));
+    assert.strictEqual(row.email_verified, false);
+  });
+
+  // --- Link header parsing ---
+  console.log('\nparseNextLink:');
+
+  await test('extracts rel="next" URL', () => {
+    const link = '<https://x.okta.com/api/v1/users?limit=2>; rel="self", <https://x.okta.com/api/v1/users?after=00u2&limit=2>; rel="next"';
+    assert.strictEqual(parseNextLink(link), 'https://x.okta.com/api/v1/users?after=00u2&limit=2');
+  });
+
+  await test('returns undefined without next link', () => {
+    assert.strictEqual(parseNextLink('<https://x.okta.com/api/v1/users>; rel="self"'), undefined);
+    assert.strictEqual(parseNextLink(null), undefined);
+  });
+
+  // --- End-to-end against stub ---
+  console.log('\nOktaExporter (local stub):');
+
+  const { server, baseUrl } = await startStub();
+
+  await test('exports group members to CSV, skipping built-in groups and deprovisioned users', async () => {
+    const outputPath = path.join(TEST_DIR, 'okta-export.csv');
+    const exporter = new OktaExporter({
+      credentials: { type: 'okta', domain: baseUrl, apiToken: 'test-token' },
+      outputPath,
+      rateLimit: 1000,
+      quiet: true
+    });
+
+    const result = await exporter.export();
+    assert.strictEqual(result.summary.totalOrgs, 2);
+    assert.strictEqual(result.summary.totalUsers, 4);
+    assert.strictEqual(result.summary.skippedUsers, 2);
+    assert.strictEqual(result.summary.usersWithoutOrg, 1);
+
+    const lines = readFileSync(outputPath, 'utf8').trim().split('\n');
+    assert.strictEqual(lines[0], 'email,first_name,last_name,email_verified,external_id,org_external_id,org_name,metadata');
+    assert.strictEqual(lines.length, 5);
+    assert.ok(lines.some(l => l.startsWith('dave@beta.com') && l.includes('"Beta, Inc"')));
+    assert.ok(!lines.some(l => l.includes('carol@acme.com')));
+    assert.ok(!lines.some(l => l.includes('gus@solo.com')), 'Suspended users without a group are skipped');
+    assert.strictEqual(lines.filter(l => l.startsWith('alice@acme.com')).length, 1, 'Grouped users are not repeated');
+  });
+
+  await test('exports users without a group as user-only rows', async () => {
+    const outputPath = path.join(TEST_DIR, 'okta-ungrouped.csv');
+    await new OktaExporter({
+      credentials: { type: 'okta', domain: baseUrl, apiToken: 'test-token' },
+      outputPath,
+      rateLimit: 1000,
+      quiet: true
+    }).export();
+
+    const erin = readFileSync(outputPath, 'utf8').trim().split('\n').find(l => l.startsWith('erin@solo.com'));
+    assert.ok(erin?.startsWith('erin@solo.com,Test,00u5,true,00u5,,,'), 'No org columns');
+  });
+
+  await test('--groups leaves users without a group out', async () => {
+    const result = await new OktaExporter({
+      credentials: { type: 'okta', domain: baseUrl, apiToken: 'test-token' },
+      outputPath: path.join(TEST_DIR, 'okta-filtered.csv'),
+      organizationFilter: ['00g_beta'],
+      rateLimit: 1000,
+      quiet: true
+    }).export();
+    assert.strictEqual(result.summary.totalUsers, 1);
+    assert.strictEqual(result.summary.usersWithoutOrg, 0);
+  });
+
+  await test('resumes from checkpoint without re-exporting completed groups', async () => {
+    const outputPath = path.join(TEST_DIR, 'okta-resume.csv');
+    const checkpointDir = path.join(TEST_DIR, 'checkpoints');
+    const credentials = { type: 'okta' as const, domain: baseUrl, apiToken: 'test-token' };
+
+    await new OktaExporter({
+      credentials, outputPath, rateLimit: 1000, quiet: true, jobId: 'okta-job', checkpointDir
+    }).export();
+    assert.ok(existsSync(path.join(checkpointDir, 'okta-job', 'export-checkpoint.json')));
+
+    const resumed = await new OktaExporter({
+      credentials, outputPath, rateLimit: 1000, quiet: true, resume: 'okta-job', checkpointDir
+    }).export();
+
+    assert.strictEqual(resumed.summary.totalUsers, 0, 'All groups already completed');
+    const lines = readFileSync(outputPath, 'utf8').trim().split('\n');
+    assert.strictEqual(lines.length, 5, 'Resume should not duplicate rows');
+  });
+
+  await test('resume exports users without a group after the groups completed', async () => {
+    const outputPath = path.join(TEST_DIR, 'okta-resume-ungrouped.csv');
+    const checkpointDir = path.join(TEST_DIR, 'checkpoints');
+    const credentials = { type: 'okta' as const, domain: baseUrl, apiToken: 'test-token' };
+
+    await new OktaExporter({
+      credentials, outputPath, rateLimit: 1000, quiet: true, jobId: 'okta-ungrouped-job', checkpointDir
+    }).export();
+
+    // Simulate an interruption right after the last group: no user-list cursor, no ungrouped rows
+    const checkpointPath = path.join(checkpointDir, 'okta-ungrouped-job', 'export-checkpoint.json');
+    const state = JSON.parse(readFileSync(checkpointPath, 'utf8'));
+    delete state.cursor;
+    state.status = 'in_progress';
+    writeFileSync(checkpointPath, JSON.stringify(state));
+    writeFileSync(outputPath, readFileSync(outputPath, 'utf8').split('\n').filter(l => !l.startsWith('erin@')).join('\n'));
+
+    const resumed = await new OktaExporter({
+      credentials, outputPath, rateLimit: 1000, quiet: true, resume: 'okta-ungrouped-job', checkpointDir
+    }).export();
+
+    assert.strictEqual(resumed.summary.usersWithoutOrg, 1);
+    const emails = readFileSync(outputPath, 'utf8').trim().split('\n').slice(1).map(l => l.split(',')[0]);
+    assert.deepStrictEqual(emails.sort(), ['alice@acme.com', 'bob@acme.com', 'dave@beta.com', 'erin@solo.com']);
+  });
+
+  await test('reports groups that failed to export so the CSV is known to be partial', async () => {
+    GROUPS.push({ id: '00g_broken', type: 'OKTA_GROUP', profile: { name: 'Broken' } });
+    try {
+      const result = await new OktaExporter({
+        credentials: { type: 'okta', domain: baseUrl, apiToken: 'test-token' },
+        outputPath: path.join(TEST_DIR, 'okta-partial.csv'),
+        rateLimit: 1000,
+        quiet: true
+      }).export();
+      assert.deepStrictEqual(result.summary.failedOrganizations, ['Broken']);
+      assert.strictEqual(result.summary.totalUsers, 3, 'Other groups are still exported');
+      assert.strictEqual(result.summary.usersWithoutOrg, 0, 'Members of the failed group are unknown');
+      assert.ok(result.warnings.some(w => w.startsWith('Skipped users without a group')));
+    } finally {
+      GROUPS.pop();
+    }
+  });
+
+  await test('validate() reports invalid token', async () => {
+    const exporter = new OktaExporter({
+      credentials: { type: 'okta', domain: baseUrl, apiToken: 'wrong' },
+      outputPath: path.join(TEST_DIR, 'unused.csv'),
+      quiet: true
+    });
+    const validation = await exporter.validate();
+    assert.strictEqual(validation.valid, false);
+    assert.ok(validation.errors[0]?.includes('Invalid token'));
+  });
+
+  await test('rejects non-Okta credentials', () => {
+    assert.throws(() => new OktaExporter({
+      credentials: { type: 'auth0', domain: 'x', clientId: 'a', clientSecret: 'b' },
+      outputPath: 'x.csv'
+    }), /Okta credentials/);
+  });
+
+  server.close();
+  rmSync(TEST_DIR, { recursive: true, force: true });
+
+  // Summary
+  console.log(`\n${passed} passed, ${failed} failed`);
+  if (failed > 0) {
+    process.exit(1);
+  }
+  process.exit(0);
+}
+
+runTests().catch((err) => {
+  console.error('Unhandled error:', err);
+  process.exit(1);
+});
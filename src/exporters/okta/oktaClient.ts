@@ -0,0 +1,241 @@
+/**
+ * Okta Management API client wrapper
+ * Provides cursor pagination (Link headers) and rate limiting
+ */
+
+import type { OktaCredentials, OktaUser, OktaGroup } from '../types.js';
+import { RateLimiter } from '../../rateLimiter.js';
+
+/**
+ * A single page of results plus the cursor URL for the next page
+ */
+export interface OktaPage<T> {
+  items: T[];
+  nextUrl?: string;
+}
+
+export class OktaClient {
+  private credentials: OktaCredentials;
+  private baseUrl: string;
+  private rateLimiter: RateLimiter;
+
+  constructor(credentials: OktaCredentials, rateLimit: number = 50) {
+    this.credentials = credentials;
+
+    // Allow an explicit scheme (e.g. http://127.0.0.1:8080 for local stubs)
+    const domain = credentials.domain.replace(/\/+$/, '');
+    this.baseUrl = /^https?:\/\//i.test(domain) ? domain : `https://${domain}`;
+
+    // Initialize rate limiter (Okta org-wide limits vary by endpoint and plan)
+    this.rateLimiter = new RateLimiter(rateLimit);
+  }
+
+  /**
+   * Make a rate-limited API call to the Okta Management API
+   * Automatically handles rate limiting and retries on 429 errors
+   * @param pathOrUrl API path (e.g. /api/v1/groups) or absolute cursor URL
+   */
+  async makeApiCall(pathOrUrl: string): Promise<Response> {
+    const url = /^https?:\/\//i.test(pathOrUrl) ? pathOrUrl : `${this.baseUrl}${pathOrUrl}`;
+
+    return this.retryWithRateLimit(
+      async () => {
+        const response = await fetch(url, {
+          headers: {
+            'Authorization': `SSWS ${this.credentials.apiToken}`,
+            'Accept': 'application/json'
+          }
+        });
+
+        // Throw error for rate limits so retry logic can handle it
+        if (response.status === 429) {
+          const error: any = new Error('Rate limit exceeded');
+          error.statusCode = 429;
+          error.rateLimitReset = response.headers.get('X-Rate-Limit-Reset');
+          throw error;
+        }
+
+        if (!response.ok) {
+          const body = await response.text();
+          const error: any = new Error(
+            `Okta API error ${response.status}: ${extractOktaErrorSummary(body)}`
+          );
+          error.statusCode = response.status;
+          throw error;
+        }
+
+        return response;
+      },
+      5, // Max 5 retries for 429 errors
+      2000 // Start with 2 second delay
+    );
+  }
+
+  /**
+   * Retry wrapper with rate limiting and exponential backoff
+   * Handles 429 rate limit errors automatically
+   */
+  private async retryWithRateLimit<T>(
+    apiCall: () => Promise<T>,
+    maxRetries: number = 3,
+    baseDelayMs: number = 1000
+  ): Promise<T> {
+    let attempt = 0;
+
+    while (true) {
+      try {
+        // Acquire rate limit token before API call
+        await this.rateLimiter.acquire();
+
+        // Execute the API call
+        return await apiCall();
+      } catch (error: any) {
+        const isRateLimited = error?.statusCode === 429;
+
+        attempt += 1;
+
+        if (isRateLimited && attempt <= maxRetries) {
+          // Calculate exponential backoff delay
+          let delay = baseDelayMs * Math.pow(2, attempt - 1);
+
+          // Okta sends X-Rate-Limit-Reset as a UTC epoch timestamp (seconds)
+          const reset = parseInt(error.rateLimitReset ?? '', 10);
+          if (!isNaN(reset)) {
+            delay = Math.max(0, reset * 1000 - Date.now()) + 1000;
+          }
+
+          // Wait before retrying
+          await new Promise(resolve => setTimeout(resolve, delay));
+          continue;
+        }
+
+        // Not rate limited, or max retries exceeded
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Fetch one page of a list endpoint and parse its Link header
+   */
+  private async getPage<T>(pathOrUrl: string): Promise<OktaPage<T>> {
+    const response = await this.makeApiCall(pathOrUrl);
+    const items = (await response.json()) as T[];
+    const nextUrl = parseNextLink(response.headers.get('link'));
+
+    return { items: Array.isArray(items) ? items : [], nextUrl };
+  }
+
+  /**
+   * Get groups with cursor pagination
+   * @param cursor Absolute next-page URL from a previous page (omit for the first page)
+   * @param limit Items per page (Okta max: 10000 for groups, 200 recommended)
+   */
+  async getGroups(cursor?: string, limit: number = 200): Promise<OktaPage<OktaGroup>> {
+    try {
+      return await this.getPage<OktaGroup>(cursor ?? `/api/v1/groups?limit=${limit}`);
+    } catch (error: any) {
+      throw new Error(
+        `Failed to fetch groups from Okta: ${error.message || String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Get members of a group with cursor pagination
+   * @param groupId Group ID
+   * @param cursor Absolute next-page URL from a previous page (omit for the first page)
+   * @param limit Items per page
+   */
+  async getGroupMembers(
+    groupId: string,
+    cursor?: string,
+    limit: number = 200
+  ): Promise<OktaPage<OktaUser>> {
+    try {
+      return await this.getPage<OktaUser>(
+        cursor ?? `/api/v1/groups/${encodeURIComponent(groupId)}/users?limit=${limit}`
+      );
+    } catch (error: any) {
+      // Group deleted between listing and export - treat as empty
+      if (error.statusCode === 404) {
+        return { items: [] };
+      }
+
+      throw new Error(
+        `Failed to fetch members for group ${groupId}: ${error.message || String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Get all users (not group-specific) with cursor pagination
+   * @param cursor Absolute next-page URL from a previous page (omit for the first page)
+   * @param limit Items per page
+   */
+  async getUsers(cursor?: string, limit: number = 200): Promise<OktaPage<OktaUser>> {
+    try {
+      return await this.getPage<OktaUser>(cursor ?? `/api/v1/users?limit=${limit}`);
+    } catch (error: any) {
+      throw new Error(
+        `Failed to fetch users from Okta: ${error.message || String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Test connection to Okta
+   * Verifies the API token is valid
+   */
+  async testConnection(): Promise<{ success: boolean; error?: string }> {
+    try {
+      await this.getGroups(undefined, 1);
+      return { success: true };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || String(error)
+      };
+    }
+  }
+
+  /**
+   * Stop the rate limiter
+   * Call this when done with the client to clean up timers
+   */
+  stop(): void {
+    this.rateLimiter.stop();
+  }
+}
+
+/**
+ * Extract the rel="next" URL from an Okta Link header
+ * Okta returns e.g. `<https://x.okta.com/api/v1/users?after=00u1&limit=200>; rel="next"`
+ */
+export function parseNextLink(linkHeader: string | null): string | undefined {
+  if (!linkHeader) return undefined;
+
+  for (const part of linkHeader.split(',')) {
+    const match = part.match(/<([^>]+)>\s*;\s*rel="?next"?/i);
+    if (match) {
+      return match[1];
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Summarize an Okta error body ({ errorCode, errorSummary }) for messages
+ */
+function extractOktaErrorSummary(body: string): string {
+  try {
+    const parsed = JSON.parse(body);
+    if (parsed?.errorSummary) {
+      return parsed.errorCode ? `${parsed.errorCode} ${parsed.errorSummary}` : parsed.errorSummary;
+    }
+  } catch {
+    // Not JSON - fall through to raw body
+  }
+  return body.slice(0, 200);
+}
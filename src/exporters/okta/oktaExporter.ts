@@ -0,0 +1,505 @@
+/**
+ * Okta Exporter
+ * Exports users and groups from Okta to WorkOS-compatible CSV format
+ * Each Okta group becomes a WorkOS organization (group ID → org_external_id)
+ * Users in no exported group are written as user-only rows
+ * Supports checkpointing for resumable exports (one checkpoint entry per group,
+ * plus a page cursor for the users without a group)
+ */
+
+import { createWriteStream, WriteStream } from 'node:fs';
+import fs from 'node:fs';
+import type {
+  ExporterConfig,
+  ExportResult,
+  OktaCredentials,
+  OktaGroup,
+  BaseExporter
+} from '../types.js';
+import { OktaClient } from './oktaClient.js';
+import {
+  mapOktaUserToWorkOS,
+  getOktaUserEmail,
+  DEACTIVATED_STATUSES,
+  BUILT_IN_GROUP_TYPE
+} from './oktaMapper.js';
+import { validateMappedRow } from '../auth0/auth0Mapper.js';
+import { ExportCheckpointManager } from '../checkpoint/exportCheckpointManager.js';
+import { ExportProgressUI } from '../../ui/exportProgressUI.js';
+import { formatCsvHeader, formatCsvRow } from '../csvOutput.js';
+
+export class OktaExporter implements BaseExporter {
+  private client: OktaClient;
+  private config: ExporterConfig;
+  private checkpointManager?: ExportCheckpointManager;
+  private progressUI: ExportProgressUI;
+  private skippedUsersStream?: WriteStream;
+  private exportStartTime: number = 0;
+  /** Groups whose export failed in this run */
+  private failedOrganizations: string[] = [];
+
+  constructor(config: ExporterConfig) {
+    if (config.credentials.type !== 'okta') {
+      throw new Error('OktaExporter requires Okta credentials');
+    }
+
+    this.config = config;
+    const rateLimit = config.rateLimit ?? 50;
+    this.client = new OktaClient(config.credentials as OktaCredentials, rateLimit);
+    this.progressUI = new ExportProgressUI(config.quiet);
+  }
+
+  /**
+   * Export users and groups from Okta to CSV
+   */
+  async export(): Promise<ExportResult> {
+    const startTime = Date.now();
+    this.exportStartTime = startTime;
+    const warnings: string[] = [];
+    let isResume = false;
+
+    // Handle checkpoint resume
+    if (this.config.resume) {
+      const resumeJobId = typeof this.config.resume === 'string'
+        ? this.config.resume
+        : this.config.jobId;
+
+      if (!resumeJobId) {
+        throw new Error('Resume requires a jobId (provide via --job-id or --resume <jobId>)');
+      }
+
+      if (!ExportCheckpointManager.exists(resumeJobId, this.config.checkpointDir)) {
+        throw new Error(`No checkpoint found for job ID: ${resumeJobId}`);
+      }
+
+      this.checkpointManager = await ExportCheckpointManager.resume(
+        { jobId: resumeJobId, checkpointDir: this.config.checkpointDir },
+        this.config.credentials
+      );
+
+      isResume = true;
+
+      const completed = this.checkpointManager.getCompletedOrganizations();
+      const pending = this.checkpointManager.getPendingOrganizations();
+      this.progressUI.logCheckpointResume(resumeJobId, completed.length, pending.length);
+    }
+
+    // Determine write stream mode (append for resume, write for new)
+    const writeMode = isResume && fs.existsSync(this.config.outputPath);
+    const writeStream = createWriteStream(this.config.outputPath, {
+      encoding: 'utf-8',
+      flags: writeMode ? 'a' : 'w'
+    });
+
+    // Create skipped users log file
+    const skippedUsersPath = this.config.outputPath.replace('.csv', '-skipped.jsonl');
+    this.skippedUsersStream = createWriteStream(skippedUsersPath, {
+      encoding: 'utf-8',
+      flags: writeMode ? 'a' : 'w'
+    });
+
+    try {
+      // Write CSV header only if not resuming
+      if (!writeMode) {
+        writeStream.write(formatCsvHeader());
+      }
+
+      const groupResult = await this.exportGroups(writeStream, warnings);
+      const ungrouped = await this.exportUsersWithoutGroup(writeStream, warnings, groupResult.groupedUserIds);
+      const totalUsers = groupResult.totalUsers + ungrouped.usersExported;
+      const skippedUsers = groupResult.skippedUsers + ungrouped.usersSkipped;
+      const { totalOrgs } = groupResult;
+
+      await this.closeStream(writeStream);
+      await this.closeStream(this.skippedUsersStream);
+
+      // Mark checkpoint as completed
+      if (this.checkpointManager) {
+        await this.checkpointManager.complete();
+      }
+
+      const endTime = Date.now();
+      const duration = endTime - startTime;
+
+      this.client.stop();
+
+      const failedOrgs = this.checkpointManager
+        ? this.checkpointManager.getFailedOrganizations().length
+        : 0;
+
+      this.progressUI.displaySummary({
+        totalOrgs,
+        completedOrgs: totalOrgs - failedOrgs,
+        failedOrgs,
+        totalUsers,
+        skippedUsers,
+        duration,
+        throughput: totalUsers / (duration / 1000),
+        warnings: warnings.length
+      });
+
+      if (skippedUsers > 0 && !this.config.quiet) {
+        console.log(`\nℹ Skipped users logged to: ${skippedUsersPath}`);
+      }
+
+      return {
+        outputPath: this.config.outputPath,
+        summary: {
+          totalUsers,
+          totalOrgs,
+          skippedUsers,
+          usersWithoutOrg: ungrouped.usersExported,
+          failedOrganizations: this.failedOrganizations,
+          startedAt: startTime,
+          endedAt: endTime,
+          durationMs: duration
+        },
+        warnings
+      };
+    } catch (error: any) {
+      writeStream.end();
+      this.skippedUsersStream?.end();
+
+      if (this.checkpointManager) {
+        await this.checkpointManager.fail(error.message || String(error));
+      }
+
+      this.client.stop();
+
+      throw new Error(
+        `Export failed: ${error.message || String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Validate connection to Okta
+   */
+  async validate(): Promise<{ valid: boolean; errors: string[] }> {
+    const result = await this.client.testConnection();
+    return {
+      valid: result.success,
+      errors: result.success ? [] : [result.error || 'Connection test failed']
+    };
+  }
+
+  /**
+   * Export all groups and their members
+   */
+  private async exportGroups(
+    writeStream: WriteStream,
+    warnings: string[]
+  ): Promise<{
+    totalUsers: number;
+    totalOrgs: number;
+    skippedUsers: number;
+    groupedUserIds: Set<string>;
+  }> {
+    let totalUsers = 0;
+    let skippedUsers = 0;
+    // Members of every exported group, so the ungrouped pass can leave them out
+    const groupedUserIds = new Set<string>();
+
+    // Step 1: Fetch all groups (built-in groups like "Everyone" are not organizations)
+    const allGroups = await this.fetchAllGroups();
+    const groups = allGroups.filter(group =>
+      group.type !== BUILT_IN_GROUP_TYPE &&
+      (!this.config.organizationFilter || this.config.organizationFilter.includes(group.id))
+    );
+    const totalOrgs = groups.length;
+
+    this.progressUI.logInfo(`Found ${totalOrgs} groups (${allGroups.length - totalOrgs} built-in or filtered out)`);
+
+    // Step 1.5: Create checkpoint if jobId provided and not resuming
+    if (this.config.jobId && !this.checkpointManager) {
+      this.checkpointManager = await ExportCheckpointManager.create(
+        this.config.jobId,
+        this.config.outputPath,
+        this.config.credentials,
+        groups.map(group => ({ id: group.id, name: group.profile.name })),
+        {
+          organizationFilter: this.config.organizationFilter,
+          checkpointDir: this.config.checkpointDir
+        }
+      );
+
+      this.progressUI.logCheckpointCreated(this.config.jobId);
+    }
+
+    this.progressUI.startExport(totalOrgs);
+
+    // Get completed groups (for resume)
+    const completedGroupIds = new Set(
+      this.checkpointManager
+        ? this.checkpointManager.getCompletedOrganizations().map(o => o.orgId)
+        : []
+    );
+
+    // Step 2: For each group, export members
+    for (const group of groups) {
+      const groupName = group.profile.name;
+
+      if (completedGroupIds.has(group.id)) {
+        this.progressUI.logOrgSkipped(groupName);
+        if (this.needsUngroupedPass()) {
+          await this.collectGroupMemberIds(group.id, groupedUserIds);
+        }
+        continue;
+      }
+
+      if (this.checkpointManager) {
+        await this.checkpointManager.startOrganization(group.id);
+      }
+
+      let groupUserCount = 0;
+      let groupSkippedUsers = 0;
+
+      try {
+        let cursor: string | undefined;
+
+        do {
+          const page = await this.client.getGroupMembers(
+            group.id,
+            cursor,
+            this.config.pageSize ?? 200
+          );
+          cursor = page.nextUrl;
+
+          for (const user of page.items) {
+            groupedUserIds.add(user.id);
+
+            // Deactivated users are excluded unless explicitly requested
+            if (DEACTIVATED_STATUSES.has(user.status) && !this.config.includeDeleted) {
+              this.logSkippedUser(user.id, getOktaUserEmail(user), group, `User status is ${user.status}`);
+              groupSkippedUsers++;
+              continue;
+            }
+
+            const csvRow = mapOktaUserToWorkOS(user, group);
+
+            const validationError = validateMappedRow(csvRow);
+            if (validationError) {
+              this.logSkippedUser(user.id, getOktaUserEmail(user), group, 'Validation failed', validationError);
+              warnings.push(`Skipped user ${user.id} in group ${groupName}: ${validationError}`);
+              groupSkippedUsers++;
+              continue;
+            }
+
+            writeStream.write(formatCsvRow(csvRow));
+            totalUsers++;
+            groupUserCount++;
+
+            // Progress callback every 100 users
+            if (this.config.onProgress && totalUsers % 100 === 0) {
+              this.config.onProgress({
+                usersProcessed: totalUsers,
+                orgsProcessed: totalOrgs,
+                currentOrg: groupName,
+                elapsedMs: Date.now() - this.exportStartTime
+              });
+            }
+          }
+        } while (cursor);
+
+        if (this.checkpointManager) {
+          await this.checkpointManager.completeOrganization(
+            group.id,
+            groupUserCount,
+            groupSkippedUsers
+          );
+        }
+
+        skippedUsers += groupSkippedUsers;
+        const completedOrgs = this.checkpointManager
+          ? this.checkpointManager.getCompletedOrganizations().length
+          : 0;
+
+        this.progressUI.updateProgress(completedOrgs, totalUsers);
+        this.progressUI.logOrgComplete(groupName, groupUserCount, groupSkippedUsers);
+      } catch (error: any) {
+        if (this.checkpointManager) {
+          await this.checkpointManager.failOrganization(
+            group.id,
+            error.message || String(error)
+          );
+        }
+
+        const errorMsg = error.message || String(error);
+        warnings.push(`Failed to export group ${groupName}: ${errorMsg}`);
+        this.failedOrganizations.push(groupName);
+        this.progressUI.logOrgFailed(groupName, errorMsg);
+
+        // Continue with next group instead of failing entire export
+      }
+    }
+
+    return { totalUsers, totalOrgs, skippedUsers, groupedUserIds };
+  }
+
+  /**
+   * Export users that are in none of the exported groups as user-only rows.
+   * Skipped with --groups (the export is limited to those groups) and when a
+   * group failed, since its members are unknown; resume exports them later.
+   */
+  private async exportUsersWithoutGroup(
+    writeStream: WriteStream,
+    warnings: string[],
+    groupedUserIds: Set<string>
+  ): Promise<{ usersExported: number; usersSkipped: number }> {
+    let usersExported = 0;
+    let usersSkipped = 0;
+
+    if (!this.needsUngroupedPass()) {
+      return { usersExported, usersSkipped };
+    }
+
+    if (this.failedOrganizations.length > 0) {
+      warnings.push(
+        `Skipped users without a group: ${this.failedOrganizations.length} group(s) failed to export`
+      );
+      return { usersExported, usersSkipped };
+    }
+
+    // Continue from the saved cursor when resuming
+    let cursor = this.checkpointManager?.getCursor()?.paginationToken;
+
+    do {
+      const page = await this.client.getUsers(cursor, this.config.pageSize ?? 200);
+      cursor = page.nextUrl;
+
+      for (const user of page.items) {
+        if (groupedUserIds.has(user.id)) {
+          continue;
+        }
+
+        // Deactivated users are excluded unless explicitly requested
+        if (DEACTIVATED_STATUSES.has(user.status) && !this.config.includeDeleted) {
+          this.logSkippedUser(user.id, getOktaUserEmail(user), undefined, `User status is ${user.status}`);
+          usersSkipped++;
+          continue;
+        }
+
+        const csvRow = mapOktaUserToWorkOS(user);
+
+        const validationError = validateMappedRow(csvRow);
+        if (validationError) {
+          this.logSkippedUser(user.id, getOktaUserEmail(user), undefined, 'Validation failed', validationError);
+          warnings.push(`Skipped user ${user.id} without a group: ${validationError}`);
+          usersSkipped++;
+          continue;
+        }
+
+        writeStream.write(formatCsvRow(csvRow));
+        usersExported++;
+      }
+
+      // Only advance the cursor once the page's rows are on disk
+      if (this.checkpointManager) {
+        await this.flushStream(writeStream);
+        const saved = this.checkpointManager.getCursor();
+        await this.checkpointManager.updateCursor({
+          paginationToken: cursor,
+          usersExported: (saved?.usersExported ?? 0) + usersExported,
+          usersSkipped: (saved?.usersSkipped ?? 0) + usersSkipped
+        });
+      }
+    } while (cursor);
+
+    this.progressUI.logInfo(`Exported ${usersExported} users without a group (${usersSkipped} skipped)`);
+
+    return { usersExported, usersSkipped };
+  }
+
+  /**
+   * Whether users without a group still need exporting: not with --groups,
+   * and not once a checkpoint records the user list as fully walked
+   */
+  private needsUngroupedPass(): boolean {
+    if (this.config.organizationFilter) {
+      return false;
+    }
+    const cursor = this.checkpointManager?.getCursor();
+    return !cursor || cursor.paginationToken !== undefined;
+  }
+
+  /**
+   * Add the member IDs of a group completed in an earlier run
+   */
+  private async collectGroupMemberIds(groupId: string, groupedUserIds: Set<string>): Promise<void> {
+    let cursor: string | undefined;
+    do {
+      const page = await this.client.getGroupMembers(groupId, cursor, this.config.pageSize ?? 200);
+      cursor = page.nextUrl;
+      for (const user of page.items) {
+        groupedUserIds.add(user.id);
+      }
+    } while (cursor);
+  }
+
+  /**
+   * Fetch all groups following Link header cursors
+   */
+  private async fetchAllGroups(): Promise<OktaGroup[]> {
+    const allGroups: OktaGroup[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = await this.client.getGroups(cursor, this.config.pageSize ?? 200);
+      allGroups.push(...page.items);
+      cursor = page.nextUrl;
+    } while (cursor);
+
+    return allGroups;
+  }
+
+  /**
+   * Log a skipped user to the skipped users file
+   */
+  private logSkippedUser(
+    userId: string | undefined,
+    email: string | undefined,
+    group: OktaGroup | undefined,
+    reason: string,
+    error?: string
+  ): void {
+    if (!this.skippedUsersStream) {
+      return;
+    }
+
+    const logEntry = {
+      timestamp: new Date().toISOString(),
+      user_id: userId || 'unknown',
+      email: email || 'unknown',
+      org_id: group?.id,
+      org_name: group?.profile.name,
+      reason,
+      error
+    };
+
+    this.skippedUsersStream.write(JSON.stringify(logEntry) + '\n');
+  }
+
+  /**
+   * Wait until everything written so far has been flushed
+   */
+  private async flushStream(writeStream: WriteStream): Promise<void> {
+    return new Promise((resolve, reject) => {
+      writeStream.write('', (err: Error | null | undefined) => {
+        if (err) reject(err);
+        else resolve();
+      });
+    });
+  }
+
+  /**
+   * Close write stream
+   */
+  private async closeStream(writeStream: WriteStream): Promise<void> {
+    return new Promise((resolve, reject) => {
+      writeStream.end((err: Error | null | undefined) => {
+        if (err) reject(err);
+        else resolve();
+      });
+    });
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * Okta to WorkOS field mapping
+ * Transforms Okta user objects to WorkOS CSV format
+ */
+
+import type { OktaUser, OktaGroup } from '../types.js';
+import type { CSVRow } from '../../types.js';
+
+/**
+ * Okta profile attributes mapped to dedicated CSV columns
+ * Everything else in the profile is preserved in metadata
+ */
+const MAPPED_PROFILE_FIELDS = new Set(['login', 'email', 'firstName', 'lastName']);
+
+/**
+ * Okta statuses that represent a user who completed activation
+ * Okta has no email_verified flag; activation requires email verification
+ */
+const VERIFIED_STATUSES = new Set(['ACTIVE', 'PASSWORD_EXPIRED', 'LOCKED_OUT', 'RECOVERY']);
+
+/**
+ * Okta statuses that represent a deactivated user
+ */
+export const DEACTIVATED_STATUSES = new Set(['DEPROVISIONED', 'SUSPENDED']);
+
+/**
+ * Okta built-in group type (e.g. "Everyone") - never mapped to an organization
+ */
+export const BUILT_IN_GROUP_TYPE = 'BUILT_IN';
+
+/**
+ * Convert any value to a string for WorkOS metadata
+ * - Strings: return as-is
+ * - Booleans/Numbers: string representation
+ * - Arrays/Objects: JSON.stringify
+ */
+function convertToString(value: unknown): string {
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (typeof value === 'boolean' || typeof value === 'number') {
+    return String(value);
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Resolve the user's email address
+ * Falls back to login, which is usually (but not always) an email in Okta
+ */
+export function getOktaUserEmail(user: OktaUser): string | undefined {
+  const email = user.profile?.email;
+  if (typeof email === 'string' && email.trim() !== '') {
+    return email.trim();
+  }
+
+  const login = user.profile?.login;
+  if (typeof login === 'string' && login.includes('@')) {
+    return login.trim();
+  }
+
+  return undefined;
+}
+
+/**
+ * Map Okta user to WorkOS CSV row
+ * @param user Okta user object
+ * @param group Okta group used as the organization (omit for user-only export)
+ */
+export function mapOktaUserToWorkOS(user: OktaUser, group?: OktaGroup): CSVRow {
+  const profile = user.profile || { login: '' };
+  const metadata: Record<string, string> = {};
+
+  // Preserve unmapped profile attributes (standard and custom)
+  for (const [key, value] of Object.entries(profile)) {
+    if (MAPPED_PROFILE_FIELDS.has(key) || value === null || value === undefined || value === '') {
+      continue;
+    }
+    metadata[key] = convertToString(value);
+  }
+
+  // Add Okta-specific fields to metadata for reference
+  metadata.okta_user_id = user.id;
+  metadata.okta_status = user.status;
+  metadata.okta_created = user.created;
+  if (profile.login && profile.login !== getOktaUserEmail(user)) {
+    metadata.okta_login = profile.login;
+  }
+  if (user.lastLogin) {
+    metadata.okta_last_login = user.lastLogin;
+  }
+  if (user.credentials?.provider?.type) {
+    metadata.okta_credential_provider = user.credentials.provider.type;
+  }
+
+  const csvRow: CSVRow = {
+    email: getOktaUserEmail(user),
+    first_name: profile.firstName ?? undefined,
+    last_name: profile.lastName ?? undefined,
+    email_verified: VERIFIED_STATUSES.has(user.status),
+    external_id: user.id,
+    metadata: JSON.stringify(metadata),
+
+    // Organization mapping
+    // Use Okta group ID as WorkOS external_id
+    org_external_id: group?.id,
+    org_name: group?.profile?.name
+  };
+
+  return csvRow;
+}
@@ -20,16 +20,18 @@ export interface Auth0Credentials {
 
 export interface OktaCredentials {
   type: 'okta';
-  domain: string;
-  apiToken: string;
+  domain: string; // e.g., company.okta.com
+  apiToken: string; // SSWS API token (read-only admin is sufficient)
 }
 
 export interface CognitoCredentials {
   type: 'cognito';
-  region: string;
-  userPoolId: string;
+  region: string; // e.g., us-east-1
+  userPoolId: string; // e.g., us-east-1_AbCdEfGhI
   accessKeyId: string;
   secretAccessKey: string;
+  sessionToken?: string; // Required for temporary (STS) credentials
+  endpoint?: string; // Override API endpoint (e.g., a local stub); default https://cognito-idp.{region}.amazonaws.com
 }
 
 /**
@@ -127,6 +129,27 @@ export interface ExporterConfig {
    */
   metadataOrgNameField?: string;
 
+  /**
+   * Also export roles: a role definitions CSV and a user-role mapping CSV
+   * built from organization member roles (Auth0)
+   * Requires the read:roles and read:organization_member_roles scopes
+   * @default false
+   */
+  exportRoles?: boolean;
+
+  // Attribute-based org mapping (Cognito)
+  /**
+   * User attribute holding the organization ID (written to org_external_id)
+   * @example "custom:tenant_id"
+   */
+  orgIdAttribute?: string;
+
+  /**
+   * User attribute holding the organization name (written to org_name)
+   * @example "custom:tenant_name"
+   */
+  orgNameAttribute?: string;
+
   // Checkpoint and resumability
   /**
    * Job ID for checkpointing (enables resumability)
@@ -181,12 +204,24 @@ export interface ExportResult {
   outputPath: string;
   summary: ExportSummary;
   warnings: string[];
+  /** Files written alongside the user CSV (e.g. Auth0 org and role definitions) */
+  additionalOutputs?: ExportAdditionalOutputs;
+}
+
+export interface ExportAdditionalOutputs {
+  orgDefinitionsPath?: string;
+  roleDefinitionsPath?: string;
+  userRoleMappingPath?: string;
 }
 
 export interface ExportSummary {
   totalUsers: number;
   totalOrgs: number;
   skippedUsers: number; // Users without email or other issues
+  /** Users exported without an organization (Okta users in no group) */
+  usersWithoutOrg?: number;
+  /** Groups/organizations that failed to export (the CSV is partial) */
+  failedOrganizations?: string[];
   startedAt: number;
   endedAt: number;
   durationMs: number;
@@ -229,6 +264,75 @@ export interface Auth0Organization {
   metadata?: Record<string, unknown>;
 }
 
+export interface Auth0Role {
+  id: string;
+  name: string;
+  description?: string;
+}
+
+/**
+ * Okta-specific types
+ */
+export interface OktaUser {
+  id: string;
+  status: 'STAGED' | 'PROVISIONED' | 'ACTIVE' | 'RECOVERY' | 'PASSWORD_EXPIRED' | 'LOCKED_OUT' | 'SUSPENDED' | 'DEPROVISIONED' | string;
+  created: string;
+  activated?: string | null;
+  statusChanged?: string | null;
+  lastLogin?: string | null;
+  lastUpdated?: string;
+  passwordChanged?: string | null;
+  profile: {
+    login: string;
+    email?: string;
+    firstName?: string | null;
+    lastName?: string | null;
+    displayName?: string | null;
+    secondEmail?: string | null;
+    mobilePhone?: string | null;
+    [key: string]: unknown;
+  };
+  credentials?: {
+    provider?: {
+      type: string; // OKTA, ACTIVE_DIRECTORY, LDAP, FEDERATION, SOCIAL, IMPORT
+      name: string;
+    };
+  };
+}
+
+export interface OktaGroup {
+  id: string;
+  type: 'OKTA_GROUP' | 'APP_GROUP' | 'BUILT_IN' | string;
+  profile: {
+    name: string;
+    description?: string | null;
+    [key: string]: unknown;
+  };
+}
+
+/**
+ * Cognito-specific types (AWSCognitoIdentityProviderService JSON API shapes)
+ */
+export interface CognitoAttribute {
+  Name: string;
+  Value?: string;
+}
+
+export interface CognitoUser {
+  Username: string;
+  Attributes?: CognitoAttribute[];
+  UserCreateDate?: number; // Epoch seconds
+  UserLastModifiedDate?: number; // Epoch seconds
+  Enabled?: boolean;
+  UserStatus?: 'UNCONFIRMED' | 'CONFIRMED' | 'ARCHIVED' | 'COMPROMISED' | 'UNKNOWN' | 'RESET_REQUIRED' | 'FORCE_CHANGE_PASSWORD' | 'EXTERNAL_PROVIDER' | string;
+}
+
+export interface CognitoGroup {
+  GroupName: string;
+  Description?: string;
+  Precedence?: number;
+}
+
 /**
  * Base exporter interface
  * All provider exporters should implement this
@@ -1,13 +1,22 @@
 import fs from "node:fs";
-import { parse } from "csv-parse";
-import { getWorkOSClient } from "./workos.js";
 import { createLogger } from "./logger.js";
 import { isBlank, parseBooleanLike } from "./boolean.js";
-import { CreateUserPayload, CSVRow, ErrorRecord, ImportSummary } from "./types.js";
-import { RateLimiter } from "./rateLimiter.js";
+import { CreateUserPayload, CSVRow, ErrorRecord, ImportSummary, OnConflictMode, RowAction } from "./types.js";
+import { AdaptiveRateLimiter } from "./rateLimiter.js";
+import { createWorkOSGateway, normalizeWorkOSError, workosErrorFields, type WorkOSGateway } from "./workosGateway.js";
 import { OrganizationCache } from "./cache/organizationCache.js";
 import { CheckpointManager } from "./checkpoint/manager.js";
-import type { ChunkMetadata } from "./types.js";
+import type { ChunkMetadata, RowLedgerEntry } from "./types.js";
+import type { SerializedCacheEntry } from "./checkpoint/types.js";
+import { conflictModeForAction, createOrResolveUser, deleteUserByEmail, parseRowAction, UserUpdateError } from "./userUpsert.js";
+import { parseRowUserId, updateMembershipRoles } from "./membershipRetry.js";
+import { CreationLedger } from "./rollback/ledger.js";
+import { RowLedger } from "./checkpoint/rowLedger.js";
+import { createRowParser, detectInputFormat, openChunkRows } from "./inputFormat.js";
+import { parseOrgDomains } from "./organizations/orgDomains.js";
+import { parseRoleSlugs } from "./roles/roleSlugs.js";
+import type { OrgDomain } from "./organizations/types.js";
+import { redactErrorRecord, type RedactionPolicy } from "./redaction.js";
 
 type ImportOptions = {
   csvPath: string;
@@ -20,7 +29,11 @@ type ImportOptions = {
   multiOrgMode?: boolean; // Enables per-row org resolution with caching
   checkpointManager?: CheckpointManager; // Phase 3: Enables chunked mode with checkpoints
   numWorkers?: number; // Phase 4: Number of worker threads for parallel processing
+  chunkRetries?: number; // Phase 4: Retries per failed chunk before it is marked 'failed'
   userRoleMapping?: Map<string, string[]>; // Phase 2 Roles: external_id → role slugs
+  onConflict?: OnConflictMode; // How to handle emails that already exist in WorkOS (default: fail)
+  orgCacheEntries?: SerializedCacheEntry[]; // Organizations resolved up front (e.g. by workos-import-orgs)
+  redaction?: RedactionPolicy; // PII redaction for error files and log output (default: drop passwords and secrets)
 };
 
 class Semaphore {
@@ -65,41 +78,28 @@ export const KNOWN_COLUMNS = new Set([
   "org_id",
   "org_external_id",
   "org_name",
+  "org_domains",
   // Role assignment column
-  "role_slugs"
+  "role_slugs",
+  // Delta sync action column (workos-delta)
+  "action",
+  // Existing user for membership-only retry rows (workos-analyze-errors)
+  "user_id"
 ]);
 
 interface OrgInfo {
   orgId?: string;
   orgExternalId?: string;
   orgName?: string;
+  orgDomains?: OrgDomain[];
 }
 
-function parseRoleSlugsFromCsv(raw: string | undefined): string[] {
-  if (!raw || typeof raw !== 'string') return [];
-  const trimmed = raw.trim();
-  if (!trimmed) return [];
-
-  // Try JSON array format first: ["admin","editor"]
-  if (trimmed.startsWith('[')) {
-    try {
-      const parsed = JSON.parse(trimmed);
-      if (Array.isArray(parsed)) {
-        return parsed.map((s: unknown) => String(s).trim()).filter(Boolean);
-      }
-    } catch {
-      // Fall through to comma-separated
-    }
-  }
-
-  // Comma-separated format: admin,editor,viewer
-  return trimmed.split(',').map(s => s.trim()).filter(Boolean);
-}
-
-function buildUserAndOrgFromRow(row: CSVRow): {
+export function buildUserAndOrgFromRow(row: CSVRow): {
   userPayload?: CreateUserPayload;
   orgInfo?: OrgInfo;
   roleSlugs?: string[];
+  action?: RowAction;
+  userId?: string;
   error?: string;
 } {
   // Extract and validate email
@@ -108,6 +108,20 @@ function buildUserAndOrgFromRow(row: CSVRow): {
     return { error: "Missing required email" };
   }
 
+  // Delta CSV action (blank = create)
+  let action: RowAction;
+  try {
+    action = parseRowAction(row.action);
+  } catch (err: any) {
+    return { error: err.message };
+  }
+
+  // Membership-only retry rows name an existing user
+  const userId = parseRowUserId(row.user_id);
+  if (userId && action !== "create") {
+    return { error: `user_id rows cannot use action "${action}"` };
+  }
+
   // Extract user fields (existing logic)
   const password = typeof row.password === "string" ? row.password : undefined;
   const passwordHash = typeof row.password_hash === "string" ? row.password_hash : undefined;
@@ -118,27 +132,39 @@ function buildUserAndOrgFromRow(row: CSVRow): {
   const externalId = typeof row.external_id === "string" ? row.external_id : undefined;
 
   let metadata: Record<string, unknown> | undefined;
+  let parsedMetadata: unknown;
   if (typeof row.metadata === "string") {
     const trimmed = row.metadata.trim();
     if (trimmed.length > 0) {
       try {
-        const parsed = JSON.parse(trimmed);
-        // WorkOS metadata only supports primitive values (string, number, boolean)
-        // Convert arrays and nested objects to JSON strings
-        metadata = {};
-        for (const [key, value] of Object.entries(parsed)) {
-          if (Array.isArray(value) || (typeof value === 'object' && value !== null)) {
-            // Convert arrays and objects to JSON strings
-            metadata[key] = JSON.stringify(value);
-          } else {
-            // Keep primitives as-is
-            metadata[key] = value;
-          }
-        }
+        parsedMetadata = JSON.parse(trimmed);
       } catch {
         return { error: "Invalid metadata JSON" };
       }
     }
+  } else if (row.metadata !== undefined && row.metadata !== null) {
+    // JSONL rows carry metadata as an object
+    if (typeof row.metadata !== "object" || Array.isArray(row.metadata)) {
+      return { error: "Metadata must be a JSON object" };
+    }
+    parsedMetadata = row.metadata;
+  }
+  if (parsedMetadata !== undefined) {
+    // WorkOS metadata only supports primitive values (string, number, boolean)
+    // Convert arrays and nested objects to JSON strings
+    if (parsedMetadata === null) {
+      return { error: "Invalid metadata JSON" };
+    }
+    metadata = {};
+    for (const [key, value] of Object.entries(parsedMetadata as Record<string, unknown>)) {
+      if (Array.isArray(value) || (typeof value === 'object' && value !== null)) {
+        // Convert arrays and objects to JSON strings
+        metadata[key] = JSON.stringify(value);
+      } else {
+        // Keep primitives as-is
+        metadata[key] = value;
+      }
+    }
   }
 
   // Extract organization fields
@@ -157,6 +183,13 @@ function buildUserAndOrgFromRow(row: CSVRow): {
     return { error: "Row cannot specify both org_id and org_external_id" };
   }
 
+  let orgDomains: OrgDomain[];
+  try {
+    orgDomains = parseOrgDomains(row.org_domains);
+  } catch (err: any) {
+    return { error: `Invalid org_domains: ${err.message}` };
+  }
+
   // Build user payload
   const payload: CreateUserPayload = {
     email
@@ -180,53 +213,22 @@ function buildUserAndOrgFromRow(row: CSVRow): {
   const orgInfo = (orgId || orgExternalId || orgName) ? {
     orgId,
     orgExternalId,
-    orgName
+    orgName,
+    orgDomains: orgDomains.length > 0 ? orgDomains : undefined
   } : undefined;
 
   // Extract role slugs from CSV row
-  const roleSlugs = parseRoleSlugsFromCsv(row.role_slugs as string | undefined);
+  const roleSlugs = parseRoleSlugs(row.role_slugs);
 
-  return { userPayload: payload, orgInfo, roleSlugs: roleSlugs.length > 0 ? roleSlugs : undefined };
+  return { userPayload: payload, orgInfo, roleSlugs: roleSlugs.length > 0 ? roleSlugs : undefined, action, userId };
 }
 
 async function retryCreateUser(
   payload: CreateUserPayload,
-  limiter: RateLimiter,
-  maxRetries = 3,
-  baseDelayMs = 500
+  gateway: WorkOSGateway
 ): Promise<string> {
-  const workos = getWorkOSClient();
-  let attempt = 0;
-  // eslint-disable-next-line no-constant-condition
-  while (true) {
-    try {
-      await limiter.acquire();
-      const user = await workos.userManagement.createUser(payload as any);
-      return (user as any)?.id as string;
-    } catch (err: any) {
-      const status: number | undefined =
-        err?.status ?? err?.httpStatus ?? err?.code ?? err?.response?.status;
-      const message: string = err?.message || "Unknown error";
-      const isRateLimited = status === 429 || /rate.?limit/i.test(message);
-      attempt += 1;
-      if (isRateLimited && attempt <= maxRetries) {
-        let delay = baseDelayMs * Math.pow(2, attempt - 1);
-
-        // Respect Retry-After header if provided
-        const retryAfter = err?.response?.headers?.['retry-after'] ?? err?.response?.headers?.['Retry-After'];
-        if (retryAfter) {
-          const retryAfterSeconds = parseInt(retryAfter, 10);
-          if (!isNaN(retryAfterSeconds)) {
-            delay = retryAfterSeconds * 1000; // Convert seconds to milliseconds
-          }
-        }
-
-        await new Promise(r => setTimeout(r, delay));
-        continue;
-      }
-      throw err;
-    }
-  }
+  const user = await gateway.createUser(payload);
+  return user.id;
 }
 
 interface MembershipResult {
@@ -234,18 +236,16 @@ interface MembershipResult {
   rolesAssigned: number;
   /** Warning message if some roles couldn't be assigned */
   warning?: string;
+  /** ID of the created membership (recorded in the rollback ledger) */
+  membershipId?: string;
 }
 
 async function retryCreateOrganizationMembership(
   userId: string,
   organizationId: string,
-  limiter: RateLimiter,
-  roleSlugs?: string[],
-  maxRetries = 3,
-  baseDelayMs = 500
+  gateway: WorkOSGateway,
+  roleSlugs?: string[]
 ): Promise<MembershipResult> {
-  const workos = getWorkOSClient();
-
   // Use roleSlug (singular) for 1 role, roleSlugs (plural) for 2+
   // roleSlugs requires "multiple roles" to be enabled in the WorkOS environment
   const roleParams = roleSlugs?.length === 1
@@ -254,92 +254,53 @@ async function retryCreateOrganizationMembership(
       ? { roleSlugs }
       : {};
 
-  let attempt = 0;
-  // eslint-disable-next-line no-constant-condition
-  while (true) {
-    try {
-      await limiter.acquire();
-      await workos.userManagement.createOrganizationMembership({
+  try {
+    const membership = await gateway.createOrganizationMembership({
+      userId,
+      organizationId,
+      ...roleParams
+    } as any);
+    return { rolesAssigned: roleSlugs?.length ?? 0, membershipId: membership.id };
+  } catch (err) {
+    const apiErr = normalizeWorkOSError(err);
+
+    // If multiple roles not enabled and we tried roleSlugs (plural),
+    // fall back to roleSlug (singular) with the first role
+    if (apiErr.status === 422 && (apiErr.code === "multiple_roles_not_enabled" || /multiple.?roles.?not.?enabled/i.test(apiErr.message))
+      && roleSlugs && roleSlugs.length > 1) {
+      const membership = await gateway.createOrganizationMembership({
         userId,
         organizationId,
-        ...roleParams
-      } as any);
-      return { rolesAssigned: roleSlugs?.length ?? 0 };
-    } catch (err: any) {
-      const status: number | undefined =
-        err?.status ?? err?.httpStatus ?? err?.response?.status;
-      const message: string = err?.message || "Unknown error";
-      const errorCode: string = err?.code || "";
-      const isRateLimited = status === 429 || /rate.?limit/i.test(message);
-
-      // If multiple roles not enabled and we tried roleSlugs (plural),
-      // fall back to roleSlug (singular) with the first role
-      if (status === 422 && (errorCode === "multiple_roles_not_enabled" || /multiple.?roles.?not.?enabled/i.test(message))) {
-        if (roleSlugs && roleSlugs.length > 1) {
-          // Retry with just the first role
-          attempt = 0;
-          // eslint-disable-next-line no-constant-condition
-          while (true) {
-            try {
-              await limiter.acquire();
-              await workos.userManagement.createOrganizationMembership({
-                userId,
-                organizationId,
-                roleSlug: roleSlugs[0]
-              } as any);
-              return {
-                rolesAssigned: 1,
-                warning: `Multiple roles not enabled — assigned "${roleSlugs[0]}" only, skipped: ${roleSlugs.slice(1).join(", ")}`
-              };
-            } catch (retryErr: any) {
-              const retryStatus: number | undefined =
-                retryErr?.status ?? retryErr?.httpStatus ?? retryErr?.response?.status;
-              const retryMsg: string = retryErr?.message || "Unknown error";
-              const retryIsRateLimited = retryStatus === 429 || /rate.?limit/i.test(retryMsg);
-              attempt += 1;
-              if (retryIsRateLimited && attempt <= maxRetries) {
-                const delay = baseDelayMs * Math.pow(2, attempt - 1);
-                await new Promise(r => setTimeout(r, delay));
-                continue;
-              }
-              throw retryErr;
-            }
-          }
-        }
-        // Single role or no roles but still got this error — re-throw
-        throw err;
-      }
-
-      attempt += 1;
-      if (isRateLimited && attempt <= maxRetries) {
-        let delay = baseDelayMs * Math.pow(2, attempt - 1);
-
-        // Respect Retry-After header if provided
-        const retryAfter = err?.response?.headers?.['retry-after'] ?? err?.response?.headers?.['Retry-After'];
-        if (retryAfter) {
-          const retryAfterSeconds = parseInt(retryAfter, 10);
-          if (!isNaN(retryAfterSeconds)) {
-            delay = retryAfterSeconds * 1000; // Convert seconds to milliseconds
-          }
-        }
-
-        await new Promise(r => setTimeout(r, delay));
-        continue;
-      }
-      throw err;
+        roleSlug: roleSlugs[0]
+      });
+      return {
+        rolesAssigned: 1,
+        membershipId: membership.id,
+        warning: `Multiple roles not enabled — assigned "${roleSlugs[0]}" only, skipped: ${roleSlugs.slice(1).join(", ")}`
+      };
     }
+    throw apiErr;
   }
 }
 
-async function deleteUserSafe(userId: string): Promise<void> {
-  const workos = getWorkOSClient();
+async function deleteUserSafe(gateway: WorkOSGateway, userId: string): Promise<void> {
   try {
-    await (workos.userManagement as any).deleteUser(userId);
+    await gateway.deleteUser(userId);
   } catch {
     // Best-effort delete; ignore errors
   }
 }
 
+function seedOrgCache(
+  orgCache: OrganizationCache,
+  entries: SerializedCacheEntry[] | undefined,
+  logger: ReturnType<typeof createLogger>
+): void {
+  if (!entries || entries.length === 0) return;
+  orgCache.mergeEntries(entries);
+  logger.log(`Pre-warmed organization cache with ${entries.length} entries`);
+}
+
 export async function importUsersFromCsv(options: ImportOptions): Promise<{
   summary: ImportSummary;
   errors: ErrorRecord[];
@@ -366,9 +327,10 @@ async function importUsersStreamingMode(options: ImportOptions): Promise<{
   summary: ImportSummary;
   errors: ErrorRecord[];
 }> {
-  const { csvPath, quiet, concurrency = 10, orgId = null, requireMembership = false, dryRun = false, errorsOutPath, multiOrgMode = false } = options;
-  const logger = createLogger({ quiet });
-  const limiter = new RateLimiter(50);
+  const { csvPath, quiet, concurrency = 10, orgId = null, requireMembership = false, dryRun = false, errorsOutPath, multiOrgMode = false, onConflict = "fail" } = options;
+  const logger = createLogger({ quiet, redaction: options.redaction });
+  const limiter = new AdaptiveRateLimiter();
+  const gateway = createWorkOSGateway({ limiter });
   const startedAt = Date.now();
   const errors: ErrorRecord[] = [];
   const warnings: string[] = [];
@@ -378,6 +340,7 @@ async function importUsersStreamingMode(options: ImportOptions): Promise<{
   if (!orgId && multiOrgMode) {
     orgCache = new OrganizationCache({ maxSize: 10000, dryRun });
     logger.log("Multi-org mode: Organization cache initialized");
+    seedOrgCache(orgCache, options.orgCacheEntries, logger);
   }
 
   // Set up error streaming if output path provided
@@ -391,7 +354,7 @@ async function importUsersStreamingMode(options: ImportOptions): Promise<{
   const recordError = (errRec: ErrorRecord) => {
     errorCount += 1;
     if (errorStream) {
-      errorStream.write(JSON.stringify(errRec) + '\n');
+      errorStream.write(JSON.stringify(redactErrorRecord(errRec, options.redaction)) + '\n');
     } else {
       errors.push(errRec);
     }
@@ -403,6 +366,9 @@ async function importUsersStreamingMode(options: ImportOptions): Promise<{
     failures: 0,
     membershipsCreated: 0,
     usersCreated: 0,
+    usersUpdated: 0,
+    usersSkipped: 0,
+    usersDeleted: 0,
     duplicateUsers: 0,
     duplicateMemberships: 0,
     rolesAssigned: 0,
@@ -414,11 +380,15 @@ async function importUsersStreamingMode(options: ImportOptions): Promise<{
 
   // Track created users and memberships to support multi-org CSV (multiple rows per user)
   const createdUsers = new Map<string, string>(); // email → userId
+  const preexistingUsers = new Set<string>(); // userIds that existed before this run (--on-conflict)
   const createdMemberships = new Set<string>(); // "userId:orgId"
 
   const input = fs.createReadStream(csvPath);
+  const inputFormat = detectInputFormat(csvPath);
   let headerHandled = false;
   let warnedUnknown = false;
+  // JSONL records have no shared header; unknown fields are collected per record
+  const unknownJsonlFields = new Set<string>();
   let recordNumber = 0;
 
   const semaphore = new Semaphore(concurrency);
@@ -426,12 +396,7 @@ async function importUsersStreamingMode(options: ImportOptions): Promise<{
   const MAX_INFLIGHT_BATCH = concurrency * 10; // Process in batches of 10x concurrency
 
   await new Promise<void>((resolve, reject) => {
-    const parser = parse({
-      columns: true,
-      bom: true,
-      skip_empty_lines: true,
-      trim: true
-    });
+    const parser = createRowParser(csvPath);
 
     parser.on("error", (err) => reject(err));
     parser.on("end", () => resolve());
@@ -447,7 +412,8 @@ async function importUsersStreamingMode(options: ImportOptions): Promise<{
         if (!headerHandled) {
           headerHandled = true;
           const headers = Object.keys(rowData as Record<string, unknown>);
-          if (!headers.includes("email")) {
+          // A JSONL record without email fails on its own row below
+          if (inputFormat === "csv" && !headers.includes("email")) {
             reject(new Error("CSV must include required 'email' column."));
             return;
           }
@@ -473,11 +439,16 @@ async function importUsersStreamingMode(options: ImportOptions): Promise<{
           }
 
           const unknown = headers.filter(h => !KNOWN_COLUMNS.has(h));
-          if (unknown.length > 0 && !warnedUnknown) {
+          if (inputFormat === "csv" && unknown.length > 0 && !warnedUnknown) {
             warnings.push(`Ignoring unknown columns: ${unknown.join(", ")}`);
             warnedUnknown = true;
           }
         }
+        if (inputFormat === "jsonl") {
+          for (const key of Object.keys(rowData)) {
+            if (!KNOWN_COLUMNS.has(key)) unknownJsonlFields.add(key);
+          }
+        }
         recordNumber += 1;
         const currentRecord = recordNumber;
         summary.total += 1;
@@ -502,6 +473,34 @@ async function importUsersStreamingMode(options: ImportOptions): Promise<{
             return;
           }
 
+          // Delta rows with action=delete remove the user; no org or membership handling
+          if (built.action === "delete") {
+            try {
+              const deletedUserId = dryRun ? null : await deleteUserByEmail(built.userPayload!.email, gateway);
+              if (dryRun || deletedUserId) {
+                summary.usersDeleted += 1;
+              } else {
+                logger.warn(`Row ${currentRecord}: No WorkOS user for ${built.userPayload!.email} - nothing to delete`);
+              }
+              summary.successes += 1;
+              logger.stepSuccess(currentRecord);
+            } catch (err: any) {
+              const errRec: ErrorRecord = {
+                recordNumber: currentRecord,
+                email,
+                errorType: "user_delete",
+                errorMessage: err?.message || "User deletion failed",
+                timestamp: new Date().toISOString(),
+                rawRow: rowData as Record<string, unknown>,
+                httpStatus: err?.status ?? err?.httpStatus ?? err?.response?.status
+              };
+              recordError(errRec);
+              summary.failures += 1;
+              logger.stepFailure(currentRecord);
+            }
+            return;
+          }
+
           // Resolve organization per-row (multi-org mode)
           let resolvedOrgId: string | null = orgId; // Use CLI org in single-org mode
 
@@ -512,7 +511,8 @@ async function importUsersStreamingMode(options: ImportOptions): Promise<{
                 orgId: built.orgInfo.orgId,
                 orgExternalId: built.orgInfo.orgExternalId,
                 createIfMissing: Boolean(built.orgInfo.orgName),
-                orgName: built.orgInfo.orgName
+                orgName: built.orgInfo.orgName,
+                orgDomains: built.orgInfo.orgDomains
               });
 
               if (!resolvedOrgId && (built.orgInfo.orgId || built.orgInfo.orgExternalId)) {
@@ -545,8 +545,13 @@ async function importUsersStreamingMode(options: ImportOptions): Promise<{
           let createdUserId: string | undefined;
           const userEmail = built.userPayload!.email.toLowerCase();
 
-          // Check if user was already created in previous row (multi-org mode)
-          if (createdUsers.has(userEmail)) {
+          if (built.userId) {
+            // Membership-only retry row: the user already exists
+            createdUserId = built.userId;
+            preexistingUsers.add(createdUserId);
+            createdUsers.set(userEmail, createdUserId);
+          } else if (createdUsers.has(userEmail)) {
+            // User already created in previous row (multi-org mode)
             // User already created - reuse existing userId
             createdUserId = createdUsers.get(userEmail)!;
             summary.duplicateUsers += 1;
@@ -560,13 +565,22 @@ async function importUsersStreamingMode(options: ImportOptions): Promise<{
             // First occurrence - create user
             try {
               if (!dryRun) {
-                createdUserId = await retryCreateUser(built.userPayload!, limiter);
+                const result = await createOrResolveUser(built.userPayload!, conflictModeForAction(built.action, onConflict), gateway,
+                  () => retryCreateUser(built.userPayload!, gateway));
+                createdUserId = result.userId;
+                if (result.outcome === "created") {
+                  summary.usersCreated += 1;
+                } else {
+                  preexistingUsers.add(createdUserId);
+                  if (result.outcome === "updated") summary.usersUpdated += 1;
+                  else summary.usersSkipped += 1;
+                }
               } else {
                 // Simulate user creation
                 createdUserId = `dry-run-user-${userEmail}`;
+                summary.usersCreated += 1;
               }
               createdUsers.set(userEmail, createdUserId!);
-              summary.usersCreated += 1;
             } catch (err: any) {
               // Handle user creation errors
               if (dryRun) {
@@ -584,19 +598,14 @@ async function importUsersStreamingMode(options: ImportOptions): Promise<{
                 logger.stepFailure(currentRecord);
                 return;
               }
-              const status: number | undefined =
-                err?.status ?? err?.httpStatus ?? err?.response?.status ?? err?.code;
-              const workosCode: string | undefined =
-                err?.response?.data?.code ?? err?.code;
-              const requestId: string | undefined =
-                err?.requestId ?? err?.response?.headers?.["x-request-id"] ?? err?.response?.headers?.["X-Request-Id"];
-              const workosErrors = err?.response?.data?.errors ?? err?.errors;
+              const { httpStatus: status, workosCode, workosRequestId: requestId, workosErrors } =
+                workosErrorFields(err instanceof UserUpdateError ? err.original : err);
               const message: string = err?.message || "Unknown error";
               const errRec: ErrorRecord = {
                 recordNumber: currentRecord,
                 email,
-                userId: createdUserId,
-                errorType: "user_create",
+                userId: err instanceof UserUpdateError ? err.userId : createdUserId,
+                errorType: err instanceof UserUpdateError ? "user_update" : "user_create",
                 errorMessage: message,
                 timestamp: new Date().toISOString(),
                 rawRow: rowData as Record<string, unknown>,
@@ -634,7 +643,7 @@ async function importUsersStreamingMode(options: ImportOptions): Promise<{
               try {
                 let membershipResult: MembershipResult = { rolesAssigned: allRoleSlugs.length };
                 if (!dryRun) {
-                  membershipResult = await retryCreateOrganizationMembership(createdUserId!, resolvedOrgId, limiter, allRoleSlugs.length > 0 ? allRoleSlugs : undefined);
+                  membershipResult = await retryCreateOrganizationMembership(createdUserId!, resolvedOrgId, gateway, allRoleSlugs.length > 0 ? allRoleSlugs : undefined);
                 }
                 createdMemberships.add(membershipKey);
                 summary.membershipsCreated += 1;
@@ -644,26 +653,46 @@ async function importUsersStreamingMode(options: ImportOptions): Promise<{
                   logger.warn(`Row ${currentRecord}: ${membershipResult.warning}`);
                 }
               } catch (err) {
-                const status: number | undefined =
-                  (err as any)?.status ?? (err as any)?.httpStatus ?? (err as any)?.response?.status ?? (err as any)?.code;
-                const workosCode: string | undefined =
-                  (err as any)?.response?.data?.code ?? (err as any)?.code;
+                const { httpStatus: status, workosCode, workosRequestId: requestId, workosErrors } = workosErrorFields(err);
 
-                // Handle 409 conflict (duplicate membership) gracefully
-                if (status === 409) {
+                // Membership-only retry row or upsert (update action or --on-conflict update): the membership exists, re-apply its roles
+                if (status === 409 && (built.userId || conflictModeForAction(built.action, onConflict) === "update") && allRoleSlugs.length > 0) {
+                  try {
+                    const roleResult = await updateMembershipRoles(gateway, createdUserId!, resolvedOrgId, allRoleSlugs);
+                    createdMemberships.add(membershipKey);
+                    summary.rolesAssigned += roleResult.rolesAssigned;
+                  } catch (roleErr: any) {
+                    const message: string = roleErr?.message || "Unknown error";
+                    recordError({
+                      recordNumber: currentRecord,
+                      email,
+                      userId: createdUserId,
+                      errorType: "role_assignment",
+                      errorMessage: message,
+                      timestamp: new Date().toISOString(),
+                      rawRow: rowData as Record<string, unknown>,
+                      ...workosErrorFields(roleErr),
+                      orgId: resolvedOrgId,
+                      roleSlugs: allRoleSlugs
+                    });
+                    summary.failures += 1;
+                    logger.stepFailure(currentRecord);
+                    logger.warn(`Record #${currentRecord} role assignment failed: ${message}`);
+                    return;
+                  }
+                } else if (status === 409) {
+                  // Handle 409 conflict (duplicate membership) gracefully
                   summary.duplicateMemberships += 1;
                   createdMemberships.add(membershipKey);
                   logger.warn(`Row ${currentRecord}: Membership already exists (409) for ${userEmail} in org ${resolvedOrgId} - continuing`);
                 } else {
                   // Other errors - fail the row
                   if (requireMembership) {
-                    if (!dryRun && createdUserId) {
-                      await deleteUserSafe(createdUserId);
+                    // Never delete users that existed before this run
+                    if (!dryRun && createdUserId && !preexistingUsers.has(createdUserId)) {
+                      await deleteUserSafe(gateway, createdUserId);
                     }
                   }
-                  const requestId: string | undefined =
-                    (err as any)?.requestId ?? (err as any)?.response?.headers?.["x-request-id"] ?? (err as any)?.response?.headers?.["X-Request-Id"];
-                  const workosErrors = (err as any)?.response?.data?.errors ?? (err as any)?.errors;
                   const message: string = (err as any)?.message || "Unknown error";
                   const errRec: ErrorRecord = {
                     recordNumber: currentRecord,
@@ -714,7 +743,12 @@ async function importUsersStreamingMode(options: ImportOptions): Promise<{
   await Promise.all(inFlight);
   summary.endedAt = Date.now();
 
+  if (unknownJsonlFields.size > 0) {
+    warnings.push(`Ignoring unknown fields: ${[...unknownJsonlFields].join(", ")}`);
+  }
+
   // Clean up rate limiter
+  summary.rateLimit = limiter.getMetrics();
   limiter.stop();
 
   // Collect cache statistics (multi-org mode)
@@ -753,22 +787,32 @@ async function importUsersChunkedMode(options: ImportOptions): Promise<{
     throw new Error("Checkpoint manager required for chunked mode");
   }
 
-  const logger = createLogger({ quiet });
+  const logger = createLogger({ quiet, redaction: options.redaction });
   const state = checkpointManager.getState();
 
+  // Record created resources for workos-rollback
+  const ledger = dryRun ? null : new CreationLedger(checkpointManager.getCheckpointDir());
+  const onOrgCreated = ledger
+    ? (org: { id: string; externalId?: string }) => ledger.record({ type: 'organization', id: org.id, externalId: org.externalId })
+    : undefined;
+
   // Restore organization cache from checkpoint if available
   let orgCache: OrganizationCache | null = null;
   if (state.mode === 'multi-org') {
-    orgCache = checkpointManager.restoreCache(dryRun);
+    orgCache = checkpointManager.restoreCache(dryRun, onOrgCreated);
     if (orgCache) {
       const stats = orgCache.getStats();
       logger.log(`Restored organization cache: ${stats.size} entries`);
     } else {
-      orgCache = new OrganizationCache({ maxSize: 10000, dryRun });
+      orgCache = new OrganizationCache({ maxSize: 10000, dryRun, onCreate: onOrgCreated });
       logger.log("Multi-org mode: Organization cache initialized");
     }
+    seedOrgCache(orgCache, options.orgCacheEntries, logger);
   }
 
+  // One limiter across chunks so the learned rate carries over
+  const limiter = new AdaptiveRateLimiter();
+
   // Process chunks sequentially
   while (true) {
     const chunk = checkpointManager.getNextPendingChunk();
@@ -781,10 +825,10 @@ async function importUsersChunkedMode(options: ImportOptions): Promise<{
     checkpointManager.markChunkStarted(chunk.chunkId);
 
     try {
-      const chunkSummary = await processChunk(chunk, options, orgCache);
+      const chunkSummary = await processChunk(chunk, options, orgCache, ledger, limiter);
       checkpointManager.markChunkCompleted(chunk.chunkId, chunkSummary);
     } catch (err: any) {
-      checkpointManager.markChunkFailed(chunk.chunkId);
+      checkpointManager.markChunkFailed(chunk.chunkId, err.message);
       logger.error(`Chunk ${chunk.chunkId} failed: ${err.message}`);
       throw err;
     }
@@ -807,21 +851,25 @@ async function importUsersChunkedMode(options: ImportOptions): Promise<{
 
   // Return final summary
   const summary = checkpointManager.getFinalSummary();
+  summary.rateLimit = limiter.getMetrics();
+  limiter.stop();
   return { summary, errors: [] }; // Errors streamed to checkpoint dir
 }
 
 /**
  * Phase 3: Process a single chunk
- * Re-parses CSV from start, skips to chunk start, processes chunk rows
+ * Reads the chunk's byte range (or re-parses from the start), processes chunk rows
  */
 async function processChunk(
   chunk: ChunkMetadata,
   options: ImportOptions,
-  orgCache: OrganizationCache | null
+  orgCache: OrganizationCache | null,
+  ledger: CreationLedger | null,
+  limiter: AdaptiveRateLimiter
 ): Promise<import("./types.js").ChunkSummary> {
-  const { csvPath, concurrency = 10, orgId = null, requireMembership = false, dryRun = false, checkpointManager } = options;
-  const logger = createLogger({ quiet: true }); // Quiet for individual rows
-  const limiter = new RateLimiter(50);
+  const { csvPath, concurrency = 10, orgId = null, requireMembership = false, dryRun = false, checkpointManager, onConflict = "fail" } = options;
+  const logger = createLogger({ quiet: true, redaction: options.redaction }); // Quiet for individual rows
+  const gateway = createWorkOSGateway({ limiter });
   const sem = new Semaphore(concurrency);
 
   const chunkStartTime = Date.now();
@@ -829,6 +877,9 @@ async function processChunk(
   let chunkFailures = 0;
   let chunkMemberships = 0;
   let chunkUsersCreated = 0;
+  let chunkUsersUpdated = 0;
+  let chunkUsersSkipped = 0;
+  let chunkUsersDeleted = 0;
   let chunkDuplicateUsers = 0;
   let chunkDuplicateMemberships = 0;
   let chunkRolesAssigned = 0;
@@ -836,6 +887,7 @@ async function processChunk(
 
   // Track users and memberships within this chunk (for multi-org CSV support)
   const createdUsers = new Map<string, string>(); // email → userId
+  const preexistingUsers = new Set<string>(); // userIds that existed before this run (--on-conflict)
   const createdMemberships = new Set<string>(); // "userId:orgId"
 
   // Set up error streaming to checkpoint dir
@@ -847,20 +899,27 @@ async function processChunk(
 
   const recordError = (errRec: ErrorRecord) => {
     if (errorStream) {
-      errorStream.write(JSON.stringify(errRec) + '\n');
+      errorStream.write(JSON.stringify(redactErrorRecord(errRec, options.redaction)) + '\n');
     }
   };
 
-  // Re-open CSV and parse
-  const input = fs.createReadStream(csvPath);
-  const parser = parse({
-    columns: true,
-    bom: true,
-    skip_empty_lines: true,
-    trim: true
-  });
+  // Row outcomes from earlier attempts at this chunk (dry runs create nothing to resume)
+  const rowLedger = checkpointManager && !dryRun ? new RowLedger(checkpointManager.getCheckpointDir(), chunk.chunkId) : null;
+  const priorRows = rowLedger?.load() ?? new Map<number, RowLedgerEntry>();
+
+  // Replays the user step counters of a row finished by an earlier attempt
+  const countUserOutcome = (outcome: RowLedgerEntry["user"]) => {
+    if (outcome === "created") chunkUsersCreated += 1;
+    else if (outcome === "updated") chunkUsersUpdated += 1;
+    else if (outcome === "skipped") chunkUsersSkipped += 1;
+    else if (outcome === "duplicate") chunkDuplicateUsers += 1;
+    else if (outcome === "deleted") chunkUsersDeleted += 1;
+  };
 
-  let recordNumber = 0;
+  // Seek to the chunk's rows (or re-parse from the top for checkpoints without offsets)
+  const { input, parser, recordsBefore } = await openChunkRows(csvPath, chunk);
+
+  let recordNumber = recordsBefore;
   const inFlight: Promise<void>[] = [];
 
   await new Promise<void>((resolve, reject) => {
@@ -882,6 +941,19 @@ async function processChunk(
         const run = (async () => {
           await sem.acquire();
           try {
+            const prior = priorRows.get(currentRecordNumber);
+            if (prior?.status === "completed") {
+              // Finished before the chunk was interrupted: count it, don't resend it
+              chunkSuccesses += 1;
+              countUserOutcome(prior.user);
+              if (prior.membership === "created") chunkMemberships += 1;
+              else if (prior.membership === "duplicate") chunkDuplicateMemberships += 1;
+              chunkRolesAssigned += prior.rolesAssigned ?? 0;
+              if (prior.email && prior.userId) createdUsers.set(prior.email.toLowerCase(), prior.userId);
+              if (prior.userId && prior.orgId) createdMemberships.add(`${prior.userId}:${prior.orgId}`);
+              return;
+            }
+
             const built = buildUserAndOrgFromRow(currentRow);
 
             if (built.error) {
@@ -903,6 +975,33 @@ async function processChunk(
 
             const payload = built.userPayload;
 
+            // Delta rows with action=delete remove the user; no org or membership handling
+            if (built.action === "delete") {
+              try {
+                const deletedUserId = dryRun ? null : await deleteUserByEmail(payload.email, gateway);
+                if (dryRun || deletedUserId) chunkUsersDeleted += 1;
+                chunkSuccesses += 1;
+                rowLedger?.record({
+                  recordNumber: currentRecordNumber,
+                  status: "completed",
+                  email: payload.email,
+                  user: deletedUserId ? "deleted" : undefined
+                });
+              } catch (err: any) {
+                chunkFailures += 1;
+                recordError({
+                  recordNumber: currentRecordNumber,
+                  email: payload.email,
+                  errorType: "user_delete",
+                  errorMessage: err.message || String(err),
+                  ...workosErrorFields(err),
+                  timestamp: new Date().toISOString(),
+                  rawRow: currentRow
+                });
+              }
+              return;
+            }
+
             // Resolve org for this row (multi-org mode)
             let resolvedOrgId = orgId;
             if (!orgId && built.orgInfo && orgCache) {
@@ -914,7 +1013,8 @@ async function processChunk(
                   orgId: built.orgInfo.orgId,
                   orgExternalId: built.orgInfo.orgExternalId,
                   createIfMissing: Boolean(built.orgInfo.orgName),
-                  orgName: built.orgInfo.orgName
+                  orgName: built.orgInfo.orgName,
+                  orgDomains: built.orgInfo.orgDomains
                 });
 
                 if (!resolvedOrgId) {
@@ -956,25 +1056,59 @@ async function processChunk(
             let createdUserId: string | undefined;
             const userEmail = payload.email.toLowerCase();
 
-            if (createdUsers.has(userEmail)) {
+            let userOutcome: RowLedgerEntry["user"];
+
+            if (built.userId) {
+              // Membership-only retry row: the user already exists
+              createdUserId = built.userId;
+              createdUsers.set(userEmail, createdUserId);
+              preexistingUsers.add(createdUserId);
+            } else if (prior?.status === "user_done" && prior.userId) {
+              // User step finished before the chunk was interrupted: reuse its ID
+              createdUserId = prior.userId;
+              createdUsers.set(userEmail, createdUserId);
+              userOutcome = prior.user;
+              countUserOutcome(prior.user);
+              if (prior.user !== "created") preexistingUsers.add(createdUserId);
+            } else if (createdUsers.has(userEmail)) {
               // User already created in this chunk — reuse existing userId
               createdUserId = createdUsers.get(userEmail)!;
               chunkDuplicateUsers += 1;
+              userOutcome = "duplicate";
             } else if (!dryRun) {
               try {
-                createdUserId = await retryCreateUser(payload, limiter);
+                const result = await createOrResolveUser(payload, conflictModeForAction(built.action, onConflict), gateway,
+                  () => retryCreateUser(payload, gateway));
+                createdUserId = result.userId;
                 createdUsers.set(userEmail, createdUserId);
-                chunkUsersCreated += 1;
+                userOutcome = result.outcome;
+                if (resolvedOrgId) {
+                  rowLedger?.record({
+                    recordNumber: currentRecordNumber,
+                    status: "user_done",
+                    email: payload.email,
+                    userId: createdUserId,
+                    user: result.outcome,
+                    orgId: resolvedOrgId
+                  });
+                }
+                if (result.outcome === "created") {
+                  chunkUsersCreated += 1;
+                  ledger?.record({ type: 'user', id: createdUserId, email: payload.email, recordNumber: currentRecordNumber });
+                } else {
+                  preexistingUsers.add(createdUserId);
+                  if (result.outcome === "updated") chunkUsersUpdated += 1;
+                  else chunkUsersSkipped += 1;
+                }
               } catch (userErr: any) {
                 chunkFailures += 1;
                 recordError({
                   recordNumber: currentRecordNumber,
                   email: payload.email,
-                  errorType: "user_create",
+                  userId: userErr instanceof UserUpdateError ? userErr.userId : undefined,
+                  errorType: userErr instanceof UserUpdateError ? "user_update" : "user_create",
                   errorMessage: userErr.message || String(userErr),
-                  httpStatus: userErr.status,
-                  workosCode: userErr.code,
-                  workosRequestId: userErr.requestId,
+                  ...workosErrorFields(userErr instanceof UserUpdateError ? userErr.original : userErr),
                   timestamp: new Date().toISOString(),
                   rawRow: currentRow
                 });
@@ -988,31 +1122,74 @@ async function processChunk(
             }
 
             // Create membership if org is specified and user was created/resolved
+            let membershipOutcome: RowLedgerEntry["membership"];
+            let membershipId: string | undefined;
+            let rowRolesAssigned = 0;
             if (resolvedOrgId && createdUserId) {
               const membershipKey = `${createdUserId}:${resolvedOrgId}`;
 
               if (createdMemberships.has(membershipKey)) {
                 chunkDuplicateMemberships += 1;
+                membershipOutcome = "duplicate";
               } else {
                 try {
                   let membershipResult: MembershipResult = { rolesAssigned: allRoleSlugs.length };
                   if (!dryRun) {
-                    membershipResult = await retryCreateOrganizationMembership(createdUserId, resolvedOrgId, limiter, allRoleSlugs.length > 0 ? allRoleSlugs : undefined);
+                    membershipResult = await retryCreateOrganizationMembership(createdUserId, resolvedOrgId, gateway, allRoleSlugs.length > 0 ? allRoleSlugs : undefined);
+                  }
+                  if (membershipResult.membershipId) {
+                    ledger?.record({
+                      type: 'membership',
+                      id: membershipResult.membershipId,
+                      userId: createdUserId,
+                      orgId: resolvedOrgId,
+                      email: payload.email,
+                      recordNumber: currentRecordNumber
+                    });
                   }
                   createdMemberships.add(membershipKey);
                   chunkMemberships += 1;
                   chunkRolesAssigned += membershipResult.rolesAssigned;
+                  membershipOutcome = "created";
+                  membershipId = membershipResult.membershipId;
+                  rowRolesAssigned = membershipResult.rolesAssigned;
                   if (membershipResult.warning) {
                     chunkWarnings.push(`Row ${currentRecordNumber}: ${membershipResult.warning}`);
                   }
                 } catch (membershipErr: any) {
-                  const membershipStatus: number | undefined =
-                    (membershipErr as any)?.status ?? (membershipErr as any)?.httpStatus ?? (membershipErr as any)?.response?.status;
-
-                  // Handle 409 conflict (duplicate membership) gracefully
-                  if (membershipStatus === 409) {
+                  const errorFields = workosErrorFields(membershipErr);
+
+                  if (errorFields.httpStatus === 409 && (built.userId || conflictModeForAction(built.action, onConflict) === "update") && allRoleSlugs.length > 0) {
+                    // Membership-only retry row or upsert (update action or --on-conflict update): the membership exists, re-apply its roles
+                    try {
+                      const roleResult = await updateMembershipRoles(gateway, createdUserId, resolvedOrgId, allRoleSlugs);
+                      createdMemberships.add(membershipKey);
+                      chunkRolesAssigned += roleResult.rolesAssigned;
+                      membershipOutcome = "duplicate";
+                      membershipId = roleResult.membershipId;
+                      rowRolesAssigned = roleResult.rolesAssigned;
+                    } catch (roleErr: any) {
+                      recordError({
+                        recordNumber: currentRecordNumber,
+                        email: payload.email,
+                        userId: createdUserId,
+                        errorType: "role_assignment",
+                        errorMessage: roleErr.message || String(roleErr),
+                        ...workosErrorFields(roleErr),
+                        orgId: resolvedOrgId,
+                        roleSlugs: allRoleSlugs,
+                        timestamp: new Date().toISOString(),
+                        rawRow: currentRow
+                      });
+                      rowLedger?.record({ recordNumber: currentRecordNumber, status: "failed" });
+                      chunkFailures += 1;
+                      return;
+                    }
+                  } else if (errorFields.httpStatus === 409) {
+                    // Handle 409 conflict (duplicate membership) gracefully
                     chunkDuplicateMemberships += 1;
                     createdMemberships.add(membershipKey);
+                    membershipOutcome = "duplicate";
                   } else {
                     // Other errors — always record the error
                     recordError({
@@ -1021,17 +1198,17 @@ async function processChunk(
                       userId: createdUserId,
                       errorType: "membership_create",
                       errorMessage: membershipErr.message || String(membershipErr),
-                      httpStatus: membershipStatus,
-                      workosCode: membershipErr.code,
-                      workosRequestId: membershipErr.requestId,
+                      ...errorFields,
                       timestamp: new Date().toISOString(),
                       rawRow: currentRow
                     });
 
                     if (requireMembership) {
-                      if (!dryRun) {
-                        await deleteUserSafe(createdUserId);
+                      // Never delete users that existed before this run
+                      if (!dryRun && !preexistingUsers.has(createdUserId)) {
+                        await deleteUserSafe(gateway, createdUserId);
                       }
+                      rowLedger?.record({ recordNumber: currentRecordNumber, status: "failed" });
                       chunkFailures += 1;
                       return;
                     }
@@ -1041,6 +1218,17 @@ async function processChunk(
               }
             }
 
+            rowLedger?.record({
+              recordNumber: currentRecordNumber,
+              status: "completed",
+              email: payload.email,
+              userId: createdUserId,
+              user: userOutcome,
+              orgId: resolvedOrgId ?? undefined,
+              membershipId,
+              membership: membershipOutcome,
+              rolesAssigned: rowRolesAssigned || undefined
+            });
             chunkSuccesses += 1;
           } finally {
             sem.release();
@@ -1059,6 +1247,7 @@ async function processChunk(
 
   // Wait for all in-flight tasks
   await Promise.all(inFlight);
+  rowLedger?.close();
 
   // Close error stream
   if (errorStream) {
@@ -1077,6 +1266,9 @@ async function processChunk(
     failures: chunkFailures,
     membershipsCreated: chunkMemberships,
     usersCreated: chunkUsersCreated,
+    usersUpdated: chunkUsersUpdated,
+    usersSkipped: chunkUsersSkipped,
+    usersDeleted: chunkUsersDeleted,
     duplicateUsers: chunkDuplicateUsers,
     duplicateMemberships: chunkDuplicateMemberships,
     rolesAssigned: chunkRolesAssigned,
@@ -1099,19 +1291,26 @@ async function importUsersWorkerMode(options: ImportOptions): Promise<{
     throw new Error("Checkpoint manager required for worker mode");
   }
 
-  const logger = createLogger({ quiet });
+  const logger = createLogger({ quiet, redaction: options.redaction });
   const state = checkpointManager.getState();
 
+  // Organizations created by the pre-warm go into the rollback ledger too
+  const ledger = dryRun ? null : new CreationLedger(checkpointManager.getCheckpointDir());
+  const onOrgCreated = ledger
+    ? (org: { id: string; externalId?: string }) => ledger.record({ type: 'organization', id: org.id, externalId: org.externalId })
+    : undefined;
+
   // Initialize organization cache for multi-org mode
   let orgCache: OrganizationCache | null = null;
   if (state.mode === 'multi-org') {
-    orgCache = checkpointManager.restoreCache(dryRun);
+    orgCache = checkpointManager.restoreCache(dryRun, onOrgCreated);
     if (orgCache) {
       logger.log(`Restored organization cache: ${orgCache.getStats().size} entries`);
     } else {
-      orgCache = new OrganizationCache({ maxSize: 10000, dryRun });
+      orgCache = new OrganizationCache({ maxSize: 10000, dryRun, onCreate: onOrgCreated });
       logger.log("Multi-org mode: Organization cache initialized");
     }
+    seedOrgCache(orgCache, options.orgCacheEntries, logger);
   }
 
   // Import WorkerCoordinator dynamically to avoid circular dependency
@@ -1123,7 +1322,9 @@ async function importUsersWorkerMode(options: ImportOptions): Promise<{
     concurrency: options.concurrency ?? 10,
     orgId: options.orgId ?? null,
     requireMembership: options.requireMembership ?? false,
-    dryRun: options.dryRun ?? false
+    dryRun: options.dryRun ?? false,
+    onConflict: options.onConflict ?? "fail",
+    redaction: options.redaction
   };
 
   // Create and start coordinator
@@ -1132,7 +1333,8 @@ async function importUsersWorkerMode(options: ImportOptions): Promise<{
       checkpointManager,
       numWorkers,
       orgCache,
-      importOptions: workerOptions as any
+      importOptions: workerOptions as any,
+      chunkRetry: { maxRetries: options.chunkRetries }
     },
     logger
   );
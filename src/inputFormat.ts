@@ -0,0 +1,169 @@
+/**
+ * User input formats
+ *
+ * The importer, validator and checkpoint chunking read users from either:
+ * - CSV (header row; metadata as a JSON string, role_slugs as text)
+ * - JSONL / NDJSON (one JSON object per line; metadata as a nested object,
+ *   role_slugs as an array)
+ *
+ * Both produce the same CSVRow records, numbered from 1 in file order
+ * (blank lines skipped), so chunk ranges mean the same thing for either.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { Transform, type TransformCallback } from 'node:stream';
+import { StringDecoder } from 'node:string_decoder';
+import { parse } from 'csv-parse';
+import { stringify } from 'csv-stringify';
+import type { ChunkMetadata } from './types.js';
+
+export type InputFormat = 'csv' | 'jsonl';
+
+const JSONL_EXTENSIONS = new Set(['.jsonl', '.ndjson']);
+
+/**
+ * Input format from the file extension (.jsonl/.ndjson, anything else is CSV)
+ */
+export function detectInputFormat(filePath: string): InputFormat {
+  return JSONL_EXTENSIONS.has(path.extname(filePath).toLowerCase()) ? 'jsonl' : 'csv';
+}
+
+/**
+ * Parses JSON Lines into one object per non-blank line.
+ * Malformed lines fail the stream with their line number, like csv-parse.
+ */
+class JsonLinesParser extends Transform {
+  private decoder = new StringDecoder('utf8');
+  private buffered = '';
+  private lineNumber = 0;
+
+  constructor() {
+    super({ readableObjectMode: true });
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    this.buffered += this.decoder.write(chunk);
+    const lines = this.buffered.split('\n');
+    this.buffered = lines.pop() ?? '';
+    try {
+      for (const line of lines) {
+        this.pushLine(line);
+      }
+    } catch (err) {
+      callback(err as Error);
+      return;
+    }
+    callback();
+  }
+
+  _flush(callback: TransformCallback): void {
+    this.buffered += this.decoder.end();
+    try {
+      if (this.buffered) {
+        this.pushLine(this.buffered);
+      }
+    } catch (err) {
+      callback(err as Error);
+      return;
+    }
+    callback();
+  }
+
+  private pushLine(line: string): void {
+    this.lineNumber++;
+    // trim() also drops a leading BOM and the \r of CRLF files
+    const text = line.trim();
+    if (!text) return;
+
+    let value: unknown;
+    try {
+      value = JSON.parse(text);
+    } catch (err) {
+      throw new Error(`Invalid JSON on line ${this.lineNumber}: ${(err as Error).message}`);
+    }
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new Error(`Line ${this.lineNumber} must be a JSON object`);
+    }
+    this.push(value);
+  }
+}
+
+/**
+ * Object-mode stream of rows for a user file. Pipe the file into it and
+ * read() rows, exactly as with csv-parse.
+ *
+ * Pass `columns` when the CSV input starts after the header row (a seek
+ * into the file); otherwise the first line is read as the header.
+ */
+export function createRowParser(filePath: string, columns?: string[]): Transform {
+  if (detectInputFormat(filePath) === 'jsonl') {
+    return new JsonLinesParser();
+  }
+  return parse({
+    columns: columns ?? true,
+    bom: true,
+    skip_empty_lines: true,
+    trim: true
+  });
+}
+
+/**
+ * Column names from the CSV header row
+ */
+export async function readCsvHeader(filePath: string): Promise<string[]> {
+  const input = fs.createReadStream(filePath);
+  const parser = input.pipe(parse({
+    bom: true,
+    skip_empty_lines: true,
+    trim: true,
+    to: 1
+  }));
+  try {
+    for await (const record of parser) {
+      return record as string[];
+    }
+    return [];
+  } finally {
+    input.destroy();
+  }
+}
+
+/**
+ * Open the rows of one checkpoint chunk. Chunks with byte offsets (see
+ * scanChunkOffsets) read only their own slice of the file; older checkpoints
+ * without offsets read from the top. `recordsBefore` is the number of rows
+ * preceding the first row the parser will produce.
+ */
+export async function openChunkRows(
+  filePath: string,
+  chunk: Pick<ChunkMetadata, 'startRow' | 'startByte' | 'endByte'>
+): Promise<{ input: fs.ReadStream; parser: Transform; recordsBefore: number }> {
+  if (chunk.startByte === undefined || chunk.endByte === undefined) {
+    return { input: fs.createReadStream(filePath), parser: createRowParser(filePath), recordsBefore: 0 };
+  }
+
+  const columns = detectInputFormat(filePath) === 'csv' ? await readCsvHeader(filePath) : undefined;
+  return {
+    // createReadStream's end is inclusive
+    input: fs.createReadStream(filePath, { start: chunk.startByte, end: chunk.endByte - 1 }),
+    parser: createRowParser(filePath, columns),
+    recordsBefore: chunk.startRow - 1
+  };
+}
+
+/**
+ * Writer for rows in the same format as `filePath`: CSV with a header of
+ * `columns`, or one JSON object per line (nested values kept as-is)
+ */
+export function createRowStringifier(filePath: string, columns: string[]): Transform {
+  if (detectInputFormat(filePath) === 'jsonl') {
+    return new Transform({
+      writableObjectMode: true,
+      transform(row: unknown, _encoding, callback) {
+        callback(null, JSON.stringify(row) + '\n');
+      }
+    });
+  }
+  return stringify({ header: true, columns });
+}
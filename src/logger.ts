@@ -1,26 +1,30 @@
 import chalk from 'chalk';
+import { redactText, type RedactionPolicy } from './redaction.js';
 
 type LoggerOptions = {
   quiet?: boolean;
+  redaction?: RedactionPolicy; // Applied to emails in string arguments
 };
 
 export function createLogger(options: LoggerOptions) {
   const quiet = Boolean(options.quiet);
   const useColors = process.stdout.isTTY && !process.env.NO_COLOR && !process.env.CI;
+  const redact = (args: unknown[]) =>
+    options.redaction ? args.map(arg => (typeof arg === 'string' ? redactText(arg, options.redaction) : arg)) : args;
 
   const log = (...args: unknown[]) => {
     if (!quiet) {
       // eslint-disable-next-line no-console
-      console.log(...args);
+      console.log(...redact(args));
     }
   };
   const warn = (...args: unknown[]) => {
     // eslint-disable-next-line no-console
-    console.warn(...args);
+    console.warn(...redact(args));
   };
   const error = (...args: unknown[]) => {
     // eslint-disable-next-line no-console
-    console.error(...args);
+    console.error(...redact(args));
   };
   const stepStart = (recordNumber: number) => {
     log(`▶ Processing record #${recordNumber}`);
@@ -343,7 +343,8 @@ export class FieldMapper {
       'metadata',
       'org_id',
       'org_external_id',
-      'org_name'
+      'org_name',
+      'org_domains'
     ];
 
     // Collect target fields from mappings
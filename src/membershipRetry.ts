@@ -0,0 +1,42 @@
+import type { WorkOSGateway } from "./workosGateway.js";
+
+/**
+ * Membership-only retry rows.
+ *
+ * Rows with a user_id column refer to a user that already exists in WorkOS
+ * (workos-analyze-errors writes them for membership and role failures). The
+ * importer skips user creation for these rows and only re-attempts the
+ * membership; when the membership already exists, the row's roles are
+ * re-applied to it instead.
+ */
+
+/**
+ * Parse the user_id column. Blank or missing means the row creates its user.
+ */
+export function parseRowUserId(value: unknown): string | undefined {
+  if (typeof value !== "string") return undefined;
+  const userId = value.trim();
+  return userId || undefined;
+}
+
+/**
+ * Set the roles of an existing membership. Throws if the user is not a member
+ * of the organization.
+ */
+export async function updateMembershipRoles(
+  gateway: WorkOSGateway,
+  userId: string,
+  organizationId: string,
+  roleSlugs: string[]
+): Promise<{ membershipId: string; rolesAssigned: number }> {
+  const membership = await gateway.findOrganizationMembership(userId, organizationId);
+  if (!membership) {
+    throw new Error(`No membership found for user ${userId} in organization ${organizationId}`);
+  }
+
+  await gateway.updateOrganizationMembership(
+    membership.id,
+    roleSlugs.length === 1 ? { roleSlug: roleSlugs[0] } : { roleSlugs }
+  );
+  return { membershipId: membership.id, rolesAssigned: roleSlugs.length };
+}
@@ -54,16 +54,19 @@ export class MigrationOrchestrator {
         );
       } else {
         // Create new checkpoint
-        const csvHash = await import('../checkpoint/csvUtils.js').then(m =>
-          m.calculateCsvHash(this.options.csvPath)
-        );
+        const { calculateCsvHash, scanChunkOffsets } = await import('../checkpoint/csvUtils.js');
+        const csvHash = await calculateCsvHash(this.options.csvPath);
+        const chunkSize = this.options.chunkSize || 1000;
+        // Quote-aware row count and chunk byte offsets (the plan's count is line-based)
+        const { totalRows, chunkOffsets } = await scanChunkOffsets(this.options.csvPath, chunkSize);
 
         checkpointManager = await CheckpointManager.create({
           jobId,
           csvPath: this.options.csvPath,
           csvHash,
-          totalRows: plan.summary.totalRows,
-          chunkSize: this.options.chunkSize || 1000,
+          totalRows,
+          chunkSize,
+          chunkOffsets,
           concurrency: this.options.concurrency || 10,
           mode: plan.summary.mode,
           orgId: this.options.orgId,
@@ -113,7 +116,9 @@ export class MigrationOrchestrator {
       orgId: resolvedOrgId,
       requireMembership: this.options.requireMembership,
       dryRun: this.options.dryRun,
+      onConflict: this.options.onConflict,
       errorsOutPath: this.options.errorsOutPath,
+      redaction: this.options.redaction,
       multiOrgMode: plan.summary.mode === 'multi-org',
       checkpointManager,
       numWorkers: this.options.workers,
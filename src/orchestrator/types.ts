@@ -4,7 +4,8 @@
  * Defines interfaces for migration planning and execution.
  */
 
-import type { ImportSummary } from '../types.js';
+import type { ImportSummary, OnConflictMode } from '../types.js';
+import type { RedactionPolicy } from '../redaction.js';
 
 /**
  * Options for the orchestrator (superset of import options)
@@ -23,7 +24,9 @@ export interface OrchestratorOptions {
   createOrgIfMissing?: boolean;
   requireMembership?: boolean;
   dryRun?: boolean;
+  onConflict?: OnConflictMode;
   errorsOutPath?: string;
+  redaction?: RedactionPolicy; // PII redaction for error files and logs
 
   // Checkpoint/resumability options
   jobId?: string;
@@ -0,0 +1,207 @@
+/**
+ * Tests for orgDefinitionsProcessor
+ *
+ * Creating and updating organizations from an org definitions CSV, dry runs,
+ * and pre-warming the user import's organization cache from the report.
+ *
+ * Usage: npx tsx src/organizations/__tests__/orgDefinitionsProcessor.test.ts
+ */
+
+import { strict as assert } from 'node:assert';
+import { writeFileSync, mkdirSync, rmSync } from 'node:fs';
+import path from 'node:path';
+import { startFakeWorkOSServer } from '../../testing/fakeWorkOSServer.js';
+
+const TEST_DIR = path.join(process.cwd(), '.temp-org-processor-tests');
+
+const server = await startFakeWorkOSServer({ apiKey: 'sk_test_org_processor' });
+process.env.WORKOS_BASE_URL = server.baseUrl;
+process.env.WORKOS_SECRET_KEY = 'sk_test_org_processor';
+
+const { processOrgDefinitions, loadOrgCacheEntriesFromReport } = await import('../orgDefinitionsProcessor.js');
+const { parseOrgDefinitionsCsv } = await import('../orgDefinitionsCsvParser.js');
+const { OrganizationCache } = await import('../../cache/organizationCache.js');
+const { importUsersFromCsv } = await import('../../importer.js');
+
+function writeCsv(filename: string, content: string): string {
+  const filePath = path.join(TEST_DIR, filename);
+  writeFileSync(filePath, content, 'utf8');
+  return filePath;
+}
+
+function orgByExternalId(externalId: string) {
+  return [...server.state.organizations.values()].find(o => o.external_id === externalId);
+}
+
+async function runTests() {
+  mkdirSync(TEST_DIR, { recursive: true });
+  let passed = 0;
+  let failed = 0;
+
+  async function test(name: string, fn: () => Promise<void> | void) {
+    server.reset();
+    try {
+      await fn();
+      console.log(`  ✓ ${name}`);
+      passed++;
+    } catch (err: any) {
+      console.log(`  ✗ ${name}`);
+      console.log(`    ${err.message}`);
+      failed++;
+    }
+  }
+
+  console.log('orgDefinitionsProcessor tests\n');
+
+  await test('parses metadata and allow_profiles_outside_organization', async () => {
+    const csvPath = writeCsv('parse.csv',
+      `org_external_id,org_name,metadata,allow_profiles_outside_organization
+acme,Acme,"{""tier"":""gold"",""seats"":50,""owner"":null}",yes
+globex,Globex,,
+initech,Initech,"[1,2]",
+hooli,Hooli,,maybe`
+    );
+
+    const { definitions, errors } = await parseOrgDefinitionsCsv(csvPath);
+    assert.deepEqual(definitions.map(d => d.externalId), ['acme', 'globex']);
+    assert.deepEqual(definitions[0]!.metadata, { tier: 'gold', seats: '50' });
+    assert.equal(definitions[0]!.allowProfilesOutsideOrganization, true);
+    assert.equal(definitions[1]!.metadata, undefined);
+    assert.equal(definitions[1]!.allowProfilesOutsideOrganization, undefined);
+    assert.deepEqual(errors, [
+      'Row 3: Invalid metadata for "initech": metadata must be a JSON object',
+      'Row 4: Invalid allow_profiles_outside_organization "maybe" for "hooli" (expected true/false)',
+    ]);
+  });
+
+  await test('creates missing organizations with all attributes', async () => {
+    const csvPath = writeCsv('create.csv',
+      `org_external_id,org_name,org_domains,metadata,allow_profiles_outside_organization
+acme,Acme,acme.com:verified,"{""tier"":""gold""}",true`
+    );
+
+    const summary = await processOrgDefinitions({ csvPath, quiet: true });
+    assert.equal(summary.created, 1);
+    assert.equal(summary.errors, 0);
+
+    const org = orgByExternalId('acme');
+    assert.ok(org, 'Organization should be created');
+    assert.equal(summary.results[0]!.orgId, org.id);
+    assert.equal(org.name, 'Acme');
+    assert.deepEqual(org.metadata, { tier: 'gold' });
+    assert.equal(org.allow_profiles_outside_organization, true);
+    assert.deepEqual(org.domains.map(d => `${d.domain}:${d.state}`), ['acme.com:verified']);
+  });
+
+  await test('updates changed attributes and leaves up-to-date orgs alone', async () => {
+    server.seedOrganization({
+      name: 'Acme Inc',
+      external_id: 'acme',
+      metadata: { tier: 'silver', region: 'us' },
+      domains: [{ object: 'organization_domain', id: 'org_domain_seeded', domain: 'acme.com', state: 'verified' }],
+    });
+    server.seedOrganization({ name: 'Globex', external_id: 'globex', metadata: { tier: 'gold' } });
+
+    const csvPath = writeCsv('update.csv',
+      `org_external_id,org_name,org_domains,metadata,allow_profiles_outside_organization
+acme,Acme,acme.com|acme.io,"{""tier"":""gold""}",true
+globex,,,"{""tier"":""gold""}",false`
+    );
+
+    const summary = await processOrgDefinitions({ csvPath, quiet: true });
+    assert.equal(summary.updated, 1);
+    assert.equal(summary.alreadyExist, 1);
+    assert.deepEqual(summary.results[0]!.changes, ['name', 'domains', 'metadata', 'allow_profiles_outside_organization']);
+    assert.equal(server.countRequests('PUT', '/organizations'), 1, 'Only the changed org is updated');
+
+    const org = orgByExternalId('acme')!;
+    assert.equal(org.name, 'Acme');
+    assert.deepEqual(org.metadata, { tier: 'gold', region: 'us' }, 'Metadata keys are merged, not replaced');
+    assert.deepEqual(org.domains.map(d => `${d.domain}:${d.state}`), ['acme.com:verified', 'acme.io:pending']);
+    assert.equal(org.allow_profiles_outside_organization, true);
+  });
+
+  await test('dry run looks organizations up without writing', async () => {
+    server.seedOrganization({ name: 'Globex', external_id: 'globex' });
+    const csvPath = writeCsv('dry-run.csv',
+      `org_external_id,org_name
+acme,Acme
+globex,Globex Corp
+initech,`
+    );
+
+    const summary = await processOrgDefinitions({ csvPath, dryRun: true, quiet: true });
+    assert.equal(summary.created, 1);
+    assert.equal(summary.updated, 1);
+    assert.equal(summary.errors, 1);
+    assert.equal(summary.results[0]!.orgId, undefined, 'Dry-run creations have no org ID');
+    assert.equal(server.countRequests('POST', '/organizations'), 0);
+    assert.equal(server.countRequests('PUT', '/organizations'), 0);
+    assert.equal(orgByExternalId('globex')!.name, 'Globex');
+  });
+
+  await test('API errors are reported per organization', async () => {
+    server.addFault({ method: 'POST', path: '/organizations', status: 422, body: { message: 'Organization rejected' } });
+    const csvPath = writeCsv('errors.csv',
+      `org_external_id,org_name
+acme,Acme`
+    );
+
+    const summary = await processOrgDefinitions({ csvPath, quiet: true });
+    assert.equal(summary.errors, 1);
+    assert.equal(summary.results[0]!.action, 'error');
+    assert.match(summary.results[0]!.error ?? '', /Organization rejected/);
+  });
+
+  await test('report pre-warms the user import so it makes no org lookups', async () => {
+    server.seedOrganization({ name: 'Globex', external_id: 'globex' });
+    const csvPath = writeCsv('orgs.csv',
+      `org_external_id,org_name
+acme,Acme
+globex,Globex`
+    );
+
+    const orgCache = new OrganizationCache();
+    const summary = await processOrgDefinitions({ csvPath, orgCache, quiet: true });
+    assert.equal(orgCache.getStats().size, 4, 'Cached by external_id and id');
+
+    const reportPath = path.join(TEST_DIR, 'report.json');
+    writeFileSync(reportPath, JSON.stringify(summary), 'utf8');
+    const entries = loadOrgCacheEntriesFromReport(reportPath);
+    assert.equal(entries.length, 4);
+
+    const usersCsv = writeCsv('users.csv',
+      `email,org_external_id
+ann@acme.com,acme
+bob@globex.com,globex`
+    );
+    const orgLookupsBefore = server.countRequests('GET', '/organizations');
+    const result = await importUsersFromCsv({
+      csvPath: usersCsv,
+      quiet: true,
+      multiOrgMode: true,
+      orgCacheEntries: entries,
+    });
+    assert.equal(result.summary.failures, 0);
+    assert.equal(result.summary.membershipsCreated, 2);
+    assert.equal(server.countRequests('GET', '/organizations'), orgLookupsBefore);
+  });
+
+  await test('rejects files that are not org definitions reports', async () => {
+    const reportPath = path.join(TEST_DIR, 'not-a-report.json');
+    writeFileSync(reportPath, '{"total": 0}', 'utf8');
+    assert.throws(() => loadOrgCacheEntriesFromReport(reportPath), /Not an org definitions report/);
+  });
+
+  rmSync(TEST_DIR, { recursive: true, force: true });
+  await server.stop();
+
+  console.log(`\n${passed} passed, ${failed} failed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+runTests().catch(async (err) => {
+  console.error('Test runner error:', err);
+  await server.stop();
+  process.exit(1);
+});
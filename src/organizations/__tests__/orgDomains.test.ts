@@ -0,0 +1,213 @@
+/**
+ * Organization Domain Tests
+ *
+ * org_domains parsing and merging, organizations created or updated with
+ * their domains during import, the org definitions CSV, and the Auth0 and
+ * Clerk mappers passing domains through.
+ *
+ * Run with: npx tsx src/organizations/__tests__/orgDomains.test.ts
+ */
+
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { startFakeWorkOSServer } from "../../testing/fakeWorkOSServer.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const TEMP_DIR = path.join(__dirname, "../../../.temp-org-domains-tests");
+
+const server = await startFakeWorkOSServer({ apiKey: "sk_test_org_domains" });
+process.env.WORKOS_BASE_URL = server.baseUrl;
+process.env.WORKOS_SECRET_KEY = "sk_test_org_domains";
+
+const { parseOrgDomains, mergeOrgDomains, formatOrgDomains } = await import("../orgDomains.js");
+const { parseOrgDefinitionsCsv } = await import("../orgDefinitionsCsvParser.js");
+const { processOrgDefinitions } = await import("../orgDefinitionsProcessor.js");
+const { OrganizationCache } = await import("../../cache/organizationCache.js");
+const { importUsersFromCsv } = await import("../../importer.js");
+const { CSVValidator } = await import("../../validator/csvValidator.js");
+const { mapAuth0UserToWorkOS } = await import("../../exporters/auth0/auth0Mapper.js");
+const { mapClerkUserToWorkOS } = await import("../../transformers/clerk/clerkMapper.js");
+
+// --- Helpers ---
+
+function writeFile(filename: string, lines: string[]): string {
+  const filePath = path.join(TEMP_DIR, filename);
+  fs.writeFileSync(filePath, lines.join("\n") + "\n", "utf8");
+  return filePath;
+}
+
+function domainsOf(externalId: string) {
+  const org = [...server.state.organizations.values()].find(o => o.external_id === externalId);
+  return org?.domains.map(d => `${d.domain}:${d.state}`).sort();
+}
+
+// --- Test Runner ---
+
+let passed = 0;
+let failed = 0;
+
+async function test(name: string, fn: () => Promise<void> | void) {
+  server.reset();
+  try {
+    await fn();
+    passed++;
+    console.log(`  ✓ ${name}`);
+  } catch (err: unknown) {
+    failed++;
+    console.log(`  ✗ ${name}`);
+    console.log(`    ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+// --- Test Suite ---
+
+async function main() {
+  fs.mkdirSync(TEMP_DIR, { recursive: true });
+
+  console.log("\nOrganization Domain Tests");
+  console.log("=========================\n");
+
+  await test("parses separators, states, arrays and duplicates", () => {
+    assert.deepEqual(parseOrgDomains(" Acme.com:Verified , acme.io|acme.dev:pending "), [
+      { domain: "acme.com", state: "verified" },
+      { domain: "acme.io", state: "pending" },
+      { domain: "acme.dev", state: "pending" }
+    ]);
+    assert.deepEqual(parseOrgDomains("acme.com,acme.com:verified,acme.com"), [{ domain: "acme.com", state: "verified" }]);
+    assert.deepEqual(parseOrgDomains(["acme.com", { domain: "acme.io", state: "verified" }]), [
+      { domain: "acme.com", state: "pending" },
+      { domain: "acme.io", state: "verified" }
+    ]);
+    assert.deepEqual(parseOrgDomains('["acme.com:verified"]'), [{ domain: "acme.com", state: "verified" }]);
+    assert.deepEqual(parseOrgDomains(""), []);
+    assert.deepEqual(parseOrgDomains(undefined), []);
+    assert.throws(() => parseOrgDomains("acme.com,localhost"), /Invalid domain "localhost"/);
+    assert.throws(() => parseOrgDomains("acme.com:approved"), /Invalid domain state "approved" for acme.com/);
+    assert.equal(formatOrgDomains(parseOrgDomains("acme.com:verified,acme.io")), "acme.com:verified,acme.io:pending");
+  });
+
+  await test("merge keeps current domains and never downgrades", () => {
+    const current = parseOrgDomains("acme.com:verified,acme.io");
+    assert.equal(mergeOrgDomains(current, parseOrgDomains("acme.com,acme.io")).changed, false);
+    const merged = mergeOrgDomains(current, parseOrgDomains("acme.io:verified,acme.dev"));
+    assert.equal(merged.changed, true);
+    assert.equal(formatOrgDomains(merged.domains), "acme.com:verified,acme.io:verified,acme.dev:pending");
+  });
+
+  await test("import creates organizations with domains and adds missing ones to existing orgs", async () => {
+    server.seedOrganization({
+      name: "Globex",
+      external_id: "globex",
+      domains: [{ object: "organization_domain", id: "org_domain_seeded", domain: "globex.com", state: "verified" }]
+    });
+    const csv = writeFile("users.csv", [
+      "email,org_external_id,org_name,org_domains",
+      "ann@acme.com,acme,Acme,acme.com:verified|acme.io",
+      "bob@acme.com,acme,Acme,",
+      "cid@globex.com,globex,Globex,globex.com:pending|globex.io:verified",
+      "dee@globex.com,globex,Globex,globex.net"
+    ]);
+    const { summary } = await importUsersFromCsv({ csvPath: csv, quiet: true, concurrency: 1, multiOrgMode: true });
+
+    assert.equal(summary.failures, 0);
+    assert.deepEqual(domainsOf("acme"), ["acme.com:verified", "acme.io:pending"]);
+    // First row per org wins; the verified domain stays verified
+    assert.deepEqual(domainsOf("globex"), ["globex.com:verified", "globex.io:verified"]);
+    assert.equal(server.countRequests("PUT", "/organizations"), 1);
+  });
+
+  await test("rows with invalid org_domains fail without creating the org", async () => {
+    const csv = writeFile("invalid.csv", [
+      "email,org_external_id,org_name,org_domains",
+      "ann@acme.com,acme,Acme,acme.com:approved"
+    ]);
+    const { summary, errors } = await importUsersFromCsv({ csvPath: csv, quiet: true, multiOrgMode: true });
+    assert.equal(summary.failures, 1);
+    assert.match(errors[0]?.errorMessage ?? "", /Invalid org_domains: Invalid domain state "approved"/);
+    assert.equal(server.state.organizations.size, 0);
+  });
+
+  await test("org definitions CSV creates and updates organizations", async () => {
+    server.seedOrganization({ name: "Initech", external_id: "initech" });
+    const defsCsv = writeFile("orgs.csv", [
+      "org_external_id,org_name,org_domains",
+      "acme,Acme,acme.com:verified",
+      "initech,,initech.com",
+      "acme,Acme Again,acme.io",
+      "hooli,,",
+      ",Nameless,",
+      "umbrella,Umbrella,umbrella"
+    ]);
+    const parsed = await parseOrgDefinitionsCsv(defsCsv);
+    assert.deepEqual(parsed.definitions.map(d => d.externalId), ["acme", "initech", "hooli"]);
+    assert.equal(parsed.warnings.length, 1);
+    assert.match(parsed.warnings[0]!, /Duplicate org_external_id "acme"/);
+    assert.deepEqual(parsed.errors, [
+      "Row 5: Missing org_external_id",
+      'Row 6: Invalid org_domains for "umbrella": Invalid domain "umbrella"'
+    ]);
+
+    const orgCache = new OrganizationCache();
+    const summary = await processOrgDefinitions({ csvPath: defsCsv, orgCache, quiet: true });
+    assert.equal(summary.created, 1);
+    assert.equal(summary.updated, 1);
+    assert.equal(summary.errors, 3, "Two parse errors and one unresolvable org");
+    assert.equal(
+      summary.results.find(r => r.externalId === "hooli")?.error,
+      "Organization not found and no org_name provided for creation"
+    );
+    assert.deepEqual(domainsOf("acme"), ["acme.com:verified"]);
+    assert.deepEqual(domainsOf("initech"), ["initech.com:pending"]);
+    assert.equal(orgCache.getStats().size, 4, "Resolved orgs are cached by external_id and id");
+  });
+
+  await test("validator flags malformed org_domains", async () => {
+    const csv = writeFile("validate.csv", [
+      "email,org_external_id,org_domains",
+      "ann@acme.com,acme,acme.com:verified",
+      "bob@acme.com,acme,not a domain",
+      "cid@acme.com,,acme.com"
+    ]);
+    const report = await new CSVValidator({ csvPath: csv, quiet: true }).validate();
+    const issues = report.issues.filter(i => i.ruleId === "org-domains-format");
+    assert.deepEqual(issues.map(i => `${i.recordNumber}:${i.severity}`), ["2:error", "3:warning"]);
+    assert.equal(report.issues.some(i => i.ruleId === "unknown-columns"), false);
+  });
+
+  await test("Auth0 and Clerk mappers pass org domains through", () => {
+    const user = { user_id: "auth0|1", email: "ann@acme.com", created_at: "", updated_at: "" } as any;
+    const auth0Row = mapAuth0UserToWorkOS(user, {
+      id: "org_1",
+      name: "acme",
+      metadata: { domains: "Acme.com:verified, acme.io, not a domain" }
+    });
+    assert.equal(auth0Row.org_domains, "acme.com:verified,acme.io:pending");
+    assert.equal(mapAuth0UserToWorkOS(user, { id: "org_2", name: "globex" }).org_domains, undefined);
+
+    const { row } = mapClerkUserToWorkOS(
+      { id: "user_1", primary_email_address: "ann@acme.com" } as any,
+      { clerk_user_id: "user_1", org_id: "org_1", org_domains: "acme.com" }
+    );
+    assert.equal(row.org_id, "org_1");
+    assert.equal(row.org_domains, "acme.com");
+  });
+
+  await server.stop();
+  fs.rmSync(TEMP_DIR, { recursive: true, force: true });
+
+  console.log(`\nTests: ${passed} passed, ${failed} failed`);
+  if (failed > 0) {
+    process.exit(1);
+  }
+  process.exit(0);
+}
+
+main().catch(async (err) => {
+  console.error("Test runner error:", err);
+  await server.stop();
+  process.exit(1);
+});
@@ -0,0 +1,147 @@
+import { createReadStream, existsSync } from 'node:fs';
+import { parse } from 'csv-parse';
+import { parseOrgDomains } from './orgDomains.js';
+import { isBlank, parseBooleanLike } from '../boolean.js';
+import type { OrgDefinitionRow, ParsedOrgDefinition } from './types.js';
+
+const REQUIRED_COLUMNS = ['org_external_id'];
+
+/**
+ * Parse an org metadata cell: a JSON object whose values are sent to WorkOS
+ * as strings (arrays and objects are JSON-encoded, like user metadata)
+ */
+export function parseOrgMetadata(raw: string): Record<string, string> | undefined {
+  const trimmed = raw.trim();
+  if (!trimmed) return undefined;
+
+  const parsed = JSON.parse(trimmed);
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error('metadata must be a JSON object');
+  }
+  const metadata: Record<string, string> = {};
+  for (const [key, value] of Object.entries(parsed as Record<string, unknown>)) {
+    if (value === null || value === undefined) continue;
+    metadata[key] = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+  return metadata;
+}
+
+/** Parse org definitions CSV into structured objects */
+export async function parseOrgDefinitionsCsv(
+  csvPath: string
+): Promise<{
+  definitions: ParsedOrgDefinition[];
+  warnings: string[];
+  errors: string[];
+}> {
+  if (!existsSync(csvPath)) {
+    throw new Error(`Org definitions CSV not found: ${csvPath}`);
+  }
+
+  const definitions: ParsedOrgDefinition[] = [];
+  const warnings: string[] = [];
+  const errors: string[] = [];
+
+  // Track seen external IDs for deduplication
+  const seen = new Map<string, number>(); // external_id → row number
+
+  return new Promise((resolve, reject) => {
+    let headerValidated = false;
+    let rowNumber = 0;
+
+    const inputStream = createReadStream(csvPath);
+    const parser = parse({
+      columns: true,
+      bom: true,
+      skip_empty_lines: true,
+      trim: true,
+    });
+
+    inputStream
+      .pipe(parser)
+      .on('data', (row: Record<string, string>) => {
+        rowNumber++;
+
+        // Validate headers on first row
+        if (!headerValidated) {
+          headerValidated = true;
+          const headers = Object.keys(row);
+          const missingColumns = REQUIRED_COLUMNS.filter(
+            col => !headers.includes(col)
+          );
+
+          if (missingColumns.length > 0) {
+            reject(new Error(
+              `Org definitions CSV missing required columns: ${missingColumns.join(', ')}. ` +
+              `Found columns: ${headers.join(', ')}`
+            ));
+            return;
+          }
+        }
+
+        const typedRow: OrgDefinitionRow = {
+          org_external_id: row.org_external_id?.trim() ?? '',
+          org_name: row.org_name?.trim() || undefined,
+          org_domains: row.org_domains?.trim() || undefined,
+          metadata: row.metadata?.trim() || undefined,
+          allow_profiles_outside_organization: row.allow_profiles_outside_organization?.trim() || undefined,
+        };
+
+        // Validate org_external_id
+        if (!typedRow.org_external_id) {
+          errors.push(`Row ${rowNumber}: Missing org_external_id`);
+          return;
+        }
+
+        // Parse domains
+        let domains;
+        try {
+          domains = parseOrgDomains(typedRow.org_domains);
+        } catch (err: any) {
+          errors.push(`Row ${rowNumber}: Invalid org_domains for "${typedRow.org_external_id}": ${err.message}`);
+          return;
+        }
+
+        // Parse metadata
+        let metadata: Record<string, string> | undefined;
+        try {
+          metadata = typedRow.metadata ? parseOrgMetadata(typedRow.metadata) : undefined;
+        } catch (err: any) {
+          errors.push(`Row ${rowNumber}: Invalid metadata for "${typedRow.org_external_id}": ${err.message}`);
+          return;
+        }
+
+        // Parse allow_profiles_outside_organization
+        const allowProfiles = parseBooleanLike(typedRow.allow_profiles_outside_organization);
+        if (allowProfiles === undefined && !isBlank(typedRow.allow_profiles_outside_organization)) {
+          errors.push(
+            `Row ${rowNumber}: Invalid allow_profiles_outside_organization "${typedRow.allow_profiles_outside_organization}" ` +
+            `for "${typedRow.org_external_id}" (expected true/false)`
+          );
+          return;
+        }
+
+        // Check for duplicates
+        const previousRow = seen.get(typedRow.org_external_id);
+        if (previousRow !== undefined) {
+          warnings.push(
+            `Row ${rowNumber}: Duplicate org_external_id "${typedRow.org_external_id}" (same as row ${previousRow}) — using first definition`
+          );
+          return;
+        }
+        seen.set(typedRow.org_external_id, rowNumber);
+
+        definitions.push({
+          externalId: typedRow.org_external_id,
+          name: typedRow.org_name,
+          domains,
+          metadata,
+          allowProfilesOutsideOrganization: allowProfiles,
+        });
+      })
+      .on('end', () => {
+        resolve({ definitions, warnings, errors });
+      })
+      .on('error', reject);
+  });
+}
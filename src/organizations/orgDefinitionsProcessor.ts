@@ -0,0 +1,233 @@
+import { readFileSync } from 'node:fs';
+import type {
+  ParsedOrgDefinition,
+  OrgProcessingResult,
+  OrgDefinitionsSummary,
+} from './types.js';
+import {
+  createOrganization,
+  getOrganizationDetailsByExternalId,
+  updateOrganization,
+  type OrganizationAttributes,
+  type OrganizationDetails,
+} from '../orgs.js';
+import { mergeOrgDomains } from './orgDomains.js';
+import { parseOrgDefinitionsCsv } from './orgDefinitionsCsvParser.js';
+import { OrganizationCache } from '../cache/organizationCache.js';
+import type { SerializedCacheEntry } from '../checkpoint/types.js';
+
+export interface ProcessOrgDefinitionsOptions {
+  csvPath: string;
+  orgCache?: OrganizationCache;  // Primed with every organization that resolves
+  dryRun?: boolean;              // Look organizations up, but create/update nothing
+  quiet?: boolean;
+}
+
+/**
+ * Compare an existing organization with its definition.
+ * Only attributes present in the definition are compared; domains and
+ * metadata keys are added, never removed.
+ */
+function diffOrganization(
+  definition: ParsedOrgDefinition,
+  existing: OrganizationDetails
+): { changes: string[]; update: OrganizationAttributes } {
+  const changes: string[] = [];
+  const update: OrganizationAttributes = {};
+
+  if (definition.name && definition.name !== existing.name) {
+    changes.push('name');
+    update.name = definition.name;
+  }
+
+  const domains = mergeOrgDomains(existing.domains, definition.domains);
+  if (domains.changed) {
+    changes.push('domains');
+    update.domains = domains.domains;
+  }
+
+  if (definition.metadata) {
+    const differs = Object.entries(definition.metadata).some(([key, value]) => existing.metadata[key] !== value);
+    if (differs) {
+      changes.push('metadata');
+      update.metadata = { ...existing.metadata, ...definition.metadata };
+    }
+  }
+
+  if (
+    definition.allowProfilesOutsideOrganization !== undefined &&
+    definition.allowProfilesOutsideOrganization !== existing.allowProfilesOutsideOrganization
+  ) {
+    changes.push('allow_profiles_outside_organization');
+    update.allowProfilesOutsideOrganization = definition.allowProfilesOutsideOrganization;
+  }
+
+  return { changes, update };
+}
+
+/** Process a single org definition */
+async function processOrgDefinition(
+  definition: ParsedOrgDefinition,
+  orgCache: OrganizationCache | undefined,
+  dryRun: boolean,
+  quiet: boolean
+): Promise<OrgProcessingResult> {
+  const result: OrgProcessingResult = {
+    externalId: definition.externalId,
+    action: 'error',
+    name: definition.name,
+    warnings: [],
+  };
+
+  try {
+    const existing = await getOrganizationDetailsByExternalId(definition.externalId);
+
+    if (existing) {
+      result.orgId = existing.id;
+      result.name = definition.name ?? existing.name;
+      const { changes, update } = diffOrganization(definition, existing);
+
+      if (changes.length === 0) {
+        result.action = 'exists';
+        if (!quiet) {
+          console.log(`  ✓ Organization "${definition.externalId}" already up to date (${existing.id})`);
+        }
+      } else {
+        if (!dryRun) {
+          await updateOrganization(existing.id, update);
+        }
+        result.action = 'updated';
+        result.changes = changes;
+        if (!quiet) {
+          const prefix = dryRun ? '[DRY RUN] Would update' : '~ Updated';
+          console.log(`  ${prefix} organization "${definition.externalId}" (${existing.id}): ${changes.join(', ')}`);
+        }
+      }
+
+      orgCache?.prime({ id: existing.id, externalId: definition.externalId, name: result.name });
+      return result;
+    }
+
+    // Organization doesn't exist — create it
+    if (!definition.name) {
+      result.error = 'Organization not found and no org_name provided for creation';
+      if (!quiet) {
+        console.error(`  ✗ Organization "${definition.externalId}": ${result.error}`);
+      }
+      return result;
+    }
+
+    if (dryRun) {
+      result.action = 'created';
+      if (!quiet) {
+        console.log(`  [DRY RUN] Would create organization "${definition.externalId}" (${definition.name})`);
+      }
+      return result;
+    }
+
+    result.orgId = await createOrganization(definition.name, definition.externalId, {
+      domains: definition.domains,
+      metadata: definition.metadata,
+      allowProfilesOutsideOrganization: definition.allowProfilesOutsideOrganization,
+    });
+    orgCache?.prime({ id: result.orgId, externalId: definition.externalId, name: definition.name });
+
+    result.action = 'created';
+    if (!quiet) {
+      const domainCount = definition.domains.length;
+      const domainSuffix = domainCount > 0 ? ` with ${domainCount} domain(s)` : '';
+      console.log(`  + Created organization "${definition.externalId}" (${result.orgId})${domainSuffix}`);
+    }
+  } catch (err: any) {
+    result.action = 'error';
+    result.error = err?.message || String(err);
+    if (!quiet) {
+      console.error(`  ✗ Error processing organization "${definition.externalId}": ${result.error}`);
+    }
+  }
+
+  return result;
+}
+
+/** Process all org definitions from CSV */
+export async function processOrgDefinitions(
+  options: ProcessOrgDefinitionsOptions
+): Promise<OrgDefinitionsSummary> {
+  const { csvPath, orgCache, dryRun = false, quiet = false } = options;
+
+  // Parse CSV
+  if (!quiet) {
+    console.log('Parsing org definitions CSV...');
+  }
+
+  const { definitions, warnings: parseWarnings, errors: parseErrors } =
+    await parseOrgDefinitionsCsv(csvPath);
+
+  if (parseErrors.length > 0 && !quiet) {
+    console.log(`\nCSV parse errors:`);
+    for (const err of parseErrors) {
+      console.error(`  - ${err}`);
+    }
+  }
+
+  if (parseWarnings.length > 0 && !quiet) {
+    console.log(`\nCSV parse warnings:`);
+    for (const warn of parseWarnings) {
+      console.warn(`  - ${warn}`);
+    }
+  }
+
+  if (!quiet) {
+    console.log(`\nFound ${definitions.length} organization definitions`);
+    if (dryRun) {
+      console.log('  Mode: DRY RUN (lookups only)');
+    }
+    console.log('\nProcessing organizations...');
+  }
+
+  const results: OrgProcessingResult[] = [];
+  const allWarnings: string[] = [...parseWarnings];
+
+  for (const def of definitions) {
+    const result = await processOrgDefinition(def, orgCache, dryRun, quiet);
+    results.push(result);
+    allWarnings.push(...result.warnings);
+  }
+
+  // Build summary
+  const summary: OrgDefinitionsSummary = {
+    total: definitions.length,
+    created: results.filter(r => r.action === 'created').length,
+    alreadyExist: results.filter(r => r.action === 'exists').length,
+    updated: results.filter(r => r.action === 'updated').length,
+    errors: results.filter(r => r.action === 'error').length + parseErrors.length,
+    warnings: allWarnings,
+    results,
+  };
+
+  return summary;
+}
+
+/**
+ * Organization cache entries from a `workos-import-orgs` JSON report, for
+ * pre-warming the cache of the user import that follows
+ */
+export function loadOrgCacheEntriesFromReport(reportPath: string): SerializedCacheEntry[] {
+  let report: { results?: OrgProcessingResult[] };
+  try {
+    report = JSON.parse(readFileSync(reportPath, 'utf8'));
+  } catch (err: any) {
+    throw new Error(`Could not read org definitions report ${reportPath}: ${err.message}`);
+  }
+  if (!Array.isArray(report.results)) {
+    throw new Error(`Not an org definitions report (no results): ${reportPath}`);
+  }
+
+  const orgCache = new OrganizationCache();
+  for (const result of report.results) {
+    if (result.orgId) {
+      orgCache.prime({ id: result.orgId, externalId: result.externalId, name: result.name });
+    }
+  }
+  return orgCache.serialize();
+}
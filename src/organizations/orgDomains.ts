@@ -0,0 +1,118 @@
+/**
+ * Organization domains
+ *
+ * The org_domains column (user CSVs and org definitions CSVs) lists an
+ * organization's domains, separated by commas or pipes, each with an
+ * optional domain state suffix:
+ *
+ *   acme.com:verified,acme.io|acme.dev:pending
+ *
+ * Domains without a suffix are imported as pending. JSONL rows may use an
+ * array of strings or of { domain, state } objects.
+ */
+
+import type { OrgDomain, OrgDomainState } from './types.js';
+
+const DOMAIN_STATES = new Set<OrgDomainState>(['verified', 'pending']);
+
+// Lowercase hostname with at least two labels (punycode TLDs allowed)
+const DOMAIN_PATTERN = /^(?=.{1,253}$)(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z][a-z0-9-]{0,61}[a-z0-9]$/;
+
+/** Parse one "domain[:state]" entry */
+export function parseOrgDomainEntry(entry: string): OrgDomain {
+  const trimmed = entry.trim();
+  const separator = trimmed.indexOf(':');
+  const domain = (separator === -1 ? trimmed : trimmed.slice(0, separator))
+    .trim()
+    .toLowerCase()
+    .replace(/\.$/, '');
+  const state = separator === -1 ? 'pending' : trimmed.slice(separator + 1).trim().toLowerCase();
+
+  if (!DOMAIN_PATTERN.test(domain)) {
+    throw new Error(`Invalid domain "${trimmed}"`);
+  }
+  if (!DOMAIN_STATES.has(state as OrgDomainState)) {
+    throw new Error(`Invalid domain state "${state}" for ${domain} (expected verified or pending)`);
+  }
+  return { domain, state: state as OrgDomainState };
+}
+
+function parseOrgDomainValue(value: unknown): OrgDomain {
+  if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+    const { domain, state } = value as { domain?: unknown; state?: unknown };
+    return parseOrgDomainEntry(state === undefined ? String(domain ?? '') : `${String(domain ?? '')}:${String(state)}`);
+  }
+  return parseOrgDomainEntry(String(value));
+}
+
+/**
+ * Parse an org_domains cell (or JSONL array) into deduplicated domains.
+ * A domain listed more than once is verified if any entry verifies it.
+ *
+ * @throws Error naming the first invalid entry
+ */
+export function parseOrgDomains(raw: unknown): OrgDomain[] {
+  let values: unknown[];
+  if (Array.isArray(raw)) {
+    values = raw;
+  } else if (typeof raw === 'string') {
+    const trimmed = raw.trim();
+    if (!trimmed) return [];
+    values = trimmed.split(/[,|]/);
+    // JSON array format: ["acme.com:verified","acme.io"]
+    if (trimmed.startsWith('[')) {
+      try {
+        const parsed = JSON.parse(trimmed);
+        if (Array.isArray(parsed)) values = parsed;
+      } catch {
+        // Fall through to separator-split
+      }
+    }
+  } else {
+    return [];
+  }
+
+  const byDomain = new Map<string, OrgDomain>();
+  for (const value of values) {
+    if (typeof value === 'string' && !value.trim()) continue;
+    const parsed = parseOrgDomainValue(value);
+    const existing = byDomain.get(parsed.domain);
+    if (!existing || parsed.state === 'verified') {
+      byDomain.set(parsed.domain, parsed);
+    }
+  }
+  return [...byDomain.values()];
+}
+
+/** Format domains as an org_domains cell, e.g. "acme.com:verified,acme.io:pending" */
+export function formatOrgDomains(domains: OrgDomain[]): string {
+  return domains.map(d => `${d.domain}:${d.state}`).join(',');
+}
+
+/**
+ * Merge requested domains into an organization's current domains.
+ *
+ * Current domains are always kept (WorkOS replaces the whole list on
+ * update), missing domains are added, and a requested verified state
+ * upgrades a pending domain. Verified domains are never downgraded.
+ */
+export function mergeOrgDomains(
+  current: OrgDomain[],
+  requested: OrgDomain[]
+): { domains: OrgDomain[]; changed: boolean } {
+  const merged = new Map(current.map(d => [d.domain, { ...d }]));
+  let changed = false;
+
+  for (const domain of requested) {
+    const existing = merged.get(domain.domain);
+    if (!existing) {
+      merged.set(domain.domain, { ...domain });
+      changed = true;
+    } else if (domain.state === 'verified' && existing.state !== 'verified') {
+      existing.state = 'verified';
+      changed = true;
+    }
+  }
+
+  return { domains: [...merged.values()], changed };
+}
@@ -0,0 +1,48 @@
+/** Domain verification state sent to WorkOS */
+export type OrgDomainState = 'verified' | 'pending';
+
+/** Organization domain with its verification state */
+export interface OrgDomain {
+  domain: string;
+  state: OrgDomainState;
+}
+
+/** Row from the org definitions CSV */
+export interface OrgDefinitionRow {
+  org_external_id: string;    // Required: organization external_id
+  org_name?: string;          // Required to create missing organizations
+  org_domains?: string;       // Comma/pipe-separated, optional :verified / :pending suffix
+  metadata?: string;          // JSON object of string values
+  allow_profiles_outside_organization?: string; // Boolean-like
+}
+
+/** Parsed org definition (after CSV parsing) */
+export interface ParsedOrgDefinition {
+  externalId: string;
+  name?: string;
+  domains: OrgDomain[];
+  metadata?: Record<string, string>;
+  allowProfilesOutsideOrganization?: boolean;
+}
+
+/** Result of processing a single org definition */
+export interface OrgProcessingResult {
+  externalId: string;
+  action: 'created' | 'exists' | 'updated' | 'error';
+  orgId?: string;             // WorkOS org ID (absent for dry-run creations and errors)
+  name?: string;
+  changes?: string[];         // Attributes updated on an existing org
+  warnings: string[];
+  error?: string;
+}
+
+/** Summary of org definitions processing */
+export interface OrgDefinitionsSummary {
+  total: number;
+  created: number;
+  alreadyExist: number;
+  updated: number;
+  errors: number;
+  warnings: string[];
+  results: OrgProcessingResult[];
+}
@@ -1,5 +1,7 @@
 import { WorkOS } from "@workos-inc/node";
 import { getWorkOSClient } from "./workos.js";
+import { mergeOrgDomains } from "./organizations/orgDomains.js";
+import type { OrgDomain } from "./organizations/types.js";
 
 export async function getOrganizationById(orgId: string): Promise<boolean> {
   const workos = getWorkOSClient() as WorkOS;
@@ -27,24 +29,124 @@ export async function getOrganizationByExternalId(externalId: string): Promise<s
   }
 }
 
-export async function createOrganization(name: string, externalId: string): Promise<string> {
+/** Organization attributes set on creation or update */
+export interface OrganizationAttributes {
+  name?: string;
+  domains?: OrgDomain[];
+  metadata?: Record<string, string>;
+  allowProfilesOutsideOrganization?: boolean;
+}
+
+/** Organization attributes as currently stored in WorkOS */
+export interface OrganizationDetails {
+  id: string;
+  name: string;
+  externalId: string | null;
+  domains: OrgDomain[];
+  metadata: Record<string, string>;
+  allowProfilesOutsideOrganization: boolean;
+}
+
+function toOrganizationDetails(org: any): OrganizationDetails {
+  return {
+    id: org.id,
+    name: org.name,
+    externalId: org.externalId ?? null,
+    domains: (org.domains ?? []).map((d: { domain: string; state?: string }) => ({
+      domain: String(d.domain).toLowerCase(),
+      state: d.state === "verified" || d.state === "legacy_verified" ? "verified" : "pending"
+    })),
+    metadata: org.metadata ?? {},
+    allowProfilesOutsideOrganization: Boolean(org.allowProfilesOutsideOrganization)
+  };
+}
+
+function enhanceError(message: string, err: any): Error {
+  const enhancedErr = new Error(`${message}: ${err.message}`);
+  // Preserve original error properties for retry logic
+  enhancedErr.stack = err.stack;
+  (enhancedErr as any).status = err.status;
+  (enhancedErr as any).original = err;
+  return enhancedErr;
+}
+
+export async function getOrganizationDetailsByExternalId(externalId: string): Promise<OrganizationDetails | null> {
+  const workos = getWorkOSClient() as WorkOS;
+  try {
+    const org = await (workos as any).organizations.getOrganizationByExternalId(externalId);
+    return org?.id ? toOrganizationDetails(org) : null;
+  } catch (err: any) {
+    const status: number | undefined =
+      err?.status ?? err?.httpStatus ?? err?.response?.status ?? err?.code;
+    if (status === 404) return null;
+    throw err;
+  }
+}
+
+export async function createOrganization(
+  name: string,
+  externalId: string,
+  attributes: Omit<OrganizationAttributes, "name"> = {}
+): Promise<string> {
   const workos = getWorkOSClient() as WorkOS;
+  const { domains, metadata, allowProfilesOutsideOrganization } = attributes;
   try {
     const org = await (workos as any).organizations.createOrganization({
       name,
-      externalId
+      externalId,
+      ...(domains && domains.length > 0 ? { domainData: domains } : {}),
+      ...(metadata && Object.keys(metadata).length > 0 ? { metadata } : {}),
+      ...(allowProfilesOutsideOrganization !== undefined ? { allowProfilesOutsideOrganization } : {})
     });
     return org.id as string;
   } catch (err: any) {
     // Enhance error message for debugging
-    const enhancedErr = new Error(
-      `Failed to create organization "${name}" with external_id "${externalId}": ${err.message}`
-    );
-    // Preserve original error properties for retry logic
-    enhancedErr.stack = err.stack;
-    (enhancedErr as any).status = err.status;
-    (enhancedErr as any).original = err;
-    throw enhancedErr;
+    throw enhanceError(`Failed to create organization "${name}" with external_id "${externalId}"`, err);
+  }
+}
+
+/**
+ * Update an organization. `domains` replaces the organization's domain list,
+ * so pass the merged list (see mergeOrgDomains).
+ */
+export async function updateOrganization(orgId: string, attributes: OrganizationAttributes): Promise<void> {
+  const workos = getWorkOSClient() as WorkOS;
+  const { name, domains, metadata, allowProfilesOutsideOrganization } = attributes;
+  try {
+    await (workos as any).organizations.updateOrganization({
+      organization: orgId,
+      ...(name !== undefined ? { name } : {}),
+      ...(domains !== undefined ? { domainData: domains } : {}),
+      ...(metadata !== undefined ? { metadata } : {}),
+      ...(allowProfilesOutsideOrganization !== undefined ? { allowProfilesOutsideOrganization } : {})
+    });
+  } catch (err: any) {
+    throw enhanceError(`Failed to update organization "${orgId}"`, err);
+  }
+}
+
+/**
+ * Add domains to an existing organization.
+ * Keeps the organization's current domains (see mergeOrgDomains) and only
+ * calls the API when a domain is added or upgraded to verified.
+ *
+ * @returns true if the organization was updated
+ */
+export async function syncOrganizationDomains(orgId: string, domains: OrgDomain[]): Promise<boolean> {
+  if (domains.length === 0) return false;
+  const workos = getWorkOSClient() as WorkOS;
+  try {
+    const org = toOrganizationDetails(await (workos as any).organizations.getOrganization(orgId));
+    const { domains: merged, changed } = mergeOrgDomains(org.domains, domains);
+    if (!changed) return false;
+
+    await (workos as any).organizations.updateOrganization({
+      organization: orgId,
+      domainData: merged
+    });
+    return true;
+  } catch (err: any) {
+    throw enhanceError(`Failed to update domains for organization "${orgId}"`, err);
   }
 }
 
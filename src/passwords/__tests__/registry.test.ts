@@ -0,0 +1,112 @@
+/**
+ * Tests for the password hash registry (detection, validation, conversion)
+ *
+ * Usage: npx tsx src/passwords/__tests__/registry.test.ts
+ */
+
+import { strict as assert } from 'node:assert';
+import crypto from 'node:crypto';
+
+const BCRYPT = '$2b$10$C9hB01.YxRSTcn/ZOOo4j.TW7xCKKFKBSF.C7E0xiUwumqIDqWUXG';
+const ARGON2 = '$argon2id$v=19$m=65536,t=3,p=4$c29tZXNhbHQ$RdescudvJCsgt3ub+b+dWRWJTmaaJObG';
+const SCRYPT = '$scrypt$ln=16,r=8,p=1$aM15713r3Xsvxbi31lqr1Q$nFNh2CVHVjNldFVKDHDlm4CbdRSCdEBsjjJxD+iCs5E';
+const FIREBASE = '$firebase-scrypt$hash=aGFzaA==$salt=c2FsdA==$sk=c2s=$ss=Bw==$r=8$m=14';
+const DJANGO_PBKDF2 = 'pbkdf2_sha256$260000$abcdefgh$Dl2Kr8SZ2ts3ZbA6j/0gYh1qjyNmN6a+jEzWAeeA9jw=';
+const SHA1_PASSWORD = crypto.createHash('sha1').update('password').digest('hex');
+const MD5_PASSWORD = crypto.createHash('md5').update('password').digest('hex');
+
+async function runTests() {
+  let passed = 0;
+  let failed = 0;
+
+  async function test(name: string, fn: () => Promise<void> | void) {
+    try {
+      await fn();
+      console.log(`  ✓ ${name}`);
+      passed++;
+    } catch (err: any) {
+      console.log(`  ✗ ${name}`);
+      console.log(`    ${err.message}`);
+      failed++;
+    }
+  }
+
+  console.log('Password hash registry tests\n');
+
+  const { convertPasswordHash, detectHashAlgorithm, validatePasswordHash } = await import('../registry.js');
+  const { PasswordHashError } = await import('../types.js');
+
+  await test('detects algorithms from hash format', () => {
+    assert.strictEqual(detectHashAlgorithm(BCRYPT), 'bcrypt');
+    assert.strictEqual(detectHashAlgorithm(ARGON2), 'argon2');
+    assert.strictEqual(detectHashAlgorithm(SCRYPT), 'scrypt');
+    assert.strictEqual(detectHashAlgorithm(FIREBASE), 'firebase-scrypt');
+    assert.strictEqual(detectHashAlgorithm(DJANGO_PBKDF2), 'pbkdf2');
+    assert.strictEqual(detectHashAlgorithm('{SSHA}W6ph5Mm5Pz8GgiULbPgzG37mj9g='), 'ssha');
+    assert.strictEqual(detectHashAlgorithm(SHA1_PASSWORD), 'sha1');
+    assert.strictEqual(detectHashAlgorithm(MD5_PASSWORD), 'md5');
+    assert.strictEqual(detectHashAlgorithm('not-a-hash'), null, 'Unknown formats are not guessed as bcrypt');
+  });
+
+  await test('accepts well-formed hashes in WorkOS format', () => {
+    assert.deepStrictEqual(validatePasswordHash(BCRYPT, 'bcrypt'), []);
+    assert.deepStrictEqual(validatePasswordHash(ARGON2, 'argon2'), []);
+    assert.deepStrictEqual(validatePasswordHash(SCRYPT, 'scrypt'), []);
+    assert.deepStrictEqual(validatePasswordHash(FIREBASE, 'firebase-scrypt'), []);
+    assert.deepStrictEqual(validatePasswordHash('$pbkdf2-sha256$i=1000$c2FsdA$aGFzaA', 'pbkdf2'), []);
+  });
+
+  await test('reports malformed hashes and mismatched types', () => {
+    assert.match(validatePasswordHash('$2b$10$tooshort', 'bcrypt')[0]!, /Malformed bcrypt/);
+    assert.match(validatePasswordHash('$2b$45$C9hB01.YxRSTcn/ZOOo4j.TW7xCKKFKBSF.C7E0xiUwumqIDqWUXG', 'bcrypt')[0]!, /out of range/);
+    assert.match(validatePasswordHash('$argon2id$v=19$m=65536,p=4$c29tZXNhbHQ$aGFzaA', 'argon2')[0]!, /missing parameter "t"/);
+    assert.match(validatePasswordHash(BCRYPT, 'argon2')[0]!, /looks like bcrypt/);
+    assert.match(validatePasswordHash(BCRYPT, 'okta-bcrypt')[0]!, /use "bcrypt"/);
+    assert.match(validatePasswordHash(MD5_PASSWORD, 'md5')[0]!, /cannot be imported/);
+    assert.match(validatePasswordHash(BCRYPT, 'whirlpool')[0]!, /Unsupported password_hash_type/);
+    assert.match(validatePasswordHash(DJANGO_PBKDF2, 'pbkdf2')[0]!, /not in the pbkdf2 format/);
+  });
+
+  await test('converts Django pbkdf2 to PHC', () => {
+    const converted = convertPasswordHash(DJANGO_PBKDF2, 'pbkdf2_sha256');
+    assert.strictEqual(converted.passwordHashType, 'pbkdf2');
+    assert.strictEqual(
+      converted.passwordHash,
+      `$pbkdf2-sha256$i=260000$${Buffer.from('abcdefgh').toString('base64').replace(/=+$/, '')}$Dl2Kr8SZ2ts3ZbA6j/0gYh1qjyNmN6a+jEzWAeeA9jw`
+    );
+    assert.deepStrictEqual(validatePasswordHash(converted.passwordHash, converted.passwordHashType), []);
+  });
+
+  await test('converts Clerk scrypt_firebase digests', () => {
+    const converted = convertPasswordHash('aGFzaA==$c2FsdA==$c2s=$Bw==$8$14', 'scrypt_firebase');
+    assert.strictEqual(converted.passwordHash, FIREBASE);
+    assert.strictEqual(converted.passwordHashType, 'firebase-scrypt');
+  });
+
+  await test('converts unsalted SHA-1 to an SSHA hash that verifies', () => {
+    const converted = convertPasswordHash(SHA1_PASSWORD);
+    assert.strictEqual(converted.passwordHashType, 'ssha');
+    const bytes = Buffer.from(converted.passwordHash.replace('{SSHA}', ''), 'base64');
+    const salt = bytes.subarray(20);
+    const expected = crypto.createHash('sha1').update(Buffer.concat([Buffer.from('password'), salt])).digest();
+    assert.ok(bytes.subarray(0, 20).equals(expected));
+  });
+
+  await test('refuses hashes WorkOS cannot import', () => {
+    assert.throws(() => convertPasswordHash(MD5_PASSWORD), (err: unknown) =>
+      err instanceof PasswordHashError && err.algorithm === 'md5' && /password reset/.test(err.message));
+    assert.throws(() => convertPasswordHash('not-a-hash'), /Unrecognized password hash format/);
+    assert.throws(() => convertPasswordHash(BCRYPT, 'phpass'), /Unsupported password hash algorithm "phpass"/);
+  });
+
+  // Summary
+  console.log(`\n${passed} passed, ${failed} failed`);
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+runTests().catch((err) => {
+  console.error('Unhandled error:', err);
+  process.exit(1);
+});
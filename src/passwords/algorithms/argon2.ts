@@ -0,0 +1,54 @@
+/**
+ * Argon2 (argon2id, argon2i, argon2d) in PHC format
+ *
+ * Format: $argon2id$v=19$m=<memory KiB>,t=<iterations>,p=<parallelism>$<salt>$<hash>, imported as-is.
+ */
+
+import { PasswordHashError, type ParsedPasswordHash, type PasswordHashHandler } from '../types.js';
+import { formatPhc, parsePhc, requireBase64, requireIntParam } from '../phc.js';
+
+export const argon2Handler: PasswordHashHandler = {
+  algorithm: 'argon2',
+  workosType: 'argon2',
+  aliases: ['argon2', 'argon2id', 'argon2i', 'argon2d'],
+
+  detect: (raw) => /^\$argon2(id|i|d)\$/.test(raw),
+
+  parse(raw): ParsedPasswordHash {
+    const phc = parsePhc(raw, 'argon2');
+    if (!/^argon2(id|i|d)$/.test(phc.id)) {
+      throw new PasswordHashError(`Malformed argon2 hash: unknown variant "${phc.id}"`, 'argon2');
+    }
+    return {
+      algorithm: 'argon2',
+      params: {
+        variant: phc.id,
+        version: phc.version ?? 19,
+        m: requireIntParam(phc.params, 'm', 'argon2'),
+        t: requireIntParam(phc.params, 't', 'argon2'),
+        p: requireIntParam(phc.params, 'p', 'argon2')
+      },
+      salt: requireBase64(phc.salt, 'salt', 'argon2'),
+      hash: requireBase64(phc.hash, 'hash', 'argon2'),
+      workosFormat: true
+    };
+  },
+
+  validate(parsed) {
+    const { version, m, t, p } = parsed.params as Record<string, number>;
+    const problems: string[] = [];
+    if (version !== 16 && version !== 19) problems.push(`argon2 version ${version} is not supported (16 or 19)`);
+    if (p! < 1) problems.push('argon2 parallelism (p) must be at least 1');
+    if (t! < 1) problems.push('argon2 iterations (t) must be at least 1');
+    if (m! < 8 * p!) problems.push(`argon2 memory (m=${m}) must be at least 8 × parallelism`);
+    return problems;
+  },
+
+  encode: (parsed) => formatPhc({
+    id: String(parsed.params.variant),
+    version: Number(parsed.params.version),
+    params: { m: String(parsed.params.m), t: String(parsed.params.t), p: String(parsed.params.p) },
+    salt: parsed.salt,
+    hash: parsed.hash
+  })
+};
@@ -0,0 +1,39 @@
+/**
+ * bcrypt ($2a$, $2b$, $2x$, $2y$) — Auth0, Clerk, Okta and most Node/Ruby apps
+ *
+ * Format: $2b$<cost>$<22-char salt><31-char hash>, imported as-is.
+ */
+
+import { PasswordHashError, type ParsedPasswordHash, type PasswordHashHandler } from '../types.js';
+
+const BCRYPT_PATTERN = /^\$(2[abxy])\$(\d{2})\$([./A-Za-z0-9]{22})([./A-Za-z0-9]{31})$/;
+
+export const bcryptHandler: PasswordHashHandler = {
+  algorithm: 'bcrypt',
+  workosType: 'bcrypt',
+  aliases: ['bcrypt', 'okta-bcrypt', 'auth0'],
+
+  detect: (raw) => /^\$2[abxy]\$/.test(raw),
+
+  parse(raw): ParsedPasswordHash {
+    const match = BCRYPT_PATTERN.exec(raw);
+    if (!match) {
+      throw new PasswordHashError('Malformed bcrypt hash: expected $2b$<cost>$ followed by 53 characters', 'bcrypt');
+    }
+    return {
+      algorithm: 'bcrypt',
+      params: { variant: match[1]!, cost: Number(match[2]) },
+      salt: match[3],
+      hash: match[4]!,
+      workosFormat: true
+    };
+  },
+
+  validate(parsed) {
+    const cost = Number(parsed.params.cost);
+    return cost >= 4 && cost <= 31 ? [] : [`bcrypt cost ${cost} is out of range (4-31)`];
+  },
+
+  encode: (parsed) =>
+    `$${parsed.params.variant}$${String(parsed.params.cost).padStart(2, '0')}$${parsed.salt}${parsed.hash}`
+};
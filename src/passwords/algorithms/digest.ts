@@ -0,0 +1,49 @@
+/**
+ * Unsalted hex digests (MD5, SHA-1, SHA-256, SHA-512)
+ *
+ * WorkOS has no plain-digest import. SHA-1 converts losslessly to {SSHA} with
+ * an empty salt; the others are recognized so they are reported instead of
+ * being mislabelled, but those users need a password reset.
+ */
+
+import { PasswordHashError, type HashAlgorithm, type ParsedPasswordHash, type PasswordHashHandler } from '../types.js';
+
+function createDigestHandler(
+  algorithm: Extract<HashAlgorithm, 'md5' | 'sha1' | 'sha256' | 'sha512'>,
+  hexLength: number,
+  aliases: string[]
+): PasswordHashHandler {
+  const pattern = new RegExp(`^[a-f0-9]{${hexLength}}$`, 'i');
+
+  return {
+    algorithm,
+    workosType: algorithm === 'sha1' ? 'ssha' : null,
+    aliases,
+
+    detect: (raw) => pattern.test(raw),
+
+    parse(raw): ParsedPasswordHash {
+      if (!pattern.test(raw)) {
+        throw new PasswordHashError(`Malformed ${algorithm} hash: expected ${hexLength} hex characters`, algorithm);
+      }
+      return { algorithm, params: {}, hash: raw.toLowerCase(), workosFormat: false };
+    },
+
+    validate: () => [],
+
+    encode(parsed) {
+      if (algorithm !== 'sha1') {
+        throw new PasswordHashError(
+          `${algorithm} hashes cannot be imported into WorkOS; these users need a password reset`,
+          algorithm
+        );
+      }
+      return `{SSHA}${Buffer.from(parsed.hash, 'hex').toString('base64')}`;
+    }
+  };
+}
+
+export const md5Handler = createDigestHandler('md5', 32, ['md5']);
+export const sha1Handler = createDigestHandler('sha1', 40, ['sha1', 'sha-1']);
+export const sha256Handler = createDigestHandler('sha256', 64, ['sha256', 'sha-256']);
+export const sha512Handler = createDigestHandler('sha512', 128, ['sha512', 'sha-512']);
@@ -0,0 +1,126 @@
+/**
+ * Firebase modified scrypt
+ *
+ * WorkOS format (password_hash_type: firebase-scrypt):
+ *   $firebase-scrypt$hash=<b64hash>$salt=<b64salt>$sk=<b64signerKey>$ss=<b64saltSep>$r=<rounds>$m=<memCost>
+ * Also parses Clerk's scrypt_firebase digest: <hash>$<salt>$<signerKey>$<saltSep>$<rounds>$<memCost>
+ *
+ * Reference: https://workos.com/docs/migrate/firebase
+ */
+
+import { PasswordHashError, type ParsedPasswordHash, type PasswordHashHandler } from '../types.js';
+import { isBase64, normalizeBase64 } from '../phc.js';
+
+/** Project-level scrypt parameters from Firebase Console */
+export interface FirebaseScryptParams {
+  signerKey: string;       // base64_signer_key
+  saltSeparator: string;   // base64_salt_separator
+  rounds: number;          // typically 8
+  memCost: number;         // typically 14
+}
+
+/** Per-user password data from Firebase export */
+export interface UserPasswordData {
+  passwordHash: string;    // base64-encoded per-user hash
+  salt: string;            // base64-encoded per-user salt
+}
+
+const BASE64_FIELDS = ['hash', 'salt', 'sk', 'ss'] as const;
+
+/**
+ * Encode Firebase scrypt password into PHC format string.
+ * URL-safe base64 (sometimes emitted by the Firebase CLI) is normalized to standard base64.
+ *
+ * @param userData Per-user password hash and salt
+ * @param params Project-level scrypt parameters
+ * @returns PHC format string ready for WorkOS import
+ */
+export function encodeFirebaseScryptPHC(
+  userData: UserPasswordData,
+  params: FirebaseScryptParams
+): string {
+  const hash = normalizeBase64(userData.passwordHash);
+  const salt = normalizeBase64(userData.salt);
+  const sk = normalizeBase64(params.signerKey);
+  const ss = normalizeBase64(params.saltSeparator);
+
+  return `$firebase-scrypt$hash=${hash}$salt=${salt}$sk=${sk}$ss=${ss}$r=${params.rounds}$m=${params.memCost}`;
+}
+
+export const firebaseScryptHandler: PasswordHashHandler = {
+  algorithm: 'firebase-scrypt',
+  workosType: 'firebase-scrypt',
+  aliases: ['firebase-scrypt', 'firebase_scrypt', 'scrypt_firebase'],
+
+  detect: (raw) => raw.startsWith('$firebase-scrypt$'),
+
+  parse(raw): ParsedPasswordHash {
+    const fields: Record<string, string> = {};
+    let workosFormat = true;
+
+    if (raw.startsWith('$firebase-scrypt$')) {
+      for (const field of raw.slice('$firebase-scrypt$'.length).split('$')) {
+        // Values are base64 and may end in "=" padding, so split on the first "=" only
+        const eq = field.indexOf('=');
+        if (eq <= 0) {
+          throw new PasswordHashError(`Malformed firebase-scrypt hash: invalid field "${field}"`, 'firebase-scrypt');
+        }
+        fields[field.slice(0, eq)] = field.slice(eq + 1);
+      }
+    } else {
+      const parts = raw.split('$');
+      if (parts.length !== 6) {
+        throw new PasswordHashError(
+          'Malformed firebase-scrypt hash: expected $firebase-scrypt$hash=...$salt=...$sk=...$ss=...$r=...$m=...',
+          'firebase-scrypt'
+        );
+      }
+      ['hash', 'salt', 'sk', 'ss', 'r', 'm'].forEach((key, i) => {
+        fields[key] = parts[i]!;
+      });
+      workosFormat = false;
+    }
+
+    for (const key of [...BASE64_FIELDS, 'r', 'm']) {
+      if (!fields[key]) {
+        throw new PasswordHashError(`Malformed firebase-scrypt hash: missing ${key}`, 'firebase-scrypt');
+      }
+    }
+    for (const key of BASE64_FIELDS) {
+      if (!isBase64(fields[key]!)) {
+        throw new PasswordHashError(`Malformed firebase-scrypt hash: ${key} is not valid base64`, 'firebase-scrypt');
+      }
+    }
+    for (const key of ['r', 'm']) {
+      if (!/^\d+$/.test(fields[key]!)) {
+        throw new PasswordHashError(`Malformed firebase-scrypt hash: ${key} must be an integer`, 'firebase-scrypt');
+      }
+    }
+
+    return {
+      algorithm: 'firebase-scrypt',
+      params: { sk: fields.sk!, ss: fields.ss!, r: Number(fields.r), m: Number(fields.m) },
+      salt: fields.salt,
+      hash: fields.hash!,
+      workosFormat
+    };
+  },
+
+  validate(parsed) {
+    const { r, m } = parsed.params as Record<string, number>;
+    const problems: string[] = [];
+    if (r! < 1) problems.push('firebase-scrypt rounds (r) must be at least 1');
+    if (m! < 1 || m! > 31) problems.push(`firebase-scrypt memory cost (m=${m}) is out of range (1-31)`);
+    return problems;
+  },
+
+  encode: (parsed) => encodeFirebaseScryptPHC(
+    { passwordHash: parsed.hash, salt: parsed.salt ?? '' },
+    {
+      signerKey: String(parsed.params.sk),
+      saltSeparator: String(parsed.params.ss),
+      rounds: Number(parsed.params.r),
+      memCost: Number(parsed.params.m)
+    }
+  )
+};
@@ -0,0 +1,80 @@
+/**
+ * PBKDF2 with SHA-1, SHA-256 or SHA-512
+ *
+ * WorkOS format: $pbkdf2-<digest>$i=<iterations>$<b64 salt>$<b64 hash>
+ * Also parses:
+ * - Django: pbkdf2_sha256$<iterations>$<salt>$<b64 hash> (salt is plain text)
+ * - Colon form: sha256:<iterations>:<b64 salt>:<b64 hash>
+ */
+
+import { PasswordHashError, type ParsedPasswordHash, type PasswordHashHandler } from '../types.js';
+import { formatPhc, parsePhc, requireBase64, requireIntParam, toPhcBase64 } from '../phc.js';
+
+const DIGESTS = ['sha1', 'sha256', 'sha512'];
+const PHC_PATTERN = /^\$pbkdf2-(sha1|sha256|sha512)\$/;
+const DJANGO_PATTERN = /^pbkdf2_(sha1|sha256|sha512)\$(\d+)\$([^$]+)\$([^$]+)$/;
+const COLON_PATTERN = /^(sha1|sha256|sha512):(\d+):([^:]+):([^:]+)$/;
+
+export const pbkdf2Handler: PasswordHashHandler = {
+  algorithm: 'pbkdf2',
+  workosType: 'pbkdf2',
+  aliases: ['pbkdf2', 'pbkdf2_sha1', 'pbkdf2_sha256', 'pbkdf2_sha512', 'pbkdf2_sha256_django'],
+
+  detect: (raw) => PHC_PATTERN.test(raw) || DJANGO_PATTERN.test(raw) || COLON_PATTERN.test(raw),
+
+  parse(raw): ParsedPasswordHash {
+    if (raw.startsWith('$')) {
+      const phc = parsePhc(raw, 'pbkdf2');
+      const digest = phc.id.replace(/^pbkdf2-/, '');
+      if (!phc.id.startsWith('pbkdf2-') || !DIGESTS.includes(digest)) {
+        throw new PasswordHashError(`Malformed pbkdf2 hash: unsupported digest "${phc.id}"`, 'pbkdf2');
+      }
+      return {
+        algorithm: 'pbkdf2',
+        params: { digest, iterations: requireIntParam(phc.params, 'i', 'pbkdf2') },
+        salt: requireBase64(phc.salt, 'salt', 'pbkdf2'),
+        hash: requireBase64(phc.hash, 'hash', 'pbkdf2'),
+        workosFormat: true
+      };
+    }
+
+    const django = DJANGO_PATTERN.exec(raw);
+    if (django) {
+      return {
+        algorithm: 'pbkdf2',
+        params: { digest: django[1]!, iterations: Number(django[2]) },
+        salt: toPhcBase64(Buffer.from(django[3]!, 'utf8')),
+        hash: toPhcBase64(requireBase64(django[4], 'hash', 'pbkdf2')),
+        workosFormat: false
+      };
+    }
+
+    const colon = COLON_PATTERN.exec(raw);
+    if (colon) {
+      return {
+        algorithm: 'pbkdf2',
+        params: { digest: colon[1]!, iterations: Number(colon[2]) },
+        salt: toPhcBase64(requireBase64(colon[3], 'salt', 'pbkdf2')),
+        hash: toPhcBase64(requireBase64(colon[4], 'hash', 'pbkdf2')),
+        workosFormat: false
+      };
+    }
+
+    throw new PasswordHashError(
+      'Malformed pbkdf2 hash: expected $pbkdf2-sha256$i=<iterations>$<salt>$<hash>, Django or sha256:<iterations>:<salt>:<hash> format',
+      'pbkdf2'
+    );
+  },
+
+  validate(parsed) {
+    const iterations = Number(parsed.params.iterations);
+    return iterations >= 1 ? [] : ['pbkdf2 iterations must be at least 1'];
+  },
+
+  encode: (parsed) => formatPhc({
+    id: `pbkdf2-${parsed.params.digest}`,
+    params: { i: String(parsed.params.iterations) },
+    salt: parsed.salt,
+    hash: parsed.hash
+  })
+};
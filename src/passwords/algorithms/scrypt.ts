@@ -0,0 +1,48 @@
+/**
+ * Standard scrypt in PHC format
+ *
+ * Format: $scrypt$ln=<log2 N>,r=<block size>,p=<parallelism>$<salt>$<hash>, imported as-is.
+ * Firebase's modified scrypt is a separate algorithm (firebaseScrypt.ts).
+ */
+
+import type { ParsedPasswordHash, PasswordHashHandler } from '../types.js';
+import { formatPhc, parsePhc, requireBase64, requireIntParam } from '../phc.js';
+
+export const scryptHandler: PasswordHashHandler = {
+  algorithm: 'scrypt',
+  workosType: 'scrypt',
+  aliases: ['scrypt'],
+
+  detect: (raw) => raw.startsWith('$scrypt$'),
+
+  parse(raw): ParsedPasswordHash {
+    const phc = parsePhc(raw, 'scrypt');
+    return {
+      algorithm: 'scrypt',
+      params: {
+        ln: requireIntParam(phc.params, 'ln', 'scrypt'),
+        r: requireIntParam(phc.params, 'r', 'scrypt'),
+        p: requireIntParam(phc.params, 'p', 'scrypt')
+      },
+      salt: requireBase64(phc.salt, 'salt', 'scrypt'),
+      hash: requireBase64(phc.hash, 'hash', 'scrypt'),
+      workosFormat: true
+    };
+  },
+
+  validate(parsed) {
+    const { ln, r, p } = parsed.params as Record<string, number>;
+    const problems: string[] = [];
+    if (ln! < 1 || ln! > 31) problems.push(`scrypt cost (ln=${ln}) is out of range (1-31)`);
+    if (r! < 1) problems.push('scrypt block size (r) must be at least 1');
+    if (p! < 1) problems.push('scrypt parallelism (p) must be at least 1');
+    return problems;
+  },
+
+  encode: (parsed) => formatPhc({
+    id: 'scrypt',
+    params: { ln: String(parsed.params.ln), r: String(parsed.params.r), p: String(parsed.params.p) },
+    salt: parsed.salt,
+    hash: parsed.hash
+  })
+};
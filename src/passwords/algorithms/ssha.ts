@@ -0,0 +1,44 @@
+/**
+ * Salted SHA-1 (LDAP {SSHA})
+ *
+ * Format: {SSHA}<base64(sha1(password + salt) + salt)>, imported as-is.
+ */
+
+import { PasswordHashError, type ParsedPasswordHash, type PasswordHashHandler } from '../types.js';
+import { isBase64, normalizeBase64 } from '../phc.js';
+
+const SHA1_BYTES = 20;
+
+export const sshaHandler: PasswordHashHandler = {
+  algorithm: 'ssha',
+  workosType: 'ssha',
+  aliases: ['ssha', 'ssha1', 'salted-sha1'],
+
+  detect: (raw) => /^\{SSHA\}/i.test(raw),
+
+  parse(raw): ParsedPasswordHash {
+    const body = raw.replace(/^\{SSHA\}/i, '');
+    if (body === raw || !isBase64(body)) {
+      throw new PasswordHashError('Malformed ssha hash: expected {SSHA} followed by base64', 'ssha');
+    }
+    const bytes = Buffer.from(normalizeBase64(body), 'base64');
+    return {
+      algorithm: 'ssha',
+      params: { digestBytes: Math.min(bytes.length, SHA1_BYTES) },
+      salt: bytes.subarray(SHA1_BYTES).toString('base64'),
+      hash: bytes.subarray(0, SHA1_BYTES).toString('base64'),
+      workosFormat: raw.startsWith('{SSHA}')
+    };
+  },
+
+  validate(parsed) {
+    return Number(parsed.params.digestBytes) === SHA1_BYTES
+      ? []
+      : [`ssha digest is ${parsed.params.digestBytes} bytes; SHA-1 digests are ${SHA1_BYTES} bytes`];
+  },
+
+  encode: (parsed) => `{SSHA}${Buffer.concat([
+    Buffer.from(parsed.hash, 'base64'),
+    Buffer.from(parsed.salt ?? '', 'base64')
+  ]).toString('base64')}`
+};
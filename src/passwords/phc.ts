@@ -0,0 +1,135 @@
+/**
+ * PHC string format and base64 helpers shared by the hash handlers
+ *
+ * PHC format: $<id>[$v=<version>][$<param>=<value>(,<param>=<value>)*][$<salt>[$<hash>]]
+ * Reference: https://github.com/P-H-C/phc-string-format/blob/master/phc-sf-spec.md
+ */
+
+import { PasswordHashError, type HashAlgorithm } from './types.js';
+
+export interface PhcParts {
+  id: string;
+  version?: number;
+  params: Record<string, string>;
+  salt?: string;
+  hash?: string;
+}
+
+const STANDARD_BASE64 = /^[A-Za-z0-9+/]+={0,2}$/;
+const URL_SAFE_BASE64 = /^[A-Za-z0-9\-_]+={0,2}$/;
+
+/**
+ * Parse a PHC string. Throws PasswordHashError if it is not well-formed.
+ */
+export function parsePhc(raw: string, algorithm: HashAlgorithm): PhcParts {
+  if (!raw.startsWith('$')) {
+    throw new PasswordHashError(`Malformed ${algorithm} hash: expected PHC format starting with "$"`, algorithm);
+  }
+
+  const fields = raw.slice(1).split('$');
+  const id = fields.shift() ?? '';
+  if (!/^[a-z0-9-]+$/.test(id)) {
+    throw new PasswordHashError(`Malformed ${algorithm} hash: invalid identifier "${id}"`, algorithm);
+  }
+
+  const parts: PhcParts = { id, params: {} };
+
+  if (fields[0]?.startsWith('v=')) {
+    const version = Number(fields.shift()!.slice(2));
+    if (!Number.isInteger(version)) {
+      throw new PasswordHashError(`Malformed ${algorithm} hash: invalid version`, algorithm);
+    }
+    parts.version = version;
+  }
+
+  if (fields[0]?.includes('=')) {
+    for (const pair of fields.shift()!.split(',')) {
+      const [key, value] = pair.split('=', 2);
+      if (!key || value === undefined || value === '') {
+        throw new PasswordHashError(`Malformed ${algorithm} hash: invalid parameter "${pair}"`, algorithm);
+      }
+      parts.params[key] = value;
+    }
+  }
+
+  parts.salt = fields.shift();
+  parts.hash = fields.shift();
+  if (fields.length > 0) {
+    throw new PasswordHashError(`Malformed ${algorithm} hash: unexpected trailing fields`, algorithm);
+  }
+
+  return parts;
+}
+
+/**
+ * Format a PHC string
+ */
+export function formatPhc(parts: PhcParts): string {
+  let out = `$${parts.id}`;
+  if (parts.version !== undefined) out += `$v=${parts.version}`;
+  const params = Object.entries(parts.params).map(([key, value]) => `${key}=${value}`).join(',');
+  if (params) out += `$${params}`;
+  if (parts.salt !== undefined) out += `$${parts.salt}`;
+  if (parts.hash !== undefined) out += `$${parts.hash}`;
+  return out;
+}
+
+/**
+ * Read a required integer parameter
+ */
+export function requireIntParam(
+  params: Record<string, string>,
+  key: string,
+  algorithm: HashAlgorithm
+): number {
+  const value = params[key];
+  if (value === undefined) {
+    throw new PasswordHashError(`Malformed ${algorithm} hash: missing parameter "${key}"`, algorithm);
+  }
+  if (!/^\d+$/.test(value)) {
+    throw new PasswordHashError(`Malformed ${algorithm} hash: parameter "${key}" must be an integer`, algorithm);
+  }
+  return Number(value);
+}
+
+/**
+ * Check for base64 (standard or URL-safe alphabet, padding optional)
+ */
+export function isBase64(value: string): boolean {
+  return value.length > 0 && (STANDARD_BASE64.test(value) || URL_SAFE_BASE64.test(value));
+}
+
+/**
+ * Normalize URL-safe base64 to the standard alphabet (padding kept)
+ */
+export function normalizeBase64(value: string): string {
+  return value.replace(/-/g, '+').replace(/_/g, '/');
+}
+
+/**
+ * Standard base64 without padding, as PHC strings use
+ */
+export function toPhcBase64(value: string | Buffer): string {
+  const buffer = typeof value === 'string' ? Buffer.from(normalizeBase64(value), 'base64') : value;
+  return buffer.toString('base64').replace(/=+$/, '');
+}
+
+/**
+ * Decoded byte length of a base64 string
+ */
+export function base64ByteLength(value: string): number {
+  return Buffer.from(normalizeBase64(value), 'base64').length;
+}
+
+/**
+ * Require a base64 salt/hash field
+ */
+export function requireBase64(value: string | undefined, field: string, algorithm: HashAlgorithm): string {
+  if (!value) {
+    throw new PasswordHashError(`Malformed ${algorithm} hash: missing ${field}`, algorithm);
+  }
+  if (!isBase64(value)) {
+    throw new PasswordHashError(`Malformed ${algorithm} hash: ${field} is not valid base64`, algorithm);
+  }
+  return value;
+}
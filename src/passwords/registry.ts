@@ -0,0 +1,157 @@
+/**
+ * Password hash registry
+ *
+ * Resolves algorithms by name or alias, detects algorithms from hash strings,
+ * validates password_hash/password_hash_type pairs and converts source hashes
+ * to the format WorkOS accepts.
+ *
+ * To add an algorithm: implement PasswordHashHandler and register it here
+ * (or call registerPasswordHashHandler at runtime).
+ */
+
+import { argon2Handler } from './algorithms/argon2.js';
+import { bcryptHandler } from './algorithms/bcrypt.js';
+import { md5Handler, sha1Handler, sha256Handler, sha512Handler } from './algorithms/digest.js';
+import { firebaseScryptHandler } from './algorithms/firebaseScrypt.js';
+import { pbkdf2Handler } from './algorithms/pbkdf2.js';
+import { scryptHandler } from './algorithms/scrypt.js';
+import { sshaHandler } from './algorithms/ssha.js';
+import {
+  PasswordHashError,
+  type ConvertedPasswordHash,
+  type HashAlgorithm,
+  type PasswordHashHandler,
+  type WorkOSPasswordHashType
+} from './types.js';
+
+/**
+ * Registered handlers in detection order: prefixed formats first, bare hex digests last
+ */
+const HANDLERS: PasswordHashHandler[] = [
+  bcryptHandler,
+  argon2Handler,
+  firebaseScryptHandler,
+  scryptHandler,
+  pbkdf2Handler,
+  sshaHandler,
+  md5Handler,
+  sha1Handler,
+  sha256Handler,
+  sha512Handler
+];
+
+/** password_hash_type values WorkOS accepts */
+export const WORKOS_PASSWORD_HASH_TYPES: readonly WorkOSPasswordHashType[] =
+  ['bcrypt', 'scrypt', 'firebase-scrypt', 'pbkdf2', 'argon2', 'ssha'];
+
+/**
+ * Register an additional algorithm (replaces any handler with the same algorithm name)
+ */
+export function registerPasswordHashHandler(handler: PasswordHashHandler): void {
+  const existing = HANDLERS.findIndex(h => h.algorithm === handler.algorithm);
+  if (existing >= 0) {
+    HANDLERS[existing] = handler;
+  } else {
+    // Keep bare digests last so prefixed formats are detected first
+    const firstDigest = HANDLERS.findIndex(h => h === md5Handler);
+    HANDLERS.splice(firstDigest >= 0 ? firstDigest : HANDLERS.length, 0, handler);
+  }
+}
+
+/**
+ * Look up a handler by algorithm name or source-system alias (case-insensitive)
+ */
+export function getPasswordHashHandler(name: string): PasswordHashHandler | undefined {
+  const key = name.trim().toLowerCase();
+  return HANDLERS.find(h => h.algorithm === key || h.aliases?.includes(key));
+}
+
+/**
+ * Detect the algorithm of a hash string, or null if no handler recognizes it
+ */
+export function detectHashAlgorithm(hash: string): HashAlgorithm | null {
+  const raw = hash.trim();
+  return HANDLERS.find(h => h.detect(raw))?.algorithm ?? null;
+}
+
+/**
+ * Validate a password_hash / password_hash_type pair as it will be sent to WorkOS.
+ * Returns problems (empty = importable).
+ */
+export function validatePasswordHash(hash: string, hashType: string): string[] {
+  const raw = hash.trim();
+  const type = hashType.trim().toLowerCase();
+  const handler = getPasswordHashHandler(type);
+
+  if (!handler) {
+    return [`Unsupported password_hash_type "${hashType}" (WorkOS accepts: ${WORKOS_PASSWORD_HASH_TYPES.join(', ')})`];
+  }
+  if (!handler.workosType) {
+    return [`${handler.algorithm} hashes cannot be imported into WorkOS; these users need a password reset`];
+  }
+  if (type !== handler.workosType) {
+    return [`password_hash_type "${hashType}" is not a WorkOS type; use "${handler.workosType}"`];
+  }
+
+  const detected = detectHashAlgorithm(raw);
+  if (detected && detected !== handler.algorithm && getPasswordHashHandler(detected)?.workosType !== type) {
+    return [`password_hash looks like ${detected}, but password_hash_type is "${hashType}"`];
+  }
+
+  try {
+    const parsed = handler.parse(raw);
+    const problems = handler.validate(parsed);
+    if (!parsed.workosFormat) {
+      problems.push(`password_hash is not in the ${handler.workosType} format WorkOS expects (convert it with the source mapper)`);
+    }
+    return problems;
+  } catch (err) {
+    if (err instanceof PasswordHashError) {
+      return [err.message];
+    }
+    throw err;
+  }
+}
+
+/**
+ * Convert a source-system hash to WorkOS password_hash / password_hash_type values.
+ *
+ * @param hash Hash string from the source system
+ * @param algorithmHint Source algorithm name (e.g. Clerk's password_hasher); detected from the hash when omitted
+ * @throws PasswordHashError if the hash is unrecognized, malformed or not importable
+ */
+export function convertPasswordHash(hash: string, algorithmHint?: string): ConvertedPasswordHash {
+  const raw = hash.trim();
+
+  let handler: PasswordHashHandler | undefined;
+  if (algorithmHint) {
+    handler = getPasswordHashHandler(algorithmHint);
+    if (!handler) {
+      throw new PasswordHashError(`Unsupported password hash algorithm "${algorithmHint}"`);
+    }
+  } else {
+    const detected = detectHashAlgorithm(raw);
+    handler = detected ? getPasswordHashHandler(detected) : undefined;
+    if (!handler) {
+      throw new PasswordHashError('Unrecognized password hash format');
+    }
+  }
+
+  const parsed = handler.parse(raw);
+  const problems = handler.validate(parsed);
+  if (problems.length > 0) {
+    throw new PasswordHashError(problems.join('; '), handler.algorithm);
+  }
+  if (!handler.workosType) {
+    throw new PasswordHashError(
+      `${handler.algorithm} hashes cannot be imported into WorkOS; these users need a password reset`,
+      handler.algorithm
+    );
+  }
+
+  return {
+    passwordHash: handler.encode(parsed),
+    passwordHashType: handler.workosType,
+    algorithm: handler.algorithm
+  };
+}
@@ -0,0 +1,79 @@
+/**
+ * Password hash migration: type definitions
+ *
+ * Each supported algorithm is a PasswordHashHandler registered in registry.ts.
+ * Handlers parse source-system hash strings, validate their parameters and
+ * encode them in the PHC/MCF format WorkOS accepts.
+ */
+
+/** Algorithms the hash subsystem recognizes */
+export type HashAlgorithm =
+  | 'bcrypt'
+  | 'scrypt'
+  | 'firebase-scrypt'
+  | 'pbkdf2'
+  | 'argon2'
+  | 'ssha'
+  | 'md5'
+  | 'sha1'
+  | 'sha256'
+  | 'sha512';
+
+/** Values WorkOS accepts for password_hash_type */
+export type WorkOSPasswordHashType = 'bcrypt' | 'scrypt' | 'firebase-scrypt' | 'pbkdf2' | 'argon2' | 'ssha';
+
+/**
+ * A hash broken into its parts
+ */
+export interface ParsedPasswordHash {
+  algorithm: HashAlgorithm;
+  /** Algorithm parameters (cost, iterations, memory, digest, ...) */
+  params: Record<string, string | number>;
+  /** Salt as it appears in the encoded output (usually base64) */
+  salt?: string;
+  /** Hash/digest as it appears in the encoded output (usually base64) */
+  hash: string;
+  /** True if the input string was already in the format WorkOS accepts */
+  workosFormat: boolean;
+}
+
+/**
+ * One pluggable hash algorithm
+ */
+export interface PasswordHashHandler {
+  algorithm: HashAlgorithm;
+  /** password_hash_type to import as, or null if WorkOS cannot import this algorithm */
+  workosType: WorkOSPasswordHashType | null;
+  /** Source-system names for this algorithm (e.g. argon2id, pbkdf2_sha256) */
+  aliases?: string[];
+  /** True if the string looks like this algorithm (used for auto-detection) */
+  detect(raw: string): boolean;
+  /** Split a hash string into its parts; throws PasswordHashError if malformed */
+  parse(raw: string): ParsedPasswordHash;
+  /** Check parameter ranges; returns problems (empty = valid) */
+  validate(parsed: ParsedPasswordHash): string[];
+  /** Encode as the string WorkOS accepts for workosType */
+  encode(parsed: ParsedPasswordHash): string;
+}
+
+/**
+ * A hash ready for the password_hash / password_hash_type columns
+ */
+export interface ConvertedPasswordHash {
+  passwordHash: string;
+  passwordHashType: WorkOSPasswordHashType;
+  algorithm: HashAlgorithm;
+}
+
+/**
+ * Raised when a hash is malformed, unrecognized or cannot be imported into WorkOS
+ */
+export class PasswordHashError extends Error {
+  readonly algorithm?: HashAlgorithm;
+
+  constructor(message: string, algorithm?: HashAlgorithm) {
+    super(message);
+    this.name = 'PasswordHashError';
+    this.algorithm = algorithm;
+  }
+}
@@ -47,4 +47,216 @@ export class RateLimiter {
   }
 }
 
+/**
+ * Rate limiter surface shared by the WorkOS call sites.
+ * RateLimiter, AdaptiveRateLimiter and DistributedRateLimiter all fit;
+ * the feedback hooks are optional so fixed-rate limiters ignore them.
+ */
+export interface RateLimiterLike {
+  acquire(): Promise<void>;
+  recordSuccess?(count?: number): void;
+  recordThrottle?(retryAfterMs?: number): void;
+}
+
+export interface AdaptiveRateLimiterOptions {
+  /** Starting rate in requests per second (default 50) */
+  initialRate?: number;
+  /** Floor the rate never drops below (default 1) */
+  minRate?: number;
+  /** Ceiling the rate never grows past (default 2x initialRate) */
+  maxRate?: number;
+  /** Multiplier applied when throttled (default 0.5) */
+  decreaseFactor?: number;
+  /** Requests per second added after each window of successes (default 1) */
+  increaseStep?: number;
+  /** Successes required per increase (default: the current rate, i.e. ~1s of clean traffic) */
+  successesPerIncrease?: number;
+  /** Further throttles within this window after a decrease are not compounded (default 1000ms) */
+  decreaseCooldownMs?: number;
+}
+
+export interface RateLimiterMetrics {
+  /** Current rate in requests per second */
+  currentRate: number;
+  minRate: number;
+  maxRate: number;
+  /** Lowest rate reached during the run */
+  lowestRate: number;
+  /** Tokens granted */
+  requests: number;
+  successes: number;
+  /** 429 / rate-limit responses reported */
+  throttles: number;
+  decreases: number;
+  increases: number;
+  /** Callers currently waiting for a token */
+  queued: number;
+}
+
+/**
+ * AIMD token bucket: halves its rate on 429s (and pauses for Retry-After),
+ * then climbs back one step per window of successful requests.
+ *
+ * No timer runs while the queue is empty, so an idle limiter does not keep
+ * the process alive; stop() is only needed to abandon queued callers.
+ */
+export class AdaptiveRateLimiter implements RateLimiterLike {
+  private rate: number;
+  private readonly minRate: number;
+  private readonly maxRate: number;
+  private readonly decreaseFactor: number;
+  private readonly increaseStep: number;
+  private readonly successesPerIncrease?: number;
+  private readonly decreaseCooldownMs: number;
+
+  private tokens: number;
+  private lastRefill: number;
+  private pausedUntil = 0;
+  private lastDecreaseAt = 0;
+  private successStreak = 0;
+  private readonly queue: Array<() => void> = [];
+  private timer: NodeJS.Timeout | null = null;
+
+  private readonly stats = {
+    lowestRate: 0,
+    requests: 0,
+    successes: 0,
+    throttles: 0,
+    decreases: 0,
+    increases: 0
+  };
+
+  constructor(options: AdaptiveRateLimiterOptions = {}) {
+    const initialRate = Math.max(1, options.initialRate ?? 50);
+    this.minRate = Math.max(0.1, Math.min(options.minRate ?? 1, initialRate));
+    this.maxRate = Math.max(initialRate, options.maxRate ?? initialRate * 2);
+    this.decreaseFactor = Math.min(0.95, Math.max(0.05, options.decreaseFactor ?? 0.5));
+    this.increaseStep = Math.max(0.1, options.increaseStep ?? 1);
+    this.successesPerIncrease = options.successesPerIncrease;
+    this.decreaseCooldownMs = Math.max(0, options.decreaseCooldownMs ?? 1000);
+
+    this.rate = initialRate;
+    this.stats.lowestRate = initialRate;
+    this.tokens = this.capacity();
+    this.lastRefill = Date.now();
+  }
+
+  async acquire(): Promise<void> {
+    this.refill();
+    if (this.queue.length === 0 && this.tokens >= 1 && Date.now() >= this.pausedUntil) {
+      this.tokens -= 1;
+      this.stats.requests++;
+      return;
+    }
+    await new Promise<void>(resolve => {
+      this.queue.push(resolve);
+      this.schedule();
+    });
+  }
+
+  /**
+   * Additive increase: raise the rate after a window of successful requests
+   */
+  recordSuccess(count: number = 1): void {
+    this.stats.successes += count;
+    this.successStreak += count;
+
+    const window = this.successesPerIncrease ?? Math.max(1, Math.round(this.rate));
+    if (this.successStreak >= window && this.rate < this.maxRate) {
+      this.successStreak = 0;
+      this.rate = Math.min(this.maxRate, this.rate + this.increaseStep);
+      this.stats.increases++;
+    }
+  }
+
+  /**
+   * Multiplicative decrease: cut the rate and honor Retry-After.
+   * Concurrent 429s from one burst only cut the rate once per cooldown window.
+   */
+  recordThrottle(retryAfterMs?: number): void {
+    const now = Date.now();
+    this.stats.throttles++;
+    this.successStreak = 0;
+
+    if (now - this.lastDecreaseAt >= this.decreaseCooldownMs) {
+      this.lastDecreaseAt = now;
+      this.refill();
+      this.rate = Math.max(this.minRate, this.rate * this.decreaseFactor);
+      // Drop any saved-up burst so the lower rate takes effect immediately
+      this.tokens = 0;
+      this.stats.decreases++;
+      this.stats.lowestRate = Math.min(this.stats.lowestRate, this.rate);
+    }
 
+    if (retryAfterMs && retryAfterMs > 0) {
+      this.pausedUntil = Math.max(this.pausedUntil, now + retryAfterMs);
+    }
+
+    this.reschedule();
+  }
+
+  getCurrentRate(): number {
+    return this.rate;
+  }
+
+  getMetrics(): RateLimiterMetrics {
+    return {
+      currentRate: this.rate,
+      minRate: this.minRate,
+      maxRate: this.maxRate,
+      ...this.stats,
+      queued: this.queue.length
+    };
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /** Burst size: one second of traffic at the current rate */
+  private capacity(): number {
+    return Math.max(1, this.rate);
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    // Tokens do not accumulate while paused for Retry-After
+    const from = Math.max(this.lastRefill, this.pausedUntil);
+    if (now > from) {
+      this.tokens = Math.min(this.capacity(), this.tokens + ((now - from) / 1000) * this.rate);
+    }
+    this.lastRefill = Math.max(this.lastRefill, now);
+  }
+
+  private drain(): void {
+    this.refill();
+    if (Date.now() >= this.pausedUntil) {
+      while (this.tokens >= 1 && this.queue.length > 0) {
+        this.tokens -= 1;
+        this.stats.requests++;
+        const next = this.queue.shift();
+        if (next) next();
+      }
+    }
+    this.schedule();
+  }
+
+  private schedule(): void {
+    if (this.timer || this.queue.length === 0) return;
+    const now = Date.now();
+    const untilToken = this.tokens >= 1 ? 0 : ((1 - this.tokens) / this.rate) * 1000;
+    const wait = Math.max(this.pausedUntil - now, untilToken, 1);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.drain();
+    }, Math.ceil(wait));
+  }
+
+  private reschedule(): void {
+    this.stop();
+    this.schedule();
+  }
+}
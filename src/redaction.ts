@@ -0,0 +1,173 @@
+import crypto from "node:crypto";
+import type { ErrorRecord } from "./types.js";
+
+/**
+ * PII redaction for error files, reports and logs.
+ *
+ * A policy maps field names (CSV columns in rawRow, plus "email") to an action:
+ * - keep: write the value as-is
+ * - drop: leave the field out
+ * - hash: replace with a salted SHA-256 prefix (equal values hash equally, so
+ *   errors files can still be joined across runs)
+ * - mask: keep only a hint of the value (j***@example.com)
+ *
+ * Fields without an explicit action are kept, except plaintext passwords and
+ * secrets (password, totp_secret, client_secret, ...), which are dropped.
+ * The "email" action also applies to the error's email and to emails inside
+ * error messages and log output.
+ */
+
+export type RedactionAction = "keep" | "drop" | "hash" | "mask";
+
+export type RedactionPolicy = {
+  fields: Record<string, RedactionAction>; // Lowercase field name → action
+  salt?: string; // Salt for the hash action
+};
+
+const REDACTION_ACTIONS: readonly RedactionAction[] = ["keep", "drop", "hash", "mask"];
+
+/** Fields dropped unless the policy says otherwise: plaintext passwords and secrets */
+const SENSITIVE_FIELD_PATTERN = /(^|_)(password|secret|secrets)$/i;
+
+const EMAIL_IN_TEXT = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g;
+
+/** Default policy: never persist plaintext passwords or TOTP secrets */
+export const DEFAULT_REDACTION_POLICY: RedactionPolicy = {
+  fields: {
+    password: "drop",
+    totp_secret: "drop"
+  }
+};
+
+/**
+ * Parse --redact rules ("email=mask,metadata=drop,password_hash=hash") on top
+ * of the default policy. The hash salt is read from REDACTION_SALT.
+ *
+ * @throws Error if a rule is malformed or names an unknown action
+ */
+export function parseRedactionRules(spec: string, base: RedactionPolicy = DEFAULT_REDACTION_POLICY): RedactionPolicy {
+  const fields = { ...base.fields };
+  for (const rule of spec.split(",").map(r => r.trim()).filter(Boolean)) {
+    const [field, action] = rule.split("=").map(part => part?.trim().toLowerCase());
+    if (!field || !action || !REDACTION_ACTIONS.includes(action as RedactionAction)) {
+      throw new Error(`Invalid redaction rule "${rule}" (expected <field>=${REDACTION_ACTIONS.join("|")})`);
+    }
+    fields[field] = action as RedactionAction;
+  }
+  return { ...base, fields, salt: base.salt ?? process.env.REDACTION_SALT };
+}
+
+/**
+ * Action the policy applies to a field
+ */
+export function fieldAction(policy: RedactionPolicy, field: string): RedactionAction {
+  const key = field.toLowerCase();
+  return policy.fields[key] ?? (SENSITIVE_FIELD_PATTERN.test(key) ? "drop" : "keep");
+}
+
+/**
+ * Mask an email address, keeping its first character and domain
+ * (john.doe@example.com → j***@example.com)
+ */
+export function maskEmail(email: string): string {
+  const at = email.lastIndexOf("@");
+  if (at <= 0) {
+    return "***";
+  }
+  return `${email[0]}***${email.slice(at)}`;
+}
+
+function hashValue(value: string, salt = ""): string {
+  return "sha256:" + crypto.createHash("sha256").update(salt + value).digest("hex").substring(0, 16);
+}
+
+function maskValue(value: string): string {
+  return value.length <= 8 ? "***" : `${value[0]}***${value[value.length - 1]}`;
+}
+
+/**
+ * Apply an action to one value. Returns undefined for "drop".
+ */
+function redactValue(value: unknown, action: RedactionAction, policy: RedactionPolicy, isEmail = false): unknown {
+  if (action === "keep" || value === undefined || value === null || value === "") {
+    return value;
+  }
+  if (action === "drop") {
+    return undefined;
+  }
+
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  if (action === "hash") {
+    // Normalize emails so the same user hashes equally regardless of casing
+    return hashValue(isEmail ? text.trim().toLowerCase() : text, policy.salt);
+  }
+  return isEmail ? maskEmail(text.trim()) : maskValue(text);
+}
+
+/**
+ * Apply the policy's action for a field to one value. Returns undefined for "drop".
+ */
+export function redactField(
+  field: string,
+  value: unknown,
+  policy: RedactionPolicy = DEFAULT_REDACTION_POLICY
+): unknown {
+  return redactValue(value, fieldAction(policy, field), policy, field.toLowerCase() === "email");
+}
+
+/**
+ * Apply the policy's email action to one email. Returns undefined for "drop".
+ */
+export function redactEmail(email: string, policy: RedactionPolicy = DEFAULT_REDACTION_POLICY): string | undefined {
+  return redactValue(email, fieldAction(policy, "email"), policy, true) as string | undefined;
+}
+
+/**
+ * Redact emails inside free text (error messages, log lines) per the email action
+ */
+export function redactText(text: string, policy: RedactionPolicy = DEFAULT_REDACTION_POLICY): string {
+  const action = fieldAction(policy, "email");
+  if (action === "keep") {
+    return text;
+  }
+  return text.replace(EMAIL_IN_TEXT, email => String(redactValue(email, action, policy, true) ?? "[redacted]"));
+}
+
+/**
+ * Copy of a CSV row with the policy applied to every column
+ */
+export function redactRow(
+  row: Record<string, unknown>,
+  policy: RedactionPolicy = DEFAULT_REDACTION_POLICY
+): Record<string, unknown> {
+  const redacted: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(row)) {
+    const result = redactField(field, value, policy);
+    if (result !== undefined) {
+      redacted[field] = result;
+    }
+  }
+  return redacted;
+}
+
+/**
+ * Copy of an error record with the policy applied to its email, message and rawRow
+ */
+export function redactErrorRecord(
+  record: ErrorRecord,
+  policy: RedactionPolicy = DEFAULT_REDACTION_POLICY
+): ErrorRecord {
+  const redacted: ErrorRecord = { ...record, errorMessage: redactText(record.errorMessage, policy) };
+
+  const email = record.email === undefined ? undefined : redactEmail(record.email, policy);
+  if (email === undefined) {
+    delete redacted.email;
+  } else {
+    redacted.email = email;
+  }
+
+  if (record.rawRow) {
+    redacted.rawRow = redactRow(record.rawRow, policy);
+  }
+  return redacted;
+}
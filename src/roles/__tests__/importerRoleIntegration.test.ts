@@ -2,8 +2,8 @@
  * Integration tests for role assignment during import
  *
  * Tests the role slug extraction, merging, and passing to membership creation.
- * These tests validate the importer integration at the unit level by testing
- * the parseRoleSlugsFromCsv function behavior through buildUserAndOrgFromRow.
+ * These tests validate the importer integration at the unit level, including
+ * the shared role_slugs parser (parseRoleSlugs).
  *
  * Usage: npx vitest run src/roles/__tests__/importerRoleIntegration.test.ts
  */
@@ -41,11 +41,6 @@ async function runTests() {
 
   console.log('Importer Role Integration tests\n');
 
-  // We need to test the parseRoleSlugsFromCsv function indirectly
-  // through buildUserAndOrgFromRow, which is not exported.
-  // Instead, we test the behavior by importing the importer module
-  // and checking KNOWN_COLUMNS, and test parsing logic directly.
-
   // Test KNOWN_COLUMNS includes role_slugs
   console.log('KNOWN_COLUMNS:');
 
@@ -54,30 +49,31 @@ async function runTests() {
     assert.ok(KNOWN_COLUMNS.has('role_slugs'), 'KNOWN_COLUMNS should include role_slugs');
   });
 
-  // Test role slug parsing from CSV values
-  // Since parseRoleSlugsFromCsv is not exported, we test it indirectly
-  // by testing the behavior described in the spec
+  // Test role slug parsing from CSV values (shared by importer, workers and validator)
   console.log('\nRole slug parsing logic:');
 
+  const { parseRoleSlugs } = await import('../roleSlugs.js');
+
   await test('comma-separated role_slugs parsed correctly', async () => {
-    // Test the parsing logic inline (mirrors parseRoleSlugsFromCsv)
-    const raw = 'admin,editor,viewer';
-    const result = raw.split(',').map(s => s.trim()).filter(Boolean);
-    assert.deepStrictEqual(result, ['admin', 'editor', 'viewer']);
+    assert.deepStrictEqual(parseRoleSlugs('admin, editor,viewer'), ['admin', 'editor', 'viewer']);
   });
 
   await test('JSON array role_slugs parsed correctly', async () => {
-    const raw = '["admin","editor"]';
-    const parsed = JSON.parse(raw);
-    assert.ok(Array.isArray(parsed));
-    const result = parsed.map((s: unknown) => String(s).trim()).filter(Boolean);
-    assert.deepStrictEqual(result, ['admin', 'editor']);
+    assert.deepStrictEqual(parseRoleSlugs('["admin","editor"]'), ['admin', 'editor']);
+  });
+
+  await test('JSONL array role_slugs parsed correctly', async () => {
+    assert.deepStrictEqual(parseRoleSlugs([' admin', 'editor', '']), ['admin', 'editor']);
+  });
+
+  await test('invalid JSON falls back to comma-separated', async () => {
+    assert.deepStrictEqual(parseRoleSlugs('[admin,editor'), ['[admin', 'editor']);
   });
 
   await test('empty role_slugs returns empty array', async () => {
-    const raw = '';
-    const trimmed = raw.trim();
-    assert.strictEqual(trimmed, '');
+    assert.deepStrictEqual(parseRoleSlugs(''), []);
+    assert.deepStrictEqual(parseRoleSlugs('  '), []);
+    assert.deepStrictEqual(parseRoleSlugs(undefined), []);
   });
 
   // Test role slug merging logic
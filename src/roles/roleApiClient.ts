@@ -1,6 +1,5 @@
-import { getWorkOSClient, getWorkOSApiKey } from '../workos.js';
-
-const WORKOS_BASE_URL = 'https://api.workos.com';
+import { AdaptiveRateLimiter } from '../rateLimiter.js';
+import { createWorkOSGateway, normalizeWorkOSError, type WorkOSGateway } from '../workosGateway.js';
 
 /** Role object returned from the WorkOS API */
 export interface Role {
@@ -16,18 +15,18 @@ export interface Role {
 export async function listRolesForOrganization(
   organizationId: string
 ): Promise<Role[]> {
-  const workos = getWorkOSClient();
+  const gateway = roleGateway();
   const roles: Role[] = [];
 
   let after: string | undefined;
   // Paginate through all roles
   // eslint-disable-next-line no-constant-condition
   while (true) {
-    const response = await (workos as any).organizations.listOrganizationRoles({
+    const response = await gateway.listOrganizationRoles({
       organizationId,
       after,
       limit: 100,
-    });
+    }) as any;
 
     const data = response?.data ?? [];
     for (const role of data) {
@@ -56,44 +55,21 @@ export async function createEnvironmentRole(options: {
   slug: string;
   description?: string;
 }): Promise<Role> {
-  return retryApiCall(async () => {
-    const apiKey = getWorkOSApiKey();
-    const body: Record<string, unknown> = {
-      name: options.name,
-      slug: options.slug,
-    };
-    if (options.description) {
-      body.description = options.description;
-    }
-
-    const response = await fetch(`${WORKOS_BASE_URL}/authorization/roles`, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(body),
-    });
-
-    if (!response.ok) {
-      const errorBody = await response.text();
-      const err = new Error(
-        `Failed to create environment role "${options.slug}": ${response.status} ${errorBody}`
-      );
-      (err as any).status = response.status;
-      throw err;
-    }
+  const body: Record<string, unknown> = {
+    name: options.name,
+    slug: options.slug,
+  };
+  if (options.description) {
+    body.description = options.description;
+  }
 
-    const data = await response.json() as any;
-    return {
-      id: data.id,
-      slug: data.slug,
-      name: data.name,
-      description: data.description,
-      type: 'EnvironmentRole' as const,
-      permissions: data.permissions ?? [],
-    };
-  });
+  const data = await roleGateway().request<any>(
+    'POST',
+    '/authorization/roles',
+    body,
+    `Failed to create environment role "${options.slug}"`
+  );
+  return toRole(data, 'EnvironmentRole');
 }
 
 /** Create an organization-level role via direct REST call */
@@ -103,47 +79,21 @@ export async function createOrganizationRole(options: {
   slug: string;
   description?: string;
 }): Promise<Role> {
-  return retryApiCall(async () => {
-    const apiKey = getWorkOSApiKey();
-    const body: Record<string, unknown> = {
-      name: options.name,
-      slug: options.slug,
-    };
-    if (options.description) {
-      body.description = options.description;
-    }
-
-    const response = await fetch(
-      `${WORKOS_BASE_URL}/authorization/organizations/${options.organizationId}/roles`,
-      {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(body),
-      }
-    );
-
-    if (!response.ok) {
-      const errorBody = await response.text();
-      const err = new Error(
-        `Failed to create org role "${options.slug}" for org ${options.organizationId}: ${response.status} ${errorBody}`
-      );
-      (err as any).status = response.status;
-      throw err;
-    }
+  const body: Record<string, unknown> = {
+    name: options.name,
+    slug: options.slug,
+  };
+  if (options.description) {
+    body.description = options.description;
+  }
 
-    const data = await response.json() as any;
-    return {
-      id: data.id,
-      slug: data.slug,
-      name: data.name,
-      description: data.description,
-      type: 'OrganizationRole' as const,
-      permissions: data.permissions ?? [],
-    };
-  });
+  const data = await roleGateway().request<any>(
+    'POST',
+    `/authorization/organizations/${options.organizationId}/roles`,
+    body,
+    `Failed to create org role "${options.slug}" for org ${options.organizationId}`
+  );
+  return toRole(data, 'OrganizationRole');
 }
 
 /** Create a permission via direct REST call. Returns true if created, false if already exists. */
@@ -152,40 +102,25 @@ export async function createPermission(options: {
   name: string;
   description?: string;
 }): Promise<boolean> {
-  return retryApiCall(async () => {
-    const apiKey = getWorkOSApiKey();
-    const body: Record<string, unknown> = {
-      slug: options.slug,
-      name: options.name,
-    };
-    if (options.description) {
-      body.description = options.description;
-    }
-
-    const response = await fetch(`${WORKOS_BASE_URL}/authorization/permissions`, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(body),
-    });
-
-    if (!response.ok) {
-      const errorBody = await response.text();
-      // 409 or similar = already exists
-      if (response.status === 409 || errorBody.includes('already exists') || errorBody.includes('already been taken')) {
-        return false;
-      }
-      const err = new Error(
-        `Failed to create permission "${options.slug}": ${response.status} ${errorBody}`
-      );
-      (err as any).status = response.status;
-      throw err;
-    }
+  const body: Record<string, unknown> = {
+    slug: options.slug,
+    name: options.name,
+  };
+  if (options.description) {
+    body.description = options.description;
+  }
 
+  try {
+    await roleGateway().request('POST', '/authorization/permissions', body, `Failed to create permission "${options.slug}"`);
     return true;
-  });
+  } catch (err) {
+    const apiErr = normalizeWorkOSError(err);
+    // 409 or similar = already exists
+    if (apiErr.kind === 'conflict' || /already exists|already been taken/.test(apiErr.message)) {
+      return false;
+    }
+    throw apiErr;
+  }
 }
 
 /** Set all permissions on an environment role (replaces existing permissions) */
@@ -193,30 +128,12 @@ export async function assignPermissionsToEnvironmentRole(options: {
   roleSlug: string;
   permissions: string[];
 }): Promise<void> {
-  return retryApiCall(async () => {
-    const apiKey = getWorkOSApiKey();
-
-    const response = await fetch(
-      `${WORKOS_BASE_URL}/authorization/roles/${options.roleSlug}/permissions`,
-      {
-        method: 'PUT',
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ permissions: options.permissions }),
-      }
-    );
-
-    if (!response.ok) {
-      const errorBody = await response.text();
-      const err = new Error(
-        `Failed to assign permissions to environment role "${options.roleSlug}": ${response.status} ${errorBody}`
-      );
-      (err as any).status = response.status;
-      throw err;
-    }
-  });
+  await roleGateway().request(
+    'PUT',
+    `/authorization/roles/${options.roleSlug}/permissions`,
+    { permissions: options.permissions },
+    `Failed to assign permissions to environment role "${options.roleSlug}"`
+  );
 }
 
 /** Set all permissions on an organization role (replaces existing permissions) */
@@ -225,56 +142,29 @@ export async function assignPermissionsToOrganizationRole(options: {
   roleSlug: string;
   permissions: string[];
 }): Promise<void> {
-  return retryApiCall(async () => {
-    const apiKey = getWorkOSApiKey();
-
-    const response = await fetch(
-      `${WORKOS_BASE_URL}/authorization/organizations/${options.organizationId}/roles/${options.roleSlug}/permissions`,
-      {
-        method: 'PUT',
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ permissions: options.permissions }),
-      }
-    );
+  await roleGateway().request(
+    'PUT',
+    `/authorization/organizations/${options.organizationId}/roles/${options.roleSlug}/permissions`,
+    { permissions: options.permissions },
+    `Failed to assign permissions to org role "${options.roleSlug}" in org ${options.organizationId}`
+  );
+}
 
-    if (!response.ok) {
-      const errorBody = await response.text();
-      const err = new Error(
-        `Failed to assign permissions to org role "${options.roleSlug}" in org ${options.organizationId}: ${response.status} ${errorBody}`
-      );
-      (err as any).status = response.status;
-      throw err;
-    }
-  });
+function toRole(data: any, type: Role['type']): Role {
+  return {
+    id: data.id,
+    slug: data.slug,
+    name: data.name,
+    description: data.description,
+    type,
+    permissions: data.permissions ?? [],
+  };
 }
 
-/** Retry wrapper with exponential backoff for rate limiting */
-async function retryApiCall<T>(
-  fn: () => Promise<T>,
-  maxRetries = 3,
-  baseDelayMs = 500
-): Promise<T> {
-  let attempt = 0;
-  // eslint-disable-next-line no-constant-condition
-  while (true) {
-    try {
-      return await fn();
-    } catch (err: any) {
-      const status: number | undefined =
-        err?.status ?? err?.httpStatus ?? err?.response?.status;
-      const message: string = err?.message || 'Unknown error';
-      const isRateLimited = status === 429 || /rate.?limit/i.test(message);
+/** Rate limit all role API calls in this process from one adaptive limiter */
+const limiter = new AdaptiveRateLimiter();
 
-      attempt += 1;
-      if (isRateLimited && attempt <= maxRetries) {
-        const delay = baseDelayMs * Math.pow(2, attempt - 1);
-        await new Promise(r => setTimeout(r, delay));
-        continue;
-      }
-      throw err;
-    }
-  }
+/** Gateway for role API calls (resolved per call so an injected fake is picked up) */
+function roleGateway(): WorkOSGateway {
+  return createWorkOSGateway({ limiter });
 }
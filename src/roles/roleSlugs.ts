@@ -0,0 +1,31 @@
+/**
+ * role_slugs column
+ *
+ * Accepts a JSON array (["admin","editor"]) or a comma-separated list
+ * (admin,editor). JSONL rows may carry a real array.
+ */
+
+export function parseRoleSlugs(raw: unknown): string[] {
+  // JSONL rows carry a real array
+  if (Array.isArray(raw)) {
+    return raw.map((s: unknown) => String(s).trim()).filter(Boolean);
+  }
+  if (!raw || typeof raw !== 'string') return [];
+  const trimmed = raw.trim();
+  if (!trimmed) return [];
+
+  // Try JSON array format first: ["admin","editor"]
+  if (trimmed.startsWith('[')) {
+    try {
+      const parsed = JSON.parse(trimmed);
+      if (Array.isArray(parsed)) {
+        return parsed.map((s: unknown) => String(s).trim()).filter(Boolean);
+      }
+    } catch {
+      // Fall through to comma-separated
+    }
+  }
+
+  // Comma-separated format: admin,editor,viewer
+  return trimmed.split(',').map(s => s.trim()).filter(Boolean);
+}
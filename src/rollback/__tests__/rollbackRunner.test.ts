@@ -0,0 +1,292 @@
+/**
+ * Rollback Tests
+ *
+ * Creation ledger recording in chunked and worker-mode imports and ledger replay with a
+ * mocked WorkOS SDK.
+ *
+ * Run with: npx tsx src/rollback/__tests__/rollbackRunner.test.ts
+ */
+
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import path from "node:path";
+import { writeTsxWorkerEntry } from "../../testing/tsxWorker.js";
+
+// Set env before any imports that use getWorkOSClient
+process.env.WORKOS_SECRET_KEY = "sk_test_fake_key_for_tests";
+
+const TEMP_DIR = path.join(process.cwd(), ".temp-rollback-tests");
+
+/**
+ * Fake WorkOS: creates users/orgs/memberships with sequential IDs and records deletes.
+ * IDs in `missing` return 404 on delete, IDs in `failing` return 403 once and
+ * IDs in `flaky` return 500 once.
+ */
+function createMockWorkOS(opts: { missing?: string[]; failing?: string[]; flaky?: string[] } = {}) {
+  let seq = 0;
+  const deleted: string[] = [];
+  const failing = new Set(opts.failing ?? []);
+  const flaky = new Set(opts.flaky ?? []);
+
+  const remove = async (id: string) => {
+    if (opts.missing?.includes(id)) {
+      const err: any = new Error("Not found");
+      err.status = 404;
+      throw err;
+    }
+    if (failing.has(id)) {
+      failing.delete(id);
+      const err: any = new Error("Forbidden");
+      err.status = 403;
+      throw err;
+    }
+    if (flaky.has(id)) {
+      flaky.delete(id);
+      const err: any = new Error("Internal error");
+      err.status = 500;
+      throw err;
+    }
+    deleted.push(id);
+  };
+
+  return {
+    deleted,
+    userManagement: {
+      createUser: async () => ({ id: `user_${++seq}` }),
+      createOrganizationMembership: async () => ({ id: `om_${++seq}` }),
+      deleteUser: remove,
+      deleteOrganizationMembership: remove
+    },
+    organizations: {
+      getOrganizationByExternalId: async () => {
+        const err: any = new Error("Not found");
+        err.status = 404;
+        throw err;
+      },
+      createOrganization: async () => ({ id: `org_${++seq}` }),
+      deleteOrganization: remove
+    }
+  };
+}
+
+// --- Test Runner ---
+
+let passed = 0;
+let failed = 0;
+
+async function test(name: string, fn: () => Promise<void> | void) {
+  try {
+    await fn();
+    passed++;
+    console.log(`  ✓ ${name}`);
+  } catch (err: unknown) {
+    failed++;
+    console.log(`  ✗ ${name}`);
+    console.log(`    ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+// --- Install mock into the cached WorkOS client ---
+
+import * as workosModule from "../../workos.js";
+
+const realClient = workosModule.getWorkOSClient() as never as Record<string, unknown>;
+const original = { userManagement: realClient.userManagement, organizations: realClient.organizations };
+
+function installMock(mock: ReturnType<typeof createMockWorkOS>) {
+  realClient.userManagement = mock.userManagement;
+  realClient.organizations = mock.organizations;
+}
+
+function restoreMock() {
+  realClient.userManagement = original.userManagement;
+  realClient.organizations = original.organizations;
+}
+
+const { CreationLedger, readLedger } = await import("../ledger.js");
+const { rollbackJob, loadRollbackProgress } = await import("../rollbackRunner.js");
+const { CheckpointManager } = await import("../../checkpoint/manager.js");
+const { importUsersFromCsv } = await import("../../importer.js");
+const { WorkerCoordinator } = await import("../../workers/coordinator.js");
+
+// Run the TypeScript worker through tsx instead of the compiled one in dist/
+const startCoordinator = WorkerCoordinator.prototype.start;
+WorkerCoordinator.prototype.start = function (this: InstanceType<typeof WorkerCoordinator>) {
+  (this as any).workerPath = writeTsxWorkerEntry(TEMP_DIR);
+  return startCoordinator.call(this);
+};
+
+// --- Test Suite ---
+
+async function main() {
+  fs.mkdirSync(TEMP_DIR, { recursive: true });
+  const checkpointDir = path.join(TEMP_DIR, "checkpoints");
+
+  console.log("\nRollback Tests");
+  console.log("==============\n");
+
+  await test("chunked import records created orgs, users and memberships", async () => {
+    const mock = createMockWorkOS();
+    installMock(mock);
+    const csvPath = path.join(TEMP_DIR, "users.csv");
+    fs.writeFileSync(csvPath, [
+      "email,org_external_id,org_name",
+      "a@acme.com,acme,Acme",
+      "b@acme.com,acme,Acme",
+      "a@acme.com,beta,Beta"
+    ].join("\n"));
+
+    const checkpointManager = await CheckpointManager.create({
+      jobId: "job-import",
+      csvPath,
+      csvHash: "hash",
+      totalRows: 3,
+      chunkSize: 10,
+      concurrency: 1,
+      mode: "multi-org",
+      checkpointDir
+    });
+    await importUsersFromCsv({ csvPath, quiet: true, concurrency: 1, multiOrgMode: true, checkpointManager });
+
+    const entries = readLedger(checkpointManager.getCheckpointDir());
+    assert.deepEqual(entries.map(e => e.type).sort(), [
+      "membership", "membership", "membership", "organization", "organization", "user", "user"
+    ]);
+    const membership = entries.find(e => e.type === "membership")!;
+    assert.ok(membership.userId?.startsWith("user_"));
+    assert.ok(membership.orgId?.startsWith("org_"));
+    restoreMock();
+  });
+
+  await test("worker-mode import records organizations created by the pre-warm", async () => {
+    const mock = createMockWorkOS();
+    installMock(mock);
+    // Rows without an email fail inside the workers, so only the main thread calls WorkOS
+    const csvPath = path.join(TEMP_DIR, "workers.csv");
+    fs.writeFileSync(csvPath, [
+      "email,org_external_id,org_name",
+      ",acme,Acme",
+      ",beta,Beta",
+      ",acme,Acme"
+    ].join("\n"));
+
+    const checkpointManager = await CheckpointManager.create({
+      jobId: "job-workers",
+      csvPath,
+      csvHash: "hash",
+      totalRows: 3,
+      chunkSize: 2,
+      concurrency: 1,
+      mode: "multi-org",
+      checkpointDir
+    });
+    const { summary } = await importUsersFromCsv({
+      csvPath, quiet: true, concurrency: 1, multiOrgMode: true, checkpointManager, numWorkers: 2
+    });
+    assert.equal(summary.failures, 3);
+
+    const entries = readLedger(checkpointManager.getCheckpointDir());
+    assert.deepEqual(entries.map(e => `${e.type}:${e.externalId}`).sort(), ["organization:acme", "organization:beta"]);
+
+    const rollback = await rollbackJob({ jobId: "job-workers", checkpointDir, rateLimit: 1000 });
+    assert.equal(rollback.deleted.organizations, 2);
+    assert.deepEqual(mock.deleted.sort(), entries.map(e => e.id).sort());
+    restoreMock();
+  });
+
+  await test("dry run counts deletions without calling WorkOS or saving progress", async () => {
+    const mock = createMockWorkOS();
+    installMock(mock);
+    const summary = await rollbackJob({ jobId: "job-import", checkpointDir, dryRun: true, rateLimit: 1000 });
+    assert.equal(summary.deleted.users, 2);
+    assert.equal(summary.deleted.organizations, 2);
+    assert.equal(summary.deleted.memberships, 0);
+    assert.equal(summary.coveredByUserDelete, 3, "Memberships of deleted users need no separate call");
+    assert.equal(mock.deleted.length, 0);
+    assert.equal(loadRollbackProgress(path.join(checkpointDir, "job-import")), null);
+    restoreMock();
+  });
+
+  await test("replays the ledger in reverse and treats 404 as already deleted", async () => {
+    const jobDir = path.join(checkpointDir, "job-reverse");
+    fs.mkdirSync(jobDir, { recursive: true });
+    const ledger = new CreationLedger(jobDir);
+    ledger.record({ type: "organization", id: "org_1" });
+    ledger.record({ type: "user", id: "user_1", email: "a@x.com" });
+    ledger.record({ type: "membership", id: "om_1", userId: "user_1", orgId: "org_1" });
+    ledger.record({ type: "membership", id: "om_2", userId: "user_existing", orgId: "org_2" });
+    ledger.record({ type: "user", id: "user_2", email: "b@x.com" });
+
+    const mock = createMockWorkOS({ missing: ["user_2"] });
+    installMock(mock);
+    const summary = await rollbackJob({ jobId: "job-reverse", checkpointDir, rateLimit: 1000 });
+    assert.deepEqual(mock.deleted, ["om_2", "user_1", "org_1"]);
+    assert.equal(summary.alreadyDeleted, 1);
+    assert.equal(summary.coveredByUserDelete, 1);
+    assert.equal(summary.failures.length, 0);
+    assert.ok(loadRollbackProgress(jobDir)?.completedAt);
+    restoreMock();
+  });
+
+  await test("failed deletions are reported and progress is resumable", async () => {
+    const jobDir = path.join(checkpointDir, "job-resume");
+    fs.mkdirSync(jobDir, { recursive: true });
+    const ledger = new CreationLedger(jobDir);
+    ledger.record({ type: "user", id: "user_1" });
+    ledger.record({ type: "user", id: "user_2" });
+
+    const mock = createMockWorkOS({ failing: ["user_1"] });
+    installMock(mock);
+    let stopAfterFirst = true;
+    await assert.rejects(rollbackJob({
+      jobId: "job-resume",
+      checkpointDir,
+      rateLimit: 1000,
+      onProgress: () => {
+        if (stopAfterFirst) {
+          stopAfterFirst = false;
+          throw new Error("Interrupted");
+        }
+      }
+    }), /Interrupted/);
+    assert.equal(loadRollbackProgress(jobDir)?.processed, 1);
+
+    const summary = await rollbackJob({ jobId: "job-resume", checkpointDir, rateLimit: 1000 });
+    assert.equal(summary.resumedFrom, 1);
+    assert.deepEqual(mock.deleted, ["user_2"], "Resumed run does not repeat deletes");
+    assert.equal(summary.failures.length, 1);
+    assert.equal(summary.failures[0]?.id, "user_1");
+    assert.equal(summary.failures[0]?.httpStatus, 403);
+    restoreMock();
+  });
+
+  await test("server errors are retried before a deletion fails", async () => {
+    const jobDir = path.join(checkpointDir, "job-flaky");
+    fs.mkdirSync(jobDir, { recursive: true });
+    new CreationLedger(jobDir).record({ type: "user", id: "user_1" });
+
+    const mock = createMockWorkOS({ flaky: ["user_1"] });
+    installMock(mock);
+    const summary = await rollbackJob({ jobId: "job-flaky", checkpointDir, rateLimit: 1000 });
+    assert.deepEqual(mock.deleted, ["user_1"]);
+    assert.equal(summary.failures.length, 0);
+    restoreMock();
+  });
+
+  await test("rejects unknown jobs", async () => {
+    await assert.rejects(rollbackJob({ jobId: "nope", checkpointDir }), /Checkpoint directory not found/);
+  });
+
+  fs.rmSync(TEMP_DIR, { recursive: true, force: true });
+
+  console.log(`\nTests: ${passed} passed, ${failed} failed`);
+  if (failed > 0) {
+    process.exit(1);
+  }
+  process.exit(0);
+}
+
+main().catch((err) => {
+  console.error("Test runner error:", err);
+  process.exit(1);
+});
@@ -0,0 +1,62 @@
+/**
+ * Creation ledger
+ *
+ * Append-only JSONL record of every organization, user and membership an
+ * import job created. Lives next to checkpoint.json so `workos-rollback` can
+ * undo exactly what the job created. Writes are synchronous appends so the
+ * main thread and worker threads can share one file and a crash never loses
+ * an entry that was already acknowledged by WorkOS.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import type { LedgerEntry } from './types.js';
+
+export const LEDGER_FILENAME = 'created.jsonl';
+
+export function getLedgerPath(checkpointDir: string): string {
+  return path.join(checkpointDir, LEDGER_FILENAME);
+}
+
+export class CreationLedger {
+  private readonly ledgerPath: string;
+
+  constructor(checkpointDir: string) {
+    this.ledgerPath = getLedgerPath(checkpointDir);
+  }
+
+  /**
+   * Append one created resource to the ledger
+   */
+  record(entry: Omit<LedgerEntry, 'createdAt'>): void {
+    const line: LedgerEntry = { ...entry, createdAt: new Date().toISOString() };
+    fs.appendFileSync(this.ledgerPath, JSON.stringify(line) + '\n', 'utf8');
+  }
+
+  getPath(): string {
+    return this.ledgerPath;
+  }
+}
+
+/**
+ * Read all ledger entries in creation order (missing ledger → empty list)
+ * A truncated final line from a crash mid-write is ignored.
+ */
+export function readLedger(checkpointDir: string): LedgerEntry[] {
+  const ledgerPath = getLedgerPath(checkpointDir);
+  if (!fs.existsSync(ledgerPath)) {
+    return [];
+  }
+
+  const entries: LedgerEntry[] = [];
+  const lines = fs.readFileSync(ledgerPath, 'utf8').split('\n');
+  for (const line of lines) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line) as LedgerEntry);
+    } catch {
+      // Partial line from an interrupted write
+    }
+  }
+  return entries;
+}
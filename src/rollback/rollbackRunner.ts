@@ -0,0 +1,174 @@
+/**
+ * Rollback runner
+ *
+ * Replays a job's creation ledger in reverse and deletes what the job created:
+ * memberships, then users, then organizations (reverse creation order).
+ * Progress is saved to rollback.json in the job's checkpoint directory so an
+ * interrupted rollback resumes where it stopped.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { getWorkOSClient } from '../workos.js';
+import { RateLimiter } from '../rateLimiter.js';
+import { callWithRetry, normalizeWorkOSError } from '../workosGateway.js';
+import { DEFAULT_CHECKPOINT_DIR } from '../checkpoint/manager.js';
+import { readLedger } from './ledger.js';
+import type {
+  LedgerEntry,
+  RollbackFailure,
+  RollbackOptions,
+  RollbackProgress,
+  RollbackSummary
+} from './types.js';
+
+export const ROLLBACK_PROGRESS_FILENAME = 'rollback.json';
+
+/** Save progress after this many processed entries */
+const SAVE_INTERVAL = 25;
+
+/**
+ * Resolve the checkpoint directory of a job
+ */
+export function getJobDir(jobId: string, checkpointDir?: string): string {
+  return path.join(checkpointDir || DEFAULT_CHECKPOINT_DIR, jobId);
+}
+
+/**
+ * Load saved rollback progress for a job (null if the rollback never started)
+ */
+export function loadRollbackProgress(jobDir: string): RollbackProgress | null {
+  const progressPath = path.join(jobDir, ROLLBACK_PROGRESS_FILENAME);
+  if (!fs.existsSync(progressPath)) {
+    return null;
+  }
+  return JSON.parse(fs.readFileSync(progressPath, 'utf8')) as RollbackProgress;
+}
+
+function saveRollbackProgress(jobDir: string, progress: RollbackProgress): void {
+  progress.updatedAt = Date.now();
+  const progressPath = path.join(jobDir, ROLLBACK_PROGRESS_FILENAME);
+  const tempPath = `${progressPath}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(progress, null, 2), 'utf8');
+  fs.renameSync(tempPath, progressPath);
+}
+
+function newProgress(jobId: string): RollbackProgress {
+  const now = Date.now();
+  return {
+    jobId,
+    startedAt: now,
+    updatedAt: now,
+    processed: 0,
+    deleted: { organizations: 0, users: 0, memberships: 0 },
+    alreadyDeleted: 0,
+    coveredByUserDelete: 0,
+    failures: []
+  };
+}
+
+/**
+ * Delete one ledger entry. Deletes are idempotent (a repeat returns 404), so
+ * 429s, 5xx and network errors are retried like any other gateway call.
+ */
+async function deleteResource(entry: LedgerEntry, limiter: RateLimiter): Promise<void> {
+  const workos = getWorkOSClient();
+  await callWithRetry(async () => {
+    if (entry.type === 'membership') {
+      await workos.userManagement.deleteOrganizationMembership(entry.id);
+    } else if (entry.type === 'user') {
+      await workos.userManagement.deleteUser(entry.id);
+    } else {
+      await workos.organizations.deleteOrganization(entry.id);
+    }
+  }, limiter);
+}
+
+/**
+ * Undo an import job using its creation ledger
+ *
+ * @throws Error if the job's checkpoint directory does not exist
+ */
+export async function rollbackJob(options: RollbackOptions): Promise<RollbackSummary> {
+  const { jobId, dryRun = false, rateLimit = 50, onProgress } = options;
+  const startedAt = Date.now();
+  const jobDir = getJobDir(jobId, options.checkpointDir);
+
+  if (!fs.existsSync(jobDir)) {
+    throw new Error(`Checkpoint directory not found for job: ${jobId} at ${jobDir}`);
+  }
+
+  const entries = readLedger(jobDir);
+  // Deleting a user removes its memberships, so those need no separate call
+  const ledgerUsers = new Set(entries.filter(e => e.type === 'user').map(e => e.id));
+
+  // Dry runs never read or write saved progress
+  const progress = (!dryRun && loadRollbackProgress(jobDir)) || newProgress(jobId);
+  const resumedFrom = progress.processed;
+  const limiter = new RateLimiter(rateLimit);
+
+  try {
+    for (let i = progress.processed; i < entries.length; i++) {
+      const entry = entries[entries.length - 1 - i]!;
+
+      if (entry.type === 'membership' && entry.userId && ledgerUsers.has(entry.userId)) {
+        progress.coveredByUserDelete += 1;
+      } else if (dryRun) {
+        countDeleted(progress, entry);
+      } else {
+        try {
+          await deleteResource(entry, limiter);
+          countDeleted(progress, entry);
+        } catch (err) {
+          const error = normalizeWorkOSError(err);
+          const status = error.status;
+          if (status === 404) {
+            progress.alreadyDeleted += 1;
+          } else {
+            const failure: RollbackFailure = {
+              type: entry.type,
+              id: entry.id,
+              email: entry.email,
+              httpStatus: status,
+              errorMessage: error.message || 'Unknown error',
+              timestamp: new Date().toISOString()
+            };
+            progress.failures.push(failure);
+          }
+        }
+      }
+
+      progress.processed = i + 1;
+      if (!dryRun && progress.processed % SAVE_INTERVAL === 0) {
+        saveRollbackProgress(jobDir, progress);
+      }
+      onProgress?.(progress.processed, entries.length);
+    }
+  } finally {
+    limiter.stop();
+    if (!dryRun) {
+      if (progress.processed >= entries.length && progress.completedAt === undefined) {
+        progress.completedAt = Date.now();
+      }
+      saveRollbackProgress(jobDir, progress);
+    }
+  }
+
+  return {
+    jobId,
+    dryRun,
+    total: entries.length,
+    resumedFrom,
+    deleted: progress.deleted,
+    alreadyDeleted: progress.alreadyDeleted,
+    coveredByUserDelete: progress.coveredByUserDelete,
+    failures: progress.failures,
+    durationMs: Date.now() - startedAt
+  };
+}
+
+function countDeleted(progress: RollbackProgress, entry: LedgerEntry): void {
+  if (entry.type === 'membership') progress.deleted.memberships += 1;
+  else if (entry.type === 'user') progress.deleted.users += 1;
+  else progress.deleted.organizations += 1;
+}
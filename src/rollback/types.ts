@@ -0,0 +1,86 @@
+/**
+ * Rollback types: creation ledger entries and rollback progress/summary
+ */
+
+/**
+ * Kinds of WorkOS resources an import job can create
+ */
+export type LedgerResourceType = 'organization' | 'user' | 'membership';
+
+/**
+ * One line of a job's creation ledger (created.jsonl in the checkpoint directory)
+ */
+export interface LedgerEntry {
+  type: LedgerResourceType;
+  /** WorkOS ID of the created resource */
+  id: string;
+  /** CSV record number that caused the creation (users and memberships) */
+  recordNumber?: number;
+  email?: string;
+  /** Membership: user the membership belongs to */
+  userId?: string;
+  /** Membership: organization the membership belongs to */
+  orgId?: string;
+  /** Organization: external_id it was created with */
+  externalId?: string;
+  createdAt: string; // ISO 8601
+}
+
+/**
+ * Resumable rollback progress (rollback.json in the checkpoint directory)
+ */
+export interface RollbackProgress {
+  jobId: string;
+  startedAt: number;
+  updatedAt: number;
+  completedAt?: number;
+  /** Number of ledger entries processed, counted from the end of the ledger */
+  processed: number;
+  deleted: RollbackCounts;
+  /** Resources that were already gone (404) */
+  alreadyDeleted: number;
+  /** Memberships removed implicitly by deleting their user */
+  coveredByUserDelete: number;
+  failures: RollbackFailure[];
+}
+
+export interface RollbackCounts {
+  organizations: number;
+  users: number;
+  memberships: number;
+}
+
+export interface RollbackFailure {
+  type: LedgerResourceType;
+  id: string;
+  email?: string;
+  httpStatus?: number;
+  errorMessage: string;
+  timestamp: string;
+}
+
+export interface RollbackOptions {
+  jobId: string;
+  /** Parent checkpoint directory (default: .workos-checkpoints) */
+  checkpointDir?: string;
+  /** List what would be deleted without calling WorkOS */
+  dryRun?: boolean;
+  /** Delete requests per second (default: 50) */
+  rateLimit?: number;
+  /** Called after each processed ledger entry */
+  onProgress?: (processed: number, total: number) => void;
+}
+
+export interface RollbackSummary {
+  jobId: string;
+  dryRun: boolean;
+  /** Ledger entries in the job */
+  total: number;
+  /** Entries already processed by an earlier, interrupted rollback */
+  resumedFrom: number;
+  deleted: RollbackCounts;
+  alreadyDeleted: number;
+  coveredByUserDelete: number;
+  failures: RollbackFailure[];
+  durationMs: number;
+}
@@ -13,8 +13,9 @@ function formatDuration(ms: number): string {
 }
 
 export function computeStatus(summary: ImportSummary): "Success" | "Completed with errors" | "Failed" {
-  if (summary.failures === 0 && summary.successes > 0) return "Success";
-  if (summary.failures > 0 && summary.successes > 0) return "Completed with errors";
+  const hasErrors = summary.failures > 0 || Boolean(summary.failedChunks?.length);
+  if (!hasErrors && summary.successes > 0) return "Success";
+  if (hasErrors && summary.successes > 0) return "Completed with errors";
   return "Failed";
 }
 
@@ -50,6 +51,18 @@ export function renderSummaryBox(summary: ImportSummary): string {
     `Errors: ${useColors && errorsCount > 0 ? chalk.red(errorsCount.toString()) : errorsCount}`
   ];
 
+  // Break down user outcomes when --on-conflict or delta rows touched existing users
+  if (summary.usersUpdated > 0 || summary.usersSkipped > 0 || summary.usersDeleted > 0) {
+    content.push(
+      `Users created: ${useColors ? chalk.green(summary.usersCreated.toString()) : summary.usersCreated}`,
+      `Users updated: ${useColors ? chalk.cyan(summary.usersUpdated.toString()) : summary.usersUpdated}`,
+      `Users skipped: ${summary.usersSkipped}`
+    );
+    if (summary.usersDeleted > 0) {
+      content.push(`Users deleted: ${useColors ? chalk.yellow(summary.usersDeleted.toString()) : summary.usersDeleted}`);
+    }
+  }
+
   // Add role assignment stats if any roles were assigned
   if (summary.rolesAssigned > 0 || summary.roleAssignmentFailures > 0) {
     content.push(
@@ -71,6 +84,14 @@ export function renderSummaryBox(summary: ImportSummary): string {
     );
   }
 
+  // Add rate limiter stats if the API throttled us
+  if (summary.rateLimit && summary.rateLimit.throttles > 0) {
+    const { currentRate, lowestRate, throttles } = summary.rateLimit;
+    content.push(
+      `Rate limit: ${currentRate.toFixed(1)} req/s (lowest ${lowestRate.toFixed(1)}, ${useColors ? chalk.yellow(throttles.toString()) : throttles} throttled)`
+    );
+  }
+
   // Add chunk progress if available (chunked mode)
   if (summary.chunkProgress) {
     const progress = `${summary.chunkProgress.completedChunks}/${summary.chunkProgress.totalChunks} chunks (${summary.chunkProgress.percentComplete}%)`;
@@ -79,6 +100,17 @@ export function renderSummaryBox(summary: ImportSummary): string {
     );
   }
 
+  // List chunks that exhausted their retries; their rows were not imported
+  if (summary.failedChunks && summary.failedChunks.length > 0) {
+    const count = summary.failedChunks.length.toString();
+    content.push(`Failed chunks: ${useColors ? chalk.red(count) : count}`);
+    for (const chunk of summary.failedChunks) {
+      const attempts = `${chunk.attempts} attempt${chunk.attempts === 1 ? '' : 's'}`;
+      content.push(`  #${chunk.chunkId} rows ${chunk.startRow}-${chunk.endRow} (${attempts}): ${chunk.error ?? 'unknown error'}`);
+    }
+    content.push('  Retry with: --resume <job-id> --retry-failed-chunks');
+  }
+
   // Compute max content width (strip ANSI codes for accurate length)
   const stripAnsi = (str: string) => str.replace(/\x1b\[[0-9;]*m/g, '');
   const maxLen = content.reduce((m, s) => Math.max(m, stripAnsi(s).length), 0);
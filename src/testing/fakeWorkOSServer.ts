@@ -0,0 +1,857 @@
+/**
+ * In-process fake WorkOS API
+ *
+ * Local HTTP stand-in for the User Management, Organizations, Roles and
+ * Auth Factors endpoints this tool calls. State lives in memory and responses
+ * use the same wire format as the real API, so the WorkOS SDK and the role
+ * REST client work against it unchanged.
+ *
+ * Point the tool at it with WORKOS_BASE_URL:
+ *
+ *   const server = await startFakeWorkOSServer();
+ *   process.env.WORKOS_BASE_URL = server.baseUrl;
+ *   process.env.WORKOS_SECRET_KEY = 'sk_test_fake';
+ *
+ * Faults (429, 5xx, latency, conflicts, dropped connections) are injected per
+ * method/path with addFault().
+ */
+
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+type Json = Record<string, any>;
+
+export interface FakeUser {
+  object: 'user';
+  id: string;
+  email: string;
+  email_verified: boolean;
+  first_name: string | null;
+  last_name: string | null;
+  profile_picture_url: string | null;
+  last_sign_in_at: string | null;
+  external_id: string | null;
+  metadata: Record<string, string>;
+  created_at: string;
+  updated_at: string;
+  /** Not returned by the API; kept for assertions */
+  password_hash_type?: string;
+}
+
+export interface FakeOrganization {
+  object: 'organization';
+  id: string;
+  name: string;
+  allow_profiles_outside_organization: boolean;
+  domains: Json[];
+  external_id: string | null;
+  metadata: Record<string, string>;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface FakeMembership {
+  object: 'organization_membership';
+  id: string;
+  user_id: string;
+  organization_id: string;
+  organization_name: string;
+  status: 'active';
+  role: { slug: string };
+  roles: Array<{ slug: string }>;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface FakeRole {
+  object: 'role';
+  id: string;
+  name: string;
+  slug: string;
+  description: string | null;
+  permissions: string[];
+  type: 'EnvironmentRole' | 'OrganizationRole';
+  /** Set for organization roles */
+  organization_id?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface FakePermission {
+  object: 'permission';
+  id: string;
+  slug: string;
+  name: string;
+  description: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface FakeAuthFactor {
+  object: 'authentication_factor';
+  id: string;
+  user_id: string;
+  type: 'totp';
+  totp: { issuer: string; user: string; secret: string; qr_code: string; uri: string };
+  created_at: string;
+  updated_at: string;
+}
+
+export interface FakeWorkOSState {
+  users: Map<string, FakeUser>;
+  organizations: Map<string, FakeOrganization>;
+  memberships: Map<string, FakeMembership>;
+  roles: Map<string, FakeRole>;
+  permissions: Map<string, FakePermission>;
+  authFactors: Map<string, FakeAuthFactor>;
+}
+
+/**
+ * A fault applied to matching requests. With a status the request fails with
+ * that status; with only latencyMs it is delayed and then handled normally.
+ */
+export interface FaultRule {
+  /** HTTP method to match (any when omitted) */
+  method?: string;
+  /** Path prefix or pattern to match (any when omitted) */
+  path?: string | RegExp;
+  /** Respond with this status instead of handling the request */
+  status?: number;
+  /** Error body for status faults (defaults to a message for the status) */
+  body?: Json;
+  /** Retry-After header in seconds (429 faults) */
+  retryAfter?: number;
+  /** Delay before responding */
+  latencyMs?: number;
+  /** Destroy the connection without a response */
+  reset?: boolean;
+  /** Let this many matching requests through before the fault applies */
+  after?: number;
+  /** Apply to this many matching requests, then stop (unlimited when omitted) */
+  times?: number;
+}
+
+export interface FakeRequestLogEntry {
+  method: string;
+  path: string;
+  status: number;
+}
+
+export interface FakeWorkOSServerOptions {
+  /** Require this bearer token (any non-empty token is accepted when omitted) */
+  apiKey?: string;
+  /** Accept role_slugs with more than one role (default true) */
+  multipleRoles?: boolean;
+}
+
+interface ActiveFault {
+  rule: FaultRule;
+  seen: number;
+  applied: number;
+}
+
+class FakeApiError extends Error {
+  constructor(readonly status: number, readonly body: Json) {
+    super(String(body.message ?? status));
+  }
+}
+
+const PAGE_LIMIT_DEFAULT = 10;
+
+export class FakeWorkOSServer {
+  readonly state: FakeWorkOSState = emptyState();
+  readonly requests: FakeRequestLogEntry[] = [];
+
+  private server: http.Server | null = null;
+  private faults: ActiveFault[] = [];
+  private sequence = 0;
+  private url = '';
+
+  constructor(private readonly options: FakeWorkOSServerOptions = {}) {}
+
+  /** Base URL to use as WORKOS_BASE_URL (available after start) */
+  get baseUrl(): string {
+    if (!this.url) {
+      throw new Error('Fake WorkOS server is not running');
+    }
+    return this.url;
+  }
+
+  /**
+   * Listen on 127.0.0.1 (random free port by default)
+   */
+  async start(port = 0): Promise<string> {
+    const server = http.createServer((req, res) => {
+      this.handle(req, res).catch((err) => {
+        this.respond(req, res, 500, { message: `Fake server error: ${err?.message || String(err)}` });
+      });
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, '127.0.0.1', () => resolve());
+    });
+    this.server = server;
+    const address = server.address() as AddressInfo;
+    this.url = `http://127.0.0.1:${address.port}`;
+    return this.url;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = null;
+    this.url = '';
+    server.closeAllConnections();
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  addFault(rule: FaultRule): void {
+    this.faults.push({ rule, seen: 0, applied: 0 });
+  }
+
+  clearFaults(): void {
+    this.faults = [];
+  }
+
+  /** Clear state, faults and the request log */
+  reset(): void {
+    Object.assign(this.state, emptyState());
+    this.requests.length = 0;
+    this.clearFaults();
+  }
+
+  /** Number of logged requests matching a method and path prefix */
+  countRequests(method: string, pathPrefix: string): number {
+    return this.requests.filter(r => r.method === method && r.path.startsWith(pathPrefix)).length;
+  }
+
+  seedUser(fields: { email: string } & Partial<Omit<FakeUser, 'object' | 'id'>>): FakeUser {
+    return this.insertUser(fields);
+  }
+
+  seedOrganization(fields: { name: string } & Partial<Omit<FakeOrganization, 'object' | 'id'>>): FakeOrganization {
+    const now = new Date().toISOString();
+    const org: FakeOrganization = {
+      object: 'organization',
+      id: this.nextId('org'),
+      allow_profiles_outside_organization: false,
+      domains: [],
+      external_id: null,
+      metadata: {},
+      created_at: now,
+      updated_at: now,
+      ...fields
+    };
+    this.state.organizations.set(org.id, org);
+    return org;
+  }
+
+  seedRole(fields: { slug: string } & Partial<Omit<FakeRole, 'object' | 'id'>>): FakeRole {
+    const now = new Date().toISOString();
+    const role: FakeRole = {
+      object: 'role',
+      id: this.nextId('role'),
+      name: fields.slug,
+      description: null,
+      permissions: [],
+      type: fields.organization_id ? 'OrganizationRole' : 'EnvironmentRole',
+      created_at: now,
+      updated_at: now,
+      ...fields
+    };
+    this.state.roles.set(role.id, role);
+    return role;
+  }
+
+  // --- Request handling ---
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const method = req.method ?? 'GET';
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    const auth = req.headers.authorization ?? '';
+    const token = auth.startsWith('Bearer ') ? auth.slice(7).trim() : '';
+    if (!token || (this.options.apiKey !== undefined && token !== this.options.apiKey)) {
+      this.respond(req, res, 401, { message: 'Unauthorized' });
+      return;
+    }
+
+    for (const fault of this.matchingFaults(method, url.pathname)) {
+      if (fault.latencyMs) {
+        await new Promise(r => setTimeout(r, fault.latencyMs));
+      }
+      if (fault.reset) {
+        this.requests.push({ method, path: url.pathname, status: 0 });
+        req.socket.destroy();
+        return;
+      }
+      if (fault.status) {
+        const headers: Record<string, string> = {};
+        if (fault.retryAfter !== undefined) headers['Retry-After'] = String(fault.retryAfter);
+        this.respond(req, res, fault.status, fault.body ?? { message: defaultFaultMessage(fault.status) }, headers);
+        return;
+      }
+    }
+
+    try {
+      const body = await readJson(req);
+      const { status, data } = this.route(method, url, body);
+      this.respond(req, res, status, data);
+    } catch (err) {
+      if (err instanceof FakeApiError) {
+        this.respond(req, res, err.status, err.body);
+        return;
+      }
+      throw err;
+    }
+  }
+
+  private matchingFaults(method: string, path: string): FaultRule[] {
+    const matched: FaultRule[] = [];
+    for (const fault of this.faults) {
+      const { rule } = fault;
+      if (rule.method && rule.method.toUpperCase() !== method) continue;
+      if (rule.path !== undefined) {
+        const ok = typeof rule.path === 'string' ? path.startsWith(rule.path) : rule.path.test(path);
+        if (!ok) continue;
+      }
+      fault.seen += 1;
+      if (fault.seen <= (rule.after ?? 0)) continue;
+      if (rule.times !== undefined && fault.applied >= rule.times) continue;
+      fault.applied += 1;
+      matched.push(rule);
+    }
+    return matched;
+  }
+
+  private respond(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    status: number,
+    data: unknown,
+    headers: Record<string, string> = {}
+  ): void {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    this.requests.push({ method: req.method ?? 'GET', path: url.pathname, status });
+    const payload = status === 204 ? '' : JSON.stringify(data ?? {});
+    res.writeHead(status, {
+      'Content-Type': 'application/json',
+      'X-Request-ID': `req_fake_${++this.sequence}`,
+      ...headers
+    });
+    res.end(payload);
+  }
+
+  private route(method: string, url: URL, body: Json): { status: number; data: unknown } {
+    const parts = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+    const query = url.searchParams;
+    const key = `${method} /${parts.map((p, i) => (isParam(parts, i) ? ':id' : p)).join('/')}`;
+
+    switch (key) {
+      // Users
+      case 'GET /user_management/users':
+        return ok(this.list([...this.state.users.values()].filter(u => {
+          const email = query.get('email');
+          return !email || u.email === email.toLowerCase();
+        }), query));
+      case 'POST /user_management/users':
+        return ok(publicUser(this.createUser(body)), 201);
+      case 'GET /user_management/users/:id':
+        return ok(publicUser(this.getUser(parts[2]!)));
+      case 'GET /user_management/users/external_id/:id': {
+        const user = [...this.state.users.values()].find(u => u.external_id === parts[3]);
+        if (!user) throw notFound('User', parts[3]!);
+        return ok(publicUser(user));
+      }
+      case 'PUT /user_management/users/:id':
+        return ok(publicUser(this.updateUser(parts[2]!, body)));
+      case 'DELETE /user_management/users/:id':
+        this.deleteUser(parts[2]!);
+        return { status: 202, data: {} };
+      case 'POST /user_management/users/:id/auth_factors':
+        return ok(this.enrollFactor(parts[2]!, body), 201);
+      case 'GET /user_management/users/:id/auth_factors': {
+        const userId = this.getUser(parts[2]!).id;
+        return ok(this.list([...this.state.authFactors.values()].filter(f => f.user_id === userId), query));
+      }
+
+      // Organization memberships
+      case 'GET /user_management/organization_memberships':
+        return ok(this.list([...this.state.memberships.values()].filter(m =>
+          (!query.get('user_id') || m.user_id === query.get('user_id')) &&
+          (!query.get('organization_id') || m.organization_id === query.get('organization_id'))
+        ), query));
+      case 'POST /user_management/organization_memberships':
+        return ok(this.createMembership(body), 201);
+      case 'PUT /user_management/organization_memberships/:id':
+        return ok(this.updateMembership(parts[2]!, body));
+      case 'DELETE /user_management/organization_memberships/:id':
+        if (!this.state.memberships.delete(parts[2]!)) throw notFound('Organization membership', parts[2]!);
+        return { status: 202, data: {} };
+
+      // Organizations
+      case 'GET /organizations':
+        return ok(this.list([...this.state.organizations.values()], query));
+      case 'POST /organizations':
+        return ok(this.createOrganization(body), 201);
+      case 'GET /organizations/:id':
+        return ok(this.getOrganization(parts[1]!));
+      case 'PUT /organizations/:id':
+        return ok(this.updateOrganization(parts[1]!, body));
+      case 'GET /organizations/external_id/:id': {
+        const org = [...this.state.organizations.values()].find(o => o.external_id === parts[2]);
+        if (!org) throw notFound('Organization', parts[2]!);
+        return ok(org);
+      }
+      case 'DELETE /organizations/:id':
+        this.deleteOrganization(parts[1]!);
+        return { status: 202, data: {} };
+      case 'GET /organizations/:id/roles': {
+        const orgId = this.getOrganization(parts[1]!).id;
+        const roles = [...this.state.roles.values()].filter(r => !r.organization_id || r.organization_id === orgId);
+        return ok({ object: 'list', data: roles.map(publicRole) });
+      }
+
+      // Roles and permissions
+      case 'POST /authorization/roles':
+        return ok(publicRole(this.createRole(body)), 201);
+      case 'POST /authorization/organizations/:id/roles':
+        return ok(publicRole(this.createRole(body, this.getOrganization(parts[2]!).id)), 201);
+      case 'PUT /authorization/roles/:id/permissions':
+        return ok(publicRole(this.setRolePermissions(parts[2]!, undefined, body)));
+      case 'PUT /authorization/organizations/:id/roles/:id/permissions':
+        return ok(publicRole(this.setRolePermissions(parts[4]!, parts[2]!, body)));
+      case 'POST /authorization/permissions':
+        return ok(this.createPermission(body), 201);
+
+      default:
+        throw new FakeApiError(404, { message: `Fake WorkOS server has no route for ${method} ${url.pathname}` });
+    }
+  }
+
+  // --- Users ---
+
+  private insertUser(fields: { email: string } & Partial<FakeUser>): FakeUser {
+    const now = new Date().toISOString();
+    const user: FakeUser = {
+      object: 'user',
+      id: this.nextId('user'),
+      email_verified: false,
+      first_name: null,
+      last_name: null,
+      profile_picture_url: null,
+      last_sign_in_at: null,
+      external_id: null,
+      metadata: {},
+      created_at: now,
+      updated_at: now,
+      ...fields,
+      email: fields.email.toLowerCase()
+    };
+    this.state.users.set(user.id, user);
+    return user;
+  }
+
+  private createUser(body: Json): FakeUser {
+    const email = typeof body.email === 'string' ? body.email.trim().toLowerCase() : '';
+    if (!email) {
+      throw unprocessable('email is required', [{ code: 'email_required', message: 'Email is required.' }]);
+    }
+    if (this.findUserByEmail(email)) {
+      throw new FakeApiError(422, { code: 'email_not_available', message: 'Email not available.' });
+    }
+    this.assertUniqueUserExternalId(body.external_id);
+    return this.insertUser({
+      email,
+      email_verified: Boolean(body.email_verified),
+      first_name: body.first_name ?? null,
+      last_name: body.last_name ?? null,
+      external_id: body.external_id ?? null,
+      metadata: body.metadata ?? {},
+      ...(body.password_hash_type ? { password_hash_type: body.password_hash_type } : {})
+    });
+  }
+
+  private updateUser(id: string, body: Json): FakeUser {
+    const user = this.getUser(id);
+    if (typeof body.email === 'string' && body.email.toLowerCase() !== user.email) {
+      if (this.findUserByEmail(body.email.toLowerCase())) {
+        throw new FakeApiError(422, { code: 'email_not_available', message: 'Email not available.' });
+      }
+      user.email = body.email.toLowerCase();
+    }
+    if (body.external_id !== undefined && body.external_id !== user.external_id) {
+      this.assertUniqueUserExternalId(body.external_id);
+      user.external_id = body.external_id;
+    }
+    if (body.first_name !== undefined) user.first_name = body.first_name;
+    if (body.last_name !== undefined) user.last_name = body.last_name;
+    if (body.email_verified !== undefined) user.email_verified = Boolean(body.email_verified);
+    if (body.metadata !== undefined) user.metadata = body.metadata ?? {};
+    if (body.password_hash_type !== undefined) user.password_hash_type = body.password_hash_type;
+    user.updated_at = new Date().toISOString();
+    return user;
+  }
+
+  private deleteUser(id: string): void {
+    const user = this.getUser(id);
+    this.state.users.delete(user.id);
+    for (const [membershipId, membership] of this.state.memberships) {
+      if (membership.user_id === user.id) this.state.memberships.delete(membershipId);
+    }
+    for (const [factorId, factor] of this.state.authFactors) {
+      if (factor.user_id === user.id) this.state.authFactors.delete(factorId);
+    }
+  }
+
+  private getUser(id: string): FakeUser {
+    const user = this.state.users.get(id);
+    if (!user) throw notFound('User', id);
+    return user;
+  }
+
+  private findUserByEmail(email: string): FakeUser | undefined {
+    return [...this.state.users.values()].find(u => u.email === email);
+  }
+
+  private assertUniqueUserExternalId(externalId: unknown): void {
+    if (externalId && [...this.state.users.values()].some(u => u.external_id === externalId)) {
+      throw new FakeApiError(422, { code: 'external_id_not_available', message: 'External ID not available.' });
+    }
+  }
+
+  private enrollFactor(userId: string, body: Json): Json {
+    const user = this.getUser(userId);
+    if (body.type !== 'totp') {
+      throw unprocessable(`Unsupported factor type: ${body.type}`);
+    }
+    if ([...this.state.authFactors.values()].some(f => f.user_id === user.id && f.type === 'totp')) {
+      throw unprocessable('TOTP factor already exists for this user.');
+    }
+    const now = new Date().toISOString();
+    const issuer = body.totp_issuer ?? 'WorkOS';
+    const totpUser = body.totp_user ?? user.email;
+    const secret = body.totp_secret ?? 'JBSWY3DPEHPK3PXP';
+    const factor: FakeAuthFactor = {
+      object: 'authentication_factor',
+      id: this.nextId('auth_factor'),
+      user_id: user.id,
+      type: 'totp',
+      totp: {
+        issuer,
+        user: totpUser,
+        secret,
+        qr_code: '',
+        uri: `otpauth://totp/${encodeURIComponent(issuer)}:${encodeURIComponent(totpUser)}?secret=${secret}&issuer=${encodeURIComponent(issuer)}`
+      },
+      created_at: now,
+      updated_at: now
+    };
+    this.state.authFactors.set(factor.id, factor);
+    return {
+      authentication_factor: factor,
+      authentication_challenge: {
+        object: 'authentication_challenge',
+        id: this.nextId('auth_challenge'),
+        created_at: now,
+        updated_at: now,
+        expires_at: null,
+        code: null,
+        authentication_factor_id: factor.id
+      }
+    };
+  }
+
+  // --- Organizations and memberships ---
+
+  private createOrganization(body: Json): FakeOrganization {
+    if (typeof body.name !== 'string' || !body.name.trim()) {
+      throw unprocessable('name is required');
+    }
+    if (body.external_id && [...this.state.organizations.values()].some(o => o.external_id === body.external_id)) {
+      throw new FakeApiError(409, { message: `An organization with external_id "${body.external_id}" already exists.` });
+    }
+    return this.seedOrganization({
+      name: body.name,
+      external_id: body.external_id ?? null,
+      metadata: body.metadata ?? {},
+      allow_profiles_outside_organization: Boolean(body.allow_profiles_outside_organization),
+      domains: this.organizationDomains(body.domain_data ?? [])
+    });
+  }
+
+  private updateOrganization(id: string, body: Json): FakeOrganization {
+    const org = this.getOrganization(id);
+    if (body.external_id !== undefined && body.external_id !== org.external_id) {
+      if ([...this.state.organizations.values()].some(o => o.external_id === body.external_id)) {
+        throw new FakeApiError(409, { message: `An organization with external_id "${body.external_id}" already exists.` });
+      }
+      org.external_id = body.external_id;
+    }
+    if (body.name !== undefined) org.name = body.name;
+    if (body.metadata !== undefined) org.metadata = body.metadata ?? {};
+    if (body.allow_profiles_outside_organization !== undefined) {
+      org.allow_profiles_outside_organization = Boolean(body.allow_profiles_outside_organization);
+    }
+    // domain_data replaces the domain list; kept domains keep their IDs
+    if (body.domain_data !== undefined) {
+      org.domains = this.organizationDomains(body.domain_data, org.domains);
+    }
+    org.updated_at = new Date().toISOString();
+    return org;
+  }
+
+  private organizationDomains(domainData: Json[], current: Json[] = []): Json[] {
+    return domainData.map((d: Json) => ({
+      object: 'organization_domain',
+      id: current.find(c => c.domain === d.domain)?.id ?? this.nextId('org_domain'),
+      domain: d.domain,
+      state: d.state ?? 'pending'
+    }));
+  }
+
+  private getOrganization(id: string): FakeOrganization {
+    const org = this.state.organizations.get(id);
+    if (!org) throw notFound('Organization', id);
+    return org;
+  }
+
+  private deleteOrganization(id: string): void {
+    const org = this.getOrganization(id);
+    this.state.organizations.delete(org.id);
+    for (const [membershipId, membership] of this.state.memberships) {
+      if (membership.organization_id === org.id) this.state.memberships.delete(membershipId);
+    }
+    for (const [roleId, role] of this.state.roles) {
+      if (role.organization_id === org.id) this.state.roles.delete(roleId);
+    }
+  }
+
+  private createMembership(body: Json): FakeMembership {
+    const user = this.getUser(body.user_id);
+    const org = this.getOrganization(body.organization_id);
+
+    const slugs: string[] = Array.isArray(body.role_slugs) ? body.role_slugs : body.role_slug ? [body.role_slug] : ['member'];
+    if (slugs.length > 1 && this.options.multipleRoles === false) {
+      throw new FakeApiError(422, {
+        code: 'multiple_roles_not_enabled',
+        message: 'Multiple roles not enabled for this environment.'
+      });
+    }
+
+    const duplicate = [...this.state.memberships.values()].find(m => m.user_id === user.id && m.organization_id === org.id);
+    if (duplicate) {
+      throw new FakeApiError(409, {
+        code: 'organization_membership_already_exists',
+        message: `User ${user.id} is already a member of organization ${org.id}.`
+      });
+    }
+
+    const now = new Date().toISOString();
+    const membership: FakeMembership = {
+      object: 'organization_membership',
+      id: this.nextId('om'),
+      user_id: user.id,
+      organization_id: org.id,
+      organization_name: org.name,
+      status: 'active',
+      role: { slug: slugs[0]! },
+      roles: slugs.map(slug => ({ slug })),
+      created_at: now,
+      updated_at: now
+    };
+    this.state.memberships.set(membership.id, membership);
+    return membership;
+  }
+
+  private updateMembership(id: string, body: Json): FakeMembership {
+    const membership = this.state.memberships.get(id);
+    if (!membership) throw notFound('Organization membership', id);
+
+    const slugs: string[] | undefined = Array.isArray(body.role_slugs) ? body.role_slugs : body.role_slug ? [body.role_slug] : undefined;
+    if (slugs) {
+      if (slugs.length > 1 && this.options.multipleRoles === false) {
+        throw new FakeApiError(422, {
+          code: 'multiple_roles_not_enabled',
+          message: 'Multiple roles not enabled for this environment.'
+        });
+      }
+      membership.role = { slug: slugs[0]! };
+      membership.roles = slugs.map(slug => ({ slug }));
+    }
+    membership.updated_at = new Date().toISOString();
+    return membership;
+  }
+
+  // --- Roles and permissions ---
+
+  private createRole(body: Json, organizationId?: string): FakeRole {
+    if (typeof body.slug !== 'string' || !body.slug) {
+      throw unprocessable('slug is required');
+    }
+    const clash = [...this.state.roles.values()].find(r =>
+      r.slug === body.slug && (r.organization_id ?? null) === (organizationId ?? null));
+    if (clash) {
+      throw new FakeApiError(409, { message: `A role with slug "${body.slug}" already exists.` });
+    }
+    return this.seedRole({
+      slug: body.slug,
+      name: body.name ?? body.slug,
+      description: body.description ?? null,
+      ...(organizationId ? { organization_id: organizationId } : {})
+    });
+  }
+
+  private setRolePermissions(slug: string, organizationId: string | undefined, body: Json): FakeRole {
+    const role = [...this.state.roles.values()].find(r =>
+      r.slug === slug && (r.organization_id ?? undefined) === organizationId);
+    if (!role) throw notFound('Role', slug);
+    const permissions: string[] = Array.isArray(body.permissions) ? body.permissions : [];
+    const unknown = permissions.filter(p => ![...this.state.permissions.values()].some(perm => perm.slug === p));
+    if (unknown.length > 0) {
+      throw unprocessable(`Unknown permissions: ${unknown.join(', ')}`);
+    }
+    role.permissions = permissions;
+    role.updated_at = new Date().toISOString();
+    return role;
+  }
+
+  private createPermission(body: Json): FakePermission {
+    if (typeof body.slug !== 'string' || !body.slug) {
+      throw unprocessable('slug is required');
+    }
+    if ([...this.state.permissions.values()].some(p => p.slug === body.slug)) {
+      throw new FakeApiError(409, { message: `A permission with slug "${body.slug}" already exists.` });
+    }
+    const now = new Date().toISOString();
+    const permission: FakePermission = {
+      object: 'permission',
+      id: this.nextId('perm'),
+      slug: body.slug,
+      name: body.name ?? body.slug,
+      description: body.description ?? null,
+      created_at: now,
+      updated_at: now
+    };
+    this.state.permissions.set(permission.id, permission);
+    return permission;
+  }
+
+  // --- Helpers ---
+
+  /**
+   * Cursor pagination in insertion order (limit, after, before)
+   */
+  private list<T extends { id: string }>(items: T[], query: URLSearchParams): Json {
+    const limit = Math.max(1, Math.min(100, Number(query.get('limit')) || PAGE_LIMIT_DEFAULT));
+    const after = query.get('after');
+    const before = query.get('before');
+
+    let start = 0;
+    let end = items.length;
+    if (after) start = items.findIndex(i => i.id === after) + 1;
+    if (before) end = Math.max(0, items.findIndex(i => i.id === before));
+
+    const page = before ? items.slice(Math.max(start, end - limit), end) : items.slice(start, start + limit);
+    const first = page[0];
+    const last = page[page.length - 1];
+    const firstIndex = first ? items.indexOf(first) : 0;
+    const lastIndex = last ? items.indexOf(last) : -1;
+
+    return {
+      object: 'list',
+      data: page.map(item => (item as any).object === 'user' ? publicUser(item as never) : item),
+      list_metadata: {
+        before: first && firstIndex > 0 ? first.id : null,
+        after: last && lastIndex < items.length - 1 ? last.id : null
+      }
+    };
+  }
+
+  private nextId(prefix: string): string {
+    this.sequence += 1;
+    return `${prefix}_fake${String(this.sequence).padStart(6, '0')}`;
+  }
+}
+
+/**
+ * Create and start a fake server
+ */
+export async function startFakeWorkOSServer(options: FakeWorkOSServerOptions = {}): Promise<FakeWorkOSServer> {
+  const server = new FakeWorkOSServer(options);
+  await server.start();
+  return server;
+}
+
+function emptyState(): FakeWorkOSState {
+  return {
+    users: new Map(),
+    organizations: new Map(),
+    memberships: new Map(),
+    roles: new Map(),
+    permissions: new Map(),
+    authFactors: new Map()
+  };
+}
+
+/** Path segments that are IDs rather than resource names */
+function isParam(parts: string[], index: number): boolean {
+  const prev = parts[index - 1];
+  const root = parts[0];
+  if (root === 'user_management') {
+    if (prev === 'users') return parts[index] !== 'external_id';
+    return prev === 'organization_memberships' || prev === 'external_id';
+  }
+  if (root === 'organizations') {
+    return (index === 1 && parts[1] !== 'external_id') || prev === 'external_id';
+  }
+  if (root === 'authorization') {
+    return prev === 'organizations' || prev === 'roles';
+  }
+  return false;
+}
+
+function publicUser(user: FakeUser): Omit<FakeUser, 'password_hash_type'> {
+  const { password_hash_type: _hashType, ...rest } = user;
+  return rest;
+}
+
+function publicRole(role: FakeRole): Omit<FakeRole, 'organization_id'> {
+  const { organization_id: _orgId, ...rest } = role;
+  return rest;
+}
+
+function ok(data: unknown, status = 200): { status: number; data: unknown } {
+  return { status, data };
+}
+
+function notFound(entity: string, id: string): FakeApiError {
+  return new FakeApiError(404, { code: 'entity_not_found', message: `${entity} not found: '${id}'.` });
+}
+
+function unprocessable(message: string, errors?: Json[]): FakeApiError {
+  return new FakeApiError(422, errors ? { code: 'invalid_request_parameters', message, errors } : { message });
+}
+
+function defaultFaultMessage(status: number): string {
+  if (status === 429) return 'Rate limit exceeded.';
+  if (status === 409) return 'Conflict.';
+  if (status >= 500) return 'Internal server error.';
+  return `Injected ${status} response.`;
+}
+
+async function readJson(req: http.IncomingMessage): Promise<Json> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  if (chunks.length === 0) return {};
+  const text = Buffer.concat(chunks).toString('utf8');
+  if (!text.trim()) return {};
+  try {
+    const parsed = JSON.parse(text);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    throw new FakeApiError(400, { message: 'Request body is not valid JSON' });
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * Worker threads under tsx
+ *
+ * WorkerCoordinator starts the compiled worker from dist/, and worker threads
+ * do not inherit tsx's loader. Tests point the coordinator at a small module
+ * that registers tsx and imports the TypeScript worker instead:
+ *
+ *   const coordinator = new WorkerCoordinator(options, logger);
+ *   (coordinator as any).workerPath = writeTsxWorkerEntry(TEMP_DIR);
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+
+const WORKER_SOURCE = path.join(path.dirname(fileURLToPath(import.meta.url)), '../workers/worker.ts');
+
+/**
+ * Write the worker entry module into `dir` (inside the project, so it
+ * resolves tsx from node_modules) and return its path
+ */
+export function writeTsxWorkerEntry(dir: string): string {
+  const entryPath = path.join(dir, 'tsx-worker.mjs');
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(entryPath, [
+    `import { register } from 'tsx/esm/api';`,
+    `register();`,
+    `await import(${JSON.stringify(pathToFileURL(WORKER_SOURCE).href)});`
+  ].join('\n'), 'utf8');
+  return entryPath;
+}
@@ -1,9 +1,9 @@
 import fs from "node:fs";
 import { parse } from "csv-parse";
 import { createInterface } from "node:readline";
-import { getWorkOSClient } from "./workos.js";
 import { createLogger } from "./logger.js";
-import { RateLimiter } from "./rateLimiter.js";
+import { AdaptiveRateLimiter } from "./rateLimiter.js";
+import { createWorkOSGateway, type WorkOSGateway } from "./workosGateway.js";
 
 export interface TotpCsvRow {
   email: string;
@@ -84,63 +84,24 @@ class Semaphore {
 async function retryEnrollAuthFactor(
   userId: string,
   totpSecret: string,
-  limiter: RateLimiter,
+  gateway: WorkOSGateway,
   totpIssuer?: string,
-  totpUser?: string,
-  maxRetries = 3,
-  baseDelayMs = 500
+  totpUser?: string
 ): Promise<void> {
-  const workos = getWorkOSClient();
-  let attempt = 0;
-  // eslint-disable-next-line no-constant-condition
-  while (true) {
-    try {
-      await limiter.acquire();
-      await workos.userManagement.enrollAuthFactor({
-        userId,
-        type: "totp",
-        totpSecret,
-        ...(totpIssuer ? { totpIssuer } : {}),
-        ...(totpUser ? { totpUser } : {}),
-      });
-      return;
-    } catch (err: unknown) {
-      const error = err as Record<string, unknown>;
-      const status: number | undefined =
-        (error?.status as number) ?? (error?.httpStatus as number) ?? (error?.response as Record<string, unknown>)?.status as number | undefined;
-      const message: string = (error?.message as string) || "Unknown error";
-      const isRateLimited = status === 429 || /rate.?limit/i.test(message);
-      attempt += 1;
-      if (isRateLimited && attempt <= maxRetries) {
-        const responseHeaders = (error?.response as Record<string, unknown>)?.headers as Record<string, string> | undefined;
-        const retryAfter = responseHeaders?.['retry-after'] ?? responseHeaders?.['Retry-After'];
-        let delay = baseDelayMs * Math.pow(2, attempt - 1);
-        if (retryAfter) {
-          const retryAfterSeconds = parseInt(retryAfter, 10);
-          if (!isNaN(retryAfterSeconds)) {
-            delay = retryAfterSeconds * 1000;
-          }
-        }
-        await new Promise(r => setTimeout(r, delay));
-        continue;
-      }
-      throw err;
-    }
-  }
+  await gateway.enrollTotpFactor({
+    userId,
+    totpSecret,
+    ...(totpIssuer ? { totpIssuer } : {}),
+    ...(totpUser ? { totpUser } : {}),
+  });
 }
 
 async function lookupUserByEmail(
   email: string,
-  limiter: RateLimiter
+  gateway: WorkOSGateway
 ): Promise<string | null> {
-  const workos = getWorkOSClient();
-  await limiter.acquire();
-  const users = await workos.userManagement.listUsers({ email });
-  const data = users.data;
-  if (data.length === 0) return null;
-  const first = data[0];
-  if (!first) return null;
-  return first.id;
+  const user = await gateway.findUserByEmail(email);
+  return user ? user.id : null;
 }
 
 async function loadTotpRecordsFromCsv(
@@ -223,7 +184,8 @@ export async function enrollTotpFactors(options: TotpEnrollOptions): Promise<{
   } = options;
 
   const logger = createLogger({ quiet });
-  const limiter = new RateLimiter(50);
+  const limiter = new AdaptiveRateLimiter();
+  const gateway = createWorkOSGateway({ limiter });
   const startedAt = Date.now();
   const errors: TotpErrorRecord[] = [];
   const warnings: string[] = [];
@@ -285,7 +247,7 @@ export async function enrollTotpFactors(options: TotpEnrollOptions): Promise<{
         // Look up user by email
         let userId: string | null = null;
         try {
-          userId = await lookupUserByEmail(record.email, limiter);
+          userId = await lookupUserByEmail(record.email, gateway);
         } catch (err: unknown) {
           const error = err as Record<string, unknown>;
           recordError({
@@ -326,7 +288,7 @@ export async function enrollTotpFactors(options: TotpEnrollOptions): Promise<{
           await retryEnrollAuthFactor(
             userId,
             record.totp_secret,
-            limiter,
+            gateway,
             totpIssuer || record.totp_issuer,
             record.totp_user || record.email,
           );
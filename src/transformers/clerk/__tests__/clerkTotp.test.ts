@@ -0,0 +1,123 @@
+/**
+ * Tests for Clerk TOTP secret handling (enrollment file, never metadata)
+ *
+ * Usage: npx tsx src/transformers/clerk/__tests__/clerkTotp.test.ts
+ */
+
+import { strict as assert } from 'node:assert';
+import { writeFileSync, mkdirSync, rmSync, readFileSync } from 'node:fs';
+import path from 'node:path';
+import { parse } from 'csv-parse/sync';
+import type { TotpCsvRow } from '../../../totpEnroller.js';
+
+const TEST_DIR = path.join(process.cwd(), '.temp-clerk-totp-tests');
+
+const CLERK_HEADER = 'id,first_name,last_name,primary_email_address,totp_secret,password_digest,password_hasher';
+
+function writeCsv(filename: string, content: string): string {
+  const filePath = path.join(TEST_DIR, filename);
+  writeFileSync(filePath, content, 'utf8');
+  return filePath;
+}
+
+async function runTests() {
+  mkdirSync(TEST_DIR, { recursive: true });
+  let passed = 0;
+  let failed = 0;
+
+  async function test(name: string, fn: () => Promise<void> | void) {
+    try {
+      await fn();
+      console.log(`  ✓ ${name}`);
+      passed++;
+    } catch (err: any) {
+      console.log(`  ✗ ${name}`);
+      console.log(`    ${err.message}`);
+      failed++;
+    }
+  }
+
+  console.log('Clerk TOTP tests\n');
+
+  const { mapClerkUserToWorkOS } = await import('../clerkMapper.js');
+  const { transformClerkExport } = await import('../clerkTransformer.js');
+
+  await test('mapper returns the TOTP secret as an enrollment record, not metadata', () => {
+    const result = mapClerkUserToWorkOS({
+      id: 'user_01',
+      primary_email_address: 'alice@example.com',
+      username: 'alice',
+      totp_secret: ' JBSWY3DPEHPK3PXP ',
+    } as never);
+
+    assert.deepStrictEqual(result.totp, { email: 'alice@example.com', totp_secret: 'JBSWY3DPEHPK3PXP' });
+    const metadata = JSON.parse(result.row.metadata as string);
+    assert.strictEqual(metadata.totp_secret, undefined);
+    assert.strictEqual(metadata.username, 'alice');
+  });
+
+  await test('mapper returns no enrollment record without a secret', () => {
+    const result = mapClerkUserToWorkOS({
+      id: 'user_02',
+      primary_email_address: 'bob@example.com',
+      totp_secret: '',
+    } as never);
+    assert.strictEqual(result.totp, undefined);
+  });
+
+  await test('transformClerkExport writes an enroll-totp CSV', async () => {
+    const clerkCsv = writeCsv('clerk-users.csv', [
+      CLERK_HEADER,
+      'user_01,Alice,Smith,alice@example.com,JBSWY3DPEHPK3PXP,,',
+      'user_02,Bob,Jones,bob@example.com,,,',
+      'user_03,Carol,King,carol@example.com,KRSXG5CTMVRXEZLU,,',
+    ].join('\n'));
+    const outputPath = path.join(TEST_DIR, 'output.csv');
+    const totpOutputPath = path.join(TEST_DIR, 'totp.csv');
+
+    const summary = await transformClerkExport({ clerkCsvPath: clerkCsv, outputPath, totpOutputPath, quiet: true });
+
+    assert.strictEqual(summary.usersWithTotp, 2);
+    assert.ok(!readFileSync(outputPath, 'utf8').includes('JBSWY3DPEHPK3PXP'), 'Secrets must not reach the user CSV');
+
+    const records = parse(readFileSync(totpOutputPath, 'utf8'), { columns: true }) as TotpCsvRow[];
+    assert.deepStrictEqual(records.map(r => `${r.email}:${r.totp_secret}`), [
+      'alice@example.com:JBSWY3DPEHPK3PXP',
+      'carol@example.com:KRSXG5CTMVRXEZLU',
+    ]);
+  });
+
+  await test('transformClerkExport writes a header-only TOTP file when nobody has TOTP', async () => {
+    const clerkCsv = writeCsv('clerk-no-totp.csv', [CLERK_HEADER, 'user_01,Alice,Smith,alice@example.com,,,'].join('\n'));
+    const totpOutputPath = path.join(TEST_DIR, 'totp-empty.csv');
+
+    const summary = await transformClerkExport({
+      clerkCsvPath: clerkCsv,
+      outputPath: path.join(TEST_DIR, 'output-no-totp.csv'),
+      totpOutputPath,
+      quiet: true,
+    });
+
+    assert.strictEqual(summary.usersWithTotp, 0);
+    assert.strictEqual(readFileSync(totpOutputPath, 'utf8').trim(), 'email,totp_secret');
+  });
+
+  await test('transformClerkExport drops secrets and reports them without a TOTP output path', async () => {
+    const clerkCsv = writeCsv('clerk-drop.csv', [CLERK_HEADER, 'user_01,Alice,Smith,alice@example.com,JBSWY3DPEHPK3PXP,,'].join('\n'));
+    const outputPath = path.join(TEST_DIR, 'output-drop.csv');
+
+    const summary = await transformClerkExport({ clerkCsvPath: clerkCsv, outputPath, quiet: true });
+
+    assert.strictEqual(summary.usersWithTotp, 0);
+    assert.strictEqual(summary.skippedReasons['TOTP secret dropped (no TOTP output file)'], 1);
+    assert.ok(!readFileSync(outputPath, 'utf8').includes('JBSWY3DPEHPK3PXP'));
+  });
+
+  rmSync(TEST_DIR, { recursive: true, force: true });
+
+  // Summary
+  console.log(`\n${passed} passed, ${failed} failed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+runTests();
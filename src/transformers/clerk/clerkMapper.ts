@@ -4,6 +4,8 @@
  */
 
 import type { CSVRow } from '../../types.js';
+import { convertPasswordHash } from '../../passwords/registry.js';
+import type { TotpCsvRow } from '../../totpEnroller.js';
 
 /** Raw row from Clerk CSV export */
 export interface ClerkUserRow {
@@ -29,12 +31,15 @@ export interface OrgMappingRow {
   org_id?: string;
   org_external_id?: string;
   org_name?: string;
+  org_domains?: string;
   [key: string]: string | undefined;
 }
 
 /** Result of mapping a single Clerk user */
 export interface ClerkMappingResult {
   row: CSVRow;
+  /** TOTP enrollment record (secrets never go into user metadata) */
+  totp?: TotpCsvRow;
   warnings: string[];
   skipped: boolean;
   skipReason?: string;
@@ -64,7 +69,7 @@ export function mapClerkUserToWorkOS(
     };
   }
 
-  // Map password hash (bcrypt only)
+  // Map password hash (Clerk's password_hasher names the algorithm)
   let passwordHash: string | undefined;
   let passwordHashType: string | undefined;
 
@@ -72,12 +77,13 @@ export function mapClerkUserToWorkOS(
   const digest = clerkRow.password_digest?.trim();
 
   if (digest && hasher) {
-    if (hasher === 'bcrypt') {
-      passwordHash = digest;
-      passwordHashType = 'bcrypt';
-    } else {
+    try {
+      const converted = convertPasswordHash(digest, hasher);
+      passwordHash = converted.passwordHash;
+      passwordHashType = converted.passwordHashType;
+    } catch (err: any) {
       warnings.push(
-        `Unsupported password hasher "${clerkRow.password_hasher}" for user ${clerkRow.id} — password will not be migrated`
+        `Cannot migrate password for user ${clerkRow.id} (hasher "${clerkRow.password_hasher}"): ${err.message} — password will not be migrated`
       );
     }
   }
@@ -102,13 +108,19 @@ export function mapClerkUserToWorkOS(
     applyOrgMapping(csvRow, orgMapping);
   }
 
-  return { row: csvRow, warnings, skipped: false };
+  const totpSecret = clerkRow.totp_secret?.trim();
+  const totp: TotpCsvRow | undefined = totpSecret
+    ? { email, totp_secret: totpSecret }
+    : undefined;
+
+  return { row: csvRow, totp, warnings, skipped: false };
 }
 
 /**
  * Build metadata JSON from extra Clerk fields
  * Collects fields that don't have a direct WorkOS equivalent into metadata.
- * Filters out empty values.
+ * Filters out empty values. The TOTP secret is deliberately excluded — it is
+ * returned as a separate enrollment record instead.
  */
 function buildClerkMetadata(clerkRow: ClerkUserRow): Record<string, string> {
   const metadata: Record<string, string> = {};
@@ -142,11 +154,6 @@ function buildClerkMetadata(clerkRow: ClerkUserRow): Record<string, string> {
     metadata.unverified_email_addresses = clerkRow.unverified_email_addresses.trim();
   }
 
-  // TOTP secret
-  if (clerkRow.totp_secret?.trim()) {
-    metadata.totp_secret = clerkRow.totp_secret.trim();
-  }
-
   return metadata;
 }
 
@@ -154,6 +161,7 @@ function buildClerkMetadata(clerkRow: ClerkUserRow): Record<string, string> {
  * Apply org mapping to a CSV row
  * When org_id is present, only org_id is used (org already exists in WorkOS).
  * When org_id is absent, pass through org_external_id and/or org_name.
+ * org_domains is passed through either way (domains are added to existing orgs).
  */
 function applyOrgMapping(csvRow: CSVRow, orgMapping: OrgMappingRow): void {
   const orgId = orgMapping.org_id?.trim();
@@ -172,4 +180,9 @@ function applyOrgMapping(csvRow: CSVRow, orgMapping: OrgMappingRow): void {
       csvRow.org_name = orgName;
     }
   }
+
+  const orgDomains = orgMapping.org_domains?.trim();
+  if (orgDomains) {
+    csvRow.org_domains = orgDomains;
+  }
 }
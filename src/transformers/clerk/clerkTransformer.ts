@@ -8,6 +8,8 @@
  * - Org mapping CSV is loaded eagerly into a Map (small, fits in memory)
  * - Clerk user CSV is streamed row-by-row for memory efficiency
  * - Output CSV is written via csv-stringify streaming
+ * - TOTP secrets are written to a separate enrollment CSV (email,totp_secret)
+ *   for enroll-totp; they never reach user metadata
  */
 
 import { createReadStream, createWriteStream, existsSync } from 'node:fs';
@@ -22,6 +24,8 @@ export interface TransformOptions {
   orgMappingPath?: string;
   roleMappingPath?: string;
   skippedUsersPath?: string;
+  /** Where to write TOTP secrets for enroll-totp; secrets are dropped if omitted */
+  totpOutputPath?: string;
   quiet?: boolean;
 }
 
@@ -34,6 +38,7 @@ export interface TransformSummary {
   usersWithOrgMapping: number;
   usersWithoutOrgMapping: number;
   usersWithRoleMapping: number;
+  usersWithTotp: number;
   skippedReasons: Record<string, number>;
 }
 
@@ -108,6 +113,7 @@ export async function loadOrgMapping(
           org_id: row.org_id?.trim() || undefined,
           org_external_id: row.org_external_id?.trim() || undefined,
           org_name: row.org_name?.trim() || undefined,
+          org_domains: row.org_domains?.trim() || undefined,
         });
       })
       .on('end', () => {
@@ -219,7 +225,7 @@ function detectOrgMappingMode(headers: string[]): string {
 export async function transformClerkExport(
   options: TransformOptions
 ): Promise<TransformSummary> {
-  const { clerkCsvPath, outputPath, orgMappingPath, roleMappingPath, skippedUsersPath, quiet } = options;
+  const { clerkCsvPath, outputPath, orgMappingPath, roleMappingPath, skippedUsersPath, totpOutputPath, quiet } = options;
 
   // Validate Clerk CSV exists
   if (!existsSync(clerkCsvPath)) {
@@ -263,6 +269,7 @@ export async function transformClerkExport(
     usersWithOrgMapping: 0,
     usersWithoutOrgMapping: 0,
     usersWithRoleMapping: 0,
+    usersWithTotp: 0,
     skippedReasons: {},
   };
 
@@ -290,6 +297,23 @@ export async function transformClerkExport(
       columns: outputColumns,
     });
 
+    // TOTP enrollment file in the format enroll-totp reads (TotpCsvRow)
+    const totpStringifier = totpOutputPath
+      ? stringify({ header: true, columns: ['email', 'totp_secret'] })
+      : null;
+
+    // Resolve once both the user CSV and the TOTP CSV are flushed
+    let pendingOutputs = totpStringifier ? 2 : 1;
+    const outputFinished = () => {
+      pendingOutputs--;
+      if (pendingOutputs > 0) return;
+      if (summary.totalUsers === 0) {
+        reject(new Error('No users found in Clerk CSV'));
+        return;
+      }
+      resolve(summary);
+    };
+
     inputStream
       .pipe(parser)
       .on('data', (row: ClerkUserRow) => {
@@ -343,11 +367,22 @@ export async function transformClerkExport(
           return;
         }
 
-        // Track warnings (non-bcrypt passwords still transform the user, just skip password)
+        // Track warnings (unconvertible passwords still transform the user, just skip password)
         for (const warning of result.warnings) {
-          if (warning.includes('Unsupported password hasher')) {
+          if (warning.includes('Cannot migrate password')) {
             // Still count in skipped reasons for reporting
-            const reason = 'non-bcrypt password (user still imported, password skipped)';
+            const reason = 'unsupported password hash (user still imported, password skipped)';
+            summary.skippedReasons[reason] = (summary.skippedReasons[reason] || 0) + 1;
+          }
+        }
+
+        // Route TOTP secrets to the enrollment file
+        if (result.totp) {
+          if (totpStringifier) {
+            totpStringifier.write(result.totp);
+            summary.usersWithTotp++;
+          } else {
+            const reason = 'TOTP secret dropped (no TOTP output file)';
             summary.skippedReasons[reason] = (summary.skippedReasons[reason] || 0) + 1;
           }
         }
@@ -386,6 +421,7 @@ export async function transformClerkExport(
       })
       .on('end', () => {
         stringifier.end();
+        totpStringifier?.end();
         if (!quiet && summary.totalUsers >= 1000) {
           process.stdout.write('\n');
         }
@@ -400,16 +436,19 @@ export async function transformClerkExport(
 
     stringifier
       .pipe(outputStream)
-      .on('finish', () => {
-        if (summary.totalUsers === 0) {
-          reject(new Error('No users found in Clerk CSV'));
-          return;
-        }
-        resolve(summary);
-      })
+      .on('finish', outputFinished)
       .on('error', (error) => {
         reject(error);
       });
+
+    if (totpStringifier) {
+      totpStringifier
+        .pipe(createWriteStream(totpOutputPath!, { mode: 0o600 }))
+        .on('finish', outputFinished)
+        .on('error', (error) => {
+          reject(error);
+        });
+    }
   });
 }
 
@@ -440,6 +479,10 @@ function buildOutputColumns(
       if (firstEntry.org_external_id !== undefined) columns.push('org_external_id');
       if (firstEntry.org_name !== undefined) columns.push('org_name');
     }
+    // Domains are usually listed on only some rows (e.g. one per org)
+    if ([...orgMapping.values()].some(entry => entry.org_domains !== undefined)) {
+      columns.push('org_domains');
+    }
   }
 
   // Add role_slugs column if role mapping is provided
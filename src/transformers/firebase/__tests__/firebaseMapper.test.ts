@@ -22,7 +22,8 @@ async function runTests() {
     }
   }
 
-  const { mapFirebaseUserToWorkOS, splitDisplayName } = await import('../firebaseMapper.js');
+  const { mapFirebaseUserToWorkOS, splitDisplayName, describeFirebaseSignIn, PASSWORDLESS_SKIP_REASON } =
+    await import('../firebaseMapper.js');
 
   // --- splitDisplayName tests ---
   console.log('splitDisplayName:\n');
@@ -127,6 +128,20 @@ async function runTests() {
     assert.strictEqual(result.skipReason, 'Missing email address');
   });
 
+  await test('skips phone-only users with a passwordless reason', () => {
+    const result = mapFirebaseUserToWorkOS(
+      {
+        localId: 'uid_phone',
+        phoneNumber: '+15555550100',
+        providerUserInfo: [{ providerId: 'phone', rawId: '+15555550100' }],
+      },
+      defaultOptions
+    );
+
+    assert.strictEqual(result.skipped, true);
+    assert.strictEqual(result.skipReason, PASSWORDLESS_SKIP_REASON);
+  });
+
   await test('skips disabled users by default', () => {
     const result = mapFirebaseUserToWorkOS(
       { localId: 'uid_disabled', email: 'disabled@test.com', disabled: true },
@@ -326,6 +341,54 @@ async function runTests() {
     assert.strictEqual(result.row.last_name, undefined);
   });
 
+  // --- describeFirebaseSignIn tests ---
+  console.log('\ndescribeFirebaseSignIn:\n');
+
+  await test('classifies phone and TOTP second factors', () => {
+    const profile = describeFirebaseSignIn({
+      localId: 'uid_01',
+      email: 'test@example.com',
+      passwordHash: 'hash==',
+      mfaInfo: [
+        { mfaEnrollmentId: 'mfa_1', displayName: 'Work phone', phoneInfo: '+1 555-555-0199', enrolledAt: '2024-01-01T00:00:00Z' },
+        { mfaEnrollmentId: 'mfa_2', totpInfo: {} },
+      ],
+    });
+
+    assert.strictEqual(profile.hasPassword, true);
+    assert.deepStrictEqual(profile.secondFactors.map(f => f.type), ['phone', 'totp']);
+    assert.strictEqual(profile.secondFactors[0]?.phoneHint, '*******0199');
+  });
+
+  await test('detects social-only users', () => {
+    const profile = describeFirebaseSignIn({
+      localId: 'uid_01',
+      email: 'test@example.com',
+      providerUserInfo: [
+        { providerId: 'google.com', rawId: 'g1' },
+        { providerId: 'apple.com', rawId: 'a1' },
+      ],
+    });
+
+    assert.deepStrictEqual(profile.providers, ['google.com', 'apple.com']);
+    assert.strictEqual(profile.socialOnly, true);
+    assert.strictEqual(profile.phoneOnly, false);
+  });
+
+  await test('users with a password are not social-only', () => {
+    const profile = describeFirebaseSignIn({
+      localId: 'uid_01',
+      email: 'test@example.com',
+      providerUserInfo: [
+        { providerId: 'password', rawId: 'test@example.com' },
+        { providerId: 'google.com', rawId: 'g1' },
+      ],
+    });
+
+    assert.strictEqual(profile.socialOnly, false);
+    assert.deepStrictEqual(profile.secondFactors, []);
+  });
+
   // Summary
   console.log(`\n${passed} passed, ${failed} failed`);
   if (failed > 0) {
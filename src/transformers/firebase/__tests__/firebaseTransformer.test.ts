@@ -341,6 +341,60 @@ uid_02,viewer`
     assert.ok(output.includes('viewer'));
   });
 
+  await test('writes auth report grouped by sign-in category', async () => {
+    const jsonPath = writeJson('auth-report.json', {
+      users: [
+        { localId: 'uid_pw', email: 'pw@test.com', passwordHash: 'hash==', salt: 'salt==' },
+        {
+          localId: 'uid_sms',
+          email: 'sms@test.com',
+          passwordHash: 'hash==',
+          mfaInfo: [{ mfaEnrollmentId: 'mfa_1', phoneInfo: '+15555550101' }],
+        },
+        {
+          localId: 'uid_totp',
+          email: 'totp@test.com',
+          passwordHash: 'hash==',
+          mfaInfo: [{ mfaEnrollmentId: 'mfa_2', totpInfo: {} }],
+        },
+        { localId: 'uid_google', email: 'g@test.com', providerUserInfo: [{ providerId: 'google.com', rawId: 'g1' }] },
+        { localId: 'uid_apple', email: 'a@test.com', providerUserInfo: [{ providerId: 'apple.com', rawId: 'a1' }] },
+        { localId: 'uid_phone', phoneNumber: '+15555550102', providerUserInfo: [{ providerId: 'phone', rawId: '+15555550102' }] },
+        { localId: 'uid_disabled', email: 'd@test.com', disabled: true, providerUserInfo: [{ providerId: 'google.com', rawId: 'g2' }] },
+      ],
+    });
+    const outputPath = path.join(TEST_DIR, 'auth-report-output.csv');
+    const authReportPath = path.join(TEST_DIR, 'auth-report-out.json');
+
+    const summary = await transformFirebaseExport({
+      firebaseJsonPath: jsonPath,
+      outputPath,
+      nameSplitStrategy: 'first-space',
+      authReportPath,
+      quiet: true,
+    });
+
+    assert.strictEqual(summary.transformedUsers, 5);
+    assert.strictEqual(summary.usersWithPhoneMfa, 1);
+    assert.strictEqual(summary.usersWithTotpMfa, 1);
+    assert.strictEqual(summary.socialOnlyUsers, 2);
+    assert.strictEqual(summary.passwordlessUsersSkipped, 1);
+    assert.strictEqual(summary.skippedReasons['Passwordless phone sign-in (no email address)'], 1);
+
+    const report = JSON.parse(readFileSync(authReportPath, 'utf8'));
+    assert.strictEqual(report.totalUsers, 7);
+    assert.strictEqual(report.usersWithSecondFactor, 2);
+    assert.deepStrictEqual(report.providerCounts, { 'google.com': 1, 'apple.com': 1 });
+    assert.deepStrictEqual(
+      report.categories.map((c: any) => `${c.category}:${c.users.map((u: any) => u.firebase_uid).join('|')}`),
+      ['phone_mfa:uid_sms', 'totp_mfa:uid_totp', 'social_only:uid_google|uid_apple', 'passwordless:uid_phone']
+    );
+    for (const category of report.categories) {
+      assert.ok(category.recommendedRemediation, `${category.category} has a remediation`);
+    }
+    assert.ok(!readFileSync(authReportPath, 'utf8').includes('+15555550101'), 'Phone numbers are masked');
+  });
+
   await test('handles empty users array gracefully', async () => {
     const jsonPath = writeJson('empty.json', { users: [] });
     const outputPath = path.join(TEST_DIR, 'empty-output.csv');
@@ -0,0 +1,144 @@
+/**
+ * Firebase sign-in method report
+ *
+ * Collects users whose Firebase sign-in setup cannot be carried over to WorkOS
+ * as-is (second factors, social-only accounts, passwordless phone accounts) and
+ * groups them by category with a recommended remediation for each.
+ */
+
+import type { FirebaseSecondFactor, FirebaseSignInProfile, FirebaseUserRecord } from './firebaseMapper.js';
+
+export type FirebaseAuthCategory = 'phone_mfa' | 'totp_mfa' | 'social_only' | 'passwordless';
+
+/** User entry in a report category */
+export interface FirebaseAuthReportUser {
+  firebase_uid: string;
+  email?: string;
+  providers: string[];
+  second_factors?: FirebaseSecondFactor[];
+  skipped?: boolean;
+}
+
+export interface FirebaseAuthReportCategory {
+  category: FirebaseAuthCategory;
+  description: string;
+  recommendedRemediation: string;
+  count: number;
+  users: FirebaseAuthReportUser[];
+}
+
+export interface FirebaseAuthReport {
+  generatedAt: string;
+  source: string;
+  totalUsers: number;
+  usersWithSecondFactor: number;
+  providerCounts: Record<string, number>;   // Social/federated provider ID -> social-only users
+  categories: FirebaseAuthReportCategory[];
+}
+
+const CATEGORY_GUIDANCE: Record<FirebaseAuthCategory, { description: string; recommendedRemediation: string }> = {
+  phone_mfa: {
+    description: 'Users with an SMS (phone) second factor',
+    recommendedRemediation:
+      'SMS second factors cannot be imported. Enable MFA in WorkOS and ask these users to enroll an ' +
+      'authenticator app on their next sign-in; notify them before cut-over.',
+  },
+  totp_mfa: {
+    description: 'Users with a TOTP authenticator app second factor',
+    recommendedRemediation:
+      'Firebase exports do not include TOTP secrets. Enable MFA in WorkOS and ask these users to ' +
+      're-enroll their authenticator app on their next sign-in.',
+  },
+  social_only: {
+    description: 'Users who sign in only through a social or federated provider',
+    recommendedRemediation:
+      'These users have no password to migrate. Configure the matching social connection (or SSO ' +
+      'connection for saml./oidc. providers) in WorkOS; users are linked to their imported account by email.',
+  },
+  passwordless: {
+    description: 'Users who sign in only with a phone number and have no email address',
+    recommendedRemediation:
+      'WorkOS users require an email address, so these users were skipped. Collect an email address ' +
+      'from them and re-export, or migrate them to email-based sign-in before cut-over.',
+  },
+};
+
+const CATEGORY_ORDER: FirebaseAuthCategory[] = ['phone_mfa', 'totp_mfa', 'social_only', 'passwordless'];
+
+/**
+ * Accumulates users into report categories during a Firebase transform
+ */
+export class FirebaseAuthReportBuilder {
+  private readonly users = new Map<FirebaseAuthCategory, FirebaseAuthReportUser[]>();
+  private readonly providerCounts: Record<string, number> = {};
+  private totalUsers = 0;
+  private usersWithSecondFactor = 0;
+
+  constructor(private readonly source: string) {}
+
+  /**
+   * Record a user. Skipped users are only reported in the passwordless category.
+   */
+  add(user: FirebaseUserRecord, profile: FirebaseSignInProfile, skipped: boolean): void {
+    this.totalUsers++;
+
+    const entry: FirebaseAuthReportUser = {
+      firebase_uid: user.localId,
+      email: user.email?.trim() || undefined,
+      providers: profile.providers,
+    };
+
+    if (skipped) {
+      if (profile.phoneOnly && !entry.email) {
+        this.push('passwordless', { ...entry, skipped: true });
+      }
+      return;
+    }
+
+    if (profile.secondFactors.length > 0) {
+      this.usersWithSecondFactor++;
+      const withFactors = { ...entry, second_factors: profile.secondFactors };
+      if (profile.secondFactors.some(f => f.type === 'phone')) this.push('phone_mfa', withFactors);
+      if (profile.secondFactors.some(f => f.type === 'totp')) this.push('totp_mfa', withFactors);
+    }
+
+    if (profile.socialOnly) {
+      this.push('social_only', entry);
+      for (const provider of profile.providers) {
+        this.providerCounts[provider] = (this.providerCounts[provider] || 0) + 1;
+      }
+    }
+  }
+
+  /** Number of users recorded in a category */
+  count(category: FirebaseAuthCategory): number {
+    return this.users.get(category)?.length ?? 0;
+  }
+
+  build(): FirebaseAuthReport {
+    return {
+      generatedAt: new Date().toISOString(),
+      source: this.source,
+      totalUsers: this.totalUsers,
+      usersWithSecondFactor: this.usersWithSecondFactor,
+      providerCounts: { ...this.providerCounts },
+      categories: CATEGORY_ORDER
+        .filter(category => this.count(category) > 0)
+        .map(category => ({
+          category,
+          ...CATEGORY_GUIDANCE[category],
+          count: this.count(category),
+          users: this.users.get(category)!,
+        })),
+    };
+  }
+
+  private push(category: FirebaseAuthCategory, entry: FirebaseAuthReportUser): void {
+    const list = this.users.get(category);
+    if (list) {
+      list.push(entry);
+    } else {
+      this.users.set(category, [entry]);
+    }
+  }
+}
@@ -4,7 +4,8 @@
  */
 
 import type { CSVRow } from '../../types.js';
-import { encodeFirebaseScryptPHC, type FirebaseScryptParams } from './phcEncoder.js';
+import { encodeFirebaseScryptPHC, type FirebaseScryptParams } from '../../passwords/algorithms/firebaseScrypt.js';
+import { validatePasswordHash } from '../../passwords/registry.js';
 
 /** Firebase Auth user record from JSON export */
 export interface FirebaseUserRecord {
@@ -31,10 +32,28 @@ export interface FirebaseUserRecord {
     mfaEnrollmentId: string;
     displayName?: string;
     phoneInfo?: string;
+    totpInfo?: Record<string, unknown>;
     enrolledAt?: string;
   }>;
 }
 
+/** Second factor enrolled on a Firebase account */
+export interface FirebaseSecondFactor {
+  type: 'phone' | 'totp' | 'unknown';
+  displayName?: string;
+  phoneHint?: string;     // Masked phone number, e.g. "*******4567"
+  enrolledAt?: string;
+}
+
+/** How a Firebase user signs in */
+export interface FirebaseSignInProfile {
+  providers: string[];    // providerUserInfo provider IDs, e.g. ["password", "google.com"]
+  hasPassword: boolean;
+  socialOnly: boolean;    // Signs in only through social/federated providers
+  phoneOnly: boolean;     // Signs in only with an SMS code
+  secondFactors: FirebaseSecondFactor[];
+}
+
 /** Name splitting strategy */
 export type NameSplitStrategy = 'first-space' | 'last-space' | 'first-name-only';
 
@@ -99,6 +118,42 @@ export function splitDisplayName(
   }
 }
 
+/** Skip reason for users who sign in with a phone number and have no email */
+export const PASSWORDLESS_SKIP_REASON = 'Passwordless phone sign-in (no email address)';
+
+/** Firebase provider IDs that are not federated sign-in methods */
+const FIRST_PARTY_PROVIDERS = new Set(['password', 'phone', 'emailLink']);
+
+function maskPhoneNumber(phone: string): string {
+  const digits = phone.replace(/\D/g, '');
+  return digits.length <= 4 ? '****' : `${'*'.repeat(digits.length - 4)}${digits.slice(-4)}`;
+}
+
+/**
+ * Describe a Firebase user's sign-in methods and enrolled second factors
+ */
+export function describeFirebaseSignIn(user: FirebaseUserRecord): FirebaseSignInProfile {
+  const providers = [...new Set((user.providerUserInfo ?? []).map(p => p.providerId).filter(Boolean))];
+  const hasPassword = Boolean(user.passwordHash) || providers.includes('password');
+  const federated = providers.filter(p => !FIRST_PARTY_PROVIDERS.has(p));
+  const hasPhoneSignIn = providers.includes('phone') || (providers.length === 0 && Boolean(user.phoneNumber?.trim()));
+
+  const secondFactors: FirebaseSecondFactor[] = (user.mfaInfo ?? []).map(factor => ({
+    type: factor.phoneInfo ? 'phone' : factor.totpInfo ? 'totp' : 'unknown',
+    displayName: factor.displayName,
+    phoneHint: factor.phoneInfo ? maskPhoneNumber(factor.phoneInfo) : undefined,
+    enrolledAt: factor.enrolledAt,
+  }));
+
+  return {
+    providers,
+    hasPassword,
+    socialOnly: !hasPassword && federated.length > 0 && federated.length === providers.length,
+    phoneOnly: !hasPassword && federated.length === 0 && hasPhoneSignIn,
+    secondFactors,
+  };
+}
+
 /**
  * Convert millisecond epoch string to ISO 8601 date string.
  */
@@ -125,7 +180,7 @@ export function mapFirebaseUserToWorkOS(
       row: {} as CSVRow,
       warnings: [],
       skipped: true,
-      skipReason: 'Missing email address',
+      skipReason: describeFirebaseSignIn(user).phoneOnly ? PASSWORDLESS_SKIP_REASON : 'Missing email address',
     };
   }
 
@@ -148,11 +203,19 @@ export function mapFirebaseUserToWorkOS(
 
   if (user.passwordHash && user.salt) {
     if (options.scryptParams) {
-      passwordHash = encodeFirebaseScryptPHC(
+      const encoded = encodeFirebaseScryptPHC(
         { passwordHash: user.passwordHash, salt: user.salt },
         options.scryptParams
       );
-      passwordHashType = 'firebase-scrypt';
+      const problems = validatePasswordHash(encoded, 'firebase-scrypt');
+      if (problems.length === 0) {
+        passwordHash = encoded;
+        passwordHashType = 'firebase-scrypt';
+      } else {
+        warnings.push(
+          `Invalid password hash for user ${user.localId} (${problems.join('; ')}) — password will not be migrated`
+        );
+      }
     } else {
       warnings.push(
         `No scrypt parameters provided for user ${user.localId} — password will not be migrated`
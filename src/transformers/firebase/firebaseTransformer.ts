@@ -9,14 +9,17 @@
  * - Org mapping CSV is loaded eagerly into a Map (small, fits in memory)
  * - Role mapping CSV is loaded eagerly into a Map
  * - Output CSV is written via csv-stringify streaming
+ * - Sign-in methods (MFA, social-only, passwordless) are collected into an
+ *   optional JSON auth report
  */
 
-import { readFileSync, createReadStream, createWriteStream, existsSync } from 'node:fs';
+import { readFileSync, writeFileSync, createReadStream, createWriteStream, existsSync } from 'node:fs';
 import { parse } from 'csv-parse';
 import { stringify } from 'csv-stringify';
 import type { FirebaseUserRecord, FirebaseOrgMappingRow, NameSplitStrategy } from './firebaseMapper.js';
-import { mapFirebaseUserToWorkOS } from './firebaseMapper.js';
-import type { FirebaseScryptParams } from './phcEncoder.js';
+import { mapFirebaseUserToWorkOS, describeFirebaseSignIn } from './firebaseMapper.js';
+import { FirebaseAuthReportBuilder } from './firebaseAuthReport.js';
+import type { FirebaseScryptParams } from '../../passwords/algorithms/firebaseScrypt.js';
 
 export interface FirebaseTransformOptions {
   firebaseJsonPath: string;
@@ -27,6 +30,7 @@ export interface FirebaseTransformOptions {
   orgMappingPath?: string;
   roleMappingPath?: string;
   skippedUsersPath?: string;
+  authReportPath?: string;
   quiet?: boolean;
 }
 
@@ -40,6 +44,10 @@ export interface TransformSummary {
   usersWithoutOrgMapping: number;
   usersWithRoleMapping: number;
   disabledUsersSkipped: number;
+  usersWithPhoneMfa: number;
+  usersWithTotpMfa: number;
+  socialOnlyUsers: number;
+  passwordlessUsersSkipped: number;
   skippedReasons: Record<string, number>;
 }
 
@@ -257,6 +265,7 @@ export async function transformFirebaseExport(
     orgMappingPath,
     roleMappingPath,
     skippedUsersPath,
+    authReportPath,
     quiet,
   } = options;
 
@@ -312,9 +321,15 @@ export async function transformFirebaseExport(
     usersWithoutOrgMapping: 0,
     usersWithRoleMapping: 0,
     disabledUsersSkipped: 0,
+    usersWithPhoneMfa: 0,
+    usersWithTotpMfa: 0,
+    socialOnlyUsers: 0,
+    passwordlessUsersSkipped: 0,
     skippedReasons: {},
   };
 
+  const authReport = new FirebaseAuthReportBuilder(firebaseJsonPath);
+
   // Set up skipped users output
   let skippedStream: import('node:fs').WriteStream | null = null;
   if (skippedUsersPath) {
@@ -335,6 +350,18 @@ export async function transformFirebaseExport(
         if (summary.totalUsers === 0) {
           // Empty users array is valid, just no output
         }
+        summary.usersWithPhoneMfa = authReport.count('phone_mfa');
+        summary.usersWithTotpMfa = authReport.count('totp_mfa');
+        summary.socialOnlyUsers = authReport.count('social_only');
+        summary.passwordlessUsersSkipped = authReport.count('passwordless');
+        if (authReportPath) {
+          try {
+            writeFileSync(authReportPath, JSON.stringify(authReport.build(), null, 2) + '\n', 'utf8');
+          } catch (err) {
+            reject(err);
+            return;
+          }
+        }
         resolve(summary);
       })
       .on('error', reject);
@@ -354,6 +381,7 @@ export async function transformFirebaseExport(
         : undefined;
 
       const result = mapFirebaseUserToWorkOS(user, mapperOptions, userOrgMapping);
+      authReport.add(user, describeFirebaseSignIn(user), result.skipped);
 
       if (result.skipped) {
         summary.skippedUsers++;
@@ -7,13 +7,16 @@ export type CSVRow = {
   last_name?: string;
   email_verified?: string | boolean;
   external_id?: string;
-  metadata?: string;
+  metadata?: string | Record<string, unknown>;  // JSON string (CSV) or object (JSONL)
   // Organization fields (multi-org mode)
   org_id?: string;
   org_external_id?: string;
   org_name?: string;
+  org_domains?: string | unknown[];  // "acme.com:verified,acme.io" (CSV) or array (JSONL)
   // Role assignment (populated from role mapping CSV or directly in CSV)
-  role_slugs?: string;  // Comma-separated role slugs or JSON array
+  role_slugs?: string | string[];  // Comma-separated role slugs, JSON array string or array (JSONL)
+  // Delta sync action (create, update or delete); blank means create
+  action?: string;
   // Allow unknowns; they will be ignored with a once-only warning
   [key: string]: unknown;
 };
@@ -30,11 +33,17 @@ export type CreateUserPayload = {
   metadata?: Record<string, unknown>;
 };
 
+/** How to handle rows whose email already belongs to a WorkOS user */
+export type OnConflictMode = "fail" | "skip" | "update";
+
+/** Per-row action from a delta CSV (see workos-delta) */
+export type RowAction = "create" | "update" | "delete";
+
 export type ErrorRecord = {
   recordNumber: number;
   email?: string;
   userId?: string;
-  errorType?: "user_create" | "membership_create" | "org_resolution" | "role_assignment";
+  errorType?: "user_create" | "user_update" | "user_delete" | "membership_create" | "org_resolution" | "role_assignment";
   errorMessage: string;
   timestamp: string;
   rawRow?: Record<string, unknown>;
@@ -55,6 +64,9 @@ export type ImportSummary = {
   failures: number;
   membershipsCreated: number;
   usersCreated: number;  // Track users created (vs memberships)
+  usersUpdated: number;  // Existing users patched (--on-conflict update)
+  usersSkipped: number;  // Existing users left untouched (--on-conflict skip)
+  usersDeleted: number;  // Users removed by delta rows with action=delete
   duplicateUsers: number;  // Track duplicate emails (user already exists)
   duplicateMemberships: number;  // Track duplicate memberships (already exists)
   startedAt: number;
@@ -74,6 +86,20 @@ export type ImportSummary = {
     totalChunks: number;
     percentComplete: number;
   };
+  // Chunks marked 'failed' after exhausting their retries (chunked mode only)
+  failedChunks?: Array<{
+    chunkId: number;
+    startRow: number;
+    endRow: number;
+    attempts: number;
+    error?: string;
+  }>;
+  // Adaptive rate limiter state at the end of the run
+  rateLimit?: {
+    currentRate: number;  // requests/sec
+    lowestRate: number;   // requests/sec
+    throttles: number;    // 429 responses seen
+  };
 };
 
 // Phase 3: Checkpoint types (re-export from checkpoint/types.ts)
@@ -83,5 +109,6 @@ export type {
   SerializedCacheEntry,
   CreateCheckpointOptions,
   ChunkSummary,
-  ProgressStats
+  ProgressStats,
+  RowLedgerEntry
 } from './checkpoint/types.js';
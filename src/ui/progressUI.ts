@@ -5,6 +5,7 @@
 
 import cliProgress from 'cli-progress';
 import chalk from 'chalk';
+import type { ImportSummary } from '../types.js';
 
 export interface ProgressStats {
   totalUsers: number;
@@ -15,6 +16,7 @@ export interface ProgressStats {
   duration: number;
   throughput: number;
   membershipsCreated?: number;
+  failedChunks?: ImportSummary['failedChunks'];
 }
 
 export interface WorkerProgress {
@@ -135,16 +137,17 @@ export class ProgressUI {
     console.log('═'.repeat(60) + '\n');
 
     // Status indicator
-    const statusText = stats.failed === 0 && stats.imported > 0
+    const hasErrors = stats.failed > 0 || Boolean(stats.failedChunks?.length);
+    const statusText = !hasErrors && stats.imported > 0
       ? 'Success'
-      : stats.failed > 0 && stats.imported > 0
+      : hasErrors && stats.imported > 0
       ? 'Completed with errors'
       : 'Failed';
 
     const statusColored = useColors
-      ? (stats.failed === 0 && stats.imported > 0
+      ? (!hasErrors && stats.imported > 0
           ? chalk.green('✓ ' + statusText)
-          : stats.failed > 0 && stats.imported > 0
+          : hasErrors && stats.imported > 0
           ? chalk.yellow('⚠ ' + statusText)
           : chalk.red('✗ ' + statusText))
       : statusText;
@@ -183,6 +186,17 @@ export class ProgressUI {
       console.log(`Throughput:          ${useColors ? chalk.cyan(throughputStr) : throughputStr}`);
     }
 
+    // Chunks that exhausted their retries (rows not imported)
+    if (stats.failedChunks && stats.failedChunks.length > 0) {
+      const countStr = stats.failedChunks.length.toLocaleString();
+      console.log(`Failed chunks:       ${useColors ? chalk.red(countStr) : countStr}`);
+      for (const chunk of stats.failedChunks) {
+        const attempts = `${chunk.attempts} attempt${chunk.attempts === 1 ? '' : 's'}`;
+        console.log(`  #${chunk.chunkId} rows ${chunk.startRow}-${chunk.endRow} (${attempts}): ${chunk.error ?? 'unknown error'}`);
+      }
+      console.log('  Retry with: --resume <job-id> --retry-failed-chunks');
+    }
+
     console.log('\n' + '═'.repeat(60) + '\n');
   }
 
@@ -0,0 +1,165 @@
+import { normalizeWorkOSError, type WorkOSGateway } from "./workosGateway.js";
+import type { CreateUserPayload, OnConflictMode, RowAction } from "./types.js";
+
+export const ON_CONFLICT_MODES: readonly OnConflictMode[] = ["fail", "skip", "update"];
+export const ROW_ACTIONS: readonly RowAction[] = ["create", "update", "delete"];
+
+export type ConflictOutcome = "updated" | "skipped";
+export type UserOutcome = "created" | ConflictOutcome;
+
+/**
+ * Raised when the existing user was found but patching it failed
+ */
+export class UserUpdateError extends Error {
+  readonly userId: string;
+  readonly status?: number;
+  readonly original: any;
+
+  constructor(userId: string, original: any) {
+    super(`Failed to update existing user ${userId}: ${original?.message || String(original)}`);
+    this.name = "UserUpdateError";
+    this.userId = userId;
+    this.status = normalizeWorkOSError(original).status;
+    this.original = original;
+  }
+}
+
+/**
+ * Parse and validate an --on-conflict value (defaults to "fail")
+ */
+export function parseOnConflictMode(value: unknown): OnConflictMode {
+  if (value === undefined || value === null || value === "") return "fail";
+  const mode = String(value).trim().toLowerCase();
+  if (!(ON_CONFLICT_MODES as readonly string[]).includes(mode)) {
+    throw new Error(`Invalid --on-conflict value "${String(value)}". Expected one of: ${ON_CONFLICT_MODES.join(", ")}`);
+  }
+  return mode as OnConflictMode;
+}
+
+/**
+ * Parse a delta CSV action column. Blank or missing means create.
+ */
+export function parseRowAction(value: unknown): RowAction {
+  if (value === undefined || value === null || String(value).trim() === "") return "create";
+  const action = String(value).trim().toLowerCase();
+  if (!(ROW_ACTIONS as readonly string[]).includes(action)) {
+    throw new Error(`Invalid action "${String(value)}". Expected one of: ${ROW_ACTIONS.join(", ")}`);
+  }
+  return action as RowAction;
+}
+
+/**
+ * On-conflict mode for a row: update rows always patch the existing user,
+ * create rows follow --on-conflict
+ */
+export function conflictModeForAction(action: RowAction | undefined, mode: OnConflictMode): OnConflictMode {
+  return action === "update" ? "update" : mode;
+}
+
+/**
+ * Detect a createUser failure caused by the email already belonging to a user
+ */
+export function isUserConflictError(err: any): boolean {
+  const status: number | undefined =
+    err?.status ?? err?.httpStatus ?? err?.response?.status;
+  if (status === 409) return true;
+
+  const codes: string[] = [];
+  const errors = err?.response?.data?.errors ?? err?.errors;
+  if (Array.isArray(errors)) {
+    for (const e of errors) {
+      if (typeof e?.code === "string") codes.push(e.code);
+    }
+  }
+  if (typeof err?.code === "string") codes.push(err.code);
+
+  if (codes.some(code => code === "email_not_available" || code === "user_already_exists")) {
+    return true;
+  }
+
+  const message: string = err?.message || "";
+  return status === 422 && /already (exists|been taken)|not available/i.test(message);
+}
+
+/**
+ * Resolve an email conflict according to the on-conflict mode.
+ * Looks up the existing user by email, then returns it as-is (skip) or patches
+ * name, metadata, external_id and email_verified (update).
+ * Re-throws the original error if no user with that email can be found.
+ */
+export async function resolveUserConflict(
+  payload: CreateUserPayload,
+  mode: Exclude<OnConflictMode, "fail">,
+  gateway: WorkOSGateway,
+  originalError: unknown
+): Promise<{ userId: string; outcome: ConflictOutcome }> {
+  const existing = await gateway.findUserByEmail(payload.email);
+
+  if (!existing) {
+    throw originalError;
+  }
+
+  if (mode === "skip") {
+    return { userId: existing.id, outcome: "skipped" };
+  }
+
+  const update: Record<string, unknown> = { userId: existing.id };
+  if (payload.firstName !== undefined) update.firstName = payload.firstName;
+  if (payload.lastName !== undefined) update.lastName = payload.lastName;
+  if (payload.emailVerified !== undefined) update.emailVerified = payload.emailVerified;
+  if (payload.externalId !== undefined) update.externalId = payload.externalId;
+  if (payload.metadata !== undefined) update.metadata = payload.metadata;
+
+  try {
+    await gateway.updateUser(update as any);
+  } catch (err) {
+    throw new UserUpdateError(existing.id, err);
+  }
+
+  return { userId: existing.id, outcome: "updated" };
+}
+
+/**
+ * Create a user, falling back to conflict resolution when the email is taken
+ * and the mode is skip or update. In fail mode the create error propagates.
+ */
+export async function createOrResolveUser(
+  payload: CreateUserPayload,
+  mode: OnConflictMode,
+  gateway: WorkOSGateway,
+  create: () => Promise<string>
+): Promise<{ userId: string; outcome: UserOutcome }> {
+  try {
+    return { userId: await create(), outcome: "created" };
+  } catch (err) {
+    if (mode === "fail" || !isUserConflictError(err)) {
+      throw err;
+    }
+    return resolveUserConflict(payload, mode, gateway, err);
+  }
+}
+
+/**
+ * Delete the user with this email (delta rows with action=delete).
+ * Returns the deleted user's ID, or null if no such user exists.
+ */
+export async function deleteUserByEmail(
+  email: string,
+  gateway: WorkOSGateway
+): Promise<string | null> {
+  const existing = await gateway.findUserByEmail(email);
+
+  if (!existing) {
+    return null;
+  }
+
+  try {
+    await gateway.deleteUser(existing.id);
+  } catch (err) {
+    // Deleted between lookup and delete
+    if (normalizeWorkOSError(err).kind === "not_found") return null;
+    throw err;
+  }
+
+  return existing.id;
+}
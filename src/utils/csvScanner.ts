@@ -1,27 +1,30 @@
 /**
  * CSV Scanner Utility
  *
- * Fast single-pass CSV scanning to extract unique organization identifiers
- * without making any API calls. Used for pre-warming the organization cache
- * before starting worker pool.
+ * Fast single-pass scanning of a user file (CSV or JSONL) to extract unique
+ * organization identifiers without making any API calls. Used for
+ * pre-warming the organization cache before starting worker pool.
  */
 
 import fs from "node:fs";
-import { parse } from "csv-parse";
+import { createRowParser } from "../inputFormat.js";
 
 export interface UniqueOrgInfo {
   orgExternalId: string;
   orgName: string | null;
+  /** Raw org_domains value from the first row listing domains for the org (an array in JSONL) */
+  orgDomains: string | unknown[] | null;
 }
 
 /**
- * Extract unique organization identifiers from CSV file
+ * Extract unique organization identifiers from a CSV or JSONL file
  *
- * Performs a fast single-pass scan of the CSV to identify all unique
- * org_external_id values along with their corresponding org_name.
+ * Performs a fast single-pass scan of the file to identify all unique
+ * org_external_id values along with their corresponding org_name and
+ * org_domains.
  * This data is used to pre-warm the organization cache before processing.
  *
- * @param csvPath - Path to CSV file to scan
+ * @param csvPath - Path to CSV or JSONL file to scan
  * @returns Array of unique organization identifiers with names
  *
  * @example
@@ -29,56 +32,51 @@ export interface UniqueOrgInfo {
  * // [{ orgExternalId: 'org_123', orgName: 'Acme Corp' }, ...]
  */
 export async function extractUniqueOrganizations(csvPath: string): Promise<UniqueOrgInfo[]> {
-  const orgMap = new Map<string, string | null>();
-
-  const input = fs.createReadStream(csvPath);
-  const parser = parse({
-    columns: true,
-    bom: true,
-    skip_empty_lines: true,
-    trim: true
-  });
+  const orgMap = new Map<string, { orgName: string | null; orgDomains: string | unknown[] | null }>();
 
-  await new Promise<void>((resolve, reject) => {
-    parser.on("readable", () => {
-      let row: any;
-      while ((row = parser.read()) !== null) {
-        // Extract org fields
-        const orgExternalId = typeof row.org_external_id === "string" && row.org_external_id.trim() !== ""
-          ? row.org_external_id.trim()
-          : null;
+  const parser = fs.createReadStream(csvPath).pipe(createRowParser(csvPath));
 
-        const orgName = typeof row.org_name === "string" && row.org_name.trim() !== ""
-          ? row.org_name.trim()
-          : null;
+  for await (const row of parser as AsyncIterable<Record<string, unknown>>) {
+    // Extract org fields
+    const orgExternalId = typeof row.org_external_id === "string" && row.org_external_id.trim() !== ""
+      ? row.org_external_id.trim()
+      : null;
 
-        // Skip rows without org_external_id
-        if (!orgExternalId) {
-          continue;
-        }
+    const orgName = typeof row.org_name === "string" && row.org_name.trim() !== ""
+      ? row.org_name.trim()
+      : null;
 
-        // Store first occurrence of each org_external_id
-        // If CSV has multiple rows with same external_id but different names,
-        // we take the first name encountered (they should be consistent anyway)
-        if (!orgMap.has(orgExternalId)) {
-          orgMap.set(orgExternalId, orgName);
-        }
-      }
-    });
+    // JSONL rows may list domains as an array
+    const orgDomains = typeof row.org_domains === "string" && row.org_domains.trim() !== ""
+      ? row.org_domains.trim()
+      : Array.isArray(row.org_domains) && row.org_domains.length > 0
+        ? row.org_domains
+        : null;
 
-    parser.on("end", () => resolve());
-    parser.on("error", (err) => reject(err));
+    // Skip rows without org_external_id
+    if (!orgExternalId) {
+      continue;
+    }
 
-    input.pipe(parser);
-  });
+    // Store first occurrence of each org_external_id
+    // If the file has multiple rows with same external_id but different names,
+    // we take the first name encountered (they should be consistent anyway)
+    const existing = orgMap.get(orgExternalId);
+    if (!existing) {
+      orgMap.set(orgExternalId, { orgName, orgDomains });
+    } else if (!existing.orgDomains && orgDomains) {
+      existing.orgDomains = orgDomains;
+    }
+  }
 
   // Convert Map to sorted array for deterministic ordering
   const uniqueOrgs: UniqueOrgInfo[] = [];
 
-  for (const [orgExternalId, orgName] of orgMap.entries()) {
+  for (const [orgExternalId, { orgName, orgDomains }] of orgMap.entries()) {
     uniqueOrgs.push({
       orgExternalId,
-      orgName
+      orgName,
+      orgDomains
     });
   }
 
@@ -0,0 +1,193 @@
+/**
+ * Tests for the --check-api validation pass (API conflict checker)
+ *
+ * Usage: npx tsx src/validator/__tests__/apiConflictChecker.test.ts
+ */
+
+import { strict as assert } from 'node:assert';
+import fs from 'node:fs';
+import path from 'node:path';
+import type { ConflictLookups } from '../apiConflictChecker.js';
+
+const TEMP_DIR = path.join(process.cwd(), '.temp-api-check-tests');
+
+/**
+ * Fake WorkOS state: one existing user, two orgs, roles per org
+ */
+function createLookups(calls: string[] = []): ConflictLookups {
+  const users: Record<string, string> = { 'existing@acme.com': 'user_01' };
+  const orgsByExternalId: Record<string, string> = { 'acme': 'org_acme' };
+  const orgIds = new Set(['org_acme', 'org_beta']);
+  const roles: Record<string, string[]> = {
+    org_acme: ['member', 'admin'],
+    org_beta: ['member']
+  };
+
+  return {
+    findUserByEmail: async (email) => {
+      calls.push(`user:${email}`);
+      return users[email] ?? null;
+    },
+    organizationExists: async (orgId) => {
+      calls.push(`org:${orgId}`);
+      return orgIds.has(orgId);
+    },
+    findOrganizationByExternalId: async (externalId) => {
+      calls.push(`ext:${externalId}`);
+      if (externalId === 'broken') throw new Error('HTTP 500');
+      return orgsByExternalId[externalId] ?? null;
+    },
+    listRoleSlugs: async (orgId) => {
+      calls.push(`roles:${orgId}`);
+      return roles[orgId] ?? [];
+    }
+  };
+}
+
+async function runTests() {
+  fs.mkdirSync(TEMP_DIR, { recursive: true });
+  let passed = 0;
+  let failed = 0;
+
+  async function test(name: string, fn: () => Promise<void> | void) {
+    try {
+      await fn();
+      console.log(`  ✓ ${name}`);
+      passed++;
+    } catch (err: any) {
+      console.log(`  ✗ ${name}`);
+      console.log(`    ${err.message}`);
+      failed++;
+    }
+  }
+
+  const { ApiConflictChecker } = await import('../apiConflictChecker.js');
+  const { CSVValidator } = await import('../csvValidator.js');
+
+  console.log('API Conflict Checker tests\n');
+
+  await test('flags existing users once per email', async () => {
+    const calls: string[] = [];
+    const checker = new ApiConflictChecker({ lookups: createLookups(calls), rateLimit: 1000 });
+    checker.collect({ email: 'Existing@acme.com', org_external_id: 'acme' }, 1);
+    checker.collect({ email: 'existing@acme.com', org_external_id: 'acme' }, 2);
+    checker.collect({ email: 'new@acme.com', org_external_id: 'acme' }, 3);
+
+    const issues = await checker.check();
+    const userIssues = issues.filter(i => i.ruleId === 'api-user-exists');
+    assert.strictEqual(userIssues.length, 1);
+    assert.strictEqual(userIssues[0]!.recordNumber, 1);
+    assert.strictEqual(userIssues[0]!.severity, 'error');
+    assert.strictEqual(userIssues[0]!.category, 'api');
+    assert.ok(userIssues[0]!.message.includes('[2 rows]'));
+    assert.strictEqual(calls.filter(c => c.startsWith('user:')).length, 2, 'Each email looked up once');
+    assert.strictEqual(calls.filter(c => c === 'ext:acme').length, 1, 'Each org looked up once');
+  });
+
+  await test('reports missing organizations by id and external id', async () => {
+    const checker = new ApiConflictChecker({ lookups: createLookups(), rateLimit: 1000 });
+    checker.collect({ email: 'a@x.com', org_id: 'org_missing' }, 1);
+    checker.collect({ email: 'b@x.com', org_external_id: 'nope' }, 2);
+    checker.collect({ email: 'c@x.com', org_external_id: 'new-co', org_name: 'New Co' }, 3);
+
+    const issues = await checker.check();
+    const byRecord = new Map(issues.map(i => [i.recordNumber, i]));
+    assert.strictEqual(byRecord.get(1)?.ruleId, 'api-org-not-found');
+    assert.strictEqual(byRecord.get(1)?.orgId, 'org_missing');
+    assert.strictEqual(byRecord.get(2)?.ruleId, 'api-org-not-found');
+    assert.strictEqual(byRecord.get(2)?.severity, 'error');
+    assert.strictEqual(byRecord.get(3)?.ruleId, 'api-org-will-be-created');
+    assert.strictEqual(byRecord.get(3)?.severity, 'info');
+  });
+
+  await test('checks role slugs against the row organization', async () => {
+    const calls: string[] = [];
+    const checker = new ApiConflictChecker({ lookups: createLookups(calls), rateLimit: 1000 });
+    checker.collect({ email: 'a@x.com', org_external_id: 'acme', role_slugs: 'admin,member' }, 1);
+    checker.collect({ email: 'b@x.com', org_id: 'org_beta', role_slugs: '["admin"]' }, 2);
+    checker.collect({ email: 'c@x.com', org_external_id: 'acme', role_slugs: 'owner' }, 3);
+    checker.collect({ email: 'd@x.com', role_slugs: 'admin' }, 4);
+
+    const issues = await checker.check();
+    const roleIssues = issues.filter(i => i.ruleId === 'api-role-not-found');
+    assert.deepStrictEqual(roleIssues.map(i => i.recordNumber), [2, 3]);
+    assert.ok(roleIssues[0]!.message.includes('"admin"'));
+    assert.ok(roleIssues[1]!.message.includes('"owner"'));
+    assert.ok(issues.some(i => i.ruleId === 'api-role-no-org'));
+    assert.strictEqual(calls.filter(c => c.startsWith('roles:')).length, 2, 'Roles listed once per org');
+  });
+
+  await test('lookup failures become warnings instead of aborting', async () => {
+    const checker = new ApiConflictChecker({ lookups: createLookups(), rateLimit: 1000 });
+    checker.collect({ email: 'a@x.com', org_external_id: 'broken' }, 1);
+
+    const issues = await checker.check();
+    assert.strictEqual(issues.length, 1);
+    assert.strictEqual(issues[0]!.ruleId, 'api-lookup-failed');
+    assert.strictEqual(issues[0]!.severity, 'warning');
+  });
+
+  await test('rate-limited lookups are retried', async () => {
+    const calls: string[] = [];
+    const lookups = createLookups(calls);
+    const findUserByEmail = lookups.findUserByEmail;
+    lookups.findUserByEmail = async (email) => {
+      if (!calls.includes(`user:${email}`)) {
+        calls.push(`user:${email}`);
+        throw Object.assign(new Error('Rate limit exceeded'), { status: 429 });
+      }
+      return findUserByEmail(email);
+    };
+    const checker = new ApiConflictChecker({ lookups, rateLimit: 1000 });
+    checker.collect({ email: 'existing@acme.com' }, 1);
+
+    const issues = await checker.check();
+    assert.deepStrictEqual(issues.map(i => i.ruleId), ['api-user-exists']);
+    assert.strictEqual(calls.filter(c => c === 'user:existing@acme.com').length, 2);
+  });
+
+  await test('CSVValidator runs the API pass when checkApi is set', async () => {
+    const csvPath = path.join(TEMP_DIR, 'users.csv');
+    fs.writeFileSync(csvPath, [
+      'email,first_name,org_external_id,org_name,role_slugs',
+      'existing@acme.com,Ex,acme,Acme,member',
+      'new@acme.com,New,acme,Acme,owner',
+      'not-an-email,Bad,acme,Acme,member'
+    ].join('\n'));
+
+    const calls: string[] = [];
+    const validator = new CSVValidator({
+      csvPath,
+      checkApi: true,
+      apiLookups: createLookups(calls),
+      quiet: true
+    });
+    const report = await validator.validate();
+
+    const apiIssues = report.issues.filter(i => i.category === 'api');
+    assert.deepStrictEqual(apiIssues.map(i => i.ruleId).sort(), ['api-role-not-found', 'api-user-exists']);
+    assert.strictEqual(report.summary.apiConflicts, 2);
+    assert.ok(!calls.includes('user:not-an-email'), 'Invalid rows are not looked up');
+  });
+
+  await test('API pass is skipped without checkApi', async () => {
+    const csvPath = path.join(TEMP_DIR, 'users.csv');
+    const calls: string[] = [];
+    const report = await new CSVValidator({ csvPath, apiLookups: createLookups(calls), quiet: true }).validate();
+    assert.strictEqual(calls.length, 0);
+    assert.strictEqual(report.summary.apiConflicts, undefined);
+  });
+
+  fs.rmSync(TEMP_DIR, { recursive: true, force: true });
+
+  // Summary
+  console.log(`\n${passed} passed, ${failed} failed`);
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+runTests().catch((err) => {
+  console.error('Unhandled error:', err);
+  process.exit(1);
+});
@@ -0,0 +1,288 @@
+/**
+ * Phase 2: CSV Validator - API Conflict Checker (Pass 3)
+ *
+ * Collects unique emails, organization references and role slugs while rows
+ * are validated, then batch-checks them against WorkOS:
+ * - Emails that already belong to a WorkOS user
+ * - org_id / org_external_id values that do not resolve to an organization
+ * - role_slugs that do not exist for the row's organization
+ */
+
+import { getWorkOSClient } from '../workos.js';
+import { getOrganizationById, getOrganizationByExternalId } from '../orgs.js';
+import { listRolesForOrganization } from '../roles/roleApiClient.js';
+import { parseRoleSlugs } from '../roles/roleSlugs.js';
+import { RateLimiter } from '../rateLimiter.js';
+import { callWithRetry } from '../workosGateway.js';
+import type { ValidationIssue } from './types.js';
+import type { CSVRow } from '../types.js';
+
+/**
+ * WorkOS lookups used by the checker (injectable for tests)
+ */
+export interface ConflictLookups {
+  /** Return the user ID for an email, or null if no user exists */
+  findUserByEmail: (email: string) => Promise<string | null>;
+  /** Return true if an organization with this ID exists */
+  organizationExists: (orgId: string) => Promise<boolean>;
+  /** Return the organization ID for an external ID, or null if none exists */
+  findOrganizationByExternalId: (externalId: string) => Promise<string | null>;
+  /** Return the role slugs available to an organization (environment + org roles) */
+  listRoleSlugs: (orgId: string) => Promise<string[]>;
+}
+
+export interface ApiConflictCheckerOptions {
+  lookups?: ConflictLookups;
+  /** Concurrent lookups per batch (default: 10) */
+  batchSize?: number;
+  /** API requests per second (default: 50) */
+  rateLimit?: number;
+  /** Called after each batch with the number of lookups done so far */
+  onProgress?: (checked: number, total: number) => void;
+}
+
+interface Reference {
+  firstRecord: number;
+  email?: string;
+  rows: number;
+}
+
+const defaultLookups: ConflictLookups = {
+  findUserByEmail: async (email) => {
+    const users = await getWorkOSClient().userManagement.listUsers({ email });
+    return users.data[0]?.id ?? null;
+  },
+  organizationExists: getOrganizationById,
+  findOrganizationByExternalId: getOrganizationByExternalId,
+  listRoleSlugs: async (orgId) => (await listRolesForOrganization(orgId)).map(role => role.slug)
+};
+
+function cell(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+/**
+ * Collects references during row validation and checks them against WorkOS
+ */
+export class ApiConflictChecker {
+  private lookups: ConflictLookups;
+  private batchSize: number;
+  private rateLimit: number;
+  private onProgress?: (checked: number, total: number) => void;
+
+  private emails = new Map<string, Reference>();
+  private orgIds = new Map<string, Reference>();
+  private orgExternalIds = new Map<string, Reference & { hasOrgName: boolean }>();
+  // Role references keyed by org reference ("id:<org_id>" or "ext:<org_external_id>")
+  private roleRefs = new Map<string, Map<string, Reference>>();
+  private rolesWithoutOrg = 0;
+
+  constructor(options: ApiConflictCheckerOptions = {}) {
+    this.lookups = options.lookups ?? defaultLookups;
+    this.batchSize = options.batchSize ?? 10;
+    this.rateLimit = options.rateLimit ?? 50;
+    this.onProgress = options.onProgress;
+  }
+
+  /**
+   * Record the API-checkable references of a row
+   */
+  collect(row: CSVRow, recordNumber: number): void {
+    const email = cell(row.email).toLowerCase();
+    if (email) {
+      this.track(this.emails, email, recordNumber, email);
+    }
+
+    const orgId = cell(row.org_id);
+    const orgExternalId = cell(row.org_external_id);
+
+    if (orgId) {
+      this.track(this.orgIds, orgId, recordNumber, email);
+    } else if (orgExternalId) {
+      const ref = this.track(this.orgExternalIds, orgExternalId, recordNumber, email, { hasOrgName: false });
+      if (cell(row.org_name)) ref.hasOrgName = true;
+    }
+
+    const slugs = parseRoleSlugs(row.role_slugs);
+    if (slugs.length === 0) return;
+
+    const orgKey = orgId ? `id:${orgId}` : orgExternalId ? `ext:${orgExternalId}` : undefined;
+    if (!orgKey) {
+      this.rolesWithoutOrg++;
+      return;
+    }
+
+    let slugRefs = this.roleRefs.get(orgKey);
+    if (!slugRefs) {
+      slugRefs = new Map();
+      this.roleRefs.set(orgKey, slugRefs);
+    }
+    for (const slug of slugs) {
+      this.track(slugRefs, slug, recordNumber, email);
+    }
+  }
+
+  /**
+   * Run all lookups and return findings as 'api' validation issues
+   */
+  async check(): Promise<ValidationIssue[]> {
+    const issues: ValidationIssue[] = [];
+    const limiter = new RateLimiter(this.rateLimit);
+    const total = this.emails.size + this.orgIds.size + this.orgExternalIds.size + this.roleRefs.size;
+    let checked = 0;
+
+    const runBatched = async <T>(items: T[], fn: (item: T) => Promise<void>) => {
+      for (let i = 0; i < items.length; i += this.batchSize) {
+        const batch = items.slice(i, i + this.batchSize);
+        await Promise.all(batch.map(fn));
+        checked += batch.length;
+        this.onProgress?.(checked, total);
+      }
+    };
+
+    // Rate-limited; 429s, 5xx and network errors are retried before a lookup counts as failed
+    const lookup = <T>(fn: () => Promise<T>): Promise<T> => callWithRetry(fn, limiter);
+
+    const lookupFailed = (target: string, ref: Reference, field: string, err: any): ValidationIssue => ({
+      severity: 'warning',
+      category: 'api',
+      recordNumber: ref.firstRecord,
+      field,
+      email: ref.email,
+      message: `Could not check ${target}: ${err?.message || String(err)}`,
+      ruleId: 'api-lookup-failed'
+    });
+
+    // Resolved organization IDs, used to check role slugs
+    const resolvedOrgs = new Map<string, string | null>();
+
+    try {
+      // Users that already exist
+      await runBatched([...this.emails], async ([email, ref]) => {
+        try {
+          const userId = await lookup(() => this.lookups.findUserByEmail(email));
+          if (userId) {
+            issues.push({
+              severity: 'error',
+              category: 'api',
+              recordNumber: ref.firstRecord,
+              field: 'email',
+              email,
+              message: `User already exists in WorkOS: ${email} (${userId})${this.rowCount(ref)}`,
+              ruleId: 'api-user-exists'
+            });
+          }
+        } catch (err) {
+          issues.push(lookupFailed(`user ${email}`, ref, 'email', err));
+        }
+      });
+
+      // org_id references
+      await runBatched([...this.orgIds], async ([orgId, ref]) => {
+        try {
+          const exists = await lookup(() => this.lookups.organizationExists(orgId));
+          resolvedOrgs.set(`id:${orgId}`, exists ? orgId : null);
+          if (!exists) {
+            issues.push({
+              severity: 'error',
+              category: 'api',
+              recordNumber: ref.firstRecord,
+              field: 'org_id',
+              email: ref.email,
+              message: `Organization not found in WorkOS: ${orgId}${this.rowCount(ref)}`,
+              ruleId: 'api-org-not-found',
+              orgId
+            });
+          }
+        } catch (err) {
+          issues.push(lookupFailed(`organization ${orgId}`, ref, 'org_id', err));
+        }
+      });
+
+      // org_external_id references (missing orgs are created by the importer when org_name is set)
+      await runBatched([...this.orgExternalIds], async ([externalId, ref]) => {
+        try {
+          const orgId = await lookup(() => this.lookups.findOrganizationByExternalId(externalId));
+          resolvedOrgs.set(`ext:${externalId}`, orgId);
+          if (!orgId) {
+            issues.push({
+              severity: ref.hasOrgName ? 'info' : 'error',
+              category: 'api',
+              recordNumber: ref.firstRecord,
+              field: 'org_external_id',
+              email: ref.email,
+              message: ref.hasOrgName
+                ? `Organization ${externalId} does not exist yet and will be created from org_name${this.rowCount(ref)}`
+                : `Organization not found in WorkOS for external_id: ${externalId} (add org_name to create it)${this.rowCount(ref)}`,
+              ruleId: ref.hasOrgName ? 'api-org-will-be-created' : 'api-org-not-found',
+              orgExternalId: externalId
+            });
+          }
+        } catch (err) {
+          issues.push(lookupFailed(`organization ${externalId}`, ref, 'org_external_id', err));
+        }
+      });
+
+      // role_slugs (one role listing per organization)
+      await runBatched([...this.roleRefs], async ([orgKey, slugRefs]) => {
+        const orgId = resolvedOrgs.get(orgKey);
+        // Unresolved or not-yet-created orgs have no roles to compare against
+        if (!orgId) return;
+
+        try {
+          const available = new Set(await lookup(() => this.lookups.listRoleSlugs(orgId)));
+          for (const [slug, ref] of slugRefs) {
+            if (!available.has(slug)) {
+              issues.push({
+                severity: 'error',
+                category: 'api',
+                recordNumber: ref.firstRecord,
+                field: 'role_slugs',
+                email: ref.email,
+                message: `Role "${slug}" does not exist for organization ${orgId}${this.rowCount(ref)}`,
+                ruleId: 'api-role-not-found',
+                orgId
+              });
+            }
+          }
+        } catch (err) {
+          const first = slugRefs.values().next().value as Reference;
+          issues.push(lookupFailed(`roles for organization ${orgId}`, first, 'role_slugs', err));
+        }
+      });
+    } finally {
+      limiter.stop();
+    }
+
+    if (this.rolesWithoutOrg > 0) {
+      issues.push({
+        severity: 'info',
+        category: 'api',
+        message: `${this.rolesWithoutOrg} row(s) have role_slugs but no organization; roles were not checked`,
+        ruleId: 'api-role-no-org'
+      });
+    }
+
+    return issues.sort((a, b) => (a.recordNumber ?? 0) - (b.recordNumber ?? 0));
+  }
+
+  private track<R extends Reference>(
+    map: Map<string, R>,
+    key: string,
+    recordNumber: number,
+    email: string,
+    extra?: Omit<R, keyof Reference>
+  ): R {
+    let ref = map.get(key);
+    if (!ref) {
+      ref = { firstRecord: recordNumber, email: email || undefined, rows: 0, ...extra } as R;
+      map.set(key, ref);
+    }
+    ref.rows++;
+    return ref;
+  }
+
+  private rowCount(ref: Reference): string {
+    return ref.rows > 1 ? ` [${ref.rows} rows]` : '';
+  }
+}
@@ -9,12 +9,14 @@
 
 import fs from 'node:fs';
 import { parse } from 'csv-parse';
-import { stringify } from 'csv-stringify';
+import type { Transform } from 'node:stream';
 import { calculateCsvHash } from '../checkpoint/csvUtils.js';
+import { createRowParser, createRowStringifier, detectInputFormat } from '../inputFormat.js';
 import { isBlank } from '../boolean.js';
 import { createLogger } from '../logger.js';
 import { DuplicateDetector } from './duplicateDetector.js';
 import { EmailDeduplicator } from './emailDeduplicator.js';
+import { ApiConflictChecker } from './apiConflictChecker.js';
 import type { DeduplicationResult } from './emailDeduplicator.js';
 import { HEADER_RULES, ROW_RULES, getAutoFixRules } from './rules.js';
 import type {
@@ -34,16 +36,29 @@ export class CSVValidator {
   private logger: ReturnType<typeof createLogger>;
   private issues: ValidationIssue[] = [];
   private duplicateDetector = new DuplicateDetector();
+  private apiChecker?: ApiConflictChecker;
   private mode: 'single-org' | 'multi-org' | 'user-only' = 'user-only';
   private totalRows = 0;
   private validRows = 0;
   private invalidRows = 0;
   private warningRows = 0;
   private fixedIssues = 0;
+  private apiConflicts?: number;
 
   constructor(options: ValidationOptions) {
     this.options = options;
     this.logger = createLogger({ quiet: options.quiet });
+
+    if (options.checkApi) {
+      this.apiChecker = new ApiConflictChecker({
+        lookups: options.apiLookups,
+        onProgress: (checked, total) => {
+          if (checked % 1000 === 0 || checked === total) {
+            this.logger.log(`Checked ${checked}/${total} API lookups...`);
+          }
+        }
+      });
+    }
   }
 
   /**
@@ -64,9 +79,8 @@ export class CSVValidator {
     await this.validateRows(headers);
 
     // Pass 3: Optional API checking (if enabled)
-    if (this.options.checkApi) {
-      this.logger.log('API conflict checking not yet implemented');
-      // TODO: Implement in Phase 2.3
+    if (this.apiChecker) {
+      await this.checkApiConflicts();
     }
 
     // Pass 4: Optional deduplication (if enabled)
@@ -84,11 +98,14 @@ export class CSVValidator {
   private async validateHeaders(): Promise<string[]> {
     this.logger.log('Pass 1: Validating headers...');
 
+    // JSONL has no header line; its "columns" are every field used by any record
+    const jsonl = detectInputFormat(this.options.csvPath) === 'jsonl';
+
     return new Promise<string[]>((resolve, reject) => {
       const input = fs.createReadStream(this.options.csvPath);
 
       // First, read just the header line to get column names
-      const parser = parse({
+      const parser = jsonl ? createRowParser(this.options.csvPath) : parse({
         columns: false, // Don't parse as object, just get raw rows
         bom: true,
         skip_empty_lines: true,
@@ -97,15 +114,24 @@ export class CSVValidator {
       });
 
       let headers: string[] = [];
+      const fields = new Set<string>();
 
       parser.on('readable', () => {
-        const record = parser.read();
-        if (record && headers.length === 0) {
-          headers = record as string[];
+        let record: unknown;
+        while ((record = parser.read()) !== null) {
+          if (jsonl) {
+            for (const key of Object.keys(record as CSVRow)) fields.add(key);
+          } else if (headers.length === 0) {
+            headers = record as string[];
+          }
         }
       });
 
       parser.on('end', () => {
+        if (jsonl) {
+          headers = [...fields];
+        }
+
         // Validate headers using header rules
         for (const rule of HEADER_RULES) {
           const ruleIssues = rule.validate({ headers });
@@ -147,24 +173,19 @@ export class CSVValidator {
   private async validateRows(headers: string[]): Promise<void> {
     this.logger.log('Pass 2: Validating rows...');
 
-    // Set up fixed CSV output if auto-fix is enabled
+    // Set up fixed CSV output if auto-fix is enabled (same format as the input)
     let fixedStream: fs.WriteStream | null = null;
-    let stringifier: ReturnType<typeof stringify> | null = null;
+    let stringifier: Transform | null = null;
 
     if (this.options.autoFix && this.options.fixedCsvPath) {
       fixedStream = fs.createWriteStream(this.options.fixedCsvPath);
-      stringifier = stringify({ header: true, columns: headers });
+      stringifier = createRowStringifier(this.options.csvPath, headers);
       stringifier.pipe(fixedStream);
     }
 
     return new Promise<void>((resolve, reject) => {
       const input = fs.createReadStream(this.options.csvPath);
-      const parser = parse({
-        columns: true,
-        bom: true,
-        skip_empty_lines: true,
-        trim: true
-      });
+      const parser = createRowParser(this.options.csvPath);
 
       let recordNumber = 0;
 
@@ -182,10 +203,12 @@ export class CSVValidator {
           const rowIssues = this.validateRow(row, recordNumber);
           let hasErrors = rowIssues.some(i => i.severity === 'error');
           let hasWarnings = rowIssues.some(i => i.severity === 'warning');
+          let checkedRow = row;
 
           // Apply auto-fix if enabled
           if (this.options.autoFix && stringifier) {
             const { fixedRow, changes } = this.applyAutoFixes(row);
+            checkedRow = fixedRow;
             if (changes.length > 0) {
               this.fixedIssues += changes.length;
               // Mark issues as auto-fixed
@@ -204,6 +227,11 @@ export class CSVValidator {
             stringifier.write(fixedRow);
           }
 
+          // Rows that already fail validation are not worth an API lookup
+          if (this.apiChecker && !hasErrors) {
+            this.apiChecker.collect(checkedRow, recordNumber);
+          }
+
           // Track row status
           if (hasErrors) {
             this.invalidRows++;
@@ -239,6 +267,19 @@ export class CSVValidator {
     });
   }
 
+  /**
+   * Pass 3: Check emails, organizations and role slugs against WorkOS
+   */
+  private async checkApiConflicts(): Promise<void> {
+    this.logger.log('Pass 3: Checking WorkOS API for conflicts...');
+
+    const apiIssues = await this.apiChecker!.check();
+    this.issues.push(...apiIssues);
+    this.apiConflicts = apiIssues.filter(i => i.severity === 'error').length;
+
+    this.logger.log(`API conflicts found: ${this.apiConflicts}`);
+  }
+
   /**
    * Pass 4: Deduplicate rows by email
    */
@@ -251,12 +292,8 @@ export class CSVValidator {
 
     await new Promise<void>((resolve, reject) => {
       const input = fs.createReadStream(csvPath);
-      const parser = parse({
-        columns: true,
-        bom: true,
-        skip_empty_lines: true,
-        trim: true
-      });
+      // The fixed file is written in the input's format, so detect from the input
+      const parser = createRowParser(this.options.csvPath);
 
       parser.on('readable', () => {
         let row: CSVRow | null;
@@ -273,7 +310,9 @@ export class CSVValidator {
 
     // Deduplicate
     const deduplicator = new EmailDeduplicator();
-    const result: DeduplicationResult = deduplicator.deduplicate(rows, 2); // Start at row 2 (after header)
+    // Start at row 2 (after header); JSONL has no header line
+    const firstRow = detectInputFormat(this.options.csvPath) === 'jsonl' ? 1 : 2;
+    const result: DeduplicationResult = deduplicator.deduplicate(rows, firstRow);
 
     this.logger.log(`Found ${result.duplicatesFound} duplicate emails`);
     this.logger.log(`Removed ${result.rowsRemoved} duplicate rows`);
@@ -283,7 +322,7 @@ export class CSVValidator {
     if (this.options.dedupedCsvPath) {
       await new Promise<void>((resolve, reject) => {
         const output = fs.createWriteStream(this.options.dedupedCsvPath!);
-        const stringifier = stringify({ header: true, columns: headers });
+        const stringifier = createRowStringifier(this.options.csvPath, headers);
 
         stringifier.pipe(output);
 
@@ -411,7 +450,8 @@ export class CSVValidator {
       duplicateExternalIds: stats.externalIds,
       mode: this.mode,
       autoFixApplied: this.options.autoFix || false,
-      fixedIssues: this.fixedIssues
+      fixedIssues: this.fixedIssues,
+      apiConflicts: this.apiConflicts
     };
 
     const report: ValidationReport = {
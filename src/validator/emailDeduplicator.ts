@@ -192,7 +192,7 @@ export class EmailDeduplicator {
     }
 
     // Merge organization fields
-    const orgFields = ['org_id', 'org_external_id', 'org_name'];
+    const orgFields = ['org_id', 'org_external_id', 'org_name', 'org_domains'];
 
     for (const field of orgFields) {
       const values = rows
@@ -255,9 +255,9 @@ export class EmailDeduplicator {
 
     // Set merged metadata if any
     if (Object.keys(mergedMetadata).length > 0) {
-      // Always store as JSON string to match CSVRow type
-      if (typeof rows[0]!.metadata === 'string') {
-        mergedRow.metadata = JSON.stringify(mergedMetadata);
+      // Keep the input's shape: JSON string for CSV, object for JSONL
+      if (typeof rows[0]!.metadata === 'object' && rows[0]!.metadata !== null) {
+        mergedRow.metadata = mergedMetadata;
       } else {
         mergedRow.metadata = JSON.stringify(mergedMetadata);
       }
@@ -10,6 +10,8 @@
 
 import { KNOWN_COLUMNS } from '../importer.js';
 import { parseBooleanLike, isBlank } from '../boolean.js';
+import { validatePasswordHash } from '../passwords/registry.js';
+import { parseOrgDomains } from '../organizations/orgDomains.js';
 import type { ValidationRule, ValidationContext, ValidationIssue, AutoFixChange } from './types.js';
 import type { CSVRow } from '../types.js';
 
@@ -196,7 +198,21 @@ const metadataJson: ValidationRule = {
     const { row, recordNumber } = context;
     if (!row || !row.metadata) return [];
 
-    const metadata = typeof row.metadata === 'string' ? row.metadata.trim() : '';
+    // JSONL rows carry metadata as an object
+    if (typeof row.metadata !== 'string') {
+      if (typeof row.metadata === 'object' && !Array.isArray(row.metadata)) return [];
+      return [{
+        severity: 'error',
+        category: 'row',
+        recordNumber,
+        field: 'metadata',
+        email: String(row.email || ''),
+        message: 'Metadata must be a JSON object',
+        ruleId: 'metadata-json'
+      }];
+    }
+
+    const metadata = row.metadata.trim();
     if (metadata.length > 0) {
       try {
         JSON.parse(metadata);
@@ -216,6 +232,18 @@ const metadataJson: ValidationRule = {
   }
 };
 
+/**
+ * Metadata as JSON text: the CSV cell, or the JSONL object serialized
+ * (arrays and other non-objects are left to the metadata-json rule)
+ */
+function metadataJsonText(metadata: unknown): string {
+  if (typeof metadata === 'string') return metadata.trim();
+  if (typeof metadata === 'object' && metadata !== null && !Array.isArray(metadata)) {
+    return JSON.stringify(metadata);
+  }
+  return '';
+}
+
 /** Rule 7b: Metadata arrays/objects should be stringified (WorkOS limitation) */
 const metadataArraysObjects: ValidationRule = {
   id: 'metadata-arrays-objects',
@@ -225,7 +253,7 @@ const metadataArraysObjects: ValidationRule = {
     const { row, recordNumber } = context;
     if (!row || !row.metadata) return [];
 
-    const metadata = typeof row.metadata === 'string' ? row.metadata.trim() : '';
+    const metadata = metadataJsonText(row.metadata);
     if (metadata.length > 0) {
       try {
         const parsed = JSON.parse(metadata);
@@ -257,7 +285,7 @@ const metadataArraysObjects: ValidationRule = {
   autofix: (row: CSVRow) => {
     const changes: AutoFixChange[] = [];
     if (row.metadata) {
-      const metadata = typeof row.metadata === 'string' ? row.metadata.trim() : '';
+      const metadata = metadataJsonText(row.metadata);
       if (metadata.length > 0) {
         try {
           const parsed = JSON.parse(metadata);
@@ -283,7 +311,8 @@ const metadataArraysObjects: ValidationRule = {
           }
 
           if (hasChanges) {
-            row.metadata = JSON.stringify(fixed);
+            // Keep the row's shape: JSON string for CSV, object for JSONL
+            row.metadata = typeof row.metadata === 'string' ? JSON.stringify(fixed) : fixed;
           }
         } catch {
           // If JSON is invalid, don't try to fix
@@ -392,7 +421,10 @@ const roleSlugsFormat: ValidationRule = {
     const { row, recordNumber } = context;
     if (!row || row.role_slugs === undefined || row.role_slugs === null) return [];
 
-    const raw = String(row.role_slugs).trim();
+    // JSONL rows carry a real array; validate it like a JSON array cell
+    const raw = Array.isArray(row.role_slugs)
+      ? (row.role_slugs.length > 0 ? JSON.stringify(row.role_slugs) : '')
+      : String(row.role_slugs).trim();
     if (!raw) {
       return [{
         severity: 'warning',
@@ -437,7 +469,7 @@ const roleSlugsFormat: ValidationRule = {
   }
 };
 
-/** Rule 11: password_hash requires password_hash_type */
+/** Rule 11: password_hash requires password_hash_type, and the pair must be importable */
 const passwordHashComplete: ValidationRule = {
   id: 'password-hash-complete',
   severity: 'error',
@@ -460,6 +492,60 @@ const passwordHashComplete: ValidationRule = {
         ruleId: 'password-hash-complete'
       }];
     }
+
+    // Parse and check the hash with the algorithm's handler (catches hashes WorkOS would reject)
+    if (hasHash && hasType) {
+      return validatePasswordHash(String(row.password_hash), String(row.password_hash_type)).map(problem => ({
+        severity: 'error' as const,
+        category: 'row' as const,
+        recordNumber,
+        field: 'password_hash',
+        email: String(row.email || ''),
+        message: problem,
+        ruleId: 'password-hash-complete'
+      }));
+    }
+    return [];
+  }
+};
+
+/** Rule 12: org_domains must list valid domains with a verified/pending state */
+const orgDomainsFormat: ValidationRule = {
+  id: 'org-domains-format',
+  severity: 'error',
+  category: 'row',
+  validate: (context: ValidationContext): ValidationIssue[] => {
+    const { row, recordNumber } = context;
+    if (!row || row.org_domains === undefined || row.org_domains === null) return [];
+
+    try {
+      parseOrgDomains(row.org_domains);
+    } catch (err: any) {
+      return [{
+        severity: 'error',
+        category: 'row',
+        recordNumber,
+        field: 'org_domains',
+        email: String(row.email || ''),
+        message: `Invalid org_domains: ${err.message}`,
+        ruleId: 'org-domains-format'
+      }];
+    }
+
+    const hasOrg = (row.org_id && !isBlank(String(row.org_id))) ||
+      (row.org_external_id && !isBlank(String(row.org_external_id)));
+    const hasDomains = Array.isArray(row.org_domains) ? row.org_domains.length > 0 : !isBlank(String(row.org_domains));
+    if (hasDomains && !hasOrg) {
+      return [{
+        severity: 'warning',
+        category: 'row',
+        recordNumber,
+        field: 'org_domains',
+        email: String(row.email || ''),
+        message: 'org_domains is ignored without org_id or org_external_id',
+        ruleId: 'org-domains-format'
+      }];
+    }
     return [];
   }
 };
@@ -492,7 +578,8 @@ export const ROW_RULES: ValidationRule[] = [
   orgIdConflict,
   booleanFormat,
   roleSlugsFormat,
-  passwordHashComplete
+  passwordHashComplete,
+  orgDomainsFormat
 ];
 
 export const ALL_RULES: ValidationRule[] = [
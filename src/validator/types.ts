@@ -6,6 +6,7 @@
  */
 
 import type { CSVRow } from '../types.js';
+import type { ConflictLookups } from './apiConflictChecker.js';
 
 /**
  * Options for CSV validation
@@ -16,6 +17,7 @@ export interface ValidationOptions {
   fixedCsvPath?: string;
   reportPath?: string;
   checkApi?: boolean;
+  apiLookups?: ConflictLookups; // Override WorkOS lookups for --check-api (testing)
   dedupe?: boolean;
   dedupedCsvPath?: string;
   dedupeReportPath?: string;
@@ -45,6 +47,7 @@ export interface ValidationSummary {
   mode: 'single-org' | 'multi-org' | 'user-only';
   autoFixApplied: boolean;
   fixedIssues: number;
+  apiConflicts?: number; // Only set when API checking ran
 }
 
 /**
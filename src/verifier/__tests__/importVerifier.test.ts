@@ -0,0 +1,186 @@
+/**
+ * Tests for post-import verification (ImportVerifier)
+ *
+ * Usage: npx tsx src/verifier/__tests__/importVerifier.test.ts
+ */
+
+import { strict as assert } from 'node:assert';
+import fs from 'node:fs';
+import path from 'node:path';
+import { parse } from 'csv-parse/sync';
+import type { VerifiedMembership, VerifiedUser, VerifyLookups } from '../types.js';
+
+const TEMP_DIR = path.join(process.cwd(), '.temp-verify-tests');
+
+/**
+ * Fake WorkOS state: alice fully imported, bob with drift, carol missing
+ */
+function createLookups(calls: string[] = []): VerifyLookups {
+  const users: Record<string, VerifiedUser> = {
+    'alice@acme.com': {
+      id: 'user_alice', firstName: 'Alice', lastName: 'Smith', emailVerified: true,
+      externalId: 'ext-alice', metadata: { plan: 'pro', seats: '5' }
+    },
+    'bob@acme.com': {
+      id: 'user_bob', firstName: 'Robert', lastName: 'Jones', emailVerified: false,
+      externalId: 'ext-bob', metadata: {}
+    }
+  };
+  const orgs: Record<string, string> = { 'ext:acme': 'org_acme', 'ext:beta': 'org_beta', 'id:org_acme': 'org_acme' };
+  const memberships: Record<string, VerifiedMembership[]> = {
+    user_alice: [{ organizationId: 'org_acme', roleSlugs: ['admin'] }],
+    user_bob: [{ organizationId: 'org_acme', roleSlugs: ['member'] }]
+  };
+
+  return {
+    findUserByEmail: async (email) => {
+      calls.push(`user:${email}`);
+      return users[email.toLowerCase()] ?? null;
+    },
+    resolveOrganization: async ({ orgId, orgExternalId }) => {
+      calls.push(`org:${orgId ?? orgExternalId}`);
+      return orgs[orgId ? `id:${orgId}` : `ext:${orgExternalId}`] ?? null;
+    },
+    listMemberships: async (userId) => {
+      calls.push(`memberships:${userId}`);
+      return memberships[userId] ?? [];
+    }
+  };
+}
+
+async function runTests() {
+  fs.mkdirSync(TEMP_DIR, { recursive: true });
+  let passed = 0;
+  let failed = 0;
+
+  async function test(name: string, fn: () => Promise<void> | void) {
+    try {
+      await fn();
+      console.log(`  ✓ ${name}`);
+      passed++;
+    } catch (err: any) {
+      console.log(`  ✗ ${name}`);
+      console.log(`    ${err.message}`);
+      failed++;
+    }
+  }
+
+  const { ImportVerifier } = await import('../importVerifier.js');
+
+  console.log('Import Verifier tests\n');
+
+  const csvPath = path.join(TEMP_DIR, 'users.csv');
+  fs.writeFileSync(csvPath, [
+    'email,first_name,last_name,email_verified,external_id,metadata,org_external_id,role_slugs',
+    'alice@acme.com,Alice,Smith,true,ext-alice,"{""plan"":""pro""}",acme,admin',
+    'bob@acme.com,Bob,Jones,true,ext-bob,"{""plan"":""free""}",acme,admin',
+    'bob@acme.com,Bob,Jones,true,ext-bob,,beta,',
+    'carol@acme.com,Carol,White,true,ext-carol,,acme,',
+    'dave@acme.com,Dave,Black,true,ext-dave,,missing-org,',
+    ',No,Email,,,,,'
+  ].join('\n'));
+
+  await test('reports missing users, memberships, orgs and field drift', async () => {
+    const reportPath = path.join(TEMP_DIR, 'report.json');
+    const report = await new ImportVerifier({ csvPath, reportPath, lookups: createLookups(), rateLimit: 1000, quiet: true }).verify();
+
+    assert.strictEqual(report.status, 'discrepancies');
+    assert.strictEqual(report.summary.totalRows, 6);
+    assert.strictEqual(report.summary.verifiedRows, 1, 'Only alice matches');
+    assert.strictEqual(report.summary.missingUsers, 2, 'carol and dave');
+    assert.strictEqual(report.summary.missingMemberships, 1, 'bob in beta');
+    assert.strictEqual(report.summary.invalidRows, 1);
+
+    const bobDrift = report.issues.filter(i => i.recordNumber === 2).map(i => i.field).sort();
+    assert.deepStrictEqual(bobDrift, ['email_verified', 'first_name', 'metadata.plan', 'role_slugs']);
+    assert.ok(report.csvHash.length > 0);
+
+    const saved = JSON.parse(fs.readFileSync(reportPath, 'utf8'));
+    assert.strictEqual(saved.summary.discrepancyRows, 5);
+  });
+
+  await test('caches lookups per user and organization', async () => {
+    const calls: string[] = [];
+    await new ImportVerifier({ csvPath, lookups: createLookups(calls), rateLimit: 1000, concurrency: 1, quiet: true }).verify();
+    assert.strictEqual(calls.filter(c => c === 'user:bob@acme.com').length, 1);
+    assert.strictEqual(calls.filter(c => c === 'org:acme').length, 1);
+    assert.strictEqual(calls.filter(c => c === 'memberships:user_bob').length, 1);
+  });
+
+  await test('writes one retry row per record with discrepancies', async () => {
+    const retryCsvPath = path.join(TEMP_DIR, 'retry.csv');
+    const verifier = new ImportVerifier({ csvPath, retryCsvPath, lookups: createLookups(), rateLimit: 1000, quiet: true });
+    const report = await verifier.verify();
+
+    const rows = parse(fs.readFileSync(retryCsvPath, 'utf8'), { columns: true }) as Record<string, string>[];
+    assert.strictEqual(rows.length, 4, 'Invalid row is not retried');
+    assert.strictEqual(report.summary.retryRows, 4);
+    assert.deepStrictEqual(rows.map(r => r.email), ['bob@acme.com', 'bob@acme.com', 'carol@acme.com', 'dave@acme.com']);
+    assert.strictEqual(Object.keys(rows[0]!)[0], 'email', 'Standard columns first');
+    assert.strictEqual(verifier.getRetryRows()[0]?.errorRecord.errorType, 'user_update');
+  });
+
+  await test('single-org mode checks membership in the given organization', async () => {
+    const singleOrgCsv = path.join(TEMP_DIR, 'single.csv');
+    fs.writeFileSync(singleOrgCsv, 'email,first_name\nalice@acme.com,Alice\n');
+    const report = await new ImportVerifier({
+      csvPath: singleOrgCsv, orgId: 'org_other', lookups: createLookups(), rateLimit: 1000, quiet: true
+    }).verify();
+    assert.strictEqual(report.summary.missingMemberships, 1);
+    assert.strictEqual(report.issues[0]?.orgId, 'org_other');
+  });
+
+  await test('lookup failures are reported per row', async () => {
+    const lookups = createLookups();
+    lookups.findUserByEmail = async () => { throw new Error('HTTP 500'); };
+    const report = await new ImportVerifier({ csvPath, lookups, rateLimit: 1000, quiet: true }).verify();
+    assert.strictEqual(report.summary.lookupFailures, 5);
+    assert.strictEqual(report.summary.retryRows, 0);
+  });
+
+  await test('rate-limited lookups are retried', async () => {
+    const lookups = createLookups();
+    const listMemberships = lookups.listMemberships;
+    let throttled = false;
+    lookups.listMemberships = async (userId) => {
+      if (!throttled) {
+        throttled = true;
+        throw Object.assign(new Error('Rate limit exceeded'), { status: 429 });
+      }
+      return listMemberships(userId);
+    };
+    const report = await new ImportVerifier({ csvPath, lookups, rateLimit: 1000, concurrency: 1, quiet: true }).verify();
+    assert.strictEqual(report.summary.lookupFailures, 0);
+    assert.strictEqual(report.summary.verifiedRows, 1);
+  });
+
+  await test('failed lookups are not cached', async () => {
+    const calls: string[] = [];
+    const lookups = createLookups(calls);
+    const findUserByEmail = lookups.findUserByEmail;
+    lookups.findUserByEmail = async (email) => {
+      if (email === 'bob@acme.com' && !calls.includes('user:bob@acme.com')) {
+        calls.push('user:bob@acme.com');
+        throw Object.assign(new Error('Forbidden'), { status: 403 });
+      }
+      return findUserByEmail(email);
+    };
+    const report = await new ImportVerifier({ csvPath, lookups, rateLimit: 1000, concurrency: 1, quiet: true }).verify();
+    assert.strictEqual(report.summary.lookupFailures, 1, 'Only the first bob row fails');
+    assert.strictEqual(report.summary.missingMemberships, 1, 'The second bob row is still checked');
+    assert.strictEqual(calls.filter(c => c === 'user:bob@acme.com').length, 2);
+  });
+
+  fs.rmSync(TEMP_DIR, { recursive: true, force: true });
+
+  // Summary
+  console.log(`\n${passed} passed, ${failed} failed`);
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+runTests().catch((err) => {
+  console.error('Unhandled error:', err);
+  process.exit(1);
+});
@@ -0,0 +1,377 @@
+/**
+ * Post-import verification
+ *
+ * Streams the source CSV, builds each row exactly as the importer would, and
+ * compares it with WorkOS: user exists, organization membership exists, and
+ * name, email_verified, external_id, metadata keys and roles match.
+ * Produces a JSON report and a retry CSV (same format as the error analyzer's).
+ */
+
+import fs from 'node:fs';
+import { parse } from 'csv-parse';
+import { getWorkOSClient } from '../workos.js';
+import { getOrganizationById, getOrganizationByExternalId } from '../orgs.js';
+import { RateLimiter } from '../rateLimiter.js';
+import { callWithRetry } from '../workosGateway.js';
+import { createLogger } from '../logger.js';
+import { calculateCsvHash } from '../checkpoint/csvUtils.js';
+import { buildUserAndOrgFromRow } from '../importer.js';
+import { generateRetryCsv } from '../analyzer/retryCsvGenerator.js';
+import type { RetryableError } from '../analyzer/types.js';
+import type { CSVRow, ErrorRecord } from '../types.js';
+import type {
+  VerifiedMembership,
+  VerifiedUser,
+  VerifyIssue,
+  VerifyIssueType,
+  VerifyLookups,
+  VerifyOptions,
+  VerifyReport,
+  VerifySummary
+} from './types.js';
+
+const defaultLookups: VerifyLookups = {
+  findUserByEmail: async (email) => {
+    const users = await getWorkOSClient().userManagement.listUsers({ email });
+    const user = users.data[0];
+    if (!user) return null;
+    return {
+      id: user.id,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      emailVerified: user.emailVerified,
+      externalId: user.externalId,
+      metadata: user.metadata ?? {}
+    };
+  },
+  resolveOrganization: async ({ orgId, orgExternalId }) => {
+    if (orgId) return (await getOrganizationById(orgId)) ? orgId : null;
+    if (orgExternalId) return getOrganizationByExternalId(orgExternalId);
+    return null;
+  },
+  listMemberships: async (userId) => {
+    const list = await getWorkOSClient().userManagement.listOrganizationMemberships({ userId, limit: 100 });
+    const memberships = await list.autoPagination();
+    return memberships.map(m => ({
+      organizationId: m.organizationId,
+      roleSlugs: m.roles && m.roles.length > 0 ? m.roles.map(r => r.slug) : m.role ? [m.role.slug] : []
+    }));
+  }
+};
+
+/** Issue types worth re-importing (retry CSV) and the error type they map to */
+const RETRY_ERROR_TYPES: Partial<Record<VerifyIssueType, NonNullable<ErrorRecord['errorType']>>> = {
+  user_missing: 'user_create',
+  org_missing: 'org_resolution',
+  membership_missing: 'membership_create',
+  field_drift: 'user_update',
+  role_drift: 'role_assignment'
+};
+
+export class ImportVerifier {
+  private options: VerifyOptions;
+  private logger: ReturnType<typeof createLogger>;
+  private lookups: VerifyLookups;
+  private limiter: RateLimiter | null = null;
+
+  // Lookups are cached per value: multi-org CSVs repeat users and orgs across rows
+  private users = new Map<string, Promise<VerifiedUser | null>>();
+  private memberships = new Map<string, Promise<VerifiedMembership[]>>();
+  private orgs = new Map<string, Promise<string | null>>();
+
+  private issues: VerifyIssue[] = [];
+  private retryRows: RetryableError[] = [];
+  private summary: VerifySummary = {
+    totalRows: 0,
+    verifiedRows: 0,
+    discrepancyRows: 0,
+    missingUsers: 0,
+    missingOrganizations: 0,
+    missingMemberships: 0,
+    fieldDrift: 0,
+    roleDrift: 0,
+    invalidRows: 0,
+    lookupFailures: 0,
+    retryRows: 0
+  };
+
+  constructor(options: VerifyOptions) {
+    this.options = options;
+    this.logger = createLogger({ quiet: options.quiet });
+    this.lookups = options.lookups ?? defaultLookups;
+  }
+
+  /**
+   * Verify every CSV row against WorkOS
+   */
+  async verify(): Promise<VerifyReport> {
+    const { csvPath, concurrency = 10, rateLimit = 50 } = this.options;
+    const startedAt = new Date().toISOString();
+
+    if (!fs.existsSync(csvPath)) {
+      throw new Error(`CSV file not found: ${csvPath}`);
+    }
+
+    this.logger.log('Starting import verification...');
+    this.logger.log(`CSV file: ${csvPath}`);
+    const csvHash = await calculateCsvHash(csvPath);
+
+    this.limiter = new RateLimiter(rateLimit);
+    try {
+      const parser = fs.createReadStream(csvPath).pipe(parse({
+        columns: true,
+        bom: true,
+        skip_empty_lines: true,
+        trim: true
+      }));
+
+      let recordNumber = 0;
+      let batch: Promise<void>[] = [];
+      for await (const row of parser) {
+        recordNumber += 1;
+        batch.push(this.verifyRow(row as CSVRow, recordNumber));
+        if (batch.length >= concurrency) {
+          await Promise.all(batch);
+          batch = [];
+        }
+        if (recordNumber % 1000 === 0) {
+          this.logger.log(`Verified ${recordNumber} rows...`);
+        }
+      }
+      await Promise.all(batch);
+      this.summary.totalRows = recordNumber;
+    } finally {
+      this.limiter.stop();
+      this.limiter = null;
+    }
+
+    this.issues.sort((a, b) => a.recordNumber - b.recordNumber);
+    this.retryRows.sort((a, b) => a.errorRecord.recordNumber - b.errorRecord.recordNumber);
+    this.summary.retryRows = this.retryRows.length;
+
+    if (this.options.retryCsvPath && this.retryRows.length > 0) {
+      // One retry row per CSV record (multi-org rows for one user are all kept)
+      await generateRetryCsv(this.retryRows, this.options.retryCsvPath, true);
+      this.logger.log(`Retry CSV written: ${this.options.retryCsvPath}`);
+    }
+
+    const report: VerifyReport = {
+      status: this.summary.discrepancyRows > 0 ? 'discrepancies' : 'verified',
+      summary: this.summary,
+      issues: this.issues,
+      csvPath,
+      csvHash,
+      startedAt,
+      completedAt: new Date().toISOString()
+    };
+
+    if (this.options.reportPath) {
+      fs.writeFileSync(this.options.reportPath, JSON.stringify(report, null, 2), 'utf8');
+      this.logger.log(`Report written: ${this.options.reportPath}`);
+    }
+
+    return report;
+  }
+
+  /**
+   * Rows written (or to be written) to the retry CSV
+   */
+  getRetryRows(): RetryableError[] {
+    return this.retryRows;
+  }
+
+  private async verifyRow(row: CSVRow, recordNumber: number): Promise<void> {
+    const rowIssues: VerifyIssue[] = [];
+    const built = buildUserAndOrgFromRow(row);
+    const email = typeof row.email === 'string' ? row.email : undefined;
+
+    if (built.error || !built.userPayload) {
+      rowIssues.push({
+        type: 'invalid_row',
+        recordNumber,
+        email,
+        message: built.error ?? 'Row could not be parsed'
+      });
+      this.record(row, recordNumber, rowIssues);
+      return;
+    }
+
+    const payload = built.userPayload;
+    try {
+      const user = await this.cached(this.users, payload.email.toLowerCase(),
+        () => this.lookups.findUserByEmail(payload.email));
+
+      if (!user) {
+        rowIssues.push({
+          type: 'user_missing',
+          recordNumber,
+          email: payload.email,
+          message: `User not found in WorkOS: ${payload.email}`
+        });
+      } else {
+        rowIssues.push(...this.compareUser(payload, user, recordNumber));
+
+        const orgRef = this.options.orgId
+          ? { orgId: this.options.orgId }
+          : built.orgInfo && (built.orgInfo.orgId || built.orgInfo.orgExternalId)
+            ? { orgId: built.orgInfo.orgId, orgExternalId: built.orgInfo.orgExternalId }
+            : undefined;
+
+        if (orgRef) {
+          const orgKey = orgRef.orgId ? `id:${orgRef.orgId}` : `ext:${orgRef.orgExternalId}`;
+          const resolvedOrgId = this.options.orgId
+            ? this.options.orgId
+            : await this.cached(this.orgs, orgKey, () => this.lookups.resolveOrganization(orgRef));
+
+          if (!resolvedOrgId) {
+            rowIssues.push({
+              type: 'org_missing',
+              recordNumber,
+              email: payload.email,
+              userId: user.id,
+              message: `Organization not found in WorkOS: ${orgRef.orgId ?? orgRef.orgExternalId}`
+            });
+          } else {
+            const memberships = await this.cached(this.memberships, user.id,
+              () => this.lookups.listMemberships(user.id));
+            const membership = memberships.find(m => m.organizationId === resolvedOrgId);
+
+            if (!membership) {
+              rowIssues.push({
+                type: 'membership_missing',
+                recordNumber,
+                email: payload.email,
+                userId: user.id,
+                orgId: resolvedOrgId,
+                message: `User ${payload.email} is not a member of organization ${resolvedOrgId}`
+              });
+            } else {
+              const mappedRoles = this.options.userRoleMapping?.get(payload.externalId ?? '') ?? [];
+              const expectedRoles = [...new Set([...(built.roleSlugs ?? []), ...mappedRoles])];
+              const missingRoles = expectedRoles.filter(slug => !membership.roleSlugs.includes(slug));
+              if (missingRoles.length > 0) {
+                rowIssues.push({
+                  type: 'role_drift',
+                  recordNumber,
+                  email: payload.email,
+                  userId: user.id,
+                  orgId: resolvedOrgId,
+                  field: 'role_slugs',
+                  expected: expectedRoles,
+                  actual: membership.roleSlugs,
+                  message: `Missing role(s) ${missingRoles.join(', ')} in organization ${resolvedOrgId}`
+                });
+              }
+            }
+          }
+        }
+      }
+    } catch (err: any) {
+      rowIssues.push({
+        type: 'lookup_failed',
+        recordNumber,
+        email: payload.email,
+        message: `WorkOS lookup failed: ${err?.message || String(err)}`
+      });
+    }
+
+    this.record(row, recordNumber, rowIssues);
+  }
+
+  private compareUser(
+    payload: NonNullable<ReturnType<typeof buildUserAndOrgFromRow>['userPayload']>,
+    user: VerifiedUser,
+    recordNumber: number
+  ): VerifyIssue[] {
+    const issues: VerifyIssue[] = [];
+    const drift = (field: string, expected: unknown, actual: unknown) => {
+      issues.push({
+        type: 'field_drift',
+        recordNumber,
+        email: payload.email,
+        userId: user.id,
+        field,
+        expected,
+        actual,
+        message: `${field} differs: expected ${JSON.stringify(expected)}, found ${JSON.stringify(actual ?? null)}`
+      });
+    };
+
+    if (payload.firstName !== undefined && payload.firstName !== user.firstName) {
+      drift('first_name', payload.firstName, user.firstName);
+    }
+    if (payload.lastName !== undefined && payload.lastName !== user.lastName) {
+      drift('last_name', payload.lastName, user.lastName);
+    }
+    if (payload.emailVerified !== undefined && payload.emailVerified !== user.emailVerified) {
+      drift('email_verified', payload.emailVerified, user.emailVerified);
+    }
+    if (payload.externalId !== undefined && payload.externalId !== user.externalId) {
+      drift('external_id', payload.externalId, user.externalId);
+    }
+    // WorkOS stores metadata values as strings
+    for (const [key, value] of Object.entries(payload.metadata ?? {})) {
+      const actual = user.metadata[key];
+      if (actual === undefined || String(actual) !== String(value)) {
+        drift(`metadata.${key}`, value, actual);
+      }
+    }
+
+    return issues;
+  }
+
+  private record(row: CSVRow, recordNumber: number, rowIssues: VerifyIssue[]): void {
+    if (rowIssues.length === 0) {
+      this.summary.verifiedRows += 1;
+      return;
+    }
+
+    this.summary.discrepancyRows += 1;
+    for (const issue of rowIssues) {
+      switch (issue.type) {
+        case 'invalid_row': this.summary.invalidRows += 1; break;
+        case 'user_missing': this.summary.missingUsers += 1; break;
+        case 'org_missing': this.summary.missingOrganizations += 1; break;
+        case 'membership_missing': this.summary.missingMemberships += 1; break;
+        case 'field_drift': this.summary.fieldDrift += 1; break;
+        case 'role_drift': this.summary.roleDrift += 1; break;
+        case 'lookup_failed': this.summary.lookupFailures += 1; break;
+      }
+    }
+    this.issues.push(...rowIssues);
+
+    const retryIssue = rowIssues.find(issue => RETRY_ERROR_TYPES[issue.type]);
+    if (retryIssue) {
+      this.retryRows.push({
+        email: retryIssue.email ?? '',
+        rawRow: row as Record<string, unknown>,
+        errorRecord: {
+          recordNumber,
+          email: retryIssue.email,
+          userId: retryIssue.userId,
+          errorType: RETRY_ERROR_TYPES[retryIssue.type],
+          errorMessage: retryIssue.message,
+          timestamp: new Date().toISOString(),
+          rawRow: row as Record<string, unknown>,
+          orgId: retryIssue.orgId
+        }
+      });
+    }
+  }
+
+  /**
+   * Run a rate-limited lookup once per key, retrying 429s, 5xx and network
+   * errors. Failed lookups are evicted so later rows for the key try again.
+   */
+  private cached<T>(cache: Map<string, Promise<T>>, key: string, fn: () => Promise<T>): Promise<T> {
+    let pending = cache.get(key);
+    if (!pending) {
+      pending = callWithRetry(fn, this.limiter ?? undefined);
+      cache.set(key, pending);
+      pending.catch(() => {
+        if (cache.get(key) === pending) cache.delete(key);
+      });
+    }
+    return pending;
+  }
+}
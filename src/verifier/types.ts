@@ -0,0 +1,109 @@
+/**
+ * Post-import verification: type definitions
+ *
+ * Compares a source CSV against WorkOS after an import and reports
+ * missing users, missing memberships and field drift.
+ */
+
+/**
+ * WorkOS state of a user, as needed for comparison
+ */
+export interface VerifiedUser {
+  id: string;
+  firstName: string | null;
+  lastName: string | null;
+  emailVerified: boolean;
+  externalId: string | null;
+  metadata: Record<string, unknown>;
+}
+
+/**
+ * WorkOS state of one organization membership
+ */
+export interface VerifiedMembership {
+  organizationId: string;
+  roleSlugs: string[];
+}
+
+/**
+ * WorkOS lookups used by the verifier (injectable for tests)
+ */
+export interface VerifyLookups {
+  /** Return the user with this email, or null if none exists */
+  findUserByEmail: (email: string) => Promise<VerifiedUser | null>;
+  /** Return the organization ID for an org_id / org_external_id, or null if it does not exist */
+  resolveOrganization: (ref: { orgId?: string; orgExternalId?: string }) => Promise<string | null>;
+  /** Return all organization memberships of a user */
+  listMemberships: (userId: string) => Promise<VerifiedMembership[]>;
+}
+
+export interface VerifyOptions {
+  csvPath: string;
+  /** Target organization for single-org imports (CSV org columns are ignored when set) */
+  orgId?: string | null;
+  /** external_id → role slugs, same as the importer's --role-mapping */
+  userRoleMapping?: Map<string, string[]>;
+  reportPath?: string;
+  retryCsvPath?: string;
+  /** Rows verified concurrently (default: 10) */
+  concurrency?: number;
+  /** API requests per second (default: 50) */
+  rateLimit?: number;
+  lookups?: VerifyLookups;
+  quiet?: boolean;
+}
+
+export type VerifyIssueType =
+  | 'invalid_row'
+  | 'user_missing'
+  | 'org_missing'
+  | 'membership_missing'
+  | 'field_drift'
+  | 'role_drift'
+  | 'lookup_failed';
+
+/**
+ * One discrepancy between the CSV and WorkOS
+ */
+export interface VerifyIssue {
+  type: VerifyIssueType;
+  recordNumber: number;
+  email?: string;
+  userId?: string;
+  orgId?: string;
+  /** CSV column (metadata keys as metadata.<key>) */
+  field?: string;
+  expected?: unknown;
+  actual?: unknown;
+  message: string;
+}
+
+export interface VerifySummary {
+  totalRows: number;
+  /** Rows with no discrepancies */
+  verifiedRows: number;
+  /** Rows with at least one discrepancy */
+  discrepancyRows: number;
+  missingUsers: number;
+  missingOrganizations: number;
+  missingMemberships: number;
+  fieldDrift: number;
+  roleDrift: number;
+  invalidRows: number;
+  lookupFailures: number;
+  /** Rows written to the retry CSV */
+  retryRows: number;
+}
+
+/**
+ * Verification report (sign-off artifact)
+ */
+export interface VerifyReport {
+  status: 'verified' | 'discrepancies';
+  summary: VerifySummary;
+  issues: VerifyIssue[];
+  csvPath: string;
+  csvHash: string;
+  startedAt: string;
+  completedAt: string;
+}
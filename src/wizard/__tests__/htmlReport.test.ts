@@ -0,0 +1,175 @@
+/**
+ * Tests for the HTML migration report
+ *
+ * Usage: npx tsx src/wizard/__tests__/htmlReport.test.ts
+ */
+
+import { strict as assert } from 'node:assert';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import type { CheckpointState } from '../../checkpoint/types.js';
+import type { AnalysisReport } from '../../analyzer/types.js';
+import type { ValidationReport } from '../../validator/types.js';
+import type { MigrationPlan, MigrationResult } from '../types.js';
+
+async function runTests() {
+  let passed = 0;
+  let failed = 0;
+
+  async function test(name: string, fn: () => Promise<void> | void) {
+    try {
+      await fn();
+      console.log(`  ✓ ${name}`);
+      passed++;
+    } catch (err: any) {
+      console.log(`  ✗ ${name}`);
+      console.log(`    ${err.message}`);
+      failed++;
+    }
+  }
+
+  console.log('HTML Report tests\n');
+
+  const { renderMigrationReport, generateHtmlReport } = await import('../htmlReport.js');
+  const { maskEmail } = await import('../../redaction.js');
+  const { saveMigrationSummary } = await import('../summaryReporter.js');
+
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'html-report-'));
+
+  const validation: ValidationReport = {
+    summary: {
+      totalRows: 3, validRows: 2, invalidRows: 1, warningRows: 0, duplicateEmails: 0,
+      duplicateExternalIds: 0, mode: 'multi-org', autoFixApplied: false, fixedIssues: 0
+    },
+    issues: [{ severity: 'error', category: 'row', recordNumber: 2, message: 'Invalid email format: bob@acme', ruleId: 'email-format' }],
+    timestamp: '2026-01-01T00:00:00.000Z',
+    csvHash: 'abc'
+  };
+
+  const errorAnalysis = {
+    summary: { totalErrors: 1, retryableErrors: 0, nonRetryableErrors: 1, uniqueEmails: 1, uniqueErrorPatterns: 1, errorsByType: {}, errorsByStatus: {} },
+    groups: [{
+      id: 'g1', pattern: 'User <EMAIL> <script>bad</script>', errorType: 'user_create', httpStatus: 422, count: 1,
+      severity: 'critical', retryable: false, affectedEmails: ['john.doe@example.com'],
+      examples: [{
+        recordNumber: 7, email: 'john.doe@example.com', errorMessage: 'User john.doe@example.com is invalid',
+        timestamp: '2026-01-01T00:00:00.000Z', rawRow: { email: 'john.doe@example.com', password: 'hunter2' }
+      }]
+    }],
+    retryability: {
+      retryable: { count: 0, percentage: 0, byReason: {}, byPhase: { full: 0, membership: 0, role: 0 } },
+      nonRetryable: { count: 1, percentage: 100, byReason: { validation_error: 1 } }
+    },
+    suggestions: [{ groupId: 'g1', pattern: 'User <EMAIL>', severity: 'critical', affectedCount: 1, suggestion: 'Fix emails in CSV', actionable: true }],
+    timestamp: '2026-01-01T00:00:00.000Z',
+    errorsFile: 'errors.jsonl',
+    errorsFileHash: 'def'
+  } as AnalysisReport;
+
+  const checkpoint = {
+    jobId: 'job-1', csvPath: 'users.csv', csvHash: 'x', createdAt: 0, updatedAt: 0, chunkSize: 2, concurrency: 5,
+    totalRows: 3, mode: 'multi-org',
+    chunks: [
+      { chunkId: 0, startRow: 1, endRow: 2, status: 'completed', successes: 2, failures: 0, membershipsCreated: 2, usersCreated: 2, duplicateUsers: 0, duplicateMemberships: 0, durationMs: 1500 },
+      { chunkId: 1, startRow: 3, endRow: 3, status: 'completed', successes: 0, failures: 1, membershipsCreated: 0, usersCreated: 0, duplicateUsers: 0, duplicateMemberships: 0, durationMs: 500 }
+    ],
+    summary: { total: 3, successes: 2, failures: 1, membershipsCreated: 2, usersCreated: 2, duplicateUsers: 0, duplicateMemberships: 0, startedAt: 0, endedAt: 2000, warnings: [] }
+  } as CheckpointState;
+
+  await test('masks emails', () => {
+    assert.equal(maskEmail('john.doe@example.com'), 'j***@example.com');
+    assert.equal(maskEmail('not-an-email'), '***');
+  });
+
+  await test('renders all sections without external assets', () => {
+    const html = renderMigrationReport({ validation, errorAnalysis, checkpoint });
+
+    for (const heading of ['Overview', 'Validation', 'Import Chunks', 'Error Analysis', 'Recommendations']) {
+      assert.ok(html.includes(`<h2>${heading}</h2>`), `Should include ${heading}`);
+    }
+    assert.ok(html.includes('Mode: multi-org'), 'Should show the mode');
+    assert.ok(!/<link|<script|<img|https?:\/\//.test(html), 'Should not reference external assets');
+  });
+
+  await test('masks PII in error examples and escapes HTML', () => {
+    const html = renderMigrationReport({ errorAnalysis });
+
+    assert.ok(!html.includes('john.doe@example.com'), 'Should not include the plaintext email');
+    assert.ok(!html.includes('hunter2'), 'Should not include raw row values');
+    assert.ok(html.includes('j***@example.com'), 'Should include the masked email');
+    assert.ok(html.includes('&lt;script&gt;bad&lt;/script&gt;'), 'Should escape error patterns');
+    assert.ok(html.includes('Fix emails in CSV'), 'Should list actionable suggestions');
+  });
+
+  await test('shows per-chunk timing from the checkpoint', () => {
+    const html = renderMigrationReport({ checkpoint });
+
+    assert.ok(html.includes('1–2'), 'Should show the chunk row range');
+    assert.ok(html.includes('2s'), 'Should show the chunk duration');
+    assert.ok(html.includes('1.3/s'), 'Should show rows per second');
+    assert.ok(html.includes('500ms / 1s / 2s'), 'Should show min / avg / max chunk time');
+  });
+
+  await test('returns null when no report files exist', () => {
+    assert.equal(generateHtmlReport({
+      validationReportPath: path.join(tempDir, 'missing-1.json'),
+      errorAnalysisPath: path.join(tempDir, 'missing-2.json'),
+      roleDefinitionsReportPath: path.join(tempDir, 'missing-3.json'),
+      migrationSummaryPath: path.join(tempDir, 'missing-4.json'),
+      outputPath: path.join(tempDir, 'none.html')
+    }), null);
+  });
+
+  await test('saveMigrationSummary writes the HTML report from the plan\'s report paths', () => {
+    const validationPath = path.join(tempDir, 'validation.json');
+    const analysisPath = path.join(tempDir, 'analysis.json');
+    const rolesPath = path.join(tempDir, 'roles.json');
+    fs.writeFileSync(validationPath, JSON.stringify(validation));
+    fs.writeFileSync(analysisPath, JSON.stringify(errorAnalysis));
+    fs.writeFileSync(rolesPath, JSON.stringify({
+      total: 1, created: 1, alreadyExist: 0, skipped: 0, errors: 0, warnings: [],
+      results: [{ slug: 'billing-admin', action: 'created', warnings: [] }]
+    }));
+
+    const plan: MigrationPlan = {
+      source: 'custom',
+      importMode: 'multi-org',
+      steps: [
+        { id: 'process-role-definitions', name: '', description: '', command: '', args: ['--report', rolesPath], optional: false },
+        { id: 'validate', name: '', description: '', command: '', args: ['--report', validationPath], optional: false },
+        { id: 'analyze-errors', name: '', description: '', command: '', args: ['--report', analysisPath], optional: true }
+      ],
+      warnings: [],
+      recommendations: ['Run a dry run first']
+    };
+    const result: MigrationResult = {
+      success: true, totalSteps: 1, completedSteps: 1, failedSteps: 0, skippedSteps: 0,
+      stepResults: [{ stepId: 'import', success: true, startTime: 0, endTime: 1000 }],
+      totalDuration: 1000,
+      summary: {}
+    };
+
+    const log = console.log;
+    console.log = () => {};
+    try {
+      saveMigrationSummary(result, plan, path.join(tempDir, 'migration-summary.json'));
+    } finally {
+      console.log = log;
+    }
+
+    const html = fs.readFileSync(path.join(tempDir, 'migration-report.html'), 'utf-8');
+    assert.ok(html.includes('billing-admin'), 'Should include role results');
+    assert.ok(html.includes('Run a dry run first'), 'Should include plan recommendations');
+    assert.ok(html.includes('Source: custom'), 'Should include the migration summary');
+    assert.ok(html.includes('<h2>Validation</h2>'), 'Should include the validation report');
+  });
+
+  fs.rmSync(tempDir, { recursive: true, force: true });
+
+  // Summary
+  console.log(`\n${passed} passed, ${failed} failed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+runTests();
@@ -0,0 +1,94 @@
+/**
+ * Tests for migration planner TOTP enrollment step
+ *
+ * Usage: npx tsx src/wizard/__tests__/migrationPlannerTotp.test.ts
+ */
+
+import { strict as assert } from 'node:assert';
+
+async function runTests() {
+  let passed = 0;
+  let failed = 0;
+
+  async function test(name: string, fn: () => Promise<void> | void) {
+    try {
+      await fn();
+      console.log(`  ✓ ${name}`);
+      passed++;
+    } catch (err: any) {
+      console.log(`  ✗ ${name}`);
+      console.log(`    ${err.message}`);
+      failed++;
+    }
+  }
+
+  console.log('Migration Planner TOTP tests\n');
+
+  const { generateMigrationPlan } = await import('../migrationPlanner.js');
+
+  await test('chains enroll-totp after import for Clerk sources', () => {
+    const plan = generateMigrationPlan({
+      source: 'clerk',
+      clerkCsvPath: 'clerk-export.csv',
+      importMode: 'multi-org',
+      scale: 'small',
+      enableCheckpointing: false,
+      validateCsv: true,
+      logErrors: true,
+      totpIssuer: 'Acme',
+    });
+
+    const transformStep = plan.steps.find(s => s.id === 'clerk-transform')!;
+    const totpOutput = transformStep.args[transformStep.args.indexOf('--totp-output') + 1];
+    assert.strictEqual(totpOutput, 'clerk-totp-secrets.csv');
+
+    const ids = plan.steps.map(s => s.id);
+    const enrollStep = plan.steps.find(s => s.id === 'enroll-totp');
+    assert.ok(enrollStep, 'Should include enroll-totp step');
+    assert.ok(ids.indexOf('enroll-totp') > ids.indexOf('import'), 'Enrollment runs after import');
+    assert.strictEqual(enrollStep.args[enrollStep.args.indexOf('--input') + 1], totpOutput);
+    assert.ok(enrollStep.args.includes('Acme'));
+    assert.ok(!enrollStep.args.includes('--format'));
+  });
+
+  await test('uses the provided secrets file for other sources', () => {
+    const plan = generateMigrationPlan({
+      source: 'custom',
+      customCsvPath: 'users.csv',
+      importMode: 'single-org',
+      orgId: 'org_123',
+      scale: 'small',
+      enableCheckpointing: false,
+      validateCsv: true,
+      logErrors: true,
+      hasTotpSecrets: true,
+      totpSecretsPath: 'mfa.ndjson',
+      totpSecretsFormat: 'ndjson',
+    });
+
+    const enrollStep = plan.steps.find(s => s.id === 'enroll-totp')!;
+    assert.strictEqual(enrollStep.args[enrollStep.args.indexOf('--input') + 1], 'mfa.ndjson');
+    assert.ok(enrollStep.args.includes('ndjson'));
+  });
+
+  await test('omits enroll-totp for non-Clerk sources without secrets', () => {
+    const plan = generateMigrationPlan({
+      source: 'custom',
+      customCsvPath: 'users.csv',
+      importMode: 'single-org',
+      orgId: 'org_123',
+      scale: 'small',
+      enableCheckpointing: false,
+      validateCsv: true,
+      logErrors: true,
+    });
+
+    assert.ok(!plan.steps.some(s => s.id === 'enroll-totp'));
+  });
+
+  // Summary
+  console.log(`\n${passed} passed, ${failed} failed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+runTests();
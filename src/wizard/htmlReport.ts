@@ -0,0 +1,417 @@
+/**
+ * Migration Wizard - HTML Report
+ *
+ * Merges validation-report.json, the error analysis report,
+ * role-definitions-report.json, migration-summary.json and the import
+ * checkpoint into a single self-contained HTML file (inline styles, no
+ * external assets) to hand to stakeholders. Emails are masked.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { DEFAULT_CHECKPOINT_DIR } from '../checkpoint/manager.js';
+import type { CheckpointState } from '../checkpoint/types.js';
+import type { AnalysisReport } from '../analyzer/types.js';
+import type { RoleDefinitionsSummary } from '../roles/types.js';
+import type { ValidationReport } from '../validator/types.js';
+import { maskEmail, redactText } from '../redaction.js';
+import type { MigrationSummaryFile } from './types.js';
+
+/** Report file paths; missing files are left out of the report */
+export interface HtmlReportOptions {
+  validationReportPath?: string;       // default: validation-report.json
+  errorAnalysisPath?: string;          // default: error-analysis-report.json
+  roleDefinitionsReportPath?: string;  // default: role-definitions-report.json
+  migrationSummaryPath?: string;       // default: migration-summary.json
+  jobId?: string;                      // Import job whose checkpoint provides chunk timing
+  checkpointDir?: string;              // default: .workos-checkpoints
+  outputPath?: string;                 // default: migration-report.html
+}
+
+/** role-definitions-report.json as written by process-role-definitions */
+export type RoleDefinitionsReport = RoleDefinitionsSummary & {
+  processedAt?: string;
+  durationMs?: number;
+  dryRun?: boolean;
+};
+
+/** Parsed inputs of the HTML report */
+export interface MigrationReportSources {
+  validation?: ValidationReport;
+  errorAnalysis?: AnalysisReport;
+  roleDefinitions?: RoleDefinitionsReport;
+  migrationSummary?: MigrationSummaryFile;
+  checkpoint?: CheckpointState;
+}
+
+const MAX_ISSUE_RULES = 20;
+const MAX_ERROR_GROUPS = 20;
+
+/**
+ * Read the report files that exist
+ */
+export function loadReportSources(options: HtmlReportOptions): MigrationReportSources {
+  const checkpointPath = options.jobId
+    ? path.join(options.checkpointDir || DEFAULT_CHECKPOINT_DIR, options.jobId, 'checkpoint.json')
+    : undefined;
+
+  return {
+    validation: readJson<ValidationReport>(options.validationReportPath || 'validation-report.json'),
+    errorAnalysis: readJson<AnalysisReport>(options.errorAnalysisPath || 'error-analysis-report.json'),
+    roleDefinitions: readJson<RoleDefinitionsReport>(options.roleDefinitionsReportPath || 'role-definitions-report.json'),
+    migrationSummary: readJson<MigrationSummaryFile>(options.migrationSummaryPath || 'migration-summary.json'),
+    checkpoint: checkpointPath ? readJson<CheckpointState>(checkpointPath) : undefined
+  };
+}
+
+/**
+ * Write the HTML report. Returns the output path, or null if none of the
+ * report files exist.
+ */
+export function generateHtmlReport(options: HtmlReportOptions = {}): string | null {
+  const sources = loadReportSources(options);
+  if (Object.values(sources).every(source => source === undefined)) {
+    return null;
+  }
+
+  const outputPath = options.outputPath || 'migration-report.html';
+  fs.writeFileSync(outputPath, renderMigrationReport(sources), 'utf-8');
+  return outputPath;
+}
+
+/**
+ * Render the report as a self-contained HTML document
+ */
+export function renderMigrationReport(sources: MigrationReportSources, generatedAt: Date = new Date()): string {
+  const { validation, errorAnalysis, roleDefinitions, migrationSummary, checkpoint } = sources;
+
+  const modes = [...new Set([
+    migrationSummary?.importMode,
+    checkpoint?.mode,
+    validation?.summary.mode
+  ].filter((mode): mode is NonNullable<typeof mode> => Boolean(mode)))];
+
+  const meta = [
+    migrationSummary ? `Source: ${migrationSummary.source}` : undefined,
+    modes.length > 0 ? `Mode: ${modes.join(', ')}` : undefined,
+    `Generated: ${generatedAt.toISOString()}`
+  ].filter(Boolean).join(' · ');
+
+  const body = [
+    renderOverview(sources),
+    migrationSummary ? renderSteps(migrationSummary) : '',
+    validation ? renderValidation(validation) : '',
+    checkpoint ? renderChunks(checkpoint) : '',
+    errorAnalysis ? renderErrorAnalysis(errorAnalysis) : '',
+    roleDefinitions ? renderRoles(roleDefinitions) : '',
+    renderRecommendations(sources)
+  ].filter(Boolean).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>WorkOS Migration Report</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<header>
+<h1>WorkOS Migration Report</h1>
+<p class="meta">${escapeHtml(meta)}</p>
+</header>
+${body}
+</body>
+</html>
+`;
+}
+
+function renderOverview(sources: MigrationReportSources): string {
+  const { migrationSummary, checkpoint, validation, errorAnalysis } = sources;
+  const cards: string[] = [];
+
+  if (migrationSummary) {
+    const { success, completedSteps, totalSteps, totalDuration } = migrationSummary.result;
+    cards.push(card('Status', success ? 'Succeeded' : 'Completed with errors', success ? 'ok' : 'bad'));
+    cards.push(card('Steps completed', `${completedSteps} / ${totalSteps}`));
+    cards.push(card('Duration', formatDuration(totalDuration)));
+  }
+
+  // Checkpoint counts are exact; migration-summary.json counts are parsed from step output
+  const users = checkpoint
+    ? { total: checkpoint.summary.total, successes: checkpoint.summary.successes, failures: checkpoint.summary.failures }
+    : migrationSummary?.result.summary.totalUsers !== undefined
+      ? {
+          total: migrationSummary.result.summary.totalUsers,
+          successes: migrationSummary.result.summary.successfulUsers ?? 0,
+          failures: migrationSummary.result.summary.failedUsers ?? 0
+        }
+      : undefined;
+  if (users) {
+    cards.push(card('Users processed', formatNumber(users.total)));
+    cards.push(card('Imported', formatNumber(users.successes), 'ok'));
+    cards.push(card('Failed', formatNumber(users.failures), users.failures > 0 ? 'bad' : undefined));
+  }
+
+  if (checkpoint) {
+    cards.push(card('Users created', formatNumber(checkpoint.summary.usersCreated)));
+    cards.push(card('Memberships created', formatNumber(checkpoint.summary.membershipsCreated)));
+  }
+  if (validation) {
+    cards.push(card('Invalid CSV rows', formatNumber(validation.summary.invalidRows), validation.summary.invalidRows > 0 ? 'bad' : 'ok'));
+  }
+  if (errorAnalysis) {
+    cards.push(card('Retryable errors', formatNumber(errorAnalysis.summary.retryableErrors)));
+  }
+
+  return section('Overview', `<div class="cards">${cards.join('')}</div>`);
+}
+
+function renderSteps(summary: MigrationSummaryFile): string {
+  const rows = summary.steps.map(step => [
+    escapeHtml(step.stepId),
+    step.skipped ? badge('skipped', 'muted') : step.success ? badge('ok', 'ok') : badge('failed', 'bad'),
+    formatDuration(step.duration),
+    escapeHtml(maskEmails(step.error || ''))
+  ]);
+  return section('Steps', table(['Step', 'Result', 'Duration', 'Error'], rows));
+}
+
+function renderValidation(report: ValidationReport): string {
+  const { summary } = report;
+  const cards = [
+    card('Rows', formatNumber(summary.totalRows)),
+    card('Valid', formatNumber(summary.validRows), 'ok'),
+    card('Invalid', formatNumber(summary.invalidRows), summary.invalidRows > 0 ? 'bad' : undefined),
+    card('With warnings', formatNumber(summary.warningRows)),
+    card('Duplicate emails', formatNumber(summary.duplicateEmails)),
+    card('Auto-fixed issues', formatNumber(summary.fixedIssues))
+  ].join('');
+
+  const byRule = new Map<string, { severity: string; count: number; example: string }>();
+  for (const issue of report.issues) {
+    const entry = byRule.get(issue.ruleId);
+    if (entry) {
+      entry.count++;
+    } else {
+      byRule.set(issue.ruleId, { severity: issue.severity, count: 1, example: issue.message });
+    }
+  }
+  const rows = [...byRule.entries()]
+    .sort((a, b) => b[1].count - a[1].count)
+    .slice(0, MAX_ISSUE_RULES)
+    .map(([ruleId, entry]) => [
+      escapeHtml(ruleId),
+      badge(entry.severity, entry.severity === 'error' ? 'bad' : 'muted'),
+      formatNumber(entry.count),
+      escapeHtml(maskEmails(entry.example))
+    ]);
+
+  const issues = rows.length > 0
+    ? table(['Rule', 'Severity', 'Issues', 'Example'], rows)
+    : '<p>No validation issues.</p>';
+  return section('Validation', `<div class="cards">${cards}</div>${issues}`);
+}
+
+function renderChunks(checkpoint: CheckpointState): string {
+  const durations = checkpoint.chunks
+    .map(chunk => chunk.durationMs)
+    .filter((ms): ms is number => ms !== undefined);
+
+  const cards = [
+    card('Job', checkpoint.jobId),
+    card('Chunks', `${checkpoint.chunks.filter(c => c.status === 'completed').length} / ${checkpoint.chunks.length} completed`),
+    card('Chunk size', formatNumber(checkpoint.chunkSize)),
+    card('Concurrency', String(checkpoint.concurrency))
+  ];
+  if (durations.length > 0) {
+    const average = durations.reduce((sum, ms) => sum + ms, 0) / durations.length;
+    cards.push(card('Chunk time (min / avg / max)',
+      `${formatDuration(Math.min(...durations))} / ${formatDuration(average)} / ${formatDuration(Math.max(...durations))}`));
+  }
+
+  const rows = checkpoint.chunks.map(chunk => {
+    const rowCount = chunk.endRow - chunk.startRow + 1;
+    const rate = chunk.durationMs ? `${(rowCount / (chunk.durationMs / 1000)).toFixed(1)}/s` : '';
+    return [
+      String(chunk.chunkId),
+      `${chunk.startRow}–${chunk.endRow}`,
+      badge(chunk.status, chunk.status === 'completed' ? 'ok' : chunk.status === 'failed' ? 'bad' : 'muted'),
+      formatNumber(chunk.successes),
+      formatNumber(chunk.failures),
+      chunk.durationMs !== undefined ? formatDuration(chunk.durationMs) : '',
+      rate
+    ];
+  });
+
+  return section('Import Chunks',
+    `<div class="cards">${cards.join('')}</div>` +
+    table(['Chunk', 'Rows', 'Status', 'Successes', 'Failures', 'Duration', 'Rows/sec'], rows));
+}
+
+function renderErrorAnalysis(report: AnalysisReport): string {
+  const { summary, retryability } = report;
+  const cards = [
+    card('Errors', formatNumber(summary.totalErrors)),
+    card('Retryable', `${formatNumber(summary.retryableErrors)} (${retryability.retryable.percentage.toFixed(1)}%)`, 'ok'),
+    card('Non-retryable', `${formatNumber(summary.nonRetryableErrors)} (${retryability.nonRetryable.percentage.toFixed(1)}%)`,
+      summary.nonRetryableErrors > 0 ? 'bad' : undefined),
+    card('Affected users', formatNumber(summary.uniqueEmails)),
+    card('Error patterns', formatNumber(summary.uniqueErrorPatterns))
+  ].join('');
+
+  const groups = [...report.groups]
+    .sort((a, b) => b.count - a.count)
+    .slice(0, MAX_ERROR_GROUPS)
+    .map(group => {
+      const examples = group.examples.map(example =>
+        `<li>Record ${example.recordNumber}` +
+        (example.email ? ` · ${escapeHtml(maskEmail(example.email))}` : '') +
+        ` · ${escapeHtml(maskEmails(example.errorMessage))}</li>`
+      ).join('');
+      return `<div class="group">
+<p>${badge(group.severity, group.severity === 'critical' || group.severity === 'high' ? 'bad' : 'muted')} ` +
+        `${badge(group.retryable ? 'retryable' : 'non-retryable', group.retryable ? 'ok' : 'bad')} ` +
+        `<strong>${escapeHtml(maskEmails(group.pattern))}</strong> (${formatNumber(group.count)} errors` +
+        `${group.errorType ? `, ${escapeHtml(group.errorType)}` : ''}${group.httpStatus ? `, HTTP ${group.httpStatus}` : ''})</p>
+${examples ? `<ul>${examples}</ul>` : ''}
+</div>`;
+    })
+    .join('\n');
+
+  return section('Error Analysis', `<div class="cards">${cards}</div>${groups || '<p>No errors.</p>'}`);
+}
+
+function renderRoles(report: RoleDefinitionsReport): string {
+  const cards = [
+    card('Role definitions', formatNumber(report.total)),
+    card('Created', formatNumber(report.created), 'ok'),
+    card('Already existed', formatNumber(report.alreadyExist)),
+    card('Skipped', formatNumber(report.skipped)),
+    card('Errors', formatNumber(report.errors), report.errors > 0 ? 'bad' : undefined)
+  ];
+  if (report.dryRun) {
+    cards.push(card('Mode', 'Dry run'));
+  }
+
+  const rows = report.results.map(result => {
+    const notes = [
+      ...(result.error ? [result.error] : []),
+      ...result.warnings,
+      ...(result.permissionDiff?.missing.length ? [`Missing permissions: ${result.permissionDiff.missing.join(', ')}`] : [])
+    ];
+    return [
+      escapeHtml(result.slug),
+      badge(result.action, result.action === 'error' ? 'bad' : result.action === 'created' ? 'ok' : 'muted'),
+      escapeHtml(notes.join('; '))
+    ];
+  });
+
+  return section('Roles', `<div class="cards">${cards.join('')}</div>${table(['Role', 'Result', 'Notes'], rows)}`);
+}
+
+function renderRecommendations(sources: MigrationReportSources): string {
+  const items: string[] = [];
+
+  for (const warning of sources.migrationSummary?.plan.warnings ?? []) {
+    items.push(`${badge('warning', 'bad')} ${escapeHtml(warning)}`);
+  }
+  for (const recommendation of sources.migrationSummary?.plan.recommendations ?? []) {
+    items.push(escapeHtml(recommendation));
+  }
+  for (const suggestion of sources.errorAnalysis?.suggestions ?? []) {
+    if (!suggestion.actionable) {
+      continue;
+    }
+    items.push(
+      `<strong>${escapeHtml(maskEmails(suggestion.pattern))}</strong> (${formatNumber(suggestion.affectedCount)} errors): ` +
+      escapeHtml(suggestion.suggestion) +
+      (suggestion.exampleFix ? `<br><span class="muted">Example: ${escapeHtml(maskEmails(suggestion.exampleFix))}</span>` : '')
+    );
+  }
+  for (const warning of sources.roleDefinitions?.warnings ?? []) {
+    items.push(escapeHtml(warning));
+  }
+
+  if (items.length === 0) {
+    return '';
+  }
+  return section('Recommendations', `<ul>${items.map(item => `<li>${item}</li>`).join('')}</ul>`);
+}
+
+// --- HTML helpers ---
+
+function section(title: string, content: string): string {
+  return `<section>
+<h2>${escapeHtml(title)}</h2>
+${content}
+</section>`;
+}
+
+function card(label: string, value: string, tone?: 'ok' | 'bad'): string {
+  return `<div class="card${tone ? ` ${tone}` : ''}"><div class="label">${escapeHtml(label)}</div>` +
+    `<div class="value">${escapeHtml(value)}</div></div>`;
+}
+
+function badge(text: string, tone: 'ok' | 'bad' | 'muted'): string {
+  return `<span class="badge ${tone}">${escapeHtml(text)}</span>`;
+}
+
+/** Cells must already be escaped */
+function table(headers: string[], rows: string[][]): string {
+  const head = headers.map(h => `<th>${escapeHtml(h)}</th>`).join('');
+  const body = rows.map(row => `<tr>${row.map(cell => `<td>${cell}</td>`).join('')}</tr>`).join('\n');
+  return `<table><thead><tr>${head}</tr></thead><tbody>\n${body}\n</tbody></table>`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function maskEmails(text: string): string {
+  return redactText(text, { fields: { email: 'mask' } });
+}
+
+function formatNumber(value: number): string {
+  return value.toLocaleString('en-US');
+}
+
+function formatDuration(ms: number): string {
+  if (ms < 1000) {
+    return `${Math.round(ms)}ms`;
+  }
+  const seconds = Math.round(ms / 1000);
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${minutes}m ${seconds % 60}s` : `${seconds}s`;
+}
+
+function readJson<T>(filePath: string): T | undefined {
+  if (!fs.existsSync(filePath)) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as T;
+  } catch {
+    return undefined;
+  }
+}
+
+const STYLES = `
+body{font-family:-apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,sans-serif;margin:0 auto;max-width:1100px;padding:24px;color:#1f2328;background:#fff}
+h1{margin:0 0 4px}h2{border-bottom:1px solid #d0d7de;padding-bottom:4px;margin-top:32px}
+.meta,.muted{color:#656d76}
+.cards{display:flex;flex-wrap:wrap;gap:12px;margin:12px 0}
+.card{border:1px solid #d0d7de;border-radius:6px;padding:10px 14px;min-width:140px}
+.card .label{font-size:12px;color:#656d76}.card .value{font-size:20px;font-weight:600}
+.card.ok .value{color:#1a7f37}.card.bad .value{color:#cf222e}
+table{border-collapse:collapse;width:100%;margin:12px 0;font-size:14px}
+th,td{border:1px solid #d0d7de;padding:6px 8px;text-align:left;vertical-align:top}th{background:#f6f8fa}
+.badge{display:inline-block;border-radius:10px;padding:0 8px;font-size:12px;font-weight:600}
+.badge.ok{background:#dafbe1;color:#1a7f37}.badge.bad{background:#ffebe9;color:#cf222e}.badge.muted{background:#eaeef2;color:#57606a}
+.group{border-left:3px solid #d0d7de;padding-left:12px;margin:12px 0}.group ul{margin:4px 0;font-size:14px}
+`;
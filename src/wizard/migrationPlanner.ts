@@ -8,6 +8,9 @@ import path from 'node:path';
 import os from 'node:os';
 import type { WizardAnswers, MigrationPlan, MigrationStep } from './types.js';
 
+/** TOTP enrollment CSV written by the Clerk transform step */
+const CLERK_TOTP_SECRETS_PATH = 'clerk-totp-secrets.csv';
+
 /**
  * Generate a migration plan from wizard answers
  */
@@ -60,9 +63,11 @@ export function generateMigrationPlan(answers: WizardAnswers): MigrationPlan {
   // Step 6: Execute import
   steps.push(generateImportStep(answers, jobId));
 
-  // Step 6.5: Enroll TOTP factors (if user has TOTP secrets)
-  if (answers.hasTotpSecrets && answers.totpSecretsPath) {
-    steps.push(generateTotpEnrollmentStep(answers));
+  // Step 6.5: Enroll TOTP factors (Clerk transform always writes a secrets file;
+  // other sources only if the user has TOTP secrets)
+  const totpSecretsPath = getTotpSecretsPath(answers);
+  if (totpSecretsPath) {
+    steps.push(generateTotpEnrollmentStep(answers, totpSecretsPath));
   }
 
   // Step 7: Analyze errors (conditional)
@@ -121,7 +126,58 @@ function generateExportStep(answers: WizardAnswers): MigrationStep {
     };
   }
 
-  // Future: Okta, Cognito
+  if (answers.source === 'okta') {
+    args.push('--domain', answers.oktaDomain!);
+    args.push('--api-token', answers.oktaApiToken!);
+    args.push('--output', 'okta-export.csv');
+
+    if (answers.oktaIncludeDeactivated) {
+      args.push('--include-deactivated');
+    }
+
+    if (answers.oktaRateLimit) {
+      args.push('--rate-limit', String(answers.oktaRateLimit));
+    }
+
+    return {
+      id: 'export',
+      name: 'Export from Okta',
+      description: 'Export users and groups from Okta (groups become organizations)',
+      command: 'npx tsx bin/export-okta.ts',
+      args,
+      optional: false
+    };
+  }
+
+  if (answers.source === 'cognito') {
+    args.push('--region', answers.cognitoRegion!);
+    args.push('--user-pool-id', answers.cognitoUserPoolId!);
+    args.push('--access-key-id', answers.cognitoAccessKeyId!);
+    args.push('--secret-access-key', answers.cognitoSecretAccessKey!);
+    args.push('--output', 'cognito-export.csv');
+
+    if (answers.cognitoOrgIdAttribute) {
+      args.push('--org-id-attribute', answers.cognitoOrgIdAttribute);
+    }
+
+    if (answers.cognitoOrgNameAttribute) {
+      args.push('--org-name-attribute', answers.cognitoOrgNameAttribute);
+    }
+
+    if (answers.cognitoIncludeDisabled) {
+      args.push('--include-disabled');
+    }
+
+    return {
+      id: 'export',
+      name: 'Export from Cognito',
+      description: 'Export users from the Cognito user pool (groups become role slugs)',
+      command: 'npx tsx bin/export-cognito.ts',
+      args,
+      optional: false
+    };
+  }
+
   throw new Error(`Export not yet supported for ${answers.source}`);
 }
 
@@ -181,6 +237,7 @@ function generateClerkTransformStep(answers: WizardAnswers): MigrationStep {
   const args: string[] = [
     '--clerk-csv', answers.clerkCsvPath!,
     '--output', 'clerk-transformed.csv',
+    '--totp-output', CLERK_TOTP_SECRETS_PATH,
   ];
 
   if (answers.clerkOrgMappingPath) {
@@ -195,7 +252,7 @@ function generateClerkTransformStep(answers: WizardAnswers): MigrationStep {
   return {
     id: 'clerk-transform',
     name: 'Transform Clerk Export',
-    description: 'Transform Clerk CSV to WorkOS format (field mapping, passwords, metadata, roles)',
+    description: 'Transform Clerk CSV to WorkOS format (field mapping, passwords, metadata, roles, TOTP secrets)',
     command: 'npx tsx bin/transform-clerk.ts',
     args,
     optional: false
@@ -263,6 +320,10 @@ function generateValidationStep(answers: WizardAnswers): MigrationStep {
     inputCsv = 'clerk-transformed.csv';
   } else if (answers.source === 'firebase') {
     inputCsv = 'firebase-transformed.csv';
+  } else if (answers.source === 'okta') {
+    inputCsv = 'okta-export.csv';
+  } else if (answers.source === 'cognito') {
+    inputCsv = 'cognito-export.csv';
   } else if (answers.source === 'auth0' && answers.auth0HasPasswords) {
     inputCsv = 'auth0-export-with-passwords.csv';
   } else {
@@ -440,15 +501,25 @@ function generateImportStep(answers: WizardAnswers, jobId?: string): MigrationSt
   };
 }
 
+/**
+ * Resolve the TOTP secrets file for the enrollment step, if any
+ */
+function getTotpSecretsPath(answers: WizardAnswers): string | undefined {
+  if (answers.source === 'clerk') {
+    return CLERK_TOTP_SECRETS_PATH;
+  }
+  return answers.hasTotpSecrets ? answers.totpSecretsPath : undefined;
+}
+
 /**
  * Generate TOTP enrollment step
  */
-function generateTotpEnrollmentStep(answers: WizardAnswers): MigrationStep {
+function generateTotpEnrollmentStep(answers: WizardAnswers, totpSecretsPath: string): MigrationStep {
   const args: string[] = [
-    '--input', answers.totpSecretsPath!,
+    '--input', totpSecretsPath,
   ];
 
-  if (answers.totpSecretsFormat === 'ndjson') {
+  if (answers.source !== 'clerk' && answers.totpSecretsFormat === 'ndjson') {
     args.push('--format', 'ndjson');
   }
 
@@ -571,6 +642,16 @@ function getImportCsvPath(answers: WizardAnswers): string {
     return 'firebase-transformed.csv';
   }
 
+  // If Okta, use the Okta export
+  if (answers.source === 'okta') {
+    return 'okta-export.csv';
+  }
+
+  // If Cognito, use the Cognito export
+  if (answers.source === 'cognito') {
+    return 'cognito-export.csv';
+  }
+
   // If Auth0 passwords were merged, use the merged CSV
   if (answers.source === 'auth0' && answers.auth0HasPasswords) {
     return 'auth0-export-with-passwords.csv';
@@ -643,6 +724,17 @@ function generateRecommendations(answers: WizardAnswers): string[] {
     recommendations.push('To include passwords: Request password export from Auth0 support');
   }
 
+  if (answers.source === 'okta') {
+    recommendations.push('Users will need to reset passwords on first login (Okta does not export password hashes)');
+  }
+
+  if (answers.source === 'cognito') {
+    recommendations.push('Users will need to reset passwords on first login (Cognito does not export password hashes)');
+    if (!answers.cognitoOrgIdAttribute) {
+      recommendations.push('No organization attribute configured - users will be imported without organization memberships');
+    }
+  }
+
   if (answers.enableCheckpointing) {
     recommendations.push('Checkpoint directory: .workos-checkpoints/');
     recommendations.push('You can resume this migration with --resume flag');
@@ -650,6 +742,7 @@ function generateRecommendations(answers: WizardAnswers): string[] {
 
   if (answers.source === 'clerk') {
     recommendations.push('Clerk passwords (bcrypt) will be migrated - users keep their existing passwords');
+    recommendations.push(`Clerk TOTP secrets are written to ${CLERK_TOTP_SECRETS_PATH} and enrolled after import - delete that file once enrollment succeeds`);
     if (answers.clerkOrgMappingPath) {
       recommendations.push('Organization mapping will be applied during transformation');
       recommendations.push('Organizations referenced by org_name will be auto-created in WorkOS if they do not already exist');
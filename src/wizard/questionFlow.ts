@@ -48,8 +48,8 @@ export async function askQuestions(
         { title: "Auth0", value: "auth0" },
         { title: "Clerk", value: "clerk" },
         { title: "Firebase", value: "firebase" },
-        { title: "Okta (coming soon)", value: "okta", disabled: true },
-        { title: "Cognito (coming soon)", value: "cognito", disabled: true },
+        { title: "Okta", value: "okta" },
+        { title: "Cognito", value: "cognito" },
         { title: "Custom CSV (I already have a CSV file)", value: "custom" },
       ],
     });
@@ -83,6 +83,16 @@ export async function askQuestions(
     await askAuth0Credentials(answers, options);
   }
 
+  // If Okta, ask for credentials
+  if (answers.source === "okta") {
+    await askOktaCredentials(answers);
+  }
+
+  // If Cognito, ask for credentials
+  if (answers.source === "cognito") {
+    await askCognitoCredentials(answers);
+  }
+
   // If Clerk, ask for file paths
   if (answers.source === "clerk") {
     await askClerkConfiguration(answers);
@@ -411,6 +421,189 @@ async function askAuth0Credentials(
   }
 }
 
+/**
+ * Ask Okta credentials
+ */
+async function askOktaCredentials(
+  answers: Partial<WizardAnswers>
+): Promise<void> {
+  console.log(chalk.cyan("\n📋 Okta Configuration"));
+  console.log(
+    chalk.gray(
+      "We need an Okta API token to export users and groups.\n" +
+      "Create one in the Okta Admin Console → Security → API → Tokens.\n" +
+      "A token created by a Read-Only Administrator is sufficient.\n"
+    )
+  );
+
+  const credentialsAnswer = await prompts([
+    {
+      type: "text",
+      name: "oktaDomain",
+      message: "Okta domain (e.g., company.okta.com):",
+      validate: (value: string) =>
+        value.trim().length > 0 || "Domain is required",
+    },
+    {
+      type: "password",
+      name: "oktaApiToken",
+      message: "API token:",
+      validate: (value: string) =>
+        value.trim().length > 0 || "API token is required",
+    },
+  ]);
+
+  if (!credentialsAnswer.oktaDomain || !credentialsAnswer.oktaApiToken) {
+    throw new Error("Okta credentials are required");
+  }
+
+  answers.oktaDomain = credentialsAnswer.oktaDomain.trim();
+  answers.oktaApiToken = credentialsAnswer.oktaApiToken.trim();
+
+  console.log(chalk.green("✓ Okta credentials configured\n"));
+
+  console.log(chalk.cyan("🏢 Organization Export"));
+  console.log(
+    chalk.gray(
+      "Each Okta group (except built-in groups like Everyone) becomes a WorkOS organization.\n" +
+      "Users in several groups get one membership per group.\n"
+    )
+  );
+
+  const optionsAnswer = await prompts([
+    {
+      type: "confirm",
+      name: "includeDeactivated",
+      message: "Include suspended and deprovisioned users?",
+      initial: false,
+    },
+    {
+      type: "number",
+      name: "rateLimit",
+      message: "Okta API rate limit (requests per second):",
+      initial: 50,
+      min: 1,
+    },
+  ]);
+
+  answers.oktaIncludeDeactivated = optionsAnswer.includeDeactivated ?? false;
+  answers.oktaRateLimit = optionsAnswer.rateLimit || 50;
+
+  console.log(
+    chalk.gray(
+      "Note: Okta does not export password hashes.\n" +
+      "Users will need to reset their passwords on first login.\n"
+    )
+  );
+
+  console.log(chalk.green("✓ Okta configuration complete\n"));
+}
+
+/**
+ * Ask Cognito credentials
+ */
+async function askCognitoCredentials(
+  answers: Partial<WizardAnswers>
+): Promise<void> {
+  console.log(chalk.cyan("\n📋 Cognito Configuration"));
+  console.log(
+    chalk.gray(
+      "We need AWS credentials that can read your user pool.\n" +
+      "Required IAM permissions: cognito-idp:ListUsers, cognito-idp:ListGroups, cognito-idp:ListUsersInGroup.\n"
+    )
+  );
+
+  const credentialsAnswer = await prompts([
+    {
+      type: "text",
+      name: "cognitoRegion",
+      message: "AWS region (e.g., us-east-1):",
+      initial: process.env.AWS_REGION || "",
+      validate: (value: string) =>
+        value.trim().length > 0 || "Region is required",
+    },
+    {
+      type: "text",
+      name: "cognitoUserPoolId",
+      message: "User pool ID (e.g., us-east-1_AbCdEfGhI):",
+      validate: (value: string) =>
+        value.trim().length > 0 || "User pool ID is required",
+    },
+    {
+      type: "text",
+      name: "cognitoAccessKeyId",
+      message: "AWS access key ID:",
+      initial: process.env.AWS_ACCESS_KEY_ID || "",
+      validate: (value: string) =>
+        value.trim().length > 0 || "Access key ID is required",
+    },
+    {
+      type: "password",
+      name: "cognitoSecretAccessKey",
+      message: "AWS secret access key:",
+      validate: (value: string) =>
+        value.trim().length > 0 || "Secret access key is required",
+    },
+  ]);
+
+  if (
+    !credentialsAnswer.cognitoRegion ||
+    !credentialsAnswer.cognitoUserPoolId ||
+    !credentialsAnswer.cognitoAccessKeyId ||
+    !credentialsAnswer.cognitoSecretAccessKey
+  ) {
+    throw new Error("Cognito credentials are required");
+  }
+
+  answers.cognitoRegion = credentialsAnswer.cognitoRegion.trim();
+  answers.cognitoUserPoolId = credentialsAnswer.cognitoUserPoolId.trim();
+  answers.cognitoAccessKeyId = credentialsAnswer.cognitoAccessKeyId.trim();
+  answers.cognitoSecretAccessKey = credentialsAnswer.cognitoSecretAccessKey.trim();
+
+  console.log(chalk.green("✓ Cognito credentials configured\n"));
+
+  console.log(chalk.cyan("🏢 Organization Mapping"));
+  console.log(
+    chalk.gray(
+      "Cognito user pools have no organizations. If you store a tenant ID in a\n" +
+      "custom attribute (e.g., custom:tenant_id), it can become the WorkOS organization.\n" +
+      "Cognito groups are exported as role slugs.\n"
+    )
+  );
+
+  const optionsAnswer = await prompts([
+    {
+      type: "text",
+      name: "orgIdAttribute",
+      message: "Custom attribute holding the organization ID (leave blank for none):",
+    },
+    {
+      type: (prev: string) => (prev && prev.trim() ? "text" : null),
+      name: "orgNameAttribute",
+      message: "Custom attribute holding the organization name (leave blank for none):",
+    },
+    {
+      type: "confirm",
+      name: "includeDisabled",
+      message: "Include disabled users?",
+      initial: false,
+    },
+  ]);
+
+  answers.cognitoOrgIdAttribute = optionsAnswer.orgIdAttribute?.trim() || undefined;
+  answers.cognitoOrgNameAttribute = optionsAnswer.orgNameAttribute?.trim() || undefined;
+  answers.cognitoIncludeDisabled = optionsAnswer.includeDisabled ?? false;
+
+  console.log(
+    chalk.gray(
+      "Note: Cognito does not export password hashes.\n" +
+      "Users will need to reset their passwords on first login.\n"
+    )
+  );
+
+  console.log(chalk.green("✓ Cognito configuration complete\n"));
+}
+
 /**
  * Ask Clerk configuration (file paths)
  */
@@ -499,7 +692,8 @@ async function askClerkConfiguration(
       "The Clerk transform step will:\n" +
       "  • Map Clerk fields to WorkOS format (email, name, external_id)\n" +
       "  • Migrate bcrypt password hashes for seamless authentication\n" +
-      "  • Store extra Clerk fields (username, phones, TOTP) in metadata\n" +
+      "  • Store extra Clerk fields (username, phones) in metadata\n" +
+      "  • Write TOTP secrets to a separate file for MFA enrollment (never metadata)\n" +
       "\nNote: If you provide a user-role mapping CSV later,\n" +
       "it should use 'clerk_user_id' as the join key (same as org mapping).\n"
     )
@@ -724,6 +918,15 @@ async function askTotpMigration(
     )
   );
 
+  // Clerk exports include totp_secret; the transform step writes the
+  // enrollment file, so only the issuer needs asking
+  if (answers.source === "clerk") {
+    answers.hasTotpSecrets = true;
+    console.log(chalk.gray("TOTP secrets from the Clerk export will be enrolled automatically after import.\n"));
+    await askTotpIssuer(answers);
+    return;
+  }
+
   const totpAnswer = await prompts({
     type: "confirm",
     name: "hasTotpSecrets",
@@ -767,7 +970,25 @@ async function askTotpMigration(
     answers.totpSecretsFormat = "csv";
   }
 
-  // Ask for issuer name
+  await askTotpIssuer(answers);
+
+  if (answers.source === "auth0") {
+    console.log(
+      chalk.gray(
+        "Note: Auth0 does not expose TOTP secrets via their Management API.\n" +
+        "You need to request an MFA enrollment export from Auth0 support,\n" +
+        "similar to how password hash exports work.\n"
+      )
+    );
+  }
+}
+
+/**
+ * Ask the TOTP issuer name and confirm TOTP configuration
+ */
+async function askTotpIssuer(
+  answers: Partial<WizardAnswers>
+): Promise<void> {
   const issuerAnswer = await prompts({
     type: "text",
     name: "totpIssuer",
@@ -781,16 +1002,6 @@ async function askTotpMigration(
   }
 
   console.log(chalk.green("✓ TOTP migration configured\n"));
-
-  if (answers.source === "auth0") {
-    console.log(
-      chalk.gray(
-        "Note: Auth0 does not expose TOTP secrets via their Management API.\n" +
-        "You need to request an MFA enrollment export from Auth0 support,\n" +
-        "similar to how password hash exports work.\n"
-      )
-    );
-  }
 }
 
 /**
@@ -5,8 +5,10 @@
  */
 
 import fs from 'node:fs';
+import path from 'node:path';
 import chalk from 'chalk';
-import type { MigrationResult, StepResult, MigrationPlan } from './types.js';
+import { generateHtmlReport } from './htmlReport.js';
+import type { MigrationResult, StepResult, MigrationPlan, MigrationSummaryFile } from './types.js';
 
 /**
  * Generate migration result from step results
@@ -127,12 +129,15 @@ export function displayMigrationSummary(result: MigrationResult): void {
   console.log(chalk.bold('\nGenerated Files:'));
   const files = [
     'auth0-export.csv',
+    'okta-export.csv',
+    'cognito-export.csv',
     'users-validated.csv',
     'validation-report.json',
     'errors.jsonl',
     'error-analysis.json',
     'retry.csv',
-    'migration-summary.json'
+    'migration-summary.json',
+    'migration-report.html'
   ].filter(f => fs.existsSync(f));
 
   files.forEach(f => {
@@ -143,14 +148,24 @@ export function displayMigrationSummary(result: MigrationResult): void {
 }
 
 /**
- * Save migration summary to JSON file
+ * Value of a flag in a plan step's arguments
+ */
+function getStepArg(plan: MigrationPlan, stepId: string, flag: string): string | undefined {
+  const args = plan.steps.find(s => s.id === stepId)?.args ?? [];
+  const index = args.indexOf(flag);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+/**
+ * Save migration summary to JSON file, plus an HTML report next to it that
+ * merges the summary with the validation, error analysis and role reports
  */
 export function saveMigrationSummary(
   result: MigrationResult,
   plan: MigrationPlan,
   outputPath: string = 'migration-summary.json'
 ): void {
-  const summary = {
+  const summary: MigrationSummaryFile = {
     timestamp: new Date().toISOString(),
     source: plan.source,
     importMode: plan.importMode,
@@ -167,7 +182,7 @@ export function saveMigrationSummary(
       stepId: r.stepId,
       success: r.success,
       duration: r.endTime - r.startTime,
-      skipped: r.metadata?.skipped || false,
+      skipped: Boolean(r.metadata?.skipped),
       error: r.error
     })),
     plan: {
@@ -177,7 +192,20 @@ export function saveMigrationSummary(
   };
 
   fs.writeFileSync(outputPath, JSON.stringify(summary, null, 2), 'utf-8');
-  console.log(chalk.gray(`Migration summary saved to: ${outputPath}\n`));
+  console.log(chalk.gray(`Migration summary saved to: ${outputPath}`));
+
+  const reportPath = generateHtmlReport({
+    validationReportPath: getStepArg(plan, 'validate', '--report'),
+    errorAnalysisPath: getStepArg(plan, 'analyze-errors', '--report'),
+    roleDefinitionsReportPath: getStepArg(plan, 'process-role-definitions', '--report'),
+    migrationSummaryPath: outputPath,
+    jobId: getStepArg(plan, 'import', '--job-id'),
+    outputPath: path.join(path.dirname(outputPath), 'migration-report.html')
+  });
+  if (reportPath) {
+    console.log(chalk.gray(`Migration report saved to: ${reportPath}`));
+  }
+  console.log();
 }
 
 /**
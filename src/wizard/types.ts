@@ -72,6 +72,21 @@ export interface WizardAnswers {
   auth0HasPasswords?: boolean;
   auth0PasswordsPath?: string;
 
+  // Provider credentials (Okta)
+  oktaDomain?: string;
+  oktaApiToken?: string;
+  oktaRateLimit?: number; // Rate limit in requests per second
+  oktaIncludeDeactivated?: boolean;
+
+  // Provider credentials (Cognito)
+  cognitoRegion?: string;
+  cognitoUserPoolId?: string;
+  cognitoAccessKeyId?: string;
+  cognitoSecretAccessKey?: string;
+  cognitoOrgIdAttribute?: string; // e.g., custom:tenant_id
+  cognitoOrgNameAttribute?: string; // e.g., custom:tenant_name
+  cognitoIncludeDisabled?: boolean;
+
   // Provider configuration (Clerk)
   clerkCsvPath?: string;
   clerkOrgMappingPath?: string;
@@ -162,6 +177,27 @@ export interface MigrationResult {
   };
 }
 
+/**
+ * Contents of migration-summary.json
+ */
+export interface MigrationSummaryFile {
+  timestamp: string;
+  source: MigrationSource;
+  importMode: ImportMode;
+  result: Omit<MigrationResult, 'stepResults'>;
+  steps: Array<{
+    stepId: string;
+    success: boolean;
+    duration: number;
+    skipped: boolean;
+    error?: string;
+  }>;
+  plan: {
+    warnings: string[];
+    recommendations: string[];
+  };
+}
+
 /**
  * Wizard options from CLI flags
  */
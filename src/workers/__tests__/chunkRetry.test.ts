@@ -0,0 +1,204 @@
+/**
+ * Chunk Retry Tests
+ *
+ * Worker-mode chunk retries, worker restarts and permanently failed chunks,
+ * driven by a scripted worker thread in place of the compiled worker.
+ *
+ * Run with: npx tsx src/workers/__tests__/chunkRetry.test.ts
+ */
+
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { WorkerCoordinator } from "../coordinator.js";
+import { CheckpointManager } from "../../checkpoint/manager.js";
+import { createLogger } from "../../logger.js";
+import { renderSummaryBox } from "../../summary.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const TEMP_DIR = path.join(__dirname, "../../../.temp-chunk-retry-tests");
+const CHECKPOINT_DIR = path.join(TEMP_DIR, "checkpoints");
+
+// --- Helpers ---
+
+/**
+ * Write a worker script that handles chunks per `plan` (chunkId -> outcome
+ * for each attempt; the last outcome repeats). Attempts are counted in files
+ * so they survive worker restarts.
+ */
+function writeScriptedWorker(name: string, plan: Record<number, Array<"ok" | "fail" | "crash">>): string {
+  const attemptsDir = path.join(TEMP_DIR, `${name}-attempts`);
+  fs.mkdirSync(attemptsDir, { recursive: true });
+  const workerPath = path.join(TEMP_DIR, `${name}-worker.mjs`);
+  fs.writeFileSync(workerPath, `
+import fs from 'node:fs';
+import path from 'node:path';
+import { parentPort } from 'node:worker_threads';
+
+const plan = ${JSON.stringify(plan)};
+const attemptsDir = ${JSON.stringify(attemptsDir)};
+
+parentPort.on('message', (msg) => {
+  if (msg.type === 'initialize') {
+    parentPort.postMessage({ type: 'ready' });
+  } else if (msg.type === 'shutdown') {
+    process.exit(0);
+  } else if (msg.type === 'process-chunk') {
+    const { chunkId, startRow, endRow } = msg.payload.chunk;
+    const file = path.join(attemptsDir, String(chunkId));
+    const attempt = fs.existsSync(file) ? Number(fs.readFileSync(file, 'utf8')) : 0;
+    fs.writeFileSync(file, String(attempt + 1));
+    const outcomes = plan[chunkId] ?? ['ok'];
+    const outcome = outcomes[Math.min(attempt, outcomes.length - 1)];
+    if (outcome === 'crash') {
+      process.exit(1);
+    } else if (outcome === 'fail') {
+      parentPort.postMessage({ type: 'chunk-failed', payload: { chunkId, error: 'Simulated chunk failure' } });
+    } else {
+      const rows = endRow - startRow + 1;
+      parentPort.postMessage({
+        type: 'chunk-complete',
+        payload: {
+          chunkId,
+          cacheUpdates: [],
+          summary: {
+            successes: rows, failures: 0, membershipsCreated: 0, usersCreated: rows, usersUpdated: 0,
+            usersSkipped: 0, usersDeleted: 0, duplicateUsers: 0, duplicateMemberships: 0, rolesAssigned: 0, durationMs: 1
+          }
+        }
+      });
+    }
+  }
+});
+`, "utf8");
+  return workerPath;
+}
+
+async function createCheckpoint(jobId: string, totalRows: number, chunkSize: number) {
+  return CheckpointManager.create({
+    jobId,
+    csvPath: path.join(TEMP_DIR, "users.csv"),
+    csvHash: "test-hash",
+    totalRows,
+    chunkSize,
+    concurrency: 1,
+    mode: "user-only",
+    checkpointDir: CHECKPOINT_DIR
+  });
+}
+
+function createCoordinator(manager: CheckpointManager, workerPath: string, numWorkers: number, maxRetries: number) {
+  const coordinator = new WorkerCoordinator(
+    {
+      checkpointManager: manager,
+      numWorkers,
+      orgCache: null,
+      importOptions: { csvPath: manager.getState().csvPath, concurrency: 1, orgId: null, quiet: true } as any,
+      chunkRetry: { maxRetries, baseDelayMs: 10, maxDelayMs: 50 }
+    },
+    createLogger({ quiet: true })
+  );
+  // Point the pool at the scripted worker instead of the compiled one
+  (coordinator as any).workerPath = workerPath;
+  return coordinator;
+}
+
+// --- Test Runner ---
+
+let passed = 0;
+let failed = 0;
+
+async function test(name: string, fn: () => Promise<void> | void) {
+  try {
+    await fn();
+    passed++;
+    console.log(`  ✓ ${name}`);
+  } catch (err: unknown) {
+    failed++;
+    console.log(`  ✗ ${name}`);
+    console.log(`    ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+// --- Test Suite ---
+
+async function main() {
+  fs.mkdirSync(TEMP_DIR, { recursive: true });
+
+  console.log("\nChunk Retry Tests");
+  console.log("=================\n");
+
+  await test("failed chunks and crashed workers are retried until retries run out", async () => {
+    const manager = await createCheckpoint("retry-job", 6, 2);
+    const workerPath = writeScriptedWorker("retry", { 1: ["fail", "ok"], 2: ["crash"] });
+    const summary = await createCoordinator(manager, workerPath, 1, 1).start();
+
+    assert.deepEqual(manager.getState().chunks.map(c => c.status), ["completed", "completed", "failed"]);
+    assert.equal(summary.successes, 4);
+    assert.equal(summary.chunkProgress?.completedChunks, 2);
+    assert.equal(summary.failedChunks?.length, 1);
+    assert.equal(summary.failedChunks?.[0]?.chunkId, 2);
+    assert.equal(summary.failedChunks?.[0]?.attempts, 2);
+    assert.match(summary.failedChunks?.[0]?.error ?? "", /Worker 0 crashed/);
+
+    // The permanent failure is on disk, not just in memory
+    const saved = await CheckpointManager.resume("retry-job", CHECKPOINT_DIR);
+    assert.equal(saved.getState().chunks[2]?.status, "failed");
+    assert.equal(saved.getState().chunks[1]?.lastError, undefined);
+  });
+
+  await test("queued chunks fail instead of hanging once every worker is retired", async () => {
+    const manager = await createCheckpoint("retired-job", 4, 2);
+    const workerPath = writeScriptedWorker("retired", { 0: ["crash"], 1: ["crash"] });
+    const summary = await createCoordinator(manager, workerPath, 1, 10).start();
+
+    assert.deepEqual(manager.getState().chunks.map(c => c.status), ["failed", "failed"]);
+    assert.equal(summary.failedChunks?.length, 2);
+    assert.equal(summary.failedChunks?.[1]?.error, "No workers left to process chunk");
+  });
+
+  await test("requeued failed chunks run again on resume", async () => {
+    const manager = await CheckpointManager.resume("retry-job", CHECKPOINT_DIR);
+    assert.equal(manager.getNextPendingChunk(), null);
+    assert.equal(manager.requeueFailedChunks(), 1);
+    assert.equal(manager.getNextPendingChunk()?.chunkId, 2);
+
+    const workerPath = writeScriptedWorker("resume", {});
+    const summary = await createCoordinator(manager, workerPath, 2, 1).start();
+    assert.equal(summary.successes, 6);
+    assert.equal(summary.failedChunks, undefined);
+    assert.deepEqual(manager.getState().chunks.map(c => c.status), ["completed", "completed", "completed"]);
+  });
+
+  await test("summary box lists failed chunks", async () => {
+    const manager = await createCheckpoint("summary-job", 4, 2);
+    manager.markChunkCompleted(0, {
+      successes: 2, failures: 0, membershipsCreated: 0, usersCreated: 2, usersUpdated: 0, usersSkipped: 0,
+      usersDeleted: 0, duplicateUsers: 0, duplicateMemberships: 0, rolesAssigned: 0, durationMs: 1
+    });
+    manager.recordChunkAttempt(1, "Worker 1 crashed: out of memory");
+    manager.markChunkFailed(1, "Worker 1 crashed: out of memory");
+
+    const box = renderSummaryBox(manager.getFinalSummary());
+    assert.match(box, /Status: Completed with errors/);
+    assert.match(box, /Failed chunks: 1/);
+    assert.match(box, /#1 rows 3-4 \(1 attempt\): Worker 1 crashed: out of memory/);
+    assert.match(box, /--retry-failed-chunks/);
+  });
+
+  fs.rmSync(TEMP_DIR, { recursive: true, force: true });
+
+  console.log(`\nTests: ${passed} passed, ${failed} failed`);
+  if (failed > 0) {
+    process.exit(1);
+  }
+  process.exit(0);
+}
+
+main().catch((err) => {
+  console.error("Test runner error:", err);
+  process.exit(1);
+});
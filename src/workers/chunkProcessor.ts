@@ -6,8 +6,6 @@
  */
 
 import fs from 'node:fs';
-import { parse } from 'csv-parse';
-import { getWorkOSClient } from '../workos.js';
 import { createLogger } from '../logger.js';
 import { isBlank, parseBooleanLike } from '../boolean.js';
 import type {
@@ -15,19 +13,23 @@ import type {
   CSVRow,
   ErrorRecord,
   ChunkMetadata,
-  ChunkSummary
+  ChunkSummary,
+  RowAction,
+  RowLedgerEntry
 } from '../types.js';
 import type { WorkerImportOptions } from './types.js';
+import { conflictModeForAction, createOrResolveUser, deleteUserByEmail, parseRowAction, UserUpdateError } from '../userUpsert.js';
+import { parseRowUserId, updateMembershipRoles } from '../membershipRetry.js';
+import { CreationLedger } from '../rollback/ledger.js';
+import { RowLedger } from '../checkpoint/rowLedger.js';
 import type { DistributedRateLimiter } from './distributedRateLimiter.js';
+import { createWorkOSGateway, normalizeWorkOSError, workosErrorFields, type WorkOSGateway } from '../workosGateway.js';
 import { OrganizationCache } from '../cache/organizationCache.js';
-
-/**
- * Rate limiter interface for retry functions
- * Both RateLimiter and DistributedRateLimiter implement this
- */
-interface RateLimiterLike {
-  acquire(): Promise<void>;
-}
+import { openChunkRows } from '../inputFormat.js';
+import { parseOrgDomains } from '../organizations/orgDomains.js';
+import { parseRoleSlugs } from '../roles/roleSlugs.js';
+import type { OrgDomain } from '../organizations/types.js';
+import { redactErrorRecord } from '../redaction.js';
 
 /**
  * Semaphore for concurrency control within worker
@@ -70,36 +72,18 @@ interface OrgInfo {
   orgId?: string;
   orgExternalId?: string;
   orgName?: string;
+  orgDomains?: OrgDomain[];
 }
 
 /**
  * Build user payload and org info from CSV row
  */
-function parseRoleSlugsFromCsv(raw: string | undefined): string[] {
-  if (!raw || typeof raw !== 'string') return [];
-  const trimmed = raw.trim();
-  if (!trimmed) return [];
-
-  // Try JSON array format first: ["admin","editor"]
-  if (trimmed.startsWith('[')) {
-    try {
-      const parsed = JSON.parse(trimmed);
-      if (Array.isArray(parsed)) {
-        return parsed.map((s: unknown) => String(s).trim()).filter(Boolean);
-      }
-    } catch {
-      // Fall through to comma-separated
-    }
-  }
-
-  // Comma-separated format: admin,editor,viewer
-  return trimmed.split(',').map(s => s.trim()).filter(Boolean);
-}
-
 function buildUserAndOrgFromRow(row: CSVRow): {
   userPayload?: CreateUserPayload;
   orgInfo?: OrgInfo;
   roleSlugs?: string[];
+  action?: RowAction;
+  userId?: string;
   error?: string;
 } {
   // Extract and validate email
@@ -108,6 +92,20 @@ function buildUserAndOrgFromRow(row: CSVRow): {
     return { error: 'Missing required email' };
   }
 
+  // Delta CSV action (blank = create)
+  let action: RowAction;
+  try {
+    action = parseRowAction(row.action);
+  } catch (err: any) {
+    return { error: err.message };
+  }
+
+  // Membership-only retry rows name an existing user
+  const userId = parseRowUserId(row.user_id);
+  if (userId && action !== 'create') {
+    return { error: `user_id rows cannot use action "${action}"` };
+  }
+
   // Extract user fields
   const password = typeof row.password === 'string' ? row.password : undefined;
   const passwordHash = typeof row.password_hash === 'string' ? row.password_hash : undefined;
@@ -127,6 +125,19 @@ function buildUserAndOrgFromRow(row: CSVRow): {
         return { error: 'Invalid JSON in metadata field' };
       }
     }
+  } else if (row.metadata !== undefined && row.metadata !== null) {
+    // JSONL rows carry metadata as an object
+    if (typeof row.metadata !== 'object' || Array.isArray(row.metadata)) {
+      return { error: 'Metadata must be a JSON object' };
+    }
+    metadata = row.metadata;
+  }
+
+  let orgDomains: OrgDomain[];
+  try {
+    orgDomains = parseOrgDomains(row.org_domains);
+  } catch (err: any) {
+    return { error: `Invalid org_domains: ${err.message}` };
   }
 
   // Build user payload
@@ -146,78 +157,43 @@ function buildUserAndOrgFromRow(row: CSVRow): {
   const orgInfo: OrgInfo = {
     orgId: typeof row.org_id === 'string' ? row.org_id : undefined,
     orgExternalId: typeof row.org_external_id === 'string' ? row.org_external_id : undefined,
-    orgName: typeof row.org_name === 'string' ? row.org_name : undefined
+    orgName: typeof row.org_name === 'string' ? row.org_name : undefined,
+    orgDomains: orgDomains.length > 0 ? orgDomains : undefined
   };
 
   // Extract role slugs from CSV row
-  const roleSlugs = parseRoleSlugsFromCsv(row.role_slugs as string | undefined);
+  const roleSlugs = parseRoleSlugs(row.role_slugs);
 
-  return { userPayload, orgInfo, roleSlugs: roleSlugs.length > 0 ? roleSlugs : undefined };
+  return { userPayload, orgInfo, roleSlugs: roleSlugs.length > 0 ? roleSlugs : undefined, action, userId };
 }
 
 /**
- * Retry user creation with exponential backoff on rate limits
+ * Create a user through the gateway (retries handled there)
  */
 async function retryCreateUser(
   payload: CreateUserPayload,
-  limiter: RateLimiterLike,
-  maxRetries = 3,
-  baseDelayMs = 500
+  gateway: WorkOSGateway
 ): Promise<string> {
-  const workos = getWorkOSClient();
-  let attempt = 0;
-
-  // eslint-disable-next-line no-constant-condition
-  while (true) {
-    try {
-      await limiter.acquire();
-      const user = await workos.userManagement.createUser(payload as any);
-      return (user as any)?.id as string;
-    } catch (err: any) {
-      const status: number | undefined =
-        err?.status ?? err?.httpStatus ?? err?.code ?? err?.response?.status;
-      const message: string = err?.message || 'Unknown error';
-      const isRateLimited = status === 429 || /rate.?limit/i.test(message);
-      attempt += 1;
-
-      if (isRateLimited && attempt <= maxRetries) {
-        let delay = baseDelayMs * Math.pow(2, attempt - 1);
-
-        // Respect Retry-After header if provided
-        const retryAfter = err?.response?.headers?.['retry-after'] ?? err?.response?.headers?.['Retry-After'];
-        if (retryAfter) {
-          const retryAfterSeconds = parseInt(retryAfter, 10);
-          if (!isNaN(retryAfterSeconds)) {
-            delay = retryAfterSeconds * 1000;
-          }
-        }
-
-        await new Promise(r => setTimeout(r, delay));
-        continue;
-      }
-      throw err;
-    }
-  }
+  const user = await gateway.createUser(payload);
+  return user.id;
 }
 
 /**
- * Retry organization membership creation with exponential backoff
+ * Create an organization membership, falling back to a single role when
+ * multiple roles are not enabled
  */
 interface MembershipResult {
   rolesAssigned: number;
   warning?: string;
+  membershipId?: string;
 }
 
 async function retryCreateOrganizationMembership(
   userId: string,
   organizationId: string,
-  limiter: RateLimiterLike,
-  roleSlugs?: string[],
-  maxRetries = 3,
-  baseDelayMs = 500
+  gateway: WorkOSGateway,
+  roleSlugs?: string[]
 ): Promise<MembershipResult> {
-  const workos = getWorkOSClient();
-
   // Use roleSlug (singular) for 1 role, roleSlugs (plural) for 2+
   // roleSlugs requires "multiple roles" to be enabled in the WorkOS environment
   const roleParams = roleSlugs?.length === 1
@@ -226,87 +202,41 @@ async function retryCreateOrganizationMembership(
       ? { roleSlugs }
       : {};
 
-  let attempt = 0;
-  // eslint-disable-next-line no-constant-condition
-  while (true) {
-    try {
-      await limiter.acquire();
-      await workos.userManagement.createOrganizationMembership({
+  try {
+    const membership = await gateway.createOrganizationMembership({
+      userId,
+      organizationId,
+      ...roleParams
+    } as any);
+    return { rolesAssigned: roleSlugs?.length ?? 0, membershipId: membership.id };
+  } catch (err) {
+    const apiErr = normalizeWorkOSError(err);
+
+    // If multiple roles not enabled and we tried roleSlugs (plural),
+    // fall back to roleSlug (singular) with the first role
+    if (apiErr.status === 422 && (apiErr.code === 'multiple_roles_not_enabled' || /multiple.?roles.?not.?enabled/i.test(apiErr.message))
+      && roleSlugs && roleSlugs.length > 1) {
+      const membership = await gateway.createOrganizationMembership({
         userId,
         organizationId,
-        ...roleParams
-      } as any);
-      return { rolesAssigned: roleSlugs?.length ?? 0 };
-    } catch (err: any) {
-      const status: number | undefined =
-        err?.status ?? err?.httpStatus ?? err?.response?.status;
-      const message: string = err?.message || 'Unknown error';
-      const errorCode: string = err?.code || '';
-      const isRateLimited = status === 429 || /rate.?limit/i.test(message);
-
-      // If multiple roles not enabled and we tried roleSlugs (plural),
-      // fall back to roleSlug (singular) with the first role
-      if (status === 422 && (errorCode === 'multiple_roles_not_enabled' || /multiple.?roles.?not.?enabled/i.test(message))) {
-        if (roleSlugs && roleSlugs.length > 1) {
-          attempt = 0;
-          // eslint-disable-next-line no-constant-condition
-          while (true) {
-            try {
-              await limiter.acquire();
-              await workos.userManagement.createOrganizationMembership({
-                userId,
-                organizationId,
-                roleSlug: roleSlugs[0]
-              } as any);
-              return {
-                rolesAssigned: 1,
-                warning: `Multiple roles not enabled — assigned "${roleSlugs[0]}" only, skipped: ${roleSlugs.slice(1).join(', ')}`
-              };
-            } catch (retryErr: any) {
-              const retryStatus: number | undefined =
-                retryErr?.status ?? retryErr?.httpStatus ?? retryErr?.response?.status;
-              const retryMsg: string = retryErr?.message || 'Unknown error';
-              const retryIsRateLimited = retryStatus === 429 || /rate.?limit/i.test(retryMsg);
-              attempt += 1;
-              if (retryIsRateLimited && attempt <= maxRetries) {
-                const delay = baseDelayMs * Math.pow(2, attempt - 1);
-                await new Promise(r => setTimeout(r, delay));
-                continue;
-              }
-              throw retryErr;
-            }
-          }
-        }
-        throw err;
-      }
-
-      attempt += 1;
-      if (isRateLimited && attempt <= maxRetries) {
-        let delay = baseDelayMs * Math.pow(2, attempt - 1);
-
-        const retryAfter = err?.response?.headers?.['retry-after'] ?? err?.response?.headers?.['Retry-After'];
-        if (retryAfter) {
-          const retryAfterSeconds = parseInt(retryAfter, 10);
-          if (!isNaN(retryAfterSeconds)) {
-            delay = retryAfterSeconds * 1000;
-          }
-        }
-
-        await new Promise(r => setTimeout(r, delay));
-        continue;
-      }
-      throw err;
+        roleSlug: roleSlugs[0]
+      });
+      return {
+        rolesAssigned: 1,
+        membershipId: membership.id,
+        warning: `Multiple roles not enabled — assigned "${roleSlugs[0]}" only, skipped: ${roleSlugs.slice(1).join(', ')}`
+      };
     }
+    throw apiErr;
   }
 }
 
 /**
  * Best-effort user deletion (used for cleanup on membership failure)
  */
-async function deleteUserSafe(userId: string): Promise<void> {
-  const workos = getWorkOSClient();
+async function deleteUserSafe(gateway: WorkOSGateway, userId: string): Promise<void> {
   try {
-    await (workos.userManagement as any).deleteUser(userId);
+    await gateway.deleteUser(userId);
   } catch {
     // Best-effort delete; ignore errors
   }
@@ -315,7 +245,7 @@ async function deleteUserSafe(userId: string): Promise<void> {
 /**
  * Process a single chunk in worker thread context
  *
- * Re-parses CSV from start, skips to chunk range, processes chunk rows
+ * Reads the chunk's byte range (or re-parses from the start), processes chunk rows
  * Uses distributed rate limiter to coordinate with other workers via coordinator
  *
  * @param chunk - Chunk metadata with start/end rows
@@ -332,8 +262,9 @@ export async function processChunkInWorker(
   rateLimiter: DistributedRateLimiter,
   checkpointDir: string
 ): Promise<ChunkSummary> {
-  const { csvPath, concurrency = 10, orgId = null, requireMembership = false, dryRun = false } = options;
-  const logger = createLogger({ quiet: true }); // Quiet for individual rows
+  const { csvPath, concurrency = 10, orgId = null, requireMembership = false, dryRun = false, onConflict = 'fail' } = options;
+  const logger = createLogger({ quiet: true, redaction: options.redaction }); // Quiet for individual rows
+  const gateway = createWorkOSGateway({ limiter: rateLimiter });
   const sem = new Semaphore(concurrency);
 
   const chunkStartTime = Date.now();
@@ -341,6 +272,9 @@ export async function processChunkInWorker(
   let chunkFailures = 0;
   let chunkMemberships = 0;
   let chunkUsersCreated = 0;
+  let chunkUsersUpdated = 0;
+  let chunkUsersSkipped = 0;
+  let chunkUsersDeleted = 0;
   let chunkDuplicateUsers = 0;
   let chunkDuplicateMemberships = 0;
   let chunkRolesAssigned = 0;
@@ -348,6 +282,7 @@ export async function processChunkInWorker(
 
   // Track created users and memberships within this chunk for dedup
   const workerCreatedUsers = new Map<string, string>(); // email -> userId
+  const preexistingUsers = new Set<string>(); // userIds that existed before this run (--on-conflict)
   const workerCreatedMemberships = new Set<string>(); // "userId:orgId"
 
   // Set up error streaming to checkpoint dir
@@ -355,19 +290,29 @@ export async function processChunkInWorker(
   const errorStream = fs.createWriteStream(errorPath, { flags: 'a', encoding: 'utf8' });
 
   const recordError = (errRec: ErrorRecord) => {
-    errorStream.write(JSON.stringify(errRec) + '\n');
+    errorStream.write(JSON.stringify(redactErrorRecord(errRec, options.redaction)) + '\n');
   };
 
-  // Re-open CSV and parse
-  const input = fs.createReadStream(csvPath);
-  const parser = parse({
-    columns: true,
-    bom: true,
-    skip_empty_lines: true,
-    trim: true
-  });
+  // Record created resources for workos-rollback (shared file with other workers)
+  const ledger = dryRun ? null : new CreationLedger(checkpointDir);
 
-  let recordNumber = 0;
+  // Row outcomes from earlier attempts at this chunk (dry runs create nothing to resume)
+  const rowLedger = dryRun ? null : new RowLedger(checkpointDir, chunk.chunkId);
+  const priorRows = rowLedger?.load() ?? new Map<number, RowLedgerEntry>();
+
+  // Replays the user step counters of a row finished by an earlier attempt
+  const countUserOutcome = (outcome: RowLedgerEntry['user']) => {
+    if (outcome === 'created') chunkUsersCreated += 1;
+    else if (outcome === 'updated') chunkUsersUpdated += 1;
+    else if (outcome === 'skipped') chunkUsersSkipped += 1;
+    else if (outcome === 'duplicate') chunkDuplicateUsers += 1;
+    else if (outcome === 'deleted') chunkUsersDeleted += 1;
+  };
+
+  // Seek to the chunk's rows (or re-parse from the top for checkpoints without offsets)
+  const { input, parser, recordsBefore } = await openChunkRows(csvPath, chunk);
+
+  let recordNumber = recordsBefore;
   const inFlight: Promise<void>[] = [];
 
   await new Promise<void>((resolve, reject) => {
@@ -389,6 +334,19 @@ export async function processChunkInWorker(
         const run = (async () => {
           await sem.acquire();
           try {
+            const prior = priorRows.get(currentRecordNumber);
+            if (prior?.status === 'completed') {
+              // Finished before the chunk was interrupted: count it, don't resend it
+              chunkSuccesses += 1;
+              countUserOutcome(prior.user);
+              if (prior.membership === 'created') chunkMemberships += 1;
+              else if (prior.membership === 'duplicate') chunkDuplicateMemberships += 1;
+              chunkRolesAssigned += prior.rolesAssigned ?? 0;
+              if (prior.email && prior.userId) workerCreatedUsers.set(prior.email.toLowerCase(), prior.userId);
+              if (prior.userId && prior.orgId) workerCreatedMemberships.add(`${prior.userId}:${prior.orgId}`);
+              return;
+            }
+
             const built = buildUserAndOrgFromRow(currentRow);
 
             if (built.error) {
@@ -410,6 +368,33 @@ export async function processChunkInWorker(
 
             const payload = built.userPayload;
 
+            // Delta rows with action=delete remove the user; no org or membership handling
+            if (built.action === 'delete') {
+              try {
+                const deletedUserId = dryRun ? null : await deleteUserByEmail(payload.email, gateway);
+                if (dryRun || deletedUserId) chunkUsersDeleted += 1;
+                chunkSuccesses += 1;
+                rowLedger?.record({
+                  recordNumber: currentRecordNumber,
+                  status: 'completed',
+                  email: payload.email,
+                  user: deletedUserId ? 'deleted' : undefined
+                });
+              } catch (err: any) {
+                chunkFailures += 1;
+                recordError({
+                  recordNumber: currentRecordNumber,
+                  email: payload.email,
+                  errorType: 'user_delete',
+                  errorMessage: err.message || String(err),
+                  ...workosErrorFields(err),
+                  timestamp: new Date().toISOString(),
+                  rawRow: currentRow
+                });
+              }
+              return;
+            }
+
             // Resolve org for this row (multi-org mode)
             let resolvedOrgId = orgId;
             if (!orgId && built.orgInfo && orgCache) {
@@ -423,7 +408,8 @@ export async function processChunkInWorker(
                   orgId: built.orgInfo.orgId,
                   orgExternalId: built.orgInfo.orgExternalId,
                   createIfMissing: Boolean(built.orgInfo.orgName),
-                  orgName: built.orgInfo.orgName
+                  orgName: built.orgInfo.orgName,
+                  orgDomains: built.orgInfo.orgDomains
                 });
 
                 if (!resolvedOrgId) {
@@ -466,24 +452,58 @@ export async function processChunkInWorker(
             let createdUserId: string | undefined;
             const userEmail = payload.email.toLowerCase();
 
-            if (createdUsers.has(userEmail)) {
+            let userOutcome: RowLedgerEntry['user'];
+
+            if (built.userId) {
+              // Membership-only retry row: the user already exists
+              createdUserId = built.userId;
+              createdUsers.set(userEmail, createdUserId);
+              preexistingUsers.add(createdUserId);
+            } else if (prior?.status === 'user_done' && prior.userId) {
+              // User step finished before the chunk was interrupted: reuse its ID
+              createdUserId = prior.userId;
+              createdUsers.set(userEmail, createdUserId);
+              userOutcome = prior.user;
+              countUserOutcome(prior.user);
+              if (prior.user !== 'created') preexistingUsers.add(createdUserId);
+            } else if (createdUsers.has(userEmail)) {
               createdUserId = createdUsers.get(userEmail)!;
               chunkDuplicateUsers += 1;
+              userOutcome = 'duplicate';
             } else if (!dryRun) {
               try {
-                createdUserId = await retryCreateUser(payload, rateLimiter);
+                const result = await createOrResolveUser(payload, conflictModeForAction(built.action, onConflict), gateway,
+                  () => retryCreateUser(payload, gateway));
+                createdUserId = result.userId;
                 createdUsers.set(userEmail, createdUserId);
-                chunkUsersCreated += 1;
+                userOutcome = result.outcome;
+                if (resolvedOrgId) {
+                  rowLedger?.record({
+                    recordNumber: currentRecordNumber,
+                    status: 'user_done',
+                    email: payload.email,
+                    userId: createdUserId,
+                    user: result.outcome,
+                    orgId: resolvedOrgId
+                  });
+                }
+                if (result.outcome === 'created') {
+                  chunkUsersCreated += 1;
+                  ledger?.record({ type: 'user', id: createdUserId, email: payload.email, recordNumber: currentRecordNumber });
+                } else {
+                  preexistingUsers.add(createdUserId);
+                  if (result.outcome === 'updated') chunkUsersUpdated += 1;
+                  else chunkUsersSkipped += 1;
+                }
               } catch (userErr: any) {
                 chunkFailures += 1;
                 recordError({
                   recordNumber: currentRecordNumber,
                   email: payload.email,
-                  errorType: 'user_create',
+                  userId: userErr instanceof UserUpdateError ? userErr.userId : undefined,
+                  errorType: userErr instanceof UserUpdateError ? 'user_update' : 'user_create',
                   errorMessage: userErr.message || String(userErr),
-                  httpStatus: userErr.status,
-                  workosCode: userErr.code,
-                  workosRequestId: userErr.requestId,
+                  ...workosErrorFields(userErr instanceof UserUpdateError ? userErr.original : userErr),
                   timestamp: new Date().toISOString(),
                   rawRow: currentRow
                 });
@@ -496,28 +516,72 @@ export async function processChunkInWorker(
             }
 
             // Create membership if org is specified and user was created/resolved
+            let membershipOutcome: RowLedgerEntry['membership'];
+            let membershipId: string | undefined;
+            let rowRolesAssigned = 0;
             if (resolvedOrgId && createdUserId) {
               const membershipKey = `${createdUserId}:${resolvedOrgId}`;
               if (createdMemberships.has(membershipKey)) {
                 chunkDuplicateMemberships += 1;
+                membershipOutcome = 'duplicate';
               } else {
                 try {
                   let membershipResult: MembershipResult = { rolesAssigned: allRoleSlugs.length };
                   if (!dryRun) {
-                    membershipResult = await retryCreateOrganizationMembership(createdUserId, resolvedOrgId, rateLimiter, allRoleSlugs.length > 0 ? allRoleSlugs : undefined);
+                    membershipResult = await retryCreateOrganizationMembership(createdUserId, resolvedOrgId, gateway, allRoleSlugs.length > 0 ? allRoleSlugs : undefined);
+                  }
+                  if (membershipResult.membershipId) {
+                    ledger?.record({
+                      type: 'membership',
+                      id: membershipResult.membershipId,
+                      userId: createdUserId,
+                      orgId: resolvedOrgId,
+                      email: payload.email,
+                      recordNumber: currentRecordNumber
+                    });
                   }
                   createdMemberships.add(membershipKey);
                   chunkMemberships += 1;
                   chunkRolesAssigned += membershipResult.rolesAssigned;
+                  membershipOutcome = 'created';
+                  membershipId = membershipResult.membershipId;
+                  rowRolesAssigned = membershipResult.rolesAssigned;
                   if (membershipResult.warning) {
                     chunkWarnings.push(`Row ${currentRecordNumber}: ${membershipResult.warning}`);
                   }
                 } catch (membershipErr: any) {
-                  const membershipStatus: number | undefined =
-                    (membershipErr as any)?.status ?? (membershipErr as any)?.httpStatus ?? (membershipErr as any)?.response?.status;
-                  if (membershipStatus === 409) {
+                  const errorFields = workosErrorFields(membershipErr);
+                  if (errorFields.httpStatus === 409 && (built.userId || conflictModeForAction(built.action, onConflict) === 'update') && allRoleSlugs.length > 0) {
+                    // Membership-only retry row or upsert (update action or --on-conflict update): the membership exists, re-apply its roles
+                    try {
+                      const roleResult = await updateMembershipRoles(gateway, createdUserId, resolvedOrgId, allRoleSlugs);
+                      createdMemberships.add(membershipKey);
+                      chunkRolesAssigned += roleResult.rolesAssigned;
+                      membershipOutcome = 'duplicate';
+                      membershipId = roleResult.membershipId;
+                      rowRolesAssigned = roleResult.rolesAssigned;
+                    } catch (roleErr: any) {
+                      recordError({
+                        recordNumber: currentRecordNumber,
+                        email: payload.email,
+                        userId: createdUserId,
+                        errorType: 'role_assignment',
+                        errorMessage: roleErr.message || String(roleErr),
+                        ...workosErrorFields(roleErr),
+                        orgId: resolvedOrgId,
+                        roleSlugs: allRoleSlugs,
+                        timestamp: new Date().toISOString(),
+                        rawRow: currentRow
+                      });
+                      rowLedger?.record({ recordNumber: currentRecordNumber, status: 'failed' });
+                      chunkFailures += 1;
+                      return;
+                    }
+                  } else if (errorFields.httpStatus === 409) {
+                    // Handle 409 conflict (duplicate membership) gracefully
                     chunkDuplicateMemberships += 1;
                     createdMemberships.add(membershipKey);
+                    membershipOutcome = 'duplicate';
                   } else {
                     recordError({
                       recordNumber: currentRecordNumber,
@@ -525,16 +589,16 @@ export async function processChunkInWorker(
                       userId: createdUserId,
                       errorType: 'membership_create',
                       errorMessage: membershipErr.message || String(membershipErr),
-                      httpStatus: membershipStatus,
-                      workosCode: membershipErr.code,
-                      workosRequestId: membershipErr.requestId,
+                      ...errorFields,
                       timestamp: new Date().toISOString(),
                       rawRow: currentRow
                     });
                     if (requireMembership) {
-                      if (!dryRun) {
-                        await deleteUserSafe(createdUserId);
+                      // Never delete users that existed before this run
+                      if (!dryRun && !preexistingUsers.has(createdUserId)) {
+                        await deleteUserSafe(gateway, createdUserId);
                       }
+                      rowLedger?.record({ recordNumber: currentRecordNumber, status: 'failed' });
                       chunkFailures += 1;
                       return;
                     }
@@ -542,6 +606,17 @@ export async function processChunkInWorker(
                 }
               }
             }
+            rowLedger?.record({
+              recordNumber: currentRecordNumber,
+              status: 'completed',
+              email: payload.email,
+              userId: createdUserId,
+              user: userOutcome,
+              orgId: resolvedOrgId ?? undefined,
+              membershipId,
+              membership: membershipOutcome,
+              rolesAssigned: rowRolesAssigned || undefined
+            });
             chunkSuccesses += 1;
           } finally {
             sem.release();
@@ -560,6 +635,7 @@ export async function processChunkInWorker(
 
   // Wait for all in-flight tasks
   await Promise.all(inFlight);
+  rowLedger?.close();
 
   // Close error stream
   await new Promise<void>((resolve, reject) => {
@@ -576,6 +652,9 @@ export async function processChunkInWorker(
     failures: chunkFailures,
     membershipsCreated: chunkMemberships,
     usersCreated: chunkUsersCreated,
+    usersUpdated: chunkUsersUpdated,
+    usersSkipped: chunkUsersSkipped,
+    usersDeleted: chunkUsersDeleted,
     duplicateUsers: chunkDuplicateUsers,
     duplicateMemberships: chunkDuplicateMemberships,
     rolesAssigned: chunkRolesAssigned,
@@ -7,6 +7,7 @@
  * - Coordinating rate limiting across all workers
  * - Merging cache updates from workers
  * - Tracking progress and saving checkpoints
+ * - Retrying failed chunks with backoff and restarting crashed workers
  */
 
 import { Worker } from 'node:worker_threads';
@@ -23,12 +24,14 @@ import type {
   WorkerImportOptions
 } from './types.js';
 import type { ChunkMetadata, ImportSummary } from '../types.js';
-import { RateLimiter } from '../rateLimiter.js';
+import { AdaptiveRateLimiter } from '../rateLimiter.js';
+import type { RetryPolicy } from '../workosGateway.js';
 import { CheckpointManager } from '../checkpoint/manager.js';
 import { OrganizationCache } from '../cache/organizationCache.js';
 import { createLogger } from '../logger.js';
 import { ProgressUI } from '../ui/progressUI.js';
 import { extractUniqueOrganizations } from '../utils/csvScanner.js';
+import { parseOrgDomains } from '../organizations/orgDomains.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -41,8 +44,23 @@ export interface CoordinatorOptions {
   numWorkers: number;
   orgCache: OrganizationCache | null;
   importOptions: WorkerImportOptions;
+  /** Retries for a chunk whose worker reported a failure or crashed */
+  chunkRetry?: Partial<RetryPolicy>;
 }
 
+/**
+ * Chunk-level retries. Rows already get per-request retries from the
+ * WorkOS gateway, so a chunk failure means the worker itself failed.
+ */
+export const DEFAULT_CHUNK_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 2,
+  baseDelayMs: 1000,
+  maxDelayMs: 30_000
+};
+
+/** Times a crashed worker slot is restarted before it is retired */
+const MAX_WORKER_RESTARTS = 3;
+
 /**
  * Worker coordinator class
  * Manages worker pool and coordinates chunk processing
@@ -52,7 +70,7 @@ export class WorkerCoordinator {
   private availableWorkers: Set<number> = new Set();
   private chunkQueue: ChunkMetadata[] = [];
   private activeChunks: Map<number, number> = new Map(); // chunkId -> workerId
-  private rateLimiter: RateLimiter;
+  private rateLimiter: AdaptiveRateLimiter;
   private checkpointManager: CheckpointManager;
   private orgCache: OrganizationCache | null;
   private importOptions: WorkerImportOptions;
@@ -64,6 +82,12 @@ export class WorkerCoordinator {
   private checkpointSaveLock: Promise<void> = Promise.resolve();
   private progressUI: ProgressUI;
   private startTime: number = Date.now();
+  private chunkRetry: RetryPolicy;
+  private chunkAttempts: Map<number, number> = new Map(); // chunkId -> failed attempts this run
+  private retryTimers: Map<number, NodeJS.Timeout> = new Map(); // chunkId -> pending requeue
+  private workerRestarts: Map<number, number> = new Map(); // workerId -> restarts
+  private retiredWorkers: Set<number> = new Set();
+  private shuttingDown: boolean = false;
 
   constructor(options: CoordinatorOptions, logger: ReturnType<typeof createLogger>) {
     this.checkpointManager = options.checkpointManager;
@@ -71,8 +95,14 @@ export class WorkerCoordinator {
     this.orgCache = options.orgCache;
     this.importOptions = options.importOptions;
     this.logger = logger;
-    this.rateLimiter = new RateLimiter(50); // Global 50 rps limit
+    this.rateLimiter = new AdaptiveRateLimiter(); // Global limit shared by all workers, adapts to 429s
     this.progressUI = new ProgressUI(options.importOptions.quiet);
+    this.chunkRetry = { ...DEFAULT_CHUNK_RETRY_POLICY };
+    for (const [key, value] of Object.entries(options.chunkRetry ?? {})) {
+      if (value !== undefined) {
+        this.chunkRetry[key as keyof RetryPolicy] = value;
+      }
+    }
 
     // Resolve worker path (compiled JS file)
     // Note: Worker threads need compiled JavaScript, not TypeScript
@@ -129,7 +159,8 @@ export class WorkerCoordinator {
         const orgId = await this.orgCache.resolve({
           orgExternalId: org.orgExternalId,
           createIfMissing: Boolean(org.orgName),
-          orgName: org.orgName || undefined
+          orgName: org.orgName || undefined,
+          orgDomains: org.orgDomains ? parseOrgDomains(org.orgDomains) : undefined
         });
 
         if (orgId) {
@@ -228,6 +259,8 @@ export class WorkerCoordinator {
     await this.shutdownWorkers();
 
     const summary = this.checkpointManager.getFinalSummary();
+    summary.rateLimit = this.rateLimiter.getMetrics();
+    this.rateLimiter.stop();
     const duration = Date.now() - this.startTime;
     const throughput = duration > 0 ? (summary.successes / duration) * 1000 : 0;
 
@@ -240,7 +273,8 @@ export class WorkerCoordinator {
       cacheMisses: summary.cacheStats?.misses || 0,
       duration,
       throughput,
-      membershipsCreated: summary.membershipsCreated
+      membershipsCreated: summary.membershipsCreated,
+      failedChunks: summary.failedChunks
     }, 'worker-pool');
 
     this.progressUI.stop();
@@ -253,64 +287,83 @@ export class WorkerCoordinator {
    * Creates workers, sends initialize messages, waits for ready
    */
   private async initializeWorkers(): Promise<void> {
-    const cacheEntries = this.orgCache?.serialize() || [];
-    const checkpointDir = this.checkpointManager.getCheckpointDir();
-
     const workerReadyPromises: Promise<void>[] = [];
 
     for (let i = 0; i < this.numWorkers; i++) {
-      const worker = new Worker(this.workerPath, {
-        workerData: { workerId: i }
-      });
+      workerReadyPromises.push(this.spawnWorker(i));
+    }
 
-      // Set up message handler
-      worker.on('message', (msg: WorkerMessage) => this.handleWorkerMessage(i, msg));
+    // Wait for all workers to be ready
+    await Promise.all(workerReadyPromises);
+  }
 
-      // Handle worker errors
-      worker.on('error', (err) => {
-        this.logger.error(`Worker ${i} error:`, err);
-        this.handleWorkerFailure(i, err);
-      });
+  /**
+   * Start (or restart) the worker in slot `workerId`
+   * Resolves once the worker is ready, or once it has failed
+   */
+  private spawnWorker(workerId: number): Promise<void> {
+    const worker = new Worker(this.workerPath, {
+      workerData: { workerId }
+    });
 
-      // Handle worker exit
-      worker.on('exit', (code) => {
-        if (code !== 0) {
-          this.logger.error(`Worker ${i} exited with code ${code}`);
-          this.handleWorkerFailure(i, new Error(`Worker exited with code ${code}`));
-        }
-      });
+    // 'error' is followed by 'exit'; handle each worker's failure once
+    let failed = false;
+    let markReady: () => void = () => {};
+    const readyPromise = new Promise<void>((resolve) => {
+      markReady = resolve;
+    });
+    const onFailure = (err: Error) => {
+      if (failed || this.shuttingDown) return;
+      failed = true;
+      markReady();
+      this.handleWorkerFailure(workerId, err);
+    };
+
+    // Set up message handler
+    worker.on('message', (msg: WorkerMessage) => this.handleWorkerMessage(workerId, msg));
+
+    // Handle worker errors
+    worker.on('error', (err) => {
+      if (!this.shuttingDown) {
+        this.logger.error(`Worker ${workerId} error:`, err);
+      }
+      onFailure(err);
+    });
 
-      this.workers.push(worker);
+    // Handle worker exit
+    worker.on('exit', (code) => {
+      if (code !== 0 && !this.shuttingDown) {
+        this.logger.error(`Worker ${workerId} exited with code ${code}`);
+      }
+      onFailure(new Error(`Worker exited with code ${code}`));
+    });
 
-      // Wait for ready message
-      const readyPromise = new Promise<void>((resolve) => {
-        const handler = (msg: WorkerMessage) => {
-          if (msg.type === 'ready') {
-            worker.off('message', handler);
-            this.availableWorkers.add(i);
-            resolve();
-          }
-        };
-        worker.on('message', handler);
-      });
+    this.workers[workerId] = worker;
 
-      workerReadyPromises.push(readyPromise);
+    // Wait for ready message
+    const handler = (msg: WorkerMessage) => {
+      if (msg.type === 'ready') {
+        worker.off('message', handler);
+        this.availableWorkers.add(workerId);
+        markReady();
+        this.dispatchChunks();
+      }
+    };
+    worker.on('message', handler);
 
-      // Send initialize message
-      const initPayload: InitializePayload = {
-        cacheEntries,
-        options: this.importOptions,
-        checkpointDir
-      };
+    // Send initialize message (with the coordinator's latest cache)
+    const initPayload: InitializePayload = {
+      cacheEntries: this.orgCache?.serialize() || [],
+      options: this.importOptions,
+      checkpointDir: this.checkpointManager.getCheckpointDir()
+    };
 
-      worker.postMessage({
-        type: 'initialize',
-        payload: initPayload
-      } as CoordinatorMessage);
-    }
+    worker.postMessage({
+      type: 'initialize',
+      payload: initPayload
+    } as CoordinatorMessage);
 
-    // Wait for all workers to be ready
-    await Promise.all(workerReadyPromises);
+    return readyPromise;
   }
 
   /**
@@ -331,10 +384,13 @@ export class WorkerCoordinator {
     // Start initial dispatch
     this.dispatchChunks();
 
-    // Wait for all chunks to complete
-    while (this.activeChunks.size > 0 || this.chunkQueue.length > 0) {
+    // Wait for all chunks to complete, including chunks waiting out a retry delay
+    while (this.activeChunks.size > 0 || this.chunkQueue.length > 0 || this.retryTimers.size > 0) {
       await new Promise(resolve => setTimeout(resolve, 100));
     }
+
+    // Let the last failed-chunk saves land
+    await this.checkpointSaveLock;
   }
 
   /**
@@ -342,6 +398,12 @@ export class WorkerCoordinator {
    * Pulls from queue and assigns to available workers
    */
   private dispatchChunks(): void {
+    // Every worker slot is retired: nothing can run the remaining chunks
+    if (this.retiredWorkers.size === this.numWorkers && this.chunkQueue.length > 0) {
+      this.failQueuedChunks('No workers left to process chunk');
+      return;
+    }
+
     while (this.chunkQueue.length > 0 && this.availableWorkers.size > 0) {
       const chunk = this.chunkQueue.shift()!;
       const workerIdIter = this.availableWorkers.values().next();
@@ -389,9 +451,17 @@ export class WorkerCoordinator {
         break;
 
       case 'rate-limit-request':
+        // Workers batch their success count onto the next token request
+        if (msg.successes) {
+          this.rateLimiter.recordSuccess(msg.successes);
+        }
         this.handleRateLimitRequest(workerId, msg.requestId);
         break;
 
+      case 'rate-limit-throttled':
+        this.rateLimiter.recordThrottle(msg.retryAfterMs);
+        break;
+
       case 'chunk-complete':
         this.handleChunkComplete(workerId, msg.payload);
         break;
@@ -442,11 +512,7 @@ export class WorkerCoordinator {
       this.checkpointManager.serializeCache(this.orgCache);
     }
 
-    // Save checkpoint with lock to prevent concurrent saves
-    this.checkpointSaveLock = this.checkpointSaveLock.then(async () => {
-      await this.checkpointManager.saveCheckpoint();
-    });
-    await this.checkpointSaveLock;
+    await this.saveCheckpoint();
 
     // Remove from active chunks
     this.activeChunks.delete(chunkId);
@@ -471,19 +537,18 @@ export class WorkerCoordinator {
 
   /**
    * Handle chunk failure from worker
-   * Logs error, requeues chunk for retry (optional), dispatches next
+   * Retries the chunk (or marks it failed), frees the worker, dispatches next
    */
   private handleChunkFailed(workerId: number, payload: ChunkFailedPayload): void {
-    const { chunkId, error, partialSummary } = payload;
+    const { chunkId, error } = payload;
 
     this.logger.error(`Chunk ${chunkId} failed on worker ${workerId}: ${error}`);
 
-    // Mark chunk as failed in checkpoint (keep status as pending for retry)
-    // For now, we'll just log and continue - in production you might want retry logic
-
     // Remove from active chunks
     this.activeChunks.delete(chunkId);
 
+    this.retryOrFailChunk(chunkId, error);
+
     // Mark worker as available
     this.availableWorkers.add(workerId);
 
@@ -493,31 +558,104 @@ export class WorkerCoordinator {
 
   /**
    * Handle worker failure (crash, exit)
-   * Requeues active chunks from failed worker
+   * Retries the worker's active chunks and restarts the worker
    */
   private handleWorkerFailure(workerId: number, error: Error): void {
     this.logger.error(`Worker ${workerId} failed:`, error);
 
-    // Find chunks assigned to failed worker and requeue
+    // A crash counts as a failed attempt at the chunks the worker held
     for (const [chunkId, wId] of this.activeChunks.entries()) {
       if (wId === workerId) {
-        const state = this.checkpointManager.getState();
-        const chunk = state.chunks.find(c => c.chunkId === chunkId);
-        if (chunk) {
-          this.logger.log(`Requeuing chunk ${chunkId} from failed worker ${workerId}`);
-          this.chunkQueue.unshift(chunk); // Add to front of queue
-        }
         this.activeChunks.delete(chunkId);
+        this.retryOrFailChunk(chunkId, `Worker ${workerId} crashed: ${error.message}`);
       }
     }
 
     // Remove worker from available set
     this.availableWorkers.delete(workerId);
 
+    const restarts = this.workerRestarts.get(workerId) ?? 0;
+    if (restarts < MAX_WORKER_RESTARTS) {
+      this.workerRestarts.set(workerId, restarts + 1);
+      this.logger.log(`Restarting worker ${workerId} (restart ${restarts + 1}/${MAX_WORKER_RESTARTS})`);
+      void this.spawnWorker(workerId);
+    } else {
+      this.logger.error(`Worker ${workerId} failed ${restarts + 1} times; not restarting`);
+      this.retiredWorkers.add(workerId);
+    }
+
     // Dispatch chunks to remaining workers
     this.dispatchChunks();
   }
 
+  /**
+   * Requeue a failed chunk after a backoff delay, or mark it permanently
+   * failed in the checkpoint once its retries are used up
+   */
+  private retryOrFailChunk(chunkId: number, error: string): void {
+    const chunk = this.checkpointManager.getState().chunks[chunkId];
+    if (!chunk) {
+      this.logger.error(`Cannot retry chunk ${chunkId}: not in checkpoint`);
+      return;
+    }
+
+    this.checkpointManager.recordChunkAttempt(chunkId, error);
+    const attempts = (this.chunkAttempts.get(chunkId) ?? 0) + 1;
+    this.chunkAttempts.set(chunkId, attempts);
+
+    if (attempts > this.chunkRetry.maxRetries) {
+      this.checkpointManager.markChunkFailed(chunkId, error);
+      this.logger.error(
+        `Chunk ${chunkId} (rows ${chunk.startRow}-${chunk.endRow}) failed after ${attempts} attempt(s); ` +
+        `marked as failed`
+      );
+      void this.saveCheckpoint();
+      return;
+    }
+
+    const backoff = this.chunkRetry.baseDelayMs * Math.pow(2, attempts - 1);
+    const delay = Math.min(backoff, this.chunkRetry.maxDelayMs);
+    this.logger.warn(
+      `Retrying chunk ${chunkId} in ${delay}ms (retry ${attempts}/${this.chunkRetry.maxRetries})`
+    );
+
+    const timer = setTimeout(() => {
+      this.retryTimers.delete(chunkId);
+      this.chunkQueue.unshift(chunk); // Add to front of queue
+      this.dispatchChunks();
+    }, delay);
+    this.retryTimers.set(chunkId, timer);
+  }
+
+  /**
+   * Mark every queued or retry-pending chunk as failed
+   */
+  private failQueuedChunks(reason: string): void {
+    for (const [chunkId, timer] of this.retryTimers.entries()) {
+      clearTimeout(timer);
+      this.checkpointManager.markChunkFailed(chunkId, reason);
+    }
+    this.retryTimers.clear();
+
+    for (const chunk of this.chunkQueue) {
+      this.checkpointManager.markChunkFailed(chunk.chunkId, reason);
+    }
+    this.logger.error(`${reason}: ${this.chunkQueue.length} queued chunk(s) marked as failed`);
+    this.chunkQueue = [];
+
+    void this.saveCheckpoint();
+  }
+
+  /**
+   * Save checkpoint with lock to prevent concurrent saves
+   */
+  private async saveCheckpoint(): Promise<void> {
+    this.checkpointSaveLock = this.checkpointSaveLock.then(async () => {
+      await this.checkpointManager.saveCheckpoint();
+    });
+    await this.checkpointSaveLock;
+  }
+
   /**
    * Merge cache updates from worker into coordinator's cache
    * Uses OrganizationCache's mergeEntries method to avoid duplicates
@@ -540,7 +678,11 @@ export class WorkerCoordinator {
    * Shutdown all workers gracefully
    */
   private async shutdownWorkers(): Promise<void> {
-    const shutdownPromises = this.workers.map((worker, i) => {
+    // Exits from here on are expected, not failures
+    this.shuttingDown = true;
+
+    const liveWorkers = this.workers.filter((_, i) => !this.retiredWorkers.has(i));
+    const shutdownPromises = liveWorkers.map((worker) => {
       return new Promise<void>((resolve) => {
         worker.on('exit', () => resolve());
 
@@ -2,11 +2,13 @@
  * Phase 4: Distributed rate limiter for worker threads
  *
  * Workers use this to request rate limit tokens from the coordinator
- * via IPC messages. The coordinator manages the global token bucket.
+ * via IPC messages. The coordinator manages the global adaptive token bucket;
+ * workers report 429s immediately and piggyback success counts on requests.
  */
 
 import { parentPort } from 'node:worker_threads';
 import { randomUUID } from 'node:crypto';
+import type { RateLimiterLike } from '../rateLimiter.js';
 
 /**
  * Worker-side rate limiter that requests tokens from coordinator via IPC
@@ -15,9 +17,10 @@ import { randomUUID } from 'node:crypto';
  *   const limiter = new DistributedRateLimiter();
  *   await limiter.acquire(); // Blocks until coordinator grants token
  */
-export class DistributedRateLimiter {
+export class DistributedRateLimiter implements RateLimiterLike {
   private pendingRequests: Map<string, PendingRequest>;
   private messageHandler: ((msg: any) => void) | null = null;
+  private unreportedSuccesses = 0;
 
   constructor() {
     this.pendingRequests = new Map();
@@ -28,17 +31,17 @@ export class DistributedRateLimiter {
    * Acquire a rate limit token from the coordinator
    * Sends 'rate-limit-request' message and waits for 'rate-limit-grant'
    *
-   * @throws Error if timeout (5 seconds) is reached without grant
+   * @throws Error if timeout is reached without grant
    */
   async acquire(): Promise<void> {
     const requestId = randomUUID();
 
     return new Promise<void>((resolve, reject) => {
-      // Set 5-second timeout
+      // The coordinator may slow grants or pause for Retry-After while throttled
       const timeout = setTimeout(() => {
         this.pendingRequests.delete(requestId);
-        reject(new Error(`Rate limit request timeout after 5s (requestId: ${requestId})`));
-      }, 5000);
+        reject(new Error(`Rate limit request timeout after ${GRANT_TIMEOUT_MS / 1000}s (requestId: ${requestId})`));
+      }, GRANT_TIMEOUT_MS);
 
       // Store pending request
       this.pendingRequests.set(requestId, { resolve, reject, timeout });
@@ -53,8 +56,27 @@ export class DistributedRateLimiter {
 
       parentPort.postMessage({
         type: 'rate-limit-request',
-        requestId
+        requestId,
+        successes: this.unreportedSuccesses
       });
+      this.unreportedSuccesses = 0;
+    });
+  }
+
+  /**
+   * Count a successful call; reported with the next token request
+   */
+  recordSuccess(count: number = 1): void {
+    this.unreportedSuccesses += count;
+  }
+
+  /**
+   * Report a 429 to the coordinator so the global rate backs off
+   */
+  recordThrottle(retryAfterMs?: number): void {
+    parentPort?.postMessage({
+      type: 'rate-limit-throttled',
+      retryAfterMs
     });
   }
 
@@ -118,6 +140,9 @@ export class DistributedRateLimiter {
   }
 }
 
+/** How long a worker waits for a token grant before failing the call */
+const GRANT_TIMEOUT_MS = 60_000;
+
 /**
  * Internal type for tracking pending rate limit requests
  */
@@ -7,6 +7,8 @@ import type {
   ChunkSummary,
   SerializedCacheEntry
 } from '../checkpoint/types.js';
+import type { OnConflictMode } from '../types.js';
+import type { RedactionPolicy } from '../redaction.js';
 
 /**
  * Messages sent from Coordinator (main thread) to Workers
@@ -43,7 +45,8 @@ export interface ProcessChunkPayload {
  */
 export type WorkerMessage =
   | { type: 'ready' }
-  | { type: 'rate-limit-request'; requestId: string }
+  | { type: 'rate-limit-request'; requestId: string; successes?: number }
+  | { type: 'rate-limit-throttled'; retryAfterMs?: number }
   | { type: 'chunk-complete'; payload: ChunkCompletePayload }
   | { type: 'chunk-failed'; payload: ChunkFailedPayload };
 
@@ -91,7 +94,7 @@ export interface CacheUpdate {
  * Subset of main ImportOptions relevant for worker processing
  */
 export interface WorkerImportOptions {
-  /** Path to CSV file (workers will re-parse and skip to chunk range) */
+  /** Path to CSV file (workers seek to the chunk's byte range) */
   csvPath: string;
   /** Concurrency limit for API calls within worker */
   concurrency: number;
@@ -103,6 +106,10 @@ export interface WorkerImportOptions {
   dryRun: boolean;
   /** Quiet mode (suppress per-record output) */
   quiet?: boolean;
+  /** How to handle emails that already exist in WorkOS (default: fail) */
+  onConflict?: OnConflictMode;
+  /** PII redaction for the errors file (default: drop passwords and secrets) */
+  redaction?: RedactionPolicy;
 }
 
 /**
@@ -27,6 +27,7 @@ import type {
 import { DistributedRateLimiter } from './distributedRateLimiter.js';
 import { processChunkInWorker } from './chunkProcessor.js';
 import { OrganizationCache } from '../cache/organizationCache.js';
+import { CreationLedger } from '../rollback/ledger.js';
 
 // Worker state
 let orgCache: OrganizationCache | null = null;
@@ -50,13 +51,19 @@ function sendMessage(msg: WorkerMessage): void {
  */
 async function handleInitialize(payload: InitializePayload): Promise<void> {
   try {
+    // Organizations created by this worker go into the job's rollback ledger
+    const ledger = payload.options.dryRun ? null : new CreationLedger(payload.checkpointDir);
+    const onOrgCreated = ledger
+      ? (org: { id: string; externalId?: string }) => ledger.record({ type: 'organization', id: org.id, externalId: org.externalId })
+      : undefined;
+
     // Restore organization cache from serialized entries
     if (payload.cacheEntries && payload.cacheEntries.length > 0) {
-      orgCache = OrganizationCache.deserialize(payload.cacheEntries, { dryRun: payload.options.dryRun });
+      orgCache = OrganizationCache.deserialize(payload.cacheEntries, { dryRun: payload.options.dryRun, onCreate: onOrgCreated });
     } else {
       // Multi-org mode without existing cache
       if (payload.options.orgId === null) {
-        orgCache = new OrganizationCache({ maxSize: 10000, dryRun: payload.options.dryRun });
+        orgCache = new OrganizationCache({ maxSize: 10000, dryRun: payload.options.dryRun, onCreate: onOrgCreated });
       }
     }
 
@@ -1,5 +1,7 @@
 import { WorkOS } from "@workos-inc/node";
 
+const DEFAULT_WORKOS_BASE_URL = "https://api.workos.com";
+
 let _cachedClient: WorkOS | null = null;
 
 export function getWorkOSClient(): WorkOS {
@@ -12,7 +14,12 @@ export function getWorkOSClient(): WorkOS {
     throw new Error("WORKOS_SECRET_KEY environment variable is required.");
   }
 
-  _cachedClient = new WorkOS(apiKey);
+  const baseUrl = new URL(getWorkOSBaseUrl());
+  _cachedClient = new WorkOS(apiKey, {
+    apiHostname: baseUrl.hostname,
+    https: baseUrl.protocol === "https:",
+    ...(baseUrl.port ? { port: Number(baseUrl.port) } : {})
+  });
   return _cachedClient;
 }
 
@@ -24,3 +31,31 @@ export function getWorkOSApiKey(): string {
   return apiKey;
 }
 
+/**
+ * WorkOS API base URL. WORKOS_BASE_URL overrides it, e.g. to point the tool
+ * at a local fake server (src/testing/fakeWorkOSServer.ts).
+ */
+export function getWorkOSBaseUrl(): string {
+  const override = process.env.WORKOS_BASE_URL?.trim();
+  if (!override) {
+    return DEFAULT_WORKOS_BASE_URL;
+  }
+  let url: URL;
+  try {
+    url = new URL(override);
+  } catch {
+    throw new Error(`WORKOS_BASE_URL is not a valid URL: ${override}`);
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new Error(`WORKOS_BASE_URL must be an http(s) URL: ${override}`);
+  }
+  return url.origin;
+}
+
+/**
+ * Drop the cached client so the next getWorkOSClient() call re-reads
+ * WORKOS_SECRET_KEY and WORKOS_BASE_URL
+ */
+export function resetWorkOSClient(): void {
+  _cachedClient = null;
+}
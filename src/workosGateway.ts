@@ -0,0 +1,363 @@
+/**
+ * WorkOS gateway
+ *
+ * Single entry point for WorkOS API calls made by the importer, TOTP enroller
+ * and role client. Every call goes through one pipeline: rate limiter token,
+ * call, error normalization, limiter feedback, retry.
+ *
+ * Retried: 429 (Retry-After, else backoff), 5xx, and network resets.
+ * Everything else fails fast as a WorkOSApiError. User creation is not
+ * idempotent and is retried on 429 only: a 5xx or reset may arrive after the
+ * user was created, and a retry would then fail with an email conflict.
+ *
+ * Tests can swap in a fake with setWorkOSGatewayFactory().
+ */
+
+import type {
+  CreateOrganizationMembershipOptions,
+  EnrollAuthFactorOptions,
+  OrganizationMembership,
+  RoleList,
+  UpdateOrganizationMembershipOptions,
+  UpdateUserOptions,
+  User
+} from '@workos-inc/node';
+import { getWorkOSApiKey, getWorkOSBaseUrl, getWorkOSClient } from './workos.js';
+import type { RateLimiterLike } from './rateLimiter.js';
+import type { CreateUserPayload } from './types.js';
+
+export type WorkOSErrorKind =
+  | 'rate_limit'
+  | 'server'
+  | 'network'
+  | 'conflict'
+  | 'not_found'
+  | 'validation'
+  | 'auth'
+  | 'unknown';
+
+/** Socket-level failures worth retrying */
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT'
+]);
+
+/**
+ * A WorkOS API failure with status, code and request ID extracted
+ * from whichever shape the SDK, fetch or Node produced
+ */
+export class WorkOSApiError extends Error {
+  readonly kind: WorkOSErrorKind;
+  readonly status?: number;
+  readonly code?: string;
+  readonly requestId?: string;
+  readonly errors?: unknown[];
+  readonly retryAfterMs?: number;
+  readonly cause: unknown;
+
+  constructor(message: string, fields: {
+    kind: WorkOSErrorKind;
+    status?: number;
+    code?: string;
+    requestId?: string;
+    errors?: unknown[];
+    retryAfterMs?: number;
+    cause?: unknown;
+  }) {
+    super(message);
+    this.name = 'WorkOSApiError';
+    this.kind = fields.kind;
+    this.status = fields.status;
+    this.code = fields.code;
+    this.requestId = fields.requestId;
+    this.errors = fields.errors;
+    this.retryAfterMs = fields.retryAfterMs;
+    this.cause = fields.cause;
+  }
+
+  /** True for failures the retry policy retries */
+  get retryable(): boolean {
+    return this.kind === 'rate_limit' || this.kind === 'server' || this.kind === 'network';
+  }
+}
+
+/**
+ * Retry-After in milliseconds, from the WorkOS SDK's RateLimitExceededException
+ * (retryAfter, seconds) or a Retry-After response header (seconds or HTTP date)
+ */
+export function getRetryAfterMs(err: any): number | undefined {
+  const headers = err?.response?.headers;
+  const raw =
+    err?.retryAfter ??
+    (typeof headers?.get === 'function' ? headers.get('retry-after') : headers?.['retry-after'] ?? headers?.['Retry-After']);
+  if (raw === undefined || raw === null || raw === '') return undefined;
+
+  const seconds = Number(raw);
+  if (Number.isFinite(seconds)) {
+    return seconds >= 0 ? seconds * 1000 : undefined;
+  }
+  const date = Date.parse(String(raw));
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function classify(status: number | undefined, code: string | undefined, message: string): WorkOSErrorKind {
+  if (status === 429 || /rate.?limit/i.test(message)) return 'rate_limit';
+  if (status !== undefined) {
+    if (status >= 500) return 'server';
+    if (status === 409) return 'conflict';
+    if (status === 404) return 'not_found';
+    if (status === 401 || status === 403) return 'auth';
+    if (status === 400 || status === 422) return 'validation';
+    return 'unknown';
+  }
+  if ((code && NETWORK_ERROR_CODES.has(code)) || /fetch failed|socket hang up/i.test(message)) {
+    return 'network';
+  }
+  return 'unknown';
+}
+
+/**
+ * Normalize any error thrown by a WorkOS call. The original message is kept
+ * so existing error reports read the same.
+ */
+export function normalizeWorkOSError(err: unknown): WorkOSApiError {
+  if (err instanceof WorkOSApiError) return err;
+
+  const e = err as any;
+  const message: string = e?.message || String(err);
+  const status: number | undefined = e?.status ?? e?.httpStatus ?? e?.response?.status;
+  // fetch wraps socket errors: TypeError('fetch failed', { cause: { code: 'ECONNRESET' } })
+  const code: string | undefined =
+    typeof e?.code === 'string' ? e.code :
+    typeof e?.cause?.code === 'string' ? e.cause.code :
+    undefined;
+  const headers = e?.response?.headers;
+  const headerRequestId = typeof headers?.get === 'function' ? headers.get('x-request-id') : headers?.['x-request-id'];
+  const errors = e?.errors ?? e?.response?.data?.errors;
+
+  return new WorkOSApiError(message, {
+    kind: classify(status, code, message),
+    status,
+    code,
+    requestId: e?.requestID || e?.requestId || headerRequestId || undefined,
+    errors: Array.isArray(errors) ? errors : undefined,
+    retryAfterMs: getRetryAfterMs(e),
+    cause: err
+  });
+}
+
+export interface RetryPolicy {
+  /** Retries after the first attempt */
+  maxRetries: number;
+  /** Backoff for the first retry, doubled per attempt */
+  baseDelayMs: number;
+  /** Upper bound on backoff and honored Retry-After */
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10_000
+};
+
+/**
+ * Acquire a token, run the call and report the outcome to the limiter.
+ * Retryable failures (429, 5xx, network by default; see shouldRetry) are
+ * retried with Retry-After or exponential backoff; all failures surface as
+ * WorkOSApiError.
+ */
+export async function callWithRetry<T>(
+  fn: () => Promise<T>,
+  limiter?: RateLimiterLike,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  shouldRetry: (err: WorkOSApiError) => boolean = err => err.retryable
+): Promise<T> {
+  let attempt = 0;
+  // eslint-disable-next-line no-constant-condition
+  while (true) {
+    await limiter?.acquire();
+    try {
+      const result = await fn();
+      limiter?.recordSuccess?.();
+      return result;
+    } catch (raw) {
+      const err = normalizeWorkOSError(raw);
+
+      if (err.kind === 'rate_limit') {
+        limiter?.recordThrottle?.(err.retryAfterMs);
+      } else if (err.status !== undefined && err.kind !== 'server') {
+        // Any other 4xx means the API is keeping up with this rate
+        limiter?.recordSuccess?.();
+      }
+
+      attempt += 1;
+      if (!shouldRetry(err) || attempt > policy.maxRetries) {
+        throw err;
+      }
+      const backoff = policy.baseDelayMs * Math.pow(2, attempt - 1);
+      const delay = Math.min(err.retryAfterMs ?? backoff, policy.maxDelayMs);
+      await new Promise(r => setTimeout(r, delay));
+    }
+  }
+}
+
+/**
+ * Typed WorkOS operations used by this tool
+ */
+export interface WorkOSGateway {
+  createUser(payload: CreateUserPayload): Promise<User>;
+  updateUser(options: UpdateUserOptions): Promise<User>;
+  deleteUser(userId: string): Promise<void>;
+  /** First user with this email, or null */
+  findUserByEmail(email: string): Promise<User | null>;
+  createOrganizationMembership(options: CreateOrganizationMembershipOptions): Promise<OrganizationMembership>;
+  /** The user's membership in this organization, or null */
+  findOrganizationMembership(userId: string, organizationId: string): Promise<OrganizationMembership | null>;
+  updateOrganizationMembership(membershipId: string, options: UpdateOrganizationMembershipOptions): Promise<OrganizationMembership>;
+  enrollTotpFactor(options: Omit<EnrollAuthFactorOptions, 'type'>): Promise<void>;
+  listOrganizationRoles(options: { organizationId: string; after?: string; limit?: number }): Promise<RoleList>;
+  /**
+   * Direct REST call for endpoints the SDK does not cover.
+   * Non-2xx responses throw with `${errorPrefix}: ${status} ${body}`.
+   */
+  request<T = unknown>(method: string, path: string, body?: unknown, errorPrefix?: string): Promise<T>;
+}
+
+export interface WorkOSGatewayOptions {
+  /** Shared limiter; calls are unthrottled without one */
+  limiter?: RateLimiterLike;
+  retryPolicy?: Partial<RetryPolicy>;
+}
+
+/**
+ * Gateway backed by the WorkOS Node SDK. The client is resolved per call so
+ * a replaced client (tests) is picked up.
+ */
+class SdkWorkOSGateway implements WorkOSGateway {
+  private readonly limiter?: RateLimiterLike;
+  private readonly policy: RetryPolicy;
+
+  constructor(options: WorkOSGatewayOptions = {}) {
+    this.limiter = options.limiter;
+    this.policy = { ...DEFAULT_RETRY_POLICY, ...options.retryPolicy };
+  }
+
+  private execute<T>(fn: () => Promise<T>, shouldRetry?: (err: WorkOSApiError) => boolean): Promise<T> {
+    return callWithRetry(fn, this.limiter, this.policy, shouldRetry);
+  }
+
+  createUser(payload: CreateUserPayload): Promise<User> {
+    // Not idempotent: only a 429 guarantees the user was not created
+    return this.execute(
+      () => getWorkOSClient().userManagement.createUser(payload as any),
+      err => err.kind === 'rate_limit'
+    );
+  }
+
+  updateUser(options: UpdateUserOptions): Promise<User> {
+    return this.execute(() => getWorkOSClient().userManagement.updateUser(options));
+  }
+
+  async deleteUser(userId: string): Promise<void> {
+    await this.execute(() => getWorkOSClient().userManagement.deleteUser(userId));
+  }
+
+  async findUserByEmail(email: string): Promise<User | null> {
+    const users = await this.execute(() => getWorkOSClient().userManagement.listUsers({ email }));
+    return users.data[0] ?? null;
+  }
+
+  createOrganizationMembership(options: CreateOrganizationMembershipOptions): Promise<OrganizationMembership> {
+    return this.execute(() => getWorkOSClient().userManagement.createOrganizationMembership(options));
+  }
+
+  async findOrganizationMembership(userId: string, organizationId: string): Promise<OrganizationMembership | null> {
+    const memberships = await this.execute(() =>
+      getWorkOSClient().userManagement.listOrganizationMemberships({ userId, organizationId }));
+    return memberships.data[0] ?? null;
+  }
+
+  updateOrganizationMembership(membershipId: string, options: UpdateOrganizationMembershipOptions): Promise<OrganizationMembership> {
+    return this.execute(() => getWorkOSClient().userManagement.updateOrganizationMembership(membershipId, options));
+  }
+
+  async enrollTotpFactor(options: Omit<EnrollAuthFactorOptions, 'type'>): Promise<void> {
+    await this.execute(() => getWorkOSClient().userManagement.enrollAuthFactor({ ...options, type: 'totp' }));
+  }
+
+  listOrganizationRoles(options: { organizationId: string; after?: string; limit?: number }): Promise<RoleList> {
+    return this.execute(() => (getWorkOSClient().organizations as any).listOrganizationRoles(options));
+  }
+
+  request<T = unknown>(method: string, path: string, body?: unknown, errorPrefix?: string): Promise<T> {
+    return this.execute(async () => {
+      const apiKey = getWorkOSApiKey();
+      const response = await fetch(`${getWorkOSBaseUrl()}${path}`, {
+        method,
+        headers: {
+          'Authorization': `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        ...(body !== undefined ? { body: JSON.stringify(body) } : {}),
+      });
+
+      const text = await response.text();
+      if (!response.ok) {
+        const err = new Error(`${errorPrefix ?? `${method} ${path} failed`}: ${response.status} ${text}`);
+        Object.assign(err, { status: response.status, response: { status: response.status, headers: response.headers } });
+        try {
+          const parsed = JSON.parse(text);
+          Object.assign(err, { code: parsed?.code, errors: parsed?.errors });
+        } catch {
+          // Non-JSON error body; message already carries it
+        }
+        throw err;
+      }
+      return (text ? JSON.parse(text) : undefined) as T;
+    });
+  }
+}
+
+type WorkOSGatewayFactory = (options: WorkOSGatewayOptions) => WorkOSGateway;
+
+let gatewayFactory: WorkOSGatewayFactory | null = null;
+
+/**
+ * Create a gateway. Returns the injected fake when one is set.
+ */
+export function createWorkOSGateway(options: WorkOSGatewayOptions = {}): WorkOSGateway {
+  return gatewayFactory ? gatewayFactory(options) : new SdkWorkOSGateway(options);
+}
+
+/**
+ * Replace the gateway used by the importer, TOTP enroller and role client
+ * (pass null to restore the SDK gateway)
+ */
+export function setWorkOSGatewayFactory(factory: WorkOSGatewayFactory | null): void {
+  gatewayFactory = factory;
+}
+
+/**
+ * Error report fields (httpStatus, workosCode, workosRequestId, workosErrors)
+ * for any error thrown by a WorkOS call
+ */
+export function workosErrorFields(err: unknown): {
+  httpStatus?: number;
+  workosCode?: string;
+  workosRequestId?: string;
+  workosErrors?: unknown[];
+} {
+  const apiErr = normalizeWorkOSError(err);
+  return {
+    httpStatus: apiErr.status,
+    workosCode: apiErr.code,
+    workosRequestId: apiErr.requestId,
+    workosErrors: apiErr.errors
+  };
+}